@@ -286,3 +286,11 @@ export async function requestUrl(request: RequestUrlParam | string): Promise<Req
 }
 
 export const Vault = MockVault;
+
+export function htmlToMarkdown(html: string): string {
+	return html
+		.replace(/<br\s*\/?>/gi, '\n')
+		.replace(/<\/p>\s*/gi, '\n\n')
+		.replace(/<[^>]+>/g, '')
+		.trim();
+}
@@ -1,12 +1,14 @@
-import { Plugin, Notice, WorkspaceLeaf, Events } from 'obsidian';
-import { PluginSettings, DEFAULT_SETTINGS } from './src/model';
+import { Plugin, Notice, WorkspaceLeaf, Events, Editor, App, TFile } from 'obsidian';
+import { EditorView } from '@codemirror/view';
+import { PluginSettings, DEFAULT_SETTINGS, Episode, EpisodeDownload } from './src/model';
 import {
 	SettingsStore,
 	DataPathManager,
 	SubscriptionStore,
 	ProgressStore,
 	FeedCacheStore,
-	ImageCacheStore
+	ImageCacheStore,
+	TranscriptCacheStore
 } from './src/storage';
 import {
 	PodcastPlayerSettingTab,
@@ -16,16 +18,44 @@ import {
 	PODCAST_SIDEBAR_VIEW_TYPE,
 	PlaylistQueueView,
 	PLAYLIST_QUEUE_VIEW_TYPE,
-	SubscribePodcastModal
+	TranscriptView,
+	TRANSCRIPT_VIEW_TYPE,
+	StatisticsView,
+	STATISTICS_VIEW_TYPE,
+	EpisodeSearchView,
+	EPISODE_SEARCH_VIEW_TYPE,
+	EpisodeBlockPlayer,
+	SubscribePodcastModal,
+	AddNoteModal,
+	NotificationHistoryModal,
+	SleepTimerModal
 } from './src/ui';
-import { PlaylistStore, PlaylistManager } from './src/playlist';
+import { PlaylistStore, PlaylistManager, SmartPlaylistService } from './src/playlist';
 import { QueueStore, QueueManager } from './src/queue';
-import { FeedService, FeedSyncManager } from './src/feed';
-import { PodcastService, EpisodeManager } from './src/podcast';
-import { PlaybackEngine, ProgressTracker, PlayerController } from './src/player';
-import { NoteExporter } from './src/markdown';
+import { FeedService, FeedSyncManager, ChapterService } from './src/feed';
+import { PodcastService, EpisodeManager, PodcastIndexSearchService, DiscoverService } from './src/podcast';
+import { PlaybackEngine, ProgressTracker, PlayerController, MediaSessionManager, AudioEnhancer } from './src/player';
+import {
+	NoteExporter,
+	TimestampLinkHandler,
+	TimestampFormatter,
+	PodcastBlockResolver,
+	DailyNoteService,
+	PODCAST_CODE_BLOCK_LANGUAGE,
+	TIMESTAMP_LINK_SCHEME,
+	TIMESTAMP_PROTOCOL_ACTION,
+	type TimestampLinkTarget
+} from './src/markdown';
+import { DownloadStore, DownloadManager } from './src/download';
+import { TranscriptService } from './src/transcript';
 import { CleanupService } from './src/cleanup/CleanupService';
 import { BackupService } from './src/backup';
+import { NotificationStore, NotificationCenter } from './src/notification';
+import { InboxStore, InboxManager } from './src/inbox';
+import { ListeningLogStore, StatisticsService, HistoryExporter } from './src/stats';
+import { JournalStore, ListeningJournal } from './src/journal';
+import { EpisodeSearchService } from './src/search';
+import { getNextPlaybackSpeed, getPreviousPlaybackSpeed, formatPlaybackSpeed } from './src/utils/audioUtils';
 import { logger } from './src/utils/Logger';
 
 // Type-safe event registration helper for custom podcast events
@@ -35,8 +65,23 @@ type PodcastEvents = Events & {
 	on(name: 'podcast:episode-changed', callback: () => void): ReturnType<Events['on']>;
 	on(name: 'podcast:playlist-updated', callback: (playlistId: string) => void): ReturnType<Events['on']>;
 	on(name: 'podcast:queue-changed', callback: () => void): ReturnType<Events['on']>;
+	on(name: 'podcast:download-updated', callback: (download: EpisodeDownload) => void): ReturnType<Events['on']>;
+	on(name: 'podcast:chapters-updated', callback: () => void): ReturnType<Events['on']>;
+	on(name: 'podcast:time-updated', callback: (position: number) => void): ReturnType<Events['on']>;
+	on(name: 'podcast:inbox-updated', callback: () => void): ReturnType<Events['on']>;
+};
+
+// Community plugins are not part of the public API; only what is used here
+type AppWithPlugins = App & {
+	plugins: { getPlugin(id: string): unknown };
+};
+type TemplaterPlugin = {
+	templater: { overwrite_file_commands(file: TFile): Promise<void> };
 };
 
+/** How often days that ended are logged to the daily note (milliseconds) */
+const JOURNAL_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
 /**
  * Podcast Player Plugin for Obsidian
  *
@@ -60,24 +105,46 @@ export default class PodcastPlayerPlugin extends Plugin {
 	private queueStore: QueueStore;
 	private feedCacheStore: FeedCacheStore;
 	private imageCacheStore: ImageCacheStore;
+	private transcriptCacheStore: TranscriptCacheStore;
+	private downloadStore: DownloadStore;
+	private notificationStore: NotificationStore;
+	private inboxStore: InboxStore;
+	private listeningLogStore: ListeningLogStore;
+	private journalStore: JournalStore;
 
 	// Service layer
 	private feedService: FeedService;
 	private podcastService: PodcastService;
+	private discoverService: DiscoverService;
 	private episodeManager: EpisodeManager;
 	private feedSyncManager: FeedSyncManager;
+	private downloadManager: DownloadManager;
+	private chapterService: ChapterService;
+	private transcriptService: TranscriptService;
+	private notificationCenter: NotificationCenter;
+	private statisticsService: StatisticsService;
+	private episodeSearchService: EpisodeSearchService;
 
 	// Management layer
 	private playlistManager: PlaylistManager;
+	private smartPlaylistService: SmartPlaylistService;
 	private queueManager: QueueManager;
+	private inboxManager: InboxManager;
 
 	// Player layer
 	private playbackEngine: PlaybackEngine;
 	private progressTracker: ProgressTracker;
+	private mediaSessionManager: MediaSessionManager;
+	private audioEnhancer: AudioEnhancer;
 	playerController: PlayerController; // Public for UI access
 
 	// Markdown layer
 	private noteExporter: NoteExporter;
+	private historyExporter: HistoryExporter;
+	private dailyNoteService: DailyNoteService;
+	private listeningJournal: ListeningJournal;
+	private timestampLinkHandler: TimestampLinkHandler;
+	private podcastBlockResolver: PodcastBlockResolver;
 
 	// Cleanup layer
 	private cleanupService: CleanupService;
@@ -109,6 +176,15 @@ export default class PodcastPlayerPlugin extends Plugin {
 		this.queueStore = new QueueStore(this.app.vault, this.pathManager);
 		this.feedCacheStore = new FeedCacheStore(this.app.vault, this.pathManager);
 		this.imageCacheStore = new ImageCacheStore(this.app.vault, this.pathManager);
+		this.transcriptCacheStore = new TranscriptCacheStore(this.app.vault, this.pathManager);
+		this.downloadStore = new DownloadStore(this.app.vault, this.pathManager);
+		this.notificationStore = new NotificationStore(this.app.vault, this.pathManager);
+		this.inboxStore = new InboxStore(this.app.vault, this.pathManager);
+		this.listeningLogStore = new ListeningLogStore(this.app.vault, this.pathManager);
+		this.journalStore = new JournalStore(this.app.vault, this.pathManager);
+
+		// Move the listening log of earlier versions into the monthly history files
+		await this.listeningLogStore.migrateLegacyLog();
 
 		// Initialize service layer
 		this.feedService = new FeedService(this.feedCacheStore);
@@ -117,11 +193,36 @@ export default class PodcastPlayerPlugin extends Plugin {
 			this.subscriptionStore,
 			this.imageCacheStore
 		);
+		this.podcastService.registerSearchProvider(new PodcastIndexSearchService(() => ({
+			apiKey: this.settings.podcastIndexApiKey,
+			apiSecret: this.settings.podcastIndexApiSecret,
+		})));
+		this.discoverService = new DiscoverService(this.feedCacheStore, this.subscriptionStore);
 		this.episodeManager = new EpisodeManager(this.progressStore, this.subscriptionStore);
+		this.statisticsService = new StatisticsService(
+			this.listeningLogStore,
+			this.episodeManager,
+			this.subscriptionStore,
+			this.progressStore
+		);
 
 		// Initialize management layer
 		this.playlistManager = new PlaylistManager(this.playlistStore, this.app);
 		this.queueManager = new QueueManager(this.queueStore, this.app);
+		this.smartPlaylistService = new SmartPlaylistService(
+			this.playlistManager,
+			this.episodeManager,
+			this.subscriptionStore,
+			this.progressStore
+		);
+		// Episodes becoming played, unplayed or in progress change smart playlist results
+		this.progressStore.setChangeHandler(() => {
+			this.smartPlaylistService.scheduleRefresh();
+		});
+		this.inboxManager = new InboxManager(this.inboxStore, this.subscriptionStore, this.progressStore);
+		this.inboxManager.setChangeHandler(() => {
+			this.app.workspace.trigger('podcast:inbox-updated');
+		});
 
 		this.feedSyncManager = new FeedSyncManager(
 			this.feedService,
@@ -131,9 +232,63 @@ export default class PodcastPlayerPlugin extends Plugin {
 			this.settings.feedUpdateInterval * 60 * 1000 // Convert minutes to milliseconds
 		);
 
+		// Initialize downloads for offline playback
+		this.downloadManager = new DownloadManager(this.app.vault, this.pathManager, this.downloadStore, {
+			maxEpisodes: this.settings.maxCacheEpisodes
+		});
+		this.downloadManager.setChangeHandler((download) => {
+			this.app.workspace.trigger('podcast:download-updated', download);
+		});
+
+		// Put new episodes found by feed sync in the inbox and auto-download them
+		this.feedSyncManager.setNewEpisodesHandler(async (podcast, newEpisodes) => {
+			await this.inboxManager.addEpisodes(newEpisodes);
+			if (this.settings.autoDownload) {
+				await this.downloadManager.enqueueEpisodes(newEpisodes);
+			}
+		});
+
+		// Notify about new episodes and feed errors and refresh smart playlists after syncs
+		this.notificationCenter = new NotificationCenter(
+			this.notificationStore,
+			this.subscriptionStore,
+			() => this.settings
+		);
+		this.feedSyncManager.setSyncCompleteHandler(async (result) => {
+			await this.notificationCenter.handleSyncResult(result);
+			await this.smartPlaylistService.refreshAll();
+		});
+
+		// Update feeds in the background once the workspace is ready, unless turned off
+		this.app.workspace.onLayoutReady(() => {
+			if (this.settings.feedUpdateInterval > 0) {
+				this.feedSyncManager.startAutoSync();
+			}
+		});
+
+		// Continue downloads interrupted by the last shutdown
+		void this.downloadManager.resumePending();
+
+		// Initialize chapter loading (Podcasting 2.0 chapters files)
+		this.chapterService = new ChapterService(this.subscriptionStore);
+
+		// Initialize transcript loading
+		this.transcriptService = new TranscriptService(this.transcriptCacheStore);
+
+		// Initialize episode search (indexes offline transcripts too)
+		this.episodeSearchService = new EpisodeSearchService(
+			this.subscriptionStore,
+			this.progressStore,
+			this.transcriptService
+		);
+		this.transcriptService.setTranscriptLoadedHandler((episodeId) => {
+			this.episodeSearchService.invalidateEpisode(episodeId);
+		});
+
 		// Initialize player layer
 		this.playbackEngine = new PlaybackEngine();
 		this.progressTracker = new ProgressTracker(this.progressStore);
+		this.progressTracker.setListeningLog(this.listeningLogStore);
 		this.playerController = new PlayerController(this.playbackEngine, this.progressTracker);
 
 		// Set up settings provider for podcast-specific playback settings
@@ -151,6 +306,36 @@ export default class PodcastPlayerPlugin extends Plugin {
 			}
 		});
 
+		// Play downloaded copies instead of streaming when available, and never trim the playing one
+		this.playerController.setSourceResolver((episode) => this.downloadManager.getPlaybackUrl(episode));
+		this.downloadManager.setPlayingEpisodeResolver(() => this.playerController.getCurrentEpisode()?.id ?? null);
+
+		// Load chapters that are not embedded in the feed
+		this.playerController.setChapterLoader((episode) => this.chapterService.getChapters(episode));
+
+		this.playerController.setEpisodeTransition(this.settings.episodeTransition, this.settings.episodeTransitionSeconds);
+		this.playerController.setSleepTimerFade(this.settings.sleepTimerFadeSeconds);
+
+		// Voice boost and silence skipping (Web Audio, enabled per podcast)
+		this.audioEnhancer = new AudioEnhancer(this.playbackEngine);
+		this.audioEnhancer.setTimeSavedHandler((seconds) => {
+			this.progressStore.addTimeSaved(seconds).catch(error => {
+				logger.warn('Failed to save time saved by skipping silence', error);
+			});
+		});
+		this.playerController.setAudioEnhancer(this.audioEnhancer);
+
+		// Publish playback to OS media controls and route hardware media keys
+		this.mediaSessionManager = new MediaSessionManager(this.playerController, {
+			onPreviousTrack: () => {
+				void this.playPreviousEpisode();
+			},
+			onNextTrack: () => {
+				void this.playNextEpisode();
+			}
+		});
+		this.mediaSessionManager.attach();
+
 		// Set up player event handlers
 		let lastStatus = 'stopped';
 		let lastEpisodeId: string | null = null;
@@ -168,31 +353,31 @@ export default class PodcastPlayerPlugin extends Plugin {
 					lastEpisodeId = state.currentEpisode?.id || null;
 					lastSpeed = state.playbackSpeed;
 
+					this.mediaSessionManager.updatePlaybackState(state.status);
 					this.app.workspace.trigger('podcast:player-state-updated', state);
 				}
 			},
 			onEpisodeChange: (episode) => {
 				lastEpisodeId = episode?.id || null;
+				void this.updateMediaSessionMetadata(episode);
 				this.app.workspace.trigger('podcast:episode-changed', episode);
 			},
+			onChaptersChange: () => {
+				this.app.workspace.trigger('podcast:chapters-updated');
+			},
+			onTimeUpdate: (position) => {
+				this.mediaSessionManager.updatePositionState(
+					position,
+					this.playerController.getDuration(),
+					this.playerController.getState().playbackSpeed
+				);
+				this.app.workspace.trigger('podcast:time-updated', position);
+			},
 			onEpisodeEnded: (episode) => {
-				void (async () => {
-					// When an episode ends, try to play the next one from the queue
-					// and remove the played episode (queue behavior)
-					const currentQueue = await this.queueManager.getCurrentQueue();
-					if (currentQueue && currentQueue.autoPlayNext) {
-						const nextEpisodeId = await this.queueManager.nextAndRemovePlayed(currentQueue.id);
-						if (nextEpisodeId) {
-							// Load and play the next episode
-							const nextEpisode = await this.episodeManager.getEpisodeWithProgress(nextEpisodeId);
-							if (nextEpisode) {
-								await this.playerController.loadEpisode(nextEpisode, true, true);
-							}
-						}
-						// Trigger UI refresh
-						this.app.workspace.trigger('podcast:queue-changed');
-					}
-				})();
+				void this.advanceAfterEpisode(episode);
+			},
+			onSleepTimerEnd: () => {
+				new Notice('Sleep timer ended, playback paused');
 			}
 		});
 
@@ -205,7 +390,8 @@ export default class PodcastPlayerPlugin extends Plugin {
 					const queue = await this.queueManager.getQueue(queueId);
 					if (queue && queue.isPlaylist && queue.sourceId) {
 						const playlist = await this.playlistManager.getPlaylist(queue.sourceId);
-						if (playlist) {
+						// Smart playlists are filled by their rule, not by queue edits
+						if (playlist && !playlist.smartRule) {
 							// Compare episode IDs
 							const queueIds = queue.episodeIds;
 							const playlistIds = playlist.episodeIds;
@@ -272,6 +458,37 @@ export default class PodcastPlayerPlugin extends Plugin {
 
 		// Initialize markdown layer
 		this.noteExporter = new NoteExporter(this.app.vault);
+		this.noteExporter.setTemplaterRunner(async (file) => {
+			// Templater is optional: without it its commands stay in the note
+			const templater = (this.app as AppWithPlugins).plugins.getPlugin('templater-obsidian') as TemplaterPlugin | null;
+			await templater?.templater.overwrite_file_commands(file);
+		});
+		this.historyExporter = new HistoryExporter(this.app.vault);
+
+		// Log listened episodes to the daily note when enabled
+		this.dailyNoteService = new DailyNoteService(this.app.vault, () => this.settings);
+		this.listeningJournal = new ListeningJournal(
+			this.journalStore,
+			this.dailyNoteService,
+			this.listeningLogStore,
+			this.subscriptionStore,
+			() => this.settings
+		);
+		this.progressTracker.setCompletedHandler((episode) => this.listeningJournal.handleEpisodeCompleted(episode));
+		this.app.workspace.onLayoutReady(() => {
+			void this.listeningJournal.journalPendingDays();
+		});
+		this.registerInterval(window.setInterval(() => {
+			void this.listeningJournal.journalPendingDays();
+		}, JOURNAL_CHECK_INTERVAL_MS));
+		this.timestampLinkHandler = new TimestampLinkHandler(this.playerController, this.episodeManager);
+		this.registerTimestampLinks();
+
+		// Render ```podcast``` code blocks as inline players
+		this.podcastBlockResolver = new PodcastBlockResolver(this.subscriptionStore, this.progressStore, this.feedService);
+		this.registerMarkdownCodeBlockProcessor(PODCAST_CODE_BLOCK_LANGUAGE, (source, el, ctx) => {
+			ctx.addChild(new EpisodeBlockPlayer(el, this, source));
+		});
 
 		// Initialize cleanup layer
 		this.cleanupService = new CleanupService(
@@ -337,6 +554,33 @@ export default class PodcastPlayerPlugin extends Plugin {
 			logger.warn(`View ${PLAYLIST_QUEUE_VIEW_TYPE} might be already registered`, e);
 		}
 
+		try {
+			this.registerView(
+				TRANSCRIPT_VIEW_TYPE,
+				(leaf) => new TranscriptView(leaf, this)
+			);
+		} catch (e) {
+			logger.warn(`View ${TRANSCRIPT_VIEW_TYPE} might be already registered`, e);
+		}
+
+		try {
+			this.registerView(
+				STATISTICS_VIEW_TYPE,
+				(leaf) => new StatisticsView(leaf, this)
+			);
+		} catch (e) {
+			logger.warn(`View ${STATISTICS_VIEW_TYPE} might be already registered`, e);
+		}
+
+		try {
+			this.registerView(
+				EPISODE_SEARCH_VIEW_TYPE,
+				(leaf) => new EpisodeSearchView(leaf, this)
+			);
+		} catch (e) {
+			logger.warn(`View ${EPISODE_SEARCH_VIEW_TYPE} might be already registered`, e);
+		}
+
 		// Register settings tab
 		this.addSettingTab(new PodcastPlayerSettingTab(this.app, this));
 
@@ -388,9 +632,563 @@ export default class PodcastPlayerPlugin extends Plugin {
 			}
 		});
 
+		this.addCommand({
+			id: 'open-transcript',
+			name: 'Open transcript',
+			callback: () => {
+				void this.activateTranscriptView();
+			}
+		});
+
+		this.addCommand({
+			id: 'open-statistics',
+			name: 'Open listening statistics',
+			callback: () => {
+				void this.activateStatisticsView();
+			}
+		});
+
+		this.addCommand({
+			id: 'search-episodes',
+			name: 'Search episodes',
+			callback: () => {
+				void this.activateEpisodeSearchView();
+			}
+		});
+
+		this.addCommand({
+			id: 'open-inbox',
+			name: 'Open inbox',
+			callback: () => {
+				void this.activateSidebarView().then(() => {
+					for (const leaf of this.app.workspace.getLeavesOfType(PODCAST_SIDEBAR_VIEW_TYPE)) {
+						if (leaf.view instanceof PodcastSidebarView) {
+							void leaf.view.showInbox();
+						}
+					}
+				});
+			}
+		});
+
+		this.addCommand({
+			id: 'show-notification-history',
+			name: 'Show notification history',
+			callback: () => {
+				new NotificationHistoryModal(this.app, this).open();
+			}
+		});
+
+		this.registerPlaybackCommands();
+
 		logger.info('Podcast Player plugin loaded successfully');
 	}
 
+	/**
+	 * Register hotkey-able playback commands
+	 * Each command is only offered while it can do something.
+	 */
+	private registerPlaybackCommands(): void {
+		const player = this.playerController;
+		const hasEpisode = () => player.getCurrentEpisode() !== null;
+
+		this.addCommand({
+			id: 'play-pause',
+			name: 'Play/pause',
+			checkCallback: (checking: boolean) => {
+				if (!hasEpisode()) return false;
+				if (!checking) {
+					void player.togglePlayPause();
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'skip-forward',
+			name: 'Skip forward',
+			checkCallback: (checking: boolean) => {
+				if (!hasEpisode()) return false;
+				if (!checking) {
+					player.skipForward(30);
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'skip-backward',
+			name: 'Skip backward',
+			checkCallback: (checking: boolean) => {
+				if (!hasEpisode()) return false;
+				if (!checking) {
+					player.skipBackward(15);
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'next-episode',
+			name: 'Next episode in queue',
+			checkCallback: (checking: boolean) => {
+				if (!hasEpisode()) return false;
+				if (player.isPlayingFromPlaylist() && !player.hasNextInPlaylist()) return false;
+				if (!checking) {
+					void this.playNextEpisode().then((played) => {
+						if (!played) new Notice('No next episode');
+					});
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'previous-episode',
+			name: 'Previous episode in queue',
+			checkCallback: (checking: boolean) => {
+				if (!hasEpisode()) return false;
+				if (player.isPlayingFromPlaylist() && !player.hasPreviousInPlaylist()) return false;
+				if (!checking) {
+					void this.playPreviousEpisode().then((played) => {
+						if (!played) new Notice('No previous episode');
+					});
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'speed-up',
+			name: 'Increase playback speed',
+			checkCallback: (checking: boolean) => {
+				const speed = player.getState().playbackSpeed;
+				const nextSpeed = getNextPlaybackSpeed(speed);
+				if (!hasEpisode() || nextSpeed <= speed) return false;
+				if (!checking) {
+					player.setPlaybackSpeed(nextSpeed);
+					new Notice(`Playback speed: ${formatPlaybackSpeed(nextSpeed)}`);
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'speed-down',
+			name: 'Decrease playback speed',
+			checkCallback: (checking: boolean) => {
+				const speed = player.getState().playbackSpeed;
+				const previousSpeed = getPreviousPlaybackSpeed(speed);
+				if (!hasEpisode() || previousSpeed >= speed) return false;
+				if (!checking) {
+					player.setPlaybackSpeed(previousSpeed);
+					new Notice(`Playback speed: ${formatPlaybackSpeed(previousSpeed)}`);
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'toggle-mute',
+			name: 'Mute/unmute',
+			checkCallback: (checking: boolean) => {
+				if (!hasEpisode()) return false;
+				if (!checking) {
+					player.toggleMute();
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'mark-played',
+			name: 'Mark current episode as played',
+			checkCallback: (checking: boolean) => {
+				if (!hasEpisode()) return false;
+				if (!checking) {
+					void player.markEpisodeCompleted().then(() => {
+						new Notice('Marked as played');
+					});
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'add-timestamped-note',
+			name: 'Add timestamped note',
+			checkCallback: (checking: boolean) => {
+				if (!hasEpisode()) return false;
+				if (!checking) {
+					void this.openAddNoteModal();
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'insert-timestamp',
+			name: 'Insert current timestamp at cursor',
+			editorCheckCallback: (checking: boolean, editor: Editor) => {
+				const timestamp = this.formatCurrentTimestamp();
+				if (!timestamp) return false;
+				if (!checking) {
+					editor.replaceSelection(timestamp);
+					this.recordCurrentTimestamp();
+				}
+				return true;
+			}
+		});
+
+		this.registerEvent(
+			this.app.workspace.on('editor-menu', (menu, editor) => {
+				const timestamp = this.formatCurrentTimestamp();
+				if (!timestamp) return;
+
+				menu.addItem((item) => item
+					.setTitle('Insert podcast timestamp')
+					.setIcon('clock')
+					.onClick(() => {
+						editor.replaceSelection(timestamp);
+						this.recordCurrentTimestamp();
+					}));
+			})
+		);
+
+		this.addCommand({
+			id: 'start-sleep-timer',
+			name: 'Start sleep timer',
+			checkCallback: (checking: boolean) => {
+				if (!hasEpisode()) return false;
+				if (!checking) {
+					new SleepTimerModal(this.app, player).open();
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'extend-sleep-timer',
+			name: `Extend sleep timer by ${SleepTimerModal.EXTEND_MINUTES} minutes`,
+			checkCallback: (checking: boolean) => {
+				if (!player.getSleepTimer()) return false;
+				if (!checking) {
+					player.extendSleepTimer(SleepTimerModal.EXTEND_MINUTES);
+					const timer = player.getSleepTimer();
+					if (timer) {
+						new Notice(`Sleep timer: ${SleepTimerModal.describe(timer)} left`);
+					}
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'cancel-sleep-timer',
+			name: 'Cancel sleep timer',
+			checkCallback: (checking: boolean) => {
+				if (!player.getSleepTimer()) return false;
+				if (!checking) {
+					player.cancelSleepTimer();
+					new Notice('Sleep timer cancelled');
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'next-chapter',
+			name: 'Next chapter',
+			checkCallback: (checking: boolean) => {
+				if (player.getChapters().length === 0) return false;
+				if (!checking && !player.nextChapter()) {
+					new Notice('No next chapter');
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'previous-chapter',
+			name: 'Previous chapter',
+			checkCallback: (checking: boolean) => {
+				if (player.getChapters().length === 0) return false;
+				if (!checking && !player.previousChapter()) {
+					new Notice('No previous chapter');
+				}
+				return true;
+			}
+		});
+	}
+
+	/**
+	 * Format the current playback position with the timestamp settings
+	 * Returns null when no episode is loaded.
+	 */
+	formatCurrentTimestamp(): string | null {
+		const episode = this.playerController.getCurrentEpisode();
+		if (!episode) {
+			return null;
+		}
+
+		return TimestampFormatter.formatTimestamp(Math.floor(this.playerController.getCurrentPosition()), episode, {
+			style: this.settings.timestampStyle,
+			customTemplate: this.settings.timestampTemplate,
+		});
+	}
+
+	/**
+	 * Remember the current position for the daily note journal
+	 */
+	private recordCurrentTimestamp(): void {
+		const episode = this.playerController.getCurrentEpisode();
+		if (!episode) {
+			return;
+		}
+
+		this.listeningJournal.recordTimestamp(episode, this.playerController.getCurrentPosition()).catch((error) => {
+			logger.warn('Failed to record timestamp for the journal', error);
+		});
+	}
+
+	/**
+	 * Open the add note modal for the current episode and position
+	 */
+	private async openAddNoteModal(): Promise<void> {
+		const episode = this.playerController.getCurrentEpisode();
+		if (!episode) {
+			new Notice('No episode is currently playing');
+			return;
+		}
+
+		const position = this.playerController.getCurrentPosition();
+
+		let podcast = null;
+		try {
+			podcast = await this.subscriptionStore.getPodcast(episode.podcastId);
+		} catch (error) {
+			logger.error('Failed to get podcast info', error);
+		}
+
+		new AddNoteModal(this.app, this, episode, podcast, position, () => {}).open();
+	}
+
+	/**
+	 * Make podcast:// timestamp links in notes seek the player
+	 */
+	private registerTimestampLinks(): void {
+		// Reading mode: mark rendered timestamp links so they can be styled
+		this.registerMarkdownPostProcessor((element) => {
+			element.querySelectorAll<HTMLAnchorElement>(`a[href^="${TIMESTAMP_LINK_SCHEME}"]`).forEach((link) => {
+				link.addClass('podcast-timestamp-link');
+				link.removeAttribute('target');
+			});
+		});
+
+		// Intercept clicks in capture phase, before Obsidian tries to open the URL externally
+		this.registerDomEvent(document, 'click', (evt: MouseEvent) => {
+			const target = this.getTimestampLinkFromEvent(evt);
+			if (!target) return;
+
+			evt.preventDefault();
+			evt.stopPropagation();
+			void this.openTimestampLink(target);
+		}, { capture: true });
+
+		// obsidian://podcast-player?episode=<id>&t=<seconds>
+		this.registerObsidianProtocolHandler(TIMESTAMP_PROTOCOL_ACTION, (params) => {
+			const target = TimestampLinkHandler.parseProtocolParams(params);
+			if (!target) {
+				new Notice('Invalid podcast link');
+				return;
+			}
+			void this.openTimestampLink(target);
+		});
+	}
+
+	/**
+	 * Resolve the timestamp link under a click, in reading or live preview mode
+	 */
+	private getTimestampLinkFromEvent(evt: MouseEvent): TimestampLinkTarget | null {
+		const el = evt.target;
+		if (!(el instanceof HTMLElement)) return null;
+
+		// Reading mode and rendered anchors carry the href directly
+		const href = el.closest('a')?.getAttribute('href');
+		if (href) {
+			return TimestampLinkHandler.parseLink(href);
+		}
+
+		// Live preview hides the link target, so look it up in the source line
+		if (!el.closest('.cm-link, .cm-url')) return null;
+		const editorEl = el.closest('.cm-editor');
+		if (!(editorEl instanceof HTMLElement)) return null;
+
+		const view = EditorView.findFromDOM(editorEl);
+		if (!view) return null;
+
+		try {
+			const pos = view.posAtDOM(el);
+			const line = view.state.doc.lineAt(pos);
+			return TimestampLinkHandler.findLinkAt(line.text, pos - line.from);
+		} catch (error) {
+			logger.debug('Could not resolve live preview link', error);
+			return null;
+		}
+	}
+
+	/**
+	 * Jump to a timestamp link target and report failures to the user
+	 */
+	private async openTimestampLink(target: TimestampLinkTarget): Promise<void> {
+		try {
+			const handled = await this.timestampLinkHandler.seekTo(target);
+			if (!handled) {
+				new Notice('Episode for this timestamp was not found');
+			}
+		} catch (error) {
+			logger.error('Failed to open timestamp link', error);
+			new Notice('Failed to jump to timestamp');
+		}
+	}
+
+	/**
+	 * Publish the current episode and its podcast to the media session
+	 */
+	private async updateMediaSessionMetadata(episode: Episode | null): Promise<void> {
+		try {
+			const podcast = episode ? await this.subscriptionStore.getPodcast(episode.podcastId) : null;
+			this.mediaSessionManager.updateMetadata(episode, podcast);
+		} catch (error) {
+			logger.warn('Failed to update media session metadata', error);
+			this.mediaSessionManager.updateMetadata(episode);
+		}
+	}
+
+	/**
+	 * Play the next episode of the current playlist or queue
+	 * Returns false when there is no next episode.
+	 */
+	async playNextEpisode(): Promise<boolean> {
+		const episodeId = this.playerController.isPlayingFromPlaylist()
+			? this.playerController.getNextPlaylistEpisodeId()
+			: await this.getAdjacentQueueEpisodeId('next');
+
+		return this.playEpisodeById(episodeId);
+	}
+
+	/**
+	 * Play the previous episode of the current playlist or queue
+	 * Returns false when there is no previous episode.
+	 */
+	async playPreviousEpisode(): Promise<boolean> {
+		const episodeId = this.playerController.isPlayingFromPlaylist()
+			? this.playerController.getPreviousPlaylistEpisodeId()
+			: await this.getAdjacentQueueEpisodeId('previous');
+
+		return this.playEpisodeById(episodeId);
+	}
+
+	/**
+	 * Move the current queue to its next or previous episode
+	 */
+	private async getAdjacentQueueEpisodeId(direction: 'next' | 'previous'): Promise<string | null> {
+		const queue = await this.queueManager.getCurrentQueue();
+		if (!queue) {
+			return null;
+		}
+
+		return direction === 'next'
+			? this.queueManager.next(queue.id)
+			: this.queueManager.previous(queue.id);
+	}
+
+	/**
+	 * Continue with the next episode after one ends
+	 * Follows the current queue's auto-play and repeat settings, or the
+	 * playlist being played when there is no queue.
+	 */
+	private async advanceAfterEpisode(endedEpisode: Episode): Promise<void> {
+		let advanced = false;
+
+		try {
+			let nextEpisodeId: string | null;
+			// After the sleep timer the next episode is loaded but not started
+			const autoPlay = !this.playerController.isSleeping();
+
+			const currentQueue = await this.queueManager.getCurrentQueue();
+			if (currentQueue) {
+				if (!currentQueue.autoPlayNext) {
+					return;
+				}
+				// Queues consume played episodes; "repeat one" returns the same episode
+				nextEpisodeId = await this.queueManager.nextAndRemovePlayed(currentQueue.id);
+				this.app.workspace.trigger('podcast:queue-changed');
+			} else if (this.playerController.isPlayingFromPlaylist()) {
+				nextEpisodeId = this.playerController.getNextPlaylistEpisodeId();
+			} else {
+				return;
+			}
+
+			if (!nextEpisodeId || (autoPlay && !(await this.waitBetweenEpisodes(endedEpisode)))) {
+				return;
+			}
+
+			if (nextEpisodeId === endedEpisode.id) {
+				if (autoPlay) {
+					await this.playerController.restartEpisode();
+					advanced = true;
+				}
+			} else {
+				advanced = await this.playEpisodeById(nextEpisodeId, autoPlay);
+			}
+		} catch (error) {
+			logger.error('Failed to advance to the next episode', error);
+		} finally {
+			// Nothing follows, so the next episode played must not fade in
+			if (!advanced) {
+				this.playerController.cancelEpisodeTransition();
+			}
+		}
+	}
+
+	/**
+	 * Wait for the configured gap between episodes
+	 * Returns false when the user started playing something else meanwhile.
+	 */
+	private async waitBetweenEpisodes(endedEpisode: Episode): Promise<boolean> {
+		const { episodeTransition, episodeTransitionSeconds } = this.settings;
+		if (episodeTransition !== 'gap' || episodeTransitionSeconds <= 0) {
+			return true;
+		}
+
+		await new Promise(resolve => window.setTimeout(resolve, episodeTransitionSeconds * 1000));
+
+		return this.playerController.getState().status === 'stopped'
+			&& this.playerController.getCurrentEpisode()?.id === endedEpisode.id;
+	}
+
+	/**
+	 * Load and play an episode by ID
+	 */
+	private async playEpisodeById(episodeId: string | null, autoPlay = true): Promise<boolean> {
+		if (!episodeId) {
+			return false;
+		}
+
+		try {
+			const episode = await this.episodeManager.getEpisodeWithProgress(episodeId);
+			if (!episode) {
+				return false;
+			}
+
+			await this.playerController.loadEpisode(episode, autoPlay, true);
+			return true;
+		} catch (error) {
+			logger.error('Failed to play episode', error);
+			return false;
+		}
+	}
+
 	/**
 	 * Plugin lifecycle: Called when the plugin is unloaded
 	 */
@@ -402,11 +1200,31 @@ export default class PodcastPlayerPlugin extends Plugin {
 			this.feedSyncManager.stopAutoSync();
 		}
 
+		// Cancel pending smart playlist refreshes
+		if (this.smartPlaylistService) {
+			this.smartPlaylistService.stop();
+		}
+
+		// Stop downloads (unfinished ones resume on next load)
+		if (this.downloadManager) {
+			this.downloadManager.stop();
+		}
+
+		// Release OS media controls
+		if (this.mediaSessionManager) {
+			this.mediaSessionManager.detach();
+		}
+
 		// Stop player
 		if (this.playerController) {
 			void this.playerController.stop();
 		}
 
+		// Release the Web Audio graph and record pending time saved
+		if (this.audioEnhancer) {
+			this.audioEnhancer.destroy();
+		}
+
 		// Stop cleanup service
 		if (this.cleanupService) {
 			this.cleanupService.stop();
@@ -459,6 +1277,31 @@ export default class PodcastPlayerPlugin extends Plugin {
 			// Update path manager if data folder path changed
 			this.pathManager.updateBasePath(this.settings.dataFolderPath);
 
+			if (this.downloadManager) {
+				this.downloadManager.setMaxEpisodes(this.settings.maxCacheEpisodes);
+			}
+
+			if (this.playerController) {
+				this.playerController.setEpisodeTransition(this.settings.episodeTransition, this.settings.episodeTransitionSeconds);
+				this.playerController.setSleepTimerFade(this.settings.sleepTimerFadeSeconds);
+			}
+
+			if (this.feedSyncManager) {
+				const syncInterval = this.settings.feedUpdateInterval * 60 * 1000;
+				const status = this.feedSyncManager.getSyncStatus();
+				if (syncInterval <= 0) {
+					this.feedSyncManager.stopAutoSync();
+				} else {
+					if (status.syncInterval !== syncInterval) {
+						this.feedSyncManager.setSyncInterval(syncInterval);
+					}
+					// Turned back on; the first sync waits for the interval
+					if (!status.isAutoSyncEnabled && this.app.workspace.layoutReady) {
+						this.feedSyncManager.startAutoSync(false);
+					}
+				}
+			}
+
 			logger.info('Settings saved successfully');
 		} catch (error) {
 			logger.error('Failed to save settings', error);
@@ -565,6 +1408,13 @@ export default class PodcastPlayerPlugin extends Plugin {
 		return this.subscriptionStore;
 	}
 
+	/**
+	 * Get the progress store (for UI components)
+	 */
+	getProgressStore(): ProgressStore {
+		return this.progressStore;
+	}
+
 	/**
 	 * Get the podcast service (for UI components)
 	 */
@@ -572,6 +1422,13 @@ export default class PodcastPlayerPlugin extends Plugin {
 		return this.podcastService;
 	}
 
+	/**
+	 * Get the discover service (for UI components)
+	 */
+	getDiscoverService(): DiscoverService {
+		return this.discoverService;
+	}
+
 	/**
 	 * Get the episode manager (for UI components)
 	 */
@@ -586,6 +1443,13 @@ export default class PodcastPlayerPlugin extends Plugin {
 		return this.playlistManager;
 	}
 
+	/**
+	 * Get the smart playlist service (for UI components)
+	 */
+	getSmartPlaylistService(): SmartPlaylistService {
+		return this.smartPlaylistService;
+	}
+
 	/**
 	 * Get the queue manager (for UI components)
 	 */
@@ -593,6 +1457,34 @@ export default class PodcastPlayerPlugin extends Plugin {
 		return this.queueManager;
 	}
 
+	/**
+	 * Get the inbox manager (for UI components)
+	 */
+	getInboxManager(): InboxManager {
+		return this.inboxManager;
+	}
+
+	/**
+	 * Get the statistics service (for UI components)
+	 */
+	getStatisticsService(): StatisticsService {
+		return this.statisticsService;
+	}
+
+	/**
+	 * Get the episode search service (for UI components)
+	 */
+	getEpisodeSearchService(): EpisodeSearchService {
+		return this.episodeSearchService;
+	}
+
+	/**
+	 * Get the notification center (for UI components)
+	 */
+	getNotificationCenter(): NotificationCenter {
+		return this.notificationCenter;
+	}
+
 	/**
 	 * Get the feed sync manager (for UI components)
 	 */
@@ -600,6 +1492,20 @@ export default class PodcastPlayerPlugin extends Plugin {
 		return this.feedSyncManager;
 	}
 
+	/**
+	 * Get the download manager (for UI components)
+	 */
+	getDownloadManager(): DownloadManager {
+		return this.downloadManager;
+	}
+
+	/**
+	 * Get the transcript service (for UI components)
+	 */
+	getTranscriptService(): TranscriptService {
+		return this.transcriptService;
+	}
+
 	/**
 	 * Get the note exporter (for UI components)
 	 */
@@ -607,6 +1513,41 @@ export default class PodcastPlayerPlugin extends Plugin {
 		return this.noteExporter;
 	}
 
+	/**
+	 * Get the daily note service (for UI components)
+	 */
+	getDailyNoteService(): DailyNoteService {
+		return this.dailyNoteService;
+	}
+
+	/**
+	 * Get the listening journal (for UI components)
+	 */
+	getListeningJournal(): ListeningJournal {
+		return this.listeningJournal;
+	}
+
+	/**
+	 * Get the history exporter (for UI components)
+	 */
+	getHistoryExporter(): HistoryExporter {
+		return this.historyExporter;
+	}
+
+	/**
+	 * Get the timestamp link handler (for UI components)
+	 */
+	getTimestampLinkHandler(): TimestampLinkHandler {
+		return this.timestampLinkHandler;
+	}
+
+	/**
+	 * Get the podcast block resolver (for UI components)
+	 */
+	getPodcastBlockResolver(): PodcastBlockResolver {
+		return this.podcastBlockResolver;
+	}
+
 	/**
 	 * Get the backup service (for UI components)
 	 */
@@ -647,4 +1588,95 @@ export default class PodcastPlayerPlugin extends Plugin {
 
 		logger.methodExit('PodcastPlayerPlugin', 'activatePlaylistQueueView');
 	}
+
+	/**
+	 * Activate the transcript view
+	 */
+	async activateTranscriptView() {
+		logger.methodEntry('PodcastPlayerPlugin', 'activateTranscriptView');
+
+		const { workspace } = this.app;
+
+		// Check if view is already open
+		let leaf: WorkspaceLeaf | null = null;
+		const leaves = workspace.getLeavesOfType(TRANSCRIPT_VIEW_TYPE);
+
+		if (leaves.length > 0) {
+			// View already exists, reveal it
+			leaf = leaves[0];
+		} else {
+			// Create new view in right sidebar
+			leaf = workspace.getRightLeaf(false);
+			if (leaf) {
+				await leaf.setViewState({
+					type: TRANSCRIPT_VIEW_TYPE,
+					active: true
+				});
+			}
+		}
+
+		// Reveal the leaf
+		if (leaf) {
+			await workspace.revealLeaf(leaf);
+		}
+
+		logger.methodExit('PodcastPlayerPlugin', 'activateTranscriptView');
+	}
+
+	/**
+	 * Activate the listening statistics view
+	 */
+	async activateStatisticsView() {
+		logger.methodEntry('PodcastPlayerPlugin', 'activateStatisticsView');
+
+		const { workspace } = this.app;
+
+		// Check if view is already open
+		let leaf: WorkspaceLeaf | null = null;
+		const leaves = workspace.getLeavesOfType(STATISTICS_VIEW_TYPE);
+
+		if (leaves.length > 0) {
+			// View already exists, reveal it
+			leaf = leaves[0];
+		} else {
+			// The dashboard needs room, open it in a tab
+			leaf = workspace.getLeaf('tab');
+			await leaf.setViewState({
+				type: STATISTICS_VIEW_TYPE,
+				active: true
+			});
+		}
+
+		await workspace.revealLeaf(leaf);
+
+		logger.methodExit('PodcastPlayerPlugin', 'activateStatisticsView');
+	}
+
+	/**
+	 * Activate the episode search view
+	 */
+	async activateEpisodeSearchView() {
+		logger.methodEntry('PodcastPlayerPlugin', 'activateEpisodeSearchView');
+
+		const { workspace } = this.app;
+
+		// Check if view is already open
+		let leaf: WorkspaceLeaf | null = null;
+		const leaves = workspace.getLeavesOfType(EPISODE_SEARCH_VIEW_TYPE);
+
+		if (leaves.length > 0) {
+			// View already exists, reveal it
+			leaf = leaves[0];
+		} else {
+			leaf = workspace.getLeaf('tab');
+			await leaf.setViewState({
+				type: EPISODE_SEARCH_VIEW_TYPE,
+				active: true
+			});
+		}
+
+		await workspace.revealLeaf(leaf);
+
+		logger.methodExit('PodcastPlayerPlugin', 'activateEpisodeSearchView');
+	}
 }
@@ -443,7 +443,7 @@ ${outlines}
 			errors.push(msg);
 		}
 
-		// Clear cache (feeds and images)
+		// Clear cache (feeds, images and transcripts)
 		try {
 			const cacheFeeds = await this.pathManager.listFiles('cacheFeed');
 			for (const filePath of cacheFeeds) {
@@ -470,6 +470,19 @@ ${outlines}
 			errors.push(msg);
 		}
 
+		try {
+			const cacheTranscripts = await this.pathManager.listFiles('cacheTranscripts');
+			for (const filePath of cacheTranscripts) {
+				await this.vault.adapter.remove(filePath);
+				deletedItems++;
+			}
+			logger.info('Cleared transcript cache');
+		} catch (error) {
+			const msg = 'Failed to clear transcript cache';
+			logger.error(msg, error);
+			errors.push(msg);
+		}
+
 		logger.methodExit('BackupService', 'deleteAllData');
 		return {
 			success: errors.length === 0,
@@ -0,0 +1,633 @@
+/**
+ * DownloadManager - Downloads episode audio for offline playback
+ *
+ * Fetches episode enclosures in ranged chunks into the data folder, so an
+ * interrupted download can continue where it stopped. Completed downloads
+ * are trimmed to the configured maximum, oldest first, never removing the
+ * episode that is playing.
+ */
+
+import { Vault, FileSystemAdapter, requestUrl, RequestUrlResponse } from 'obsidian';
+import { logger } from '../utils/Logger';
+import { NetworkError, retryWithBackoff, getErrorMessage } from '../utils/errorUtils';
+import { Episode, EpisodeDownload } from '../model';
+import { DataPathManager } from '../storage/DataPathManager';
+import { DownloadStore } from './DownloadStore';
+
+/**
+ * Download manager options
+ */
+export interface DownloadManagerOptions {
+	/** Maximum number of completed downloads to keep (0 = unlimited) */
+	maxEpisodes?: number;
+	/** Size of each ranged request in bytes */
+	chunkSize?: number;
+	/** Retries per chunk before the download is marked failed */
+	maxRetries?: number;
+}
+
+/**
+ * Callback invoked whenever a download record changes
+ */
+export type DownloadChangeHandler = (download: EpisodeDownload) => void;
+
+/**
+ * Returns the ID of the episode currently loaded in the player, if any
+ */
+export type PlayingEpisodeResolver = () => string | null;
+
+/**
+ * Download Manager
+ */
+export class DownloadManager {
+	private static readonly DEFAULT_CHUNK_SIZE = 4 * 1024 * 1024; // 4 MB
+
+	private vault: Vault;
+	private pathManager: DataPathManager;
+	private store: DownloadStore;
+	private maxEpisodes: number;
+	private chunkSize: number;
+	private maxRetries: number;
+
+	private pending: EpisodeDownload[] = [];
+	private activeEpisodeId: string | null = null;
+	private processing = false;
+	private stopped = false;
+	private cancelled: Set<string> = new Set();
+	private changeHandler: DownloadChangeHandler | null = null;
+	private playingEpisodeResolver: PlayingEpisodeResolver | null = null;
+
+	constructor(
+		vault: Vault,
+		pathManager: DataPathManager,
+		store: DownloadStore,
+		options: DownloadManagerOptions = {}
+	) {
+		this.vault = vault;
+		this.pathManager = pathManager;
+		this.store = store;
+		this.maxEpisodes = options.maxEpisodes ?? 0;
+		this.chunkSize = options.chunkSize ?? DownloadManager.DEFAULT_CHUNK_SIZE;
+		this.maxRetries = options.maxRetries ?? 3;
+	}
+
+	/**
+	 * Set a handler notified when a download changes state or makes progress
+	 */
+	setChangeHandler(handler: DownloadChangeHandler | null): void {
+		this.changeHandler = handler;
+	}
+
+	/**
+	 * Set a resolver for the playing episode, whose download is never trimmed
+	 */
+	setPlayingEpisodeResolver(resolver: PlayingEpisodeResolver | null): void {
+		this.playingEpisodeResolver = resolver;
+	}
+
+	/**
+	 * Update the maximum number of completed downloads to keep
+	 */
+	setMaxEpisodes(count: number): void {
+		this.maxEpisodes = Math.max(0, count);
+	}
+
+	/**
+	 * Queue an episode for download
+	 * Returns the existing record if the episode is already downloaded or pending.
+	 */
+	async enqueue(episode: Episode): Promise<EpisodeDownload> {
+		logger.methodEntry('DownloadManager', 'enqueue', episode.id);
+
+		const existing = await this.store.getDownload(episode.id);
+
+		if (existing && existing.status === 'done' && await this.vault.adapter.exists(existing.localPath)) {
+			logger.methodExit('DownloadManager', 'enqueue', 'already downloaded');
+			return existing;
+		}
+
+		if (existing && this.isPending(episode.id)) {
+			logger.methodExit('DownloadManager', 'enqueue', 'already pending');
+			return existing;
+		}
+
+		// Keep partial progress if the enclosure hasn't changed
+		const canResume = existing && existing.status !== 'done' && existing.audioUrl === episode.audioUrl;
+
+		const record: EpisodeDownload = canResume ? existing : {
+			episodeId: episode.id,
+			podcastId: episode.podcastId,
+			audioUrl: episode.audioUrl,
+			localPath: this.pathManager.getFilePath('downloads', this.getDownloadFilename(episode)),
+			status: 'queued',
+			bytesDownloaded: 0,
+			chunksCompleted: 0,
+			mimeType: episode.mimeType,
+			queuedAt: new Date(),
+		};
+
+		if (existing && !canResume) {
+			await this.removeFiles(existing);
+		}
+
+		record.status = 'queued';
+		record.error = undefined;
+		this.cancelled.delete(record.episodeId);
+
+		await this.store.saveDownload(record);
+		this.notify(record);
+
+		this.pending.push(record);
+		void this.processQueue();
+
+		logger.methodExit('DownloadManager', 'enqueue');
+		return record;
+	}
+
+	/**
+	 * Queue several episodes for download
+	 */
+	async enqueueEpisodes(episodes: Episode[]): Promise<void> {
+		for (const episode of episodes) {
+			try {
+				await this.enqueue(episode);
+			} catch (error) {
+				logger.error(`Failed to queue download: ${episode.id}`, error);
+			}
+		}
+	}
+
+	/**
+	 * Resume downloads that were queued or in progress when the plugin stopped
+	 */
+	async resumePending(): Promise<void> {
+		logger.methodEntry('DownloadManager', 'resumePending');
+
+		const downloads = await this.store.getAllDownloads();
+		const unfinished = downloads.filter(d => d.status === 'queued' || d.status === 'downloading');
+
+		for (const record of unfinished) {
+			if (!this.isPending(record.episodeId)) {
+				record.status = 'queued';
+				this.pending.push(record);
+			}
+		}
+
+		if (unfinished.length > 0) {
+			logger.info(`Resuming ${unfinished.length} downloads`);
+			void this.processQueue();
+		}
+
+		logger.methodExit('DownloadManager', 'resumePending');
+	}
+
+	/**
+	 * Get the download record for an episode
+	 */
+	async getDownload(episodeId: string): Promise<EpisodeDownload | null> {
+		return this.store.getDownload(episodeId);
+	}
+
+	/**
+	 * Get all download records
+	 */
+	async getAllDownloads(): Promise<EpisodeDownload[]> {
+		return this.store.getAllDownloads();
+	}
+
+	/**
+	 * Get the path of a completed download, or null if not available offline
+	 */
+	async getLocalPath(episodeId: string): Promise<string | null> {
+		const download = await this.store.getDownload(episodeId);
+
+		if (!download || download.status !== 'done') {
+			return null;
+		}
+
+		if (!(await this.vault.adapter.exists(download.localPath))) {
+			logger.warn('Downloaded file missing, forgetting download', download.localPath);
+			await this.store.removeDownload(episodeId);
+			return null;
+		}
+
+		return download.localPath;
+	}
+
+	/**
+	 * Get a URL the audio element can play for a downloaded episode
+	 */
+	async getPlaybackUrl(episode: Episode): Promise<string | null> {
+		const localPath = await this.getLocalPath(episode.id);
+		return localPath ? this.vault.adapter.getResourcePath(localPath) : null;
+	}
+
+	/**
+	 * Delete a download (cancelling it if in progress)
+	 */
+	async deleteDownload(episodeId: string): Promise<void> {
+		logger.methodEntry('DownloadManager', 'deleteDownload', episodeId);
+
+		this.pending = this.pending.filter(d => d.episodeId !== episodeId);
+		if (this.activeEpisodeId === episodeId) {
+			this.cancelled.add(episodeId);
+		}
+
+		const download = await this.store.getDownload(episodeId);
+		if (download) {
+			await this.removeFiles(download);
+			await this.store.removeDownload(episodeId);
+		}
+
+		logger.methodExit('DownloadManager', 'deleteDownload');
+	}
+
+	/**
+	 * Remove the oldest completed downloads beyond the configured maximum
+	 * The playing episode counts towards the maximum but is kept.
+	 */
+	async enforceLimit(): Promise<number> {
+		if (this.maxEpisodes <= 0) {
+			return 0;
+		}
+
+		const playingEpisodeId = this.getPlayingEpisodeId();
+		const downloads = await this.store.getAllDownloads();
+		const completed = downloads
+			.filter(d => d.status === 'done')
+			.sort((a, b) => this.getCompletedTime(b) - this.getCompletedTime(a));
+
+		const excess = completed
+			.slice(this.maxEpisodes)
+			.filter(d => d.episodeId !== playingEpisodeId);
+		for (const download of excess) {
+			await this.deleteDownload(download.episodeId);
+		}
+
+		if (excess.length > 0) {
+			logger.info(`Removed ${excess.length} old downloads`);
+		}
+
+		return excess.length;
+	}
+
+	/**
+	 * Stop processing after the current chunk; unfinished downloads resume later
+	 */
+	stop(): void {
+		this.stopped = true;
+		this.pending = [];
+	}
+
+	/**
+	 * Check whether an episode is waiting or downloading
+	 */
+	private isPending(episodeId: string): boolean {
+		return this.activeEpisodeId === episodeId || this.pending.some(d => d.episodeId === episodeId);
+	}
+
+	/**
+	 * Download queued episodes one at a time
+	 */
+	private async processQueue(): Promise<void> {
+		if (this.processing) {
+			return;
+		}
+
+		this.processing = true;
+		this.stopped = false;
+
+		try {
+			while (this.pending.length > 0 && !this.stopped) {
+				const record = this.pending.shift()!;
+				this.activeEpisodeId = record.episodeId;
+
+				try {
+					await this.download(record);
+				} catch (error) {
+					if (this.cancelled.has(record.episodeId)) {
+						await this.discardCancelled(record);
+						continue;
+					}
+
+					logger.error(`Download failed: ${record.episodeId}`, error);
+					record.status = 'failed';
+					record.error = getErrorMessage(error);
+					await this.store.saveDownload(record);
+					this.notify(record);
+				} finally {
+					this.cancelled.delete(record.episodeId);
+					this.activeEpisodeId = null;
+				}
+			}
+		} finally {
+			this.processing = false;
+		}
+	}
+
+	/**
+	 * Download an episode chunk by chunk, continuing from any saved progress
+	 */
+	private async download(record: EpisodeDownload): Promise<void> {
+		logger.methodEntry('DownloadManager', 'download', record.episodeId);
+
+		record.status = 'downloading';
+		await this.store.saveDownload(record);
+		this.notify(record);
+
+		while (true) {
+			if (this.cancelled.has(record.episodeId)) {
+				await this.discardCancelled(record);
+				logger.methodExit('DownloadManager', 'download', 'cancelled');
+				return;
+			}
+
+			if (this.stopped) {
+				record.status = 'queued';
+				await this.store.saveDownload(record);
+				logger.methodExit('DownloadManager', 'download', 'stopped');
+				return;
+			}
+
+			if (record.totalBytes !== undefined && record.bytesDownloaded >= record.totalBytes) {
+				break;
+			}
+
+			const start = record.bytesDownloaded;
+			const response = await this.fetchChunk(record.audioUrl, start, start + this.chunkSize - 1);
+
+			// Deleted while the chunk was in flight
+			if (this.cancelled.has(record.episodeId)) {
+				continue;
+			}
+
+			if (response.status === 416) {
+				// Range starts at or past the end of the file
+				if (start > 0) {
+					break;
+				}
+				throw new NetworkError('HTTP 416: Server refused to send the episode', record.audioUrl, undefined, 416);
+			}
+
+			if (response.status !== 206) {
+				// Server ignored the Range header and sent the whole file
+				await this.writeWholeFile(record, response);
+				break;
+			}
+
+			const range = this.parseContentRange(this.getHeader(response, 'content-range'));
+			if (range && range.start !== start) {
+				throw new NetworkError(`Unexpected range ${range.start} (expected ${start})`, record.audioUrl);
+			}
+
+			const data = response.arrayBuffer;
+			await this.vault.adapter.writeBinary(this.getPartPath(record, record.chunksCompleted), data);
+
+			record.chunksCompleted++;
+			record.bytesDownloaded += data.byteLength;
+			record.totalBytes = range?.total ?? record.totalBytes;
+			record.mimeType = this.getHeader(response, 'content-type') || record.mimeType;
+			await this.store.saveDownload(record);
+			this.notify(record);
+
+			// Without a known total, a short chunk marks the end of the file
+			if (data.byteLength === 0 || (record.totalBytes === undefined && data.byteLength < this.chunkSize)) {
+				break;
+			}
+		}
+
+		if (record.chunksCompleted > 0) {
+			await this.assembleChunks(record);
+		}
+
+		if (this.cancelled.has(record.episodeId)) {
+			await this.discardCancelled(record);
+			logger.methodExit('DownloadManager', 'download', 'cancelled');
+			return;
+		}
+
+		record.status = 'done';
+		record.completedAt = new Date();
+		await this.store.saveDownload(record);
+		this.notify(record);
+
+		logger.info('Download completed', record.episodeId);
+		await this.enforceLimit();
+
+		logger.methodExit('DownloadManager', 'download');
+	}
+
+	/**
+	 * Request a byte range of the enclosure
+	 */
+	private async fetchChunk(url: string, start: number, end: number): Promise<RequestUrlResponse> {
+		return retryWithBackoff(
+			async () => {
+				const response = await requestUrl({
+					url,
+					method: 'GET',
+					headers: { Range: `bytes=${start}-${end}` },
+					throw: false,
+				});
+
+				if (response.status >= 400 && response.status !== 416) {
+					throw new NetworkError(`HTTP ${response.status}: Failed to download episode`, url);
+				}
+
+				return response;
+			},
+			{
+				maxRetries: this.maxRetries,
+				initialDelay: 1000,
+				maxDelay: 10000,
+			}
+		);
+	}
+
+	/**
+	 * Store a full (non-ranged) response, discarding any partial chunks
+	 */
+	private async writeWholeFile(record: EpisodeDownload, response: RequestUrlResponse): Promise<void> {
+		await this.removeParts(record);
+
+		const data = response.arrayBuffer;
+		await this.vault.adapter.writeBinary(record.localPath, data);
+
+		record.chunksCompleted = 0;
+		record.bytesDownloaded = data.byteLength;
+		record.totalBytes = data.byteLength;
+		record.mimeType = this.getHeader(response, 'content-type') || record.mimeType;
+	}
+
+	/**
+	 * Join the downloaded chunks into the final file
+	 * On desktop the chunks are appended one at a time, so only a single chunk
+	 * is held in memory. The mobile adapter can't append binary data, so there
+	 * the file is built in memory and written once.
+	 */
+	private async assembleChunks(record: EpisodeDownload): Promise<void> {
+		const adapter = this.vault.adapter;
+
+		if (adapter instanceof FileSystemAdapter) {
+			await this.appendChunks(adapter, record);
+		} else {
+			const buffer = new Uint8Array(record.bytesDownloaded);
+			let offset = 0;
+
+			for (let i = 0; i < record.chunksCompleted; i++) {
+				const chunk = new Uint8Array(await adapter.readBinary(this.getPartPath(record, i)));
+				buffer.set(chunk, offset);
+				offset += chunk.byteLength;
+			}
+
+			await adapter.writeBinary(record.localPath, buffer.buffer);
+		}
+
+		await this.removeParts(record);
+		record.chunksCompleted = 0;
+	}
+
+	/**
+	 * Append the chunks to the final file through the file system
+	 */
+	private async appendChunks(adapter: FileSystemAdapter, record: EpisodeDownload): Promise<void> {
+		// Loaded lazily because Node modules only exist on desktop
+		const fs = require('fs') as typeof import('fs');
+		const fullPath = adapter.getFullPath(record.localPath);
+
+		await adapter.writeBinary(record.localPath, new ArrayBuffer(0));
+		for (let i = 0; i < record.chunksCompleted; i++) {
+			const chunk = await adapter.readBinary(this.getPartPath(record, i));
+			await fs.promises.appendFile(fullPath, new Uint8Array(chunk));
+		}
+	}
+
+	/**
+	 * Clean up after a download that was deleted while in progress
+	 * Also forgets the record so resumePending doesn't restart it.
+	 */
+	private async discardCancelled(record: EpisodeDownload): Promise<void> {
+		await this.removeFiles(record);
+		await this.store.removeDownload(record.episodeId);
+	}
+
+	/**
+	 * Remove the downloaded file and any partial chunks
+	 */
+	private async removeFiles(record: EpisodeDownload): Promise<void> {
+		await this.removeParts(record);
+		await this.removeIfExists(record.localPath);
+	}
+
+	/**
+	 * Remove partial chunk files
+	 */
+	private async removeParts(record: EpisodeDownload): Promise<void> {
+		for (let i = 0; i < record.chunksCompleted; i++) {
+			await this.removeIfExists(this.getPartPath(record, i));
+		}
+	}
+
+	/**
+	 * Remove a file, ignoring errors
+	 */
+	private async removeIfExists(path: string): Promise<void> {
+		try {
+			if (await this.vault.adapter.exists(path)) {
+				await this.vault.adapter.remove(path);
+			}
+		} catch (error) {
+			logger.warn('Failed to remove download file', error);
+		}
+	}
+
+	/**
+	 * Parse a `Content-Range: bytes start-end/total` header
+	 */
+	private parseContentRange(header: string | undefined): { start: number; end: number; total?: number } | null {
+		if (!header) {
+			return null;
+		}
+
+		const match = header.match(/bytes\s+(\d+)-(\d+)\/(\d+|\*)/i);
+		if (!match) {
+			return null;
+		}
+
+		return {
+			start: parseInt(match[1], 10),
+			end: parseInt(match[2], 10),
+			total: match[3] === '*' ? undefined : parseInt(match[3], 10),
+		};
+	}
+
+	/**
+	 * Read a response header case-insensitively
+	 */
+	private getHeader(response: RequestUrlResponse, name: string): string | undefined {
+		const headers = response.headers || {};
+		const key = Object.keys(headers).find(k => k.toLowerCase() === name);
+		return key ? headers[key] : undefined;
+	}
+
+	/**
+	 * Path of a partial chunk file
+	 */
+	private getPartPath(record: EpisodeDownload, index: number): string {
+		return `${record.localPath}.part${index}`;
+	}
+
+	/**
+	 * Generate a stable file name for an episode's audio
+	 */
+	private getDownloadFilename(episode: Episode): string {
+		let extension = 'mp3';
+		try {
+			const match = new URL(episode.audioUrl).pathname.match(/\.([a-zA-Z0-9]{2,4})$/);
+			if (match) {
+				extension = match[1].toLowerCase();
+			}
+		} catch {
+			// Invalid URL, use default extension
+		}
+
+		let hash = 0;
+		for (let i = 0; i < episode.id.length; i++) {
+			const char = episode.id.charCodeAt(i);
+			hash = (hash << 5) - hash + char;
+			hash = hash & hash;
+		}
+
+		return `episode-${Math.abs(hash).toString(36)}.${extension}`;
+	}
+
+	/**
+	 * Ask the resolver for the playing episode
+	 */
+	private getPlayingEpisodeId(): string | null {
+		try {
+			return this.playingEpisodeResolver?.() ?? null;
+		} catch (error) {
+			logger.warn('Playing episode resolver failed', error);
+			return null;
+		}
+	}
+
+	/**
+	 * Completion time used to order downloads for trimming
+	 */
+	private getCompletedTime(download: EpisodeDownload): number {
+		return download.completedAt ? new Date(download.completedAt).getTime() : 0;
+	}
+
+	/**
+	 * Notify the change handler
+	 */
+	private notify(download: EpisodeDownload): void {
+		try {
+			this.changeHandler?.({ ...download });
+		} catch (error) {
+			logger.warn('Download change handler failed', error);
+		}
+	}
+}
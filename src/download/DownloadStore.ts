@@ -0,0 +1,168 @@
+/**
+ * DownloadStore - Persists episode download records
+ *
+ * Stores the state of every local episode download in a single JSON file
+ * (downloads/downloads.json) so partial downloads can be resumed after a restart.
+ */
+
+import { Vault } from 'obsidian';
+import { logger } from '../utils/Logger';
+import { EpisodeDownload } from '../model';
+import { DataPathManager } from '../storage/DataPathManager';
+import { SingleFileStore } from '../storage/FileSystemStore';
+
+/**
+ * Download data structure
+ */
+export interface DownloadData {
+	downloads: EpisodeDownload[];
+	version: number;
+}
+
+/**
+ * Download Store
+ */
+export class DownloadStore extends SingleFileStore<DownloadData> {
+	private static readonly CURRENT_VERSION = 1;
+	private static readonly STATUSES = ['queued', 'downloading', 'done', 'failed'];
+
+	constructor(vault: Vault, pathManager: DataPathManager) {
+		const filePath = pathManager.getFilePath('downloads', 'downloads.json');
+		super(vault, pathManager, filePath);
+	}
+
+	/**
+	 * Validate download data
+	 */
+	protected validate(data: DownloadData): boolean {
+		if (!data || typeof data !== 'object') {
+			logger.warn('Invalid download data: not an object');
+			return false;
+		}
+
+		if (!Array.isArray(data.downloads)) {
+			logger.warn('Invalid download data: downloads is not an array');
+			return false;
+		}
+
+		if (typeof data.version !== 'number') {
+			logger.warn('Invalid download data: version is not a number');
+			return false;
+		}
+
+		for (const download of data.downloads) {
+			if (!this.validateDownload(download)) {
+				logger.warn('Invalid download entry in data', download);
+				return false;
+			}
+		}
+
+		return true;
+	}
+
+	/**
+	 * Validate a single download record
+	 */
+	private validateDownload(download: EpisodeDownload): boolean {
+		if (!download || typeof download !== 'object') {
+			return false;
+		}
+
+		if (typeof download.episodeId !== 'string' || typeof download.localPath !== 'string') {
+			return false;
+		}
+
+		if (DownloadStore.STATUSES.indexOf(download.status) === -1) {
+			return false;
+		}
+
+		if (typeof download.bytesDownloaded !== 'number' || download.bytesDownloaded < 0) {
+			return false;
+		}
+
+		return true;
+	}
+
+	/**
+	 * Get default download data
+	 */
+	protected getDefaultValue(): DownloadData {
+		return {
+			downloads: [],
+			version: DownloadStore.CURRENT_VERSION,
+		};
+	}
+
+	/**
+	 * Load data and restore Date fields
+	 */
+	async load(): Promise<DownloadData> {
+		const data = await super.load();
+
+		for (const download of data.downloads) {
+			download.queuedAt = new Date(download.queuedAt);
+			if (download.completedAt) {
+				download.completedAt = new Date(download.completedAt);
+			}
+		}
+
+		return data;
+	}
+
+	/**
+	 * Get the download record for an episode
+	 */
+	async getDownload(episodeId: string): Promise<EpisodeDownload | null> {
+		logger.methodEntry('DownloadStore', 'getDownload', episodeId);
+
+		const data = await this.load();
+		const download = data.downloads.find(d => d.episodeId === episodeId) || null;
+
+		logger.methodExit('DownloadStore', 'getDownload');
+		return download;
+	}
+
+	/**
+	 * Get all download records
+	 */
+	async getAllDownloads(): Promise<EpisodeDownload[]> {
+		const data = await this.load();
+		return data.downloads;
+	}
+
+	/**
+	 * Insert or replace a download record
+	 */
+	async saveDownload(download: EpisodeDownload): Promise<void> {
+		logger.methodEntry('DownloadStore', 'saveDownload', download.episodeId);
+
+		const data = await this.load();
+		const index = data.downloads.findIndex(d => d.episodeId === download.episodeId);
+
+		if (index === -1) {
+			data.downloads.push(download);
+		} else {
+			data.downloads[index] = download;
+		}
+
+		await this.save(data);
+		logger.methodExit('DownloadStore', 'saveDownload');
+	}
+
+	/**
+	 * Remove a download record
+	 */
+	async removeDownload(episodeId: string): Promise<void> {
+		logger.methodEntry('DownloadStore', 'removeDownload', episodeId);
+
+		const data = await this.load();
+		const filtered = data.downloads.filter(d => d.episodeId !== episodeId);
+
+		if (filtered.length !== data.downloads.length) {
+			data.downloads = filtered;
+			await this.save(data);
+		}
+
+		logger.methodExit('DownloadStore', 'removeDownload');
+	}
+}
@@ -0,0 +1,391 @@
+/**
+ * Unit tests for DownloadManager
+ */
+
+import { DownloadManager } from '../DownloadManager';
+import { DownloadStore } from '../DownloadStore';
+import { DataPathManager } from '../../storage/DataPathManager';
+import { Episode, EpisodeDownload } from '../../model';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Mock logger
+jest.mock('../../utils/Logger', () => ({
+	logger: {
+		methodEntry: jest.fn(),
+		methodExit: jest.fn(),
+		debug: jest.fn(),
+		info: jest.fn(),
+		warn: jest.fn(),
+		error: jest.fn(),
+	},
+}));
+
+// Mock Obsidian's requestUrl and the desktop adapter class
+jest.mock('obsidian', () => ({
+	requestUrl: jest.fn(),
+	FileSystemAdapter: class {},
+	normalizePath: (path: string) => path.replace(/\\/g, '/').replace(/\/+/g, '/'),
+}));
+
+import { requestUrl, FileSystemAdapter } from 'obsidian';
+const mockRequestUrl = requestUrl as jest.MockedFunction<typeof requestUrl>;
+
+// Mock retryWithBackoff to not actually retry (for faster tests)
+jest.mock('../../utils/errorUtils', () => {
+	const actual = jest.requireActual('../../utils/errorUtils');
+	return {
+		...actual,
+		retryWithBackoff: jest.fn(async (fn) => await fn()),
+	};
+});
+
+/**
+ * Build a byte buffer of the given length
+ */
+function bytes(length: number, fill = 1): ArrayBuffer {
+	return new Uint8Array(length).fill(fill).buffer;
+}
+
+/**
+ * Build a ranged response for a file of the given total size
+ */
+function rangedResponse(start: number, length: number, total: number): any {
+	return {
+		status: 206,
+		headers: {
+			'Content-Range': `bytes ${start}-${start + length - 1}/${total}`,
+			'Content-Type': 'audio/mpeg',
+		},
+		arrayBuffer: bytes(length),
+	};
+}
+
+/**
+ * Wait for the background download queue to drain
+ */
+async function flush(): Promise<void> {
+	for (let i = 0; i < 20; i++) {
+		await new Promise(resolve => setImmediate(resolve));
+	}
+}
+
+/** Wait for a condition that depends on real file system I/O */
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+	const deadline = Date.now() + timeoutMs;
+	while (!condition() && Date.now() < deadline) {
+		await new Promise(resolve => setTimeout(resolve, 5));
+	}
+}
+
+describe('DownloadManager', () => {
+	const sampleEpisode: Episode = {
+		id: 'ep-123',
+		podcastId: 'podcast-456',
+		title: 'Test Episode',
+		description: 'Test Description',
+		audioUrl: 'https://example.com/episode.mp3',
+		duration: 3600,
+		publishDate: new Date('2024-01-01'),
+	};
+
+	let files: Map<string, ArrayBuffer>;
+	let records: Map<string, EpisodeDownload>;
+	let mockVault: any;
+	let mockStore: jest.Mocked<DownloadStore>;
+	let pathManager: DataPathManager;
+	let manager: DownloadManager;
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+		files = new Map();
+		records = new Map();
+
+		mockVault = {
+			adapter: {
+				exists: jest.fn(async (path: string) => files.has(path)),
+				writeBinary: jest.fn(async (path: string, data: ArrayBuffer) => { files.set(path, data); }),
+				readBinary: jest.fn(async (path: string) => files.get(path)),
+				remove: jest.fn(async (path: string) => { files.delete(path); }),
+				getResourcePath: jest.fn((path: string) => `app://local/${path}`),
+			},
+		};
+
+		mockStore = {
+			getDownload: jest.fn(async (id: string) => records.get(id) || null),
+			getAllDownloads: jest.fn(async () => Array.from(records.values())),
+			saveDownload: jest.fn(async (download: EpisodeDownload) => { records.set(download.episodeId, { ...download }); }),
+			removeDownload: jest.fn(async (id: string) => { records.delete(id); }),
+		} as any;
+
+		pathManager = new DataPathManager(mockVault, 'data');
+		manager = new DownloadManager(mockVault, pathManager, mockStore, { chunkSize: 4, maxRetries: 0 });
+	});
+
+	describe('enqueue', () => {
+		it('should download an episode in ranged chunks and assemble the file', async () => {
+			mockRequestUrl
+				.mockResolvedValueOnce(rangedResponse(0, 4, 10))
+				.mockResolvedValueOnce(rangedResponse(4, 4, 10))
+				.mockResolvedValueOnce(rangedResponse(8, 2, 10));
+
+			await manager.enqueue(sampleEpisode);
+			await flush();
+
+			const record = records.get('ep-123')!;
+			expect(record.status).toBe('done');
+			expect(record.bytesDownloaded).toBe(10);
+			expect(record.totalBytes).toBe(10);
+			expect(files.get(record.localPath)!.byteLength).toBe(10);
+			expect(Array.from(files.keys()).some(path => path.includes('.part'))).toBe(false);
+
+			expect(mockRequestUrl).toHaveBeenNthCalledWith(2, expect.objectContaining({
+				headers: { Range: 'bytes=4-7' },
+			}));
+		});
+
+		it('should store the whole file when the server ignores ranges', async () => {
+			mockRequestUrl.mockResolvedValueOnce({ status: 200, headers: {}, arrayBuffer: bytes(7) } as any);
+
+			await manager.enqueue(sampleEpisode);
+			await flush();
+
+			const record = records.get('ep-123')!;
+			expect(record.status).toBe('done');
+			expect(files.get(record.localPath)!.byteLength).toBe(7);
+			expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+		});
+
+		it('should fail instead of storing the body when the first range is refused', async () => {
+			mockRequestUrl.mockResolvedValueOnce({ status: 416, headers: {}, arrayBuffer: bytes(3) } as any);
+
+			await manager.enqueue(sampleEpisode);
+			await flush();
+
+			const record = records.get('ep-123')!;
+			expect(record.status).toBe('failed');
+			expect(record.error).toContain('416');
+			expect(files.has(record.localPath)).toBe(false);
+		});
+
+		it('should join chunks on disk when running on desktop', async () => {
+			const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'downloads-'));
+			const adapter = Object.assign(new (FileSystemAdapter as any)(), mockVault.adapter, {
+				getFullPath: (p: string) => path.join(dir, p.replace(/\//g, '_')),
+				writeBinary: jest.fn(async (p: string, data: ArrayBuffer) => {
+					files.set(p, data);
+					fs.writeFileSync(path.join(dir, p.replace(/\//g, '_')), new Uint8Array(data));
+				}),
+			});
+			mockVault.adapter = adapter;
+			mockRequestUrl
+				.mockResolvedValueOnce(rangedResponse(0, 4, 6))
+				.mockResolvedValueOnce({ ...rangedResponse(4, 2, 6), arrayBuffer: bytes(2, 9) });
+
+			try {
+				await manager.enqueue(sampleEpisode);
+				await waitFor(() => records.get('ep-123')?.status === 'done');
+
+				const record = records.get('ep-123')!;
+				expect(record.status).toBe('done');
+				const content = fs.readFileSync(adapter.getFullPath(record.localPath));
+				expect(Array.from(content)).toEqual([1, 1, 1, 1, 9, 9]);
+				expect(adapter.readBinary).not.toHaveBeenCalledWith(record.localPath);
+			} finally {
+				fs.rmSync(dir, { recursive: true, force: true });
+			}
+		});
+
+		it('should mark the download failed on HTTP errors', async () => {
+			mockRequestUrl.mockResolvedValueOnce({ status: 404, headers: {}, arrayBuffer: bytes(0) } as any);
+
+			await manager.enqueue(sampleEpisode);
+			await flush();
+
+			const record = records.get('ep-123')!;
+			expect(record.status).toBe('failed');
+			expect(record.error).toContain('404');
+		});
+
+		it('should not download an episode that is already downloaded', async () => {
+			mockRequestUrl.mockResolvedValueOnce(rangedResponse(0, 2, 2));
+			await manager.enqueue(sampleEpisode);
+			await flush();
+
+			await manager.enqueue(sampleEpisode);
+			await flush();
+
+			expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+		});
+
+		it('should notify the change handler', async () => {
+			const handler = jest.fn();
+			manager.setChangeHandler(handler);
+			mockRequestUrl.mockResolvedValueOnce(rangedResponse(0, 2, 2));
+
+			await manager.enqueue(sampleEpisode);
+			await flush();
+
+			const statuses = handler.mock.calls.map(call => call[0].status);
+			expect(statuses[0]).toBe('queued');
+			expect(statuses).toContain('downloading');
+			expect(statuses[statuses.length - 1]).toBe('done');
+		});
+	});
+
+	describe('resumePending', () => {
+		it('should continue a partial download from the saved offset', async () => {
+			const localPath = 'data/downloads/episode-abc.mp3';
+			files.set(`${localPath}.part0`, bytes(4, 7));
+			records.set('ep-123', {
+				episodeId: 'ep-123',
+				podcastId: 'podcast-456',
+				audioUrl: sampleEpisode.audioUrl,
+				localPath,
+				status: 'downloading',
+				bytesDownloaded: 4,
+				totalBytes: 6,
+				chunksCompleted: 1,
+				queuedAt: new Date(),
+			});
+			mockRequestUrl.mockResolvedValueOnce(rangedResponse(4, 2, 6));
+
+			await manager.resumePending();
+			await flush();
+
+			expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+			expect(mockRequestUrl).toHaveBeenCalledWith(expect.objectContaining({
+				headers: { Range: 'bytes=4-7' },
+			}));
+
+			const record = records.get('ep-123')!;
+			expect(record.status).toBe('done');
+			const content = new Uint8Array(files.get(localPath)!);
+			expect(Array.from(content)).toEqual([7, 7, 7, 7, 1, 1]);
+		});
+	});
+
+	describe('getPlaybackUrl', () => {
+		it('should return a resource URL for completed downloads', async () => {
+			mockRequestUrl.mockResolvedValueOnce(rangedResponse(0, 2, 2));
+			await manager.enqueue(sampleEpisode);
+			await flush();
+
+			const url = await manager.getPlaybackUrl(sampleEpisode);
+
+			expect(url).toBe(`app://local/${records.get('ep-123')!.localPath}`);
+		});
+
+		it('should return null when the episode is not downloaded', async () => {
+			expect(await manager.getPlaybackUrl(sampleEpisode)).toBeNull();
+		});
+
+		it('should forget downloads whose file is missing', async () => {
+			records.set('ep-123', {
+				episodeId: 'ep-123',
+				podcastId: 'podcast-456',
+				audioUrl: sampleEpisode.audioUrl,
+				localPath: 'data/downloads/missing.mp3',
+				status: 'done',
+				bytesDownloaded: 10,
+				chunksCompleted: 0,
+				queuedAt: new Date(),
+			});
+
+			expect(await manager.getPlaybackUrl(sampleEpisode)).toBeNull();
+			expect(records.has('ep-123')).toBe(false);
+		});
+	});
+
+	describe('deleteDownload', () => {
+		it('should forget a download deleted while a chunk is in flight', async () => {
+			let releaseChunk: (response: any) => void = () => {};
+			mockRequestUrl.mockReturnValueOnce(new Promise(resolve => { releaseChunk = resolve; }) as any);
+
+			await manager.enqueue(sampleEpisode);
+			await flush();
+			await manager.deleteDownload('ep-123');
+			releaseChunk(rangedResponse(0, 4, 10));
+			await flush();
+
+			expect(records.has('ep-123')).toBe(false);
+			expect(files.size).toBe(0);
+			expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+
+			await manager.resumePending();
+			await flush();
+			expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+		});
+
+		it('should remove the file and the record', async () => {
+			mockRequestUrl.mockResolvedValueOnce(rangedResponse(0, 2, 2));
+			await manager.enqueue(sampleEpisode);
+			await flush();
+			const localPath = records.get('ep-123')!.localPath;
+
+			await manager.deleteDownload('ep-123');
+
+			expect(files.has(localPath)).toBe(false);
+			expect(records.has('ep-123')).toBe(false);
+		});
+	});
+
+	describe('enforceLimit', () => {
+		it('should remove the oldest completed downloads beyond the maximum', async () => {
+			manager.setMaxEpisodes(1);
+			for (const [id, day] of [['ep-old', 1], ['ep-new', 2]] as Array<[string, number]>) {
+				const localPath = `data/downloads/${id}.mp3`;
+				files.set(localPath, bytes(1));
+				records.set(id, {
+					episodeId: id,
+					podcastId: 'podcast-456',
+					audioUrl: `https://example.com/${id}.mp3`,
+					localPath,
+					status: 'done',
+					bytesDownloaded: 1,
+					chunksCompleted: 0,
+					queuedAt: new Date(),
+					completedAt: new Date(2024, 0, day),
+				});
+			}
+
+			const removed = await manager.enforceLimit();
+
+			expect(removed).toBe(1);
+			expect(records.has('ep-old')).toBe(false);
+			expect(records.has('ep-new')).toBe(true);
+		});
+
+		it('should never remove the playing episode', async () => {
+			manager.setMaxEpisodes(1);
+			manager.setPlayingEpisodeResolver(() => 'ep-old');
+			for (const [id, day] of [['ep-old', 1], ['ep-mid', 2], ['ep-new', 3]] as Array<[string, number]>) {
+				records.set(id, {
+					episodeId: id,
+					podcastId: 'podcast-456',
+					audioUrl: `https://example.com/${id}.mp3`,
+					localPath: `data/downloads/${id}.mp3`,
+					status: 'done',
+					bytesDownloaded: 1,
+					chunksCompleted: 0,
+					queuedAt: new Date(),
+					completedAt: new Date(2024, 0, day),
+				});
+			}
+
+			const removed = await manager.enforceLimit();
+
+			expect(removed).toBe(1);
+			expect(records.has('ep-old')).toBe(true);
+			expect(records.has('ep-mid')).toBe(false);
+			expect(records.has('ep-new')).toBe(true);
+		});
+
+		it('should keep everything when the maximum is 0', async () => {
+			manager.setMaxEpisodes(0);
+
+			expect(await manager.enforceLimit()).toBe(0);
+		});
+	});
+});
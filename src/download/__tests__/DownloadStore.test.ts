@@ -0,0 +1,107 @@
+/**
+ * Unit tests for DownloadStore
+ */
+
+import { DownloadStore, DownloadData } from '../DownloadStore';
+import { MockVault } from '../../../__mocks__/obsidian';
+import { DataPathManager } from '../../storage/DataPathManager';
+import { EpisodeDownload } from '../../model';
+
+describe('DownloadStore', () => {
+	let vault: MockVault;
+	let pathManager: DataPathManager;
+	let store: DownloadStore;
+
+	const sampleDownload: EpisodeDownload = {
+		episodeId: 'ep-123',
+		podcastId: 'podcast-456',
+		audioUrl: 'https://example.com/episode.mp3',
+		localPath: '.obsidian/plugins/podcast-player/data/downloads/episode-abc.mp3',
+		status: 'done',
+		bytesDownloaded: 1000,
+		totalBytes: 1000,
+		chunksCompleted: 0,
+		queuedAt: new Date('2024-01-01'),
+		completedAt: new Date('2024-01-02'),
+	};
+
+	beforeEach(() => {
+		vault = new MockVault();
+		pathManager = new DataPathManager(vault as any, '.obsidian/plugins/podcast-player/data');
+		store = new DownloadStore(vault as any, pathManager);
+	});
+
+	describe('getDownload', () => {
+		it('should return null when no downloads exist', async () => {
+			vault.adapter.exists = jest.fn().mockResolvedValue(false);
+
+			expect(await store.getDownload('ep-123')).toBeNull();
+		});
+
+		it('should return the record with dates restored', async () => {
+			const data: DownloadData = { downloads: [sampleDownload], version: 1 };
+			vault.adapter.exists = jest.fn().mockResolvedValue(true);
+			vault.adapter.read = jest.fn().mockResolvedValue(JSON.stringify(data));
+
+			const download = await store.getDownload('ep-123');
+
+			expect(download).toMatchObject({ episodeId: 'ep-123', status: 'done' });
+			expect(download?.queuedAt).toBeInstanceOf(Date);
+			expect(download?.completedAt).toBeInstanceOf(Date);
+		});
+
+		it('should fall back to defaults for invalid data', async () => {
+			const data = { downloads: [{ ...sampleDownload, status: 'bogus' }], version: 1 };
+			vault.adapter.exists = jest.fn().mockResolvedValue(true);
+			vault.adapter.read = jest.fn().mockResolvedValue(JSON.stringify(data));
+
+			expect(await store.getAllDownloads()).toEqual([]);
+		});
+	});
+
+	describe('saveDownload', () => {
+		it('should add a new record', async () => {
+			vault.adapter.exists = jest.fn().mockResolvedValue(false);
+
+			await store.saveDownload(sampleDownload);
+
+			expect(vault.adapter.write).toHaveBeenCalledWith(
+				'.obsidian/plugins/podcast-player/data/downloads/downloads.json',
+				expect.stringContaining('"episodeId": "ep-123"')
+			);
+		});
+
+		it('should replace an existing record', async () => {
+			const data: DownloadData = { downloads: [sampleDownload], version: 1 };
+			vault.adapter.exists = jest.fn().mockResolvedValue(true);
+			vault.adapter.read = jest.fn().mockResolvedValue(JSON.stringify(data));
+
+			await store.saveDownload({ ...sampleDownload, status: 'failed', error: 'HTTP 500' });
+
+			const written = JSON.parse(vault.adapter.write.mock.calls[0][1]) as DownloadData;
+			expect(written.downloads).toHaveLength(1);
+			expect(written.downloads[0].status).toBe('failed');
+		});
+	});
+
+	describe('removeDownload', () => {
+		it('should remove the record', async () => {
+			const data: DownloadData = { downloads: [sampleDownload], version: 1 };
+			vault.adapter.exists = jest.fn().mockResolvedValue(true);
+			vault.adapter.read = jest.fn().mockResolvedValue(JSON.stringify(data));
+
+			await store.removeDownload('ep-123');
+
+			const written = JSON.parse(vault.adapter.write.mock.calls[0][1]) as DownloadData;
+			expect(written.downloads).toHaveLength(0);
+		});
+
+		it('should not write when the record does not exist', async () => {
+			vault.adapter.exists = jest.fn().mockResolvedValue(false);
+
+			await store.removeDownload('missing');
+
+			expect(vault.adapter.write).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -0,0 +1,17 @@
+/**
+ * Download Module
+ *
+ * Provides local episode downloads for offline playback, including
+ * resumable chunked downloads and download state persistence.
+ */
+
+// Export download store
+export { DownloadStore, type DownloadData } from './DownloadStore';
+
+// Export download manager
+export {
+	DownloadManager,
+	type DownloadManagerOptions,
+	type DownloadChangeHandler,
+	type PlayingEpisodeResolver,
+} from './DownloadManager';
@@ -0,0 +1,205 @@
+/**
+ * ChapterService - Loads episode chapter markers
+ *
+ * Supports Podcasting 2.0 JSON chapters (<podcast:chapters>) and
+ * Podlove Simple Chapters (<psc:chapters>) embedded in the feed.
+ */
+
+import { requestUrl } from 'obsidian';
+import { logger } from '../utils/Logger';
+import { NetworkError, retryWithBackoff } from '../utils/errorUtils';
+import { Episode, Chapter } from '../model';
+import { SubscriptionStore } from '../storage/SubscriptionStore';
+
+/**
+ * Raw chapter entry of the JSON chapters format
+ */
+interface JsonChapter {
+	startTime?: number | string;
+	endTime?: number | string;
+	title?: string;
+	img?: string;
+	url?: string;
+	toc?: boolean;
+}
+
+/**
+ * Chapter Service
+ */
+export class ChapterService {
+	private subscriptionStore: SubscriptionStore | null;
+	private cache: Map<string, Chapter[]> = new Map();
+
+	constructor(subscriptionStore?: SubscriptionStore) {
+		this.subscriptionStore = subscriptionStore || null;
+	}
+
+	/**
+	 * Get the chapters of an episode, fetching the JSON chapters file if needed
+	 * Fetched chapters are stored on the episode so they survive a restart.
+	 */
+	async getChapters(episode: Episode): Promise<Chapter[]> {
+		logger.methodEntry('ChapterService', 'getChapters', episode.id);
+
+		if (episode.chapters && episode.chapters.length > 0) {
+			logger.methodExit('ChapterService', 'getChapters', 'embedded');
+			return episode.chapters;
+		}
+
+		if (!episode.chaptersUrl) {
+			logger.methodExit('ChapterService', 'getChapters', 'none');
+			return [];
+		}
+
+		const cached = this.cache.get(episode.chaptersUrl);
+		if (cached) {
+			episode.chapters = cached;
+			logger.methodExit('ChapterService', 'getChapters', 'cached');
+			return cached;
+		}
+
+		try {
+			const chapters = await this.fetchChapters(episode.chaptersUrl);
+			this.cache.set(episode.chaptersUrl, chapters);
+			episode.chapters = chapters;
+			await this.persistChapters(episode, chapters);
+
+			logger.methodExit('ChapterService', 'getChapters', 'fetched');
+			return chapters;
+		} catch (error) {
+			logger.warn('Failed to load chapters', error);
+			logger.methodExit('ChapterService', 'getChapters', 'failed');
+			return [];
+		}
+	}
+
+	/**
+	 * Fetch and parse a JSON chapters file
+	 */
+	async fetchChapters(url: string): Promise<Chapter[]> {
+		logger.debug('Fetching chapters', url);
+
+		const response = await retryWithBackoff(
+			async () => {
+				const result = await requestUrl({
+					url,
+					method: 'GET',
+					headers: { Accept: 'application/json+chapters, application/json' },
+					throw: false,
+				});
+
+				if (result.status >= 400) {
+					throw new NetworkError(`HTTP ${result.status}: Failed to fetch chapters`, url);
+				}
+
+				return result;
+			},
+			{
+				maxRetries: 2,
+				initialDelay: 1000,
+				maxDelay: 5000,
+			}
+		);
+
+		let data: unknown;
+		try {
+			data = JSON.parse(response.text);
+		} catch (error) {
+			throw new NetworkError('Invalid chapters file', url, error);
+		}
+
+		return ChapterService.parseJsonChapters(data);
+	}
+
+	/**
+	 * Save fetched chapters onto the stored episode
+	 */
+	private async persistChapters(episode: Episode, chapters: Chapter[]): Promise<void> {
+		if (!this.subscriptionStore) {
+			return;
+		}
+
+		try {
+			const podcast = await this.subscriptionStore.getPodcast(episode.podcastId);
+			const stored = podcast?.episodes?.find(e => e.id === episode.id);
+			if (!podcast || !stored) {
+				return;
+			}
+
+			stored.chapters = chapters;
+			await this.subscriptionStore.updatePodcast(podcast);
+		} catch (error) {
+			logger.warn('Failed to save chapters', error);
+		}
+	}
+
+	/**
+	 * Parse a Podcasting 2.0 JSON chapters document
+	 * Chapters marked with "toc": false are not part of the table of contents and are skipped.
+	 */
+	static parseJsonChapters(data: unknown): Chapter[] {
+		if (!data || typeof data !== 'object') {
+			return [];
+		}
+
+		const entries = (data as { chapters?: unknown }).chapters;
+		if (!Array.isArray(entries)) {
+			return [];
+		}
+
+		const chapters: Chapter[] = [];
+
+		for (const entry of entries as JsonChapter[]) {
+			if (!entry || typeof entry !== 'object' || entry.toc === false) {
+				continue;
+			}
+
+			const startTime = Number(entry.startTime);
+			if (!isFinite(startTime) || startTime < 0) {
+				continue;
+			}
+
+			const endTime = entry.endTime !== undefined ? Number(entry.endTime) : undefined;
+
+			chapters.push({
+				startTime,
+				endTime: endTime !== undefined && isFinite(endTime) ? endTime : undefined,
+				title: entry.title?.trim() || `Chapter ${chapters.length + 1}`,
+				url: entry.url || undefined,
+				imageUrl: entry.img || undefined,
+			});
+		}
+
+		return ChapterService.normalizeChapters(chapters);
+	}
+
+	/**
+	 * Parse a Normal Play Time value (e.g. "01:02:03.500", "02:03", "123.5")
+	 * Returns NaN for invalid input.
+	 */
+	static parseNptTime(value: string): number {
+		const trimmed = value.trim();
+		if (!/^\d+(:\d{1,2}){0,2}(\.\d+)?$/.test(trimmed)) {
+			return NaN;
+		}
+
+		return trimmed
+			.split(':')
+			.reduce((total, part) => total * 60 + parseFloat(part), 0);
+	}
+
+	/**
+	 * Sort chapters by start time and fill in missing end times
+	 */
+	static normalizeChapters(chapters: Chapter[]): Chapter[] {
+		const sorted = [...chapters].sort((a, b) => a.startTime - b.startTime);
+
+		return sorted.map((chapter, index) => {
+			const next = sorted[index + 1];
+			if (chapter.endTime === undefined && next) {
+				return { ...chapter, endTime: next.startTime };
+			}
+			return chapter;
+		});
+	}
+}
@@ -3,11 +3,15 @@
  *
  * Handles feed fetching, parsing, updating, and caching.
  * Automatically detects feed format (RSS or Atom) and uses the appropriate parser.
+ * Updates follow feed moves announced with <itunes:new-feed-url> while keeping
+ * the podcast ID stable. HTTP redirects are followed by Obsidian's requestUrl
+ * without exposing the final URL, so they can't be told apart from the old
+ * address and the subscription keeps using it.
  */
 
-import { requestUrl, RequestUrlParam } from 'obsidian';
+import { requestUrl, RequestUrlParam, RequestUrlResponse } from 'obsidian';
 import { logger } from '../utils/Logger';
-import { NetworkError, retryWithBackoff } from '../utils/errorUtils';
+import { FeedGoneError, NetworkError, retryWithBackoff } from '../utils/errorUtils';
 import { Podcast, Episode } from '../model';
 import { RSSParser } from './RSSParser';
 import { AtomParser } from './AtomParser';
@@ -40,10 +44,33 @@ export interface FeedFetchOptions {
 	lastModified?: string;
 }
 
+/**
+ * Parsed feed
+ */
+export interface FeedFetchResult {
+	podcast: Podcast;
+	episodes: Episode[];
+	/** URL the feed announced it moved to (<itunes:new-feed-url>) */
+	newFeedUrl?: string;
+}
+
+/**
+ * Feed update result
+ */
+export interface FeedUpdateResult {
+	podcast: Podcast;
+	episodes: Episode[];
+	newEpisodes: Episode[];
+	/** Previous feed URL when the feed moved */
+	movedFrom?: string;
+}
+
 /**
  * Feed Service
  */
 export class FeedService {
+	private static readonly MAX_FEED_MOVES = 3;
+
 	private rssParser: RSSParser;
 	private atomParser: AtomParser;
 	private cacheStore: FeedCacheStore | null = null;
@@ -56,11 +83,13 @@ export class FeedService {
 
 	/**
 	 * Fetch and parse a podcast feed
+	 * The podcast is parsed with the requested URL; moves are only reported.
+	 * @throws FeedGoneError when the feed returns 410 Gone
 	 */
 	async fetchFeed(
 		feedUrl: string,
 		options: FeedFetchOptions = {}
-	): Promise<{ podcast: Podcast; episodes: Episode[] }> {
+	): Promise<FeedFetchResult> {
 		logger.methodEntry('FeedService', 'fetchFeed', feedUrl);
 
 		const {
@@ -96,7 +125,7 @@ export class FeedService {
 		const feedType = this.detectFeedType(xml);
 
 		// Parse feed
-		let result: { podcast: Podcast; episodes: Episode[] };
+		let result: FeedFetchResult;
 
 		if (feedType === FeedType.RSS) {
 			result = await this.rssParser.parseFromString(xml, feedUrl);
@@ -125,23 +154,51 @@ export class FeedService {
 
 	/**
 	 * Update an existing podcast feed
-	 * Returns updated podcast with all episodes and information about new episodes
+	 * Returns updated podcast with all episodes and information about new episodes.
+	 * When the feed moved, the podcast gets the new feed URL but keeps its ID,
+	 * so progress and playlists stay attached to it.
+	 * @throws FeedGoneError when the feed returns 410 Gone
 	 */
-	async updateFeed(podcast: Podcast): Promise<{
-		podcast: Podcast;
-		episodes: Episode[];
-		newEpisodes: Episode[];
-	}> {
+	async updateFeed(podcast: Podcast): Promise<FeedUpdateResult> {
 		logger.methodEntry('FeedService', 'updateFeed', podcast.id);
 
-		const { podcast: updatedPodcast, episodes } = await this.fetchFeed(podcast.feedUrl, {
+		let feedUrl = podcast.feedUrl;
+		let result = await this.fetchFeed(feedUrl, {
 			useCache: false, // Force fresh fetch for updates
 		});
 
+		const visited = new Set([feedUrl]);
+
+		// Follow announced moves; keep the current data when the new feed cannot be loaded
+		let moves = 0;
+		while (result.newFeedUrl && !visited.has(result.newFeedUrl) && moves < FeedService.MAX_FEED_MOVES) {
+			const newFeedUrl = result.newFeedUrl;
+			visited.add(newFeedUrl);
+			moves++;
+
+			try {
+				const moved = await this.fetchFeed(newFeedUrl, { useCache: false });
+				feedUrl = newFeedUrl;
+				result = moved;
+			} catch (error) {
+				logger.warn(`Failed to load the new feed URL ${newFeedUrl}, keeping ${feedUrl}`, error);
+				break;
+			}
+		}
+
+		// Parsers derive IDs from the fetched URL; keep the subscription's ID
+		const updatedPodcast: Podcast = { ...result.podcast, id: podcast.id, feedUrl };
+		const episodes = result.episodes.map(e => ({ ...e, podcastId: podcast.id }));
+
 		// Compare episodes to find new ones
 		const existingEpisodeIds = new Set(podcast.episodes?.map(e => e.id) || []);
 		const newEpisodes = episodes.filter(e => !existingEpisodeIds.has(e.id));
 
+		const movedFrom = feedUrl !== podcast.feedUrl ? podcast.feedUrl : undefined;
+		if (movedFrom) {
+			logger.info(`Feed moved: ${movedFrom} -> ${feedUrl}`);
+		}
+
 		logger.info(`Feed updated: ${newEpisodes.length} new episodes`);
 		logger.methodExit('FeedService', 'updateFeed');
 
@@ -149,6 +206,7 @@ export class FeedService {
 			podcast: updatedPodcast,
 			episodes,
 			newEpisodes,
+			...(movedFrom ? { movedFrom } : {}),
 		};
 	}
 
@@ -165,62 +223,21 @@ export class FeedService {
 		logger.debug('Fetching feed XML', feedUrl);
 
 		try {
-			const response = await retryWithBackoff(
-				async () => {
-					const headers: Record<string, string> = {
-						'User-Agent': userAgent,
-						Accept: 'application/rss+xml, application/atom+xml, application/xml, text/xml',
-						'Accept-Language': 'en-US,en;q=0.9',
-					};
-
-					// Add conditional request headers
-					if (etag) {
-						headers['If-None-Match'] = etag;
-					}
-					if (lastModified) {
-						headers['If-Modified-Since'] = lastModified;
-					}
-
-					const requestParam: RequestUrlParam = {
-						url: feedUrl,
-						method: 'GET',
-						headers,
-						throw: false,
-					};
-
-					const response = await requestUrl(requestParam);
-
-					if (response.status === 304) {
-						// Not modified
-						throw new Error('NOT_MODIFIED');
-					}
-
-					if (response.status >= 400) {
-						throw new NetworkError(
-							`HTTP ${response.status}: Failed to fetch feed`,
-							feedUrl
-						);
-					}
+			const response = await this.requestFeed(feedUrl, userAgent, etag, lastModified);
 
-					return response;
-				},
-				{
-					maxRetries: 3,
-					initialDelay: 1000,
-					maxDelay: 10000,
-				}
-			);
-
-			const xml = response.text;
-			const responseEtag = response.headers['etag'];
-			const responseLastModified = response.headers['last-modified'];
+			if (response.status === 410) {
+				throw new FeedGoneError('Feed is gone (HTTP 410)', feedUrl);
+			}
 
 			return {
-				xml,
-				responseEtag,
-				responseLastModified,
+				xml: response.text,
+				responseEtag: response.headers['etag'],
+				responseLastModified: response.headers['last-modified'],
 			};
 		} catch (error) {
+			if (error instanceof FeedGoneError) {
+				throw error;
+			}
 			if (error instanceof Error && error.message === 'NOT_MODIFIED') {
 				throw error;
 			}
@@ -230,6 +247,70 @@ export class FeedService {
 		}
 	}
 
+	/**
+	 * Request a feed URL, retrying failures
+	 * 410 Gone is returned to the caller instead of being retried.
+	 */
+	private async requestFeed(
+		feedUrl: string,
+		userAgent: string,
+		etag?: string,
+		lastModified?: string
+	): Promise<RequestUrlResponse> {
+		return await retryWithBackoff(
+			async () => {
+				const headers: Record<string, string> = {
+					'User-Agent': userAgent,
+					Accept: 'application/rss+xml, application/atom+xml, application/xml, text/xml',
+					'Accept-Language': 'en-US,en;q=0.9',
+				};
+
+				// Add conditional request headers
+				if (etag) {
+					headers['If-None-Match'] = etag;
+				}
+				if (lastModified) {
+					headers['If-Modified-Since'] = lastModified;
+				}
+
+				const requestParam: RequestUrlParam = {
+					url: feedUrl,
+					method: 'GET',
+					headers,
+					throw: false,
+				};
+
+				const response = await requestUrl(requestParam);
+
+				if (response.status === 304) {
+					// Not modified
+					throw new Error('NOT_MODIFIED');
+				}
+
+				// Handled by fetchFeedXML, retrying would not help
+				if (response.status === 410) {
+					return response;
+				}
+
+				if (response.status >= 400) {
+					throw new NetworkError(
+						`HTTP ${response.status}: Failed to fetch feed`,
+						feedUrl,
+						undefined,
+						response.status
+					);
+				}
+
+				return response;
+			},
+			{
+				maxRetries: 3,
+				initialDelay: 1000,
+				maxDelay: 10000,
+			}
+		);
+	}
+
 	/**
 	 * Detect feed type from XML content
 	 */
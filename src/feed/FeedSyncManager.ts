@@ -3,10 +3,13 @@
  *
  * Handles automatic feed updates, batch updates, and sync scheduling.
  * Provides incremental update strategies and error handling.
+ * Records the feed health of every podcast; feeds that are gone are left
+ * out of automatic syncs and failing feeds are retried with exponential backoff.
  */
 
 import { logger } from '../utils/Logger';
-import { Podcast } from '../model';
+import { FeedHealth, Podcast } from '../model';
+import { FeedGoneError, getErrorStatus } from '../utils/errorUtils';
 import { FeedService } from './FeedService';
 import { SubscriptionStore } from '../storage/SubscriptionStore';
 import { QueueManager } from '../queue/QueueManager';
@@ -26,16 +29,27 @@ export interface SyncOptions {
 	concurrency?: number;
 	/** Update interval in milliseconds */
 	updateInterval?: number;
+	/** Sync started by the automatic schedule rather than the user */
+	background?: boolean;
 }
 
+/**
+ * A podcast whose feed health was recorded
+ */
+export type ProblemPodcast = Podcast & { feedHealth: FeedHealth };
+
 /**
  * Sync result for a single podcast
  */
 export interface PodcastSyncResult {
 	podcastId: string;
+	podcastTitle?: string;
 	success: boolean;
 	newEpisodesCount: number;
+	newEpisodes?: Episode[];
 	error?: string;
+	/** Previous feed URL when the feed moved */
+	movedFrom?: string;
 }
 
 /**
@@ -49,12 +63,27 @@ export interface BatchSyncResult {
 	results: PodcastSyncResult[];
 	startedAt: Date;
 	completedAt: Date;
+	/** Sync started by the automatic schedule rather than the user */
+	background?: boolean;
 }
 
+/**
+ * Callback invoked with the new episodes found for a podcast during sync
+ */
+export type NewEpisodesHandler = (podcast: Podcast, newEpisodes: Episode[]) => void | Promise<void>;
+
+/**
+ * Callback invoked with the result of every batch sync
+ */
+export type SyncCompleteHandler = (result: BatchSyncResult) => void | Promise<void>;
+
 /**
  * Feed Sync Manager
  */
 export class FeedSyncManager {
+	private static readonly BASE_RETRY_DELAY = 15 * 60 * 1000;
+	private static readonly MAX_RETRY_DELAY = 24 * 60 * 60 * 1000;
+
 	private feedService: FeedService;
 	private subscriptionStore: SubscriptionStore;
 	private queueManager: QueueManager;
@@ -63,6 +92,8 @@ export class FeedSyncManager {
 	private syncTimer: NodeJS.Timeout | null = null;
 	private isSyncing = false;
 	private lastSyncTime: Date | null = null;
+	private newEpisodesHandler: NewEpisodesHandler | null = null;
+	private syncCompleteHandler: SyncCompleteHandler | null = null;
 
 	constructor(
 		feedService: FeedService,
@@ -80,8 +111,9 @@ export class FeedSyncManager {
 
 	/**
 	 * Start automatic sync
+	 * @param syncNow - Sync right away instead of waiting for the first interval
 	 */
-	startAutoSync(): void {
+	startAutoSync(syncNow = true): void {
 		logger.methodEntry('FeedSyncManager', 'startAutoSync');
 
 		if (this.syncTimer) {
@@ -90,13 +122,15 @@ export class FeedSyncManager {
 		}
 
 		// Run initial sync
-		this.syncAll({ force: false }).catch(error => {
-			logger.error('Initial sync failed', error);
-		});
+		if (syncNow) {
+			this.syncAll({ force: false, background: true }).catch(error => {
+				logger.error('Initial sync failed', error);
+			});
+		}
 
 		// Schedule periodic syncs
 		this.syncTimer = setInterval(() => {
-			this.syncAll({ force: false }).catch(error => {
+			this.syncAll({ force: false, background: true }).catch(error => {
 				logger.error('Auto sync failed', error);
 			});
 		}, this.syncInterval);
@@ -135,7 +169,7 @@ export class FeedSyncManager {
 		const startedAt = new Date();
 
 		try {
-			const { force = false, concurrency = 3, updateInterval = this.syncInterval } = options;
+			const { force = false, concurrency = 3, updateInterval = this.syncInterval, background = false } = options;
 
 			// Get all subscribed podcasts
 			const podcasts = await this.subscriptionStore.getAllPodcasts();
@@ -160,6 +194,7 @@ export class FeedSyncManager {
 				results,
 				startedAt,
 				completedAt,
+				background,
 			};
 
 			this.lastSyncTime = completedAt;
@@ -167,6 +202,7 @@ export class FeedSyncManager {
 			logger.info(
 				`Sync completed: ${batchResult.successCount} succeeded, ${batchResult.failureCount} failed, ${batchResult.totalNewEpisodes} new episodes`
 			);
+			await this.notifySyncComplete(batchResult);
 			logger.methodExit('FeedSyncManager', 'syncAll');
 
 			return batchResult;
@@ -190,7 +226,7 @@ export class FeedSyncManager {
 		const startedAt = new Date();
 
 		try {
-			const { concurrency = 3 } = options;
+			const { concurrency = 3, background = false } = options;
 
 			// Get podcasts by IDs
 			const podcasts: Podcast[] = [];
@@ -216,11 +252,13 @@ export class FeedSyncManager {
 				results,
 				startedAt,
 				completedAt,
+				background,
 			};
 
 			logger.info(
 				`Sync completed: ${batchResult.successCount} succeeded, ${batchResult.failureCount} failed`
 			);
+			await this.notifySyncComplete(batchResult);
 			logger.methodExit('FeedSyncManager', 'syncPodcasts');
 
 			return batchResult;
@@ -278,8 +316,10 @@ export class FeedSyncManager {
 	private async updatePodcast(podcast: Podcast): Promise<PodcastSyncResult> {
 		logger.debug(`Updating podcast: ${podcast.title}`);
 
+		const startedAt = Date.now();
+
 		try {
-			const { podcast: updatedPodcast, newEpisodes } = await this.feedService.updateFeed(podcast);
+			const { podcast: updatedPodcast, newEpisodes, movedFrom } = await this.feedService.updateFeed(podcast);
 
 			// Merge new episodes with existing ones
 			const existingEpisodes = podcast.episodes || [];
@@ -300,6 +340,17 @@ export class FeedSyncManager {
 
 			updatedPodcast.episodes = uniqueEpisodes;
 
+			const checkedAt = new Date();
+			updatedPodcast.feedHealth = {
+				status: movedFrom ? 'moved' : 'ok',
+				checkedAt,
+				lastSuccessAt: checkedAt,
+				consecutiveFailures: 0,
+				responseTimeMs: checkedAt.getTime() - startedAt,
+				previousFeedUrl: movedFrom ?? podcast.feedHealth?.previousFeedUrl,
+				movedAt: movedFrom ? checkedAt : podcast.feedHealth?.movedAt,
+			};
+
 			// Handle auto-add rule
 			if (newEpisodes.length > 0 && podcast.autoAddRule && podcast.autoAddRule.enabled) {
 				await this.handleAutoAdd(podcast.autoAddRule, newEpisodes);
@@ -307,23 +358,139 @@ export class FeedSyncManager {
 
 			await this.subscriptionStore.updatePodcast(updatedPodcast);
 
+			if (newEpisodes.length > 0) {
+				await this.notifyNewEpisodes(updatedPodcast, newEpisodes);
+			}
+
 			return {
 				podcastId: podcast.id,
+				podcastTitle: updatedPodcast.title,
 				success: true,
 				newEpisodesCount: newEpisodes.length,
+				newEpisodes,
+				...(movedFrom ? { movedFrom } : {}),
 			};
 		} catch (error) {
 			logger.error(`Failed to update podcast: ${podcast.title}`, error);
 
+			const message = error instanceof Error ? error.message : 'Unknown error';
+			const gone = error instanceof FeedGoneError;
+			const checkedAt = new Date();
+			const consecutiveFailures = (podcast.feedHealth?.consecutiveFailures ?? 0) + 1;
+
+			await this.recordFeedHealth(podcast, {
+				status: gone ? 'gone' : 'error',
+				checkedAt,
+				lastSuccessAt: podcast.feedHealth?.lastSuccessAt,
+				consecutiveFailures,
+				error: message,
+				errorType: error instanceof Error ? error.name : undefined,
+				httpStatus: getErrorStatus(error),
+				responseTimeMs: checkedAt.getTime() - startedAt,
+				// Gone feeds are not retried automatically at all
+				nextRetryAt: gone
+					? undefined
+					: new Date(checkedAt.getTime() + FeedSyncManager.getRetryDelay(consecutiveFailures)),
+				previousFeedUrl: podcast.feedHealth?.previousFeedUrl,
+				movedAt: podcast.feedHealth?.movedAt,
+			});
+
 			return {
 				podcastId: podcast.id,
+				podcastTitle: podcast.title,
 				success: false,
 				newEpisodesCount: 0,
-				error: error instanceof Error ? error.message : 'Unknown error',
+				error: message,
 			};
 		}
 	}
 
+	/**
+	 * Podcasts whose feed is gone or failed to update, gone feeds and most failures first
+	 */
+	async getProblemPodcasts(): Promise<ProblemPodcast[]> {
+		const podcasts = await this.subscriptionStore.getAllPodcasts();
+		const rank = (podcast: ProblemPodcast) => podcast.feedHealth.status === 'gone' ? 1 : 0;
+
+		return podcasts
+			.filter((p): p is ProblemPodcast => p.feedHealth?.status === 'error' || p.feedHealth?.status === 'gone')
+			.sort((a, b) =>
+				rank(b) - rank(a) ||
+				(b.feedHealth.consecutiveFailures ?? 0) - (a.feedHealth.consecutiveFailures ?? 0) ||
+				a.title.localeCompare(b.title)
+			);
+	}
+
+	/**
+	 * Delay before automatic syncs retry a feed that failed a number of times in a row
+	 * Doubles with every failure, from 15 minutes up to a day.
+	 */
+	static getRetryDelay(consecutiveFailures: number): number {
+		const delay = FeedSyncManager.BASE_RETRY_DELAY * Math.pow(2, Math.max(0, consecutiveFailures - 1));
+		return Math.min(delay, FeedSyncManager.MAX_RETRY_DELAY);
+	}
+
+	/**
+	 * Store the feed health of a podcast without failing the sync
+	 * Reloads the podcast so changes made while its feed was fetched are kept.
+	 */
+	private async recordFeedHealth(podcast: Podcast, feedHealth: FeedHealth): Promise<void> {
+		try {
+			const current = await this.subscriptionStore.getPodcast(podcast.id);
+			if (!current) {
+				// Unsubscribed during the sync
+				return;
+			}
+			await this.subscriptionStore.updatePodcast({ ...current, feedHealth });
+		} catch (error) {
+			logger.warn(`Failed to store feed health: ${podcast.title}`, error);
+		}
+	}
+
+	/**
+	 * Set a handler for new episodes found during sync (e.g. auto-download)
+	 */
+	setNewEpisodesHandler(handler: NewEpisodesHandler | null): void {
+		this.newEpisodesHandler = handler;
+	}
+
+	/**
+	 * Pass new episodes to the handler without failing the sync
+	 */
+	private async notifyNewEpisodes(podcast: Podcast, newEpisodes: Episode[]): Promise<void> {
+		if (!this.newEpisodesHandler) {
+			return;
+		}
+
+		try {
+			await this.newEpisodesHandler(podcast, newEpisodes);
+		} catch (error) {
+			logger.error('New episodes handler failed', error);
+		}
+	}
+
+	/**
+	 * Set a handler for the results of batch syncs (e.g. notifications)
+	 */
+	setSyncCompleteHandler(handler: SyncCompleteHandler | null): void {
+		this.syncCompleteHandler = handler;
+	}
+
+	/**
+	 * Pass a batch result to the handler without failing the sync
+	 */
+	private async notifySyncComplete(result: BatchSyncResult): Promise<void> {
+		if (!this.syncCompleteHandler) {
+			return;
+		}
+
+		try {
+			await this.syncCompleteHandler(result);
+		} catch (error) {
+			logger.error('Sync complete handler failed', error);
+		}
+	}
+
 	/**
 	 * Handle auto-add rule
 	 */
@@ -366,6 +533,18 @@ export class FeedSyncManager {
 	 * Check if a podcast should be updated
 	 */
 	private shouldUpdate(podcast: Podcast, updateInterval: number): boolean {
+		const health = podcast.feedHealth;
+
+		// Gone feeds are only checked again on request
+		if (health?.status === 'gone') {
+			return false;
+		}
+
+		// Back off from feeds that keep failing
+		if (health?.status === 'error' && health.nextRetryAt && Date.now() < new Date(health.nextRetryAt).getTime()) {
+			return false;
+		}
+
 		if (!podcast.lastFetchedAt) {
 			return true; // Never fetched
 		}
@@ -401,6 +580,7 @@ export class FeedSyncManager {
 
 	/**
 	 * Update sync interval
+	 * A running auto sync keeps going on the new schedule without syncing right away.
 	 */
 	setSyncInterval(interval: number): void {
 		logger.methodEntry('FeedSyncManager', 'setSyncInterval', interval);
@@ -410,7 +590,7 @@ export class FeedSyncManager {
 		// Restart auto sync if it's running
 		if (this.syncTimer) {
 			this.stopAutoSync();
-			this.startAutoSync();
+			this.startAutoSync(false);
 		}
 
 		logger.methodExit('FeedSyncManager', 'setSyncInterval');
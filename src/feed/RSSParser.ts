@@ -1,14 +1,18 @@
 /**
  * RSSParser - Parses RSS 2.0 podcast feeds
  *
- * Supports standard RSS 2.0 format and iTunes podcast extensions.
+ * Supports standard RSS 2.0 format, iTunes podcast extensions, chapter
+ * tags (Podcasting 2.0 <podcast:chapters> and Podlove <psc:chapters>)
+ * and <podcast:transcript> links. Feed moves announced with
+ * <itunes:new-feed-url> are reported to the caller.
  * Converts RSS feed data into our Podcast and Episode data models.
  */
 
 import Parser from 'rss-parser';
 import { logger } from '../utils/Logger';
 import { FeedParseError } from '../utils/errorUtils';
-import { Podcast, Episode } from '../model';
+import { Podcast, Episode, Chapter, TranscriptSource } from '../model';
+import { ChapterService } from './ChapterService';
 
 /**
  * Extended RSS feed parser with custom fields for iTunes namespace
@@ -33,6 +37,7 @@ interface RSSFeed {
 			email?: string;
 		};
 	};
+	newFeedUrl?: string;
 	items: RSSItem[];
 }
 
@@ -57,6 +62,17 @@ interface RSSItem {
 		author?: string;
 		summary?: string;
 	};
+	podcastChapters?: {
+		$?: { url?: string; type?: string };
+	};
+	podcastTranscripts?: Array<{
+		$?: { url?: string; type?: string; language?: string; rel?: string };
+	}>;
+	pscChapters?: {
+		'psc:chapter'?: Array<{
+			$?: { start?: string; title?: string; href?: string; image?: string };
+		}>;
+	};
 }
 
 /**
@@ -75,6 +91,7 @@ export class RSSParser {
 					'itunes:summary',
 					'itunes:category',
 					'itunes:owner',
+					['itunes:new-feed-url', 'newFeedUrl'],
 				] as unknown as (keyof RSSFeed)[],
 				item: [
 					'itunes:image',
@@ -84,6 +101,9 @@ export class RSSParser {
 					'itunes:episodeType',
 					'itunes:author',
 					'itunes:summary',
+					['podcast:chapters', 'podcastChapters'],
+					['psc:chapters', 'pscChapters'],
+					['podcast:transcript', 'podcastTranscripts', { keepArray: true }],
 				] as unknown as (keyof RSSItem)[],
 			},
 		});
@@ -91,19 +111,24 @@ export class RSSParser {
 
 	/**
 	 * Parse RSS feed from XML string
+	 * newFeedUrl is set when the feed announces that it moved.
 	 */
-	async parseFromString(xml: string, feedUrl: string): Promise<{ podcast: Podcast; episodes: Episode[] }> {
+	async parseFromString(
+		xml: string,
+		feedUrl: string
+	): Promise<{ podcast: Podcast; episodes: Episode[]; newFeedUrl?: string }> {
 		logger.methodEntry('RSSParser', 'parseFromString', feedUrl);
 
 		try {
 			const feed = await this.parser.parseString(xml);
 			const podcast = this.extractPodcastData(feed, feedUrl);
 			const episodes = this.extractEpisodesData(feed, podcast.id);
+			const newFeedUrl = this.extractNewFeedUrl(feed, feedUrl);
 
 			logger.info(`Parsed RSS feed: ${podcast.title}, ${episodes.length} episodes`);
 			logger.methodExit('RSSParser', 'parseFromString');
 
-			return { podcast, episodes };
+			return newFeedUrl ? { podcast, episodes, newFeedUrl } : { podcast, episodes };
 		} catch (error) {
 			logger.error('Failed to parse RSS feed', error);
 			throw new FeedParseError('Failed to parse RSS feed', feedUrl, error);
@@ -188,6 +213,28 @@ export class RSSParser {
 		return podcast;
 	}
 
+	/**
+	 * Get the URL announced with <itunes:new-feed-url>, if it is valid and differs from feedUrl
+	 */
+	private extractNewFeedUrl(feed: RSSFeed, feedUrl: string): string | undefined {
+		const newFeedUrl = typeof feed.newFeedUrl === 'string' ? feed.newFeedUrl.trim() : '';
+		if (!newFeedUrl || newFeedUrl === feedUrl) {
+			return undefined;
+		}
+
+		try {
+			const url = new URL(newFeedUrl);
+			if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+				return undefined;
+			}
+		} catch {
+			logger.warn('Ignoring invalid itunes:new-feed-url', newFeedUrl);
+			return undefined;
+		}
+
+		return newFeedUrl;
+	}
+
 	/**
 	 * Extract episodes from RSS feed
 	 */
@@ -274,6 +321,13 @@ export class RSSParser {
 		// Get MIME type
 		const mimeType = item.enclosure.type?.trim();
 
+		// Get chapters (embedded Podlove chapters, or a Podcasting 2.0 chapters file to load later)
+		const chapters = this.parsePscChapters(item.pscChapters);
+		const chaptersUrl = item.podcastChapters?.$?.url?.trim() || undefined;
+
+		// Get transcript links
+		const transcripts = this.parseTranscripts(item.podcastTranscripts);
+
 		const episode: Episode = {
 			id,
 			podcastId,
@@ -289,11 +343,72 @@ export class RSSParser {
 			fileSize,
 			mimeType,
 			guid: item.guid?.trim(),
+			chapters: chapters.length > 0 ? chapters : undefined,
+			chaptersUrl,
+			transcripts: transcripts.length > 0 ? transcripts : undefined,
 		};
 
 		return episode;
 	}
 
+	/**
+	 * Parse Podlove Simple Chapters into chapter markers
+	 */
+	private parsePscChapters(pscChapters: RSSItem['pscChapters']): Chapter[] {
+		const entries = pscChapters?.['psc:chapter'];
+		if (!Array.isArray(entries)) {
+			return [];
+		}
+
+		const chapters: Chapter[] = [];
+
+		for (const entry of entries) {
+			const attrs = entry?.$;
+			const startTime = attrs?.start ? ChapterService.parseNptTime(attrs.start) : NaN;
+			if (isNaN(startTime)) {
+				logger.warn(`Invalid chapter start: ${attrs?.start}`);
+				continue;
+			}
+
+			chapters.push({
+				startTime,
+				title: attrs?.title?.trim() || `Chapter ${chapters.length + 1}`,
+				url: attrs?.href?.trim() || undefined,
+				imageUrl: attrs?.image?.trim() || undefined,
+			});
+		}
+
+		return ChapterService.normalizeChapters(chapters);
+	}
+
+	/**
+	 * Parse <podcast:transcript> tags into transcript sources
+	 */
+	private parseTranscripts(podcastTranscripts: RSSItem['podcastTranscripts']): TranscriptSource[] {
+		if (!Array.isArray(podcastTranscripts)) {
+			return [];
+		}
+
+		const transcripts: TranscriptSource[] = [];
+
+		for (const entry of podcastTranscripts) {
+			const attrs = entry?.$;
+			const url = attrs?.url?.trim();
+			if (!url) {
+				continue;
+			}
+
+			transcripts.push({
+				url,
+				type: attrs?.type?.trim() || '',
+				language: attrs?.language?.trim() || undefined,
+				rel: attrs?.rel?.trim() || undefined,
+			});
+		}
+
+		return transcripts;
+	}
+
 	/**
 	 * Parse iTunes duration string to seconds
 	 * Supports formats: "HH:MM:SS", "MM:SS", or just seconds
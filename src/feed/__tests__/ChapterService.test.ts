@@ -0,0 +1,147 @@
+/**
+ * Unit tests for ChapterService
+ */
+
+import { ChapterService } from '../ChapterService';
+import { Episode, Podcast } from '../../model';
+
+// Mock logger
+jest.mock('../../utils/Logger', () => ({
+	logger: {
+		methodEntry: jest.fn(),
+		methodExit: jest.fn(),
+		debug: jest.fn(),
+		info: jest.fn(),
+		warn: jest.fn(),
+		error: jest.fn(),
+	},
+}));
+
+// Mock Obsidian's requestUrl
+jest.mock('obsidian', () => ({
+	requestUrl: jest.fn(),
+}));
+
+import { requestUrl } from 'obsidian';
+const mockRequestUrl = requestUrl as jest.MockedFunction<typeof requestUrl>;
+
+// Mock retryWithBackoff to not actually retry (for faster tests)
+jest.mock('../../utils/errorUtils', () => {
+	const actual = jest.requireActual('../../utils/errorUtils');
+	return {
+		...actual,
+		retryWithBackoff: jest.fn(async (fn) => await fn()),
+	};
+});
+
+describe('ChapterService', () => {
+	const chaptersJson = {
+		version: '1.2.0',
+		chapters: [
+			{ startTime: 0, title: 'Intro' },
+			{ startTime: 90, title: 'Hidden', toc: false },
+			{ startTime: 120.5, title: 'Interview', img: 'https://example.com/img.jpg', url: 'https://example.com' },
+			{ startTime: 900, endTime: 960, title: 'Outro' },
+		],
+	};
+
+	let episode: Episode;
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+		episode = {
+			id: 'ep-123',
+			podcastId: 'podcast-456',
+			title: 'Test Episode',
+			description: 'Test Description',
+			audioUrl: 'https://example.com/episode.mp3',
+			duration: 1000,
+			publishDate: new Date('2024-01-01'),
+			chaptersUrl: 'https://example.com/chapters.json',
+		};
+	});
+
+	describe('parseJsonChapters', () => {
+		it('should parse chapters, skip non-toc entries and fill end times', () => {
+			const chapters = ChapterService.parseJsonChapters(chaptersJson);
+
+			expect(chapters).toEqual([
+				{ startTime: 0, endTime: 120.5, title: 'Intro', url: undefined, imageUrl: undefined },
+				{
+					startTime: 120.5,
+					endTime: 900,
+					title: 'Interview',
+					url: 'https://example.com',
+					imageUrl: 'https://example.com/img.jpg',
+				},
+				{ startTime: 900, endTime: 960, title: 'Outro', url: undefined, imageUrl: undefined },
+			]);
+		});
+
+		it('should return an empty list for invalid documents', () => {
+			expect(ChapterService.parseJsonChapters(null)).toEqual([]);
+			expect(ChapterService.parseJsonChapters({ chapters: 'nope' })).toEqual([]);
+			expect(ChapterService.parseJsonChapters({ chapters: [{ title: 'No start' }] })).toEqual([]);
+		});
+	});
+
+	describe('parseNptTime', () => {
+		it('should parse supported formats', () => {
+			expect(ChapterService.parseNptTime('90')).toBe(90);
+			expect(ChapterService.parseNptTime('12.5')).toBe(12.5);
+			expect(ChapterService.parseNptTime('02:03')).toBe(123);
+			expect(ChapterService.parseNptTime('01:02:03.250')).toBe(3723.25);
+		});
+
+		it('should return NaN for invalid values', () => {
+			expect(ChapterService.parseNptTime('abc')).toBeNaN();
+			expect(ChapterService.parseNptTime('1:2:3:4')).toBeNaN();
+		});
+	});
+
+	describe('getChapters', () => {
+		it('should return embedded chapters without fetching', async () => {
+			episode.chapters = [{ startTime: 0, title: 'Embedded' }];
+
+			const chapters = await new ChapterService().getChapters(episode);
+
+			expect(chapters).toEqual([{ startTime: 0, title: 'Embedded' }]);
+			expect(mockRequestUrl).not.toHaveBeenCalled();
+		});
+
+		it('should return an empty list when the episode has no chapters', async () => {
+			delete episode.chaptersUrl;
+
+			expect(await new ChapterService().getChapters(episode)).toEqual([]);
+		});
+
+		it('should fetch the chapters file once and store it on the episode', async () => {
+			const podcast = {
+				id: 'podcast-456',
+				episodes: [{ ...episode }],
+			} as Podcast;
+			const mockStore = {
+				getPodcast: jest.fn().mockResolvedValue(podcast),
+				updatePodcast: jest.fn().mockResolvedValue(undefined),
+			};
+			mockRequestUrl.mockResolvedValue({ status: 200, text: JSON.stringify(chaptersJson) } as any);
+			const service = new ChapterService(mockStore as any);
+
+			const chapters = await service.getChapters(episode);
+			await service.getChapters({ ...episode, chapters: undefined });
+
+			expect(chapters).toHaveLength(3);
+			expect(episode.chapters).toBe(chapters);
+			expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+			expect(podcast.episodes![0].chapters).toBe(chapters);
+			expect(mockStore.updatePodcast).toHaveBeenCalledWith(podcast);
+		});
+
+		it('should return an empty list when the fetch fails', async () => {
+			mockRequestUrl.mockResolvedValue({ status: 404, text: '' } as any);
+
+			expect(await new ChapterService().getChapters(episode)).toEqual([]);
+			expect(episode.chapters).toBeUndefined();
+		});
+	});
+});
@@ -6,7 +6,7 @@ import { FeedService, FeedType } from '../FeedService';
 import { FeedCacheStore } from '../../storage/CacheStore';
 import { RSSParser } from '../RSSParser';
 import { AtomParser } from '../AtomParser';
-import { FeedParseError, NetworkError } from '../../utils/errorUtils';
+import { FeedGoneError, FeedParseError, NetworkError } from '../../utils/errorUtils';
 import { Podcast, Episode } from '../../model';
 
 // Mock logger
@@ -338,6 +338,120 @@ describe('FeedService', () => {
 		});
 	});
 
+	describe('feed moves', () => {
+		const oldUrl = 'https://old.example.com/feed.rss';
+		const newUrl = 'https://new.example.com/feed.rss';
+
+		const subscribed: Podcast = {
+			id: 'podcast-original',
+			title: 'Test Podcast',
+			author: 'Test Author',
+			description: 'Test Description',
+			feedUrl: oldUrl,
+			subscribedAt: new Date(),
+		};
+
+		const respond = (status: number, text = '', headers: Record<string, string> = {}) => ({
+			status,
+			text,
+			headers,
+			arrayBuffer: new ArrayBuffer(0),
+			json: {},
+		});
+
+		const respondByUrl = (responses: Record<string, ReturnType<typeof respond>>) => {
+			mockRequestUrl.mockImplementation(((param: { url: string }) =>
+				Promise.resolve(responses[param.url] || respond(404))) as any);
+		};
+
+		it('should throw FeedGoneError for 410 Gone', async () => {
+			respondByUrl({ [oldUrl]: respond(410) });
+
+			await expect(service.fetchFeed(oldUrl, { useCache: false })).rejects.toThrow(FeedGoneError);
+		});
+
+		it('should follow itunes:new-feed-url', async () => {
+			const announcing = sampleRSSFeed.replace(
+				'<title>Test Podcast</title>',
+				`<title>Old Podcast</title><itunes:new-feed-url>${newUrl}</itunes:new-feed-url>`
+			);
+			respondByUrl({
+				[oldUrl]: respond(200, announcing),
+				[newUrl]: respond(200, sampleRSSFeed),
+			});
+
+			const result = await service.updateFeed(subscribed);
+
+			expect(result.movedFrom).toBe(oldUrl);
+			expect(result.podcast.feedUrl).toBe(newUrl);
+			expect(result.podcast.title).toBe('Test Podcast');
+			expect(result.podcast.id).toBe('podcast-original');
+		});
+
+		it('should follow a chain of announced moves and keep the podcast ID', async () => {
+			const midUrl = 'https://mid.example.com/feed.rss';
+			const pointingTo = (url: string) => sampleRSSFeed.replace(
+				'<title>Test Podcast</title>',
+				`<title>Test Podcast</title><itunes:new-feed-url>${url}</itunes:new-feed-url>`
+			);
+			respondByUrl({
+				[oldUrl]: respond(200, pointingTo(midUrl)),
+				[midUrl]: respond(200, pointingTo(newUrl)),
+				[newUrl]: respond(200, sampleRSSFeed),
+			});
+
+			const result = await service.updateFeed(subscribed);
+
+			expect(result.movedFrom).toBe(oldUrl);
+			expect(result.podcast.feedUrl).toBe(newUrl);
+			expect(result.podcast.id).toBe('podcast-original');
+			expect(result.episodes.every(e => e.podcastId === 'podcast-original')).toBe(true);
+		});
+
+		it('should keep the old feed when the announced feed cannot be loaded', async () => {
+			const announcing = sampleRSSFeed.replace(
+				'<title>Test Podcast</title>',
+				`<title>Old Podcast</title><itunes:new-feed-url>${newUrl}</itunes:new-feed-url>`
+			);
+			respondByUrl({
+				[oldUrl]: respond(200, announcing),
+				[newUrl]: respond(500),
+			});
+
+			const result = await service.updateFeed(subscribed);
+
+			expect(result.movedFrom).toBeUndefined();
+			expect(result.podcast.feedUrl).toBe(oldUrl);
+			expect(result.podcast.title).toBe('Old Podcast');
+		});
+
+		it('should not loop between feeds announcing each other', async () => {
+			const pointingTo = (url: string) => sampleRSSFeed.replace(
+				'<title>Test Podcast</title>',
+				`<title>Test Podcast</title><itunes:new-feed-url>${url}</itunes:new-feed-url>`
+			);
+			respondByUrl({
+				[oldUrl]: respond(200, pointingTo(newUrl)),
+				[newUrl]: respond(200, pointingTo(oldUrl)),
+			});
+
+			const result = await service.updateFeed(subscribed);
+
+			expect(result.podcast.feedUrl).toBe(newUrl);
+			expect(mockRequestUrl).toHaveBeenCalledTimes(2);
+		});
+
+		it('should not report a move when the feed stays put', async () => {
+			respondByUrl({ [oldUrl]: respond(200, sampleRSSFeed) });
+
+			const result = await service.updateFeed(subscribed);
+
+			expect(result.movedFrom).toBeUndefined();
+			expect(result.podcast.feedUrl).toBe(oldUrl);
+			expect(result.podcast.id).toBe('podcast-original');
+		});
+	});
+
 	describe('detectFeedType', () => {
 		it('should detect RSS feed', () => {
 			// Access private method via any cast for testing
@@ -6,6 +6,7 @@ import { FeedSyncManager, BatchSyncResult, PodcastSyncResult } from '../FeedSync
 import { FeedService } from '../FeedService';
 import { SubscriptionStore } from '../../storage/SubscriptionStore';
 import { Podcast, Episode } from '../../model';
+import { FeedGoneError, NetworkError } from '../../utils/errorUtils';
 
 // Mock logger
 jest.mock('../../utils/Logger', () => ({
@@ -122,6 +123,14 @@ describe('FeedSyncManager', () => {
 			expect(status.isAutoSyncEnabled).toBe(true);
 		});
 
+		it('should wait for the first interval when asked not to sync now', async () => {
+			manager.startAutoSync(false);
+			await new Promise(resolve => setTimeout(resolve, 10));
+
+			expect(manager.getSyncStatus().isAutoSyncEnabled).toBe(true);
+			expect(mockSubscriptionStore.getAllPodcasts).not.toHaveBeenCalled();
+		});
+
 		it('should not start if already running', () => {
 			manager.startAutoSync();
 			manager.startAutoSync();
@@ -306,6 +315,33 @@ describe('FeedSyncManager', () => {
 			const status = manager.getSyncStatus();
 			expect(status.lastSyncTime).not.toBeNull();
 		});
+
+		it('should pass the batch result with new episodes to the sync complete handler', async () => {
+			const handler = jest.fn();
+			manager.setSyncCompleteHandler(handler);
+			mockSubscriptionStore.getAllPodcasts.mockResolvedValue([samplePodcast]);
+			mockFeedService.updateFeed.mockResolvedValue({
+				podcast: samplePodcast,
+				episodes: [],
+				newEpisodes: [newEpisode],
+			});
+
+			const result = await manager.syncAll({ force: true, background: true });
+
+			expect(handler).toHaveBeenCalledWith(result);
+			expect(result.background).toBe(true);
+			expect(result.results[0]).toEqual(expect.objectContaining({
+				podcastTitle: samplePodcast.title,
+				newEpisodes: [newEpisode],
+			}));
+		});
+
+		it('should not fail the sync when the sync complete handler throws', async () => {
+			manager.setSyncCompleteHandler(jest.fn().mockRejectedValue(new Error('handler failed')));
+			mockSubscriptionStore.getAllPodcasts.mockResolvedValue([]);
+
+			await expect(manager.syncAll()).resolves.toEqual(expect.objectContaining({ background: false }));
+		});
 	});
 
 	describe('syncPodcasts', () => {
@@ -387,6 +423,35 @@ describe('FeedSyncManager', () => {
 			expect(result.newEpisodesCount).toBe(1);
 		});
 
+		it('should pass new episodes to the new episodes handler', async () => {
+			const handler = jest.fn();
+			manager.setNewEpisodesHandler(handler);
+			mockSubscriptionStore.getPodcast.mockResolvedValue(samplePodcast);
+			mockFeedService.updateFeed.mockResolvedValue({
+				podcast: samplePodcast,
+				episodes: [],
+				newEpisodes: [newEpisode],
+			});
+
+			await manager.syncPodcast('podcast-123');
+
+			expect(handler).toHaveBeenCalledWith(samplePodcast, [newEpisode]);
+		});
+
+		it('should not fail the sync when the new episodes handler throws', async () => {
+			manager.setNewEpisodesHandler(jest.fn().mockRejectedValue(new Error('handler failed')));
+			mockSubscriptionStore.getPodcast.mockResolvedValue(samplePodcast);
+			mockFeedService.updateFeed.mockResolvedValue({
+				podcast: samplePodcast,
+				episodes: [],
+				newEpisodes: [newEpisode],
+			});
+
+			const result = await manager.syncPodcast('podcast-123');
+
+			expect(result.success).toBe(true);
+		});
+
 		it('should throw error if podcast not found', async () => {
 			mockSubscriptionStore.getPodcast.mockResolvedValue(null);
 
@@ -404,6 +469,264 @@ describe('FeedSyncManager', () => {
 		});
 	});
 
+	describe('feed health', () => {
+		it('should record a successful update', async () => {
+			mockSubscriptionStore.getPodcast.mockResolvedValue(samplePodcast);
+			mockFeedService.updateFeed.mockResolvedValue({
+				podcast: { ...samplePodcast },
+				episodes: samplePodcast.episodes || [],
+				newEpisodes: [],
+			});
+
+			await manager.syncPodcast('podcast-123');
+
+			const stored = mockSubscriptionStore.updatePodcast.mock.calls[0][0];
+			expect(stored.feedHealth?.status).toBe('ok');
+			expect(stored.feedHealth?.checkedAt).toBeInstanceOf(Date);
+		});
+
+		it('should record a feed move', async () => {
+			mockSubscriptionStore.getPodcast.mockResolvedValue(samplePodcast);
+			mockFeedService.updateFeed.mockResolvedValue({
+				podcast: { ...samplePodcast, feedUrl: 'https://new.example.com/feed.rss' },
+				episodes: samplePodcast.episodes || [],
+				newEpisodes: [],
+				movedFrom: samplePodcast.feedUrl,
+			});
+
+			const result = await manager.syncPodcast('podcast-123');
+
+			expect(result.movedFrom).toBe(samplePodcast.feedUrl);
+			const stored = mockSubscriptionStore.updatePodcast.mock.calls[0][0];
+			expect(stored.id).toBe('podcast-123');
+			expect(stored.feedUrl).toBe('https://new.example.com/feed.rss');
+			expect(stored.feedHealth).toMatchObject({
+				status: 'moved',
+				previousFeedUrl: samplePodcast.feedUrl,
+			});
+		});
+
+		it('should keep the previous feed URL after the next successful update', async () => {
+			const movedAt = new Date('2024-01-05');
+			mockSubscriptionStore.getPodcast.mockResolvedValue({
+				...samplePodcast,
+				feedHealth: { status: 'moved', checkedAt: movedAt, previousFeedUrl: 'https://old.example.com/feed', movedAt },
+			});
+			mockFeedService.updateFeed.mockResolvedValue({
+				podcast: { ...samplePodcast },
+				episodes: [],
+				newEpisodes: [],
+			});
+
+			await manager.syncPodcast('podcast-123');
+
+			expect(mockSubscriptionStore.updatePodcast.mock.calls[0][0].feedHealth).toMatchObject({
+				status: 'ok',
+				previousFeedUrl: 'https://old.example.com/feed',
+				movedAt,
+			});
+		});
+
+		it('should record a failed update', async () => {
+			mockSubscriptionStore.getPodcast.mockResolvedValue(samplePodcast);
+			mockFeedService.updateFeed.mockRejectedValue(new Error('Network error'));
+
+			await manager.syncPodcast('podcast-123');
+
+			const stored = mockSubscriptionStore.updatePodcast.mock.calls[0][0];
+			expect(stored.episodes).toEqual(samplePodcast.episodes);
+			expect(stored.feedHealth).toMatchObject({ status: 'error', error: 'Network error' });
+		});
+
+		it('should keep changes made to the podcast while its feed was failing', async () => {
+			const edited: Podcast = { ...samplePodcast, title: 'Renamed while syncing' };
+			mockSubscriptionStore.getPodcast
+				.mockResolvedValueOnce(samplePodcast)
+				.mockResolvedValueOnce(edited);
+			mockFeedService.updateFeed.mockRejectedValue(new Error('Network error'));
+
+			await manager.syncPodcast('podcast-123');
+
+			const stored = mockSubscriptionStore.updatePodcast.mock.calls[0][0];
+			expect(stored.title).toBe('Renamed while syncing');
+			expect(stored.feedHealth?.status).toBe('error');
+		});
+
+		it('should not store feed health for a podcast removed during the sync', async () => {
+			mockSubscriptionStore.getPodcast
+				.mockResolvedValueOnce(samplePodcast)
+				.mockResolvedValueOnce(null);
+			mockFeedService.updateFeed.mockRejectedValue(new Error('Network error'));
+
+			await manager.syncPodcast('podcast-123');
+
+			expect(mockSubscriptionStore.updatePodcast).not.toHaveBeenCalled();
+		});
+
+		it('should mark a feed that is gone', async () => {
+			mockSubscriptionStore.getPodcast.mockResolvedValue(samplePodcast);
+			mockFeedService.updateFeed.mockRejectedValue(new FeedGoneError('Feed is gone (HTTP 410)', samplePodcast.feedUrl));
+
+			const result = await manager.syncPodcast('podcast-123');
+
+			expect(result.success).toBe(false);
+			expect(mockSubscriptionStore.updatePodcast.mock.calls[0][0].feedHealth?.status).toBe('gone');
+		});
+
+		it('should not fail the sync when the feed health cannot be stored', async () => {
+			mockSubscriptionStore.getPodcast.mockResolvedValue(samplePodcast);
+			mockSubscriptionStore.updatePodcast.mockRejectedValue(new Error('Disk full'));
+			mockFeedService.updateFeed.mockRejectedValue(new Error('Network error'));
+
+			const result = await manager.syncPodcast('podcast-123');
+
+			expect(result.error).toBe('Network error');
+		});
+
+		it('should skip gone feeds unless the sync is forced', async () => {
+			const gone: Podcast = {
+				...samplePodcast,
+				id: 'gone',
+				lastFetchedAt: undefined,
+				feedHealth: { status: 'gone', checkedAt: new Date('2024-01-01') },
+			};
+			const active: Podcast = { ...samplePodcast, id: 'active', lastFetchedAt: undefined };
+			mockSubscriptionStore.getAllPodcasts.mockResolvedValue([gone, active]);
+			mockFeedService.updateFeed.mockImplementation(async podcast => ({
+				podcast,
+				episodes: [],
+				newEpisodes: [],
+			}));
+
+			const automatic = await manager.syncAll();
+			expect(automatic.results.map(r => r.podcastId)).toEqual(['active']);
+
+			const forced = await manager.syncAll({ force: true });
+			expect(forced.results.map(r => r.podcastId)).toEqual(['gone', 'active']);
+		});
+	});
+
+	describe('sync metadata and backoff', () => {
+		it('should record the last success and response time', async () => {
+			mockSubscriptionStore.getPodcast.mockResolvedValue({
+				...samplePodcast,
+				feedHealth: { status: 'error', checkedAt: new Date('2024-01-01'), consecutiveFailures: 3, error: 'Timeout' },
+			});
+			mockFeedService.updateFeed.mockResolvedValue({
+				podcast: { ...samplePodcast },
+				episodes: [],
+				newEpisodes: [],
+			});
+
+			await manager.syncPodcast('podcast-123');
+
+			const health = mockSubscriptionStore.updatePodcast.mock.calls[0][0].feedHealth!;
+			expect(health.status).toBe('ok');
+			expect(health.lastSuccessAt).toEqual(health.checkedAt);
+			expect(health.consecutiveFailures).toBe(0);
+			expect(health.responseTimeMs).toBeGreaterThanOrEqual(0);
+			expect(health.error).toBeUndefined();
+			expect(health.nextRetryAt).toBeUndefined();
+		});
+
+		it('should count consecutive failures and record the error class and HTTP status', async () => {
+			const lastSuccessAt = new Date('2024-01-01');
+			mockSubscriptionStore.getPodcast.mockResolvedValue({
+				...samplePodcast,
+				feedHealth: { status: 'error', checkedAt: new Date('2024-01-02'), lastSuccessAt, consecutiveFailures: 2 },
+			});
+			const cause = new NetworkError('HTTP 503: Failed to fetch feed', samplePodcast.feedUrl, undefined, 503);
+			mockFeedService.updateFeed.mockRejectedValue(
+				new NetworkError('Failed to fetch feed', samplePodcast.feedUrl, cause)
+			);
+
+			await manager.syncPodcast('podcast-123');
+
+			const health = mockSubscriptionStore.updatePodcast.mock.calls[0][0].feedHealth!;
+			expect(health).toMatchObject({
+				status: 'error',
+				consecutiveFailures: 3,
+				errorType: 'NetworkError',
+				httpStatus: 503,
+				lastSuccessAt,
+			});
+			expect(new Date(health.nextRetryAt!).getTime() - health.checkedAt.getTime())
+				.toBe(FeedSyncManager.getRetryDelay(3));
+		});
+
+		it('should not schedule retries for gone feeds', async () => {
+			mockSubscriptionStore.getPodcast.mockResolvedValue(samplePodcast);
+			mockFeedService.updateFeed.mockRejectedValue(new FeedGoneError('Feed is gone (HTTP 410)', samplePodcast.feedUrl));
+
+			await manager.syncPodcast('podcast-123');
+
+			const health = mockSubscriptionStore.updatePodcast.mock.calls[0][0].feedHealth!;
+			expect(health.httpStatus).toBe(410);
+			expect(health.errorType).toBe('FeedGoneError');
+			expect(health.nextRetryAt).toBeUndefined();
+		});
+
+		it('should double the retry delay with every failure up to a day', () => {
+			expect(FeedSyncManager.getRetryDelay(1)).toBe(15 * 60 * 1000);
+			expect(FeedSyncManager.getRetryDelay(2)).toBe(30 * 60 * 1000);
+			expect(FeedSyncManager.getRetryDelay(3)).toBe(60 * 60 * 1000);
+			expect(FeedSyncManager.getRetryDelay(20)).toBe(24 * 60 * 60 * 1000);
+		});
+
+		it('should skip failing feeds until their retry time', async () => {
+			const backingOff: Podcast = {
+				...samplePodcast,
+				id: 'backing-off',
+				lastFetchedAt: undefined,
+				feedHealth: {
+					status: 'error',
+					checkedAt: new Date(),
+					consecutiveFailures: 4,
+					nextRetryAt: new Date(Date.now() + 3600000),
+				},
+			};
+			const due: Podcast = {
+				...samplePodcast,
+				id: 'due',
+				lastFetchedAt: undefined,
+				feedHealth: {
+					status: 'error',
+					checkedAt: new Date(Date.now() - 7200000),
+					consecutiveFailures: 1,
+					nextRetryAt: new Date(Date.now() - 60000),
+				},
+			};
+			mockSubscriptionStore.getAllPodcasts.mockResolvedValue([backingOff, due]);
+			mockFeedService.updateFeed.mockImplementation(async podcast => ({
+				podcast,
+				episodes: [],
+				newEpisodes: [],
+			}));
+
+			const automatic = await manager.syncAll();
+			expect(automatic.results.map(r => r.podcastId)).toEqual(['due']);
+
+			const forced = await manager.syncAll({ force: true });
+			expect(forced.results.map(r => r.podcastId)).toEqual(['backing-off', 'due']);
+		});
+
+		it('should list problem feeds, gone feeds and most failures first', async () => {
+			const checkedAt = new Date();
+			mockSubscriptionStore.getAllPodcasts.mockResolvedValue([
+				{ ...samplePodcast, id: 'ok', title: 'OK', feedHealth: { status: 'ok', checkedAt } },
+				{ ...samplePodcast, id: 'moved', title: 'Moved', feedHealth: { status: 'moved', checkedAt } },
+				{ ...samplePodcast, id: 'unchecked', title: 'Unchecked' },
+				{ ...samplePodcast, id: 'once', title: 'Once', feedHealth: { status: 'error', checkedAt, consecutiveFailures: 1 } },
+				{ ...samplePodcast, id: 'often', title: 'Often', feedHealth: { status: 'error', checkedAt, consecutiveFailures: 5 } },
+				{ ...samplePodcast, id: 'gone', title: 'Gone', feedHealth: { status: 'gone', checkedAt, consecutiveFailures: 1 } },
+			]);
+
+			const podcasts = await manager.getProblemPodcasts();
+
+			expect(podcasts.map(p => p.id)).toEqual(['gone', 'often', 'once']);
+		});
+	});
+
 	describe('getSyncStatus', () => {
 		it('should return sync status', () => {
 			const status = manager.getSyncStatus();
@@ -453,6 +776,19 @@ describe('FeedSyncManager', () => {
 			expect(status.isAutoSyncEnabled).toBe(true);
 			expect(status.syncInterval).toBe(7200000);
 		});
+
+		it('should not sync right away when the interval changes', async () => {
+			mockSubscriptionStore.getAllPodcasts.mockResolvedValue([]);
+			manager.startAutoSync();
+			await new Promise(resolve => setTimeout(resolve, 10));
+			mockSubscriptionStore.getAllPodcasts.mockClear();
+
+			manager.setSyncInterval(7200000);
+			await new Promise(resolve => setTimeout(resolve, 10));
+
+			expect(mockSubscriptionStore.getAllPodcasts).not.toHaveBeenCalled();
+			expect(manager.getSyncStatus().isAutoSyncEnabled).toBe(true);
+		});
 	});
 
 	describe('shouldUpdate', () => {
@@ -479,5 +815,14 @@ describe('FeedSyncManager', () => {
 			const result = (manager as any).shouldUpdate(podcast, 3600000); // 1 hour interval
 			expect(result).toBe(false);
 		});
+
+		it('should return false for gone feeds', () => {
+			const podcast = {
+				...samplePodcast,
+				lastFetchedAt: undefined,
+				feedHealth: { status: 'gone', checkedAt: new Date() },
+			};
+			expect((manager as any).shouldUpdate(podcast, 3600000)).toBe(false);
+		});
 	});
 });
@@ -247,6 +247,49 @@ describe('RSSParser', () => {
 		});
 	});
 
+	describe('feed moves', () => {
+		const movedFeed = (tags: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:podcast="https://podcastindex.org/namespace/1.0">
+	<channel>
+		<title>Moved Podcast</title>
+		${tags}
+		<item>
+			<title>Episode</title>
+			<enclosure url="https://example.com/episode.mp3" type="audio/mpeg" />
+		</item>
+	</channel>
+</rss>`;
+
+		it('should report the URL announced with itunes:new-feed-url', async () => {
+			const result = await parser.parseFromString(
+				movedFeed('<itunes:new-feed-url> https://new.example.com/feed.xml </itunes:new-feed-url>'),
+				'https://example.com/feed.rss'
+			);
+
+			expect(result.newFeedUrl).toBe('https://new.example.com/feed.xml');
+			// The podcast stays at the fetched URL until the caller follows the move
+			expect(result.podcast.feedUrl).toBe('https://example.com/feed.rss');
+		});
+
+		it('should ignore a new-feed-url pointing at the same feed', async () => {
+			const result = await parser.parseFromString(
+				movedFeed('<itunes:new-feed-url>https://example.com/feed.rss</itunes:new-feed-url>'),
+				'https://example.com/feed.rss'
+			);
+
+			expect(result.newFeedUrl).toBeUndefined();
+		});
+
+		it('should ignore an invalid new-feed-url', async () => {
+			const result = await parser.parseFromString(
+				movedFeed('<itunes:new-feed-url>not a url</itunes:new-feed-url>'),
+				'https://example.com/feed.rss'
+			);
+
+			expect(result.newFeedUrl).toBeUndefined();
+		});
+	});
+
 	describe('extractEpisodeData', () => {
 		it('should parse all episode types', async () => {
 			const result = await parser.parseFromString(sampleRSSFeed, 'https://example.com/feed.rss');
@@ -281,6 +324,65 @@ describe('RSSParser', () => {
 			expect(episode.episodeNumber).toBeUndefined();
 			expect(episode.seasonNumber).toBeUndefined();
 			expect(episode.episodeType).toBeUndefined();
+			expect(episode.chapters).toBeUndefined();
+			expect(episode.chaptersUrl).toBeUndefined();
+			expect(episode.transcripts).toBeUndefined();
+		});
+
+		it('should parse Podlove and Podcasting 2.0 chapters', async () => {
+			const chapterFeed = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:podcast="https://podcastindex.org/namespace/1.0" xmlns:psc="http://podlove.org/simple-chapters">
+	<channel>
+		<title>Chapter Podcast</title>
+		<item>
+			<title>Embedded Chapters</title>
+			<enclosure url="https://example.com/ep1.mp3" type="audio/mpeg"/>
+			<psc:chapters version="1.2">
+				<psc:chapter start="00:05:00" title="Main Topic" href="https://example.com/topic"/>
+				<psc:chapter start="0" title="Intro"/>
+				<psc:chapter start="01:02:03.500" title="Outro"/>
+			</psc:chapters>
+		</item>
+		<item>
+			<title>Chapters File</title>
+			<enclosure url="https://example.com/ep2.mp3" type="audio/mpeg"/>
+			<podcast:chapters url="https://example.com/ep2.json" type="application/json+chapters"/>
+		</item>
+	</channel>
+</rss>`;
+
+			const result = await parser.parseFromString(chapterFeed, 'https://example.com/feed.rss');
+
+			expect(result.episodes[0].chapters).toEqual([
+				{ startTime: 0, endTime: 300, title: 'Intro', url: undefined, imageUrl: undefined },
+				{ startTime: 300, endTime: 3723.5, title: 'Main Topic', url: 'https://example.com/topic', imageUrl: undefined },
+				{ startTime: 3723.5, title: 'Outro', url: undefined, imageUrl: undefined },
+			]);
+			expect(result.episodes[1].chapters).toBeUndefined();
+			expect(result.episodes[1].chaptersUrl).toBe('https://example.com/ep2.json');
+		});
+
+		it('should parse transcript links', async () => {
+			const transcriptFeed = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:podcast="https://podcastindex.org/namespace/1.0">
+	<channel>
+		<title>Transcript Podcast</title>
+		<item>
+			<title>Transcribed</title>
+			<enclosure url="https://example.com/ep1.mp3" type="audio/mpeg"/>
+			<podcast:transcript url="https://example.com/ep1.vtt" type="text/vtt" language="en" rel="captions"/>
+			<podcast:transcript url="https://example.com/ep1.json" type="application/json"/>
+			<podcast:transcript type="text/html"/>
+		</item>
+	</channel>
+</rss>`;
+
+			const result = await parser.parseFromString(transcriptFeed, 'https://example.com/feed.rss');
+
+			expect(result.episodes[0].transcripts).toEqual([
+				{ url: 'https://example.com/ep1.vtt', type: 'text/vtt', language: 'en', rel: 'captions' },
+				{ url: 'https://example.com/ep1.json', type: 'application/json', language: undefined, rel: undefined },
+			]);
 		});
 	});
 
@@ -9,6 +9,9 @@
 export { RSSParser } from './RSSParser';
 export { AtomParser } from './AtomParser';
 
+// Export chapter service
+export { ChapterService } from './ChapterService';
+
 // Export feed service
 export {
 	FeedService,
@@ -22,4 +25,7 @@ export {
 	type SyncOptions,
 	type PodcastSyncResult,
 	type BatchSyncResult,
+	type NewEpisodesHandler,
+	type SyncCompleteHandler,
+	type ProblemPodcast,
 } from './FeedSyncManager';
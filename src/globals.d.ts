@@ -0,0 +1,8 @@
+/**
+ * Globals provided by Obsidian at runtime
+ */
+
+interface Window {
+	/** moment.js bundled with Obsidian */
+	moment: typeof import('moment');
+}
@@ -0,0 +1,170 @@
+/**
+ * InboxManager - Triage of newly synced episodes
+ *
+ * Episodes found by feed syncs land in the inbox until they are
+ * processed: queued, added to a playlist, marked played or dismissed.
+ */
+
+import { logger } from '../utils/Logger';
+import { Episode, Podcast } from '../model';
+import { SubscriptionStore } from '../storage/SubscriptionStore';
+import { ProgressStore } from '../storage/ProgressStore';
+import { InboxStore } from './InboxStore';
+
+/**
+ * Inbox episode with its podcast
+ */
+export interface InboxEntry {
+	episode: Episode;
+	podcast: Podcast;
+	addedAt: Date;
+}
+
+/**
+ * Callback invoked whenever the inbox changes
+ */
+export type InboxChangeHandler = () => void;
+
+/**
+ * Inbox Manager
+ */
+export class InboxManager {
+	private inboxStore: InboxStore;
+	private subscriptionStore: SubscriptionStore;
+	private progressStore: ProgressStore;
+	private changeHandler: InboxChangeHandler | null = null;
+
+	constructor(inboxStore: InboxStore, subscriptionStore: SubscriptionStore, progressStore: ProgressStore) {
+		this.inboxStore = inboxStore;
+		this.subscriptionStore = subscriptionStore;
+		this.progressStore = progressStore;
+	}
+
+	/**
+	 * Set a handler for inbox changes (e.g. to refresh views)
+	 */
+	setChangeHandler(handler: InboxChangeHandler | null): void {
+		this.changeHandler = handler;
+	}
+
+	/**
+	 * Add newly synced episodes to the inbox
+	 */
+	async addEpisodes(episodes: Episode[]): Promise<void> {
+		logger.methodEntry('InboxManager', 'addEpisodes', episodes.length);
+
+		const addedAt = new Date();
+		const added = await this.inboxStore.addItems(episodes.map(episode => ({
+			episodeId: episode.id,
+			podcastId: episode.podcastId,
+			addedAt,
+		})));
+
+		if (added > 0) {
+			logger.info(`Added ${added} episodes to the inbox`);
+			this.notifyChange();
+		}
+
+		logger.methodExit('InboxManager', 'addEpisodes');
+	}
+
+	/**
+	 * Get the inbox episodes, newest arrivals first
+	 * Items whose podcast or episode no longer exists are dropped.
+	 */
+	async getEntries(): Promise<InboxEntry[]> {
+		logger.methodEntry('InboxManager', 'getEntries');
+
+		const items = await this.inboxStore.getItems();
+		const podcasts = new Map<string, Podcast>();
+		for (const podcast of await this.subscriptionStore.getAllPodcasts()) {
+			podcasts.set(podcast.id, podcast);
+		}
+
+		const entries: InboxEntry[] = [];
+		const missing: string[] = [];
+
+		for (const item of items) {
+			const podcast = podcasts.get(item.podcastId);
+			const episode = podcast?.episodes?.find(e => e.id === item.episodeId);
+
+			if (!podcast || !episode) {
+				missing.push(item.episodeId);
+				continue;
+			}
+
+			entries.push({ episode, podcast, addedAt: item.addedAt });
+		}
+
+		if (missing.length > 0) {
+			await this.inboxStore.removeItems(missing);
+		}
+
+		entries.sort((a, b) =>
+			b.addedAt.getTime() - a.addedAt.getTime() ||
+			new Date(b.episode.publishDate).getTime() - new Date(a.episode.publishDate).getTime()
+		);
+
+		logger.methodExit('InboxManager', 'getEntries', entries.length);
+		return entries;
+	}
+
+	/**
+	 * Get the number of episodes in the inbox
+	 */
+	async getCount(): Promise<number> {
+		const items = await this.inboxStore.getItems();
+		return items.length;
+	}
+
+	/**
+	 * Remove episodes from the inbox (after queueing, archiving, ...)
+	 */
+	async dismiss(episodeIds: string[]): Promise<void> {
+		logger.methodEntry('InboxManager', 'dismiss', episodeIds.length);
+
+		const removed = await this.inboxStore.removeItems(episodeIds);
+		if (removed > 0) {
+			this.notifyChange();
+		}
+
+		logger.methodExit('InboxManager', 'dismiss');
+	}
+
+	/**
+	 * Mark episodes as played and remove them from the inbox
+	 */
+	async markPlayed(episodes: Episode[]): Promise<void> {
+		logger.methodEntry('InboxManager', 'markPlayed', episodes.length);
+
+		for (const episode of episodes) {
+			await this.progressStore.markCompleted(episode.id, episode.podcastId, episode.duration);
+		}
+		await this.dismiss(episodes.map(episode => episode.id));
+
+		logger.methodExit('InboxManager', 'markPlayed');
+	}
+
+	/**
+	 * Remove every episode from the inbox
+	 */
+	async clear(): Promise<void> {
+		logger.methodEntry('InboxManager', 'clear');
+
+		await this.inboxStore.clearItems();
+		this.notifyChange();
+
+		logger.methodExit('InboxManager', 'clear');
+	}
+
+	/**
+	 * Tell the change handler that the inbox changed
+	 */
+	private notifyChange(): void {
+		try {
+			this.changeHandler?.();
+		} catch (error) {
+			logger.warn('Inbox change handler failed', error);
+		}
+	}
+}
@@ -0,0 +1,148 @@
+/**
+ * InboxStore - Persists the episode inbox
+ *
+ * Stores the newly synced episodes that have not been triaged yet
+ * in a single JSON file (inbox.json).
+ */
+
+import { Vault } from 'obsidian';
+import { logger } from '../utils/Logger';
+import { InboxItem } from '../model';
+import { DataPathManager } from '../storage/DataPathManager';
+import { SingleFileStore } from '../storage/FileSystemStore';
+
+/**
+ * Inbox data structure
+ */
+export interface InboxData {
+	items: InboxItem[];
+	version: number;
+}
+
+/**
+ * Inbox Store
+ */
+export class InboxStore extends SingleFileStore<InboxData> {
+	private static readonly CURRENT_VERSION = 1;
+
+	constructor(vault: Vault, pathManager: DataPathManager) {
+		const filePath = pathManager.getFilePath('root', 'inbox.json');
+		super(vault, pathManager, filePath);
+	}
+
+	/**
+	 * Validate inbox data
+	 */
+	protected validate(data: InboxData): boolean {
+		if (!data || typeof data !== 'object') {
+			logger.warn('Invalid inbox data: not an object');
+			return false;
+		}
+
+		if (!Array.isArray(data.items)) {
+			logger.warn('Invalid inbox data: items is not an array');
+			return false;
+		}
+
+		if (typeof data.version !== 'number') {
+			logger.warn('Invalid inbox data: version is not a number');
+			return false;
+		}
+
+		for (const item of data.items) {
+			if (!item || typeof item.episodeId !== 'string' || typeof item.podcastId !== 'string') {
+				logger.warn('Invalid inbox item in data', item);
+				return false;
+			}
+		}
+
+		return true;
+	}
+
+	/**
+	 * Get default inbox data
+	 */
+	protected getDefaultValue(): InboxData {
+		return {
+			items: [],
+			version: InboxStore.CURRENT_VERSION,
+		};
+	}
+
+	/**
+	 * Load data and restore Date fields
+	 */
+	async load(): Promise<InboxData> {
+		const data = await super.load();
+
+		for (const item of data.items) {
+			item.addedAt = new Date(item.addedAt);
+		}
+
+		return data;
+	}
+
+	/**
+	 * Get all inbox items
+	 */
+	async getItems(): Promise<InboxItem[]> {
+		const data = await this.load();
+		return data.items;
+	}
+
+	/**
+	 * Add items, ignoring episodes that are already in the inbox
+	 * Returns the number of items added.
+	 */
+	async addItems(items: InboxItem[]): Promise<number> {
+		logger.methodEntry('InboxStore', 'addItems', items.length);
+
+		const data = await this.load();
+		const existing = new Set(data.items.map(item => item.episodeId));
+		const added = items.filter(item => {
+			if (existing.has(item.episodeId)) {
+				return false;
+			}
+			existing.add(item.episodeId);
+			return true;
+		});
+
+		if (added.length > 0) {
+			data.items.push(...added);
+			await this.save(data);
+		}
+
+		logger.methodExit('InboxStore', 'addItems', added.length);
+		return added.length;
+	}
+
+	/**
+	 * Remove items by episode ID
+	 * Returns the number of items removed.
+	 */
+	async removeItems(episodeIds: string[]): Promise<number> {
+		logger.methodEntry('InboxStore', 'removeItems', episodeIds.length);
+
+		const data = await this.load();
+		const ids = new Set(episodeIds);
+		const remaining = data.items.filter(item => !ids.has(item.episodeId));
+		const removed = data.items.length - remaining.length;
+
+		if (removed > 0) {
+			data.items = remaining;
+			await this.save(data);
+		}
+
+		logger.methodExit('InboxStore', 'removeItems', removed);
+		return removed;
+	}
+
+	/**
+	 * Remove all items
+	 */
+	async clearItems(): Promise<void> {
+		logger.methodEntry('InboxStore', 'clearItems');
+		await this.save(this.getDefaultValue());
+		logger.methodExit('InboxStore', 'clearItems');
+	}
+}
@@ -0,0 +1,163 @@
+/**
+ * Unit tests for InboxManager
+ */
+
+import { InboxManager } from '../InboxManager';
+import { InboxStore } from '../InboxStore';
+import { SubscriptionStore } from '../../storage/SubscriptionStore';
+import { ProgressStore } from '../../storage/ProgressStore';
+import { Episode, InboxItem, Podcast } from '../../model';
+
+// Mock logger
+jest.mock('../../utils/Logger', () => ({
+	logger: {
+		methodEntry: jest.fn(),
+		methodExit: jest.fn(),
+		debug: jest.fn(),
+		info: jest.fn(),
+		warn: jest.fn(),
+		error: jest.fn(),
+	},
+}));
+
+function createEpisode(id: string, publishDate: string): Episode {
+	return {
+		id,
+		podcastId: 'podcast-1',
+		title: `Episode ${id}`,
+		description: '',
+		audioUrl: `https://example.com/${id}.mp3`,
+		duration: 1200,
+		publishDate: new Date(publishDate),
+	};
+}
+
+describe('InboxManager', () => {
+	const episode1 = createEpisode('ep-1', '2024-01-01');
+	const episode2 = createEpisode('ep-2', '2024-01-02');
+	const podcast: Podcast = {
+		id: 'podcast-1',
+		title: 'Podcast 1',
+		author: 'Author',
+		description: '',
+		feedUrl: 'https://example.com/feed.rss',
+		subscribedAt: new Date('2023-12-01'),
+		episodes: [episode1, episode2],
+	};
+
+	let items: InboxItem[];
+	let mockInboxStore: jest.Mocked<InboxStore>;
+	let mockSubscriptionStore: jest.Mocked<SubscriptionStore>;
+	let mockProgressStore: jest.Mocked<ProgressStore>;
+	let onChange: jest.Mock;
+	let manager: InboxManager;
+
+	beforeEach(() => {
+		items = [];
+		mockInboxStore = {
+			getItems: jest.fn().mockImplementation(async () => items),
+			addItems: jest.fn().mockImplementation(async (newItems: InboxItem[]) => {
+				items.push(...newItems);
+				return newItems.length;
+			}),
+			removeItems: jest.fn().mockImplementation(async (ids: string[]) => {
+				const before = items.length;
+				items = items.filter(item => !ids.includes(item.episodeId));
+				return before - items.length;
+			}),
+			clearItems: jest.fn().mockImplementation(async () => {
+				items = [];
+			}),
+		} as any;
+		mockSubscriptionStore = {
+			getAllPodcasts: jest.fn().mockResolvedValue([podcast]),
+		} as any;
+		mockProgressStore = {
+			markCompleted: jest.fn().mockResolvedValue(undefined),
+		} as any;
+		onChange = jest.fn();
+
+		manager = new InboxManager(mockInboxStore, mockSubscriptionStore, mockProgressStore);
+		manager.setChangeHandler(onChange);
+	});
+
+	describe('addEpisodes', () => {
+		it('should add synced episodes and notify the change handler', async () => {
+			await manager.addEpisodes([episode1, episode2]);
+
+			expect(items.map(item => item.episodeId)).toEqual(['ep-1', 'ep-2']);
+			expect(items[0].podcastId).toBe('podcast-1');
+			expect(onChange).toHaveBeenCalledTimes(1);
+		});
+
+		it('should not notify when nothing was added', async () => {
+			mockInboxStore.addItems.mockResolvedValueOnce(0);
+
+			await manager.addEpisodes([episode1]);
+
+			expect(onChange).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('getEntries', () => {
+		it('should resolve episodes, newest arrivals and episodes first', async () => {
+			items = [
+				{ episodeId: 'ep-1', podcastId: 'podcast-1', addedAt: new Date('2024-01-05') },
+				{ episodeId: 'ep-2', podcastId: 'podcast-1', addedAt: new Date('2024-01-05') },
+			];
+
+			const entries = await manager.getEntries();
+
+			expect(entries.map(entry => entry.episode.id)).toEqual(['ep-2', 'ep-1']);
+			expect(entries[0].podcast).toBe(podcast);
+		});
+
+		it('should drop items whose episode no longer exists', async () => {
+			items = [
+				{ episodeId: 'ep-1', podcastId: 'podcast-1', addedAt: new Date('2024-01-05') },
+				{ episodeId: 'ep-gone', podcastId: 'podcast-1', addedAt: new Date('2024-01-05') },
+				{ episodeId: 'ep-3', podcastId: 'unsubscribed', addedAt: new Date('2024-01-05') },
+			];
+
+			const entries = await manager.getEntries();
+
+			expect(entries.map(entry => entry.episode.id)).toEqual(['ep-1']);
+			expect(mockInboxStore.removeItems).toHaveBeenCalledWith(['ep-gone', 'ep-3']);
+		});
+	});
+
+	describe('triage', () => {
+		beforeEach(async () => {
+			await manager.addEpisodes([episode1, episode2]);
+			onChange.mockClear();
+		});
+
+		it('should dismiss episodes', async () => {
+			await manager.dismiss(['ep-1']);
+
+			expect(await manager.getCount()).toBe(1);
+			expect(onChange).toHaveBeenCalledTimes(1);
+		});
+
+		it('should mark episodes as played and remove them', async () => {
+			await manager.markPlayed([episode1, episode2]);
+
+			expect(mockProgressStore.markCompleted).toHaveBeenCalledWith('ep-1', 'podcast-1', 1200);
+			expect(mockProgressStore.markCompleted).toHaveBeenCalledWith('ep-2', 'podcast-1', 1200);
+			expect(await manager.getCount()).toBe(0);
+		});
+
+		it('should clear the inbox', async () => {
+			await manager.clear();
+
+			expect(await manager.getCount()).toBe(0);
+			expect(onChange).toHaveBeenCalledTimes(1);
+		});
+
+		it('should not fail when the change handler throws', async () => {
+			manager.setChangeHandler(() => { throw new Error('handler failed'); });
+
+			await expect(manager.dismiss(['ep-1'])).resolves.toBeUndefined();
+		});
+	});
+});
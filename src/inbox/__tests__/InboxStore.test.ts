@@ -0,0 +1,114 @@
+/**
+ * Unit tests for InboxStore
+ */
+
+import { InboxStore } from '../InboxStore';
+import { Vault } from 'obsidian';
+import { DataPathManager } from '../../storage/DataPathManager';
+import { InboxItem } from '../../model';
+
+// Mock logger
+jest.mock('../../utils/Logger', () => ({
+	logger: {
+		methodEntry: jest.fn(),
+		methodExit: jest.fn(),
+		debug: jest.fn(),
+		info: jest.fn(),
+		warn: jest.fn(),
+		error: jest.fn(),
+	},
+}));
+
+// Mock the parent class methods
+jest.mock('../../storage/FileSystemStore', () => {
+	return {
+		SingleFileStore: class {
+			protected filePath: string;
+			protected data: any = null;
+
+			constructor(vault: any, pathManager: any, filePath: string) {
+				this.filePath = filePath;
+			}
+
+			async load(): Promise<any> {
+				return this.data ? JSON.parse(JSON.stringify(this.data)) : this['getDefaultValue']();
+			}
+
+			async save(data: any): Promise<void> {
+				this.data = data;
+			}
+
+			protected validate(data: any): boolean {
+				return true;
+			}
+
+			protected getDefaultValue(): any {
+				return {};
+			}
+		},
+	};
+});
+
+function createItem(episodeId: string): InboxItem {
+	return { episodeId, podcastId: 'podcast-1', addedAt: new Date('2024-01-01T10:00:00Z') };
+}
+
+describe('InboxStore', () => {
+	let store: InboxStore;
+	let mockPathManager: jest.Mocked<DataPathManager>;
+
+	beforeEach(() => {
+		mockPathManager = {
+			getFilePath: jest.fn().mockReturnValue('inbox.json'),
+		} as any;
+
+		store = new InboxStore({} as Vault, mockPathManager);
+	});
+
+	it('should store the inbox in the data root', () => {
+		expect(mockPathManager.getFilePath).toHaveBeenCalledWith('root', 'inbox.json');
+	});
+
+	it('should add items and restore dates', async () => {
+		const added = await store.addItems([createItem('ep-1'), createItem('ep-2')]);
+
+		const items = await store.getItems();
+
+		expect(added).toBe(2);
+		expect(items.map(item => item.episodeId)).toEqual(['ep-1', 'ep-2']);
+		expect(items[0].addedAt).toBeInstanceOf(Date);
+	});
+
+	it('should ignore episodes that are already in the inbox', async () => {
+		await store.addItems([createItem('ep-1')]);
+
+		const added = await store.addItems([createItem('ep-1'), createItem('ep-2'), createItem('ep-2')]);
+
+		expect(added).toBe(1);
+		expect((await store.getItems()).map(item => item.episodeId)).toEqual(['ep-1', 'ep-2']);
+	});
+
+	it('should remove items by episode ID', async () => {
+		await store.addItems([createItem('ep-1'), createItem('ep-2'), createItem('ep-3')]);
+
+		const removed = await store.removeItems(['ep-1', 'ep-3', 'ep-unknown']);
+
+		expect(removed).toBe(2);
+		expect((await store.getItems()).map(item => item.episodeId)).toEqual(['ep-2']);
+	});
+
+	it('should clear all items', async () => {
+		await store.addItems([createItem('ep-1')]);
+		await store.clearItems();
+
+		expect(await store.getItems()).toEqual([]);
+	});
+
+	it('should reject invalid data', () => {
+		const validate = (data: any) => (store as any).validate(data);
+
+		expect(validate({ items: [], version: 1 })).toBe(true);
+		expect(validate({ items: [{ episodeId: 'ep-1' }], version: 1 })).toBe(false);
+		expect(validate({ items: {}, version: 1 })).toBe(false);
+	});
+});
@@ -0,0 +1,16 @@
+/**
+ * Inbox Module
+ *
+ * Provides the inbox of newly synced episodes and the triage
+ * actions used to process it.
+ */
+
+// Export inbox store
+export { InboxStore, type InboxData } from './InboxStore';
+
+// Export inbox manager
+export {
+	InboxManager,
+	type InboxEntry,
+	type InboxChangeHandler,
+} from './InboxManager';
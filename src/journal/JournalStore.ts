@@ -0,0 +1,143 @@
+/**
+ * JournalStore - Persists the daily note journal state
+ *
+ * Stores the timestamps captured while listening and the last day
+ * logged to the daily note in a single JSON file (journal.json).
+ */
+
+import { Vault } from 'obsidian';
+import { logger } from '../utils/Logger';
+import { CapturedTimestamp } from '../model';
+import { DataPathManager } from '../storage/DataPathManager';
+import { SingleFileStore } from '../storage/FileSystemStore';
+
+/**
+ * Journal data structure
+ */
+export interface JournalData {
+	timestamps: CapturedTimestamp[];
+	/** Last day (YYYY-MM-DD, local time) logged at the end of the day */
+	lastJournaledDay?: string;
+	version: number;
+}
+
+/**
+ * Journal Store
+ */
+export class JournalStore extends SingleFileStore<JournalData> {
+	private static readonly CURRENT_VERSION = 1;
+
+	constructor(vault: Vault, pathManager: DataPathManager) {
+		const filePath = pathManager.getFilePath('root', 'journal.json');
+		super(vault, pathManager, filePath);
+	}
+
+	/**
+	 * Validate journal data
+	 */
+	protected validate(data: JournalData): boolean {
+		if (!data || typeof data !== 'object') {
+			logger.warn('Invalid journal data: not an object');
+			return false;
+		}
+
+		if (!Array.isArray(data.timestamps)) {
+			logger.warn('Invalid journal data: timestamps is not an array');
+			return false;
+		}
+
+		if (typeof data.version !== 'number') {
+			logger.warn('Invalid journal data: version is not a number');
+			return false;
+		}
+
+		for (const timestamp of data.timestamps) {
+			if (!timestamp || typeof timestamp.episodeId !== 'string' || typeof timestamp.position !== 'number') {
+				logger.warn('Invalid captured timestamp in data', timestamp);
+				return false;
+			}
+		}
+
+		return true;
+	}
+
+	/**
+	 * Get default journal data
+	 */
+	protected getDefaultValue(): JournalData {
+		return {
+			timestamps: [],
+			version: JournalStore.CURRENT_VERSION,
+		};
+	}
+
+	/**
+	 * Load data and restore Date fields
+	 */
+	async load(): Promise<JournalData> {
+		const data = await super.load();
+
+		for (const timestamp of data.timestamps) {
+			timestamp.capturedAt = new Date(timestamp.capturedAt);
+		}
+
+		return data;
+	}
+
+	/**
+	 * Remember a captured timestamp
+	 */
+	async addTimestamp(timestamp: CapturedTimestamp): Promise<void> {
+		logger.methodEntry('JournalStore', 'addTimestamp', timestamp.episodeId);
+
+		const data = await this.load();
+		data.timestamps.push(timestamp);
+		await this.save(data);
+
+		logger.methodExit('JournalStore', 'addTimestamp');
+	}
+
+	/**
+	 * Get the timestamps of an episode captured in a time range
+	 * @param from - Inclusive start
+	 * @param to - Exclusive end
+	 */
+	async getTimestamps(episodeId: string, from: Date, to: Date): Promise<CapturedTimestamp[]> {
+		const data = await this.load();
+		return data.timestamps.filter(timestamp =>
+			timestamp.episodeId === episodeId &&
+			timestamp.capturedAt.getTime() >= from.getTime() &&
+			timestamp.capturedAt.getTime() < to.getTime()
+		);
+	}
+
+	/**
+	 * Forget timestamps captured before a date
+	 */
+	async pruneTimestamps(before: Date): Promise<void> {
+		const data = await this.load();
+		const timestamps = data.timestamps.filter(timestamp => timestamp.capturedAt.getTime() >= before.getTime());
+
+		if (timestamps.length !== data.timestamps.length) {
+			data.timestamps = timestamps;
+			await this.save(data);
+		}
+	}
+
+	/**
+	 * Get the last day logged at the end of the day
+	 */
+	async getLastJournaledDay(): Promise<string | null> {
+		const data = await this.load();
+		return data.lastJournaledDay || null;
+	}
+
+	/**
+	 * Set the last day logged at the end of the day
+	 */
+	async setLastJournaledDay(day: string): Promise<void> {
+		const data = await this.load();
+		data.lastJournaledDay = day;
+		await this.save(data);
+	}
+}
@@ -0,0 +1,231 @@
+/**
+ * ListeningJournal - Logs listened episodes to the daily note
+ *
+ * Opt-in: when an episode is completed, or at the end of each day, adds a
+ * line per episode to a section of that day's daily note with a link to the
+ * episode, the podcast, the minutes listened that day and the timestamps
+ * captured. Each line carries a hidden marker, so listening to an episode
+ * again updates its line instead of adding another.
+ */
+
+import { logger } from '../utils/Logger';
+import { Episode, PluginSettings, Podcast } from '../model';
+import { SubscriptionStore } from '../storage/SubscriptionStore';
+import { DailyNoteService } from '../markdown/DailyNoteService';
+import { TimestampFormatter } from '../markdown/TimestampFormatter';
+import { TIMESTAMP_LINK_SCHEME } from '../markdown/TimestampLinkHandler';
+import { ListeningLogStore } from '../stats/ListeningLogStore';
+import { StatisticsService } from '../stats/StatisticsService';
+import { JournalStore } from './JournalStore';
+
+/**
+ * Values available in the journal line template
+ */
+export interface JournalEntryValues {
+	episode: string;
+	podcast: string;
+	link: string;
+	minutes: number;
+	timestamps: string;
+}
+
+/** Captured timestamps are kept this many days for end-of-day logging */
+const TIMESTAMP_RETENTION_DAYS = 7;
+
+/**
+ * Listening Journal
+ */
+export class ListeningJournal {
+	private journalStore: JournalStore;
+	private dailyNotes: DailyNoteService;
+	private listeningLog: ListeningLogStore;
+	private subscriptionStore: SubscriptionStore;
+	private settingsProvider: () => PluginSettings;
+
+	constructor(
+		journalStore: JournalStore,
+		dailyNotes: DailyNoteService,
+		listeningLog: ListeningLogStore,
+		subscriptionStore: SubscriptionStore,
+		settingsProvider: () => PluginSettings
+	) {
+		this.journalStore = journalStore;
+		this.dailyNotes = dailyNotes;
+		this.listeningLog = listeningLog;
+		this.subscriptionStore = subscriptionStore;
+		this.settingsProvider = settingsProvider;
+	}
+
+	/**
+	 * Remember a timestamp captured while listening, for the journal line
+	 */
+	async recordTimestamp(episode: Episode, position: number, capturedAt: Date = new Date()): Promise<void> {
+		if (this.settingsProvider().dailyNoteJournal === 'off') {
+			return;
+		}
+
+		await this.journalStore.addTimestamp({
+			episodeId: episode.id,
+			position: Math.floor(position),
+			capturedAt,
+		});
+	}
+
+	/**
+	 * Log a completed episode to today's daily note
+	 */
+	async handleEpisodeCompleted(episode: Episode, now: Date = new Date()): Promise<void> {
+		if (this.settingsProvider().dailyNoteJournal !== 'completed') {
+			return;
+		}
+
+		logger.methodEntry('ListeningJournal', 'handleEpisodeCompleted', episode.id);
+		await this.writeDay(StatisticsService.startOfPeriod(now, 'day'), [episode.id]);
+		logger.methodExit('ListeningJournal', 'handleEpisodeCompleted');
+	}
+
+	/**
+	 * Log every episode listened to on days that have ended since the last run
+	 * The first run only starts the journal; earlier days are not logged.
+	 */
+	async journalPendingDays(now: Date = new Date()): Promise<void> {
+		if (this.settingsProvider().dailyNoteJournal !== 'endOfDay') {
+			return;
+		}
+
+		logger.methodEntry('ListeningJournal', 'journalPendingDays');
+
+		const today = StatisticsService.startOfPeriod(now, 'day');
+		const lastDay = await this.journalStore.getLastJournaledDay();
+		if (!lastDay) {
+			await this.journalStore.setLastJournaledDay(
+				ListeningJournal.formatDayKey(StatisticsService.addPeriods(today, 'day', -1))
+			);
+			logger.methodExit('ListeningJournal', 'journalPendingDays', 'started');
+			return;
+		}
+
+		let day = StatisticsService.addPeriods(ListeningJournal.parseDayKey(lastDay), 'day', 1);
+		while (day.getTime() < today.getTime()) {
+			const nextDay = StatisticsService.addPeriods(day, 'day', 1);
+			const sessions = await this.listeningLog.getSessions(day);
+			const episodeIds = Array.from(new Set(
+				sessions
+					.filter(session => session.startedAt.getTime() < nextDay.getTime())
+					.map(session => session.episodeId)
+			));
+
+			if (episodeIds.length > 0) {
+				await this.writeDay(day, episodeIds);
+			}
+			await this.journalStore.setLastJournaledDay(ListeningJournal.formatDayKey(day));
+			day = nextDay;
+		}
+
+		logger.methodExit('ListeningJournal', 'journalPendingDays');
+	}
+
+	/**
+	 * Add or update the lines of episodes in a day's daily note
+	 */
+	private async writeDay(day: Date, episodeIds: string[]): Promise<void> {
+		const settings = this.settingsProvider();
+		const nextDay = StatisticsService.addPeriods(day, 'day', 1);
+
+		// Includes sessions that started the evening before and ran past midnight
+		const sessions = await this.listeningLog.getSessions(day);
+		const podcasts = await this.subscriptionStore.getAllPodcasts();
+
+		for (const episodeId of episodeIds) {
+			const found = ListeningJournal.findEpisode(podcasts, episodeId);
+			if (!found) {
+				logger.warn('Episode for journal entry not found', episodeId);
+				continue;
+			}
+
+			const dailyTotals = StatisticsService.getDailyTotals(
+				sessions.filter(session => session.episodeId === episodeId)
+			);
+			const seconds = dailyTotals.get(day.getTime()) || 0;
+
+			const captured = await this.journalStore.getTimestamps(episodeId, day, nextDay);
+			const positions = Array.from(new Set(captured.map(timestamp => timestamp.position))).sort((a, b) => a - b);
+			const timestamps = positions
+				.map(position => TimestampFormatter.formatTimestamp(position, found.episode, {
+					style: settings.timestampStyle,
+					customTemplate: settings.timestampTemplate,
+				}))
+				.join(', ');
+
+			const line = ListeningJournal.formatEntry(settings.dailyNoteJournalTemplate, {
+				episode: found.episode.title,
+				podcast: found.podcast.title,
+				link: `${TIMESTAMP_LINK_SCHEME}${episodeId}`,
+				minutes: Math.round(seconds / 60),
+				timestamps,
+			});
+			const marker = ListeningJournal.getMarker(episodeId);
+
+			await this.dailyNotes.upsertSectionLine(
+				settings.dailyNoteJournalHeading,
+				marker,
+				`${line} ${marker}`,
+				day
+			);
+		}
+
+		await this.journalStore.pruneTimestamps(StatisticsService.addPeriods(day, 'day', -TIMESTAMP_RETENTION_DAYS));
+	}
+
+	/**
+	 * Fill a journal line template
+	 * Placeholders: {episode}, {podcast}, {link}, {minutes}, {timestamps}
+	 */
+	static formatEntry(template: string, values: JournalEntryValues): string {
+		return template
+			.replace(/\{episode\}/g, ListeningJournal.escapeLinkText(values.episode))
+			.replace(/\{podcast\}/g, values.podcast)
+			.replace(/\{link\}/g, values.link)
+			.replace(/\{minutes\}/g, String(values.minutes))
+			.replace(/\{timestamps\}/g, values.timestamps)
+			.replace(/\s+$/, '');
+	}
+
+	/**
+	 * Hidden comment identifying the line of an episode
+	 */
+	static getMarker(episodeId: string): string {
+		return `%%podcast:${episodeId}%%`;
+	}
+
+	/**
+	 * Local date as YYYY-MM-DD
+	 */
+	static formatDayKey(date: Date): string {
+		const month = String(date.getMonth() + 1).padStart(2, '0');
+		const day = String(date.getDate()).padStart(2, '0');
+		return `${date.getFullYear()}-${month}-${day}`;
+	}
+
+	private static parseDayKey(key: string): Date {
+		const [year, month, day] = key.split('-').map(part => parseInt(part, 10));
+		return new Date(year, month - 1, day);
+	}
+
+	/**
+	 * Brackets in titles would end the markdown link text early
+	 */
+	private static escapeLinkText(text: string): string {
+		return text.replace(/[[\]]/g, '');
+	}
+
+	private static findEpisode(podcasts: Podcast[], episodeId: string): { episode: Episode; podcast: Podcast } | null {
+		for (const podcast of podcasts) {
+			const episode = podcast.episodes?.find(e => e.id === episodeId);
+			if (episode) {
+				return { episode, podcast };
+			}
+		}
+		return null;
+	}
+}
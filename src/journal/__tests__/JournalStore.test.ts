@@ -0,0 +1,68 @@
+/**
+ * Unit tests for JournalStore
+ */
+
+import { JournalStore } from '../JournalStore';
+import { MockVault } from '../../../__mocks__/obsidian';
+import { DataPathManager } from '../../storage/DataPathManager';
+
+describe('JournalStore', () => {
+	let vault: MockVault;
+	let journalStore: JournalStore;
+	let files: Map<string, string>;
+
+	beforeEach(() => {
+		vault = new MockVault();
+		files = new Map();
+		vault.adapter.exists = jest.fn().mockImplementation(async (path: string) => files.has(path));
+		vault.adapter.read = jest.fn().mockImplementation(async (path: string) => files.get(path));
+		vault.adapter.write = jest.fn().mockImplementation(async (path: string, content: string) => {
+			files.set(path, content);
+		});
+
+		const pathManager = new DataPathManager(vault as any, '.obsidian/plugins/podcast-player/data');
+		journalStore = new JournalStore(vault as any, pathManager);
+	});
+
+	describe('timestamps', () => {
+		it('should return timestamps of an episode captured in the range', async () => {
+			await journalStore.addTimestamp({ episodeId: 'ep-1', position: 90, capturedAt: new Date(2024, 2, 19, 23, 0) });
+			await journalStore.addTimestamp({ episodeId: 'ep-1', position: 120, capturedAt: new Date(2024, 2, 20, 8, 0) });
+			await journalStore.addTimestamp({ episodeId: 'ep-2', position: 30, capturedAt: new Date(2024, 2, 20, 9, 0) });
+
+			const timestamps = await journalStore.getTimestamps('ep-1', new Date(2024, 2, 20), new Date(2024, 2, 21));
+
+			expect(timestamps).toHaveLength(1);
+			expect(timestamps[0].position).toBe(120);
+			expect(timestamps[0].capturedAt).toBeInstanceOf(Date);
+		});
+
+		it('should prune timestamps captured before a date', async () => {
+			await journalStore.addTimestamp({ episodeId: 'ep-1', position: 90, capturedAt: new Date(2024, 2, 1) });
+			await journalStore.addTimestamp({ episodeId: 'ep-1', position: 120, capturedAt: new Date(2024, 2, 20) });
+
+			await journalStore.pruneTimestamps(new Date(2024, 2, 10));
+
+			const timestamps = await journalStore.getTimestamps('ep-1', new Date(2024, 0, 1), new Date(2025, 0, 1));
+			expect(timestamps.map(timestamp => timestamp.position)).toEqual([120]);
+		});
+	});
+
+	describe('lastJournaledDay', () => {
+		it('should be null until set', async () => {
+			expect(await journalStore.getLastJournaledDay()).toBeNull();
+
+			await journalStore.setLastJournaledDay('2024-03-19');
+
+			expect(await journalStore.getLastJournaledDay()).toBe('2024-03-19');
+		});
+	});
+
+	it('should fall back to defaults for invalid data', async () => {
+		files.set('.obsidian/plugins/podcast-player/data/journal.json', JSON.stringify({ timestamps: 'nope', version: 1 }));
+
+		const data = await journalStore.load();
+
+		expect(data.timestamps).toEqual([]);
+	});
+});
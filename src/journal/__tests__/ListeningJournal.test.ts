@@ -0,0 +1,191 @@
+/**
+ * Unit tests for ListeningJournal
+ */
+
+import { ListeningJournal } from '../ListeningJournal';
+import { JournalStore } from '../JournalStore';
+import { DailyNoteService } from '../../markdown/DailyNoteService';
+import { ListeningLogStore } from '../../stats/ListeningLogStore';
+import { SubscriptionStore } from '../../storage/SubscriptionStore';
+import { DEFAULT_SETTINGS, Episode, ListeningSession, PluginSettings, Podcast } from '../../model';
+
+// Mock logger
+jest.mock('../../utils/Logger', () => ({
+	logger: {
+		methodEntry: jest.fn(),
+		methodExit: jest.fn(),
+		debug: jest.fn(),
+		info: jest.fn(),
+		warn: jest.fn(),
+		error: jest.fn(),
+	},
+}));
+
+describe('ListeningJournal', () => {
+	let journal: ListeningJournal;
+	let mockJournalStore: jest.Mocked<JournalStore>;
+	let mockDailyNotes: jest.Mocked<DailyNoteService>;
+	let mockListeningLog: jest.Mocked<ListeningLogStore>;
+	let mockSubscriptionStore: jest.Mocked<SubscriptionStore>;
+	let settings: PluginSettings;
+
+	// Local times keep the day boundaries independent of the time zone
+	const now = new Date(2024, 2, 20, 18, 0);
+
+	const episode = {
+		id: 'ep-1',
+		podcastId: 'podcast-1',
+		title: 'Episode [One]',
+		description: '',
+		audioUrl: 'https://example.com/1.mp3',
+		duration: 3600,
+		publishDate: new Date(2024, 2, 1),
+	} as Episode;
+
+	const podcast = {
+		id: 'podcast-1',
+		title: 'Test Podcast',
+		episodes: [episode],
+	} as Podcast;
+
+	const createSession = (episodeId: string, startedAt: Date, minutes: number): ListeningSession => ({
+		episodeId,
+		podcastId: 'podcast-1',
+		startedAt,
+		endedAt: new Date(startedAt.getTime() + minutes * 60 * 1000),
+		startPosition: 0,
+		endPosition: minutes * 60,
+		playbackSpeed: 1,
+	});
+
+	beforeEach(() => {
+		settings = { ...DEFAULT_SETTINGS, dailyNoteJournal: 'completed', timestampStyle: 'brackets' };
+
+		mockJournalStore = {
+			addTimestamp: jest.fn().mockResolvedValue(undefined),
+			getTimestamps: jest.fn().mockResolvedValue([
+				{ episodeId: 'ep-1', position: 754, capturedAt: new Date(2024, 2, 20, 9, 0) },
+				{ episodeId: 'ep-1', position: 90, capturedAt: new Date(2024, 2, 20, 8, 30) },
+			]),
+			pruneTimestamps: jest.fn().mockResolvedValue(undefined),
+			getLastJournaledDay: jest.fn().mockResolvedValue(null),
+			setLastJournaledDay: jest.fn().mockResolvedValue(undefined),
+		} as any;
+
+		mockDailyNotes = {
+			upsertSectionLine: jest.fn().mockResolvedValue(true),
+		} as any;
+
+		mockListeningLog = {
+			getSessions: jest.fn().mockResolvedValue([
+				createSession('ep-1', new Date(2024, 2, 19, 8, 0), 15),
+				createSession('ep-1', new Date(2024, 2, 20, 8, 0), 20),
+				createSession('ep-1', new Date(2024, 2, 20, 9, 0), 25),
+			]),
+		} as any;
+
+		mockSubscriptionStore = {
+			getAllPodcasts: jest.fn().mockResolvedValue([podcast]),
+		} as any;
+
+		journal = new ListeningJournal(
+			mockJournalStore,
+			mockDailyNotes,
+			mockListeningLog,
+			mockSubscriptionStore,
+			() => settings
+		);
+	});
+
+	describe('handleEpisodeCompleted', () => {
+		it('should log the episode with the minutes and timestamps of the day', async () => {
+			await journal.handleEpisodeCompleted(episode, now);
+
+			expect(mockDailyNotes.upsertSectionLine).toHaveBeenCalledWith(
+				'## Podcasts',
+				'%%podcast:ep-1%%',
+				'- [Episode One](podcast://ep-1) – Test Podcast, 45 min [1:30], [12:34] %%podcast:ep-1%%',
+				new Date(2024, 2, 20)
+			);
+			expect(mockJournalStore.getTimestamps).toHaveBeenCalledWith('ep-1', new Date(2024, 2, 20), new Date(2024, 2, 21));
+			expect(mockJournalStore.pruneTimestamps).toHaveBeenCalledWith(new Date(2024, 2, 13));
+		});
+
+		it('should do nothing when the journal logs at the end of the day', async () => {
+			settings.dailyNoteJournal = 'endOfDay';
+
+			await journal.handleEpisodeCompleted(episode, now);
+
+			expect(mockDailyNotes.upsertSectionLine).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('recordTimestamp', () => {
+		it('should store the timestamp when the journal is on', async () => {
+			const capturedAt = new Date(2024, 2, 20, 9, 0);
+
+			await journal.recordTimestamp(episode, 754.6, capturedAt);
+
+			expect(mockJournalStore.addTimestamp).toHaveBeenCalledWith({ episodeId: 'ep-1', position: 754, capturedAt });
+		});
+
+		it('should ignore timestamps when the journal is off', async () => {
+			settings.dailyNoteJournal = 'off';
+
+			await journal.recordTimestamp(episode, 754);
+
+			expect(mockJournalStore.addTimestamp).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('journalPendingDays', () => {
+		beforeEach(() => {
+			settings.dailyNoteJournal = 'endOfDay';
+		});
+
+		it('should only remember yesterday on the first run', async () => {
+			await journal.journalPendingDays(now);
+
+			expect(mockJournalStore.setLastJournaledDay).toHaveBeenCalledWith('2024-03-19');
+			expect(mockDailyNotes.upsertSectionLine).not.toHaveBeenCalled();
+		});
+
+		it('should log every ended day since the last run', async () => {
+			mockJournalStore.getLastJournaledDay.mockResolvedValue('2024-03-17');
+
+			await journal.journalPendingDays(now);
+
+			// 18 March had no sessions, 19 March did; today has not ended yet
+			expect(mockDailyNotes.upsertSectionLine).toHaveBeenCalledTimes(1);
+			expect(mockDailyNotes.upsertSectionLine).toHaveBeenCalledWith(
+				'## Podcasts',
+				'%%podcast:ep-1%%',
+				expect.stringContaining('Test Podcast, 15 min'),
+				new Date(2024, 2, 19)
+			);
+			expect(mockJournalStore.setLastJournaledDay).toHaveBeenLastCalledWith('2024-03-19');
+		});
+
+		it('should do nothing when the journal is off', async () => {
+			settings.dailyNoteJournal = 'off';
+
+			await journal.journalPendingDays(now);
+
+			expect(mockJournalStore.getLastJournaledDay).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('formatEntry', () => {
+		it('should fill the placeholders and trim trailing whitespace', () => {
+			const entry = ListeningJournal.formatEntry('- {episode} ({podcast}) {minutes} min {timestamps}', {
+				episode: 'Title',
+				podcast: 'Show',
+				link: 'podcast://ep-1',
+				minutes: 12,
+				timestamps: '',
+			});
+
+			expect(entry).toBe('- Title (Show) 12 min');
+		});
+	});
+});
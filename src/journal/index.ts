@@ -0,0 +1,12 @@
+/**
+ * Journal Module
+ *
+ * Provides the automatic daily note log of listened episodes and
+ * the timestamps captured while listening.
+ */
+
+// Export journal store
+export { JournalStore, type JournalData } from './JournalStore';
+
+// Export listening journal
+export { ListeningJournal, type JournalEntryValues } from './ListeningJournal';
@@ -0,0 +1,141 @@
+/**
+ * DailyNoteService - Resolves and edits daily notes
+ *
+ * Finds a day's note from the daily note folder and date format settings,
+ * creates it when missing, and inserts entries or keeps lines of a
+ * section up to date.
+ */
+
+import { Vault, TFile, normalizePath } from 'obsidian';
+import { logger } from '../utils/Logger';
+import { PluginSettings } from '../model';
+
+/**
+ * Daily Note Service
+ */
+export class DailyNoteService {
+	private vault: Vault;
+	private settingsProvider: () => PluginSettings;
+
+	constructor(vault: Vault, settingsProvider: () => PluginSettings) {
+		this.vault = vault;
+		this.settingsProvider = settingsProvider;
+	}
+
+	/**
+	 * Path of the daily note for a date
+	 */
+	getDailyNotePath(date: Date = new Date()): string {
+		const settings = this.settingsProvider();
+		const dateFormat = settings.dailyNoteDateFormat || 'YYYY-MM-DD';
+		const fileName = `${window.moment(date).format(dateFormat)}.md`;
+		const folderPath = settings.dailyNoteFolderPath || '';
+		return normalizePath(folderPath ? `${folderPath}/${fileName}` : fileName);
+	}
+
+	/**
+	 * Get the daily note for a date, creating it (and its folder) when missing
+	 */
+	async getOrCreateDailyNote(date: Date = new Date()): Promise<TFile> {
+		const filePath = this.getDailyNotePath(date);
+		const existingFile = this.vault.getAbstractFileByPath(filePath);
+		if (existingFile instanceof TFile) {
+			return existingFile;
+		}
+
+		const folderPath = this.settingsProvider().dailyNoteFolderPath;
+		if (folderPath && !this.vault.getAbstractFileByPath(normalizePath(folderPath))) {
+			await this.vault.createFolder(normalizePath(folderPath));
+		}
+
+		logger.info('Creating daily note', filePath);
+		return await this.vault.create(filePath, '');
+	}
+
+	/**
+	 * Insert an entry at the top or bottom of the daily note
+	 * The 'cursor' position falls back to the bottom.
+	 */
+	async insertEntry(entry: string, date: Date = new Date()): Promise<void> {
+		logger.methodEntry('DailyNoteService', 'insertEntry');
+
+		const file = await this.getOrCreateDailyNote(date);
+		const content = await this.vault.read(file);
+
+		let newContent: string;
+		if (this.settingsProvider().dailyNoteInsertPosition === 'top') {
+			newContent = entry + '\n\n' + content;
+		} else {
+			newContent = content + (content.endsWith('\n') ? '' : '\n') + '\n' + entry;
+		}
+
+		await this.vault.modify(file, newContent);
+		logger.methodExit('DailyNoteService', 'insertEntry');
+	}
+
+	/**
+	 * Add a line to a section of the daily note, or replace the line containing the marker
+	 * The section heading is appended to the note when it does not exist yet.
+	 * @returns Whether the note was changed
+	 */
+	async upsertSectionLine(heading: string, marker: string, line: string, date: Date = new Date()): Promise<boolean> {
+		logger.methodEntry('DailyNoteService', 'upsertSectionLine', marker);
+
+		const file = await this.getOrCreateDailyNote(date);
+		const content = await this.vault.read(file);
+		const newContent = DailyNoteService.upsertLine(content, heading, marker, line);
+
+		if (newContent === content) {
+			logger.methodExit('DailyNoteService', 'upsertSectionLine', 'unchanged');
+			return false;
+		}
+
+		await this.vault.modify(file, newContent);
+		logger.methodExit('DailyNoteService', 'upsertSectionLine');
+		return true;
+	}
+
+	/**
+	 * Replace the line containing the marker, or add the line at the end of the section
+	 */
+	static upsertLine(content: string, heading: string, marker: string, line: string): string {
+		const lines = content.split('\n');
+
+		const existing = lines.findIndex(l => l.includes(marker));
+		if (existing !== -1) {
+			lines[existing] = line;
+			return lines.join('\n');
+		}
+
+		const headingIndex = lines.findIndex(l => l.trim() === heading.trim());
+		if (headingIndex === -1) {
+			const trimmed = content.replace(/\s+$/, '');
+			return `${trimmed}${trimmed ? '\n\n' : ''}${heading}\n${line}\n`;
+		}
+
+		// The section ends at the next heading of the same or a higher level
+		const level = DailyNoteService.getHeadingLevel(heading) || 6;
+		let end = lines.length;
+		for (let i = headingIndex + 1; i < lines.length; i++) {
+			const lineLevel = DailyNoteService.getHeadingLevel(lines[i]);
+			if (lineLevel > 0 && lineLevel <= level) {
+				end = i;
+				break;
+			}
+		}
+
+		// Insert after the last non-empty line of the section
+		let insertAt = end;
+		while (insertAt > headingIndex + 1 && lines[insertAt - 1].trim() === '') {
+			insertAt--;
+		}
+
+		lines.splice(insertAt, 0, line);
+		return lines.join('\n');
+	}
+
+	private static getHeadingLevel(line: string): number {
+		const match = /^(#{1,6})\s/.exec(line);
+		return match ? match[1].length : 0;
+	}
+}
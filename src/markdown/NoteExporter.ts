@@ -2,13 +2,17 @@
  * NoteExporter - Exports podcast episode information to markdown notes
  *
  * Creates markdown notes with episode metadata, show notes, and timestamps.
- * Supports templates and front matter generation.
+ * Supports templates (inline or from a vault file) and front matter generation.
  */
 
 import { Vault, TFile, normalizePath } from 'obsidian';
 import { logger } from '../utils/Logger';
+import { StorageError } from '../utils/errorUtils';
 import { Episode, Podcast, PlayProgress } from '../model';
-import { formatDate, formatDuration } from '../utils/timeUtils';
+import { formatDate, formatDuration, formatTime } from '../utils/timeUtils';
+import { TemplateEngine, TemplateContext } from './TemplateEngine';
+import { TimestampFormatter, TimestampFormatOptions } from './TimestampFormatter';
+import { ShowNotesConverter } from './ShowNotesConverter';
 
 /**
  * Note export options
@@ -26,42 +30,98 @@ export interface NoteExportOptions {
 	includeProgress?: boolean;
 	/** Custom template */
 	template?: string;
+	/** Vault path of a template file (used when no template is given) */
+	templateFile?: string;
 	/** Output folder path */
 	outputFolder?: string;
 	/** File name template */
 	fileNameTemplate?: string;
 }
 
+/**
+ * Chapter as seen by templates
+ */
+export interface TemplateChapter extends TemplateContext {
+	title: string;
+	time: string;
+	seconds: number;
+	link: string;
+	url?: string;
+}
+
+/**
+ * Timestamp taken from an existing note, as seen by templates
+ */
+export interface TemplateTimestamp extends TemplateContext {
+	time: string;
+	seconds: number;
+	text: string;
+	link: string;
+}
+
 /**
  * Note template variables
  */
-export interface TemplateVariables {
+export interface TemplateVariables extends TemplateContext {
 	episodeTitle: string;
 	episodeDescription: string;
+	episodeId: string;
+	podcastId: string;
 	podcastTitle: string;
 	podcastAuthor: string;
 	episodeNumber?: number;
 	seasonNumber?: number;
+	episodeType?: string;
 	publishDate: string;
 	duration: string;
 	audioUrl: string;
 	episodeUrl?: string;
 	imageUrl?: string;
+	feedUrl: string;
+	websiteUrl?: string;
+	/** Show notes converted to markdown */
+	showNotes: string;
+	/** Podcast categories */
+	categories: string[];
+	/** Podcast categories as tag names */
+	tags: string[];
+	chapters: TemplateChapter[];
+	/** Timestamps already written in the note being updated */
+	timestamps: TemplateTimestamp[];
+	publishedAt: Date;
+	exportedAt: Date;
+	lastPlayedAt?: Date;
+	completed?: boolean;
 	progress?: string;
 	completionPercentage?: string;
-	[key: string]: string | number | undefined;
 }
 
+/**
+ * Runs the Templater commands (<% ... %>) of a note created from a template
+ */
+export type TemplaterRunner = (file: TFile) => Promise<void>;
+
+/** Heading of the timestamps section of an episode note */
+const TIMESTAMPS_HEADING = /^(#{1,6})\s+Timestamps\s*$/i;
+
 /**
  * Note Exporter
  */
 export class NoteExporter {
 	private vault: Vault;
+	private templaterRunner: TemplaterRunner | null = null;
 
 	constructor(vault: Vault) {
 		this.vault = vault;
 	}
 
+	/**
+	 * Set the runner for Templater commands in template files
+	 */
+	setTemplaterRunner(runner: TemplaterRunner | null): void {
+		this.templaterRunner = runner;
+	}
+
 	/**
 	 * Export episode to a markdown note
 	 */
@@ -79,22 +139,30 @@ export class NoteExporter {
 			includeMetadata = true,
 			includeTimestamps = true,
 			includeProgress = true,
-			template,
+			templateFile,
 			outputFolder = 'Podcasts',
 			fileNameTemplate,
 		} = options;
 
-		// Generate template variables
-		const variables = this.generateTemplateVariables(episode, podcast, progress);
+		const template = options.template || (templateFile ? await this.loadTemplate(templateFile) : undefined);
+
+		// Generate file name
+		const fileName = this.generateFileName(episode, podcast, fileNameTemplate);
+		const filePath = normalizePath(`${outputFolder}/${fileName}`);
 
 		// Generate note content
 		let content = '';
 
 		if (template) {
-			// Use custom template
-			content = this.applyTemplate(template, variables);
+			// Use custom template, keeping the timestamps of a previous export
+			const variables = this.generateTemplateVariables(episode, podcast, progress);
+			variables.timestamps = await this.readExistingTimestamps(filePath, episode);
+			const source = this.templaterRunner && template.includes('<%')
+				? await this.runTemplater(template, filePath, outputFolder)
+				: template;
+			content = this.applyTemplate(source, variables);
 		} else {
-			// Use default template
+			// Use default template, keeping the timestamps section of a previous export
 			content = this.generateDefaultNote(
 				episode,
 				podcast,
@@ -105,14 +173,11 @@ export class NoteExporter {
 					includeMetadata,
 					includeTimestamps,
 					includeProgress,
-				}
+				},
+				includeTimestamps ? await this.readExistingTimestampsSection(filePath) : null
 			);
 		}
 
-		// Generate file name
-		const fileName = this.generateFileName(episode, podcast, fileNameTemplate);
-		const filePath = normalizePath(`${outputFolder}/${fileName}`);
-
 		// Ensure folder exists
 		await this.ensureFolderExists(outputFolder);
 
@@ -125,6 +190,147 @@ export class NoteExporter {
 		return file;
 	}
 
+	/**
+	 * Run the Templater commands of a template in the episode note
+	 * Templater only ever sees the template itself: feed values are filled in
+	 * afterwards, so commands in episode titles or show notes are never run.
+	 */
+	private async runTemplater(template: string, filePath: string, outputFolder: string): Promise<string> {
+		await this.ensureFolderExists(outputFolder);
+		const file = await this.createOrUpdateFile(filePath, template);
+
+		try {
+			await this.templaterRunner?.(file);
+			return await this.vault.read(file);
+		} catch (error) {
+			logger.warn('Failed to run Templater commands', filePath, error);
+			return template;
+		}
+	}
+
+	/**
+	 * Path of the note an episode is exported to
+	 */
+	getEpisodeNotePath(episode: Episode, podcast: Podcast, options: NoteExportOptions = {}): string {
+		const { outputFolder = 'Podcasts', fileNameTemplate } = options;
+		const fileName = this.generateFileName(episode, podcast, fileNameTemplate);
+		return normalizePath(`${outputFolder}/${fileName}`);
+	}
+
+	/**
+	 * Get the note of an episode, exporting the episode when it has no note yet
+	 */
+	async getOrCreateEpisodeNote(
+		episode: Episode,
+		podcast: Podcast,
+		progress?: PlayProgress,
+		options: NoteExportOptions = {}
+	): Promise<TFile> {
+		const existingFile = this.vault.getAbstractFileByPath(this.getEpisodeNotePath(episode, podcast, options));
+		if (existingFile instanceof TFile) {
+			return existingFile;
+		}
+
+		return await this.exportEpisode(episode, podcast, progress, options);
+	}
+
+	/**
+	 * Add a timestamped note to the timestamps table of an episode note
+	 */
+	async addTimestampNote(
+		file: TFile,
+		episode: Episode,
+		seconds: number,
+		note: string,
+		options: TimestampFormatOptions = {}
+	): Promise<void> {
+		logger.methodEntry('NoteExporter', 'addTimestampNote', file.path);
+
+		const content = await this.vault.read(file);
+		await this.vault.modify(file, NoteExporter.addTimestampRow(content, episode, seconds, note, options));
+
+		logger.methodExit('NoteExporter', 'addTimestampNote');
+	}
+
+	/**
+	 * Add a row to the table in the timestamps section
+	 * The table is created at the end of the section, and the section at the
+	 * end of the note, when missing.
+	 */
+	static addTimestampRow(
+		content: string,
+		episode: Episode,
+		seconds: number,
+		note: string,
+		options: TimestampFormatOptions = {}
+	): string {
+		const table = TimestampFormatter.createTimestampTable(
+			[{ seconds: Math.floor(seconds), note: NoteExporter.escapeTableCell(note) }],
+			episode,
+			options
+		);
+		const lines = content.split('\n');
+
+		const section = NoteExporter.findTimestampsSection(lines);
+		if (!section) {
+			const trimmed = content.replace(/\s+$/, '');
+			return `${trimmed}${trimmed ? '\n\n' : ''}## Timestamps\n\n${table}\n`;
+		}
+
+		// Append the row to an existing table
+		const tableRows = table.split('\n');
+		for (let i = section.start + 1; i < section.end; i++) {
+			if (/^\|\s*Time\s*\|/i.test(lines[i].trim())) {
+				let insertAt = i + 1;
+				while (insertAt < section.end && lines[insertAt].trim().startsWith('|')) {
+					insertAt++;
+				}
+				lines.splice(insertAt, 0, tableRows[tableRows.length - 1]);
+				return lines.join('\n');
+			}
+		}
+
+		// Otherwise add the table after the last non-empty line of the section
+		let insertAt = section.end;
+		while (insertAt > section.start + 1 && lines[insertAt - 1].trim() === '') {
+			insertAt--;
+		}
+		const inserted = ['', ...tableRows];
+		if (insertAt < lines.length && lines[insertAt].trim() !== '') {
+			inserted.push('');
+		}
+		lines.splice(insertAt, 0, ...inserted);
+		return lines.join('\n');
+	}
+
+	/**
+	 * Find the timestamps section; it ends at the next heading of the same or a higher level
+	 */
+	private static findTimestampsSection(lines: string[]): { start: number; end: number } | null {
+		const start = lines.findIndex(line => TIMESTAMPS_HEADING.test(line));
+		const heading = start === -1 ? null : TIMESTAMPS_HEADING.exec(lines[start]);
+		if (!heading) {
+			return null;
+		}
+
+		const level = heading[1].length;
+		for (let i = start + 1; i < lines.length; i++) {
+			const match = /^(#{1,6})\s/.exec(lines[i]);
+			if (match && match[1].length <= level) {
+				return { start, end: i };
+			}
+		}
+
+		return { start, end: lines.length };
+	}
+
+	/**
+	 * Table cells cannot contain pipes or line breaks
+	 */
+	private static escapeTableCell(text: string): string {
+		return text.trim().replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+	}
+
 	/**
 	 * Generate default note content
 	 */
@@ -138,7 +344,8 @@ export class NoteExporter {
 			includeMetadata: boolean;
 			includeTimestamps: boolean;
 			includeProgress: boolean;
-		}
+		},
+		existingTimestamps: string | null = null
 	): string {
 		const sections: string[] = [];
 
@@ -167,7 +374,7 @@ export class NoteExporter {
 
 		// Timestamps section (empty by default, user can fill in)
 		if (options.includeTimestamps) {
-			sections.push(this.generateTimestampsSection());
+			sections.push(this.generateTimestampsSection(existingTimestamps));
 		}
 
 		// Notes section
@@ -284,7 +491,7 @@ export class NoteExporter {
 	private generateDescriptionSection(episode: Episode): string {
 		return [
 			'## Description\n',
-			episode.description,
+			ShowNotesConverter.toMarkdown(episode.description, { episodeId: episode.id }),
 			'',
 		].join('\n');
 	}
@@ -292,7 +499,11 @@ export class NoteExporter {
 	/**
 	 * Generate timestamps section
 	 */
-	private generateTimestampsSection(): string {
+	private generateTimestampsSection(existingTimestamps: string | null = null): string {
+		if (existingTimestamps) {
+			return ['## Timestamps\n', existingTimestamps, ''].join('\n');
+		}
+
 		return [
 			'## Timestamps\n',
 			'<!-- Add your timestamps here -->',
@@ -320,24 +531,47 @@ export class NoteExporter {
 		podcast: Podcast,
 		progress?: PlayProgress
 	): TemplateVariables {
+		const categories = podcast.categories || [];
+		const showNotes = ShowNotesConverter.toMarkdown(episode.description || '', { episodeId: episode.id });
+
 		const variables: TemplateVariables = {
 			episodeTitle: episode.title,
-			episodeDescription: episode.description,
+			episodeDescription: showNotes,
+			episodeId: episode.id,
+			podcastId: episode.podcastId,
 			podcastTitle: podcast.title,
 			podcastAuthor: podcast.author,
 			episodeNumber: episode.episodeNumber,
 			seasonNumber: episode.seasonNumber,
+			episodeType: episode.episodeType,
 			publishDate: formatDate(episode.publishDate),
 			duration: formatDuration(episode.duration),
 			audioUrl: episode.audioUrl,
 			episodeUrl: episode.guid,
 			imageUrl: episode.imageUrl || podcast.imageUrl,
+			feedUrl: podcast.feedUrl,
+			websiteUrl: podcast.websiteUrl,
+			showNotes,
+			categories,
+			tags: categories.map(category => this.toTagName(category)).filter(tag => tag.length > 0),
+			chapters: (episode.chapters || []).map(chapter => ({
+				title: chapter.title,
+				time: formatTime(chapter.startTime),
+				seconds: chapter.startTime,
+				link: this.createTimestampLink(episode, chapter.startTime),
+				url: chapter.url,
+			})),
+			timestamps: [],
+			publishedAt: new Date(episode.publishDate),
+			exportedAt: new Date(),
 		};
 
 		if (progress) {
 			const percentage = Math.round((progress.position / progress.duration) * 100);
 			variables.progress = formatDuration(progress.position);
 			variables.completionPercentage = `${percentage}%`;
+			variables.lastPlayedAt = new Date(progress.lastPlayedAt);
+			variables.completed = progress.completed;
 		}
 
 		return variables;
@@ -347,17 +581,111 @@ export class NoteExporter {
 	 * Apply custom template
 	 */
 	private applyTemplate(template: string, variables: TemplateVariables): string {
-		let result = template;
+		return TemplateEngine.render(template, variables);
+	}
 
-		// Replace all variables
-		for (const [key, value] of Object.entries(variables)) {
-			if (value !== undefined && value !== null) {
-				const regex = new RegExp(`{{${key}}}`, 'g');
-				result = result.replace(regex, String(value));
+	/**
+	 * Load a template file from the vault
+	 */
+	private async loadTemplate(templatePath: string): Promise<string> {
+		const path = normalizePath(templatePath.endsWith('.md') ? templatePath : `${templatePath}.md`);
+		const file = this.vault.getAbstractFileByPath(path);
+
+		if (!(file instanceof TFile)) {
+			throw new StorageError(`Template file not found: ${path}`, path);
+		}
+
+		return await this.vault.read(file);
+	}
+
+	/**
+	 * Collect the timestamps written in a previously exported note
+	 * Chapter lines rendered by the template itself are skipped.
+	 */
+	private async readExistingTimestamps(filePath: string, episode: Episode): Promise<TemplateTimestamp[]> {
+		const file = this.vault.getAbstractFileByPath(filePath);
+		if (!(file instanceof TFile)) {
+			return [];
+		}
+
+		const content = await this.vault.read(file);
+		const lines = content.split('\n');
+		const chapterKeys = new Set((episode.chapters || []).map(chapter => `${chapter.startTime}|${chapter.title}`));
+		const seen = new Set<string>();
+		const timestamps: TemplateTimestamp[] = [];
+
+		for (const { timestamp, seconds, line } of TimestampFormatter.extractTimestamps(content)) {
+			const row = lines[line - 1].trim();
+			const text = row.startsWith('|') ? NoteExporter.getTableNote(row) : lines[line - 1]
+				.replace(timestamp, '')
+				.replace(/^\(podcast:\/\/[^)]*\)/, '')
+				.replace(/^\s*(?:[-*+]|\d+\.)\s*/, '')
+				.replace(/\(podcast:\/\/[^)]*\)/g, '')
+				.trim();
+			const key = `${seconds}|${text}`;
+
+			if (chapterKeys.has(key) || seen.has(key)) {
+				continue;
 			}
+			seen.add(key);
+
+			timestamps.push({
+				time: formatTime(seconds),
+				seconds,
+				text,
+				link: this.createTimestampLink(episode, seconds),
+			});
+		}
+
+		return timestamps;
+	}
+
+	/**
+	 * Read the timestamps section of a previously exported note
+	 */
+	private async readExistingTimestampsSection(filePath: string): Promise<string | null> {
+		const file = this.vault.getAbstractFileByPath(filePath);
+		if (!(file instanceof TFile)) {
+			return null;
+		}
+
+		const lines = (await this.vault.read(file)).split('\n');
+		const section = NoteExporter.findTimestampsSection(lines);
+		if (!section) {
+			return null;
 		}
 
-		return result;
+		const body = lines.slice(section.start + 1, section.end).join('\n').trim();
+		return body || null;
+	}
+
+	/**
+	 * Note cell of a timestamps table row
+	 */
+	private static getTableNote(row: string): string {
+		const cells = row
+			.replace(/\\\|/g, '\u0000')
+			.split('|')
+			.map(cell => cell.trim().replace(/\u0000/g, '|'));
+		return cells[2] || '';
+	}
+
+	/**
+	 * Create a markdown link that seeks the player
+	 */
+	private createTimestampLink(episode: Episode, seconds: number): string {
+		return `[${formatTime(seconds)}](podcast://${episode.id}?t=${Math.floor(seconds)})`;
+	}
+
+	/**
+	 * Convert a category to a tag name
+	 */
+	private toTagName(category: string): string {
+		return category
+			.toLowerCase()
+			.replace(/&/g, 'and')
+			.replace(/[^\p{L}\p{N}_/-]+/gu, '-')
+			.replace(/^-+|-+$/g, '');
 	}
 
 	/**
@@ -0,0 +1,210 @@
+/**
+ * PodcastBlock - ```podcast``` code blocks that embed an episode in a note
+ *
+ * A block is a list of `key: value` lines:
+ *
+ *     episode: <episode ID, GUID, audio URL, title or podcast:// link>
+ *     feed: <feed URL, podcast ID or podcast title>
+ *     start: 12:30
+ *     end: 15:00
+ *
+ * When only `feed` is given, the latest episode of that feed is embedded.
+ */
+
+import { logger } from '../utils/Logger';
+import { PodcastPlayerError } from '../utils/errorUtils';
+import { Episode, Podcast, PlayProgress } from '../model';
+import { SubscriptionStore } from '../storage/SubscriptionStore';
+import { ProgressStore } from '../storage/ProgressStore';
+import { FeedService } from '../feed/FeedService';
+import { TimestampFormatter } from './TimestampFormatter';
+import { TimestampLinkHandler } from './TimestampLinkHandler';
+
+/**
+ * Code block language handled by the plugin
+ */
+export const PODCAST_CODE_BLOCK_LANGUAGE = 'podcast';
+
+/**
+ * Options of a ```podcast``` block
+ */
+export interface PodcastBlockOptions {
+	/** Episode reference (ID, GUID, audio URL or title) */
+	episode?: string;
+	/** Feed reference (feed URL, podcast ID or title) */
+	feed?: string;
+	/** Clip start in seconds */
+	start?: number;
+	/** Clip end in seconds */
+	end?: number;
+}
+
+/**
+ * A block resolved to a playable episode
+ */
+export interface ResolvedPodcastBlock {
+	episode: Episode;
+	podcast: Podcast | null;
+	progress: PlayProgress | null;
+}
+
+const BLOCK_KEYS = ['episode', 'feed', 'start', 'end'];
+
+/**
+ * Resolves ```podcast``` blocks to episodes
+ */
+export class PodcastBlockResolver {
+	private subscriptionStore: SubscriptionStore;
+	private progressStore: ProgressStore;
+	private feedService: FeedService;
+
+	constructor(subscriptionStore: SubscriptionStore, progressStore: ProgressStore, feedService: FeedService) {
+		this.subscriptionStore = subscriptionStore;
+		this.progressStore = progressStore;
+		this.feedService = feedService;
+	}
+
+	/**
+	 * Parse the source of a ```podcast``` block
+	 * Returns the options and a list of problems found in the source.
+	 */
+	static parseSource(source: string): { options: PodcastBlockOptions; errors: string[] } {
+		const options: PodcastBlockOptions = {};
+		const errors: string[] = [];
+
+		for (const rawLine of source.split('\n')) {
+			const line = rawLine.trim();
+			if (!line || line.startsWith('#')) {
+				continue;
+			}
+
+			const separator = line.indexOf(':');
+			if (separator === -1) {
+				errors.push(`Expected "key: value", got "${line}"`);
+				continue;
+			}
+
+			const key = line.slice(0, separator).trim().toLowerCase();
+			const value = line.slice(separator + 1).trim();
+
+			if (!BLOCK_KEYS.includes(key)) {
+				errors.push(`Unknown key "${key}"`);
+				continue;
+			}
+
+			if (key === 'start' || key === 'end') {
+				const seconds = value ? TimestampFormatter.parseTimestamp(value) : null;
+				if (seconds === null || seconds < 0) {
+					errors.push(`Invalid ${key} time "${value}"`);
+				} else {
+					options[key] = seconds;
+				}
+				continue;
+			}
+
+			if (key === 'episode' && TimestampLinkHandler.isTimestampLink(value)) {
+				// podcast://<episodeId>?t=<seconds> links carry their own start time
+				const target = TimestampLinkHandler.parseLink(value);
+				if (target) {
+					options.episode = target.episodeId;
+					if (options.start === undefined && target.seconds > 0) {
+						options.start = target.seconds;
+					}
+					continue;
+				}
+			}
+
+			if (value) {
+				options[key as 'episode' | 'feed'] = value;
+			}
+		}
+
+		if (!options.episode && !options.feed) {
+			errors.push('Add an "episode" or "feed" line');
+		}
+
+		if (options.start !== undefined && options.end !== undefined && options.end <= options.start) {
+			errors.push('"end" must be after "start"');
+		}
+
+		return { options, errors };
+	}
+
+	/**
+	 * Resolve block options to an episode
+	 */
+	async resolve(options: PodcastBlockOptions): Promise<ResolvedPodcastBlock> {
+		logger.methodEntry('PodcastBlockResolver', 'resolve', options.episode || options.feed);
+
+		const podcasts = await this.subscriptionStore.getAllPodcasts();
+		let podcast: Podcast | null = null;
+		let episodes: Episode[];
+
+		if (options.feed) {
+			podcast = this.findPodcast(podcasts, options.feed);
+
+			if (podcast) {
+				episodes = podcast.episodes || [];
+			} else if (/^https?:\/\//i.test(options.feed)) {
+				// Not subscribed: read the feed without subscribing
+				const feed = await this.feedService.fetchFeed(options.feed);
+				podcast = feed.podcast;
+				episodes = feed.episodes;
+			} else {
+				throw new PodcastPlayerError(`Podcast not found: ${options.feed}`);
+			}
+		} else {
+			episodes = podcasts.reduce<Episode[]>((all, p) => all.concat(p.episodes || []), []);
+		}
+
+		const episode = options.episode
+			? this.findEpisode(episodes, options.episode)
+			: this.getLatestEpisode(episodes);
+
+		if (!episode) {
+			throw new PodcastPlayerError(`Episode not found: ${options.episode || options.feed}`);
+		}
+
+		if (!podcast) {
+			podcast = podcasts.find(p => p.id === episode.podcastId) || null;
+		}
+
+		const progress = await this.progressStore.getProgress(episode.id);
+
+		logger.methodExit('PodcastBlockResolver', 'resolve', episode.id);
+		return { episode, podcast, progress };
+	}
+
+	/**
+	 * Find a subscribed podcast by feed URL, ID or title
+	 */
+	private findPodcast(podcasts: Podcast[], reference: string): Podcast | null {
+		const lower = reference.toLowerCase();
+		return podcasts.find(p => p.feedUrl === reference || p.id === reference) ||
+			podcasts.find(p => p.title.toLowerCase() === lower) ||
+			null;
+	}
+
+	/**
+	 * Find an episode by ID, GUID, audio URL or title
+	 */
+	private findEpisode(episodes: Episode[], reference: string): Episode | null {
+		const lower = reference.toLowerCase();
+		return episodes.find(e => e.id === reference || e.guid === reference || e.audioUrl === reference) ||
+			episodes.find(e => e.title.toLowerCase() === lower) ||
+			null;
+	}
+
+	/**
+	 * Get the most recently published episode
+	 */
+	private getLatestEpisode(episodes: Episode[]): Episode | null {
+		let latest: Episode | null = null;
+		for (const episode of episodes) {
+			if (!latest || new Date(episode.publishDate).getTime() > new Date(latest.publishDate).getTime()) {
+				latest = episode;
+			}
+		}
+		return latest;
+	}
+}
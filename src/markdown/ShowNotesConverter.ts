@@ -0,0 +1,586 @@
+/**
+ * ShowNotesConverter - Converts episode show notes from HTML to markdown
+ *
+ * Feed descriptions are untrusted HTML. The converter keeps the structure
+ * that has a markdown equivalent (paragraphs, headings, lists, links,
+ * images, emphasis, code, quotes) and drops everything else, including
+ * scripts, styles, embeds and links with unsafe schemes. Times such as
+ * `12:34` or `1:02:03` can be turned into `podcast://` timestamp links.
+ */
+
+import { logger } from '../utils/Logger';
+import { TIMESTAMP_LINK_SCHEME } from './TimestampLinkHandler';
+import { TimestampFormatter } from './TimestampFormatter';
+
+/**
+ * Show notes conversion options
+ */
+export interface ShowNotesOptions {
+	/** Episode to link timestamps to (timestamps stay plain text without it) */
+	episodeId?: string;
+}
+
+/**
+ * Parsed HTML element
+ */
+interface HtmlElement {
+	tag: string;
+	attrs: Record<string, string>;
+	children: HtmlNode[];
+}
+
+type HtmlNode = HtmlElement | string;
+
+/**
+ * Rendering state passed down the tree
+ */
+interface RenderContext {
+	episodeId?: string;
+	inLink: boolean;
+	inCode: boolean;
+	preformatted: boolean;
+}
+
+const TOKEN_REGEX = /<!--[\s\S]*?(?:-->|$)|<!\[CDATA\[([\s\S]*?)\]\]>|<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>|<![^>]*>|<\?[^>]*>/g;
+
+const ATTRIBUTE_REGEX = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr']);
+
+// Elements whose content is raw text that must not be parsed as markup
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'textarea', 'title', 'noscript', 'template']);
+
+// Elements dropped together with their content
+const DROPPED_TAGS = new Set([
+	...RAW_TEXT_TAGS,
+	'head', 'iframe', 'object', 'embed', 'applet', 'frame', 'frameset', 'svg', 'math',
+	'canvas', 'audio', 'video', 'form', 'button', 'input', 'select', 'option', 'link', 'meta',
+]);
+
+const BLOCK_TAGS = new Set([
+	'p', 'div', 'section', 'article', 'header', 'footer', 'main', 'aside', 'nav', 'figure',
+	'figcaption', 'address', 'center', 'details', 'summary', 'dl', 'dt', 'dd', 'table',
+	'thead', 'tbody', 'tfoot', 'caption',
+]);
+
+// Opening one of these closes an open element of the same kind (<p>a<p>b, <li>a<li>b)
+const SELF_NESTING_BREAKERS = new Set(['p', 'li', 'dt', 'dd', 'tr', 'td', 'th', 'option']);
+
+const SAFE_LINK_REGEX = /^(?:https?:|mailto:|podcast:)/i;
+const SAFE_IMAGE_REGEX = /^https?:/i;
+
+const URL_REGEX = /https?:\/\/[^\s<>"]+[^\s<>".,;:!?)\]'*_]/g;
+
+// 1:02:03 or 12:34, not part of a longer number/time and not a clock time ("10:30 am")
+const TIMESTAMP_REGEX = /(^|[^\d:])((?:\d{1,2}:)?\d{1,2}:\d{2})(?![\d:]|\s?[ap]\.?m\b)/gi;
+
+const NAMED_ENTITIES: Record<string, string> = {
+	amp: '&',
+	lt: '<',
+	gt: '>',
+	quot: '"',
+	apos: "'",
+	nbsp: ' ',
+	ndash: '–',
+	mdash: '—',
+	hellip: '…',
+	lsquo: '‘',
+	rsquo: '’',
+	ldquo: '“',
+	rdquo: '”',
+	laquo: '«',
+	raquo: '»',
+	bull: '•',
+	middot: '·',
+	copy: '©',
+	reg: '®',
+	trade: '™',
+	euro: '€',
+	pound: '£',
+	deg: '°',
+	times: '×',
+};
+
+/**
+ * Show Notes Converter
+ */
+export class ShowNotesConverter {
+	/**
+	 * Convert show notes HTML (or plain text) to markdown
+	 */
+	static toMarkdown(html: string, options: ShowNotesOptions = {}): string {
+		logger.methodEntry('ShowNotesConverter', 'toMarkdown');
+
+		if (!html || !html.trim()) {
+			logger.methodExit('ShowNotesConverter', 'toMarkdown', 'empty');
+			return '';
+		}
+
+		// Plain text descriptions keep their line breaks
+		const source = /<[a-zA-Z][^>]*>|<\/[a-zA-Z]/.test(html)
+			? html
+			: html.replace(/\r\n?/g, '\n').replace(/\n/g, '<br>');
+
+		const root = this.parse(source);
+		const markdown = this.cleanup(this.renderChildren(root.children, {
+			episodeId: options.episodeId,
+			inLink: false,
+			inCode: false,
+			preformatted: false,
+		}));
+
+		logger.methodExit('ShowNotesConverter', 'toMarkdown');
+		return markdown;
+	}
+
+	/**
+	 * Decode HTML character references
+	 */
+	static decodeEntities(text: string): string {
+		return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (match: string, entity: string) => {
+			if (entity[0] === '#') {
+				const codePoint = entity[1] === 'x' || entity[1] === 'X'
+					? parseInt(entity.slice(2), 16)
+					: parseInt(entity.slice(1), 10);
+				if (!isFinite(codePoint) || codePoint <= 0 || codePoint > 0x10ffff) {
+					return match;
+				}
+				return String.fromCodePoint(codePoint);
+			}
+			return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+		});
+	}
+
+	/**
+	 * Parse HTML into an element tree
+	 * Tolerates the malformed markup common in feeds: unclosed elements are
+	 * closed by their parent and stray closing tags are ignored.
+	 */
+	private static parse(html: string): HtmlElement {
+		const root: HtmlElement = { tag: '', attrs: {}, children: [] };
+		const stack: HtmlElement[] = [root];
+		const current = (): HtmlElement => stack[stack.length - 1];
+
+		let lastIndex = 0;
+		let match: RegExpExecArray | null;
+		TOKEN_REGEX.lastIndex = 0;
+
+		while ((match = TOKEN_REGEX.exec(html)) !== null) {
+			if (match.index > lastIndex) {
+				current().children.push(this.decodeEntities(html.slice(lastIndex, match.index)));
+			}
+			lastIndex = TOKEN_REGEX.lastIndex;
+
+			const [, cdata, closing, rawTag, rawAttrs, selfClosing] = match;
+
+			if (cdata !== undefined) {
+				current().children.push(cdata);
+				continue;
+			}
+			if (!rawTag) {
+				// Comment, doctype or processing instruction
+				continue;
+			}
+
+			const tag = rawTag.toLowerCase();
+
+			if (closing) {
+				const index = stack.map(element => element.tag).lastIndexOf(tag);
+				if (index > 0) {
+					stack.length = index;
+				}
+				continue;
+			}
+
+			if (SELF_NESTING_BREAKERS.has(tag) && current().tag === tag) {
+				stack.pop();
+			}
+
+			const element: HtmlElement = { tag, attrs: this.parseAttributes(rawAttrs || ''), children: [] };
+			current().children.push(element);
+
+			if (RAW_TEXT_TAGS.has(tag)) {
+				// Skip to the closing tag without parsing the content
+				const end = html.toLowerCase().indexOf(`</${tag}`, lastIndex);
+				const closeEnd = end === -1 ? -1 : html.indexOf('>', end);
+				lastIndex = closeEnd === -1 ? html.length : closeEnd + 1;
+				TOKEN_REGEX.lastIndex = lastIndex;
+			} else if (!selfClosing && !VOID_TAGS.has(tag)) {
+				stack.push(element);
+			}
+		}
+
+		if (lastIndex < html.length) {
+			current().children.push(this.decodeEntities(html.slice(lastIndex)));
+		}
+
+		return root;
+	}
+
+	/**
+	 * Parse the attribute list of a tag
+	 */
+	private static parseAttributes(source: string): Record<string, string> {
+		const attrs: Record<string, string> = {};
+		let match: RegExpExecArray | null;
+		ATTRIBUTE_REGEX.lastIndex = 0;
+
+		while ((match = ATTRIBUTE_REGEX.exec(source)) !== null) {
+			const value = match[2] ?? match[3] ?? match[4] ?? '';
+			attrs[match[1].toLowerCase()] = this.decodeEntities(value).trim();
+		}
+
+		return attrs;
+	}
+
+	/**
+	 * Render a list of nodes
+	 */
+	private static renderChildren(nodes: HtmlNode[], context: RenderContext): string {
+		return nodes.map(node => this.renderNode(node, context)).join('');
+	}
+
+	/**
+	 * Render one node
+	 */
+	private static renderNode(node: HtmlNode, context: RenderContext): string {
+		if (typeof node === 'string') {
+			return this.renderText(node, context);
+		}
+
+		const { tag } = node;
+
+		if (DROPPED_TAGS.has(tag)) {
+			return '';
+		}
+
+		if (context.preformatted) {
+			return tag === 'br' ? '\n' : this.renderChildren(node.children, context);
+		}
+
+		switch (tag) {
+			case 'br':
+				return '\n';
+
+			case 'hr':
+				return '\n\n---\n\n';
+
+			case 'h1':
+			case 'h2':
+			case 'h3':
+			case 'h4':
+			case 'h5':
+			case 'h6': {
+				const text = this.renderInline(node.children, context);
+				return text ? `\n\n${'#'.repeat(Number(tag[1]))} ${text}\n\n` : '';
+			}
+
+			case 'blockquote': {
+				const content = this.cleanup(this.renderChildren(node.children, context));
+				if (!content) return '';
+				const quoted = content.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n');
+				return `\n\n${quoted}\n\n`;
+			}
+
+			case 'pre': {
+				const code = this.renderChildren(node.children, { ...context, preformatted: true, inCode: true })
+					.replace(/^\n+|\s+$/g, '');
+				if (!code) return '';
+				// Longer than any fence-like run in the code, so the code cannot close it
+				const fence = '`'.repeat(Math.max(3, this.longestRun(code, /`+|~+/g) + 1));
+				return `\n\n${fence}\n${code}\n${fence}\n\n`;
+			}
+
+			case 'ul':
+			case 'ol':
+				return this.renderList(node, context);
+
+			case 'li':
+				// List item outside of a list
+				return `\n\n${this.renderListItem(node, '- ', context)}\n\n`;
+
+			case 'tr': {
+				const cells = node.children
+					.filter((child): child is HtmlElement => typeof child !== 'string')
+					.map(cell => this.renderInline(cell.children, context))
+					.filter(cell => cell.length > 0);
+				return cells.length > 0 ? `\n${cells.join(' | ')}\n` : '';
+			}
+
+			case 'td':
+			case 'th':
+				return ` ${this.renderChildren(node.children, context)} `;
+
+			case 'strong':
+			case 'b':
+				return this.wrapInline(this.renderChildren(node.children, context), '**');
+
+			case 'em':
+			case 'i':
+			case 'cite':
+				return this.wrapInline(this.renderChildren(node.children, context), '*');
+
+			case 's':
+			case 'del':
+			case 'strike':
+				return this.wrapInline(this.renderChildren(node.children, context), '~~');
+
+			case 'mark':
+				return this.wrapInline(this.renderChildren(node.children, context), '==');
+
+			case 'code':
+			case 'kbd':
+			case 'samp':
+				return this.renderCode(node, context);
+
+			case 'a':
+				return this.renderLink(node, context);
+
+			case 'img':
+				return this.renderImage(node);
+
+			default:
+				if (BLOCK_TAGS.has(tag)) {
+					return `\n\n${this.renderChildren(node.children, context)}\n\n`;
+				}
+				return this.renderChildren(node.children, context);
+		}
+	}
+
+	/**
+	 * Render text, escaping markdown and linking URLs and timestamps
+	 */
+	private static renderText(text: string, context: RenderContext): string {
+		if (context.preformatted) {
+			return text;
+		}
+
+		const collapsed = text.replace(/\s+/g, ' ');
+		if (context.inCode) {
+			return collapsed;
+		}
+
+		let result = '';
+		let lastIndex = 0;
+		let match: RegExpExecArray | null;
+		URL_REGEX.lastIndex = 0;
+
+		// Bare URLs are left unescaped so they stay clickable
+		while ((match = URL_REGEX.exec(collapsed)) !== null) {
+			result += this.renderPlainText(collapsed.slice(lastIndex, match.index), context, lastIndex === 0);
+			result += context.inLink ? this.escapeMarkdown(match[0], false) : match[0];
+			lastIndex = URL_REGEX.lastIndex;
+		}
+		result += this.renderPlainText(collapsed.slice(lastIndex), context, lastIndex === 0);
+
+		return result;
+	}
+
+	/**
+	 * Render text without URLs, linking timestamps when an episode is known
+	 */
+	private static renderPlainText(text: string, context: RenderContext, atStart: boolean): string {
+		if (!context.episodeId || context.inLink) {
+			return this.escapeMarkdown(text, atStart);
+		}
+
+		let result = '';
+		let lastIndex = 0;
+		let match: RegExpExecArray | null;
+		TIMESTAMP_REGEX.lastIndex = 0;
+
+		while ((match = TIMESTAMP_REGEX.exec(text)) !== null) {
+			const [, prefix, time] = match;
+			const seconds = this.parseTime(time);
+			if (seconds === null) {
+				continue;
+			}
+
+			const start = match.index + prefix.length;
+			result += this.escapeMarkdown(text.slice(lastIndex, start), atStart && lastIndex === 0);
+			result += `[${time}](${TIMESTAMP_LINK_SCHEME}${context.episodeId}?t=${seconds})`;
+			lastIndex = start + time.length;
+		}
+		result += this.escapeMarkdown(text.slice(lastIndex), atStart && lastIndex === 0);
+
+		return result;
+	}
+
+	/**
+	 * Parse a time, rejecting minute/second fields of 60 or more
+	 */
+	private static parseTime(time: string): number | null {
+		const fields = time.split(':').map(field => parseInt(field, 10));
+		if (fields.slice(1).some(field => field >= 60)) {
+			return null;
+		}
+		return TimestampFormatter.parseTimestamp(time);
+	}
+
+	/**
+	 * Escape characters that markdown (or Obsidian) would interpret
+	 */
+	private static escapeMarkdown(text: string, atStart: boolean): string {
+		let escaped = text
+			.replace(/[\\`*_[\]<$]/g, '\\$&')
+			// Highlights and strikethrough
+			.replace(/==|~~/g, match => `\\${match[0]}\\${match[1]}`)
+			// Hashtags and headings
+			.replace(/(^|\s)#/g, '$1\\#');
+
+		if (atStart) {
+			// List and quote markers at the start of a block
+			escaped = escaped
+				.replace(/^(\s*)([-+>])(?=\s)/, '$1\\$2')
+				.replace(/^(\s*\d+)\.(?=\s)/, '$1\\.');
+		}
+
+		return escaped;
+	}
+
+	/**
+	 * Render children as a single line
+	 */
+	private static renderInline(nodes: HtmlNode[], context: RenderContext): string {
+		return this.cleanup(this.renderChildren(nodes, context)).replace(/\s*\n\s*/g, ' ');
+	}
+
+	/**
+	 * Wrap inline content in emphasis markers, keeping surrounding spaces outside
+	 */
+	private static wrapInline(content: string, marker: string): string {
+		const match = content.match(/^(\s*)([\s\S]*?)(\s*)$/);
+		if (!match || !match[2] || match[2].includes('\n')) {
+			return content;
+		}
+		return `${match[1]}${marker}${match[2]}${marker}${match[3]}`;
+	}
+
+	/**
+	 * Render inline code
+	 */
+	private static renderCode(node: HtmlElement, context: RenderContext): string {
+		const code = this.renderChildren(node.children, { ...context, inCode: true });
+		if (!code.trim()) {
+			return code;
+		}
+		const fence = '`'.repeat(this.longestRun(code, /`+/g) + 1);
+		const padding = code.startsWith('`') || code.endsWith('`') ? ' ' : '';
+		return `${fence}${padding}${code}${padding}${fence}`;
+	}
+
+	/**
+	 * Length of the longest match of a pattern, e.g. a run of backticks
+	 */
+	private static longestRun(text: string, pattern: RegExp): number {
+		const runs: string[] = text.match(pattern) || [];
+		return runs.reduce((longest, run) => Math.max(longest, run.length), 0);
+	}
+
+	/**
+	 * Render a link, dropping unsafe targets but keeping their text
+	 */
+	private static renderLink(node: HtmlElement, context: RenderContext): string {
+		const href = node.attrs.href || '';
+		const text = this.renderInline(node.children, { ...context, inLink: true });
+
+		if (!SAFE_LINK_REGEX.test(href)) {
+			return text;
+		}
+
+		const target = this.encodeLinkTarget(href);
+		if (!text || text === this.escapeMarkdown(href, false)) {
+			return target;
+		}
+		return `[${text}](${target})`;
+	}
+
+	/**
+	 * Render an image from an http(s) source
+	 */
+	private static renderImage(node: HtmlElement): string {
+		const src = node.attrs.src || '';
+		if (!SAFE_IMAGE_REGEX.test(src)) {
+			return '';
+		}
+
+		const alt = (node.attrs.alt || '').replace(/\s+/g, ' ').replace(/[[\]\\]/g, '\\$&');
+		return `![${alt}](${this.encodeLinkTarget(src)})`;
+	}
+
+	/**
+	 * Render a list with one line per item
+	 */
+	private static renderList(node: HtmlElement, context: RenderContext): string {
+		const ordered = node.tag === 'ol';
+		const start = ordered ? parseInt(node.attrs.start || '1', 10) || 1 : 1;
+		const items = node.children.filter(
+			(child): child is HtmlElement => typeof child !== 'string'
+		);
+
+		const lines: string[] = [];
+		let number = start;
+
+		for (const item of items) {
+			if (item.tag === 'ul' || item.tag === 'ol') {
+				// Nested list placed directly inside the list
+				const nested = this.cleanup(this.renderList(item, context));
+				if (nested) {
+					lines.push(nested.split('\n').map(line => `\t${line}`).join('\n'));
+				}
+				continue;
+			}
+
+			const line = this.renderListItem(item, ordered ? `${number}. ` : '- ', context);
+			if (line) {
+				lines.push(line);
+				number++;
+			}
+		}
+
+		return lines.length > 0 ? `\n\n${lines.join('\n')}\n\n` : '';
+	}
+
+	/**
+	 * Render a list item, indenting its continuation lines
+	 */
+	private static renderListItem(item: HtmlElement, marker: string, context: RenderContext): string {
+		const content = this.cleanup(this.renderChildren(item.children, context)).replace(/\n{2,}/g, '\n');
+		if (!content) {
+			return '';
+		}
+
+		const [first, ...rest] = content.split('\n');
+		return [`${marker}${first}`, ...rest.map(line => `\t${line}`)].join('\n');
+	}
+
+	/**
+	 * Make a URL safe to use as a markdown link target
+	 */
+	private static encodeLinkTarget(url: string): string {
+		return url.replace(/\s/g, '%20').replace(/\(/g, '%28').replace(/\)/g, '%29');
+	}
+
+	/**
+	 * Normalize whitespace and blank lines
+	 */
+	private static cleanup(markdown: string): string {
+		let inFence = false;
+
+		return markdown
+			.split('\n')
+			.map(line => {
+				const isFence = /^[\t >]*(?:```|~~~)/.test(line);
+				if (inFence && !isFence) {
+					return line;
+				}
+				if (isFence) {
+					inFence = !inFence;
+				}
+				return line.replace(/[ \t]+$/, '').replace(/^ +/, '');
+			})
+			.join('\n')
+			.replace(/\n{3,}/g, '\n\n')
+			.trim();
+	}
+}
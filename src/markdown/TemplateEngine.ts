@@ -0,0 +1,334 @@
+/**
+ * TemplateEngine - Renders note templates
+ *
+ * A small Handlebars-like syntax for episode note templates:
+ *
+ *     {{episodeTitle}}                      variable (dotted paths allowed)
+ *     {{publishedAt | date:"YYYY-MM-DD"}}   filters: date, default, upper, lower, join
+ *     {{#if chapters}}...{{else}}...{{/if}} conditionals
+ *     {{#each chapters}}- {{time}} {{title}}{{/each}}
+ *                                           loops ({{this}}, {{@index}}, {{@number}})
+ *
+ * Block tags on a line of their own do not leave blank lines behind.
+ * Variables without a value are left in the note as written, as before
+ * blocks and filters existed; use the default filter to replace them.
+ *
+ * Templater commands (<% ... %>) pass through untouched and are run by the
+ * Templater plugin once the note is created, see NoteExporter.
+ */
+
+import { logger } from '../utils/Logger';
+import { formatDate } from '../utils/timeUtils';
+
+/**
+ * Value that can be used in a template
+ */
+export type TemplateValue =
+	| string
+	| number
+	| boolean
+	| Date
+	| null
+	| undefined
+	| TemplateValue[]
+	| TemplateContext;
+
+/**
+ * Variables available to a template
+ */
+export interface TemplateContext {
+	[key: string]: TemplateValue;
+}
+
+type TemplateNode =
+	| { type: 'text'; value: string }
+	| { type: 'variable'; expression: string; raw: string }
+	| { type: 'if'; expression: string; body: TemplateNode[]; elseBody: TemplateNode[] }
+	| { type: 'each'; expression: string; body: TemplateNode[]; elseBody: TemplateNode[] };
+
+type BlockNode = Extract<TemplateNode, { type: 'if' | 'each' }>;
+
+/**
+ * Scope of a variable lookup: the current loop item and its parents
+ */
+interface Scope {
+	value: TemplateValue;
+	index?: number;
+	parent?: Scope;
+}
+
+const TAG_REGEX = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+
+// Block tags alone on a line: the whole line (including its newline) is dropped
+const STANDALONE_BLOCK_TAG_REGEX = /^[ \t]*(\{\{\s*(?:[#/][^}]*|else)\s*\}\})[ \t]*\r?\n/gm;
+
+/**
+ * Template Engine
+ */
+export class TemplateEngine {
+	/**
+	 * Render a template with the given variables
+	 */
+	static render(template: string, context: TemplateContext): string {
+		const nodes = this.parse(template.replace(STANDALONE_BLOCK_TAG_REGEX, '$1'));
+		return this.renderNodes(nodes, { value: context });
+	}
+
+	/**
+	 * Parse a template into a node tree
+	 * Unclosed blocks are closed at the end of the template and stray
+	 * closing tags are kept as text, so a typo never loses content.
+	 */
+	private static parse(template: string): TemplateNode[] {
+		const root: TemplateNode[] = [];
+		const stack: Array<{ node: BlockNode; inElse: boolean }> = [];
+		const current = (): TemplateNode[] => {
+			const top = stack[stack.length - 1];
+			if (!top) return root;
+			return top.inElse ? top.node.elseBody : top.node.body;
+		};
+
+		let lastIndex = 0;
+		let match: RegExpExecArray | null;
+		TAG_REGEX.lastIndex = 0;
+
+		while ((match = TAG_REGEX.exec(template)) !== null) {
+			if (match.index > lastIndex) {
+				current().push({ type: 'text', value: template.slice(lastIndex, match.index) });
+			}
+			lastIndex = TAG_REGEX.lastIndex;
+
+			const tag = match[1];
+			const blockMatch = tag.match(/^#(if|each)\s+([\s\S]+)$/);
+
+			if (blockMatch) {
+				const node: BlockNode = {
+					type: blockMatch[1] as 'if' | 'each',
+					expression: blockMatch[2].trim(),
+					body: [],
+					elseBody: [],
+				};
+				current().push(node);
+				stack.push({ node, inElse: false });
+			} else if (tag === 'else' && stack.length > 0) {
+				stack[stack.length - 1].inElse = true;
+			} else if ((tag === '/if' || tag === '/each') && stack[stack.length - 1]?.node.type === tag.slice(1)) {
+				stack.pop();
+			} else if (tag.startsWith('/') || tag.startsWith('#') || tag === 'else') {
+				logger.warn('Unmatched template tag', tag);
+				current().push({ type: 'text', value: match[0] });
+			} else {
+				current().push({ type: 'variable', expression: tag, raw: match[0] });
+			}
+		}
+
+		if (lastIndex < template.length) {
+			current().push({ type: 'text', value: template.slice(lastIndex) });
+		}
+
+		if (stack.length > 0) {
+			logger.warn('Unclosed template block', stack[stack.length - 1].node.expression);
+		}
+
+		return root;
+	}
+
+	/**
+	 * Render a list of nodes in a scope
+	 */
+	private static renderNodes(nodes: TemplateNode[], scope: Scope): string {
+		let output = '';
+
+		for (const node of nodes) {
+			switch (node.type) {
+				case 'text':
+					output += node.value;
+					break;
+
+				case 'variable': {
+					const value = this.evaluate(node.expression, scope);
+					const hasFilters = this.splitFilters(node.expression).length > 1;
+					output += !hasFilters && (value === undefined || value === null)
+						? node.raw
+						: this.stringify(value);
+					break;
+				}
+
+				case 'if':
+					output += this.renderNodes(
+						this.isTruthy(this.evaluate(node.expression, scope)) ? node.body : node.elseBody,
+						scope
+					);
+					break;
+
+				case 'each': {
+					const value = this.evaluate(node.expression, scope);
+					const items = Array.isArray(value) ? value : [];
+
+					if (items.length === 0) {
+						output += this.renderNodes(node.elseBody, scope);
+						break;
+					}
+
+					items.forEach((item, index) => {
+						output += this.renderNodes(node.body, { value: item, index, parent: scope });
+					});
+					break;
+				}
+			}
+		}
+
+		return output;
+	}
+
+	/**
+	 * Evaluate a variable expression with its filters
+	 */
+	private static evaluate(expression: string, scope: Scope): TemplateValue {
+		const [path, ...filters] = this.splitFilters(expression);
+		let value = this.lookup(path, scope);
+
+		for (const filter of filters) {
+			value = this.applyFilter(value, filter);
+		}
+
+		return value;
+	}
+
+	/**
+	 * Split "path | filter:arg | filter" on pipes outside of quotes
+	 */
+	private static splitFilters(expression: string): string[] {
+		const parts: string[] = [];
+		let currentPart = '';
+		let quote: string | null = null;
+
+		for (const char of expression) {
+			if (quote) {
+				if (char === quote) quote = null;
+				currentPart += char;
+			} else if (char === '"' || char === "'") {
+				quote = char;
+				currentPart += char;
+			} else if (char === '|') {
+				parts.push(currentPart.trim());
+				currentPart = '';
+			} else {
+				currentPart += char;
+			}
+		}
+		parts.push(currentPart.trim());
+
+		return parts;
+	}
+
+	/**
+	 * Look up a dotted path, starting in the innermost scope
+	 */
+	private static lookup(path: string, scope: Scope): TemplateValue {
+		if (path === 'this') {
+			return scope.value;
+		}
+		if (path === '@index') {
+			return scope.index;
+		}
+		if (path === '@number') {
+			return scope.index !== undefined ? scope.index + 1 : undefined;
+		}
+
+		const [head, ...rest] = path.split('.');
+		const headKey = head === 'this' ? rest.shift() : head;
+		if (headKey === undefined) {
+			return scope.value;
+		}
+
+		// Walk outwards until a scope defines the first segment
+		let owner: Scope | undefined = scope;
+		while (owner && !this.hasKey(owner.value, headKey)) {
+			if (head === 'this') return undefined;
+			owner = owner.parent;
+		}
+		if (!owner) {
+			return undefined;
+		}
+
+		let value = (owner.value as TemplateContext)[headKey];
+		for (const key of rest) {
+			if (!this.isContext(value)) {
+				return undefined;
+			}
+			value = value[key];
+		}
+
+		return value;
+	}
+
+	/**
+	 * Apply one filter
+	 */
+	private static applyFilter(value: TemplateValue, filter: string): TemplateValue {
+		const separator = filter.indexOf(':');
+		const name = (separator === -1 ? filter : filter.slice(0, separator)).trim();
+		const arg = separator === -1 ? undefined : filter.slice(separator + 1).trim().replace(/^(["'])([\s\S]*)\1$/, '$2');
+
+		switch (name) {
+			case 'date': {
+				if (value === undefined || value === null || value === '') {
+					return '';
+				}
+				const date = window.moment(value instanceof Date ? value : String(value));
+				return date.isValid() ? date.format(arg || 'YYYY-MM-DD') : '';
+			}
+			case 'default':
+				return this.isTruthy(value) ? value : (arg ?? '');
+			case 'upper':
+				return this.stringify(value).toUpperCase();
+			case 'lower':
+				return this.stringify(value).toLowerCase();
+			case 'join':
+				return Array.isArray(value)
+					? value.map(item => this.stringify(item)).join(arg ?? ', ')
+					: value;
+			default:
+				logger.warn('Unknown template filter', name);
+				return value;
+		}
+	}
+
+	/**
+	 * Convert a value to template output
+	 */
+	private static stringify(value: TemplateValue): string {
+		if (value === undefined || value === null) {
+			return '';
+		}
+		if (value instanceof Date) {
+			return formatDate(value);
+		}
+		if (Array.isArray(value)) {
+			return value.map(item => this.stringify(item)).join(', ');
+		}
+		if (typeof value === 'object') {
+			return '';
+		}
+		return String(value);
+	}
+
+	/**
+	 * Template truthiness: empty strings and lists are false
+	 */
+	private static isTruthy(value: TemplateValue): boolean {
+		if (Array.isArray(value)) {
+			return value.length > 0;
+		}
+		return !!value;
+	}
+
+	private static isContext(value: TemplateValue): value is TemplateContext {
+		return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+	}
+
+	private static hasKey(value: TemplateValue, key: string): boolean {
+		return this.isContext(value) && key in value;
+	}
+}
@@ -128,6 +128,21 @@ export class TimestampFormatter {
 		return `${timestamp} ${note}`;
 	}
 
+	/**
+	 * Format quoted text as a markdown blockquote ending with a timestamp link
+	 */
+	static formatQuote(
+		text: string,
+		seconds: number,
+		episode: Episode,
+		speaker?: string
+	): string {
+		const quoted = text.trim().split('\n').map(line => `> ${line}`).join('\n');
+		const timestamp = this.formatTimestamp(Math.floor(seconds), episode, { style: 'link' });
+		const attribution = speaker ? `${speaker}, ${episode.title}` : episode.title;
+		return `${quoted}\n> — ${attribution} ${timestamp}`;
+	}
+
 	/**
 	 * Format multiple timestamps
 	 */
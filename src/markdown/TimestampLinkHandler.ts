@@ -0,0 +1,202 @@
+/**
+ * TimestampLinkHandler - Resolves timestamp links back to playback
+ *
+ * Handles the `podcast://<episodeId>?t=<seconds>` links produced by
+ * TimestampFormatter and the `obsidian://podcast-player?...` protocol
+ * URIs, loading the referenced episode and seeking to the position.
+ */
+
+import { logger } from '../utils/Logger';
+import { PlayerController } from '../player/PlayerController';
+import { EpisodeManager } from '../podcast/EpisodeManager';
+
+/**
+ * Scheme used by timestamp links in notes
+ */
+export const TIMESTAMP_LINK_SCHEME = 'podcast://';
+
+/**
+ * Action name registered with the Obsidian protocol handler
+ */
+export const TIMESTAMP_PROTOCOL_ACTION = 'podcast-player';
+
+/**
+ * A parsed timestamp link target
+ */
+export interface TimestampLinkTarget {
+	episodeId: string;
+	seconds: number;
+}
+
+/**
+ * Timestamp Link Handler
+ */
+export class TimestampLinkHandler {
+	private playerController: PlayerController;
+	private episodeManager: EpisodeManager;
+
+	constructor(playerController: PlayerController, episodeManager: EpisodeManager) {
+		this.playerController = playerController;
+		this.episodeManager = episodeManager;
+	}
+
+	/**
+	 * Check whether an href is a podcast timestamp link
+	 */
+	static isTimestampLink(href: string | null | undefined): boolean {
+		return !!href && href.startsWith(TIMESTAMP_LINK_SCHEME);
+	}
+
+	/**
+	 * Parse a `podcast://<episodeId>?t=<seconds>` link
+	 */
+	static parseLink(href: string): TimestampLinkTarget | null {
+		if (!this.isTimestampLink(href)) {
+			return null;
+		}
+
+		const rest = href.substring(TIMESTAMP_LINK_SCHEME.length);
+		const queryIndex = rest.indexOf('?');
+		const rawId = queryIndex === -1 ? rest : rest.substring(0, queryIndex);
+		const query = queryIndex === -1 ? '' : rest.substring(queryIndex + 1);
+
+		const episodeId = this.decode(rawId.replace(/\/+$/, ''));
+		if (!episodeId || episodeId === 'unknown') {
+			return null;
+		}
+
+		return {
+			episodeId,
+			seconds: this.parseSeconds(this.getQueryParam(query, 't')),
+		};
+	}
+
+	/**
+	 * Parse parameters received by the `obsidian://podcast-player` handler
+	 */
+	static parseProtocolParams(params: Record<string, string>): TimestampLinkTarget | null {
+		const episodeId = params.episode || params.episodeId || params.id;
+		if (!episodeId) {
+			return null;
+		}
+
+		return {
+			episodeId,
+			seconds: this.parseSeconds(params.t),
+		};
+	}
+
+	/**
+	 * Build an `obsidian://podcast-player` URI for a position in an episode
+	 */
+	static createProtocolUri(episodeId: string, seconds: number): string {
+		const t = Math.max(0, Math.floor(seconds));
+		return `obsidian://${TIMESTAMP_PROTOCOL_ACTION}?episode=${encodeURIComponent(episodeId)}&t=${t}`;
+	}
+
+	/**
+	 * Find the timestamp link whose label or target covers a character offset
+	 * in a line of markdown. Used to resolve clicks in live preview, where the
+	 * link target is not present in the rendered DOM.
+	 */
+	static findLinkAt(line: string, offset: number): TimestampLinkTarget | null {
+		const linkRegex = /\[([^\]]*)\]\((podcast:\/\/[^)\s]+)\)/g;
+		let match;
+
+		while ((match = linkRegex.exec(line)) !== null) {
+			const start = match.index;
+			const end = start + match[0].length;
+			if (offset >= start && offset <= end) {
+				return this.parseLink(match[2]);
+			}
+		}
+
+		return null;
+	}
+
+	/**
+	 * Open a timestamp link, returning false if it could not be handled
+	 */
+	async openLink(href: string): Promise<boolean> {
+		const target = TimestampLinkHandler.parseLink(href);
+		if (!target) {
+			logger.warn('Invalid timestamp link', href);
+			return false;
+		}
+
+		return this.seekTo(target);
+	}
+
+	/**
+	 * Load the target episode if needed and seek to the encoded position
+	 */
+	async seekTo(target: TimestampLinkTarget): Promise<boolean> {
+		logger.methodEntry('TimestampLinkHandler', 'seekTo', target);
+
+		const current = this.playerController.getCurrentEpisode();
+
+		if (current?.id !== target.episodeId) {
+			const episode = await this.episodeManager.getEpisodeWithProgress(target.episodeId);
+			if (!episode) {
+				logger.warn('Episode for timestamp link not found', target.episodeId);
+				logger.methodExit('TimestampLinkHandler', 'seekTo', 'not found');
+				return false;
+			}
+
+			// Don't resume from saved progress - the link decides the position
+			await this.playerController.loadEpisode(episode, false, false);
+		}
+
+		this.playerController.seek(target.seconds);
+
+		if (!this.playerController.isPlaying()) {
+			await this.playerController.play();
+		}
+
+		logger.methodExit('TimestampLinkHandler', 'seekTo');
+		return true;
+	}
+
+	/**
+	 * Read a single parameter from a query string
+	 */
+	private static getQueryParam(query: string, name: string): string | undefined {
+		for (const pair of query.split('&')) {
+			const [key, value] = pair.split('=');
+			if (key === name) {
+				return value === undefined ? '' : this.decode(value);
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Parse a seconds value, accepting plain numbers or HH:MM:SS
+	 */
+	private static parseSeconds(value: string | undefined): number {
+		if (!value) {
+			return 0;
+		}
+
+		let seconds: number;
+		if (value.includes(':')) {
+			const parts = value.split(':').map(p => parseFloat(p));
+			seconds = parts.reduce((total, part) => total * 60 + part, 0);
+		} else {
+			seconds = parseFloat(value);
+		}
+
+		return isNaN(seconds) || seconds < 0 ? 0 : seconds;
+	}
+
+	/**
+	 * Decode a URI component, falling back to the raw value
+	 */
+	private static decode(value: string): string {
+		try {
+			return decodeURIComponent(value);
+		} catch {
+			return value;
+		}
+	}
+}
@@ -0,0 +1,137 @@
+/**
+ * Unit tests for DailyNoteService
+ */
+
+import moment from 'moment';
+import { DailyNoteService } from '../DailyNoteService';
+import { Vault, TFile } from 'obsidian';
+import { DEFAULT_SETTINGS, PluginSettings } from '../../model';
+
+// Mock logger
+jest.mock('../../utils/Logger', () => ({
+	logger: {
+		methodEntry: jest.fn(),
+		methodExit: jest.fn(),
+		debug: jest.fn(),
+		info: jest.fn(),
+		warn: jest.fn(),
+		error: jest.fn(),
+	},
+}));
+
+describe('DailyNoteService', () => {
+	let service: DailyNoteService;
+	let mockVault: jest.Mocked<Vault>;
+	let settings: PluginSettings;
+	let noteContent: string;
+	const dailyNote = Object.create(TFile.prototype);
+	const date = new Date(2024, 2, 20, 9, 30);
+
+	beforeEach(() => {
+		(global as any).window = { moment };
+
+		settings = { ...DEFAULT_SETTINGS, dailyNoteFolderPath: 'Journal', dailyNoteDateFormat: 'YYYY-MM-DD' };
+		noteContent = '';
+
+		mockVault = {
+			getAbstractFileByPath: jest.fn().mockReturnValue(dailyNote),
+			create: jest.fn().mockResolvedValue(dailyNote),
+			createFolder: jest.fn().mockResolvedValue(undefined),
+			read: jest.fn().mockImplementation(async () => noteContent),
+			modify: jest.fn().mockImplementation(async (_file: TFile, content: string) => {
+				noteContent = content;
+			}),
+		} as any;
+
+		service = new DailyNoteService(mockVault, () => settings);
+	});
+
+	describe('getDailyNotePath', () => {
+		it('should use the folder and date format', () => {
+			expect(service.getDailyNotePath(date)).toBe('Journal/2024-03-20.md');
+
+			settings.dailyNoteFolderPath = '';
+			settings.dailyNoteDateFormat = 'DD.MM.YYYY';
+			expect(service.getDailyNotePath(date)).toBe('20.03.2024.md');
+		});
+	});
+
+	describe('getOrCreateDailyNote', () => {
+		it('should create the folder and note when missing', async () => {
+			mockVault.getAbstractFileByPath.mockReturnValue(null);
+
+			await service.getOrCreateDailyNote(date);
+
+			expect(mockVault.createFolder).toHaveBeenCalledWith('Journal');
+			expect(mockVault.create).toHaveBeenCalledWith('Journal/2024-03-20.md', '');
+		});
+
+		it('should return an existing note', async () => {
+			expect(await service.getOrCreateDailyNote(date)).toBe(dailyNote);
+			expect(mockVault.create).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('insertEntry', () => {
+		it('should append to the bottom by default', async () => {
+			settings.dailyNoteInsertPosition = 'bottom';
+			noteContent = '# Today';
+
+			await service.insertEntry('Entry', date);
+
+			expect(noteContent).toBe('# Today\n\nEntry');
+		});
+
+		it('should insert at the top when configured', async () => {
+			settings.dailyNoteInsertPosition = 'top';
+			noteContent = '# Today';
+
+			await service.insertEntry('Entry', date);
+
+			expect(noteContent).toBe('Entry\n\n# Today');
+		});
+	});
+
+	describe('upsertSectionLine', () => {
+		it('should add the heading when the section is missing', async () => {
+			noteContent = '# Today\n\nSome text\n';
+
+			const changed = await service.upsertSectionLine('## Podcasts', '%%a%%', '- A %%a%%', date);
+
+			expect(changed).toBe(true);
+			expect(noteContent).toBe('# Today\n\nSome text\n\n## Podcasts\n- A %%a%%\n');
+		});
+
+		it('should not modify the note when the line is unchanged', async () => {
+			noteContent = '## Podcasts\n- A %%a%%\n';
+
+			const changed = await service.upsertSectionLine('## Podcasts', '%%a%%', '- A %%a%%', date);
+
+			expect(changed).toBe(false);
+			expect(mockVault.modify).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('upsertLine', () => {
+		it('should add lines at the end of the section', () => {
+			const content = '## Podcasts\n- A %%a%%\n\n## Tasks\n- [ ] Task\n';
+
+			expect(DailyNoteService.upsertLine(content, '## Podcasts', '%%b%%', '- B %%b%%'))
+				.toBe('## Podcasts\n- A %%a%%\n- B %%b%%\n\n## Tasks\n- [ ] Task\n');
+		});
+
+		it('should keep subsections inside the section', () => {
+			const content = '## Podcasts\n### Morning\n- A %%a%%\n# Next';
+
+			expect(DailyNoteService.upsertLine(content, '## Podcasts', '%%b%%', '- B %%b%%'))
+				.toBe('## Podcasts\n### Morning\n- A %%a%%\n- B %%b%%\n# Next');
+		});
+
+		it('should replace the line with the marker', () => {
+			const content = '## Podcasts\n- A, 10 min %%a%%\n- B %%b%%';
+
+			expect(DailyNoteService.upsertLine(content, '## Podcasts', '%%a%%', '- A, 25 min %%a%%'))
+				.toBe('## Podcasts\n- A, 25 min %%a%%\n- B %%b%%');
+		});
+	});
+});
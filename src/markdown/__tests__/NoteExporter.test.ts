@@ -81,6 +81,7 @@ describe('NoteExporter', () => {
 		mockVault = {
 			create: jest.fn().mockResolvedValue(mockFile),
 			modify: jest.fn().mockResolvedValue(undefined),
+			read: jest.fn().mockResolvedValue(''),
 			createFolder: jest.fn().mockResolvedValue(undefined),
 			getAbstractFileByPath: jest.fn().mockReturnValue(null),
 			adapter: {
@@ -134,6 +135,21 @@ describe('NoteExporter', () => {
 			expect(content).toContain('This is a test episode about testing');
 		});
 
+		it('should convert HTML show notes to markdown', async () => {
+			const episode = {
+				...sampleEpisode,
+				description: '<p>Topics:</p><ul><li>05:30 <a href="https://example.com">Intro</a></li></ul>',
+			};
+
+			await exporter.exportEpisode(episode, samplePodcast, undefined, {
+				includeDescription: true,
+			});
+
+			const content = (mockVault.create as jest.Mock).mock.calls[0][1];
+			expect(content).toContain('Topics:\n\n- [05:30](podcast://ep-123?t=330) [Intro](https://example.com)');
+			expect(content).not.toContain('<p>');
+		});
+
 		it('should include metadata section when requested', async () => {
 			await exporter.exportEpisode(sampleEpisode, samplePodcast, undefined, {
 				includeMetadata: true,
@@ -335,6 +351,136 @@ describe('NoteExporter', () => {
 			// formatDuration mock returns "0h 30m" format
 			expect(content).toContain('Progress: 0h 30m (50%)');
 		});
+
+		it('should render chapters and categories', async () => {
+			const template = [
+				'{{#each tags}}#{{this}} {{/each}}',
+				'{{#each chapters}}',
+				'- {{link}} {{title}}',
+				'{{/each}}',
+			].join('\n');
+
+			await exporter.exportEpisode(
+				{
+					...sampleEpisode,
+					chapters: [
+						{ title: 'Intro', startTime: 0 },
+						{ title: 'Main Topic', startTime: 90 },
+					],
+				},
+				{ ...samplePodcast, categories: ['Science & Medicine', 'Tech'] },
+				undefined,
+				{ template }
+			);
+
+			const content = (mockVault.create as jest.Mock).mock.calls[0][1];
+			expect(content).toContain('#science-and-medicine #tech');
+			expect(content).toContain('- [0:00](podcast://ep-123?t=0) Intro\n- [1:30](podcast://ep-123?t=90) Main Topic');
+		});
+
+		it('should keep timestamps from a previous export', async () => {
+			const existingFile = Object.create(TFile.prototype);
+			existingFile.path = 'Podcasts/note.md';
+			mockVault.getAbstractFileByPath.mockReturnValue(existingFile);
+			(mockVault as any).read = jest.fn().mockResolvedValue([
+				'- [0:00](podcast://ep-123?t=0) Intro',
+				'- [2:05](podcast://ep-123?t=125) Great point',
+				'- [2:05](podcast://ep-123?t=125) Great point',
+			].join('\n'));
+
+			const template = '{{#each timestamps}}{{time}}={{text}};{{/each}}';
+
+			await exporter.exportEpisode(
+				{ ...sampleEpisode, chapters: [{ title: 'Intro', startTime: 0 }] },
+				samplePodcast,
+				undefined,
+				{ template }
+			);
+
+			expect(mockVault.modify).toHaveBeenCalledWith(existingFile, '2:05=Great point;');
+		});
+	});
+
+	describe('template files', () => {
+		it('should load the template from the vault', async () => {
+			const templateFile = Object.create(TFile.prototype);
+			templateFile.path = 'Templates/Episode.md';
+			mockVault.getAbstractFileByPath.mockImplementation((path: string) =>
+				path === 'Templates/Episode.md' ? templateFile : null
+			);
+			(mockVault as any).read = jest.fn().mockResolvedValue('# {{episodeTitle | upper}}');
+
+			await exporter.exportEpisode(sampleEpisode, samplePodcast, undefined, {
+				templateFile: 'Templates/Episode',
+			});
+
+			expect((mockVault as any).read).toHaveBeenCalledWith(templateFile);
+			const content = (mockVault.create as jest.Mock).mock.calls[0][1];
+			expect(content).toBe('# EPISODE 1: INTRODUCTION');
+		});
+
+		it('should prefer an inline template', async () => {
+			await exporter.exportEpisode(sampleEpisode, samplePodcast, undefined, {
+				template: '{{podcastTitle}}',
+				templateFile: 'Templates/Episode.md',
+			});
+
+			const content = (mockVault.create as jest.Mock).mock.calls[0][1];
+			expect(content).toBe('Test Podcast');
+		});
+
+		it('should fail when the template file is missing', async () => {
+			await expect(
+				exporter.exportEpisode(sampleEpisode, samplePodcast, undefined, {
+					templateFile: 'Templates/Missing.md',
+				})
+			).rejects.toThrow('Template file not found: Templates/Missing.md');
+
+			expect(mockVault.create).not.toHaveBeenCalled();
+		});
+
+		it('should run Templater commands before filling in the variables', async () => {
+			const runner = jest.fn().mockResolvedValue(undefined);
+			exporter.setTemplaterRunner(runner);
+			const note = Object.create(TFile.prototype);
+			mockVault.create.mockImplementation(async () => {
+				mockVault.getAbstractFileByPath.mockReturnValue(note);
+				return note;
+			});
+			(mockVault as any).read = jest.fn().mockResolvedValue('2024-06-01 {{podcastTitle}}');
+
+			const file = await exporter.exportEpisode(sampleEpisode, samplePodcast, undefined, {
+				template: '<% tp.date.now() %> {{podcastTitle}}',
+			});
+
+			expect(mockVault.create).toHaveBeenCalledWith(expect.any(String), '<% tp.date.now() %> {{podcastTitle}}');
+			expect(runner).toHaveBeenCalledWith(note);
+			expect(mockVault.modify).toHaveBeenCalledWith(note, '2024-06-01 Test Podcast');
+			expect(file).toBe(note);
+		});
+
+		it('should never run Templater commands from feed values', async () => {
+			const runner = jest.fn().mockResolvedValue(undefined);
+			exporter.setTemplaterRunner(runner);
+			const episode = { ...sampleEpisode, title: "<%* require('child_process').exec('calc') %>" };
+
+			await exporter.exportEpisode(episode, samplePodcast, undefined, {
+				template: '# {{episodeTitle}}',
+			});
+
+			expect(runner).not.toHaveBeenCalled();
+		});
+
+		it('should not run Templater without commands in the template', async () => {
+			const runner = jest.fn().mockResolvedValue(undefined);
+			exporter.setTemplaterRunner(runner);
+
+			await exporter.exportEpisode(sampleEpisode, samplePodcast, undefined, {
+				template: '{{podcastTitle}}',
+			});
+
+			expect(runner).not.toHaveBeenCalled();
+		});
 	});
 
 	describe('exportEpisodes', () => {
@@ -496,4 +642,97 @@ describe('NoteExporter', () => {
 			expect(content).not.toContain('**Type:**');
 		});
 	});
+
+	describe('episode note timestamps', () => {
+		const options = { style: 'link' as const };
+
+		it('should return an existing episode note without exporting', async () => {
+			const existing = Object.create(TFile.prototype);
+			mockVault.getAbstractFileByPath.mockReturnValue(existing);
+
+			const file = await exporter.getOrCreateEpisodeNote(sampleEpisode, samplePodcast);
+
+			expect(file).toBe(existing);
+			expect(mockVault.getAbstractFileByPath).toHaveBeenCalledWith('Podcasts/Test Podcast - Episode 1- Introduction.md');
+			expect(mockVault.create).not.toHaveBeenCalled();
+		});
+
+		it('should export the episode when it has no note', async () => {
+			const file = await exporter.getOrCreateEpisodeNote(sampleEpisode, samplePodcast);
+
+			expect(file).toBe(mockFile);
+			expect(mockVault.create).toHaveBeenCalledWith(
+				'Podcasts/Test Podcast - Episode 1- Introduction.md',
+				expect.stringContaining('## Timestamps')
+			);
+		});
+
+		it('should add a table after the placeholder of the default note', () => {
+			const content = '## Timestamps\n\n<!-- Add your timestamps here -->\n\n## Notes\n';
+
+			expect(NoteExporter.addTimestampRow(content, sampleEpisode, 90.7, 'Key point', options)).toBe(
+				'## Timestamps\n\n<!-- Add your timestamps here -->\n\n' +
+				'| Time | Note | Speaker |\n|------|------|---------|\n' +
+				'| [1:30](podcast://ep-123?t=90) | Key point | - |\n\n## Notes\n'
+			);
+		});
+
+		it('should append rows to an existing table', () => {
+			const content = '## Timestamps\n\n| Time | Note | Speaker |\n|------|------|---------|\n| [1:30] | First | - |\n\n## Notes';
+
+			const result = NoteExporter.addTimestampRow(content, sampleEpisode, 200, 'Second', options);
+
+			expect(result).toBe(
+				'## Timestamps\n\n| Time | Note | Speaker |\n|------|------|---------|\n| [1:30] | First | - |\n' +
+				'| [3:20](podcast://ep-123?t=200) | Second | - |\n\n## Notes'
+			);
+		});
+
+		it('should add the section to notes without one and escape table cells', () => {
+			const result = NoteExporter.addTimestampRow('# Episode', sampleEpisode, 5, 'a | b\nc', options);
+
+			expect(result).toBe(
+				'# Episode\n\n## Timestamps\n\n| Time | Note | Speaker |\n|------|------|---------|\n' +
+				'| [0:05](podcast://ep-123?t=5) | a \\| b<br>c | - |\n'
+			);
+		});
+
+		it('should write the row to the note', async () => {
+			const file = Object.create(TFile.prototype);
+			(mockVault as any).read = jest.fn().mockResolvedValue('# Episode');
+
+			await exporter.addTimestampNote(file, sampleEpisode, 5, 'Note', options);
+
+			expect(mockVault.modify).toHaveBeenCalledWith(file, expect.stringContaining('| [0:05](podcast://ep-123?t=5) | Note | - |'));
+		});
+
+		it('should keep the timestamps section when exporting the episode again', async () => {
+			const existing = Object.create(TFile.prototype);
+			mockVault.getAbstractFileByPath.mockReturnValue(existing);
+			(mockVault as any).read = jest.fn().mockResolvedValue(
+				'# Old\n\n## Timestamps\n\n| Time | Note | Speaker |\n|------|------|---------|\n| [1:30] | Kept | - |\n\n## Notes\n'
+			);
+
+			await exporter.exportEpisode(sampleEpisode, samplePodcast);
+
+			const content = (mockVault.modify as jest.Mock).mock.calls[0][1];
+			expect(content).toContain('## Timestamps\n\n| Time | Note | Speaker |\n|------|------|---------|\n| [1:30] | Kept | - |\n');
+			expect(content).not.toContain('<!-- Add your timestamps here -->');
+			expect(content).toContain('# Episode 1: Introduction');
+		});
+
+		it('should read the notes of table rows for templates', async () => {
+			const existing = Object.create(TFile.prototype);
+			mockVault.getAbstractFileByPath.mockReturnValue(existing);
+			(mockVault as any).read = jest.fn().mockResolvedValue(
+				'| Time | Note | Speaker |\n|------|------|---------|\n| [1:30](podcast://ep-123?t=90) | Kept \\| too | - |'
+			);
+
+			await exporter.exportEpisode(sampleEpisode, samplePodcast, undefined, {
+				template: '{{#each timestamps}}{{time}} {{text}}{{/each}}',
+			});
+
+			expect((mockVault.modify as jest.Mock).mock.calls[0][1]).toBe('1:30 Kept | too');
+		});
+	});
 });
@@ -0,0 +1,149 @@
+/**
+ * Unit tests for PodcastBlock
+ */
+
+import { PodcastBlockResolver } from '../PodcastBlock';
+import { Episode, Podcast } from '../../model';
+
+// Mock logger
+jest.mock('../../utils/Logger', () => ({
+	logger: {
+		methodEntry: jest.fn(),
+		methodExit: jest.fn(),
+		debug: jest.fn(),
+		info: jest.fn(),
+		warn: jest.fn(),
+		error: jest.fn(),
+	},
+}));
+
+describe('PodcastBlockResolver', () => {
+	const olderEpisode: Episode = {
+		id: 'ep-1',
+		podcastId: 'podcast-1',
+		guid: 'guid-1',
+		title: 'First Episode',
+		description: '',
+		audioUrl: 'https://example.com/1.mp3',
+		duration: 1800,
+		publishDate: new Date('2024-01-01'),
+	};
+
+	const newerEpisode: Episode = {
+		...olderEpisode,
+		id: 'ep-2',
+		guid: 'guid-2',
+		title: 'Second Episode',
+		audioUrl: 'https://example.com/2.mp3',
+		publishDate: new Date('2024-02-01'),
+	};
+
+	const podcast: Podcast = {
+		id: 'podcast-1',
+		title: 'Test Podcast',
+		author: 'Tester',
+		description: '',
+		feedUrl: 'https://example.com/feed.xml',
+		imageUrl: 'https://example.com/art.png',
+		subscribedAt: new Date('2024-01-01'),
+		episodes: [olderEpisode, newerEpisode],
+	};
+
+	let mockSubscriptionStore: { getAllPodcasts: jest.Mock };
+	let mockProgressStore: { getProgress: jest.Mock };
+	let mockFeedService: { fetchFeed: jest.Mock };
+	let resolver: PodcastBlockResolver;
+
+	beforeEach(() => {
+		mockSubscriptionStore = { getAllPodcasts: jest.fn().mockResolvedValue([podcast]) };
+		mockProgressStore = { getProgress: jest.fn().mockResolvedValue(null) };
+		mockFeedService = { fetchFeed: jest.fn() };
+		resolver = new PodcastBlockResolver(
+			mockSubscriptionStore as any,
+			mockProgressStore as any,
+			mockFeedService as any
+		);
+	});
+
+	describe('parseSource', () => {
+		it('should parse keys and timestamps', () => {
+			const { options, errors } = PodcastBlockResolver.parseSource(
+				'# my favourite bit\nepisode: ep-1\nFeed: Test Podcast\nstart: 1:30\nend: 2:00\n'
+			);
+
+			expect(errors).toEqual([]);
+			expect(options).toEqual({ episode: 'ep-1', feed: 'Test Podcast', start: 90, end: 120 });
+		});
+
+		it('should take the start time from podcast:// links', () => {
+			const { options, errors } = PodcastBlockResolver.parseSource('episode: podcast://ep-1?t=45');
+
+			expect(errors).toEqual([]);
+			expect(options).toEqual({ episode: 'ep-1', start: 45 });
+		});
+
+		it('should report unknown keys and invalid times', () => {
+			const { errors } = PodcastBlockResolver.parseSource('episode: ep-1\nspeed: 2\nstart: soon\nnonsense');
+
+			expect(errors).toEqual([
+				'Unknown key "speed"',
+				'Invalid start time "soon"',
+				'Expected "key: value", got "nonsense"',
+			]);
+		});
+
+		it('should require an episode or feed', () => {
+			expect(PodcastBlockResolver.parseSource('start: 10').errors).toEqual(['Add an "episode" or "feed" line']);
+		});
+
+		it('should reject an end before the start', () => {
+			const { errors } = PodcastBlockResolver.parseSource('episode: ep-1\nstart: 2:00\nend: 1:00');
+
+			expect(errors).toEqual(['"end" must be after "start"']);
+		});
+	});
+
+	describe('resolve', () => {
+		it('should find an episode by ID across subscriptions', async () => {
+			mockProgressStore.getProgress.mockResolvedValue({ episodeId: 'ep-1', position: 60 });
+
+			const result = await resolver.resolve({ episode: 'ep-1' });
+
+			expect(result.episode).toBe(olderEpisode);
+			expect(result.podcast).toBe(podcast);
+			expect(result.progress).toEqual({ episodeId: 'ep-1', position: 60 });
+		});
+
+		it('should find an episode by title within a feed', async () => {
+			const result = await resolver.resolve({ feed: 'test podcast', episode: 'second episode' });
+
+			expect(result.episode).toBe(newerEpisode);
+		});
+
+		it('should use the latest episode when only a feed is given', async () => {
+			const result = await resolver.resolve({ feed: 'https://example.com/feed.xml' });
+
+			expect(result.episode).toBe(newerEpisode);
+			expect(mockFeedService.fetchFeed).not.toHaveBeenCalled();
+		});
+
+		it('should fetch feeds that are not subscribed', async () => {
+			const other = { ...podcast, id: 'podcast-2', feedUrl: 'https://other.com/feed.xml' };
+			mockFeedService.fetchFeed.mockResolvedValue({ podcast: other, episodes: [olderEpisode] });
+
+			const result = await resolver.resolve({ feed: 'https://other.com/feed.xml' });
+
+			expect(mockFeedService.fetchFeed).toHaveBeenCalledWith('https://other.com/feed.xml');
+			expect(result.podcast).toBe(other);
+			expect(result.episode).toBe(olderEpisode);
+		});
+
+		it('should throw when the podcast is unknown', async () => {
+			await expect(resolver.resolve({ feed: 'Unknown Show' })).rejects.toThrow('Podcast not found: Unknown Show');
+		});
+
+		it('should throw when the episode is unknown', async () => {
+			await expect(resolver.resolve({ episode: 'ep-404' })).rejects.toThrow('Episode not found: ep-404');
+		});
+	});
+});
@@ -0,0 +1,147 @@
+/**
+ * Unit tests for ShowNotesConverter
+ */
+
+import { ShowNotesConverter } from '../ShowNotesConverter';
+
+// Mock logger
+jest.mock('../../utils/Logger', () => ({
+	logger: {
+		methodEntry: jest.fn(),
+		methodExit: jest.fn(),
+		debug: jest.fn(),
+		info: jest.fn(),
+		warn: jest.fn(),
+		error: jest.fn(),
+	},
+}));
+
+describe('ShowNotesConverter', () => {
+	describe('toMarkdown', () => {
+		it('should return an empty string for empty input', () => {
+			expect(ShowNotesConverter.toMarkdown('')).toBe('');
+			expect(ShowNotesConverter.toMarkdown('  \n ')).toBe('');
+		});
+
+		it('should convert paragraphs and line breaks', () => {
+			const html = '<p>First   paragraph</p>\n<p>Second<br/>line</p><div>Third</div>';
+
+			expect(ShowNotesConverter.toMarkdown(html)).toBe('First paragraph\n\nSecond\nline\n\nThird');
+		});
+
+		it('should keep line breaks of plain text descriptions', () => {
+			expect(ShowNotesConverter.toMarkdown('Line one\nLine two\n\nNext paragraph'))
+				.toBe('Line one\nLine two\n\nNext paragraph');
+		});
+
+		it('should convert headings and inline formatting', () => {
+			const html = '<h2>Topics</h2><p>This is <strong>bold</strong>, <em>italic </em>and <code>code</code>.</p>';
+
+			expect(ShowNotesConverter.toMarkdown(html)).toBe('## Topics\n\nThis is **bold**, *italic* and `code`.');
+		});
+
+		it('should convert links and drop unsafe ones', () => {
+			const html = [
+				'<a href="https://example.com/a (1)">Site</a>',
+				'<a href="javascript:alert(1)">Click</a>',
+				'<a href="https://example.com">https://example.com</a>',
+			].join(' ');
+
+			expect(ShowNotesConverter.toMarkdown(html))
+				.toBe('[Site](https://example.com/a%20%281%29) Click https://example.com');
+		});
+
+		it('should drop obsidian links', () => {
+			const html = '<a href="obsidian://advanced-uri?vault=v&amp;commandid=editor%3Adelete">Open</a>';
+
+			expect(ShowNotesConverter.toMarkdown(html)).toBe('Open');
+		});
+
+		it('should convert images with http sources only', () => {
+			const html = '<img src="https://example.com/a.png" alt="Cover [art]"><img src="data:image/png;base64,xyz">';
+
+			expect(ShowNotesConverter.toMarkdown(html)).toBe('![Cover \\[art\\]](https://example.com/a.png)');
+		});
+
+		it('should convert ordered, unordered and nested lists', () => {
+			const html = '<ul><li>One<ul><li>Nested</li></ul></li><li>Two</li></ul><ol start="3"><li>Three<li>Four</ol>';
+
+			expect(ShowNotesConverter.toMarkdown(html)).toBe('- One\n\t- Nested\n- Two\n\n3. Three\n4. Four');
+		});
+
+		it('should convert blockquotes and preformatted text', () => {
+			const html = '<blockquote><p>Quoted</p><p>Text</p></blockquote><pre><code>  indented\n    code</code></pre>';
+
+			expect(ShowNotesConverter.toMarkdown(html)).toBe('> Quoted\n>\n> Text\n\n```\n  indented\n    code\n```');
+		});
+
+		it('should fence preformatted text longer than the fences inside it', () => {
+			const html = '<pre>~~~\n```dataviewjs\ndv.paragraph(1)\n```\n````</pre>';
+
+			expect(ShowNotesConverter.toMarkdown(html))
+				.toBe('`````\n~~~\n```dataviewjs\ndv.paragraph(1)\n```\n````\n`````');
+		});
+
+		it('should fence inline code longer than the backticks inside it', () => {
+			expect(ShowNotesConverter.toMarkdown('<code>a `` b</code>')).toBe('```a `` b```');
+			expect(ShowNotesConverter.toMarkdown('<code>`x`</code>')).toBe('`` `x` ``');
+		});
+
+		it('should drop scripts, styles, embeds and comments', () => {
+			const html = '<p>Keep</p><script>if (a < b) { alert("x"); }</script><style>p { color: red; }</style>'
+				+ '<iframe src="https://example.com"><p>Fallback</p></iframe><!-- comment --><p>This</p>';
+
+			expect(ShowNotesConverter.toMarkdown(html)).toBe('Keep\n\nThis');
+		});
+
+		it('should decode entities and escape markdown characters', () => {
+			const html = '<p>Tom &amp; Jerry &lt;3 *stars* $5 #hashtag &#8212; a_b &quot;quoted&quot;</p>';
+
+			expect(ShowNotesConverter.toMarkdown(html))
+				.toBe('Tom & Jerry \\<3 \\*stars\\* \\$5 \\#hashtag — a\\_b "quoted"');
+		});
+
+		it('should escape list markers at the start of a block', () => {
+			expect(ShowNotesConverter.toMarkdown('<p>- not a list</p><p>1. not a list either</p>'))
+				.toBe('\\- not a list\n\n1\\. not a list either');
+		});
+
+		it('should leave bare URLs clickable', () => {
+			expect(ShowNotesConverter.toMarkdown('<p>See https://example.com/some_page.</p>'))
+				.toBe('See https://example.com/some_page.');
+		});
+
+		it('should tolerate malformed markup', () => {
+			expect(ShowNotesConverter.toMarkdown('<p>One<p>Two</span><b>Three')).toBe('One\n\nTwo**Three**');
+		});
+	});
+
+	describe('timestamps', () => {
+		it('should link timestamps when an episode is given', () => {
+			const html = '<p>00:00 Intro<br>12:34 Main topic<br>1:02:03 Outro</p>';
+
+			expect(ShowNotesConverter.toMarkdown(html, { episodeId: 'ep-1' })).toBe([
+				'[00:00](podcast://ep-1?t=0) Intro',
+				'[12:34](podcast://ep-1?t=754) Main topic',
+				'[1:02:03](podcast://ep-1?t=3723) Outro',
+			].join('\n'));
+		});
+
+		it('should keep timestamps as text without an episode', () => {
+			expect(ShowNotesConverter.toMarkdown('<p>12:34 Main topic</p>')).toBe('12:34 Main topic');
+		});
+
+		it('should not link clock times, invalid times or times inside links', () => {
+			const html = '<p>Live at 10:30 am, score 3:75, <a href="https://example.com">at 5:00</a></p>';
+
+			expect(ShowNotesConverter.toMarkdown(html, { episodeId: 'ep-1' }))
+				.toBe('Live at 10:30 am, score 3:75, [at 5:00](https://example.com)');
+		});
+	});
+
+	describe('decodeEntities', () => {
+		it('should decode named and numeric references', () => {
+			expect(ShowNotesConverter.decodeEntities('&hellip;&#x263A;&#65;&unknown;')).toBe('…☺A&unknown;');
+		});
+	});
+});
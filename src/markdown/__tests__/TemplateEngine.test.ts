@@ -0,0 +1,135 @@
+/**
+ * Unit tests for TemplateEngine
+ */
+
+import moment from 'moment';
+import { TemplateEngine } from '../TemplateEngine';
+
+// Mock logger
+jest.mock('../../utils/Logger', () => ({
+	logger: {
+		methodEntry: jest.fn(),
+		methodExit: jest.fn(),
+		debug: jest.fn(),
+		info: jest.fn(),
+		warn: jest.fn(),
+		error: jest.fn(),
+	},
+}));
+
+describe('TemplateEngine', () => {
+	beforeAll(() => {
+		(global as any).window = { moment };
+	});
+
+	afterAll(() => {
+		delete (global as any).window;
+	});
+
+	describe('variables', () => {
+		it('should replace variables and dotted paths', () => {
+			const result = TemplateEngine.render('{{title}} by {{podcast.author}}', {
+				title: 'Episode 1',
+				podcast: { author: 'Alice' },
+			});
+
+			expect(result).toBe('Episode 1 by Alice');
+		});
+
+		it('should leave variables without a value as written', () => {
+			expect(TemplateEngine.render('[{{missing}}][{{ empty }}]', { empty: null })).toBe('[{{missing}}][{{ empty }}]');
+		});
+
+		it('should let filters replace variables without a value', () => {
+			expect(TemplateEngine.render('[{{missing | default:"-"}}]', {})).toBe('[-]');
+		});
+
+		it('should keep Templater commands', () => {
+			expect(TemplateEngine.render('<% tp.file.title %> {{title}}', { title: 'Hi' })).toBe('<% tp.file.title %> Hi');
+		});
+
+		it('should join lists', () => {
+			expect(TemplateEngine.render('{{tags}}', { tags: ['a', 'b'] })).toBe('a, b');
+		});
+	});
+
+	describe('filters', () => {
+		it('should format dates', () => {
+			const result = TemplateEngine.render('{{published | date:"YYYY/MM/DD"}}', {
+				published: new Date(2024, 0, 15),
+			});
+
+			expect(result).toBe('2024/01/15');
+		});
+
+		it('should chain default, upper, lower and join', () => {
+			const context = { name: '', tags: ['news', 'tech'] };
+
+			expect(TemplateEngine.render('{{name | default:"n/a" | upper}}', context)).toBe('N/A');
+			expect(TemplateEngine.render('{{tags | join:" #" | lower}}', context)).toBe('news #tech');
+		});
+
+		it('should ignore unknown filters', () => {
+			expect(TemplateEngine.render('{{title | shout}}', { title: 'Hi' })).toBe('Hi');
+		});
+	});
+
+	describe('conditionals', () => {
+		it('should render the matching branch', () => {
+			const template = '{{#if completed}}Done{{else}}In progress{{/if}}';
+
+			expect(TemplateEngine.render(template, { completed: true })).toBe('Done');
+			expect(TemplateEngine.render(template, { completed: false })).toBe('In progress');
+		});
+
+		it('should treat empty lists as false', () => {
+			expect(TemplateEngine.render('{{#if chapters}}yes{{else}}no{{/if}}', { chapters: [] })).toBe('no');
+		});
+	});
+
+	describe('loops', () => {
+		it('should render each item with its fields and index', () => {
+			const template = [
+				'## Chapters',
+				'{{#each chapters}}',
+				'{{@number}}. {{time}} {{title}} ({{podcast}})',
+				'{{/each}}',
+				'',
+			].join('\n');
+
+			const result = TemplateEngine.render(template, {
+				podcast: 'Show',
+				chapters: [
+					{ time: '0:00', title: 'Intro' },
+					{ time: '5:00', title: 'Main' },
+				],
+			});
+
+			expect(result).toBe('## Chapters\n1. 0:00 Intro (Show)\n2. 5:00 Main (Show)\n');
+		});
+
+		it('should render the else branch for empty lists', () => {
+			expect(TemplateEngine.render('{{#each items}}{{this}}{{else}}none{{/each}}', { items: [] })).toBe('none');
+		});
+
+		it('should support nested blocks', () => {
+			const template = '{{#each items}}{{#if done}}[x]{{else}}[ ]{{/if}} {{this.name}};{{/each}}';
+
+			const result = TemplateEngine.render(template, {
+				items: [{ name: 'a', done: true }, { name: 'b', done: false }],
+			});
+
+			expect(result).toBe('[x] a;[ ] b;');
+		});
+	});
+
+	describe('malformed templates', () => {
+		it('should keep stray closing tags as text', () => {
+			expect(TemplateEngine.render('a{{/if}}b', {})).toBe('a{{/if}}b');
+		});
+
+		it('should close unclosed blocks at the end', () => {
+			expect(TemplateEngine.render('{{#if on}}text', { on: true })).toBe('text');
+		});
+	});
+});
@@ -141,6 +141,20 @@ describe('TimestampFormatter', () => {
 		});
 	});
 
+	describe('formatQuote', () => {
+		it('should quote text with speaker and timestamp link', () => {
+			const result = TimestampFormatter.formatQuote('Hello there.', 90.7, sampleEpisode, 'Alice');
+
+			expect(result).toBe('> Hello there.\n> — Alice, Test Episode [1:30](podcast://ep-123?t=90)');
+		});
+
+		it('should quote every line and omit a missing speaker', () => {
+			const result = TimestampFormatter.formatQuote('One\nTwo', 5, sampleEpisode);
+
+			expect(result).toBe('> One\n> Two\n> — Test Episode [0:05](podcast://ep-123?t=5)');
+		});
+	});
+
 	describe('formatTimestamps', () => {
 		it('should format multiple timestamps', () => {
 			const timestamps = [
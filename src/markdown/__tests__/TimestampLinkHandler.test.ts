@@ -0,0 +1,159 @@
+/**
+ * Unit tests for TimestampLinkHandler
+ */
+
+import { TimestampLinkHandler } from '../TimestampLinkHandler';
+import { PlayerController } from '../../player/PlayerController';
+import { EpisodeManager } from '../../podcast/EpisodeManager';
+import { Episode } from '../../model';
+
+// Mock logger
+jest.mock('../../utils/Logger', () => ({
+	logger: {
+		methodEntry: jest.fn(),
+		methodExit: jest.fn(),
+		debug: jest.fn(),
+		info: jest.fn(),
+		warn: jest.fn(),
+		error: jest.fn(),
+	},
+}));
+
+describe('TimestampLinkHandler', () => {
+	const sampleEpisode: Episode = {
+		id: 'ep-123',
+		podcastId: 'podcast-456',
+		title: 'Test Episode',
+		description: 'Test Description',
+		audioUrl: 'https://example.com/episode.mp3',
+		duration: 3600,
+		publishDate: new Date('2024-01-01'),
+	};
+
+	let handler: TimestampLinkHandler;
+	let mockPlayerController: jest.Mocked<PlayerController>;
+	let mockEpisodeManager: jest.Mocked<EpisodeManager>;
+
+	beforeEach(() => {
+		mockPlayerController = {
+			getCurrentEpisode: jest.fn().mockReturnValue(null),
+			loadEpisode: jest.fn().mockResolvedValue(undefined),
+			seek: jest.fn(),
+			isPlaying: jest.fn().mockReturnValue(false),
+			play: jest.fn().mockResolvedValue(undefined),
+		} as any;
+
+		mockEpisodeManager = {
+			getEpisodeWithProgress: jest.fn().mockResolvedValue(sampleEpisode),
+		} as any;
+
+		handler = new TimestampLinkHandler(mockPlayerController, mockEpisodeManager);
+	});
+
+	describe('parseLink', () => {
+		it('should parse episode id and seconds', () => {
+			expect(TimestampLinkHandler.parseLink('podcast://ep-123?t=90')).toEqual({
+				episodeId: 'ep-123',
+				seconds: 90,
+			});
+		});
+
+		it('should default to zero seconds when t is missing', () => {
+			expect(TimestampLinkHandler.parseLink('podcast://ep-123')).toEqual({
+				episodeId: 'ep-123',
+				seconds: 0,
+			});
+		});
+
+		it('should accept HH:MM:SS positions', () => {
+			expect(TimestampLinkHandler.parseLink('podcast://ep-123?t=1:01:30')?.seconds).toBe(3690);
+		});
+
+		it('should decode encoded episode ids', () => {
+			expect(TimestampLinkHandler.parseLink('podcast://ep%20123?t=5')?.episodeId).toBe('ep 123');
+		});
+
+		it('should reject other schemes and unknown episodes', () => {
+			expect(TimestampLinkHandler.parseLink('https://example.com')).toBeNull();
+			expect(TimestampLinkHandler.parseLink('podcast://unknown?t=10')).toBeNull();
+			expect(TimestampLinkHandler.parseLink('podcast://?t=10')).toBeNull();
+		});
+	});
+
+	describe('parseProtocolParams', () => {
+		it('should read episode and t parameters', () => {
+			expect(TimestampLinkHandler.parseProtocolParams({
+				action: 'podcast-player',
+				episode: 'ep-123',
+				t: '42',
+			})).toEqual({ episodeId: 'ep-123', seconds: 42 });
+		});
+
+		it('should return null without an episode', () => {
+			expect(TimestampLinkHandler.parseProtocolParams({ action: 'podcast-player', t: '42' })).toBeNull();
+		});
+	});
+
+	describe('createProtocolUri', () => {
+		it('should build a round-trippable uri', () => {
+			expect(TimestampLinkHandler.createProtocolUri('ep 123', 90.7))
+				.toBe('obsidian://podcast-player?episode=ep%20123&t=90');
+		});
+	});
+
+	describe('findLinkAt', () => {
+		const line = 'See [1:30](podcast://ep-123?t=90) and [2:00](podcast://ep-456?t=120)';
+
+		it('should find the link covering the offset', () => {
+			expect(TimestampLinkHandler.findLinkAt(line, 6)?.episodeId).toBe('ep-123');
+			expect(TimestampLinkHandler.findLinkAt(line, line.length - 2)?.episodeId).toBe('ep-456');
+		});
+
+		it('should return null outside of links', () => {
+			expect(TimestampLinkHandler.findLinkAt(line, 0)).toBeNull();
+		});
+	});
+
+	describe('seekTo', () => {
+		it('should load the episode without resuming and seek', async () => {
+			const result = await handler.seekTo({ episodeId: 'ep-123', seconds: 90 });
+
+			expect(result).toBe(true);
+			expect(mockEpisodeManager.getEpisodeWithProgress).toHaveBeenCalledWith('ep-123');
+			expect(mockPlayerController.loadEpisode).toHaveBeenCalledWith(sampleEpisode, false, false);
+			expect(mockPlayerController.seek).toHaveBeenCalledWith(90);
+			expect(mockPlayerController.play).toHaveBeenCalled();
+		});
+
+		it('should only seek when the episode is already loaded', async () => {
+			mockPlayerController.getCurrentEpisode.mockReturnValue(sampleEpisode);
+			mockPlayerController.isPlaying.mockReturnValue(true);
+
+			await handler.seekTo({ episodeId: 'ep-123', seconds: 30 });
+
+			expect(mockPlayerController.loadEpisode).not.toHaveBeenCalled();
+			expect(mockPlayerController.seek).toHaveBeenCalledWith(30);
+			expect(mockPlayerController.play).not.toHaveBeenCalled();
+		});
+
+		it('should return false when the episode cannot be found', async () => {
+			mockEpisodeManager.getEpisodeWithProgress.mockResolvedValue(null);
+
+			const result = await handler.seekTo({ episodeId: 'missing', seconds: 10 });
+
+			expect(result).toBe(false);
+			expect(mockPlayerController.seek).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('openLink', () => {
+		it('should return false for invalid links', async () => {
+			expect(await handler.openLink('podcast://unknown?t=1')).toBe(false);
+		});
+
+		it('should seek for valid links', async () => {
+			expect(await handler.openLink('podcast://ep-123?t=12')).toBe(true);
+			expect(mockPlayerController.seek).toHaveBeenCalledWith(12);
+		});
+	});
+});
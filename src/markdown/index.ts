@@ -5,6 +5,8 @@
  * - Timestamp formatting for notes
  * - Episode note export
  * - Template system
+ * - Show notes conversion
+ * - Daily note editing
  */
 
 // Export timestamp formatter
@@ -19,4 +21,39 @@ export {
 	NoteExporter,
 	type NoteExportOptions,
 	type TemplateVariables,
+	type TemplateChapter,
+	type TemplateTimestamp,
+	type TemplaterRunner,
 } from './NoteExporter';
+
+// Export template engine
+export {
+	TemplateEngine,
+	type TemplateValue,
+	type TemplateContext,
+} from './TemplateEngine';
+
+// Export show notes converter
+export {
+	ShowNotesConverter,
+	type ShowNotesOptions,
+} from './ShowNotesConverter';
+
+// Export timestamp link handler
+export {
+	TimestampLinkHandler,
+	TIMESTAMP_LINK_SCHEME,
+	TIMESTAMP_PROTOCOL_ACTION,
+	type TimestampLinkTarget,
+} from './TimestampLinkHandler';
+
+// Export podcast code block resolver
+export {
+	PodcastBlockResolver,
+	PODCAST_CODE_BLOCK_LANGUAGE,
+	type PodcastBlockOptions,
+	type ResolvedPodcastBlock,
+} from './PodcastBlock';
+
+// Export daily note service
+export { DailyNoteService } from './DailyNoteService';
@@ -18,6 +18,14 @@ export interface PodcastSettings {
 	skipIntroSeconds: number;
 	/** Number of seconds to skip at the end of each episode */
 	skipOutroSeconds?: number;
+	/** Vault path of the episode note template (empty = global template) */
+	noteTemplatePath?: string;
+	/** Show notifications for new episodes of this podcast (default: true) */
+	notifyNewEpisodes?: boolean;
+	/** Compress and level speech through Web Audio (default: false) */
+	voiceBoost?: boolean;
+	/** Fast-forward through silent stretches (default: false) */
+	skipSilence?: boolean;
 }
 
 /**
@@ -62,6 +70,44 @@ export interface Podcast {
 	autoAddRule?: AutoAddRule;
 	/** Episodes (may be loaded separately) */
 	episodes?: Episode[];
+	/** Outcome of the last feed update */
+	feedHealth?: FeedHealth;
+}
+
+/**
+ * Feed health status
+ * - ok: the last update succeeded
+ * - moved: the feed moved and was updated from its new URL
+ * - error: the last update failed; automatic retries back off while it keeps failing
+ * - gone: the feed was removed (HTTP 410), it is no longer synced automatically
+ */
+export type FeedHealthStatus = 'ok' | 'moved' | 'error' | 'gone';
+
+/**
+ * Outcome of the last feed update of a podcast, with the sync history needed for backoff
+ */
+export interface FeedHealth {
+	status: FeedHealthStatus;
+	/** When the feed was last checked */
+	checkedAt: Date;
+	/** When the feed last updated successfully */
+	lastSuccessAt?: Date;
+	/** Failed updates since the last success */
+	consecutiveFailures?: number;
+	/** Error message of the last failed update */
+	error?: string;
+	/** Error class of the last failed update (e.g. NetworkError, FeedParseError) */
+	errorType?: string;
+	/** HTTP status of the last failed update */
+	httpStatus?: number;
+	/** Duration of the last update in milliseconds */
+	responseTimeMs?: number;
+	/** Automatic syncs skip a failing feed until this time */
+	nextRetryAt?: Date;
+	/** Feed URL before the last move */
+	previousFeedUrl?: string;
+	/** When the feed last moved */
+	movedAt?: Date;
 }
 
 /**
@@ -96,6 +142,56 @@ export interface Episode {
 	mimeType?: string;
 	/** Episode GUID (from RSS feed) */
 	guid?: string;
+	/** Chapter markers (embedded in the feed or loaded from chaptersUrl) */
+	chapters?: Chapter[];
+	/** Podcasting 2.0 JSON chapters file URL */
+	chaptersUrl?: string;
+	/** Transcript files published for this episode */
+	transcripts?: TranscriptSource[];
+}
+
+/**
+ * Chapter - A named section of an episode
+ */
+export interface Chapter {
+	/** Chapter start in seconds */
+	startTime: number;
+	/** Chapter end in seconds (if known) */
+	endTime?: number;
+	/** Chapter title */
+	title: string;
+	/** Link associated with the chapter */
+	url?: string;
+	/** Chapter artwork URL */
+	imageUrl?: string;
+}
+
+/**
+ * Transcript Source - A transcript file linked from the feed (<podcast:transcript>)
+ */
+export interface TranscriptSource {
+	/** Transcript file URL */
+	url: string;
+	/** MIME type (e.g., 'text/vtt', 'application/x-subrip') */
+	type: string;
+	/** Language code (if available) */
+	language?: string;
+	/** Relationship (e.g., 'captions') */
+	rel?: string;
+}
+
+/**
+ * Transcript Cue - A timed segment of a transcript
+ */
+export interface TranscriptCue {
+	/** Cue start in seconds */
+	startTime: number;
+	/** Cue end in seconds */
+	endTime: number;
+	/** Spoken text */
+	text: string;
+	/** Speaker name (if available) */
+	speaker?: string;
 }
 
 /**
@@ -118,6 +214,112 @@ export interface PlayProgress {
 	playbackSpeed?: number;
 }
 
+/**
+ * Listening Session - One uninterrupted stretch of playback
+ * Recorded from play to pause, stop, speed change or episode change.
+ */
+export interface ListeningSession {
+	/** Episode ID */
+	episodeId: string;
+	/** Podcast ID */
+	podcastId: string;
+	/** When playback started */
+	startedAt: Date;
+	/** When playback stopped */
+	endedAt: Date;
+	/** Episode position at the start (seconds) */
+	startPosition: number;
+	/** Episode position at the end (seconds) */
+	endPosition: number;
+	/** Playback speed during the session */
+	playbackSpeed: number;
+}
+
+/**
+ * Captured Timestamp - A position noted while listening
+ */
+export interface CapturedTimestamp {
+	/** Episode ID */
+	episodeId: string;
+	/** Episode position (seconds) */
+	position: number;
+	/** When the timestamp was captured */
+	capturedAt: Date;
+}
+
+/**
+ * Download Status - State of a local episode download
+ */
+export type DownloadStatus = 'queued' | 'downloading' | 'done' | 'failed';
+
+/**
+ * Episode Download - Tracks a locally stored copy of an episode's audio
+ */
+export interface EpisodeDownload {
+	/** Episode ID */
+	episodeId: string;
+	/** Podcast ID */
+	podcastId: string;
+	/** Remote audio URL the download was taken from */
+	audioUrl: string;
+	/** Path of the downloaded file inside the data folder */
+	localPath: string;
+	/** Current download state */
+	status: DownloadStatus;
+	/** Bytes written so far */
+	bytesDownloaded: number;
+	/** Total size in bytes (once known) */
+	totalBytes?: number;
+	/** Number of chunks written, used to resume partial downloads */
+	chunksCompleted: number;
+	/** MIME type reported by the server */
+	mimeType?: string;
+	/** Error message (if status is 'failed') */
+	error?: string;
+	/** When the download was requested */
+	queuedAt: Date;
+	/** When the download finished */
+	completedAt?: Date;
+}
+
+/**
+ * Inbox Item - A newly synced episode waiting to be triaged
+ */
+export interface InboxItem {
+	/** Episode ID */
+	episodeId: string;
+	/** Podcast ID */
+	podcastId: string;
+	/** When the episode arrived in the inbox */
+	addedAt: Date;
+}
+
+/**
+ * Notification Record - Result of a feed sync kept in the notification history
+ */
+export interface NotificationRecord {
+	/** Unique identifier */
+	id: string;
+	/** When the sync finished */
+	createdAt: Date;
+	/** Whether the sync ran on the background schedule */
+	background: boolean;
+	/** Whether a notice was shown (false when disabled or during quiet hours) */
+	notified: boolean;
+	/** New episodes per podcast */
+	newEpisodes: Array<{
+		podcastId: string;
+		podcastTitle: string;
+		episodes: Array<{ id: string; title: string }>;
+	}>;
+	/** Feeds that failed to update */
+	failures: Array<{
+		podcastId: string;
+		podcastTitle: string;
+		error: string;
+	}>;
+}
+
 /**
  * Playlist - A user-created playlist of episodes
  */
@@ -136,6 +338,41 @@ export interface Playlist {
 	updatedAt: Date;
 	/** Cover image URL (optional) */
 	imageUrl?: string;
+	/** Rule of a smart playlist; episodeIds then holds its latest result */
+	smartRule?: SmartPlaylistRule;
+}
+
+/**
+ * Smart Playlist Filter - Episode conditions of a smart playlist
+ */
+export interface SmartPlaylistFilter {
+	/** Only episodes of these podcasts (empty or unset = all podcasts) */
+	podcastIds?: string[];
+	/** Filter by completion status */
+	completed?: boolean;
+	/** Filter by in-progress status */
+	inProgress?: boolean;
+	/** Only episodes published in the last N days */
+	publishedWithinDays?: number;
+	/** Filter by episode type */
+	episodeType?: 'full' | 'trailer' | 'bonus';
+	/** Filter by season number */
+	seasonNumber?: number;
+	/** Minimum duration in seconds */
+	minDuration?: number;
+	/** Maximum duration in seconds */
+	maxDuration?: number;
+}
+
+/**
+ * Smart Playlist Rule - Filter, sort order and limit of a smart playlist
+ */
+export interface SmartPlaylistRule {
+	filter: SmartPlaylistFilter;
+	sortBy: 'publishDate' | 'duration' | 'title' | 'episodeNumber' | 'lastPlayed';
+	sortOrder: 'asc' | 'desc';
+	/** Maximum number of episodes (unset = no limit) */
+	limit?: number;
 }
 
 /**
@@ -178,7 +415,7 @@ export interface PluginSettings {
 	autoDownload: boolean;
 	/** Maximum number of episodes to keep in cache */
 	maxCacheEpisodes: number;
-	/** Feed update interval in minutes */
+	/** Feed update interval in minutes (0 = no automatic updates) */
 	feedUpdateInterval: number;
 	/** Enable notifications */
 	enableNotifications: boolean;
@@ -190,6 +427,38 @@ export interface PluginSettings {
 	dailyNoteFolderPath: string;
 	/** Daily note date format */
 	dailyNoteDateFormat: string;
+	/** When listened episodes are logged to the daily note automatically */
+	dailyNoteJournal: 'off' | 'completed' | 'endOfDay';
+	/** Heading of the daily note section listened episodes are logged under */
+	dailyNoteJournalHeading: string;
+	/** Template of a logged episode line */
+	dailyNoteJournalTemplate: string;
+	/** Style of timestamps inserted into notes */
+	timestampStyle: 'brackets' | 'link' | 'plain' | 'custom';
+	/** Template for the 'custom' timestamp style */
+	timestampTemplate: string;
+	/** Vault path of the episode note template (empty = built-in note) */
+	noteTemplatePath: string;
+	/** Add timestamped notes to the episode note, linked from the daily note */
+	addNotesToEpisodeNote: boolean;
+	/** Podcast Index API key (empty = Podcast Index search off) */
+	podcastIndexApiKey: string;
+	/** Podcast Index API secret */
+	podcastIndexApiSecret: string;
+	/** Apple Podcasts storefront for the Discover charts (ISO country code) */
+	discoverCountry: string;
+	/** How consecutive episodes are joined when auto-advancing */
+	episodeTransition: 'none' | 'gap' | 'fade';
+	/** Length of the gap, or of each fade, in seconds */
+	episodeTransitionSeconds: number;
+	/** Seconds over which the sleep timer fades the volume out */
+	sleepTimerFadeSeconds: number;
+	/** Suppress notifications during quiet hours */
+	quietHoursEnabled: boolean;
+	/** Hour (0-23) at which quiet hours start */
+	quietHoursStart: number;
+	/** Hour (0-23) at which quiet hours end */
+	quietHoursEnd: number;
 }
 
 /**
@@ -211,6 +480,22 @@ export const DEFAULT_SETTINGS: PluginSettings = {
 	dailyNoteInsertPosition: 'bottom',
 	dailyNoteFolderPath: '',
 	dailyNoteDateFormat: 'YYYY-MM-DD',
+	dailyNoteJournal: 'off',
+	dailyNoteJournalHeading: '## Podcasts',
+	dailyNoteJournalTemplate: '- [{episode}]({link}) – {podcast}, {minutes} min {timestamps}',
+	timestampStyle: 'link',
+	timestampTemplate: '[{time}](podcast://{episodeId}?t={seconds}) {title}',
+	noteTemplatePath: '',
+	addNotesToEpisodeNote: false,
+	podcastIndexApiKey: '',
+	podcastIndexApiSecret: '',
+	discoverCountry: 'US',
+	episodeTransition: 'none',
+	episodeTransitionSeconds: 3,
+	sleepTimerFadeSeconds: 30,
+	quietHoursEnabled: false,
+	quietHoursStart: 22,
+	quietHoursEnd: 7,
 };
 
 /**
@@ -271,4 +556,6 @@ export interface PodcastSearchResult {
 	episodeCount?: number;
 	/** List of genres/categories */
 	genres?: string[];
+	/** IDs of the search providers that returned this podcast */
+	sources?: string[];
 }
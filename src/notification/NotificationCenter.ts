@@ -0,0 +1,194 @@
+/**
+ * NotificationCenter - Notifies about feed sync results
+ *
+ * Turns the result of a feed sync into one batched notice
+ * ("5 new episodes from 3 shows") and records it in the history.
+ * Notices are only shown for background syncs, when notifications are
+ * enabled and outside of quiet hours; the history is kept regardless.
+ */
+
+import { Notice } from 'obsidian';
+import { logger } from '../utils/Logger';
+import { NotificationRecord, PluginSettings } from '../model';
+import { BatchSyncResult } from '../feed';
+import { SubscriptionStore } from '../storage/SubscriptionStore';
+import { NotificationStore } from './NotificationStore';
+
+/**
+ * Shows a notification message to the user
+ */
+export type NotifyFunction = (message: string) => void;
+
+/**
+ * Notification Center
+ */
+export class NotificationCenter {
+	private notificationStore: NotificationStore;
+	private subscriptionStore: SubscriptionStore;
+	private getSettings: () => PluginSettings;
+	private notify: NotifyFunction;
+
+	constructor(
+		notificationStore: NotificationStore,
+		subscriptionStore: SubscriptionStore,
+		getSettings: () => PluginSettings,
+		notify: NotifyFunction = (message) => { new Notice(message); }
+	) {
+		this.notificationStore = notificationStore;
+		this.subscriptionStore = subscriptionStore;
+		this.getSettings = getSettings;
+		this.notify = notify;
+	}
+
+	/**
+	 * Record a sync result and show a notice for it when appropriate
+	 * Returns the stored record, or null when the sync had nothing to report.
+	 */
+	async handleSyncResult(result: BatchSyncResult, now: Date = new Date()): Promise<NotificationRecord | null> {
+		logger.methodEntry('NotificationCenter', 'handleSyncResult');
+
+		const record = await this.buildRecord(result);
+		if (record.newEpisodes.length === 0 && record.failures.length === 0) {
+			logger.methodExit('NotificationCenter', 'handleSyncResult', 'nothing to report');
+			return null;
+		}
+
+		const message = NotificationCenter.formatMessage(record);
+		if (message && result.background && this.shouldNotify(now)) {
+			this.notify(message);
+			record.notified = true;
+		}
+
+		await this.notificationStore.addRecord(record);
+
+		logger.methodExit('NotificationCenter', 'handleSyncResult');
+		return record;
+	}
+
+	/**
+	 * Whether notices may be shown at the given time
+	 */
+	shouldNotify(now: Date = new Date()): boolean {
+		const settings = this.getSettings();
+
+		if (!settings.enableNotifications) {
+			return false;
+		}
+
+		return !(settings.quietHoursEnabled &&
+			NotificationCenter.isQuietHour(now, settings.quietHoursStart, settings.quietHoursEnd));
+	}
+
+	/**
+	 * Whether a time falls within quiet hours
+	 * The window may wrap past midnight (e.g. 22 to 7); equal start and end
+	 * hours mean no quiet hours.
+	 */
+	static isQuietHour(date: Date, startHour: number, endHour: number): boolean {
+		const hour = date.getHours();
+
+		if (startHour === endHour) {
+			return false;
+		}
+
+		if (startHour < endHour) {
+			return hour >= startHour && hour < endHour;
+		}
+
+		return hour >= startHour || hour < endHour;
+	}
+
+	/**
+	 * Build the notice text for a record
+	 */
+	static formatMessage(record: NotificationRecord): string {
+		const parts: string[] = [];
+		const shows = record.newEpisodes;
+		const episodeCount = shows.reduce((count, group) => count + group.episodes.length, 0);
+
+		if (episodeCount > 0) {
+			const episodes = `${episodeCount} new ${episodeCount === 1 ? 'episode' : 'episodes'}`;
+			parts.push(shows.length === 1
+				? `${episodes} from ${shows[0].podcastTitle}`
+				: `${episodes} from ${shows.length} shows`);
+		}
+
+		if (record.failures.length > 0) {
+			const count = record.failures.length;
+			parts.push(count === 1
+				? `${record.failures[0].podcastTitle} failed to update`
+				: `${count} feeds failed to update`);
+		}
+
+		return parts.join('; ');
+	}
+
+	/**
+	 * Get the notification history, newest first
+	 */
+	async getHistory(limit?: number): Promise<NotificationRecord[]> {
+		return this.notificationStore.getRecords(limit);
+	}
+
+	/**
+	 * Clear the notification history
+	 */
+	async clearHistory(): Promise<void> {
+		await this.notificationStore.clearRecords();
+	}
+
+	/**
+	 * Build a history record from a sync result
+	 * Podcasts that opted out of notifications are left out of the new
+	 * episodes; feed failures are always recorded.
+	 */
+	private async buildRecord(result: BatchSyncResult): Promise<NotificationRecord> {
+		const record: NotificationRecord = {
+			id: `notification-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+			createdAt: result.completedAt,
+			background: !!result.background,
+			notified: false,
+			newEpisodes: [],
+			failures: [],
+		};
+
+		for (const podcastResult of result.results) {
+			const title = podcastResult.podcastTitle || podcastResult.podcastId;
+
+			if (!podcastResult.success) {
+				record.failures.push({
+					podcastId: podcastResult.podcastId,
+					podcastTitle: title,
+					error: podcastResult.error || 'Unknown error',
+				});
+				continue;
+			}
+
+			const episodes = podcastResult.newEpisodes ?? [];
+			if (episodes.length === 0 || !(await this.isEnabledFor(podcastResult.podcastId))) {
+				continue;
+			}
+
+			record.newEpisodes.push({
+				podcastId: podcastResult.podcastId,
+				podcastTitle: title,
+				episodes: episodes.map(episode => ({ id: episode.id, title: episode.title })),
+			});
+		}
+
+		return record;
+	}
+
+	/**
+	 * Whether new episode notifications are enabled for a podcast
+	 */
+	private async isEnabledFor(podcastId: string): Promise<boolean> {
+		try {
+			const podcast = await this.subscriptionStore.getPodcast(podcastId);
+			return podcast?.settings?.notifyNewEpisodes !== false;
+		} catch (error) {
+			logger.warn('Failed to read podcast notification setting', error);
+			return true;
+		}
+	}
+}
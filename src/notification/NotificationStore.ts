@@ -0,0 +1,116 @@
+/**
+ * NotificationStore - Persists the notification history
+ *
+ * Keeps the most recent feed sync results (new episodes and feed
+ * failures) in a single JSON file (notifications.json).
+ */
+
+import { Vault } from 'obsidian';
+import { logger } from '../utils/Logger';
+import { NotificationRecord } from '../model';
+import { DataPathManager } from '../storage/DataPathManager';
+import { SingleFileStore } from '../storage/FileSystemStore';
+
+/**
+ * Notification data structure
+ */
+export interface NotificationData {
+	/** Records, newest first */
+	records: NotificationRecord[];
+	version: number;
+}
+
+/**
+ * Notification Store
+ */
+export class NotificationStore extends SingleFileStore<NotificationData> {
+	private static readonly CURRENT_VERSION = 1;
+	static readonly MAX_RECORDS = 50;
+
+	constructor(vault: Vault, pathManager: DataPathManager) {
+		const filePath = pathManager.getFilePath('root', 'notifications.json');
+		super(vault, pathManager, filePath);
+	}
+
+	/**
+	 * Validate notification data
+	 */
+	protected validate(data: NotificationData): boolean {
+		if (!data || typeof data !== 'object') {
+			logger.warn('Invalid notification data: not an object');
+			return false;
+		}
+
+		if (!Array.isArray(data.records)) {
+			logger.warn('Invalid notification data: records is not an array');
+			return false;
+		}
+
+		if (typeof data.version !== 'number') {
+			logger.warn('Invalid notification data: version is not a number');
+			return false;
+		}
+
+		for (const record of data.records) {
+			if (!record || typeof record.id !== 'string' || !Array.isArray(record.newEpisodes) || !Array.isArray(record.failures)) {
+				logger.warn('Invalid notification record in data', record);
+				return false;
+			}
+		}
+
+		return true;
+	}
+
+	/**
+	 * Get default notification data
+	 */
+	protected getDefaultValue(): NotificationData {
+		return {
+			records: [],
+			version: NotificationStore.CURRENT_VERSION,
+		};
+	}
+
+	/**
+	 * Load data and restore Date fields
+	 */
+	async load(): Promise<NotificationData> {
+		const data = await super.load();
+
+		for (const record of data.records) {
+			record.createdAt = new Date(record.createdAt);
+		}
+
+		return data;
+	}
+
+	/**
+	 * Get the notification history, newest first
+	 */
+	async getRecords(limit?: number): Promise<NotificationRecord[]> {
+		const data = await this.load();
+		return limit !== undefined ? data.records.slice(0, limit) : data.records;
+	}
+
+	/**
+	 * Add a record, dropping the oldest ones beyond the history limit
+	 */
+	async addRecord(record: NotificationRecord): Promise<void> {
+		logger.methodEntry('NotificationStore', 'addRecord', record.id);
+
+		const data = await this.load();
+		data.records = [record, ...data.records].slice(0, NotificationStore.MAX_RECORDS);
+		await this.save(data);
+
+		logger.methodExit('NotificationStore', 'addRecord');
+	}
+
+	/**
+	 * Remove all records
+	 */
+	async clearRecords(): Promise<void> {
+		logger.methodEntry('NotificationStore', 'clearRecords');
+		await this.save(this.getDefaultValue());
+		logger.methodExit('NotificationStore', 'clearRecords');
+	}
+}
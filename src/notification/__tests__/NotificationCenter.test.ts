@@ -0,0 +1,182 @@
+/**
+ * Unit tests for NotificationCenter
+ */
+
+import { NotificationCenter } from '../NotificationCenter';
+import { NotificationStore } from '../NotificationStore';
+import { SubscriptionStore } from '../../storage/SubscriptionStore';
+import { BatchSyncResult, PodcastSyncResult } from '../../feed';
+import { DEFAULT_SETTINGS, Episode, PluginSettings } from '../../model';
+
+// Mock logger
+jest.mock('../../utils/Logger', () => ({
+	logger: {
+		methodEntry: jest.fn(),
+		methodExit: jest.fn(),
+		debug: jest.fn(),
+		info: jest.fn(),
+		warn: jest.fn(),
+		error: jest.fn(),
+	},
+}));
+
+function createEpisodes(podcastId: string, count: number): Episode[] {
+	return Array.from({ length: count }, (_, i) => ({
+		id: `${podcastId}-ep-${i}`,
+		podcastId,
+		title: `Episode ${i}`,
+		description: '',
+		audioUrl: `https://example.com/${podcastId}/${i}.mp3`,
+		duration: 1800,
+		publishDate: new Date('2024-01-01'),
+	}));
+}
+
+function success(podcastId: string, podcastTitle: string, episodeCount: number): PodcastSyncResult {
+	const newEpisodes = createEpisodes(podcastId, episodeCount);
+	return { podcastId, podcastTitle, success: true, newEpisodesCount: newEpisodes.length, newEpisodes };
+}
+
+function failure(podcastId: string, podcastTitle: string): PodcastSyncResult {
+	return { podcastId, podcastTitle, success: false, newEpisodesCount: 0, error: 'HTTP 500' };
+}
+
+function createResult(results: PodcastSyncResult[], background = true): BatchSyncResult {
+	return {
+		totalPodcasts: results.length,
+		successCount: results.filter(result => result.success).length,
+		failureCount: results.filter(result => !result.success).length,
+		totalNewEpisodes: results.reduce((count, result) => count + result.newEpisodesCount, 0),
+		results,
+		startedAt: new Date('2024-01-01T11:59:00'),
+		completedAt: new Date('2024-01-01T12:00:00'),
+		background,
+	};
+}
+
+describe('NotificationCenter', () => {
+	const noon = new Date('2024-01-01T12:00:00');
+	const midnight = new Date('2024-01-01T23:30:00');
+
+	let settings: PluginSettings;
+	let notify: jest.Mock;
+	let mockNotificationStore: jest.Mocked<NotificationStore>;
+	let mockSubscriptionStore: jest.Mocked<SubscriptionStore>;
+	let center: NotificationCenter;
+
+	beforeEach(() => {
+		settings = { ...DEFAULT_SETTINGS };
+		notify = jest.fn();
+		mockNotificationStore = {
+			addRecord: jest.fn().mockResolvedValue(undefined),
+			getRecords: jest.fn().mockResolvedValue([]),
+			clearRecords: jest.fn().mockResolvedValue(undefined),
+		} as any;
+		mockSubscriptionStore = {
+			getPodcast: jest.fn().mockResolvedValue(null),
+		} as any;
+
+		center = new NotificationCenter(mockNotificationStore, mockSubscriptionStore, () => settings, notify);
+	});
+
+	describe('handleSyncResult', () => {
+		it('should batch new episodes from several shows into one notice', async () => {
+			const record = await center.handleSyncResult(createResult([
+				success('p1', 'Show 1', 2),
+				success('p2', 'Show 2', 2),
+				success('p3', 'Show 3', 1),
+			]), noon);
+
+			expect(notify).toHaveBeenCalledTimes(1);
+			expect(notify).toHaveBeenCalledWith('5 new episodes from 3 shows');
+			expect(record?.notified).toBe(true);
+			expect(mockNotificationStore.addRecord).toHaveBeenCalledWith(record);
+		});
+
+		it('should name the show when all episodes come from one podcast', async () => {
+			await center.handleSyncResult(createResult([success('p1', 'Show 1', 1)]), noon);
+
+			expect(notify).toHaveBeenCalledWith('1 new episode from Show 1');
+		});
+
+		it('should include feed failures in the notice and history', async () => {
+			const record = await center.handleSyncResult(createResult([
+				success('p1', 'Show 1', 1),
+				failure('p2', 'Show 2'),
+				failure('p3', 'Show 3'),
+			]), noon);
+
+			expect(notify).toHaveBeenCalledWith('1 new episode from Show 1; 2 feeds failed to update');
+			expect(record?.failures).toEqual([
+				{ podcastId: 'p2', podcastTitle: 'Show 2', error: 'HTTP 500' },
+				{ podcastId: 'p3', podcastTitle: 'Show 3', error: 'HTTP 500' },
+			]);
+		});
+
+		it('should skip syncs with nothing to report', async () => {
+			const record = await center.handleSyncResult(createResult([success('p1', 'Show 1', 0)]), noon);
+
+			expect(record).toBeNull();
+			expect(notify).not.toHaveBeenCalled();
+			expect(mockNotificationStore.addRecord).not.toHaveBeenCalled();
+		});
+
+		it('should leave out podcasts that opted out of notifications', async () => {
+			mockSubscriptionStore.getPodcast.mockImplementation(async (id: string) => (
+				id === 'p2' ? { id, settings: { notifyNewEpisodes: false } } as any : null
+			));
+
+			const record = await center.handleSyncResult(createResult([
+				success('p1', 'Show 1', 1),
+				success('p2', 'Show 2', 3),
+			]), noon);
+
+			expect(notify).toHaveBeenCalledWith('1 new episode from Show 1');
+			expect(record?.newEpisodes.map(group => group.podcastId)).toEqual(['p1']);
+		});
+
+		it('should not show notices for manual syncs but keep the history', async () => {
+			const record = await center.handleSyncResult(createResult([success('p1', 'Show 1', 1)], false), noon);
+
+			expect(notify).not.toHaveBeenCalled();
+			expect(record?.notified).toBe(false);
+			expect(mockNotificationStore.addRecord).toHaveBeenCalled();
+		});
+
+		it('should not show notices when notifications are disabled', async () => {
+			settings.enableNotifications = false;
+
+			const record = await center.handleSyncResult(createResult([success('p1', 'Show 1', 1)]), noon);
+
+			expect(notify).not.toHaveBeenCalled();
+			expect(record?.notified).toBe(false);
+		});
+
+		it('should not show notices during quiet hours', async () => {
+			settings.quietHoursEnabled = true;
+
+			await center.handleSyncResult(createResult([success('p1', 'Show 1', 1)]), midnight);
+			expect(notify).not.toHaveBeenCalled();
+
+			await center.handleSyncResult(createResult([success('p1', 'Show 1', 1)]), noon);
+			expect(notify).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe('isQuietHour', () => {
+		it('should handle windows within a day', () => {
+			expect(NotificationCenter.isQuietHour(new Date('2024-01-01T13:00:00'), 12, 14)).toBe(true);
+			expect(NotificationCenter.isQuietHour(new Date('2024-01-01T14:00:00'), 12, 14)).toBe(false);
+		});
+
+		it('should handle windows that wrap past midnight', () => {
+			expect(NotificationCenter.isQuietHour(new Date('2024-01-01T23:00:00'), 22, 7)).toBe(true);
+			expect(NotificationCenter.isQuietHour(new Date('2024-01-01T06:59:00'), 22, 7)).toBe(true);
+			expect(NotificationCenter.isQuietHour(new Date('2024-01-01T07:00:00'), 22, 7)).toBe(false);
+		});
+
+		it('should treat equal start and end as no quiet hours', () => {
+			expect(NotificationCenter.isQuietHour(new Date('2024-01-01T22:00:00'), 22, 22)).toBe(false);
+		});
+	});
+});
@@ -0,0 +1,126 @@
+/**
+ * Unit tests for NotificationStore
+ */
+
+import { NotificationStore } from '../NotificationStore';
+import { Vault } from 'obsidian';
+import { DataPathManager } from '../../storage/DataPathManager';
+import { NotificationRecord } from '../../model';
+
+// Mock logger
+jest.mock('../../utils/Logger', () => ({
+	logger: {
+		methodEntry: jest.fn(),
+		methodExit: jest.fn(),
+		debug: jest.fn(),
+		info: jest.fn(),
+		warn: jest.fn(),
+		error: jest.fn(),
+	},
+}));
+
+// Mock the parent class methods
+jest.mock('../../storage/FileSystemStore', () => {
+	return {
+		SingleFileStore: class {
+			protected filePath: string;
+			protected data: any = null;
+
+			constructor(vault: any, pathManager: any, filePath: string) {
+				this.filePath = filePath;
+			}
+
+			async load(): Promise<any> {
+				return this.data ? JSON.parse(JSON.stringify(this.data)) : this['getDefaultValue']();
+			}
+
+			async save(data: any): Promise<void> {
+				this.data = data;
+			}
+
+			protected validate(data: any): boolean {
+				return true;
+			}
+
+			protected getDefaultValue(): any {
+				return {};
+			}
+		},
+	};
+});
+
+function createRecord(id: string, createdAt = new Date('2024-01-01T10:00:00Z')): NotificationRecord {
+	return {
+		id,
+		createdAt,
+		background: true,
+		notified: true,
+		newEpisodes: [{ podcastId: 'podcast-1', podcastTitle: 'Podcast 1', episodes: [{ id: 'ep-1', title: 'Episode 1' }] }],
+		failures: [],
+	};
+}
+
+describe('NotificationStore', () => {
+	let store: NotificationStore;
+	let mockPathManager: jest.Mocked<DataPathManager>;
+
+	beforeEach(() => {
+		mockPathManager = {
+			getFilePath: jest.fn().mockReturnValue('notifications.json'),
+		} as any;
+
+		store = new NotificationStore({} as Vault, mockPathManager);
+	});
+
+	it('should store notifications in the data root', () => {
+		expect(mockPathManager.getFilePath).toHaveBeenCalledWith('root', 'notifications.json');
+	});
+
+	it('should return an empty history by default', async () => {
+		expect(await store.getRecords()).toEqual([]);
+	});
+
+	it('should add records newest first and restore dates', async () => {
+		await store.addRecord(createRecord('n-1'));
+		await store.addRecord(createRecord('n-2'));
+
+		const records = await store.getRecords();
+
+		expect(records.map(record => record.id)).toEqual(['n-2', 'n-1']);
+		expect(records[0].createdAt).toBeInstanceOf(Date);
+	});
+
+	it('should limit the number of returned records', async () => {
+		await store.addRecord(createRecord('n-1'));
+		await store.addRecord(createRecord('n-2'));
+
+		expect((await store.getRecords(1)).map(record => record.id)).toEqual(['n-2']);
+	});
+
+	it('should drop the oldest records beyond the history limit', async () => {
+		for (let i = 0; i < NotificationStore.MAX_RECORDS + 5; i++) {
+			await store.addRecord(createRecord(`n-${i}`));
+		}
+
+		const records = await store.getRecords();
+
+		expect(records).toHaveLength(NotificationStore.MAX_RECORDS);
+		expect(records[0].id).toBe(`n-${NotificationStore.MAX_RECORDS + 4}`);
+	});
+
+	it('should clear the history', async () => {
+		await store.addRecord(createRecord('n-1'));
+		await store.clearRecords();
+
+		expect(await store.getRecords()).toEqual([]);
+	});
+
+	it('should reject invalid data', () => {
+		const validate = (data: any) => (store as any).validate(data);
+
+		expect(validate({ records: [], version: 1 })).toBe(true);
+		expect(validate({ records: 'x', version: 1 })).toBe(false);
+		expect(validate({ records: [{ id: 1 }], version: 1 })).toBe(false);
+		expect(validate(null)).toBe(false);
+	});
+});
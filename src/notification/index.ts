@@ -0,0 +1,12 @@
+/**
+ * Notification Module
+ *
+ * Provides new-episode notifications after feed syncs, quiet hours
+ * and the notification history.
+ */
+
+// Export notification store
+export { NotificationStore, type NotificationData } from './NotificationStore';
+
+// Export notification center
+export { NotificationCenter, type NotifyFunction } from './NotificationCenter';
@@ -0,0 +1,431 @@
+/**
+ * AudioEnhancer - Optional Web Audio processing for the playback engine
+ *
+ * Routes the engine's audio element through a Web Audio graph:
+ *
+ *     MediaElementSource ─┬─> compressor ─┬─> gain ─> destination
+ *                         │               └─> loudness analyser
+ *                         └─> silence analyser
+ *
+ * - Voice boost: dynamic range compression plus a slowly adapting gain that
+ *   brings quiet and loud shows to a similar loudness
+ * - Silence skipping: stretches with a low RMS level play at a multiple of
+ *   the normal speed; the listening time saved is reported in batches
+ *
+ * The graph is only built once an enhancement is enabled and the source can
+ * be read: Web Audio outputs silence for cross-origin audio loaded without
+ * CORS. The engine loads remote audio with CORS while enhancements are on
+ * and falls back to a new, unprocessed audio element when the server refuses
+ * CORS; the graph of the old element is then released.
+ */
+
+import { logger } from '../utils/Logger';
+import { PlaybackEngine } from './PlaybackEngine';
+
+/**
+ * Enhancements applied to playback
+ */
+export interface AudioEnhancementOptions {
+	voiceBoost: boolean;
+	skipSilence: boolean;
+}
+
+/**
+ * Callback receiving listening time saved by skipping silence (in seconds)
+ */
+export type TimeSavedHandler = (seconds: number) => void;
+
+/**
+ * Creates the audio context, or returns null when Web Audio is unavailable
+ */
+export type AudioContextFactory = () => AudioContext | null;
+
+const POLL_INTERVAL_MS = 50;
+/** RMS level (about -40 dBFS) below which audio counts as silence */
+const SILENCE_THRESHOLD = 0.01;
+/** Silence shorter than this is kept, so pauses between sentences survive */
+const MIN_SILENCE_MS = 400;
+/** Speed multiplier while skipping through silence */
+const SILENCE_RATE_BOOST = 4;
+/** Saved time is reported once this many seconds have added up */
+const TIME_SAVED_REPORT_SECONDS = 10;
+/** RMS level (about -20 dBFS) that voice boost aims for */
+const TARGET_LOUDNESS = 0.1;
+const MIN_GAIN = 0.5;
+const MAX_GAIN = 4;
+/** Share of each new measurement in the running loudness average */
+const LOUDNESS_SMOOTHING = 0.02;
+
+/**
+ * Audio Enhancer
+ */
+export class AudioEnhancer {
+	private engine: PlaybackEngine;
+	private createContext: AudioContextFactory;
+	private options: AudioEnhancementOptions = { voiceBoost: false, skipSilence: false };
+	private timeSavedHandler: TimeSavedHandler | null = null;
+
+	private context: AudioContext | null = null;
+	private source: MediaElementAudioSourceNode | null = null;
+	private compressor: DynamicsCompressorNode | null = null;
+	private gain: GainNode | null = null;
+	private silenceAnalyser: AnalyserNode | null = null;
+	private loudnessAnalyser: AnalyserNode | null = null;
+	private samples: Float32Array<ArrayBuffer> | null = null;
+	private unavailable = false;
+
+	private pollTimer: number | null = null;
+	private silentSince: number | null = null;
+	private boostStartedAt: number | null = null;
+	private loudness: number | null = null;
+	private pendingTimeSaved = 0;
+
+	constructor(engine: PlaybackEngine, createContext: AudioContextFactory = AudioEnhancer.createAudioContext) {
+		this.engine = engine;
+		this.createContext = createContext;
+		this.engine.setEventHandlers({
+			onMediaElementChange: () => this.releaseGraph(),
+		});
+	}
+
+	/**
+	 * Create a Web Audio context, if the platform supports it
+	 */
+	static createAudioContext(): AudioContext | null {
+		if (typeof AudioContext === 'undefined') {
+			return null;
+		}
+		return new AudioContext();
+	}
+
+	/**
+	 * Calculate the RMS level of a block of samples
+	 */
+	static calculateRms(samples: Float32Array): number {
+		if (samples.length === 0) {
+			return 0;
+		}
+
+		let sum = 0;
+		for (const sample of samples) {
+			sum += sample * sample;
+		}
+		return Math.sqrt(sum / samples.length);
+	}
+
+	/**
+	 * Set the handler receiving time saved by skipping silence
+	 */
+	setTimeSavedHandler(handler: TimeSavedHandler | null): void {
+		this.timeSavedHandler = handler;
+	}
+
+	/**
+	 * Turn enhancements on or off
+	 */
+	setOptions(options: AudioEnhancementOptions): void {
+		logger.methodEntry('AudioEnhancer', 'setOptions', options);
+
+		this.options = { ...options };
+		const enabled = options.voiceBoost || options.skipSilence;
+
+		if (this.unavailable) {
+			logger.methodExit('AudioEnhancer', 'setOptions', 'unavailable');
+			return;
+		}
+
+		this.engine.setCrossOriginAudio(enabled);
+
+		if (!options.skipSilence) {
+			this.endSilence(Date.now());
+			this.flushTimeSaved();
+		}
+
+		this.updateGraph();
+
+		if (enabled) {
+			this.startPolling();
+		} else {
+			this.stopPolling();
+		}
+
+		logger.methodExit('AudioEnhancer', 'setOptions');
+	}
+
+	/**
+	 * Get the active enhancements
+	 */
+	getOptions(): AudioEnhancementOptions {
+		return { ...this.options };
+	}
+
+	/**
+	 * Stop processing and release the audio context
+	 */
+	destroy(): void {
+		this.stopPolling();
+		this.releaseGraph();
+	}
+
+	/**
+	 * Release the graph, e.g. when the engine replaced its audio element
+	 */
+	private releaseGraph(): void {
+		this.endSilence(Date.now());
+		this.flushTimeSaved();
+
+		if (this.context) {
+			void this.context.close();
+		}
+		this.context = null;
+		this.source = null;
+		this.compressor = null;
+		this.gain = null;
+		this.silenceAnalyser = null;
+		this.loudnessAnalyser = null;
+		this.loudness = null;
+		this.silentSince = null;
+	}
+
+	/**
+	 * Build the graph when needed and possible, and connect the active enhancements
+	 * Once built, the graph stays connected; disabled enhancements pass audio through.
+	 */
+	private updateGraph(): void {
+		if (!this.source && (this.options.voiceBoost || this.options.skipSilence)) {
+			this.buildGraph();
+		}
+		if (this.source) {
+			this.connectGraph();
+		}
+	}
+
+	/**
+	 * Build the Web Audio graph for the current audio element
+	 * Returns false when Web Audio is not available or cannot read the current source.
+	 */
+	private buildGraph(): boolean {
+		if (this.source) {
+			return true;
+		}
+		if (this.unavailable) {
+			return false;
+		}
+
+		const element = this.engine.getMediaElement();
+		if (!element || !this.engine.canProcessAudio()) {
+			return false;
+		}
+
+		let context: AudioContext | null = null;
+		try {
+			context = this.createContext();
+		} catch (error) {
+			logger.warn('Failed to create audio context', error);
+		}
+
+		if (!context) {
+			logger.warn('Web Audio is not available, audio enhancements are disabled');
+			this.unavailable = true;
+			return false;
+		}
+
+		const source = this.engine.createMediaElementSource(context);
+		if (!source) {
+			void context.close();
+			return false;
+		}
+
+		this.context = context;
+		this.source = source;
+
+		// Gentle speech compression: lift quiet voices, tame loud ones
+		this.compressor = context.createDynamicsCompressor();
+		this.compressor.threshold.value = -40;
+		this.compressor.knee.value = 20;
+		this.compressor.ratio.value = 6;
+		this.compressor.attack.value = 0.005;
+		this.compressor.release.value = 0.25;
+
+		this.gain = context.createGain();
+
+		this.silenceAnalyser = context.createAnalyser();
+		this.silenceAnalyser.fftSize = 1024;
+		this.loudnessAnalyser = context.createAnalyser();
+		this.loudnessAnalyser.fftSize = 1024;
+		this.samples = new Float32Array(this.silenceAnalyser.fftSize);
+
+		// A context created outside a user gesture starts suspended
+		element.addEventListener('play', () => {
+			if (this.engine.getMediaElement() === element) {
+				void this.context?.resume();
+			}
+		});
+		if (this.engine.isPlaying()) {
+			void context.resume();
+		}
+
+		logger.info('Audio enhancement graph created');
+		return true;
+	}
+
+	/**
+	 * Connect the nodes for the active enhancements
+	 */
+	private connectGraph(): void {
+		if (!this.context || !this.source || !this.compressor || !this.gain) {
+			return;
+		}
+
+		this.source.disconnect();
+		this.compressor.disconnect();
+		this.gain.disconnect();
+
+		if (this.silenceAnalyser) {
+			this.source.connect(this.silenceAnalyser);
+		}
+
+		if (this.options.voiceBoost) {
+			this.source.connect(this.compressor);
+			this.compressor.connect(this.gain);
+			if (this.loudnessAnalyser) {
+				this.compressor.connect(this.loudnessAnalyser);
+			}
+			this.gain.connect(this.context.destination);
+		} else {
+			this.loudness = null;
+			this.gain.gain.value = 1;
+			this.source.connect(this.context.destination);
+		}
+	}
+
+	private startPolling(): void {
+		if (this.pollTimer !== null) {
+			return;
+		}
+
+		this.pollTimer = window.setInterval(() => this.poll(), POLL_INTERVAL_MS);
+	}
+
+	private stopPolling(): void {
+		if (this.pollTimer !== null) {
+			window.clearInterval(this.pollTimer);
+			this.pollTimer = null;
+		}
+	}
+
+	/**
+	 * Measure levels and adjust speed and gain
+	 */
+	private poll(): void {
+		const now = Date.now();
+
+		// The source could not be processed yet, e.g. a new episode is still loading
+		if (!this.source) {
+			this.updateGraph();
+			if (!this.source) {
+				return;
+			}
+		}
+
+		if (!this.engine.isPlaying()) {
+			this.endSilence(now);
+			this.flushTimeSaved();
+			return;
+		}
+
+		if (this.options.voiceBoost) {
+			this.updateLoudness(this.readLevel(this.loudnessAnalyser));
+		}
+
+		if (!this.options.skipSilence) {
+			return;
+		}
+
+		const level = this.readLevel(this.silenceAnalyser);
+		if (level === null || level >= SILENCE_THRESHOLD) {
+			this.silentSince = null;
+			this.endSilence(now);
+			return;
+		}
+
+		if (this.silentSince === null) {
+			this.silentSince = now;
+		}
+		if (this.boostStartedAt === null && now - this.silentSince >= MIN_SILENCE_MS) {
+			this.boostStartedAt = now;
+			this.engine.setRateBoost(SILENCE_RATE_BOOST);
+		}
+	}
+
+	/**
+	 * Read the RMS level of an analyser, independent of the player volume
+	 * Returns null when there is nothing to measure: muted, faded out, or an
+	 * all-zero signal (the browser hides samples of cross-origin audio).
+	 */
+	private readLevel(analyser: AnalyserNode | null): number | null {
+		const element = this.engine.getMediaElement();
+		if (!analyser || !this.samples || !element || element.muted || element.volume <= 0) {
+			return null;
+		}
+
+		analyser.getFloatTimeDomainData(this.samples);
+		if (this.samples.every(sample => sample === 0)) {
+			return null;
+		}
+
+		return AudioEnhancer.calculateRms(this.samples) / element.volume;
+	}
+
+	/**
+	 * Move the voice boost gain towards the target loudness
+	 */
+	private updateLoudness(level: number | null): void {
+		// Silence says nothing about the loudness of the show
+		if (level === null || level < SILENCE_THRESHOLD || !this.gain) {
+			return;
+		}
+
+		this.loudness = this.loudness === null
+			? level
+			: this.loudness + (level - this.loudness) * LOUDNESS_SMOOTHING;
+
+		this.gain.gain.value = Math.max(MIN_GAIN, Math.min(MAX_GAIN, TARGET_LOUDNESS / this.loudness));
+	}
+
+	/**
+	 * Return to normal speed and count the time saved
+	 */
+	private endSilence(now: number): void {
+		if (this.boostStartedAt === null) {
+			return;
+		}
+
+		this.engine.setRateBoost(1);
+		// Each second at N times the speed covers N seconds of audio
+		this.pendingTimeSaved += ((now - this.boostStartedAt) / 1000) * (SILENCE_RATE_BOOST - 1);
+		this.boostStartedAt = null;
+
+		if (this.pendingTimeSaved >= TIME_SAVED_REPORT_SECONDS) {
+			this.flushTimeSaved();
+		}
+	}
+
+	/**
+	 * Report the time saved since the last report
+	 */
+	private flushTimeSaved(): void {
+		if (this.pendingTimeSaved <= 0) {
+			return;
+		}
+
+		const seconds = this.pendingTimeSaved;
+		this.pendingTimeSaved = 0;
+
+		try {
+			this.timeSavedHandler?.(seconds);
+		} catch (error) {
+			logger.warn('Time saved handler failed', error);
+		}
+	}
+}
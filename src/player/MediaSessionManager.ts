@@ -0,0 +1,206 @@
+/**
+ * MediaSessionManager - Media Session API integration
+ *
+ * Publishes the playing episode to the operating system (lock screen,
+ * media overlays) and routes hardware media keys and headphone buttons
+ * to the PlayerController, including while Obsidian is in the background.
+ */
+
+import { logger } from '../utils/Logger';
+import { Episode, Podcast, PlaybackState } from '../model';
+import { PlayerController } from './PlayerController';
+
+/**
+ * Track navigation handlers for the previous/next media keys
+ */
+export interface MediaSessionTrackHandlers {
+	onPreviousTrack?: () => void;
+	onNextTrack?: () => void;
+}
+
+/**
+ * Media session actions handled by the player
+ */
+const HANDLED_ACTIONS: MediaSessionAction[] = [
+	'play',
+	'pause',
+	'stop',
+	'seekbackward',
+	'seekforward',
+	'seekto',
+	'previoustrack',
+	'nexttrack',
+];
+
+/**
+ * Media Session Manager
+ */
+export class MediaSessionManager {
+	private playerController: PlayerController;
+	private mediaSession: MediaSession | null;
+	private trackHandlers: MediaSessionTrackHandlers;
+
+	constructor(
+		playerController: PlayerController,
+		trackHandlers: MediaSessionTrackHandlers = {},
+		mediaSession: MediaSession | null = MediaSessionManager.getMediaSession()
+	) {
+		this.playerController = playerController;
+		this.trackHandlers = trackHandlers;
+		this.mediaSession = mediaSession;
+	}
+
+	/**
+	 * Get the platform media session, if the API is available
+	 */
+	static getMediaSession(): MediaSession | null {
+		if (typeof navigator === 'undefined' || !('mediaSession' in navigator)) {
+			return null;
+		}
+		return navigator.mediaSession;
+	}
+
+	/**
+	 * Whether media session integration is active
+	 */
+	isSupported(): boolean {
+		return this.mediaSession !== null;
+	}
+
+	/**
+	 * Register action handlers for media keys
+	 */
+	attach(): void {
+		if (!this.mediaSession) {
+			logger.info('Media Session API not available');
+			return;
+		}
+
+		logger.methodEntry('MediaSessionManager', 'attach');
+
+		for (const action of HANDLED_ACTIONS) {
+			this.setActionHandler(action, (details) => this.handleAction(details));
+		}
+
+		logger.methodExit('MediaSessionManager', 'attach');
+	}
+
+	/**
+	 * Remove action handlers and clear published metadata
+	 */
+	detach(): void {
+		if (!this.mediaSession) return;
+
+		for (const action of HANDLED_ACTIONS) {
+			this.setActionHandler(action, null);
+		}
+
+		this.mediaSession.metadata = null;
+		this.mediaSession.playbackState = 'none';
+	}
+
+	/**
+	 * Publish episode metadata
+	 */
+	updateMetadata(episode: Episode | null, podcast: Podcast | null = null): void {
+		if (!this.mediaSession) return;
+
+		if (!episode || typeof MediaMetadata === 'undefined') {
+			this.mediaSession.metadata = null;
+			return;
+		}
+
+		const artworkUrl = episode.imageUrl || podcast?.imageUrl;
+
+		this.mediaSession.metadata = new MediaMetadata({
+			title: episode.title,
+			artist: podcast?.author || podcast?.title || '',
+			album: podcast?.title || '',
+			artwork: artworkUrl ? [{ src: artworkUrl }] : [],
+		});
+	}
+
+	/**
+	 * Publish the playback status
+	 */
+	updatePlaybackState(status: PlaybackState['status']): void {
+		if (!this.mediaSession) return;
+
+		if (status === 'playing') {
+			this.mediaSession.playbackState = 'playing';
+		} else if (status === 'stopped') {
+			this.mediaSession.playbackState = 'none';
+		} else {
+			this.mediaSession.playbackState = 'paused';
+		}
+	}
+
+	/**
+	 * Publish the playback position for OS scrubbers
+	 */
+	updatePositionState(position: number, duration: number, playbackRate: number): void {
+		if (!this.mediaSession || typeof this.mediaSession.setPositionState !== 'function') return;
+
+		// setPositionState throws on unknown durations or positions past the end
+		if (!isFinite(duration) || duration <= 0 || playbackRate <= 0) {
+			return;
+		}
+
+		try {
+			this.mediaSession.setPositionState({
+				duration,
+				playbackRate,
+				position: Math.min(Math.max(0, position), duration),
+			});
+		} catch (error) {
+			logger.warn('Failed to update media session position', error);
+		}
+	}
+
+	/**
+	 * Route a media session action to the player
+	 */
+	private handleAction(details: MediaSessionActionDetails): void {
+		logger.debug('Media session action', details.action);
+
+		switch (details.action) {
+			case 'play':
+				void this.playerController.play();
+				break;
+			case 'pause':
+				this.playerController.pause();
+				break;
+			case 'stop':
+				void this.playerController.stop();
+				break;
+			case 'seekbackward':
+				this.playerController.skipBackward(details.seekOffset);
+				break;
+			case 'seekforward':
+				this.playerController.skipForward(details.seekOffset);
+				break;
+			case 'seekto':
+				if (details.seekTime !== undefined) {
+					this.playerController.seek(details.seekTime);
+				}
+				break;
+			case 'previoustrack':
+				this.trackHandlers.onPreviousTrack?.();
+				break;
+			case 'nexttrack':
+				this.trackHandlers.onNextTrack?.();
+				break;
+		}
+	}
+
+	/**
+	 * Set an action handler, ignoring actions the platform does not support
+	 */
+	private setActionHandler(action: MediaSessionAction, handler: MediaSessionActionHandler | null): void {
+		try {
+			this.mediaSession?.setActionHandler(action, handler);
+		} catch (error) {
+			logger.debug(`Media session action "${action}" not supported`);
+		}
+	}
+}
@@ -3,6 +3,10 @@
  *
  * Handles HTML5 Audio API integration, audio loading, and playback control.
  * Provides low-level audio playback functionality.
+ *
+ * Web Audio outputs silence for cross-origin audio that was not loaded with
+ * CORS, so once audio processing is requested remote audio is loaded with
+ * CORS. Servers that refuse CORS get a fresh, unprocessed audio element.
  */
 
 import { logger } from '../utils/Logger';
@@ -42,8 +46,13 @@ export interface PlaybackEventHandlers {
 	onVolumeChange?: (volume: number, muted: boolean) => void;
 	onRateChange?: (playbackRate: number) => void;
 	onProgress?: (buffered: number) => void;
+	/** The audio element was replaced, e.g. to play a source that refused CORS */
+	onMediaElementChange?: (element: HTMLAudioElement) => void;
 }
 
+/** HTMLMediaElement.HAVE_NOTHING, not available outside the browser */
+const HAVE_NOTHING = 0;
+
 /**
  * Playback Engine
  */
@@ -53,6 +62,17 @@ export class PlaybackEngine {
 	private status: PlaybackStatus = 'idle';
 	private eventHandlers: PlaybackEventHandlers = {};
 	private progressInterval: number | null = null;
+	private volume = 1.0;
+	private fadeLevel = 1.0;
+	private playbackRate = 1.0;
+	private rateBoost = 1.0;
+	private listenerController: AbortController | null = null;
+	/** Load remote audio with CORS so it can be processed with Web Audio */
+	private crossOriginAudio = false;
+	/** The audio element is routed through Web Audio */
+	private mediaElementProcessed = false;
+	/** Remote URL whose server refused CORS */
+	private corsRefusedUrl: string | null = null;
 
 	constructor() {
 		logger.methodEntry('PlaybackEngine', 'constructor');
@@ -75,57 +95,67 @@ export class PlaybackEngine {
 	private attachEventListeners(): void {
 		if (!this.audio) return;
 
-		this.audio.addEventListener('play', () => {
+		this.listenerController = new AbortController();
+		const addEventListener = (type: string, listener: () => void) => {
+			this.audio?.addEventListener(type, listener, { signal: this.listenerController!.signal });
+		};
+
+		addEventListener('play', () => {
 			logger.debug('Audio play event');
 			this.status = 'playing';
 			this.eventHandlers.onPlay?.();
 			this.startProgressTracking();
 		});
 
-		this.audio.addEventListener('pause', () => {
+		addEventListener('pause', () => {
 			logger.debug('Audio pause event');
 			this.status = 'paused';
 			this.eventHandlers.onPause?.();
 			this.stopProgressTracking();
 		});
 
-		this.audio.addEventListener('ended', () => {
+		addEventListener('ended', () => {
 			logger.debug('Audio ended event');
 			this.status = 'ended';
 			this.eventHandlers.onEnded?.();
 			this.stopProgressTracking();
 		});
 
-		this.audio.addEventListener('timeupdate', () => {
+		addEventListener('timeupdate', () => {
 			if (this.audio) {
 				this.eventHandlers.onTimeUpdate?.(this.audio.currentTime);
 			}
 		});
 
-		this.audio.addEventListener('durationchange', () => {
+		addEventListener('durationchange', () => {
 			if (this.audio && !isNaN(this.audio.duration)) {
 				logger.debug('Duration changed', this.audio.duration);
 				this.eventHandlers.onDurationChange?.(this.audio.duration);
 			}
 		});
 
-		this.audio.addEventListener('loadstart', () => {
+		addEventListener('loadstart', () => {
 			logger.debug('Audio load start');
 			this.status = 'loading';
 			this.eventHandlers.onLoadStart?.();
 		});
 
-		this.audio.addEventListener('loadedmetadata', () => {
+		addEventListener('loadedmetadata', () => {
 			logger.debug('Audio metadata loaded');
 			this.eventHandlers.onLoadedMetadata?.();
 		});
 
-		this.audio.addEventListener('canplay', () => {
+		addEventListener('canplay', () => {
 			logger.debug('Audio can play');
 			this.eventHandlers.onCanPlay?.();
 		});
 
-		this.audio.addEventListener('error', () => {
+		addEventListener('error', () => {
+			if (this.shouldRetryWithoutCors()) {
+				this.retryWithoutCors();
+				return;
+			}
+
 			const mediaError = this.audio?.error;
 			logger.error('Audio playback error', mediaError ? new Error(mediaError.message) : undefined);
 			this.status = 'error';
@@ -138,19 +168,19 @@ export class PlaybackEngine {
 			this.eventHandlers.onError?.(error);
 		});
 
-		this.audio.addEventListener('volumechange', () => {
+		addEventListener('volumechange', () => {
 			if (this.audio) {
-				this.eventHandlers.onVolumeChange?.(this.audio.volume, this.audio.muted);
+				this.eventHandlers.onVolumeChange?.(this.getVolume(), this.audio.muted);
 			}
 		});
 
-		this.audio.addEventListener('ratechange', () => {
+		addEventListener('ratechange', () => {
 			if (this.audio) {
-				this.eventHandlers.onRateChange?.(this.audio.playbackRate);
+				this.eventHandlers.onRateChange?.(this.getPlaybackRate());
 			}
 		});
 
-		this.audio.addEventListener('progress', () => {
+		addEventListener('progress', () => {
 			if (this.audio && this.audio.buffered.length > 0) {
 				const buffered = this.audio.buffered.end(this.audio.buffered.length - 1);
 				this.eventHandlers.onProgress?.(buffered);
@@ -158,6 +188,58 @@ export class PlaybackEngine {
 		});
 	}
 
+	/**
+	 * Whether a load error is likely a refused CORS request
+	 * Such failures happen before anything was loaded.
+	 */
+	private shouldRetryWithoutCors(): boolean {
+		return !!this.audio && !!this.currentUrl &&
+			this.audio.crossOrigin !== null && this.audio.crossOrigin !== undefined &&
+			this.audio.readyState === HAVE_NOTHING &&
+			this.corsRefusedUrl !== this.currentUrl;
+	}
+
+	/**
+	 * Play the current source without CORS on a new, unprocessed audio element
+	 */
+	private retryWithoutCors(): void {
+		if (!this.currentUrl) return;
+
+		logger.warn('Audio server refused CORS, playing without audio processing', this.currentUrl);
+		this.corsRefusedUrl = this.currentUrl;
+		this.replaceMediaElement();
+		this.audio!.src = this.currentUrl;
+		this.audio!.load();
+	}
+
+	/**
+	 * Replace the audio element, keeping volume, speed and mute state
+	 */
+	private replaceMediaElement(): void {
+		const previous = this.audio;
+		this.listenerController?.abort();
+		this.listenerController = null;
+		this.stopProgressTracking();
+
+		if (previous) {
+			previous.pause();
+			previous.removeAttribute('src');
+			previous.load();
+		}
+
+		this.initializeAudioElement();
+		this.mediaElementProcessed = false;
+
+		const audio = this.audio!;
+		if (previous) {
+			audio.volume = previous.volume;
+			audio.muted = previous.muted;
+			audio.playbackRate = previous.playbackRate;
+		}
+
+		this.eventHandlers.onMediaElementChange?.(audio);
+	}
+
 	/**
 	 * Set event handlers
 	 */
@@ -167,6 +249,7 @@ export class PlaybackEngine {
 
 	/**
 	 * Load audio from URL
+	 * Remote audio is loaded with CORS while audio processing is requested.
 	 */
 	load(url: string): void {
 		logger.methodEntry('PlaybackEngine', 'load', url);
@@ -183,8 +266,19 @@ export class PlaybackEngine {
 
 			// Load new audio
 			this.currentUrl = url;
-			this.audio.src = url;
-			this.audio.load();
+			if (this.rateBoost > 1) {
+				this.audio.playbackRate = this.playbackRate;
+				this.rateBoost = 1;
+			}
+
+			const useCors = this.shouldUseCors(url);
+			// A processed element would play this source as silence
+			if (!useCors && this.mediaElementProcessed && PlaybackEngine.isRemoteUrl(url)) {
+				this.replaceMediaElement();
+			}
+			this.audio!.crossOrigin = useCors ? 'anonymous' : null;
+			this.audio!.src = url;
+			this.audio!.load();
 
 			logger.info('Audio loaded', url);
 			logger.methodExit('PlaybackEngine', 'load');
@@ -209,8 +303,17 @@ export class PlaybackEngine {
 			throw new AudioPlaybackError('No audio loaded');
 		}
 
+		const audio = this.audio;
 		try {
-			await this.audio.play();
+			try {
+				await audio.play();
+			} catch (error) {
+				// The source refused CORS and now plays on a new element
+				if (!this.audio || this.audio === audio) {
+					throw error;
+				}
+				await this.audio.play();
+			}
 			logger.info('Audio playing');
 			logger.methodExit('PlaybackEngine', 'play');
 		} catch (error) {
@@ -286,12 +389,155 @@ export class PlaybackEngine {
 		}
 
 		const validVolume = validateVolume(volume);
-		this.audio.volume = validVolume;
+		this.volume = validVolume;
+		this.audio.volume = validVolume * this.fadeLevel;
 
 		logger.debug('Volume set to', validVolume);
 		logger.methodExit('PlaybackEngine', 'setVolume');
 	}
 
+	/**
+	 * Scale the output volume for fades (0.0 to 1.0)
+	 * The volume reported to listeners is not affected.
+	 */
+	setFadeLevel(level: number): void {
+		if (!this.audio) {
+			throw new AudioPlaybackError('Audio element not initialized');
+		}
+
+		const validLevel = Math.max(0, Math.min(1, level));
+		if (validLevel === this.fadeLevel) {
+			return;
+		}
+
+		if (this.fadeLevel === 1) {
+			this.volume = this.audio.volume;
+		}
+		this.fadeLevel = validLevel;
+		this.audio.volume = this.volume * validLevel;
+	}
+
+	/**
+	 * Get the current fade level
+	 */
+	getFadeLevel(): number {
+		return this.fadeLevel;
+	}
+
+	/**
+	 * Speed up playback temporarily, e.g. through silence (1.0 = normal)
+	 * The playback rate reported to listeners is not affected.
+	 */
+	setRateBoost(boost: number): void {
+		if (!this.audio) {
+			throw new AudioPlaybackError('Audio element not initialized');
+		}
+
+		const validBoost = Math.max(1, boost);
+		if (validBoost === this.rateBoost) {
+			return;
+		}
+
+		if (this.rateBoost === 1) {
+			this.playbackRate = this.audio.playbackRate;
+		}
+		this.rateBoost = validBoost;
+		this.audio.playbackRate = this.playbackRate * validBoost;
+	}
+
+	/**
+	 * Get the current rate boost
+	 */
+	getRateBoost(): number {
+		return this.rateBoost;
+	}
+
+	/**
+	 * Get the underlying audio element (for Web Audio processing)
+	 */
+	getMediaElement(): HTMLAudioElement | null {
+		return this.audio;
+	}
+
+	/**
+	 * Request remote audio with CORS so that Web Audio can process it
+	 * A remote source that is already loaded without CORS is reloaded at the same position.
+	 */
+	setCrossOriginAudio(enabled: boolean): void {
+		this.crossOriginAudio = enabled;
+
+		if (enabled && this.audio && this.currentUrl && !this.audio.crossOrigin && this.shouldUseCors(this.currentUrl)) {
+			this.reloadWithCors();
+		}
+	}
+
+	/**
+	 * Whether Web Audio can read the samples of the current source
+	 */
+	canProcessAudio(): boolean {
+		if (!this.audio || !this.currentUrl) {
+			return false;
+		}
+		return !PlaybackEngine.isRemoteUrl(this.currentUrl) || this.audio.crossOrigin === 'anonymous';
+	}
+
+	/**
+	 * Route the audio element through Web Audio
+	 * Returns null when the current source cannot be processed. From then on
+	 * remote audio is always loaded with CORS, because the element can no
+	 * longer play without Web Audio.
+	 */
+	createMediaElementSource(context: AudioContext): MediaElementAudioSourceNode | null {
+		if (!this.audio || !this.canProcessAudio()) {
+			return null;
+		}
+
+		const source = context.createMediaElementSource(this.audio);
+		this.mediaElementProcessed = true;
+		return source;
+	}
+
+	/**
+	 * Whether a source is loaded from another origin
+	 * Downloaded episodes are served from the vault and need no CORS.
+	 */
+	static isRemoteUrl(url: string): boolean {
+		return /^https?:\/\//i.test(url);
+	}
+
+	private shouldUseCors(url: string): boolean {
+		return PlaybackEngine.isRemoteUrl(url) &&
+			(this.crossOriginAudio || this.mediaElementProcessed) &&
+			url !== this.corsRefusedUrl;
+	}
+
+	/**
+	 * Reload the current source with CORS, keeping the position and play state
+	 */
+	private reloadWithCors(): void {
+		if (!this.audio || !this.currentUrl) return;
+
+		const audio = this.audio;
+		const position = audio.currentTime;
+		const wasPlaying = this.isPlaying();
+
+		if (position > 0) {
+			audio.addEventListener('loadedmetadata', () => {
+				if (this.audio === audio) {
+					audio.currentTime = position;
+				}
+			}, { once: true });
+		}
+
+		audio.crossOrigin = 'anonymous';
+		audio.src = this.currentUrl;
+		audio.load();
+
+		if (wasPlaying) {
+			this.play().catch(error => logger.warn('Failed to resume playback after reloading with CORS', error));
+		}
+	}
+
 	/**
 	 * Set playback rate (speed)
 	 */
@@ -303,7 +549,8 @@ export class PlaybackEngine {
 		}
 
 		const validRate = validatePlaybackSpeed(rate);
-		this.audio.playbackRate = validRate;
+		this.playbackRate = validRate;
+		this.audio.playbackRate = validRate * this.rateBoost;
 
 		logger.debug('Playback rate set to', validRate);
 		logger.methodExit('PlaybackEngine', 'setPlaybackRate');
@@ -348,8 +595,8 @@ export class PlaybackEngine {
 			duration: this.audio.duration || 0,
 			currentTime: this.audio.currentTime || 0,
 			buffered,
-			volume: this.audio.volume,
-			playbackRate: this.audio.playbackRate,
+			volume: this.getVolume(),
+			playbackRate: this.getPlaybackRate(),
 			muted: this.audio.muted,
 		};
 	}
@@ -372,6 +619,9 @@ export class PlaybackEngine {
 	 * Get volume
 	 */
 	getVolume(): number {
+		if (this.fadeLevel < 1) {
+			return this.volume;
+		}
 		return this.audio?.volume || 1.0;
 	}
 
@@ -379,6 +629,9 @@ export class PlaybackEngine {
 	 * Get playback rate
 	 */
 	getPlaybackRate(): number {
+		if (this.rateBoost > 1) {
+			return this.playbackRate;
+		}
 		return this.audio?.playbackRate || 1.0;
 	}
 
@@ -444,6 +697,9 @@ export class PlaybackEngine {
 
 		this.stopProgressTracking();
 
+		this.listenerController?.abort();
+		this.listenerController = null;
+
 		if (this.audio) {
 			this.audio.pause();
 			this.audio.src = '';
@@ -7,9 +7,10 @@
 
 import { logger } from '../utils/Logger';
 import { AudioPlaybackError } from '../utils/errorUtils';
-import { Episode, PodcastSettings, PlaybackState, Playlist } from '../model';
+import { Episode, PodcastSettings, PlaybackState, Playlist, Chapter } from '../model';
 import { PlaybackEngine, PlaybackEventHandlers } from './PlaybackEngine';
 import { ProgressTracker } from './ProgressTracker';
+import { AudioEnhancer } from './AudioEnhancer';
 import { skipForward, skipBackward, getNextPlaybackSpeed } from '../utils/audioUtils';
 import { DEFAULT_SETTINGS } from '../model';
 
@@ -20,6 +21,9 @@ export interface PlayerEventHandlers {
 	onStateChange?: (state: PlaybackState) => void;
 	onEpisodeChange?: (episode: Episode | null) => void;
 	onEpisodeEnded?: (episode: Episode) => void;
+	onChaptersChange?: (chapters: Chapter[]) => void;
+	onTimeUpdate?: (position: number) => void;
+	onSleepTimerEnd?: () => void;
 	onError?: (error: Error) => void;
 }
 
@@ -28,6 +32,46 @@ export interface PlayerEventHandlers {
  */
 export type PodcastSettingsProvider = (podcastId: string) => Promise<PodcastSettings | null>;
 
+/**
+ * Audio source resolver function type
+ * Returns a local URL to play instead of the episode's remote audio URL, or null to stream.
+ */
+export type AudioSourceResolver = (episode: Episode) => Promise<string | null>;
+
+/**
+ * Chapter loader function type
+ */
+export type ChapterLoader = (episode: Episode) => Promise<Chapter[]>;
+
+/**
+ * How consecutive episodes are joined
+ * - gap: silence between episodes
+ * - fade: the end of an episode fades out, then the next one fades in (they don't overlap)
+ */
+export type EpisodeTransitionMode = 'none' | 'gap' | 'fade';
+
+/**
+ * When the sleep timer pauses playback
+ * - minutes: after a number of minutes of playback
+ * - episode: at the end of the current episode
+ * - chapter: at the end of the current chapter
+ */
+export type SleepTimerMode = 'minutes' | 'episode' | 'chapter';
+
+/**
+ * Running sleep timer
+ */
+export interface SleepTimerState {
+	mode: SleepTimerMode;
+	/** Seconds until playback pauses (playback time for the episode and chapter modes) */
+	remaining: number;
+}
+
+/**
+ * Seconds into a chapter after which "previous chapter" restarts the current one
+ */
+const CHAPTER_RESTART_THRESHOLD = 3;
+
 /**
  * Player Controller
  */
@@ -39,6 +83,19 @@ export class PlayerController {
 	private eventHandlers: PlayerEventHandlers = {};
 	private state: PlaybackState;
 	private settingsProvider: PodcastSettingsProvider | null = null;
+	private sourceResolver: AudioSourceResolver | null = null;
+	private chapterLoader: ChapterLoader | null = null;
+	private audioEnhancer: AudioEnhancer | null = null;
+	private chapters: Chapter[] = [];
+	private transitionMode: EpisodeTransitionMode = 'none';
+	private transitionSeconds = 0;
+	private lastPosition = 0;
+	private fadeInPending = false;
+	private fadeInFrom: number | null = null;
+	private sleepTimer: { mode: SleepTimerMode; remainingMs: number; chapterEnd: number | null } | null = null;
+	private sleepLastTickAt: number | null = null;
+	private sleepFadeSeconds = 30;
+	private sleeping = false;
 
 	// Playlist tracking (for prev/next without creating a queue)
 	private currentPlaylist: Playlist | null = null;
@@ -72,10 +129,15 @@ export class PlayerController {
 	private setupEngineHandlers(): void {
 		const handlers: PlaybackEventHandlers = {
 			onPlay: () => {
+				this.sleepLastTickAt = Date.now();
+				this.wakeUp();
+				this.progressTracker.startSession(this.engine.getPlaybackRate());
 				this.updateState({ status: 'playing' });
 			},
 
 			onPause: () => {
+				this.sleepLastTickAt = null;
+				void this.progressTracker.endSession();
 				this.updateState({ status: 'paused' });
 			},
 
@@ -86,6 +148,10 @@ export class PlayerController {
 			onTimeUpdate: (currentTime: number) => {
 				this.updateState({ position: currentTime });
 				this.progressTracker.updatePosition(currentTime);
+				this.eventHandlers.onTimeUpdate?.(currentTime);
+				this.updateSleepTimer(currentTime);
+				this.updateFade(currentTime);
+				this.checkEffectiveEnd(currentTime);
 			},
 
 			onDurationChange: (duration: number) => {
@@ -111,6 +177,7 @@ export class PlayerController {
 			},
 
 			onRateChange: (playbackRate: number) => {
+				this.progressTracker.setPlaybackSpeed(playbackRate);
 				this.updateState({ playbackSpeed: playbackRate });
 			},
 		};
@@ -153,11 +220,18 @@ export class PlayerController {
 				await this.progressTracker.stopTracking(true);
 			}
 
-			// Load audio
-			this.engine.load(episode.audioUrl);
+			// Fade in after an episode that faded out
+			this.fadeInFrom = null;
+			this.engine.setFadeLevel(this.fadeInPending ? 0 : 1);
+
+			// Load audio, preferring a local copy when one is available
+			this.engine.load(await this.resolveAudioSource(episode));
 
 			// Set current episode
 			this.currentEpisode = episode;
+			this.chapters = episode.chapters || [];
+			this.resetSleepChapterEnd();
+			void this.loadChapters(episode);
 			this.updateState({
 				currentEpisode: episode,
 				status: 'paused',
@@ -205,6 +279,11 @@ export class PlayerController {
 
 			// Apply the starting position
 			this.engine.seek(startPosition);
+			this.lastPosition = startPosition;
+			if (this.fadeInPending) {
+				this.fadeInPending = false;
+				this.fadeInFrom = startPosition;
+			}
 
 			// Wait a moment for seek to complete, then update state to reflect actual position
 			await new Promise(resolve => setTimeout(resolve, 50));
@@ -295,6 +374,7 @@ export class PlayerController {
 		logger.methodEntry('PlayerController', 'stop');
 
 		this.engine.stop();
+		this.sleepTimer = null;
 
 		// Save progress and stop tracking
 		if (this.currentEpisode) {
@@ -302,6 +382,7 @@ export class PlayerController {
 		}
 
 		this.currentEpisode = null;
+		this.chapters = [];
 		this.updateState({
 			currentEpisode: undefined,
 			status: 'stopped',
@@ -321,6 +402,11 @@ export class PlayerController {
 
 		this.engine.seek(position);
 		this.progressTracker.updatePosition(position);
+		// A seek never counts as playing through the effective end
+		this.lastPosition = position;
+		this.fadeInFrom = null;
+		this.resetSleepChapterEnd();
+		this.updateFade(position);
 
 		logger.methodExit('PlayerController', 'seek');
 	}
@@ -407,6 +493,10 @@ export class PlayerController {
 		// Apply settings to engine
 		this.engine.setVolume(settings.volume);
 		this.engine.setPlaybackRate(settings.playbackSpeed);
+		this.audioEnhancer?.setOptions({
+			voiceBoost: settings.voiceBoost || false,
+			skipSilence: settings.skipSilence || false,
+		});
 
 		logger.info('Podcast settings applied', settings);
 		logger.methodExit('PlayerController', 'applyPodcastSettings');
@@ -468,6 +558,455 @@ export class PlayerController {
 		this.settingsProvider = provider;
 	}
 
+	/**
+	 * Set resolver for local audio sources (e.g. downloaded episodes)
+	 */
+	setSourceResolver(resolver: AudioSourceResolver | null): void {
+		this.sourceResolver = resolver;
+	}
+
+	/**
+	 * Set how consecutive episodes are joined
+	 */
+	setEpisodeTransition(mode: EpisodeTransitionMode, seconds: number): void {
+		this.transitionMode = mode;
+		this.transitionSeconds = Math.max(0, seconds);
+
+		if (mode !== 'fade') {
+			this.cancelEpisodeTransition();
+		}
+	}
+
+	/**
+	 * Drop the fade-in prepared for the next episode, e.g. when nothing follows
+	 */
+	cancelEpisodeTransition(): void {
+		this.fadeInPending = false;
+		this.fadeInFrom = null;
+		this.engine.setFadeLevel(1);
+	}
+
+	/**
+	 * Get how consecutive episodes are joined
+	 */
+	getEpisodeTransition(): { mode: EpisodeTransitionMode; seconds: number } {
+		return { mode: this.transitionMode, seconds: this.transitionSeconds };
+	}
+
+	/**
+	 * Get the position at which the current episode counts as finished
+	 * This is the duration minus the skip outro seconds.
+	 */
+	getEffectiveEnd(): number {
+		const duration = this.engine.getDuration();
+		const skipOutro = this.currentSettings.skipOutroSeconds || 0;
+
+		if (!isFinite(duration) || duration <= 0) {
+			return duration;
+		}
+		if (skipOutro <= 0 || skipOutro >= duration) {
+			return duration;
+		}
+		return duration - skipOutro;
+	}
+
+	/**
+	 * End the episode when playback crosses the skip outro point
+	 */
+	private checkEffectiveEnd(position: number): void {
+		const previous = this.lastPosition;
+		this.lastPosition = position;
+
+		const duration = this.engine.getDuration();
+		const end = this.getEffectiveEnd();
+		if (!this.currentEpisode || !this.engine.isPlaying() || end >= duration) {
+			return;
+		}
+
+		if (previous < end && position >= end) {
+			logger.info('Skipping outro', duration - end);
+			this.engine.pause();
+			void this.handleEpisodeEnded();
+		}
+	}
+
+	/**
+	 * Apply the episode transition and sleep timer fades for a position
+	 */
+	private updateFade(position: number): void {
+		const fading = this.transitionMode === 'fade' && this.transitionSeconds > 0;
+		if (!fading && !this.sleepTimer) {
+			return;
+		}
+
+		const level = fading ? this.getTransitionFadeLevel(position) : 1;
+		this.engine.setFadeLevel(Math.min(level, this.getSleepFadeLevel(position)));
+	}
+
+	/**
+	 * Fade the end of the episode out and the start of the next one in
+	 */
+	private getTransitionFadeLevel(position: number): number {
+		let level = 1;
+
+		const remaining = this.getEffectiveEnd() - position;
+		if (remaining > 0 && remaining < this.transitionSeconds) {
+			level = remaining / this.transitionSeconds;
+		}
+
+		if (this.fadeInFrom !== null) {
+			const elapsed = position - this.fadeInFrom;
+			if (elapsed >= this.transitionSeconds || elapsed < 0) {
+				this.fadeInFrom = null;
+			} else {
+				level = Math.min(level, elapsed / this.transitionSeconds);
+			}
+		}
+
+		return level;
+	}
+
+	/**
+	 * Start the sleep timer, replacing a running one
+	 * Returns false if the mode does not apply (no episode loaded or no chapters).
+	 */
+	startSleepTimer(mode: SleepTimerMode, minutes = 0): boolean {
+		logger.methodEntry('PlayerController', 'startSleepTimer', `mode=${mode}, minutes=${minutes}`);
+
+		if (mode === 'minutes' ? minutes <= 0 : !this.currentEpisode) {
+			return false;
+		}
+		if (mode === 'chapter' && this.getCurrentChapterIndex() < 0) {
+			return false;
+		}
+
+		this.sleepTimer = { mode, remainingMs: minutes * 60 * 1000, chapterEnd: null };
+		this.sleepLastTickAt = this.engine.isPlaying() ? Date.now() : null;
+		this.refreshFade();
+
+		logger.methodExit('PlayerController', 'startSleepTimer');
+		return true;
+	}
+
+	/**
+	 * Add minutes to the sleep timer
+	 * An end-of-episode or end-of-chapter timer becomes a timer for the time
+	 * left plus the extra minutes. Starts a timer when none is running.
+	 */
+	extendSleepTimer(minutes: number): void {
+		logger.methodEntry('PlayerController', 'extendSleepTimer', minutes);
+
+		const timer = this.getSleepTimer();
+		if (!timer) {
+			this.startSleepTimer('minutes', minutes);
+			return;
+		}
+
+		this.sleepTimer = {
+			mode: 'minutes',
+			remainingMs: timer.remaining * 1000 + minutes * 60 * 1000,
+			chapterEnd: null,
+		};
+		this.refreshFade();
+
+		logger.methodExit('PlayerController', 'extendSleepTimer');
+	}
+
+	/**
+	 * Cancel the sleep timer and undo its fade
+	 */
+	cancelSleepTimer(): void {
+		if (!this.sleepTimer) {
+			return;
+		}
+
+		logger.info('Sleep timer cancelled');
+		this.sleepTimer = null;
+		this.refreshFade();
+	}
+
+	/**
+	 * Get the running sleep timer
+	 */
+	getSleepTimer(): SleepTimerState | null {
+		if (!this.sleepTimer) {
+			return null;
+		}
+
+		return {
+			mode: this.sleepTimer.mode,
+			remaining: this.getSleepRemaining(this.engine.getCurrentTime()),
+		};
+	}
+
+	/**
+	 * Set how many seconds before the sleep timer ends the volume fades out
+	 */
+	setSleepTimerFade(seconds: number): void {
+		this.sleepFadeSeconds = Math.max(0, seconds);
+	}
+
+	/**
+	 * Whether the sleep timer paused playback
+	 * Stays true until playback resumes, so callers can hold off auto-advance.
+	 */
+	isSleeping(): boolean {
+		return this.sleeping;
+	}
+
+	/**
+	 * Count down the sleep timer and pause when it runs out
+	 */
+	private updateSleepTimer(position: number): void {
+		const timer = this.sleepTimer;
+		if (!timer) {
+			return;
+		}
+
+		const playing = this.engine.isPlaying();
+
+		if (timer.mode === 'minutes') {
+			const now = Date.now();
+			if (playing && this.sleepLastTickAt !== null) {
+				timer.remainingMs -= now - this.sleepLastTickAt;
+			}
+			this.sleepLastTickAt = playing ? now : null;
+
+			if (timer.remainingMs <= 0) {
+				this.fallAsleep();
+			}
+			return;
+		}
+
+		// The end of the episode itself is handled when the episode ends
+		if (timer.mode === 'chapter' && playing) {
+			const chapterEnd = this.getSleepChapterEnd(position);
+			if (position >= chapterEnd && chapterEnd < this.getEffectiveEnd()) {
+				this.fallAsleep();
+			}
+		}
+	}
+
+	/**
+	 * Seconds until the sleep timer runs out
+	 */
+	private getSleepRemaining(position: number): number {
+		const timer = this.sleepTimer;
+		if (!timer) {
+			return 0;
+		}
+
+		let remaining: number;
+		if (timer.mode === 'minutes') {
+			remaining = timer.remainingMs / 1000;
+		} else {
+			const end = timer.mode === 'chapter' ? this.getSleepChapterEnd(position) : this.getEffectiveEnd();
+			remaining = (end - position) / (this.engine.getPlaybackRate() || 1);
+		}
+
+		return isFinite(remaining) ? Math.max(0, remaining) : 0;
+	}
+
+	/**
+	 * Fade level for the last seconds of the sleep timer
+	 */
+	private getSleepFadeLevel(position: number): number {
+		if (!this.sleepTimer || this.sleepFadeSeconds <= 0) {
+			return 1;
+		}
+
+		const remaining = this.getSleepRemaining(position);
+		return remaining < this.sleepFadeSeconds ? remaining / this.sleepFadeSeconds : 1;
+	}
+
+	/**
+	 * End of the chapter the end-of-chapter timer waits for
+	 */
+	private getSleepChapterEnd(position: number): number {
+		if (!this.sleepTimer) {
+			return this.getEffectiveEnd();
+		}
+
+		if (this.sleepTimer.chapterEnd === null) {
+			const next = this.chapters[this.getChapterIndexAt(position) + 1];
+			this.sleepTimer.chapterEnd = next ? next.startTime : this.getEffectiveEnd();
+		}
+		return this.sleepTimer.chapterEnd;
+	}
+
+	/**
+	 * Look up the chapter end again after seeking or new chapters
+	 */
+	private resetSleepChapterEnd(): void {
+		if (this.sleepTimer) {
+			this.sleepTimer.chapterEnd = null;
+		}
+	}
+
+	/**
+	 * Recalculate the fade level after the sleep timer changed
+	 */
+	private refreshFade(): void {
+		const position = this.engine.getCurrentTime();
+		this.engine.setFadeLevel(1);
+		this.updateFade(position);
+	}
+
+	/**
+	 * Pause playback because the sleep timer ran out
+	 * The faded volume is restored when playback resumes.
+	 */
+	private fallAsleep(): void {
+		logger.info('Sleep timer ended, pausing playback');
+
+		this.sleepTimer = null;
+		this.sleeping = true;
+		this.engine.pause();
+		this.eventHandlers.onSleepTimerEnd?.();
+	}
+
+	/**
+	 * Restore the volume faded out by the sleep timer
+	 */
+	private wakeUp(): void {
+		if (!this.sleeping) {
+			return;
+		}
+
+		this.sleeping = false;
+		// A pending fade-in of the next episode keeps control of the volume
+		if (this.fadeInFrom === null) {
+			this.engine.setFadeLevel(1);
+		}
+	}
+
+	/**
+	 * Get the URL to load for an episode, falling back to streaming
+	 */
+	private async resolveAudioSource(episode: Episode): Promise<string> {
+		if (!this.sourceResolver) {
+			return episode.audioUrl;
+		}
+
+		try {
+			const localSource = await this.sourceResolver(episode);
+			if (localSource) {
+				logger.info('Playing local copy of episode', episode.id);
+				return localSource;
+			}
+		} catch (error) {
+			logger.warn('Failed to resolve local audio source, streaming instead', error);
+		}
+
+		return episode.audioUrl;
+	}
+
+	/**
+	 * Set chapter loader for episodes whose chapters are not embedded
+	 */
+	setChapterLoader(loader: ChapterLoader | null): void {
+		this.chapterLoader = loader;
+	}
+
+	/**
+	 * Set the Web Audio enhancer driven by the voice boost and skip silence settings
+	 */
+	setAudioEnhancer(enhancer: AudioEnhancer | null): void {
+		this.audioEnhancer = enhancer;
+	}
+
+	/**
+	 * Load chapters for an episode in the background
+	 */
+	private async loadChapters(episode: Episode): Promise<void> {
+		if (!this.chapterLoader) {
+			return;
+		}
+
+		try {
+			const chapters = await this.chapterLoader(episode);
+			// Ignore results for an episode that is no longer loaded
+			if (this.currentEpisode?.id !== episode.id) {
+				return;
+			}
+			this.chapters = chapters;
+			this.resetSleepChapterEnd();
+			this.eventHandlers.onChaptersChange?.(chapters);
+		} catch (error) {
+			logger.warn('Failed to load chapters', error);
+		}
+	}
+
+	/**
+	 * Get chapters of the current episode
+	 */
+	getChapters(): Chapter[] {
+		return this.chapters;
+	}
+
+	/**
+	 * Get the index of the chapter at the current position (-1 if none)
+	 */
+	getCurrentChapterIndex(): number {
+		return this.getChapterIndexAt(this.engine.getCurrentTime());
+	}
+
+	/**
+	 * Get the index of the chapter at a position (-1 if none)
+	 */
+	private getChapterIndexAt(position: number): number {
+		let index = -1;
+		for (let i = 0; i < this.chapters.length; i++) {
+			if (this.chapters[i].startTime > position) {
+				break;
+			}
+			index = i;
+		}
+		return index;
+	}
+
+	/**
+	 * Get the chapter at the current position
+	 */
+	getCurrentChapter(): Chapter | null {
+		return this.chapters[this.getCurrentChapterIndex()] || null;
+	}
+
+	/**
+	 * Seek to the start of the next chapter
+	 * Returns false if there is no next chapter.
+	 */
+	nextChapter(): boolean {
+		const next = this.chapters[this.getCurrentChapterIndex() + 1];
+		if (!next) {
+			return false;
+		}
+
+		this.seek(next.startTime);
+		return true;
+	}
+
+	/**
+	 * Seek to the start of the previous chapter
+	 * Restarts the current chapter instead when it has been playing for a few seconds.
+	 * Returns false if there is no chapter to go back to.
+	 */
+	previousChapter(): boolean {
+		const index = this.getCurrentChapterIndex();
+		if (index < 0) {
+			return false;
+		}
+
+		const current = this.chapters[index];
+		const position = this.engine.getCurrentTime();
+		const target = position - current.startTime > CHAPTER_RESTART_THRESHOLD || index === 0
+			? current
+			: this.chapters[index - 1];
+
+		this.seek(target.startTime);
+		return true;
+	}
+
 	/**
 	 * Mark current episode as completed
 	 */
@@ -480,6 +1019,24 @@ export class PlayerController {
 		logger.info('Episode marked as completed', this.currentEpisode.id);
 	}
 
+	/**
+	 * Play the current episode again from the start (after skip intro)
+	 */
+	async restartEpisode(): Promise<void> {
+		if (!this.currentEpisode) {
+			throw new AudioPlaybackError('No episode loaded');
+		}
+
+		const start = this.currentSettings.skipIntroSeconds || 0;
+		this.seek(start);
+		if (this.fadeInPending) {
+			this.fadeInPending = false;
+			this.fadeInFrom = start;
+			this.engine.setFadeLevel(0);
+		}
+		await this.play();
+	}
+
 	/**
 	 * Handle episode ended
 	 */
@@ -493,6 +1050,20 @@ export class PlayerController {
 		// Mark as completed
 		await this.progressTracker.markCompleted();
 
+		// End-of-episode and end-of-chapter timers end with the episode
+		if (this.sleepTimer && this.sleepTimer.mode !== 'minutes') {
+			logger.info('Sleep timer ended with the episode');
+			this.sleepTimer = null;
+			this.sleeping = true;
+			this.eventHandlers.onSleepTimerEnd?.();
+		}
+
+		// The next episode fades in; restore the volume in case nothing follows
+		if (this.transitionMode === 'fade' && this.transitionSeconds > 0) {
+			this.fadeInPending = true;
+		}
+		this.engine.setFadeLevel(1);
+
 		// Update state
 		this.updateState({ status: 'stopped' });
 
@@ -529,6 +1100,8 @@ export class PlayerController {
 		this.engine.destroy();
 
 		this.currentEpisode = null;
+		this.chapters = [];
+		this.sleepTimer = null;
 		this.currentPlaylist = null;
 		this.currentPlaylistIndex = -1;
 		this.eventHandlers = {};
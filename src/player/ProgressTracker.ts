@@ -3,11 +3,14 @@
  *
  * Automatically saves playback progress to ProgressStore at regular intervals.
  * Supports resume playback from last position.
+ * Records listening sessions (play to pause) in the listening log.
+ * Reports episodes reaching completion once their session is recorded.
  */
 
 import { logger } from '../utils/Logger';
 import { Episode, PlayProgress } from '../model';
 import { ProgressStore } from '../storage/ProgressStore';
+import { ListeningLogStore } from '../stats/ListeningLogStore';
 import { isEpisodeCompleted } from '../utils/audioUtils';
 
 /**
@@ -22,6 +25,15 @@ export interface ProgressTrackingOptions {
 	completionThreshold?: number;
 }
 
+/**
+ * Callback invoked when a tracked episode is completed
+ * Runs after the listening session covering the completion was recorded.
+ */
+export type EpisodeCompletedHandler = (episode: Episode) => void | Promise<void>;
+
+/** Sessions shorter than this (in milliseconds) are not logged */
+const MIN_SESSION_MS = 1000;
+
 /**
  * Progress Tracker
  */
@@ -35,6 +47,12 @@ export class ProgressTracker {
 	private completionThreshold: number;
 	private saveTimer: number | null = null;
 	private isTracking = false;
+	private listeningLog: ListeningLogStore | null = null;
+	private session: { startedAt: Date; startPosition: number; playbackSpeed: number } | null = null;
+	private sessionWrite: Promise<void> = Promise.resolve();
+	private completedHandler: EpisodeCompletedHandler | null = null;
+	private completionReported = false;
+	private pendingCompletion: Episode | null = null;
 
 	constructor(
 		progressStore: ProgressStore,
@@ -59,6 +77,7 @@ export class ProgressTracker {
 
 		this.currentEpisode = episode;
 		this.isTracking = true;
+		this.completionReported = false;
 
 		// Load existing progress
 		const existingProgress = await this.progressStore.getProgress(episode.id);
@@ -91,6 +110,8 @@ export class ProgressTracker {
 		// Stop periodic save
 		this.stopPeriodicSave();
 
+		await this.endSession();
+
 		// Save final progress if requested
 		if (saveProgress && this.currentEpisode) {
 			await this.saveProgress(this.lastSavedPosition, true);
@@ -152,11 +173,116 @@ export class ProgressTracker {
 			this.currentEpisode.podcastId,
 			this.currentEpisode.duration
 		);
+		this.reportCompleted(this.currentEpisode);
 
 		logger.info('Episode marked as completed', this.currentEpisode.id);
 		logger.methodExit('ProgressTracker', 'markCompleted');
 	}
 
+	/**
+	 * Set a handler notified when a tracked episode is completed
+	 */
+	setCompletedHandler(handler: EpisodeCompletedHandler | null): void {
+		this.completedHandler = handler;
+	}
+
+	/**
+	 * Report a completed episode once per tracking, after its open session ends
+	 */
+	private reportCompleted(episode: Episode): void {
+		if (this.completionReported || !this.completedHandler) {
+			return;
+		}
+		this.completionReported = true;
+
+		if (this.session) {
+			this.pendingCompletion = episode;
+		} else {
+			this.notifyCompleted(episode);
+		}
+	}
+
+	private notifyCompleted(episode: Episode): void {
+		const handler = this.completedHandler;
+		if (!handler) {
+			return;
+		}
+
+		// Wait for session writes in flight so the handler sees the whole session
+		void this.sessionWrite
+			.then(() => handler(episode))
+			.catch(error => logger.error('Episode completed handler failed', error));
+	}
+
+	/**
+	 * Set the store that listening sessions are recorded in
+	 */
+	setListeningLog(log: ListeningLogStore | null): void {
+		this.listeningLog = log;
+	}
+
+	/**
+	 * Start a listening session at the current position
+	 * An open session is ended first.
+	 */
+	startSession(playbackSpeed: number): void {
+		if (!this.isTracking || !this.currentEpisode) {
+			return;
+		}
+
+		if (this.session) {
+			void this.endSession();
+		}
+
+		this.session = {
+			startedAt: new Date(),
+			startPosition: this.lastSavedPosition,
+			playbackSpeed,
+		};
+	}
+
+	/**
+	 * Split the open session when the playback speed changes
+	 */
+	setPlaybackSpeed(playbackSpeed: number): void {
+		if (this.session && this.session.playbackSpeed !== playbackSpeed) {
+			this.startSession(playbackSpeed);
+		}
+	}
+
+	/**
+	 * End the open listening session and record it
+	 */
+	async endSession(): Promise<void> {
+		const session = this.session;
+		const episode = this.currentEpisode;
+		const completed = this.pendingCompletion;
+		this.session = null;
+		this.pendingCompletion = null;
+
+		const endedAt = new Date();
+		const listeningLog = this.listeningLog;
+		if (session && episode && listeningLog && endedAt.getTime() - session.startedAt.getTime() >= MIN_SESSION_MS) {
+			const write = listeningLog.addSession({
+				episodeId: episode.id,
+				podcastId: episode.podcastId,
+				startedAt: session.startedAt,
+				endedAt,
+				startPosition: session.startPosition,
+				endPosition: this.lastSavedPosition,
+				playbackSpeed: session.playbackSpeed,
+			}).catch(error => {
+				logger.error('Failed to record listening session', error);
+			});
+			this.sessionWrite = this.sessionWrite.then(() => write);
+			await write;
+		}
+
+		if (completed) {
+			this.notifyCompleted(completed);
+		}
+	}
+
 	/**
 	 * Get last saved position
 	 */
@@ -265,6 +391,8 @@ export class ProgressTracker {
 			return;
 		}
 
+		const episode = this.currentEpisode;
+
 		try {
 			// Check if episode is completed
 			const isCompleted = isEpisodeCompleted(
@@ -287,6 +415,10 @@ export class ProgressTracker {
 
 			this.lastSavedTime = Date.now();
 
+			if (isCompleted && this.currentEpisode === episode) {
+				this.reportCompleted(episode);
+			}
+
 			logger.debug('Progress saved', {
 				episodeId: this.currentEpisode.id,
 				position,
@@ -0,0 +1,312 @@
+/**
+ * Unit tests for AudioEnhancer
+ */
+
+import { AudioEnhancer } from '../AudioEnhancer';
+import { PlaybackEngine } from '../PlaybackEngine';
+
+jest.useFakeTimers();
+
+global.window = {
+	setInterval: jest.fn((callback, delay) => setInterval(callback, delay)),
+	clearInterval: jest.fn((id) => clearInterval(id)),
+} as any;
+
+const createNode = () => ({
+	connect: jest.fn(),
+	disconnect: jest.fn(),
+});
+
+const createParam = (value = 0) => ({ value });
+
+describe('AudioEnhancer', () => {
+	let enhancer: AudioEnhancer;
+	let mockEngine: jest.Mocked<PlaybackEngine>;
+	let element: { volume: number; muted: boolean; addEventListener: jest.Mock };
+	let context: any;
+	let source: any;
+	let compressor: any;
+	let gain: any;
+	let level: number;
+
+	const fillLevel = (samples: Float32Array) => samples.fill(level);
+
+	beforeEach(() => {
+		jest.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+		level = 0.2;
+		element = { volume: 1, muted: false, addEventListener: jest.fn() };
+
+		source = createNode();
+		compressor = {
+			...createNode(),
+			threshold: createParam(),
+			knee: createParam(),
+			ratio: createParam(),
+			attack: createParam(),
+			release: createParam(),
+		};
+		gain = { ...createNode(), gain: createParam(1) };
+		context = {
+			destination: { name: 'destination' },
+			createMediaElementSource: jest.fn().mockReturnValue(source),
+			createDynamicsCompressor: jest.fn().mockReturnValue(compressor),
+			createGain: jest.fn().mockReturnValue(gain),
+			createAnalyser: jest.fn().mockImplementation(() => ({
+				...createNode(),
+				fftSize: 2048,
+				getFloatTimeDomainData: jest.fn(fillLevel),
+			})),
+			resume: jest.fn().mockResolvedValue(undefined),
+			close: jest.fn().mockResolvedValue(undefined),
+		};
+
+		mockEngine = {
+			getMediaElement: jest.fn().mockReturnValue(element),
+			isPlaying: jest.fn().mockReturnValue(true),
+			setRateBoost: jest.fn(),
+			setEventHandlers: jest.fn(),
+			setCrossOriginAudio: jest.fn(),
+			canProcessAudio: jest.fn().mockReturnValue(true),
+			createMediaElementSource: jest.fn((ctx: any) => ctx.createMediaElementSource(element)),
+		} as any;
+
+		enhancer = new AudioEnhancer(mockEngine, () => context);
+	});
+
+	afterEach(() => {
+		enhancer.destroy();
+		jest.clearAllTimers();
+	});
+
+	describe('calculateRms', () => {
+		it('should return the root mean square of the samples', () => {
+			expect(AudioEnhancer.calculateRms(new Float32Array([0.5, -0.5, 0.5, -0.5]))).toBeCloseTo(0.5);
+			expect(AudioEnhancer.calculateRms(new Float32Array([]))).toBe(0);
+		});
+	});
+
+	describe('setOptions', () => {
+		it('should not touch Web Audio while everything is off', () => {
+			enhancer.setOptions({ voiceBoost: false, skipSilence: false });
+
+			expect(context.createMediaElementSource).not.toHaveBeenCalled();
+		});
+
+		it('should route audio through the compressor for voice boost', () => {
+			enhancer.setOptions({ voiceBoost: true, skipSilence: false });
+
+			expect(context.createMediaElementSource).toHaveBeenCalledWith(element);
+			expect(source.connect).toHaveBeenCalledWith(compressor);
+			expect(compressor.connect).toHaveBeenCalledWith(gain);
+			expect(gain.connect).toHaveBeenCalledWith(context.destination);
+		});
+
+		it('should connect the source straight to the output without voice boost', () => {
+			enhancer.setOptions({ voiceBoost: true, skipSilence: false });
+			source.connect.mockClear();
+
+			enhancer.setOptions({ voiceBoost: false, skipSilence: true });
+
+			expect(source.disconnect).toHaveBeenCalled();
+			expect(source.connect).toHaveBeenCalledWith(context.destination);
+			expect(source.connect).not.toHaveBeenCalledWith(compressor);
+			expect(context.createMediaElementSource).toHaveBeenCalledTimes(1);
+		});
+
+		it('should request CORS for remote audio while an enhancement is on', () => {
+			enhancer.setOptions({ voiceBoost: true, skipSilence: false });
+			expect(mockEngine.setCrossOriginAudio).toHaveBeenLastCalledWith(true);
+
+			enhancer.setOptions({ voiceBoost: false, skipSilence: false });
+			expect(mockEngine.setCrossOriginAudio).toHaveBeenLastCalledWith(false);
+		});
+
+		it('should not process a source that Web Audio cannot read', () => {
+			mockEngine.canProcessAudio.mockReturnValue(false);
+
+			enhancer.setOptions({ voiceBoost: true, skipSilence: true });
+			level = 0.001;
+			jest.advanceTimersByTime(1000);
+
+			expect(context.createMediaElementSource).not.toHaveBeenCalled();
+			expect(mockEngine.setRateBoost).not.toHaveBeenCalled();
+		});
+
+		it('should build the graph once the source can be read', () => {
+			mockEngine.canProcessAudio.mockReturnValue(false);
+			enhancer.setOptions({ voiceBoost: true, skipSilence: false });
+
+			mockEngine.canProcessAudio.mockReturnValue(true);
+			jest.advanceTimersByTime(100);
+
+			expect(context.createMediaElementSource).toHaveBeenCalledWith(element);
+			expect(source.connect).toHaveBeenCalledWith(compressor);
+		});
+
+		it('should stay disabled when Web Audio is unavailable', () => {
+			enhancer = new AudioEnhancer(mockEngine, () => null);
+
+			enhancer.setOptions({ voiceBoost: true, skipSilence: true });
+			jest.advanceTimersByTime(1000);
+
+			expect(mockEngine.setRateBoost).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('silence skipping', () => {
+		beforeEach(() => {
+			enhancer.setOptions({ voiceBoost: false, skipSilence: true });
+		});
+
+		it('should speed up after a stretch of silence and slow down again', () => {
+			level = 0.001;
+			jest.advanceTimersByTime(300);
+			expect(mockEngine.setRateBoost).not.toHaveBeenCalled();
+
+			jest.advanceTimersByTime(200);
+			expect(mockEngine.setRateBoost).toHaveBeenCalledWith(4);
+
+			level = 0.2;
+			jest.advanceTimersByTime(50);
+			expect(mockEngine.setRateBoost).toHaveBeenLastCalledWith(1);
+		});
+
+		it('should keep short pauses', () => {
+			level = 0.001;
+			jest.advanceTimersByTime(300);
+			level = 0.2;
+			jest.advanceTimersByTime(50);
+			level = 0.001;
+			jest.advanceTimersByTime(300);
+
+			expect(mockEngine.setRateBoost).not.toHaveBeenCalled();
+		});
+
+		it('should measure silence independent of the player volume', () => {
+			element.volume = 0.1;
+			level = 0.02;
+			jest.advanceTimersByTime(1000);
+
+			expect(mockEngine.setRateBoost).not.toHaveBeenCalled();
+		});
+
+		it('should not skip when samples are unavailable or muted', () => {
+			level = 0;
+			jest.advanceTimersByTime(1000);
+			level = 0.001;
+			element.muted = true;
+			jest.advanceTimersByTime(1000);
+
+			expect(mockEngine.setRateBoost).not.toHaveBeenCalled();
+		});
+
+		it('should report time saved in batches', () => {
+			const handler = jest.fn();
+			enhancer.setTimeSavedHandler(handler);
+
+			level = 0.001;
+			jest.advanceTimersByTime(400);
+			jest.advanceTimersByTime(2000);
+			level = 0.2;
+			jest.advanceTimersByTime(50);
+			expect(handler).not.toHaveBeenCalled();
+
+			level = 0.001;
+			jest.advanceTimersByTime(400);
+			jest.advanceTimersByTime(2000);
+			level = 0.2;
+			jest.advanceTimersByTime(50);
+
+			expect(handler).toHaveBeenCalledTimes(1);
+			expect(handler.mock.calls[0][0]).toBeCloseTo(12);
+		});
+
+		it('should flush time saved when playback pauses', () => {
+			const handler = jest.fn();
+			enhancer.setTimeSavedHandler(handler);
+
+			level = 0.001;
+			jest.advanceTimersByTime(1400);
+			mockEngine.isPlaying.mockReturnValue(false);
+			jest.advanceTimersByTime(50);
+
+			expect(mockEngine.setRateBoost).toHaveBeenLastCalledWith(1);
+			expect(handler).toHaveBeenCalledTimes(1);
+			expect(handler.mock.calls[0][0]).toBeCloseTo(3);
+		});
+
+		it('should flush time saved when turned off', () => {
+			const handler = jest.fn();
+			enhancer.setTimeSavedHandler(handler);
+
+			level = 0.001;
+			jest.advanceTimersByTime(1400);
+			enhancer.setOptions({ voiceBoost: false, skipSilence: false });
+
+			expect(mockEngine.setRateBoost).toHaveBeenLastCalledWith(1);
+			expect(handler).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe('voice boost', () => {
+		it('should raise the gain for quiet audio within limits', () => {
+			enhancer.setOptions({ voiceBoost: true, skipSilence: false });
+
+			level = 0.05;
+			jest.advanceTimersByTime(50);
+			expect(gain.gain.value).toBeCloseTo(2);
+
+			level = 0.011;
+			jest.advanceTimersByTime(10000);
+			expect(gain.gain.value).toBeLessThanOrEqual(4);
+			expect(gain.gain.value).toBeGreaterThan(2);
+		});
+
+		it('should lower the gain for loud audio', () => {
+			enhancer.setOptions({ voiceBoost: true, skipSilence: false });
+
+			level = 0.4;
+			jest.advanceTimersByTime(50);
+
+			expect(gain.gain.value).toBe(0.5);
+		});
+
+		it('should reset the gain when turned off', () => {
+			enhancer.setOptions({ voiceBoost: true, skipSilence: false });
+			level = 0.05;
+			jest.advanceTimersByTime(50);
+
+			enhancer.setOptions({ voiceBoost: false, skipSilence: true });
+
+			expect(gain.gain.value).toBe(1);
+		});
+	});
+
+	describe('media element changes', () => {
+		it('should release the graph when the engine replaces its audio element', () => {
+			enhancer.setOptions({ voiceBoost: false, skipSilence: true });
+			const handlers = mockEngine.setEventHandlers.mock.calls[0][0];
+
+			mockEngine.canProcessAudio.mockReturnValue(false);
+			handlers.onMediaElementChange!(element as any);
+			level = 0.001;
+			jest.advanceTimersByTime(1000);
+
+			expect(context.close).toHaveBeenCalled();
+			expect(mockEngine.setRateBoost).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('destroy', () => {
+		it('should close the audio context and stop polling', () => {
+			enhancer.setOptions({ voiceBoost: false, skipSilence: true });
+
+			enhancer.destroy();
+			level = 0.001;
+			jest.advanceTimersByTime(1000);
+
+			expect(context.close).toHaveBeenCalled();
+			expect(mockEngine.setRateBoost).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -0,0 +1,201 @@
+/**
+ * Unit tests for MediaSessionManager
+ */
+
+import { MediaSessionManager } from '../MediaSessionManager';
+import { PlayerController } from '../PlayerController';
+import { Episode, Podcast } from '../../model';
+
+// Mock logger
+jest.mock('../../utils/Logger', () => ({
+	logger: {
+		methodEntry: jest.fn(),
+		methodExit: jest.fn(),
+		debug: jest.fn(),
+		info: jest.fn(),
+		warn: jest.fn(),
+		error: jest.fn(),
+	},
+}));
+
+describe('MediaSessionManager', () => {
+	const episode: Episode = {
+		id: 'ep-123',
+		podcastId: 'podcast-456',
+		title: 'Test Episode',
+		description: 'Test Description',
+		audioUrl: 'https://example.com/audio.mp3',
+		duration: 3600,
+		publishDate: new Date('2024-01-01'),
+	};
+
+	const podcast: Podcast = {
+		id: 'podcast-456',
+		title: 'Test Podcast',
+		author: 'Test Author',
+		description: '',
+		feedUrl: 'https://example.com/feed.xml',
+		imageUrl: 'https://example.com/art.png',
+		subscribedAt: new Date('2024-01-01'),
+	};
+
+	let handlers: Map<string, (details: MediaSessionActionDetails) => void>;
+	let mockSession: {
+		metadata: unknown;
+		playbackState: string;
+		setActionHandler: jest.Mock;
+		setPositionState: jest.Mock;
+	};
+	let mockController: jest.Mocked<PlayerController>;
+	let trackHandlers: { onPreviousTrack: jest.Mock; onNextTrack: jest.Mock };
+	let manager: MediaSessionManager;
+
+	beforeAll(() => {
+		(global as any).MediaMetadata = class {
+			constructor(init: object) {
+				Object.assign(this, init);
+			}
+		};
+	});
+
+	afterAll(() => {
+		delete (global as any).MediaMetadata;
+	});
+
+	beforeEach(() => {
+		handlers = new Map();
+		mockSession = {
+			metadata: null,
+			playbackState: 'none',
+			setActionHandler: jest.fn((action: string, handler: ((details: MediaSessionActionDetails) => void) | null) => {
+				if (action === 'stop') {
+					throw new Error('Unsupported action');
+				}
+				if (handler) {
+					handlers.set(action, handler);
+				} else {
+					handlers.delete(action);
+				}
+			}),
+			setPositionState: jest.fn(),
+		};
+
+		mockController = {
+			play: jest.fn().mockResolvedValue(undefined),
+			pause: jest.fn(),
+			stop: jest.fn().mockResolvedValue(undefined),
+			seek: jest.fn(),
+			skipForward: jest.fn(),
+			skipBackward: jest.fn(),
+		} as unknown as jest.Mocked<PlayerController>;
+
+		trackHandlers = { onPreviousTrack: jest.fn(), onNextTrack: jest.fn() };
+		manager = new MediaSessionManager(mockController, trackHandlers, mockSession as unknown as MediaSession);
+	});
+
+	describe('attach', () => {
+		it('should route actions to the player and track handlers', () => {
+			manager.attach();
+
+			handlers.get('play')!({ action: 'play' });
+			handlers.get('pause')!({ action: 'pause' });
+			handlers.get('seekforward')!({ action: 'seekforward', seekOffset: 10 });
+			handlers.get('seekbackward')!({ action: 'seekbackward' });
+			handlers.get('seekto')!({ action: 'seekto', seekTime: 42 });
+			handlers.get('nexttrack')!({ action: 'nexttrack' });
+			handlers.get('previoustrack')!({ action: 'previoustrack' });
+
+			expect(mockController.play).toHaveBeenCalled();
+			expect(mockController.pause).toHaveBeenCalled();
+			expect(mockController.skipForward).toHaveBeenCalledWith(10);
+			expect(mockController.skipBackward).toHaveBeenCalledWith(undefined);
+			expect(mockController.seek).toHaveBeenCalledWith(42);
+			expect(trackHandlers.onNextTrack).toHaveBeenCalled();
+			expect(trackHandlers.onPreviousTrack).toHaveBeenCalled();
+		});
+
+		it('should skip actions the platform does not support', () => {
+			expect(() => manager.attach()).not.toThrow();
+			expect(handlers.has('stop')).toBe(false);
+			expect(handlers.has('play')).toBe(true);
+		});
+
+		it('should do nothing without the Media Session API', () => {
+			const unsupported = new MediaSessionManager(mockController, trackHandlers, null);
+
+			expect(unsupported.isSupported()).toBe(false);
+			expect(() => unsupported.attach()).not.toThrow();
+		});
+	});
+
+	describe('detach', () => {
+		it('should clear handlers and metadata', () => {
+			manager.attach();
+			manager.updateMetadata(episode, podcast);
+
+			manager.detach();
+
+			expect(handlers.size).toBe(0);
+			expect(mockSession.metadata).toBeNull();
+			expect(mockSession.playbackState).toBe('none');
+		});
+	});
+
+	describe('updateMetadata', () => {
+		it('should publish episode and podcast details', () => {
+			manager.updateMetadata(episode, podcast);
+
+			expect(mockSession.metadata).toEqual({
+				title: 'Test Episode',
+				artist: 'Test Author',
+				album: 'Test Podcast',
+				artwork: [{ src: 'https://example.com/art.png' }],
+			});
+		});
+
+		it('should prefer episode artwork', () => {
+			manager.updateMetadata({ ...episode, imageUrl: 'https://example.com/ep.png' }, podcast);
+
+			expect((mockSession.metadata as MediaMetadataInit).artwork).toEqual([{ src: 'https://example.com/ep.png' }]);
+		});
+
+		it('should clear metadata when no episode is loaded', () => {
+			manager.updateMetadata(episode, podcast);
+			manager.updateMetadata(null);
+
+			expect(mockSession.metadata).toBeNull();
+		});
+	});
+
+	describe('updatePlaybackState', () => {
+		it('should map player status to media session state', () => {
+			manager.updatePlaybackState('playing');
+			expect(mockSession.playbackState).toBe('playing');
+
+			manager.updatePlaybackState('loading');
+			expect(mockSession.playbackState).toBe('paused');
+
+			manager.updatePlaybackState('stopped');
+			expect(mockSession.playbackState).toBe('none');
+		});
+	});
+
+	describe('updatePositionState', () => {
+		it('should publish a clamped position', () => {
+			manager.updatePositionState(4000, 3600, 1.5);
+
+			expect(mockSession.setPositionState).toHaveBeenCalledWith({
+				duration: 3600,
+				playbackRate: 1.5,
+				position: 3600,
+			});
+		});
+
+		it('should skip unknown durations', () => {
+			manager.updatePositionState(10, NaN, 1);
+			manager.updatePositionState(10, 0, 1);
+
+			expect(mockSession.setPositionState).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -38,6 +38,8 @@ class MockAudioElement {
 	currentTime = 0;
 	duration = NaN;
 	preload = '';
+	crossOrigin: string | null = null;
+	readyState = 0;
 	buffered = {
 		length: 0,
 		start: jest.fn(),
@@ -83,6 +85,7 @@ class MockAudioElement {
 	load = jest.fn();
 	play = jest.fn().mockResolvedValue(undefined);
 	pause = jest.fn();
+	removeAttribute = jest.fn();
 }
 
 // Replace global Audio constructor
@@ -150,6 +153,123 @@ describe('PlaybackEngine', () => {
 		});
 	});
 
+	describe('audio processing', () => {
+		const remoteUrl = 'https://example.com/audio.mp3';
+		const localUrl = 'app://local/podcasts/audio.mp3';
+		const context = {
+			createMediaElementSource: jest.fn().mockReturnValue({ connect: jest.fn() }),
+		} as any;
+
+		it('should load remote audio without CORS by default', () => {
+			playbackEngine.load(remoteUrl);
+
+			expect(mockAudio.crossOrigin).toBeNull();
+			expect(playbackEngine.canProcessAudio()).toBe(false);
+		});
+
+		it('should load remote audio with CORS once processing is requested', () => {
+			playbackEngine.setCrossOriginAudio(true);
+			playbackEngine.load(remoteUrl);
+
+			expect(mockAudio.crossOrigin).toBe('anonymous');
+			expect(playbackEngine.canProcessAudio()).toBe(true);
+		});
+
+		it('should process local audio without CORS', () => {
+			playbackEngine.setCrossOriginAudio(true);
+			playbackEngine.load(localUrl);
+
+			expect(mockAudio.crossOrigin).toBeNull();
+			expect(playbackEngine.canProcessAudio()).toBe(true);
+		});
+
+		it('should reload loaded remote audio with CORS at the same position', () => {
+			playbackEngine.load(remoteUrl);
+			mockAudio.currentTime = 120;
+			mockAudio.load.mockClear();
+
+			playbackEngine.setCrossOriginAudio(true);
+			expect(mockAudio.crossOrigin).toBe('anonymous');
+			expect(mockAudio.load).toHaveBeenCalled();
+
+			mockAudio.currentTime = 0;
+			mockAudio.triggerEvent('loadedmetadata');
+			expect(mockAudio.currentTime).toBe(120);
+		});
+
+		it('should not create a media element source for unreadable audio', () => {
+			playbackEngine.load(remoteUrl);
+
+			expect(playbackEngine.createMediaElementSource(context)).toBeNull();
+			expect(context.createMediaElementSource).not.toHaveBeenCalled();
+		});
+
+		it('should fall back to a new element without CORS when the server refuses it', () => {
+			const onError = jest.fn();
+			const onMediaElementChange = jest.fn();
+			playbackEngine.setEventHandlers({ onError, onMediaElementChange });
+			playbackEngine.setCrossOriginAudio(true);
+			playbackEngine.load(remoteUrl);
+			playbackEngine.createMediaElementSource(context);
+			mockAudio.volume = 0.5;
+
+			mockAudio.triggerEvent('error');
+
+			const replacement = playbackEngine.getMediaElement() as unknown as MockAudioElement;
+			expect(replacement).not.toBe(mockAudio);
+			expect(replacement.src).toBe(remoteUrl);
+			expect(replacement.crossOrigin).toBeNull();
+			expect(replacement.volume).toBe(0.5);
+			expect(onMediaElementChange).toHaveBeenCalledWith(replacement);
+			expect(onError).not.toHaveBeenCalled();
+			expect(playbackEngine.canProcessAudio()).toBe(false);
+		});
+
+		it('should report errors of sources loaded without CORS', () => {
+			const onError = jest.fn();
+			playbackEngine.setEventHandlers({ onError });
+			playbackEngine.setCrossOriginAudio(true);
+			playbackEngine.load(remoteUrl);
+			mockAudio.triggerEvent('error');
+
+			const replacement = playbackEngine.getMediaElement() as unknown as MockAudioElement;
+			replacement.triggerEvent('error');
+
+			expect(onError).toHaveBeenCalled();
+		});
+
+		it('should play a source that refused CORS on the new element', async () => {
+			playbackEngine.setCrossOriginAudio(true);
+			playbackEngine.load(remoteUrl);
+			mockAudio.play.mockImplementation(() => {
+				mockAudio.triggerEvent('error');
+				return Promise.reject(new Error('NotSupportedError'));
+			});
+
+			await playbackEngine.play();
+
+			const replacement = playbackEngine.getMediaElement() as unknown as MockAudioElement;
+			expect(replacement.play).toHaveBeenCalled();
+		});
+
+		it('should use a new element for a CORS-refusing source after processing started', () => {
+			playbackEngine.setCrossOriginAudio(true);
+			playbackEngine.load(localUrl);
+			playbackEngine.createMediaElementSource(context);
+			playbackEngine.load(remoteUrl);
+			mockAudio.triggerEvent('error');
+			const fallback = playbackEngine.getMediaElement();
+
+			// Loading the episode again must not play it through the processed element
+			playbackEngine.load('https://example.com/other.mp3');
+			playbackEngine.load(remoteUrl);
+
+			expect(playbackEngine.getMediaElement()).not.toBe(mockAudio);
+			expect((playbackEngine.getMediaElement() as unknown as MockAudioElement).crossOrigin).toBeNull();
+			expect(fallback).not.toBe(mockAudio);
+		});
+	});
+
 	describe('play', () => {
 		const testUrl = 'https://example.com/audio.mp3';
 
@@ -304,6 +424,37 @@ describe('PlaybackEngine', () => {
 		});
 	});
 
+	describe('setFadeLevel', () => {
+		it('should scale the output volume', () => {
+			playbackEngine.setVolume(0.8);
+			playbackEngine.setFadeLevel(0.5);
+
+			expect(mockAudio.volume).toBeCloseTo(0.4);
+			expect(playbackEngine.getFadeLevel()).toBe(0.5);
+		});
+
+		it('should keep reporting the unfaded volume', () => {
+			const onVolumeChange = jest.fn();
+			playbackEngine.setEventHandlers({ onVolumeChange });
+			playbackEngine.setVolume(0.8);
+
+			playbackEngine.setFadeLevel(0);
+			mockAudio.triggerEvent('volumechange');
+
+			expect(mockAudio.volume).toBe(0);
+			expect(playbackEngine.getVolume()).toBe(0.8);
+			expect(onVolumeChange).toHaveBeenCalledWith(0.8, false);
+		});
+
+		it('should apply volume changes during a fade', () => {
+			playbackEngine.setFadeLevel(0.5);
+			playbackEngine.setVolume(0.6);
+			playbackEngine.setFadeLevel(1);
+
+			expect(mockAudio.volume).toBeCloseTo(0.6);
+		});
+	});
+
 	describe('setPlaybackRate', () => {
 		it('should set playback rate', () => {
 			playbackEngine.setPlaybackRate(1.5);
@@ -322,6 +473,46 @@ describe('PlaybackEngine', () => {
 		});
 	});
 
+	describe('setRateBoost', () => {
+		it('should multiply the playback rate', () => {
+			playbackEngine.setPlaybackRate(1.5);
+			playbackEngine.setRateBoost(2);
+
+			expect(mockAudio.playbackRate).toBe(3);
+			expect(playbackEngine.getRateBoost()).toBe(2);
+		});
+
+		it('should keep reporting the normal playback rate', () => {
+			const onRateChange = jest.fn();
+			playbackEngine.setEventHandlers({ onRateChange });
+			playbackEngine.setPlaybackRate(1.5);
+
+			playbackEngine.setRateBoost(4);
+			mockAudio.triggerEvent('ratechange');
+
+			expect(playbackEngine.getPlaybackRate()).toBe(1.5);
+			expect(onRateChange).toHaveBeenCalledWith(1.5);
+		});
+
+		it('should apply speed changes during a boost', () => {
+			playbackEngine.setRateBoost(2);
+			playbackEngine.setPlaybackRate(1.2);
+			playbackEngine.setRateBoost(1);
+
+			expect(mockAudio.playbackRate).toBeCloseTo(1.2);
+		});
+
+		it('should end the boost when new audio is loaded', () => {
+			playbackEngine.setPlaybackRate(1.5);
+			playbackEngine.setRateBoost(3);
+
+			playbackEngine.load('https://example.com/next.mp3');
+
+			expect(mockAudio.playbackRate).toBe(1.5);
+			expect(playbackEngine.getRateBoost()).toBe(1);
+		});
+	});
+
 	describe('setMuted', () => {
 		it('should set muted state', () => {
 			playbackEngine.setMuted(true);
@@ -37,6 +37,7 @@ describe('PlayerController', () => {
 			setVolume: jest.fn().mockReturnValue(undefined),
 			setPlaybackRate: jest.fn().mockReturnValue(undefined),
 			setMuted: jest.fn().mockReturnValue(undefined),
+			setFadeLevel: jest.fn().mockReturnValue(undefined),
 			getCurrentTime: jest.fn().mockReturnValue(0),
 			getDuration: jest.fn().mockReturnValue(3600),
 			getPlaybackRate: jest.fn().mockReturnValue(1.0),
@@ -55,6 +56,9 @@ describe('PlayerController', () => {
 			markCompleted: jest.fn().mockResolvedValue(undefined),
 			shouldResume: jest.fn().mockResolvedValue(false),
 			getResumePosition: jest.fn().mockResolvedValue(0),
+			startSession: jest.fn(),
+			endSession: jest.fn().mockResolvedValue(undefined),
+			setPlaybackSpeed: jest.fn(),
 		} as unknown as jest.Mocked<ProgressTracker>;
 
 		playerController = new PlayerController(mockEngine, mockProgressTracker);
@@ -85,6 +89,24 @@ describe('PlayerController', () => {
 			expect(playerController.getCurrentEpisode()).toEqual(testEpisode);
 		});
 
+		it('should load a local source when the resolver provides one', async () => {
+			const resolver = jest.fn().mockResolvedValue('app://local/episode.mp3');
+			playerController.setSourceResolver(resolver);
+
+			await playerController.loadEpisode(testEpisode, false, false);
+
+			expect(resolver).toHaveBeenCalledWith(testEpisode);
+			expect(mockEngine.load).toHaveBeenCalledWith('app://local/episode.mp3');
+		});
+
+		it('should stream when the resolver has no local source or fails', async () => {
+			playerController.setSourceResolver(jest.fn().mockRejectedValue(new Error('boom')));
+
+			await playerController.loadEpisode(testEpisode, false, false);
+
+			expect(mockEngine.load).toHaveBeenCalledWith(testEpisode.audioUrl);
+		});
+
 		it('should auto-play when autoPlay is true', async () => {
 			await playerController.loadEpisode(testEpisode, true, false);
 
@@ -250,6 +272,69 @@ describe('PlayerController', () => {
 		});
 	});
 
+	describe('chapters', () => {
+		const chapteredEpisode: Episode = {
+			...testEpisode,
+			chapters: [
+				{ startTime: 0, endTime: 60, title: 'Intro' },
+				{ startTime: 60, endTime: 300, title: 'Topic' },
+				{ startTime: 300, title: 'Outro' },
+			],
+		};
+
+		beforeEach(async () => {
+			await playerController.loadEpisode(chapteredEpisode, false, false);
+			mockEngine.seek.mockClear();
+		});
+
+		it('should report the chapter at the current position', () => {
+			mockEngine.getCurrentTime.mockReturnValue(120);
+
+			expect(playerController.getCurrentChapterIndex()).toBe(1);
+			expect(playerController.getCurrentChapter()?.title).toBe('Topic');
+		});
+
+		it('should seek to the next chapter', () => {
+			mockEngine.getCurrentTime.mockReturnValue(120);
+
+			expect(playerController.nextChapter()).toBe(true);
+			expect(mockEngine.seek).toHaveBeenCalledWith(300);
+		});
+
+		it('should not seek past the last chapter', () => {
+			mockEngine.getCurrentTime.mockReturnValue(400);
+
+			expect(playerController.nextChapter()).toBe(false);
+			expect(mockEngine.seek).not.toHaveBeenCalled();
+		});
+
+		it('should restart the current chapter after a few seconds', () => {
+			mockEngine.getCurrentTime.mockReturnValue(120);
+
+			expect(playerController.previousChapter()).toBe(true);
+			expect(mockEngine.seek).toHaveBeenCalledWith(60);
+		});
+
+		it('should go to the previous chapter near the start of a chapter', () => {
+			mockEngine.getCurrentTime.mockReturnValue(61);
+
+			expect(playerController.previousChapter()).toBe(true);
+			expect(mockEngine.seek).toHaveBeenCalledWith(0);
+		});
+
+		it('should load chapters through the chapter loader', async () => {
+			const loaded = [{ startTime: 0, title: 'Fetched' }];
+			const onChaptersChange = jest.fn();
+			playerController.setEventHandlers({ onChaptersChange });
+			playerController.setChapterLoader(jest.fn().mockResolvedValue(loaded));
+
+			await playerController.loadEpisode({ ...testEpisode, id: 'ep-789' }, false, false);
+
+			expect(playerController.getChapters()).toEqual(loaded);
+			expect(onChaptersChange).toHaveBeenCalledWith(loaded);
+		});
+	});
+
 	describe('volume control', () => {
 		it('should set volume', () => {
 			playerController.setVolume(0.5);
@@ -303,6 +388,20 @@ describe('PlayerController', () => {
 			expect(mockEngine.setVolume).toHaveBeenCalledWith(0.8);
 			expect(mockEngine.setPlaybackRate).toHaveBeenCalledWith(1.5);
 		});
+
+		it('should pass audio enhancements to the enhancer', () => {
+			const enhancer = { setOptions: jest.fn() };
+			playerController.setAudioEnhancer(enhancer as any);
+
+			playerController.applyPodcastSettings({
+				volume: 1,
+				playbackSpeed: 1,
+				skipIntroSeconds: 0,
+				skipSilence: true,
+			});
+
+			expect(enhancer.setOptions).toHaveBeenCalledWith({ voiceBoost: false, skipSilence: true });
+		});
 	});
 
 	describe('state and getters', () => {
@@ -384,6 +483,268 @@ describe('PlayerController', () => {
 
 			expect(onEpisodeChange).toHaveBeenCalledWith(null);
 		});
+
+		it('should forward engine time updates to onTimeUpdate', () => {
+			const onTimeUpdate = jest.fn();
+			playerController.setEventHandlers({ onTimeUpdate });
+
+			const engineHandlers = (mockEngine.setEventHandlers as jest.Mock).mock.calls[0][0];
+			engineHandlers.onTimeUpdate(42);
+
+			expect(onTimeUpdate).toHaveBeenCalledWith(42);
+			expect(mockProgressTracker.updatePosition).toHaveBeenCalledWith(42);
+		});
+	});
+
+	describe('skip outro', () => {
+		const outroSettings: PodcastSettings = {
+			volume: 1.0,
+			playbackSpeed: 1.0,
+			skipIntroSeconds: 10,
+			skipOutroSeconds: 60,
+		};
+
+		const timeUpdate = (position: number) => {
+			const engineHandlers = (mockEngine.setEventHandlers as jest.Mock).mock.calls[0][0];
+			engineHandlers.onTimeUpdate(position);
+		};
+
+		beforeEach(async () => {
+			await playerController.loadEpisode(testEpisode, false, false);
+			playerController.applyPodcastSettings(outroSettings);
+			mockEngine.isPlaying.mockReturnValue(true);
+		});
+
+		it('should treat duration minus skip outro as the end', () => {
+			expect(playerController.getEffectiveEnd()).toBe(3540);
+		});
+
+		it('should end the episode when playback reaches the outro', async () => {
+			const onEpisodeEnded = jest.fn();
+			playerController.setEventHandlers({ onEpisodeEnded });
+
+			timeUpdate(3539);
+			timeUpdate(3540.2);
+			await new Promise(resolve => setTimeout(resolve, 0));
+
+			expect(mockEngine.pause).toHaveBeenCalled();
+			expect(mockProgressTracker.markCompleted).toHaveBeenCalled();
+			expect(onEpisodeEnded).toHaveBeenCalledWith(testEpisode);
+			expect(playerController.getState().status).toBe('stopped');
+		});
+
+		it('should keep playing after seeking into the outro', () => {
+			timeUpdate(100);
+			playerController.seek(3550);
+			timeUpdate(3551);
+
+			expect(mockEngine.pause).not.toHaveBeenCalled();
+			expect(mockProgressTracker.markCompleted).not.toHaveBeenCalled();
+		});
+
+		it('should restart from the skip intro position', async () => {
+			await playerController.restartEpisode();
+
+			expect(mockEngine.seek).toHaveBeenLastCalledWith(10);
+			expect(mockEngine.play).toHaveBeenCalled();
+		});
+	});
+
+	describe('episode transitions', () => {
+		const timeUpdate = (position: number) => {
+			const engineHandlers = (mockEngine.setEventHandlers as jest.Mock).mock.calls[0][0];
+			engineHandlers.onTimeUpdate(position);
+		};
+
+		it('should fade out the end of the episode when fading', async () => {
+			playerController.setEpisodeTransition('fade', 4);
+			await playerController.loadEpisode(testEpisode, false, false);
+
+			timeUpdate(3000);
+			expect(mockEngine.setFadeLevel).toHaveBeenLastCalledWith(1);
+
+			timeUpdate(3597);
+			expect(mockEngine.setFadeLevel).toHaveBeenLastCalledWith(0.75);
+		});
+
+		it('should fade in the episode that follows a fade', async () => {
+			playerController.setEpisodeTransition('fade', 4);
+			await playerController.loadEpisode(testEpisode, false, false);
+
+			const engineHandlers = (mockEngine.setEventHandlers as jest.Mock).mock.calls[0][0];
+			engineHandlers.onEnded();
+			await new Promise(resolve => setTimeout(resolve, 0));
+
+			await playerController.loadEpisode({ ...testEpisode, id: 'ep-next' }, false, false);
+			expect(mockEngine.setFadeLevel).toHaveBeenLastCalledWith(0);
+
+			timeUpdate(1);
+			expect(mockEngine.setFadeLevel).toHaveBeenLastCalledWith(0.25);
+
+			timeUpdate(5);
+			expect(mockEngine.setFadeLevel).toHaveBeenLastCalledWith(1);
+		});
+
+		it('should not fade in when the transition is cancelled because nothing follows', async () => {
+			playerController.setEpisodeTransition('fade', 4);
+			await playerController.loadEpisode(testEpisode, false, false);
+
+			const engineHandlers = (mockEngine.setEventHandlers as jest.Mock).mock.calls[0][0];
+			engineHandlers.onEnded();
+			await new Promise(resolve => setTimeout(resolve, 0));
+			playerController.cancelEpisodeTransition();
+
+			await playerController.loadEpisode({ ...testEpisode, id: 'ep-later' }, false, false);
+			expect(mockEngine.setFadeLevel).toHaveBeenLastCalledWith(1);
+
+			timeUpdate(1);
+			expect(mockEngine.setFadeLevel).toHaveBeenLastCalledWith(1);
+		});
+
+		it('should not fade without the fade transition', async () => {
+			playerController.setEpisodeTransition('gap', 3);
+			await playerController.loadEpisode(testEpisode, false, false);
+			mockEngine.setFadeLevel.mockClear();
+
+			timeUpdate(3599);
+
+			expect(mockEngine.setFadeLevel).not.toHaveBeenCalled();
+			expect(playerController.getEpisodeTransition()).toEqual({ mode: 'gap', seconds: 3 });
+		});
+	});
+
+	describe('sleep timer', () => {
+		const engineHandlers = () => (mockEngine.setEventHandlers as jest.Mock).mock.calls[0][0];
+		const timeUpdate = (position: number) => {
+			mockEngine.getCurrentTime.mockReturnValue(position);
+			engineHandlers().onTimeUpdate(position);
+		};
+
+		beforeEach(async () => {
+			await playerController.loadEpisode(testEpisode, false, false);
+			mockEngine.isPlaying.mockReturnValue(true);
+			mockEngine.setFadeLevel.mockClear();
+		});
+
+		afterEach(() => {
+			jest.useRealTimers();
+		});
+
+		it('should not start without an episode or chapters', async () => {
+			await playerController.stop();
+
+			expect(playerController.startSleepTimer('episode')).toBe(false);
+			expect(playerController.startSleepTimer('minutes', 0)).toBe(false);
+			expect(playerController.getSleepTimer()).toBeNull();
+		});
+
+		it('should pause after the minutes of playback and fade out before', () => {
+			jest.useFakeTimers();
+			jest.setSystemTime(new Date('2024-01-01T22:00:00Z'));
+			playerController.setSleepTimerFade(30);
+			const onSleepTimerEnd = jest.fn();
+			playerController.setEventHandlers({ onSleepTimerEnd });
+
+			playerController.startSleepTimer('minutes', 1);
+			expect(playerController.getSleepTimer()).toEqual({ mode: 'minutes', remaining: 60 });
+
+			jest.advanceTimersByTime(45 * 1000);
+			timeUpdate(45);
+			expect(mockEngine.setFadeLevel).toHaveBeenLastCalledWith(0.5);
+
+			jest.advanceTimersByTime(15 * 1000);
+			timeUpdate(60);
+			expect(mockEngine.pause).toHaveBeenCalled();
+			expect(onSleepTimerEnd).toHaveBeenCalled();
+			expect(playerController.getSleepTimer()).toBeNull();
+			expect(playerController.isSleeping()).toBe(true);
+		});
+
+		it('should not count down while paused', () => {
+			jest.useFakeTimers();
+			playerController.startSleepTimer('minutes', 1);
+
+			engineHandlers().onPause();
+			mockEngine.isPlaying.mockReturnValue(false);
+			jest.advanceTimersByTime(10 * 60 * 1000);
+			timeUpdate(100);
+
+			expect(playerController.getSleepTimer()?.remaining).toBe(60);
+			expect(mockEngine.pause).not.toHaveBeenCalled();
+		});
+
+		it('should restore the volume on the next play', () => {
+			jest.useFakeTimers();
+			playerController.startSleepTimer('minutes', 1);
+			jest.advanceTimersByTime(60 * 1000);
+			timeUpdate(60);
+			mockEngine.setFadeLevel.mockClear();
+
+			engineHandlers().onPlay();
+
+			expect(mockEngine.setFadeLevel).toHaveBeenCalledWith(1);
+			expect(playerController.isSleeping()).toBe(false);
+		});
+
+		it('should stop at the end of the episode', async () => {
+			const onSleepTimerEnd = jest.fn();
+			const onEpisodeEnded = jest.fn();
+			playerController.setEventHandlers({ onSleepTimerEnd, onEpisodeEnded });
+			playerController.setPlaybackSpeed(1.0);
+
+			playerController.startSleepTimer('episode');
+			timeUpdate(3500);
+			expect(playerController.getSleepTimer()).toEqual({ mode: 'episode', remaining: 100 });
+
+			engineHandlers().onEnded();
+			await new Promise(resolve => setTimeout(resolve, 0));
+
+			expect(onSleepTimerEnd).toHaveBeenCalled();
+			expect(onEpisodeEnded).toHaveBeenCalledWith(testEpisode);
+			expect(playerController.isSleeping()).toBe(true);
+		});
+
+		it('should pause at the end of the current chapter', async () => {
+			await playerController.loadEpisode({
+				...testEpisode,
+				id: 'ep-chapters',
+				chapters: [
+					{ startTime: 0, title: 'Intro' },
+					{ startTime: 600, title: 'Main' },
+					{ startTime: 1800, title: 'Outro' },
+				],
+			}, false, false);
+			mockEngine.getCurrentTime.mockReturnValue(700);
+
+			expect(playerController.startSleepTimer('chapter')).toBe(true);
+			expect(playerController.getSleepTimer()).toEqual({ mode: 'chapter', remaining: 1100 });
+
+			timeUpdate(1799);
+			expect(mockEngine.pause).not.toHaveBeenCalled();
+
+			timeUpdate(1800.1);
+			expect(mockEngine.pause).toHaveBeenCalled();
+		});
+
+		it('should turn an end-of-episode timer into minutes when extended', () => {
+			mockEngine.getCurrentTime.mockReturnValue(3000);
+			playerController.startSleepTimer('episode');
+
+			playerController.extendSleepTimer(10);
+
+			expect(playerController.getSleepTimer()).toEqual({ mode: 'minutes', remaining: 1200 });
+		});
+
+		it('should undo the fade when cancelled', () => {
+			mockEngine.getCurrentTime.mockReturnValue(3590);
+			playerController.startSleepTimer('episode');
+			expect(mockEngine.setFadeLevel).toHaveBeenLastCalledWith(10 / 30);
+
+			playerController.cancelSleepTimer();
+
+			expect(mockEngine.setFadeLevel).toHaveBeenLastCalledWith(1);
+			expect(playerController.getSleepTimer()).toBeNull();
+		});
 	});
 
 	describe('markEpisodeCompleted', () => {
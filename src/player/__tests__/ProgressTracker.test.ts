@@ -568,4 +568,133 @@ describe('ProgressTracker', () => {
 			expect(mockProgressStore.updateProgress).not.toHaveBeenCalled();
 		});
 	});
+
+	describe('listening sessions', () => {
+		let mockListeningLog: { addSession: jest.Mock };
+
+		beforeEach(async () => {
+			mockListeningLog = { addSession: jest.fn().mockResolvedValue(undefined) };
+			progressTracker.setListeningLog(mockListeningLog as any);
+			await progressTracker.startTracking(testEpisode);
+		});
+
+		it('should record a session from play to pause', async () => {
+			progressTracker.updatePosition(100);
+			progressTracker.startSession(1.5);
+			jest.advanceTimersByTime(60000);
+			progressTracker.updatePosition(190);
+
+			await progressTracker.endSession();
+
+			expect(mockListeningLog.addSession).toHaveBeenCalledTimes(1);
+			const session = mockListeningLog.addSession.mock.calls[0][0];
+			expect(session).toMatchObject({
+				episodeId: testEpisode.id,
+				podcastId: testEpisode.podcastId,
+				startPosition: 100,
+				endPosition: 190,
+				playbackSpeed: 1.5,
+			});
+			expect(session.endedAt.getTime() - session.startedAt.getTime()).toBe(60000);
+		});
+
+		it('should not record very short sessions', async () => {
+			progressTracker.startSession(1);
+			jest.advanceTimersByTime(500);
+
+			await progressTracker.endSession();
+
+			expect(mockListeningLog.addSession).not.toHaveBeenCalled();
+		});
+
+		it('should split the session when the speed changes', async () => {
+			progressTracker.startSession(1);
+			jest.advanceTimersByTime(30000);
+			progressTracker.setPlaybackSpeed(2);
+			jest.advanceTimersByTime(30000);
+			await progressTracker.endSession();
+
+			expect(mockListeningLog.addSession).toHaveBeenCalledTimes(2);
+			expect(mockListeningLog.addSession.mock.calls.map(call => call[0].playbackSpeed)).toEqual([1, 2]);
+		});
+
+		it('should end the session when tracking stops', async () => {
+			progressTracker.startSession(1);
+			jest.advanceTimersByTime(5000);
+
+			await progressTracker.stopTracking();
+
+			expect(mockListeningLog.addSession).toHaveBeenCalledTimes(1);
+		});
+
+		it('should ignore sessions while not tracking', async () => {
+			await progressTracker.stopTracking(false);
+
+			progressTracker.startSession(1);
+			jest.advanceTimersByTime(5000);
+			await progressTracker.endSession();
+
+			expect(mockListeningLog.addSession).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('completed handler', () => {
+		let mockListeningLog: { addSession: jest.Mock };
+		let completedHandler: jest.Mock;
+
+		// Let the handler chain behind pending session writes run
+		const settle = async () => {
+			for (let i = 0; i < 5; i++) {
+				await Promise.resolve();
+			}
+		};
+
+		beforeEach(async () => {
+			mockListeningLog = { addSession: jest.fn().mockResolvedValue(undefined) };
+			completedHandler = jest.fn();
+			progressTracker.setListeningLog(mockListeningLog as any);
+			progressTracker.setCompletedHandler(completedHandler);
+			await progressTracker.startTracking(testEpisode);
+		});
+
+		it('should report a completed episode once', async () => {
+			await progressTracker.markCompleted();
+			await progressTracker.forceSave(3590);
+			await settle();
+
+			expect(completedHandler).toHaveBeenCalledTimes(1);
+			expect(completedHandler).toHaveBeenCalledWith(testEpisode);
+		});
+
+		it('should wait for the open session to be recorded', async () => {
+			progressTracker.startSession(1);
+			jest.advanceTimersByTime(60000);
+
+			await progressTracker.forceSave(3590);
+			await settle();
+			expect(completedHandler).not.toHaveBeenCalled();
+
+			await progressTracker.endSession();
+			await settle();
+			expect(mockListeningLog.addSession).toHaveBeenCalledTimes(1);
+			expect(completedHandler).toHaveBeenCalledTimes(1);
+		});
+
+		it('should not report episodes that are not completed', async () => {
+			await progressTracker.forceSave(600);
+			await progressTracker.stopTracking();
+			await settle();
+
+			expect(completedHandler).not.toHaveBeenCalled();
+		});
+
+		it('should report again when the episode is tracked again', async () => {
+			await progressTracker.markCompleted();
+			await progressTracker.startTracking(testEpisode);
+			await progressTracker.markCompleted();
+			await settle();
+
+			expect(completedHandler).toHaveBeenCalledTimes(2);
+		});
+	});
 });
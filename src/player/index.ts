@@ -3,6 +3,7 @@
  *
  * Provides complete audio playback functionality including:
  * - Low-level playback engine (HTML5 Audio API)
+ * - Optional Web Audio enhancements (voice boost, silence skipping)
  * - Progress tracking and persistence
  * - High-level player control
  */
@@ -19,10 +20,30 @@ export {
 export {
 	ProgressTracker,
 	type ProgressTrackingOptions,
+	type EpisodeCompletedHandler,
 } from './ProgressTracker';
 
 // Export player controller
 export {
 	PlayerController,
 	type PlayerEventHandlers,
+	type AudioSourceResolver,
+	type ChapterLoader,
+	type EpisodeTransitionMode,
+	type SleepTimerMode,
+	type SleepTimerState,
 } from './PlayerController';
+
+// Export media session integration
+export {
+	MediaSessionManager,
+	type MediaSessionTrackHandlers,
+} from './MediaSessionManager';
+
+// Export audio enhancements
+export {
+	AudioEnhancer,
+	type AudioEnhancementOptions,
+	type AudioContextFactory,
+	type TimeSavedHandler,
+} from './AudioEnhancer';
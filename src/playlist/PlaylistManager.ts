@@ -129,6 +129,10 @@ export class PlaylistManager {
 			throw new Error(`Playlist not found: ${playlistId}`);
 		}
 
+		if (playlist.smartRule) {
+			throw new Error(`Cannot add episodes to smart playlist: ${playlistId}`);
+		}
+
 		// Check if episode already exists
 		if (playlist.episodeIds.includes(episodeId)) {
 			logger.warn('Episode already in playlist', episodeId);
@@ -161,6 +165,10 @@ export class PlaylistManager {
 			throw new Error(`Playlist not found: ${playlistId}`);
 		}
 
+		if (playlist.smartRule) {
+			throw new Error(`Cannot add episodes to smart playlist: ${playlistId}`);
+		}
+
 		// Add only new episodes
 		const existingIds = new Set(playlist.episodeIds);
 		const newEpisodeIds = episodeIds.filter(id => !existingIds.has(id));
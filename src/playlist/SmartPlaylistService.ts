@@ -0,0 +1,201 @@
+/**
+ * SmartPlaylistService - Keeps smart playlists up to date
+ *
+ * A smart playlist stores a filter, sort order and limit instead of a
+ * hand-picked episode list. Its episodeIds hold the latest result, so it
+ * plays through the same path as any other playlist; the result is
+ * re-evaluated after feed syncs and playback progress changes.
+ */
+
+import { logger } from '../utils/Logger';
+import { Playlist, SmartPlaylistRule } from '../model';
+import { EpisodeFilter, EpisodeManager, EpisodeWithProgress } from '../podcast/EpisodeManager';
+import { SubscriptionStore } from '../storage/SubscriptionStore';
+import { ProgressStore } from '../storage/ProgressStore';
+import { PlaylistManager } from './PlaylistManager';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A playlist filled by a rule
+ */
+export type SmartPlaylist = Playlist & { smartRule: SmartPlaylistRule };
+
+/**
+ * Smart Playlist Service
+ */
+export class SmartPlaylistService {
+	private static readonly REFRESH_DELAY_MS = 2000;
+
+	private playlistManager: PlaylistManager;
+	private episodeManager: EpisodeManager;
+	private subscriptionStore: SubscriptionStore;
+	private progressStore: ProgressStore;
+	private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+	constructor(
+		playlistManager: PlaylistManager,
+		episodeManager: EpisodeManager,
+		subscriptionStore: SubscriptionStore,
+		progressStore: ProgressStore
+	) {
+		this.playlistManager = playlistManager;
+		this.episodeManager = episodeManager;
+		this.subscriptionStore = subscriptionStore;
+		this.progressStore = progressStore;
+	}
+
+	/**
+	 * Whether a playlist is a smart playlist
+	 */
+	static isSmart(playlist: Playlist): playlist is SmartPlaylist {
+		return !!playlist.smartRule;
+	}
+
+	/**
+	 * Create a smart playlist and fill it
+	 */
+	async createSmartPlaylist(name: string, rule: SmartPlaylistRule, description?: string): Promise<Playlist> {
+		logger.methodEntry('SmartPlaylistService', 'createSmartPlaylist', name);
+
+		const playlist = await this.playlistManager.createPlaylist(name, description);
+		const episodeIds = await this.evaluate(rule);
+		await this.playlistManager.updatePlaylist(playlist.id, { smartRule: rule, episodeIds });
+
+		logger.methodExit('SmartPlaylistService', 'createSmartPlaylist');
+		return { ...playlist, smartRule: rule, episodeIds };
+	}
+
+	/**
+	 * Replace the rule of a smart playlist and refill it
+	 */
+	async updateRule(playlistId: string, rule: SmartPlaylistRule): Promise<void> {
+		logger.methodEntry('SmartPlaylistService', 'updateRule', playlistId);
+
+		const episodeIds = await this.evaluate(rule);
+		await this.playlistManager.updatePlaylist(playlistId, { smartRule: rule, episodeIds });
+
+		logger.methodExit('SmartPlaylistService', 'updateRule');
+	}
+
+	/**
+	 * Get the episode IDs matching a rule
+	 */
+	async evaluate(rule: SmartPlaylistRule, now: Date = new Date()): Promise<string[]> {
+		logger.methodEntry('SmartPlaylistService', 'evaluate');
+
+		const episodes = await this.loadEpisodes();
+		const { publishedWithinDays, ...conditions } = rule.filter;
+		const filter: EpisodeFilter = { ...conditions };
+		if (publishedWithinDays !== undefined && publishedWithinDays > 0) {
+			filter.newerThan = new Date(now.getTime() - publishedWithinDays * DAY_MS);
+		}
+
+		const filtered = this.episodeManager.filterEpisodes(episodes, filter);
+		const sorted = this.episodeManager.sortEpisodes(filtered, rule.sortBy, rule.sortOrder);
+		const limited = rule.limit !== undefined && rule.limit > 0 ? sorted.slice(0, rule.limit) : sorted;
+
+		logger.methodExit('SmartPlaylistService', 'evaluate', `count=${limited.length}`);
+		return limited.map(episode => episode.id);
+	}
+
+	/**
+	 * Re-evaluate one smart playlist
+	 * Returns the up-to-date playlist (unchanged for regular playlists).
+	 */
+	async refreshPlaylist(playlistId: string): Promise<Playlist | null> {
+		const playlist = await this.playlistManager.getPlaylist(playlistId);
+		if (!playlist?.smartRule) {
+			return playlist;
+		}
+
+		const episodeIds = await this.evaluate(playlist.smartRule);
+		if (this.sameIds(playlist.episodeIds, episodeIds)) {
+			return playlist;
+		}
+
+		await this.playlistManager.updatePlaylist(playlist.id, { episodeIds });
+		return { ...playlist, episodeIds };
+	}
+
+	/**
+	 * Re-evaluate all smart playlists
+	 * Only playlists whose result changed are saved. Returns their number.
+	 */
+	async refreshAll(): Promise<number> {
+		logger.methodEntry('SmartPlaylistService', 'refreshAll');
+
+		const playlists = (await this.playlistManager.getAllPlaylists()).filter(SmartPlaylistService.isSmart);
+		let changed = 0;
+
+		for (const playlist of playlists) {
+			try {
+				const episodeIds = await this.evaluate(playlist.smartRule);
+				if (!this.sameIds(playlist.episodeIds, episodeIds)) {
+					await this.playlistManager.updatePlaylist(playlist.id, { episodeIds });
+					changed++;
+				}
+			} catch (error) {
+				logger.error(`Failed to refresh smart playlist: ${playlist.name}`, error);
+			}
+		}
+
+		logger.methodExit('SmartPlaylistService', 'refreshAll', `changed=${changed}`);
+		return changed;
+	}
+
+	/**
+	 * Refresh all smart playlists shortly, combining bursts of changes
+	 */
+	scheduleRefresh(): void {
+		if (this.refreshTimer) {
+			return;
+		}
+
+		this.refreshTimer = setTimeout(() => {
+			this.refreshTimer = null;
+			this.refreshAll().catch(error => {
+				logger.error('Smart playlist refresh failed', error);
+			});
+		}, SmartPlaylistService.REFRESH_DELAY_MS);
+	}
+
+	/**
+	 * Cancel a scheduled refresh
+	 */
+	stop(): void {
+		if (this.refreshTimer) {
+			clearTimeout(this.refreshTimer);
+			this.refreshTimer = null;
+		}
+	}
+
+	/**
+	 * Load every episode with its progress
+	 * Dates are revived here because the stores keep them as JSON strings.
+	 */
+	private async loadEpisodes(): Promise<EpisodeWithProgress[]> {
+		const podcasts = await this.subscriptionStore.getAllPodcasts();
+		const progressByEpisode = new Map(
+			(await this.progressStore.getAllProgress()).map(progress => [progress.episodeId, progress])
+		);
+
+		const episodes: EpisodeWithProgress[] = [];
+		for (const podcast of podcasts) {
+			for (const episode of podcast.episodes ?? []) {
+				const progress = progressByEpisode.get(episode.id);
+				episodes.push({
+					...episode,
+					publishDate: new Date(episode.publishDate),
+					progress: progress ? { ...progress, lastPlayedAt: new Date(progress.lastPlayedAt) } : undefined,
+				});
+			}
+		}
+
+		return episodes;
+	}
+
+	private sameIds(a: string[], b: string[]): boolean {
+		return a.length === b.length && a.every((id, index) => id === b[index]);
+	}
+}
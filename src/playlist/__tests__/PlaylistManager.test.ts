@@ -218,6 +218,20 @@ describe('PlaylistManager', () => {
 			}));
 		});
 
+		it('should not add episodes to a smart playlist', async () => {
+			mockPlaylistStore.getPlaylist.mockResolvedValue({
+				id: 'playlist-smart',
+				name: 'Smart',
+				episodeIds: ['ep1'],
+				createdAt: new Date(),
+				updatedAt: new Date(),
+				smartRule: { filter: {}, sortBy: 'publishDate', sortOrder: 'desc' },
+			});
+
+			await expect(playlistManager.addEpisodes('playlist-smart', ['ep2'])).rejects.toThrow('smart playlist');
+			expect(mockPlaylistStore.savePlaylist).not.toHaveBeenCalled();
+		});
+
 		it('should only add new episodes', async () => {
 			const testPlaylist: Playlist = {
 				id: 'playlist-123',
@@ -0,0 +1,255 @@
+/**
+ * Unit tests for SmartPlaylistService
+ */
+
+import { SmartPlaylistService } from '../SmartPlaylistService';
+import { PlaylistManager } from '../PlaylistManager';
+import { EpisodeManager } from '../../podcast/EpisodeManager';
+import { SubscriptionStore } from '../../storage/SubscriptionStore';
+import { ProgressStore } from '../../storage/ProgressStore';
+import { Episode, Playlist, PlayProgress, Podcast, SmartPlaylistRule } from '../../model';
+
+describe('SmartPlaylistService', () => {
+	let service: SmartPlaylistService;
+	let mockPlaylistManager: jest.Mocked<PlaylistManager>;
+	let mockSubscriptionStore: jest.Mocked<SubscriptionStore>;
+	let mockProgressStore: jest.Mocked<ProgressStore>;
+
+	const now = new Date('2024-03-31T12:00:00Z');
+
+	const createEpisode = (id: string, podcastId: string, overrides: Partial<Episode> = {}): Episode => ({
+		id,
+		podcastId,
+		title: `Episode ${id}`,
+		description: '',
+		audioUrl: `https://example.com/${id}.mp3`,
+		duration: 1800,
+		publishDate: new Date('2024-03-01'),
+		...overrides,
+	});
+
+	const createPodcast = (id: string, episodes: Episode[]): Podcast => ({
+		id,
+		title: `Podcast ${id}`,
+		author: 'Author',
+		description: '',
+		feedUrl: `https://example.com/${id}.xml`,
+		imageUrl: '',
+		subscribedAt: new Date('2024-01-01'),
+		lastFetchedAt: new Date('2024-03-30'),
+		episodes,
+	});
+
+	const createPlaylist = (id: string, overrides: Partial<Playlist> = {}): Playlist => ({
+		id,
+		name: `Playlist ${id}`,
+		episodeIds: [],
+		createdAt: new Date('2024-01-01'),
+		updatedAt: new Date('2024-01-01'),
+		...overrides,
+	});
+
+	const newestFirst: SmartPlaylistRule = {
+		filter: {},
+		sortBy: 'publishDate',
+		sortOrder: 'desc',
+	};
+
+	beforeEach(() => {
+		const podcasts = [
+			createPodcast('podcast-1', [
+				createEpisode('ep-1', 'podcast-1', { publishDate: new Date('2024-03-30'), duration: 600 }),
+				createEpisode('ep-2', 'podcast-1', { publishDate: new Date('2024-03-20'), duration: 3600 }),
+				createEpisode('ep-3', 'podcast-1', { publishDate: new Date('2024-01-15'), duration: 2400 }),
+			]),
+			createPodcast('podcast-2', [
+				createEpisode('ep-4', 'podcast-2', { publishDate: new Date('2024-03-28'), duration: 1200 }),
+			]),
+		];
+		// Stores hand back dates as JSON strings
+		const progress: PlayProgress[] = [
+			{
+				episodeId: 'ep-2',
+				podcastId: 'podcast-1',
+				position: 3600,
+				duration: 3600,
+				lastPlayedAt: '2024-03-25T00:00:00Z' as unknown as Date,
+				completed: true,
+			},
+			{
+				episodeId: 'ep-4',
+				podcastId: 'podcast-2',
+				position: 300,
+				duration: 1200,
+				lastPlayedAt: '2024-03-29T00:00:00Z' as unknown as Date,
+				completed: false,
+			},
+		];
+
+		mockPlaylistManager = {
+			createPlaylist: jest.fn().mockImplementation(async (name: string, description?: string) =>
+				createPlaylist('playlist-new', { name, description })),
+			getPlaylist: jest.fn().mockResolvedValue(null),
+			getAllPlaylists: jest.fn().mockResolvedValue([]),
+			updatePlaylist: jest.fn().mockResolvedValue(undefined),
+		} as any;
+
+		mockSubscriptionStore = {
+			getAllPodcasts: jest.fn().mockResolvedValue(JSON.parse(JSON.stringify(podcasts))),
+		} as any;
+
+		mockProgressStore = {
+			getAllProgress: jest.fn().mockResolvedValue(progress),
+		} as any;
+
+		const episodeManager = new EpisodeManager(mockProgressStore, mockSubscriptionStore);
+		service = new SmartPlaylistService(mockPlaylistManager, episodeManager, mockSubscriptionStore, mockProgressStore);
+	});
+
+	afterEach(() => {
+		service.stop();
+		jest.useRealTimers();
+	});
+
+	describe('evaluate', () => {
+		it('should return all episodes in rule order', async () => {
+			const ids = await service.evaluate(newestFirst, now);
+
+			expect(ids).toEqual(['ep-1', 'ep-4', 'ep-2', 'ep-3']);
+		});
+
+		it('should apply podcast and status filters', async () => {
+			const ids = await service.evaluate({
+				filter: { podcastIds: ['podcast-1'], completed: false },
+				sortBy: 'publishDate',
+				sortOrder: 'desc',
+			}, now);
+
+			expect(ids).toEqual(['ep-1', 'ep-3']);
+		});
+
+		it('should only keep episodes published within the given days', async () => {
+			const ids = await service.evaluate({ ...newestFirst, filter: { publishedWithinDays: 7 } }, now);
+
+			expect(ids).toEqual(['ep-1', 'ep-4']);
+		});
+
+		it('should filter by duration and sort by duration', async () => {
+			const ids = await service.evaluate({
+				filter: { minDuration: 1000, maxDuration: 3000 },
+				sortBy: 'duration',
+				sortOrder: 'asc',
+			}, now);
+
+			expect(ids).toEqual(['ep-4', 'ep-3']);
+		});
+
+		it('should sort by last played using revived dates', async () => {
+			const ids = await service.evaluate({
+				filter: { podcastIds: ['podcast-1', 'podcast-2'] },
+				sortBy: 'lastPlayed',
+				sortOrder: 'desc',
+				limit: 2,
+			}, now);
+
+			expect(ids).toEqual(['ep-4', 'ep-2']);
+		});
+
+		it('should apply the limit', async () => {
+			const ids = await service.evaluate({ ...newestFirst, limit: 1 }, now);
+
+			expect(ids).toEqual(['ep-1']);
+		});
+	});
+
+	describe('createSmartPlaylist', () => {
+		it('should create the playlist and store the rule with its result', async () => {
+			const playlist = await service.createSmartPlaylist('Latest', { ...newestFirst, limit: 2 }, 'Two newest');
+
+			expect(mockPlaylistManager.createPlaylist).toHaveBeenCalledWith('Latest', 'Two newest');
+			expect(mockPlaylistManager.updatePlaylist).toHaveBeenCalledWith('playlist-new', {
+				smartRule: { ...newestFirst, limit: 2 },
+				episodeIds: ['ep-1', 'ep-4'],
+			});
+			expect(playlist.episodeIds).toEqual(['ep-1', 'ep-4']);
+			expect(SmartPlaylistService.isSmart(playlist)).toBe(true);
+		});
+	});
+
+	describe('refreshPlaylist', () => {
+		it('should return regular playlists unchanged', async () => {
+			const regular = createPlaylist('playlist-1', { episodeIds: ['ep-3'] });
+			mockPlaylistManager.getPlaylist.mockResolvedValue(regular);
+
+			const result = await service.refreshPlaylist('playlist-1');
+
+			expect(result).toBe(regular);
+			expect(mockPlaylistManager.updatePlaylist).not.toHaveBeenCalled();
+		});
+
+		it('should save a changed result', async () => {
+			mockPlaylistManager.getPlaylist.mockResolvedValue(
+				createPlaylist('playlist-1', { episodeIds: ['ep-3'], smartRule: { ...newestFirst, limit: 1 } })
+			);
+
+			const result = await service.refreshPlaylist('playlist-1');
+
+			expect(result?.episodeIds).toEqual(['ep-1']);
+			expect(mockPlaylistManager.updatePlaylist).toHaveBeenCalledWith('playlist-1', { episodeIds: ['ep-1'] });
+		});
+	});
+
+	describe('refreshAll', () => {
+		it('should only save smart playlists whose result changed', async () => {
+			mockPlaylistManager.getAllPlaylists.mockResolvedValue([
+				createPlaylist('regular', { episodeIds: ['ep-3'] }),
+				createPlaylist('unchanged', { episodeIds: ['ep-1'], smartRule: { ...newestFirst, limit: 1 } }),
+				createPlaylist('stale', { episodeIds: ['ep-3'], smartRule: { ...newestFirst, limit: 2 } }),
+			]);
+
+			const changed = await service.refreshAll();
+
+			expect(changed).toBe(1);
+			expect(mockPlaylistManager.updatePlaylist).toHaveBeenCalledTimes(1);
+			expect(mockPlaylistManager.updatePlaylist).toHaveBeenCalledWith('stale', { episodeIds: ['ep-1', 'ep-4'] });
+		});
+
+		it('should keep refreshing when one playlist fails', async () => {
+			mockPlaylistManager.getAllPlaylists.mockResolvedValue([
+				createPlaylist('first', { smartRule: newestFirst }),
+				createPlaylist('second', { smartRule: newestFirst }),
+			]);
+			mockPlaylistManager.updatePlaylist.mockRejectedValueOnce(new Error('save failed'));
+
+			const changed = await service.refreshAll();
+
+			expect(changed).toBe(1);
+			expect(mockPlaylistManager.updatePlaylist).toHaveBeenCalledTimes(2);
+		});
+	});
+
+	describe('scheduleRefresh', () => {
+		it('should combine several requests into one refresh', async () => {
+			jest.useFakeTimers();
+			const refreshSpy = jest.spyOn(service, 'refreshAll').mockResolvedValue(0);
+
+			service.scheduleRefresh();
+			service.scheduleRefresh();
+			service.scheduleRefresh();
+			jest.advanceTimersByTime(2000);
+
+			expect(refreshSpy).toHaveBeenCalledTimes(1);
+		});
+
+		it('should not refresh after stop', () => {
+			jest.useFakeTimers();
+			const refreshSpy = jest.spyOn(service, 'refreshAll').mockResolvedValue(0);
+
+			service.scheduleRefresh();
+			service.stop();
+			jest.advanceTimersByTime(2000);
+
+			expect(refreshSpy).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -2,7 +2,7 @@
  * Playlist Module
  *
  * Provides playlist management functionality including
- * playlist creation, organization, and persistence.
+ * playlist creation, organization, persistence and smart playlists.
  */
 
 // Export playlist store
@@ -10,3 +10,6 @@ export { PlaylistStore } from './PlaylistStore';
 
 // Export playlist manager
 export { PlaylistManager } from './PlaylistManager';
+
+// Export smart playlist service
+export { SmartPlaylistService, type SmartPlaylist } from './SmartPlaylistService';
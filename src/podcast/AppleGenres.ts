@@ -0,0 +1,90 @@
+/**
+ * AppleGenres - Apple Podcasts genre catalog
+ *
+ * Maps the Apple Podcasts genre IDs used by the iTunes charts to their names
+ * and to the category names podcasts use in their feeds (`itunes:category`),
+ * including subcategories and the names used before the 2019 category update.
+ * Reference: https://podcasters.apple.com/support/1691-apple-podcasts-categories
+ */
+
+/**
+ * An Apple Podcasts top-level genre
+ */
+export interface AppleGenre {
+	id: string;
+	name: string;
+	/** Subcategory names that belong to this genre */
+	subgenres: string[];
+	/** Former names of the genre */
+	aliases?: string[];
+}
+
+export const APPLE_PODCAST_GENRES: AppleGenre[] = [
+	{ id: '1301', name: 'Arts', subgenres: ['Books', 'Design', 'Fashion & Beauty', 'Food', 'Performing Arts', 'Visual Arts'] },
+	{ id: '1321', name: 'Business', subgenres: ['Careers', 'Entrepreneurship', 'Investing', 'Management', 'Marketing', 'Non-Profit'] },
+	{ id: '1303', name: 'Comedy', subgenres: ['Comedy Interviews', 'Improv', 'Stand-Up'] },
+	{ id: '1304', name: 'Education', subgenres: ['Courses', 'How To', 'Language Learning', 'Self-Improvement'] },
+	{ id: '1483', name: 'Fiction', subgenres: ['Comedy Fiction', 'Drama', 'Science Fiction'] },
+	{ id: '1511', name: 'Government', subgenres: [], aliases: ['Government & Organizations'] },
+	{ id: '1512', name: 'Health & Fitness', subgenres: ['Alternative Health', 'Fitness', 'Medicine', 'Mental Health', 'Nutrition', 'Sexuality'], aliases: ['Health'] },
+	{ id: '1487', name: 'History', subgenres: [] },
+	{ id: '1305', name: 'Kids & Family', subgenres: ['Education for Kids', 'Parenting', 'Pets & Animals', 'Stories for Kids'] },
+	{ id: '1502', name: 'Leisure', subgenres: ['Animation & Manga', 'Automotive', 'Aviation', 'Crafts', 'Games', 'Hobbies', 'Home & Garden', 'Video Games'], aliases: ['Games & Hobbies'] },
+	{ id: '1310', name: 'Music', subgenres: ['Music Commentary', 'Music History', 'Music Interviews'] },
+	{ id: '1489', name: 'News', subgenres: ['Business News', 'Daily News', 'Entertainment News', 'News Commentary', 'Politics', 'Sports News', 'Tech News'], aliases: ['News & Politics'] },
+	{ id: '1314', name: 'Religion & Spirituality', subgenres: ['Buddhism', 'Christianity', 'Hinduism', 'Islam', 'Judaism', 'Religion', 'Spirituality'] },
+	{ id: '1533', name: 'Science', subgenres: ['Astronomy', 'Chemistry', 'Earth Sciences', 'Life Sciences', 'Mathematics', 'Natural Sciences', 'Nature', 'Physics', 'Social Sciences'], aliases: ['Science & Medicine'] },
+	{ id: '1324', name: 'Society & Culture', subgenres: ['Documentary', 'Personal Journals', 'Philosophy', 'Places & Travel', 'Relationships'] },
+	{ id: '1545', name: 'Sports', subgenres: ['Baseball', 'Basketball', 'Cricket', 'Fantasy Sports', 'Football', 'Golf', 'Hockey', 'Rugby', 'Running', 'Soccer', 'Swimming', 'Tennis', 'Volleyball', 'Wilderness', 'Wrestling'], aliases: ['Sports & Recreation'] },
+	{ id: '1318', name: 'Technology', subgenres: [] },
+	{ id: '1488', name: 'True Crime', subgenres: [] },
+	{ id: '1309', name: 'TV & Film', subgenres: ['After Shows', 'Film History', 'Film Interviews', 'Film Reviews', 'TV Reviews'] },
+];
+
+/**
+ * Apple genre lookups
+ */
+export class AppleGenres {
+	private static byName: Map<string, AppleGenre> | null = null;
+
+	/**
+	 * All top-level genres, sorted by name
+	 */
+	static getAll(): AppleGenre[] {
+		return [...APPLE_PODCAST_GENRES].sort((a, b) => a.name.localeCompare(b.name));
+	}
+
+	/**
+	 * Find a genre by its ID
+	 */
+	static findById(id: string): AppleGenre | undefined {
+		return APPLE_PODCAST_GENRES.find(genre => genre.id === id);
+	}
+
+	/**
+	 * Find the top-level genre of a feed category or subcategory name
+	 */
+	static findByCategory(category: string): AppleGenre | undefined {
+		if (!this.byName) {
+			this.byName = new Map();
+			for (const genre of APPLE_PODCAST_GENRES) {
+				for (const name of [...genre.subgenres, ...(genre.aliases || [])]) {
+					this.byName.set(this.normalizeName(name), genre);
+				}
+			}
+			// Top-level names win over subcategories with the same name
+			for (const genre of APPLE_PODCAST_GENRES) {
+				this.byName.set(this.normalizeName(genre.name), genre);
+			}
+		}
+
+		return this.byName.get(this.normalizeName(category));
+	}
+
+	/**
+	 * Compare names regardless of case, "&" or "and" and spacing
+	 */
+	private static normalizeName(name: string): string {
+		return name.toLowerCase().replace(/\s*(&amp;|&|\band\b)\s*/g, ' and ').replace(/\s+/g, ' ').trim();
+	}
+}
@@ -0,0 +1,288 @@
+/**
+ * DiscoverService - Podcast charts and suggestions
+ *
+ * Loads the Apple Podcasts top charts per country and genre from the iTunes
+ * RSS feeds and suggests popular podcasts in the genres of the current
+ * subscriptions. Chart entries carry no feed URL, so they are resolved with
+ * an iTunes lookup. Resolved charts are cached in the FeedCacheStore.
+ */
+
+import { requestUrl } from 'obsidian';
+import { logger } from '../utils/Logger';
+import { NetworkError, retryWithBackoff } from '../utils/errorUtils';
+import { PodcastSearchResult, Podcast } from '../model';
+import { FeedCacheStore } from '../storage/CacheStore';
+import { SubscriptionStore } from '../storage/SubscriptionStore';
+import { iTunesSearchService } from './iTunesSearchService';
+import { PodcastSearchService } from './PodcastSearchService';
+import { AppleGenre, AppleGenres } from './AppleGenres';
+
+/**
+ * Chart options
+ */
+export interface ChartOptions {
+	/** Apple Podcasts storefront (ISO country code, default US) */
+	country?: string;
+	/** Apple genre ID, all genres when not set */
+	genreId?: string;
+	/** Maximum number of podcasts (default 50, at most 100) */
+	limit?: number;
+}
+
+/**
+ * Popular podcasts in a genre the user subscribes to
+ */
+export interface DiscoverSuggestion {
+	genre: AppleGenre;
+	/** Number of subscriptions in this genre */
+	subscriptionCount: number;
+	/** Chart podcasts not subscribed to yet */
+	podcasts: PodcastSearchResult[];
+}
+
+/**
+ * Storefronts offered in the Discover tab
+ */
+export const DISCOVER_COUNTRIES: Record<string, string> = {
+	AT: 'Austria',
+	AU: 'Australia',
+	BE: 'Belgium',
+	BR: 'Brazil',
+	CA: 'Canada',
+	CH: 'Switzerland',
+	DE: 'Germany',
+	DK: 'Denmark',
+	ES: 'Spain',
+	FI: 'Finland',
+	FR: 'France',
+	GB: 'United Kingdom',
+	IE: 'Ireland',
+	IN: 'India',
+	IT: 'Italy',
+	JP: 'Japan',
+	KR: 'South Korea',
+	MX: 'Mexico',
+	NL: 'Netherlands',
+	NO: 'Norway',
+	NZ: 'New Zealand',
+	PL: 'Poland',
+	SE: 'Sweden',
+	US: 'United States',
+};
+
+/**
+ * Entry of the iTunes RSS chart JSON
+ */
+interface ChartEntry {
+	id?: { label?: string; attributes?: { 'im:id'?: string } };
+	summary?: { label?: string };
+}
+
+interface ChartResponse {
+	feed?: { entry?: ChartEntry | ChartEntry[] };
+}
+
+/**
+ * Discover Service
+ */
+export class DiscoverService {
+	private static readonly CHARTS_BASE_URL = 'https://itunes.apple.com';
+	private static readonly CACHE_TTL = 6 * 60 * 60 * 1000; // Charts change daily
+	private static readonly DEFAULT_LIMIT = 50;
+	private static readonly MAX_LIMIT = 100;
+	private static readonly MAX_SUGGESTED_GENRES = 3;
+	private static readonly SUGGESTIONS_PER_GENRE = 12;
+
+	private cacheStore: FeedCacheStore;
+	private subscriptionStore: SubscriptionStore;
+	private itunes: iTunesSearchService;
+	private chartsUrl: string;
+
+	/**
+	 * @param chartsUrl - Charts host, overridable to test against a local server
+	 */
+	constructor(
+		cacheStore: FeedCacheStore,
+		subscriptionStore: SubscriptionStore,
+		itunes: iTunesSearchService = new iTunesSearchService(),
+		chartsUrl: string = DiscoverService.CHARTS_BASE_URL
+	) {
+		this.cacheStore = cacheStore;
+		this.subscriptionStore = subscriptionStore;
+		this.itunes = itunes;
+		this.chartsUrl = chartsUrl.replace(/\/+$/, '');
+	}
+
+	/**
+	 * Get the top podcasts of a country, optionally in one genre
+	 * @throws NetworkError when the chart cannot be loaded
+	 */
+	async getTopPodcasts(options: ChartOptions = {}): Promise<PodcastSearchResult[]> {
+		logger.methodEntry('DiscoverService', 'getTopPodcasts', options);
+
+		const country = (options.country || 'US').toUpperCase();
+		const limit = Math.min(Math.max(1, options.limit ?? DiscoverService.DEFAULT_LIMIT), DiscoverService.MAX_LIMIT);
+		const url = this.buildChartUrl(country, limit, options.genreId);
+
+		const cached = await this.getCachedChart(url);
+		if (cached) {
+			logger.methodExit('DiscoverService', 'getTopPodcasts', 'cached');
+			return cached;
+		}
+
+		const entries = await this.fetchChart(url);
+		const ids = entries
+			.map(entry => entry.id?.attributes?.['im:id'])
+			.filter((id): id is string => !!id);
+		const summaries = new Map(entries.map(entry => [entry.id?.attributes?.['im:id'], entry.summary?.label]));
+
+		const podcasts = (await this.itunes.lookupPodcasts(ids, country)).map(podcast => ({
+			...podcast,
+			description: podcast.description || summaries.get(podcast.collectionId) || undefined,
+		}));
+
+		if (podcasts.length > 0) {
+			await this.cacheStore.setCacheEntry(url, JSON.stringify(podcasts), DiscoverService.CACHE_TTL)
+				.catch(error => logger.warn('Failed to cache chart', error));
+		}
+
+		logger.methodExit('DiscoverService', 'getTopPodcasts', `count=${podcasts.length}`);
+		return podcasts;
+	}
+
+	/**
+	 * Suggest chart podcasts in the genres most common among the subscriptions
+	 * Genres whose chart fails to load are left out.
+	 */
+	async getSuggestions(country = 'US'): Promise<DiscoverSuggestion[]> {
+		logger.methodEntry('DiscoverService', 'getSuggestions', country);
+
+		const podcasts = await this.subscriptionStore.getAllPodcasts();
+		const subscribed = DiscoverService.getFeedUrlKeys(podcasts);
+		const genres = DiscoverService.getTopGenres(podcasts).slice(0, DiscoverService.MAX_SUGGESTED_GENRES);
+
+		const charts = await Promise.allSettled(
+			genres.map(({ genre }) => this.getTopPodcasts({ country, genreId: genre.id }))
+		);
+
+		const suggestions: DiscoverSuggestion[] = [];
+		charts.forEach((chart, index) => {
+			if (chart.status === 'rejected') {
+				logger.warn(`Failed to load suggestions for ${genres[index].genre.name}`, chart.reason);
+				return;
+			}
+
+			const unsubscribed = chart.value
+				.filter(podcast => !subscribed.has(PodcastSearchService.normalizeFeedUrl(podcast.feedUrl)))
+				.slice(0, DiscoverService.SUGGESTIONS_PER_GENRE);
+			if (unsubscribed.length > 0) {
+				suggestions.push({ ...genres[index], podcasts: unsubscribed });
+			}
+		});
+
+		logger.methodExit('DiscoverService', 'getSuggestions', `genres=${suggestions.length}`);
+		return suggestions;
+	}
+
+	/**
+	 * Normalized feed URLs of the subscriptions, to mark subscribed chart entries
+	 */
+	async getSubscribedFeedUrls(): Promise<Set<string>> {
+		return DiscoverService.getFeedUrlKeys(await this.subscriptionStore.getAllPodcasts());
+	}
+
+	/**
+	 * Count subscriptions per Apple genre, most subscribed first
+	 * Each podcast counts once per genre, however many of its categories map to it.
+	 */
+	static getTopGenres(podcasts: Podcast[]): { genre: AppleGenre; subscriptionCount: number }[] {
+		const counts = new Map<string, { genre: AppleGenre; subscriptionCount: number }>();
+
+		for (const podcast of podcasts) {
+			const genres = new Set<AppleGenre>();
+			for (const category of podcast.categories || []) {
+				const genre = AppleGenres.findByCategory(category);
+				if (genre) {
+					genres.add(genre);
+				}
+			}
+
+			for (const genre of genres) {
+				const count = counts.get(genre.id) || { genre, subscriptionCount: 0 };
+				count.subscriptionCount++;
+				counts.set(genre.id, count);
+			}
+		}
+
+		return Array.from(counts.values()).sort((a, b) =>
+			b.subscriptionCount - a.subscriptionCount || a.genre.name.localeCompare(b.genre.name)
+		);
+	}
+
+	private static getFeedUrlKeys(podcasts: Podcast[]): Set<string> {
+		return new Set(podcasts.map(podcast => PodcastSearchService.normalizeFeedUrl(podcast.feedUrl)));
+	}
+
+	private buildChartUrl(country: string, limit: number, genreId?: string): string {
+		const genre = genreId ? `/genre=${encodeURIComponent(genreId)}` : '';
+		return `${this.chartsUrl}/${country.toLowerCase()}/rss/toppodcasts/limit=${limit}${genre}/json`;
+	}
+
+	private async getCachedChart(url: string): Promise<PodcastSearchResult[] | null> {
+		const entry = await this.cacheStore.getCacheEntry(url);
+		if (!entry) {
+			return null;
+		}
+
+		try {
+			const podcasts = JSON.parse(entry.data) as PodcastSearchResult[];
+			return Array.isArray(podcasts) ? podcasts : null;
+		} catch (error) {
+			logger.warn('Invalid cached chart', error);
+			return null;
+		}
+	}
+
+	private async fetchChart(url: string): Promise<ChartEntry[]> {
+		logger.debug('Loading chart', url);
+
+		const response = await retryWithBackoff(
+			async () => {
+				let result;
+				try {
+					result = await requestUrl({
+						url,
+						method: 'GET',
+						headers: { 'Accept': 'application/json' },
+						throw: false,
+					});
+				} catch (err) {
+					throw new NetworkError('Failed to connect to iTunes charts', url, err instanceof Error ? err : undefined);
+				}
+
+				if (result.status !== 200) {
+					throw new NetworkError(`iTunes charts returned status ${result.status}`, url);
+				}
+
+				return result;
+			},
+			{
+				maxRetries: 2,
+				initialDelay: 1000,
+				maxDelay: 5000,
+			}
+		);
+
+		const data = response.json as ChartResponse;
+		if (!data || typeof data.feed !== 'object') {
+			throw new NetworkError('Invalid iTunes chart response', url);
+		}
+
+		// A chart with a single podcast has an object instead of an array
+		const entry = data.feed.entry;
+		if (!entry) {
+			return [];
+		}
+		return Array.isArray(entry) ? entry : [entry];
+	}
+}
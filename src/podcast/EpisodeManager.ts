@@ -28,6 +28,12 @@ export interface EpisodeFilter {
 	episodeType?: 'full' | 'trailer' | 'bonus';
 	/** Filter by season number */
 	seasonNumber?: number;
+	/** Filter by any of several podcast IDs */
+	podcastIds?: string[];
+	/** Minimum duration in seconds */
+	minDuration?: number;
+	/** Maximum duration in seconds */
+	maxDuration?: number;
 }
 
 /**
@@ -183,6 +189,11 @@ export class EpisodeManager {
 			filtered = filtered.filter(e => e.podcastId === filter.podcastId);
 		}
 
+		if (filter.podcastIds && filter.podcastIds.length > 0) {
+			const podcastIds = new Set(filter.podcastIds);
+			filtered = filtered.filter(e => podcastIds.has(e.podcastId));
+		}
+
 		// Filter by completion status
 		if (filter.completed !== undefined) {
 			filtered = filtered.filter(e => {
@@ -218,6 +229,15 @@ export class EpisodeManager {
 			filtered = filtered.filter(e => e.seasonNumber === filter.seasonNumber);
 		}
 
+		// Filter by duration (episodes without a known duration never match)
+		if (filter.minDuration !== undefined) {
+			filtered = filtered.filter(e => e.duration > 0 && e.duration >= filter.minDuration!);
+		}
+
+		if (filter.maxDuration !== undefined) {
+			filtered = filtered.filter(e => e.duration > 0 && e.duration <= filter.maxDuration!);
+		}
+
 		logger.methodExit('EpisodeManager', 'filterEpisodes', `filtered=${filtered.length}`);
 		return filtered;
 	}
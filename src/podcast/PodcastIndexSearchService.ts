@@ -0,0 +1,226 @@
+/**
+ * PodcastIndexSearchService - Podcast Index API integration
+ *
+ * Searches the Podcast Index directory, which lists many independent and
+ * Podcasting 2.0 shows missing from iTunes. Requests are signed with the
+ * user's API key and secret.
+ * Reference: https://podcastindex-org.github.io/docs-api/
+ */
+
+import { requestUrl } from 'obsidian';
+import { logger } from '../utils/Logger';
+import { NetworkError, retryWithBackoff } from '../utils/errorUtils';
+import { PodcastSearchResult } from '../model';
+import { PodcastSearchProvider, SearchOptions } from './PodcastSearchProvider';
+
+/**
+ * Podcast Index API credentials
+ */
+export interface PodcastIndexCredentials {
+	apiKey: string;
+	apiSecret: string;
+}
+
+/**
+ * Podcast Index feed interface
+ */
+interface PodcastIndexFeed {
+	id: number;
+	title: string;
+	url: string;
+	description?: string;
+	author?: string;
+	ownerName?: string;
+	image?: string;
+	artwork?: string;
+	episodeCount?: number;
+	categories?: Record<string, string> | null;
+	explicit?: boolean;
+}
+
+interface PodcastIndexSearchResponse {
+	status: string | boolean;
+	feeds: PodcastIndexFeed[];
+	count: number;
+	description?: string;
+}
+
+/**
+ * Podcast Index Search Service
+ */
+export class PodcastIndexSearchService implements PodcastSearchProvider {
+	private static readonly API_BASE_URL = 'https://api.podcastindex.org/api/1.0';
+	private static readonly USER_AGENT = 'ObsidianPodcastPlayer/1.0';
+	private static readonly DEFAULT_LIMIT = 10;
+	private static readonly MAX_LIMIT = 1000;
+
+	readonly id = 'podcastindex';
+	readonly name = 'Podcast Index';
+
+	private credentialsProvider: () => PodcastIndexCredentials;
+	private apiUrl: string;
+
+	/**
+	 * @param credentialsProvider - Returns the current API key and secret
+	 * @param apiUrl - API base URL, overridable to test against a local server
+	 */
+	constructor(
+		credentialsProvider: () => PodcastIndexCredentials,
+		apiUrl: string = PodcastIndexSearchService.API_BASE_URL
+	) {
+		this.credentialsProvider = credentialsProvider;
+		this.apiUrl = apiUrl.replace(/\/+$/, '');
+	}
+
+	/**
+	 * The API can only be used with a key and secret
+	 */
+	isConfigured(): boolean {
+		const { apiKey, apiSecret } = this.credentialsProvider();
+		return !!apiKey.trim() && !!apiSecret.trim();
+	}
+
+	/**
+	 * Search for podcasts by query string
+	 */
+	async searchPodcasts(
+		query: string,
+		options: SearchOptions = {}
+	): Promise<PodcastSearchResult[]> {
+		logger.methodEntry('PodcastIndexSearchService', 'searchPodcasts', query);
+
+		if (!query || query.trim().length === 0) {
+			logger.warn('Empty search query');
+			return [];
+		}
+
+		if (!this.isConfigured()) {
+			logger.warn('Podcast Index API key or secret missing');
+			return [];
+		}
+
+		const {
+			limit = PodcastIndexSearchService.DEFAULT_LIMIT,
+			includeExplicit = true,
+		} = options;
+		const validLimit = Math.min(Math.max(1, limit), PodcastIndexSearchService.MAX_LIMIT);
+
+		const url = this.buildSearchUrl(query.trim(), validLimit, includeExplicit);
+
+		try {
+			logger.debug('Searching Podcast Index', url);
+
+			const response = await retryWithBackoff(
+				async () => {
+					const result = await requestUrl({
+						url,
+						method: 'GET',
+						headers: await this.createAuthHeaders(),
+						throw: false,
+					});
+
+					// Server errors are retried, client errors (such as a wrong key) are not
+					if (result.status >= 500) {
+						throw new NetworkError(`Podcast Index returned status ${result.status}`, url);
+					}
+
+					return result;
+				},
+				{
+					maxRetries: 2,
+					initialDelay: 1000,
+					maxDelay: 5000,
+				}
+			);
+
+			if (response.status === 401 || response.status === 403) {
+				logger.warn('Podcast Index rejected the API key or secret');
+				return [];
+			}
+
+			if (response.status !== 200) {
+				logger.warn(`Podcast Index returned status ${response.status}`);
+				return [];
+			}
+
+			const data = response.json as PodcastIndexSearchResponse;
+			if (!data || !Array.isArray(data.feeds)) {
+				logger.warn('Invalid Podcast Index response format');
+				return [];
+			}
+
+			const results = data.feeds
+				.filter(feed => !!feed.url)
+				.filter(feed => includeExplicit || !feed.explicit)
+				.map(feed => this.transformFeed(feed));
+
+			logger.methodExit('PodcastIndexSearchService', 'searchPodcasts', `count=${results.length}`);
+			return results;
+
+		} catch (error) {
+			logger.error('Podcast Index search failed', error);
+			return [];
+		}
+	}
+
+	/**
+	 * Build the request headers signed with the API key and secret
+	 * Authorization is the SHA-1 hash of key + secret + the Unix time sent in X-Auth-Date.
+	 */
+	async createAuthHeaders(now: Date = new Date()): Promise<Record<string, string>> {
+		const { apiKey, apiSecret } = this.credentialsProvider();
+		const authDate = Math.floor(now.getTime() / 1000).toString();
+
+		return {
+			'User-Agent': PodcastIndexSearchService.USER_AGENT,
+			'X-Auth-Key': apiKey.trim(),
+			'X-Auth-Date': authDate,
+			'Authorization': await PodcastIndexSearchService.sha1(apiKey.trim() + apiSecret.trim() + authDate),
+			'Accept': 'application/json',
+		};
+	}
+
+	/**
+	 * Hex encoded SHA-1 hash
+	 */
+	static async sha1(text: string): Promise<string> {
+		const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+		return Array.from(new Uint8Array(digest))
+			.map(byte => byte.toString(16).padStart(2, '0'))
+			.join('');
+	}
+
+	/**
+	 * Build search URL with parameters
+	 */
+	private buildSearchUrl(query: string, limit: number, includeExplicit: boolean): string {
+		const url = new URL(`${this.apiUrl}/search/byterm`);
+
+		url.searchParams.append('q', query);
+		url.searchParams.append('max', limit.toString());
+
+		if (!includeExplicit) {
+			url.searchParams.append('clean', 'true');
+		}
+
+		return url.href;
+	}
+
+	/**
+	 * Transform Podcast Index feed to our format
+	 */
+	private transformFeed(feed: PodcastIndexFeed): PodcastSearchResult {
+		const genres = feed.categories ? Object.values(feed.categories) : [];
+
+		return {
+			title: feed.title || 'Untitled Podcast',
+			author: feed.author || feed.ownerName || undefined,
+			description: feed.description || undefined,
+			feedUrl: feed.url,
+			artworkUrl: feed.artwork || feed.image || undefined,
+			collectionId: feed.id?.toString(),
+			episodeCount: feed.episodeCount,
+			genres: genres.length > 0 ? genres : undefined,
+		};
+	}
+}
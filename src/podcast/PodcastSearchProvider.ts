@@ -0,0 +1,38 @@
+/**
+ * PodcastSearchProvider - Interface of online podcast directories
+ *
+ * Each directory (iTunes, Podcast Index, ...) implements this interface so
+ * that PodcastSearchService can query them side by side. Providers should
+ * take their API base URL as a constructor option, so they can be pointed
+ * at a local stub server in tests.
+ */
+
+import { PodcastSearchResult } from '../model';
+
+/**
+ * Search options
+ */
+export interface SearchOptions {
+	/** Maximum number of results (default: 10, max: 200) */
+	limit?: number;
+	/** Request timeout in milliseconds (default: 15000) */
+	timeout?: number;
+	/** Country code for search (default: 'US') */
+	country?: string;
+	/** Whether to include explicit content (default: true) */
+	includeExplicit?: boolean;
+}
+
+/**
+ * Online podcast directory
+ */
+export interface PodcastSearchProvider {
+	/** Stable identifier, listed in PodcastSearchResult.sources of merged results */
+	readonly id: string;
+	/** Name shown to the user */
+	readonly name: string;
+	/** Whether the provider can be used (e.g. its API credentials are set) */
+	isConfigured(): boolean;
+	/** Search podcasts; resolves to an empty list when the directory cannot be reached */
+	searchPodcasts(query: string, options?: SearchOptions): Promise<PodcastSearchResult[]>;
+}
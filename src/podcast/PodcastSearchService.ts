@@ -0,0 +1,136 @@
+/**
+ * PodcastSearchService - Searches several podcast directories at once
+ *
+ * Queries every configured PodcastSearchProvider in parallel and merges
+ * their results, keeping one result per feed URL.
+ */
+
+import { logger } from '../utils/Logger';
+import { PodcastSearchResult } from '../model';
+import { PodcastSearchProvider, SearchOptions } from './PodcastSearchProvider';
+
+/**
+ * Podcast Search Service
+ */
+export class PodcastSearchService {
+	private providers: PodcastSearchProvider[] = [];
+
+	constructor(providers: PodcastSearchProvider[] = []) {
+		for (const provider of providers) {
+			this.registerProvider(provider);
+		}
+	}
+
+	/**
+	 * Add a provider; a provider with the same ID is replaced
+	 */
+	registerProvider(provider: PodcastSearchProvider): void {
+		this.providers = this.providers.filter(existing => existing.id !== provider.id);
+		this.providers.push(provider);
+	}
+
+	/**
+	 * Get all registered providers, in registration order
+	 */
+	getProviders(): PodcastSearchProvider[] {
+		return [...this.providers];
+	}
+
+	/**
+	 * Search all configured providers and merge their results
+	 * Fails only when every provider failed.
+	 */
+	async search(query: string, options: SearchOptions = {}): Promise<PodcastSearchResult[]> {
+		logger.methodEntry('PodcastSearchService', 'search', query);
+
+		const providers = this.providers.filter(provider => provider.isConfigured());
+		const outcomes = await Promise.allSettled(
+			providers.map(provider => provider.searchPodcasts(query, options))
+		);
+
+		const resultLists: Array<{ providerId: string; results: PodcastSearchResult[] }> = [];
+		let lastError: unknown = null;
+
+		outcomes.forEach((outcome, index) => {
+			if (outcome.status === 'fulfilled') {
+				resultLists.push({ providerId: providers[index].id, results: outcome.value });
+			} else {
+				logger.warn(`Search provider ${providers[index].id} failed`, outcome.reason);
+				lastError = outcome.reason;
+			}
+		});
+
+		if (resultLists.length === 0 && lastError) {
+			throw lastError;
+		}
+
+		const results = PodcastSearchService.mergeResults(resultLists);
+
+		logger.methodExit('PodcastSearchService', 'search', `count=${results.length}`);
+		return results;
+	}
+
+	/**
+	 * Merge result lists, taking results from each list in turn by rank
+	 * Results with the same feed URL are combined: the first one wins and
+	 * missing details are filled in from the others.
+	 */
+	static mergeResults(
+		resultLists: Array<{ providerId: string; results: PodcastSearchResult[] }>
+	): PodcastSearchResult[] {
+		const merged: PodcastSearchResult[] = [];
+		const byFeedUrl = new Map<string, PodcastSearchResult>();
+		const maxLength = Math.max(0, ...resultLists.map(list => list.results.length));
+
+		for (let rank = 0; rank < maxLength; rank++) {
+			for (const { providerId, results } of resultLists) {
+				const result = results[rank];
+				if (!result || !result.feedUrl) {
+					continue;
+				}
+
+				const key = PodcastSearchService.normalizeFeedUrl(result.feedUrl);
+				const existing = byFeedUrl.get(key);
+
+				if (existing) {
+					PodcastSearchService.fillMissing(existing, result);
+					if (!existing.sources!.includes(providerId)) {
+						existing.sources!.push(providerId);
+					}
+					continue;
+				}
+
+				const copy: PodcastSearchResult = { ...result, sources: [providerId] };
+				byFeedUrl.set(key, copy);
+				merged.push(copy);
+			}
+		}
+
+		return merged;
+	}
+
+	/**
+	 * Feed URL used to recognise the same podcast across providers
+	 * Ignores the scheme, a leading "www.", letter case of the host and trailing slashes.
+	 */
+	static normalizeFeedUrl(feedUrl: string): string {
+		const trimmed = feedUrl.trim();
+
+		try {
+			const url = new URL(trimmed);
+			const host = url.host.toLowerCase().replace(/^www\./, '');
+			const path = url.pathname.replace(/\/+$/, '');
+			return `${host}${path}${url.search}`;
+		} catch {
+			return trimmed.toLowerCase().replace(/^https?:\/\//, '').replace(/\/+$/, '');
+		}
+	}
+
+	private static fillMissing(target: PodcastSearchResult, source: PodcastSearchResult): void {
+		target.author = target.author || source.author;
+		target.description = target.description || source.description;
+		target.artworkUrl = target.artworkUrl || source.artworkUrl;
+		target.episodeCount = target.episodeCount ?? source.episodeCount;
+		target.genres = target.genres || source.genres;
+	}
+}
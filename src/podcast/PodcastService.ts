@@ -12,7 +12,9 @@ import { Podcast, Episode, PodcastSettings, PodcastSearchResult } from '../model
 import { FeedService } from '../feed/FeedService';
 import { SubscriptionStore, SubscriptionData } from '../storage/SubscriptionStore';
 import { ImageCacheStore } from '../storage/CacheStore';
-import { iTunesSearchService, SearchOptions } from './iTunesSearchService';
+import { iTunesSearchService } from './iTunesSearchService';
+import { PodcastSearchProvider, SearchOptions } from './PodcastSearchProvider';
+import { PodcastSearchService } from './PodcastSearchService';
 
 /**
  * Subscription result
@@ -30,7 +32,7 @@ export class PodcastService {
 	private feedService: FeedService;
 	private subscriptionStore: SubscriptionStore;
 	private imageCache: ImageCacheStore | null = null;
-	private searchService: iTunesSearchService;
+	private searchService: PodcastSearchService;
 
 	constructor(
 		feedService: FeedService,
@@ -40,7 +42,7 @@ export class PodcastService {
 		this.feedService = feedService;
 		this.subscriptionStore = subscriptionStore;
 		this.imageCache = imageCache || null;
-		this.searchService = new iTunesSearchService();
+		this.searchService = new PodcastSearchService([new iTunesSearchService()]);
 	}
 
 	/**
@@ -401,11 +403,25 @@ export class PodcastService {
 	}
 
 	/**
-	 * Search for podcasts online using iTunes Search API
+	 * Add an online directory to search alongside iTunes
+	 */
+	registerSearchProvider(provider: PodcastSearchProvider): void {
+		this.searchService.registerProvider(provider);
+	}
+
+	/**
+	 * Get the online directories searched by searchOnline
+	 */
+	getSearchProviders(): PodcastSearchProvider[] {
+		return this.searchService.getProviders();
+	}
+
+	/**
+	 * Search for podcasts online in all configured directories
 	 *
 	 * @param query - Search query string
 	 * @param options - Search options (limit, country, etc.)
-	 * @returns Array of podcast search results from iTunes
+	 * @returns Podcast search results, one per feed URL
 	 */
 	async searchOnline(
 		query: string,
@@ -413,7 +429,7 @@ export class PodcastService {
 	): Promise<PodcastSearchResult[]> {
 		logger.methodEntry('PodcastService', 'searchOnline', query);
 
-		const results = await this.searchService.searchPodcasts(query, options);
+		const results = await this.searchService.search(query, options);
 
 		logger.methodExit('PodcastService', 'searchOnline', `count=${results.length}`);
 		return results;
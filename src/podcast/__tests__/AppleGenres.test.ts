@@ -0,0 +1,50 @@
+/**
+ * Unit tests for AppleGenres
+ */
+
+import { AppleGenres, APPLE_PODCAST_GENRES } from '../AppleGenres';
+
+describe('AppleGenres', () => {
+	describe('getAll', () => {
+		it('should list every genre sorted by name', () => {
+			const genres = AppleGenres.getAll();
+
+			expect(genres).toHaveLength(APPLE_PODCAST_GENRES.length);
+			expect(genres[0].name).toBe('Arts');
+			expect(genres[genres.length - 1].name).toBe('TV & Film');
+		});
+	});
+
+	describe('findById', () => {
+		it('should find a genre by ID', () => {
+			expect(AppleGenres.findById('1318')?.name).toBe('Technology');
+			expect(AppleGenres.findById('42')).toBeUndefined();
+		});
+	});
+
+	describe('findByCategory', () => {
+		it('should map top-level categories', () => {
+			expect(AppleGenres.findByCategory('Technology')?.id).toBe('1318');
+			expect(AppleGenres.findByCategory('society & culture')?.id).toBe('1324');
+		});
+
+		it('should map subcategories to their genre', () => {
+			expect(AppleGenres.findByCategory('Tech News')?.name).toBe('News');
+			expect(AppleGenres.findByCategory('Language Learning')?.name).toBe('Education');
+		});
+
+		it('should map former category names', () => {
+			expect(AppleGenres.findByCategory('Games & Hobbies')?.name).toBe('Leisure');
+			expect(AppleGenres.findByCategory('Science & Medicine')?.name).toBe('Science');
+		});
+
+		it('should ignore the spelling of "and"', () => {
+			expect(AppleGenres.findByCategory('Kids and Family')?.id).toBe('1305');
+			expect(AppleGenres.findByCategory('Health &amp; Fitness')?.id).toBe('1512');
+		});
+
+		it('should return undefined for unknown categories', () => {
+			expect(AppleGenres.findByCategory('Podcasting')).toBeUndefined();
+		});
+	});
+});
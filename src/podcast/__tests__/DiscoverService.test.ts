@@ -0,0 +1,200 @@
+/**
+ * Unit tests for DiscoverService
+ */
+
+import { DiscoverService } from '../DiscoverService';
+import { iTunesSearchService } from '../iTunesSearchService';
+import { FeedCacheStore } from '../../storage/CacheStore';
+import { SubscriptionStore } from '../../storage/SubscriptionStore';
+import { NetworkError } from '../../utils/errorUtils';
+import { Podcast, PodcastSearchResult } from '../../model';
+
+// Mock logger
+jest.mock('../../utils/Logger', () => ({
+	logger: {
+		methodEntry: jest.fn(),
+		methodExit: jest.fn(),
+		debug: jest.fn(),
+		info: jest.fn(),
+		warn: jest.fn(),
+		error: jest.fn(),
+	},
+}));
+
+// Mock Obsidian's requestUrl
+jest.mock('obsidian', () => ({
+	requestUrl: jest.fn(),
+}));
+
+import { requestUrl } from 'obsidian';
+const mockRequestUrl = requestUrl as jest.MockedFunction<typeof requestUrl>;
+
+// Mock retryWithBackoff to not actually retry (for faster tests)
+jest.mock('../../utils/errorUtils', () => {
+	const actual = jest.requireActual('../../utils/errorUtils');
+	return {
+		...actual,
+		retryWithBackoff: jest.fn(async (fn) => await fn()),
+	};
+});
+
+const chartEntry = (id: string, summary?: string) => ({
+	'im:name': { label: `Podcast ${id}` },
+	id: { label: `https://podcasts.apple.com/podcast/id${id}`, attributes: { 'im:id': id } },
+	summary: summary ? { label: summary } : undefined,
+});
+
+const chartResponse = (entry: unknown) => ({
+	status: 200,
+	json: { feed: { entry } },
+});
+
+const podcastResult = (id: string): PodcastSearchResult => ({
+	title: `Podcast ${id}`,
+	feedUrl: `https://example.com/${id}.xml`,
+	collectionId: id,
+});
+
+describe('DiscoverService', () => {
+	let service: DiscoverService;
+	let cache: Map<string, { data: string }>;
+	let mockCacheStore: jest.Mocked<FeedCacheStore>;
+	let mockSubscriptionStore: jest.Mocked<SubscriptionStore>;
+	let mockItunes: jest.Mocked<iTunesSearchService>;
+	let subscriptions: Partial<Podcast>[];
+
+	beforeEach(() => {
+		mockRequestUrl.mockReset();
+		jest.clearAllMocks();
+
+		cache = new Map();
+		mockCacheStore = {
+			getCacheEntry: jest.fn().mockImplementation(async (url: string) => cache.get(url) || null),
+			setCacheEntry: jest.fn().mockImplementation(async (url: string, data: string) => {
+				cache.set(url, { data });
+			}),
+		} as any;
+
+		subscriptions = [];
+		mockSubscriptionStore = {
+			getAllPodcasts: jest.fn().mockImplementation(async () => subscriptions),
+		} as any;
+
+		mockItunes = {
+			lookupPodcasts: jest.fn().mockImplementation(async (ids: string[]) => ids.map(podcastResult)),
+		} as any;
+
+		service = new DiscoverService(mockCacheStore, mockSubscriptionStore, mockItunes, 'http://localhost:8080/');
+	});
+
+	describe('getTopPodcasts', () => {
+		it('should resolve chart entries through the lookup', async () => {
+			mockRequestUrl.mockResolvedValue(chartResponse([chartEntry('1', 'First summary'), chartEntry('2')]) as any);
+
+			const results = await service.getTopPodcasts({ country: 'gb', genreId: '1318', limit: 20 });
+
+			expect(mockRequestUrl.mock.calls[0][0]).toMatchObject({
+				url: 'http://localhost:8080/gb/rss/toppodcasts/limit=20/genre=1318/json',
+			});
+			expect(mockItunes.lookupPodcasts).toHaveBeenCalledWith(['1', '2'], 'GB');
+			expect(results.map(result => result.collectionId)).toEqual(['1', '2']);
+			expect(results[0].description).toBe('First summary');
+			expect(results[1].description).toBeUndefined();
+		});
+
+		it('should accept a chart with a single entry', async () => {
+			mockRequestUrl.mockResolvedValue(chartResponse(chartEntry('7')) as any);
+
+			const results = await service.getTopPodcasts();
+
+			expect(mockRequestUrl.mock.calls[0][0]).toMatchObject({
+				url: 'http://localhost:8080/us/rss/toppodcasts/limit=50/json',
+			});
+			expect(results.map(result => result.collectionId)).toEqual(['7']);
+		});
+
+		it('should serve charts from the cache', async () => {
+			mockRequestUrl.mockResolvedValue(chartResponse([chartEntry('1')]) as any);
+
+			await service.getTopPodcasts();
+			const results = await service.getTopPodcasts();
+
+			expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+			expect(mockCacheStore.setCacheEntry).toHaveBeenCalledWith(
+				'http://localhost:8080/us/rss/toppodcasts/limit=50/json',
+				expect.any(String),
+				6 * 60 * 60 * 1000
+			);
+			expect(results.map(result => result.collectionId)).toEqual(['1']);
+		});
+
+		it('should not cache empty charts', async () => {
+			mockRequestUrl.mockResolvedValue(chartResponse(undefined) as any);
+
+			expect(await service.getTopPodcasts()).toEqual([]);
+			expect(mockCacheStore.setCacheEntry).not.toHaveBeenCalled();
+		});
+
+		it('should throw a NetworkError when the chart cannot be loaded', async () => {
+			mockRequestUrl.mockResolvedValueOnce({ status: 500, json: {} } as any);
+			await expect(service.getTopPodcasts()).rejects.toBeInstanceOf(NetworkError);
+
+			mockRequestUrl.mockResolvedValueOnce({ status: 200, json: null } as any);
+			await expect(service.getTopPodcasts()).rejects.toBeInstanceOf(NetworkError);
+		});
+	});
+
+	describe('getSuggestions', () => {
+		it('should suggest unsubscribed chart podcasts in the most subscribed genres', async () => {
+			subscriptions = [
+				{ id: 'a', feedUrl: 'https://example.com/11.xml', categories: ['Technology', 'Tech News'] },
+				{ id: 'b', feedUrl: 'https://example.com/b.xml', categories: ['News', 'Daily News'] },
+				{ id: 'c', feedUrl: 'https://example.com/c.xml', categories: ['Technology'] },
+			];
+			mockRequestUrl.mockImplementation((async ({ url }: any) => url.includes('genre=1318')
+				? chartResponse([chartEntry('11'), chartEntry('12')])
+				: chartResponse([chartEntry('21')])) as any);
+
+			const suggestions = await service.getSuggestions('US');
+
+			// Equally common genres are sorted by name
+			expect(suggestions.map(s => [s.genre.name, s.subscriptionCount])).toEqual([
+				['News', 2],
+				['Technology', 2],
+			]);
+			expect(suggestions[0].podcasts.map(p => p.collectionId)).toEqual(['21']);
+			expect(suggestions[1].podcasts.map(p => p.collectionId)).toEqual(['12']);
+		});
+
+		it('should leave out genres whose chart fails', async () => {
+			subscriptions = [
+				{ id: 'a', feedUrl: 'https://example.com/a.xml', categories: ['Comedy'] },
+				{ id: 'b', feedUrl: 'https://example.com/b.xml', categories: ['History'] },
+			];
+			mockRequestUrl.mockImplementation((async ({ url }: any) => url.includes('genre=1303')
+				? { status: 503, json: {} }
+				: chartResponse([chartEntry('31')])) as any);
+
+			const suggestions = await service.getSuggestions();
+
+			expect(suggestions.map(s => s.genre.name)).toEqual(['History']);
+		});
+
+		it('should return nothing without categorized subscriptions', async () => {
+			subscriptions = [{ id: 'a', feedUrl: 'https://example.com/a.xml' }];
+
+			expect(await service.getSuggestions()).toEqual([]);
+			expect(mockRequestUrl).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('getSubscribedFeedUrls', () => {
+		it('should normalize the subscribed feed URLs', async () => {
+			subscriptions = [{ id: 'a', feedUrl: 'http://www.Example.com/feed/' }];
+
+			const feeds = await service.getSubscribedFeedUrls();
+
+			expect(feeds.has('example.com/feed')).toBe(true);
+		});
+	});
+});
@@ -277,6 +277,23 @@ describe('EpisodeManager', () => {
 			expect(result).toHaveLength(2);
 		});
 
+		it('should filter by several podcast IDs', async () => {
+			const otherEpisode: EpisodeWithProgress = { ...sampleEpisodes[0], id: 'ep-other', podcastId: 'podcast-2' };
+			const filter: EpisodeFilter = { podcastIds: ['podcast-2', 'podcast-3'] };
+
+			const result = await manager.filterEpisodes([...episodesWithProgress, otherEpisode], filter);
+
+			expect(result.map(e => e.id)).toEqual(['ep-other']);
+		});
+
+		it('should filter by duration range', async () => {
+			const filter: EpisodeFilter = { minDuration: 2000, maxDuration: 2700 };
+
+			const result = await manager.filterEpisodes(episodesWithProgress, filter);
+
+			expect(result.map(e => e.id)).toEqual(['ep-2']);
+		});
+
 		it('should apply multiple filters', async () => {
 			const filter: EpisodeFilter = {
 				seasonNumber: 1,
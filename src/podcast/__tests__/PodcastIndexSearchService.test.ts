@@ -0,0 +1,181 @@
+/**
+ * Unit tests for PodcastIndexSearchService
+ */
+
+import { PodcastIndexSearchService, PodcastIndexCredentials } from '../PodcastIndexSearchService';
+
+// Mock logger
+jest.mock('../../utils/Logger', () => ({
+	logger: {
+		methodEntry: jest.fn(),
+		methodExit: jest.fn(),
+		debug: jest.fn(),
+		info: jest.fn(),
+		warn: jest.fn(),
+		error: jest.fn(),
+	},
+}));
+
+// Mock Obsidian's requestUrl
+jest.mock('obsidian', () => ({
+	requestUrl: jest.fn(),
+}));
+
+import { requestUrl } from 'obsidian';
+const mockRequestUrl = requestUrl as jest.MockedFunction<typeof requestUrl>;
+
+// Mock retryWithBackoff to not actually retry (for faster tests)
+jest.mock('../../utils/errorUtils', () => {
+	const actual = jest.requireActual('../../utils/errorUtils');
+	return {
+		...actual,
+		retryWithBackoff: jest.fn(async (fn) => await fn()),
+	};
+});
+
+// Sample Podcast Index API response
+const sampleResponse = {
+	status: 'true',
+	count: 2,
+	feeds: [
+		{
+			id: 920666,
+			title: 'Podcasting 2.0',
+			url: 'https://feeds.podcastindex.org/pc20.xml',
+			description: 'The podcast about podcasting',
+			author: 'Podcast Index LLC',
+			ownerName: 'Podcast Index LLC',
+			image: 'https://example.com/image.jpg',
+			artwork: 'https://example.com/artwork.jpg',
+			episodeCount: 150,
+			categories: { '55': 'News', '102': 'Technology' },
+			explicit: false,
+		},
+		{
+			id: 42,
+			title: 'Late Night',
+			url: 'https://example.com/late.xml',
+			ownerName: 'Owner',
+			image: 'https://example.com/late.jpg',
+			categories: null,
+			explicit: true,
+		},
+	],
+};
+
+const createResponse = (status: number, json: unknown) => ({
+	status,
+	json,
+	text: JSON.stringify(json),
+	headers: {},
+	arrayBuffer: new ArrayBuffer(0),
+});
+
+describe('PodcastIndexSearchService', () => {
+	let service: PodcastIndexSearchService;
+	let credentials: PodcastIndexCredentials;
+
+	beforeEach(() => {
+		credentials = { apiKey: 'KEY', apiSecret: 'SECRET' };
+		service = new PodcastIndexSearchService(() => credentials, 'http://localhost:8080/api/1.0/');
+		mockRequestUrl.mockReset();
+		jest.clearAllMocks();
+	});
+
+	describe('isConfigured', () => {
+		it('should need both the key and the secret', () => {
+			expect(service.isConfigured()).toBe(true);
+
+			credentials.apiSecret = ' ';
+			expect(service.isConfigured()).toBe(false);
+		});
+	});
+
+	describe('createAuthHeaders', () => {
+		it('should sign the request with the key, secret and time', async () => {
+			const headers = await service.createAuthHeaders(new Date(1700000000000));
+
+			expect(headers['X-Auth-Key']).toBe('KEY');
+			expect(headers['X-Auth-Date']).toBe('1700000000');
+			expect(headers['Authorization']).toBe(await PodcastIndexSearchService.sha1('KEYSECRET1700000000'));
+			expect(headers['User-Agent']).toBeTruthy();
+		});
+	});
+
+	describe('sha1', () => {
+		it('should return the hex encoded hash', async () => {
+			expect(await PodcastIndexSearchService.sha1('abc')).toBe('a9993e364706816aba3e25717850c26c9cd0d89d');
+		});
+	});
+
+	describe('searchPodcasts', () => {
+		it('should search by term and transform the feeds', async () => {
+			mockRequestUrl.mockResolvedValue(createResponse(200, sampleResponse) as any);
+
+			const results = await service.searchPodcasts(' podcasting ', { limit: 20 });
+
+			expect(mockRequestUrl).toHaveBeenCalledWith(expect.objectContaining({
+				url: 'http://localhost:8080/api/1.0/search/byterm?q=podcasting&max=20',
+				method: 'GET',
+				headers: expect.objectContaining({ 'X-Auth-Key': 'KEY' }),
+			}));
+			expect(results).toHaveLength(2);
+			expect(results[0]).toEqual({
+				title: 'Podcasting 2.0',
+				author: 'Podcast Index LLC',
+				description: 'The podcast about podcasting',
+				feedUrl: 'https://feeds.podcastindex.org/pc20.xml',
+				artworkUrl: 'https://example.com/artwork.jpg',
+				collectionId: '920666',
+				episodeCount: 150,
+				genres: ['News', 'Technology'],
+			});
+			expect(results[1]).toMatchObject({
+				author: 'Owner',
+				artworkUrl: 'https://example.com/late.jpg',
+				genres: undefined,
+			});
+		});
+
+		it('should leave out explicit podcasts when asked', async () => {
+			mockRequestUrl.mockResolvedValue(createResponse(200, sampleResponse) as any);
+
+			const results = await service.searchPodcasts('podcasting', { includeExplicit: false });
+
+			expect(mockRequestUrl.mock.calls[0][0]).toMatchObject({ url: expect.stringContaining('clean=true') });
+			expect(results.map(result => result.title)).toEqual(['Podcasting 2.0']);
+		});
+
+		it('should not search without credentials', async () => {
+			credentials.apiKey = '';
+
+			expect(await service.searchPodcasts('podcasting')).toEqual([]);
+			expect(mockRequestUrl).not.toHaveBeenCalled();
+		});
+
+		it('should return no results for empty queries', async () => {
+			expect(await service.searchPodcasts('  ')).toEqual([]);
+			expect(mockRequestUrl).not.toHaveBeenCalled();
+		});
+
+		it('should return no results when the credentials are rejected', async () => {
+			mockRequestUrl.mockResolvedValue(createResponse(401, { status: 'false', description: 'Authorization failed' }) as any);
+
+			expect(await service.searchPodcasts('podcasting')).toEqual([]);
+		});
+
+		it('should return no results on server and network errors', async () => {
+			mockRequestUrl.mockResolvedValueOnce(createResponse(503, {}) as any);
+			expect(await service.searchPodcasts('podcasting')).toEqual([]);
+
+			mockRequestUrl.mockRejectedValueOnce(new Error('offline'));
+			expect(await service.searchPodcasts('podcasting')).toEqual([]);
+		});
+
+		it('should return no results for invalid responses', async () => {
+			mockRequestUrl.mockResolvedValue(createResponse(200, { status: 'true' }) as any);
+
+			expect(await service.searchPodcasts('podcasting')).toEqual([]);
+		});
+	});
+});
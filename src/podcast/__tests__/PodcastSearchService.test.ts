@@ -0,0 +1,107 @@
+/**
+ * Unit tests for PodcastSearchService
+ */
+
+import { PodcastSearchService } from '../PodcastSearchService';
+import { PodcastSearchProvider } from '../PodcastSearchProvider';
+import { PodcastSearchResult } from '../../model';
+
+// Mock logger
+jest.mock('../../utils/Logger', () => ({
+	logger: {
+		methodEntry: jest.fn(),
+		methodExit: jest.fn(),
+		debug: jest.fn(),
+		info: jest.fn(),
+		warn: jest.fn(),
+		error: jest.fn(),
+	},
+}));
+
+describe('PodcastSearchService', () => {
+	const createProvider = (
+		id: string,
+		search: () => Promise<PodcastSearchResult[]>,
+		configured = true
+	): jest.Mocked<PodcastSearchProvider> => ({
+		id,
+		name: id.toUpperCase(),
+		isConfigured: jest.fn().mockReturnValue(configured),
+		searchPodcasts: jest.fn().mockImplementation(search),
+	});
+
+	const result = (title: string, feedUrl: string, extra: Partial<PodcastSearchResult> = {}): PodcastSearchResult => ({
+		title,
+		feedUrl,
+		...extra,
+	});
+
+	describe('search', () => {
+		it('should query configured providers and merge their results', async () => {
+			const itunes = createProvider('itunes', async () => [
+				result('Shared', 'https://example.com/shared.xml'),
+				result('Apple only', 'https://example.com/apple.xml'),
+			]);
+			const index = createProvider('podcastindex', async () => [
+				result('Index only', 'https://example.com/index.xml'),
+				result('Shared (Index)', 'http://www.example.com/shared.xml/', { description: 'From the index' }),
+			]);
+			const unconfigured = createProvider('other', async () => [result('Other', 'https://example.com/other.xml')], false);
+			const service = new PodcastSearchService([itunes, index, unconfigured]);
+
+			const results = await service.search('query', { limit: 50 });
+
+			expect(itunes.searchPodcasts).toHaveBeenCalledWith('query', { limit: 50 });
+			expect(unconfigured.searchPodcasts).not.toHaveBeenCalled();
+			expect(results.map(r => r.title)).toEqual(['Shared', 'Index only', 'Apple only']);
+			expect(results[0]).toEqual({
+				title: 'Shared',
+				feedUrl: 'https://example.com/shared.xml',
+				description: 'From the index',
+				sources: ['itunes', 'podcastindex'],
+			});
+			expect(results[1].sources).toEqual(['podcastindex']);
+		});
+
+		it('should ignore a failing provider', async () => {
+			const service = new PodcastSearchService([
+				createProvider('broken', async () => { throw new Error('boom'); }),
+				createProvider('itunes', async () => [result('Podcast', 'https://example.com/feed.xml')]),
+			]);
+
+			const results = await service.search('query');
+
+			expect(results).toHaveLength(1);
+		});
+
+		it('should fail when every provider fails', async () => {
+			const service = new PodcastSearchService([
+				createProvider('broken', async () => { throw new Error('boom'); }),
+			]);
+
+			await expect(service.search('query')).rejects.toThrow('boom');
+		});
+	});
+
+	describe('registerProvider', () => {
+		it('should replace a provider with the same ID', () => {
+			const service = new PodcastSearchService([createProvider('itunes', async () => [])]);
+			const replacement = createProvider('itunes', async () => []);
+
+			service.registerProvider(replacement);
+
+			expect(service.getProviders()).toEqual([replacement]);
+		});
+	});
+
+	describe('normalizeFeedUrl', () => {
+		it('should ignore scheme, www, host case and trailing slashes', () => {
+			expect(PodcastSearchService.normalizeFeedUrl('https://Example.com/feed/'))
+				.toBe(PodcastSearchService.normalizeFeedUrl('http://www.example.com/feed'));
+		});
+
+		it('should keep the path case and query', () => {
+			expect(PodcastSearchService.normalizeFeedUrl('https://example.com/Feed?id=1')).toBe('example.com/Feed?id=1');
+		});
+	});
+});
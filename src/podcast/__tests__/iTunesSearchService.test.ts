@@ -341,6 +341,49 @@ describe('iTunesSearchService', () => {
 		});
 	});
 
+	describe('lookupPodcasts', () => {
+		it('should return podcasts with a feed URL in the order of the IDs', async () => {
+			mockRequestUrl.mockResolvedValue({
+				status: 200,
+				json: {
+					resultCount: 3,
+					results: [
+						...sampleiTunesResponse.results,
+						{ collectionId: 345678, collectionName: 'No Feed', artistName: 'Nobody' },
+					],
+				},
+			} as any);
+
+			const results = await service.lookupPodcasts(['789012', '345678', '123456', '999'], 'GB');
+
+			expect(mockRequestUrl.mock.calls[0][0]).toMatchObject({
+				url: 'https://itunes.apple.com/lookup?id=789012%2C345678%2C123456%2C999&entity=podcast&country=GB',
+			});
+			expect(results.map(result => result.collectionId)).toEqual(['789012', '123456']);
+			expect(results[1]).toMatchObject({
+				title: 'Test Podcast',
+				feedUrl: 'https://example.com/feed.xml',
+				artworkUrl: 'https://example.com/artwork600.jpg',
+			});
+		});
+
+		it('should not request anything without IDs', async () => {
+			expect(await service.lookupPodcasts([])).toEqual([]);
+			expect(mockRequestUrl).not.toHaveBeenCalled();
+		});
+
+		it('should throw a NetworkError when the lookup fails', async () => {
+			mockRequestUrl.mockResolvedValueOnce({ status: 503, json: {} } as any);
+			await expect(service.lookupPodcasts(['1'])).rejects.toBeInstanceOf(NetworkError);
+
+			mockRequestUrl.mockRejectedValueOnce(new Error('offline'));
+			await expect(service.lookupPodcasts(['1'])).rejects.toBeInstanceOf(NetworkError);
+
+			mockRequestUrl.mockResolvedValueOnce({ status: 200, json: {} } as any);
+			await expect(service.lookupPodcasts(['1'])).rejects.toBeInstanceOf(NetworkError);
+		});
+	});
+
 	describe('isAppleUrl', () => {
 		it('should identify Apple URLs', () => {
 			expect(iTunesSearchService.isAppleUrl('https://podcasts.apple.com/podcast/123')).toBe(true);
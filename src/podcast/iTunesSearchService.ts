@@ -9,6 +9,9 @@ import { logger } from '../utils/Logger';
 import { NetworkError, retryWithBackoff } from '../utils/errorUtils';
 import { PodcastSearchResult } from '../model';
 import { requestUrl } from 'obsidian';
+import { PodcastSearchProvider, SearchOptions } from './PodcastSearchProvider';
+
+export type { SearchOptions } from './PodcastSearchProvider';
 
 /**
  * iTunes API response interface
@@ -34,29 +37,41 @@ interface iTunesSearchResponse {
 	results: iTunesResult[];
 }
 
-/**
- * Search options
- */
-export interface SearchOptions {
-	/** Maximum number of results (default: 10, max: 200) */
-	limit?: number;
-	/** Request timeout in milliseconds (default: 15000) */
-	timeout?: number;
-	/** Country code for search (default: 'US') */
-	country?: string;
-	/** Whether to include explicit content (default: true) */
-	includeExplicit?: boolean;
-}
-
 /**
  * iTunes Search Service
  */
-export class iTunesSearchService {
+export class iTunesSearchService implements PodcastSearchProvider {
 	private static readonly API_BASE_URL = 'https://itunes.apple.com/search';
+	private static readonly LOOKUP_URL = 'https://itunes.apple.com/lookup';
 	private static readonly DEFAULT_TIMEOUT = 15000; // 15 seconds
 	private static readonly DEFAULT_LIMIT = 10;
 	private static readonly MAX_LIMIT = 200;
 
+	readonly id = 'itunes';
+	readonly name = 'Apple Podcasts';
+
+	private apiUrl: string;
+	private lookupUrl: string;
+
+	/**
+	 * @param apiUrl - Search endpoint, overridable to test against a local server
+	 * @param lookupUrl - Lookup endpoint, overridable to test against a local server
+	 */
+	constructor(
+		apiUrl: string = iTunesSearchService.API_BASE_URL,
+		lookupUrl: string = iTunesSearchService.LOOKUP_URL
+	) {
+		this.apiUrl = apiUrl;
+		this.lookupUrl = lookupUrl;
+	}
+
+	/**
+	 * The iTunes Search API needs no credentials
+	 */
+	isConfigured(): boolean {
+		return true;
+	}
+
 	/**
 	 * Search for podcasts by query string
 	 */
@@ -165,6 +180,73 @@ export class iTunesSearchService {
 		}
 	}
 
+	/**
+	 * Look up podcasts by their Apple Podcasts IDs
+	 * Unlike searchPodcasts this throws a NetworkError when the lookup fails,
+	 * so callers can tell a failure from unknown IDs.
+	 *
+	 * @returns Podcasts with a feed URL, in the order of the IDs
+	 */
+	async lookupPodcasts(ids: string[], country = 'US'): Promise<PodcastSearchResult[]> {
+		logger.methodEntry('iTunesSearchService', 'lookupPodcasts', `count=${ids.length}`);
+
+		if (ids.length === 0) {
+			logger.methodExit('iTunesSearchService', 'lookupPodcasts', 'no IDs');
+			return [];
+		}
+
+		const url = new URL(this.lookupUrl);
+		url.searchParams.append('id', ids.join(','));
+		url.searchParams.append('entity', 'podcast');
+		url.searchParams.append('country', country);
+
+		const response = await retryWithBackoff(
+			async () => {
+				let result;
+				try {
+					result = await requestUrl({
+						url: url.href,
+						method: 'GET',
+						headers: { 'Accept': 'application/json' },
+						throw: false,
+					});
+				} catch (err) {
+					throw new NetworkError('Failed to connect to iTunes API', url.href, err instanceof Error ? err : undefined);
+				}
+
+				if (result.status !== 200) {
+					throw new NetworkError(`iTunes lookup returned status ${result.status}`, url.href);
+				}
+
+				return result;
+			},
+			{
+				maxRetries: 2,
+				initialDelay: 1000,
+				maxDelay: 5000,
+			}
+		);
+
+		const data = response.json as iTunesSearchResponse;
+		if (!data || !Array.isArray(data.results)) {
+			throw new NetworkError('Invalid iTunes lookup response', url.href);
+		}
+
+		const byId = new Map<string, PodcastSearchResult>();
+		for (const result of data.results) {
+			if (result.feedUrl && result.collectionId !== undefined) {
+				byId.set(result.collectionId.toString(), this.transformResult(result));
+			}
+		}
+
+		const results = ids
+			.map(id => byId.get(id))
+			.filter((result): result is PodcastSearchResult => result !== undefined);
+
+		logger.methodExit('iTunesSearchService', 'lookupPodcasts', `count=${results.length}`);
+		return results;
+	}
+
 	/**
 	 * Build search URL with parameters
 	 */
@@ -174,7 +256,7 @@ export class iTunesSearchService {
 		country: string,
 		includeExplicit: boolean
 	): string {
-		const url = new URL(iTunesSearchService.API_BASE_URL);
+		const url = new URL(this.apiUrl);
 
 		url.searchParams.append('term', query);
 		url.searchParams.append('media', 'podcast');
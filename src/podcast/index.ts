@@ -20,3 +20,30 @@ export {
 	type EpisodeWithProgress,
 	type EpisodeStatistics,
 } from './EpisodeManager';
+
+// Export online search
+export {
+	PodcastSearchService,
+} from './PodcastSearchService';
+export {
+	type PodcastSearchProvider,
+	type SearchOptions,
+} from './PodcastSearchProvider';
+export { iTunesSearchService } from './iTunesSearchService';
+export {
+	PodcastIndexSearchService,
+	type PodcastIndexCredentials,
+} from './PodcastIndexSearchService';
+
+// Export charts and suggestions
+export {
+	DiscoverService,
+	DISCOVER_COUNTRIES,
+	type ChartOptions,
+	type DiscoverSuggestion,
+} from './DiscoverService';
+export {
+	AppleGenres,
+	APPLE_PODCAST_GENRES,
+	type AppleGenre,
+} from './AppleGenres';
@@ -0,0 +1,315 @@
+/**
+ * EpisodeSearchIndex - In-memory full-text index of episodes
+ *
+ * Indexes the title, description and transcript of each episode and ranks
+ * matches with BM25-style term weighting. Title matches weigh most, then
+ * the description, then the transcript. The last query term also matches
+ * words starting with it, so results appear while typing.
+ */
+
+import { TranscriptCue } from '../model';
+import { SearchQueryParser } from './SearchQuery';
+
+/**
+ * Searchable episode fields
+ */
+export type SearchField = 'title' | 'description' | 'transcript';
+
+/**
+ * Text of an episode to index
+ */
+export interface IndexedEpisodeText {
+	title: string;
+	/** Plain text description */
+	description: string;
+	/** Transcript cues, when a transcript is available */
+	transcript?: TranscriptCue[];
+}
+
+/**
+ * A matching episode
+ */
+export interface EpisodeSearchHit {
+	episodeId: string;
+	score: number;
+	/** Fields the terms were found in */
+	fields: SearchField[];
+	/** Description or transcript text around the first match */
+	snippet?: string;
+	/** Start of the first transcript cue containing a term */
+	transcriptTime?: number;
+}
+
+interface IndexedDocument {
+	counts: Record<SearchField, Map<string, number>>;
+	/** Tokens joined by single spaces, for phrase matching */
+	joined: Record<SearchField, string>;
+	description: string;
+	transcript: TranscriptCue[];
+}
+
+const FIELDS: SearchField[] = ['title', 'description', 'transcript'];
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+	title: 3,
+	description: 1,
+	transcript: 0.5,
+};
+
+/** Term frequency saturation */
+const K1 = 1.2;
+
+/** Weight of a prefix match relative to a whole-word match */
+const PREFIX_WEIGHT = 0.7;
+
+const MIN_PREFIX_LENGTH = 2;
+const SNIPPET_LENGTH = 160;
+
+/**
+ * Episode Search Index
+ */
+export class EpisodeSearchIndex {
+	private documents: Map<string, IndexedDocument> = new Map();
+	private postings: Map<string, Set<string>> = new Map();
+
+	/**
+	 * Number of indexed episodes
+	 */
+	get size(): number {
+		return this.documents.size;
+	}
+
+	/**
+	 * Check whether an episode is indexed
+	 */
+	has(episodeId: string): boolean {
+		return this.documents.has(episodeId);
+	}
+
+	/**
+	 * Add an episode, replacing its previous entry
+	 */
+	add(episodeId: string, text: IndexedEpisodeText): void {
+		this.remove(episodeId);
+
+		const transcript = text.transcript || [];
+		const tokens: Record<SearchField, string[]> = {
+			title: SearchQueryParser.tokenize(text.title),
+			description: SearchQueryParser.tokenize(text.description),
+			transcript: SearchQueryParser.tokenize(transcript.map(cue => cue.text).join(' ')),
+		};
+
+		const document: IndexedDocument = {
+			counts: { title: new Map(), description: new Map(), transcript: new Map() },
+			joined: { title: '', description: '', transcript: '' },
+			description: text.description,
+			transcript,
+		};
+
+		for (const field of FIELDS) {
+			document.joined[field] = tokens[field].join(' ');
+			for (const token of tokens[field]) {
+				document.counts[field].set(token, (document.counts[field].get(token) || 0) + 1);
+
+				let episodeIds = this.postings.get(token);
+				if (!episodeIds) {
+					episodeIds = new Set();
+					this.postings.set(token, episodeIds);
+				}
+				episodeIds.add(episodeId);
+			}
+		}
+
+		this.documents.set(episodeId, document);
+	}
+
+	/**
+	 * Remove an episode
+	 */
+	remove(episodeId: string): void {
+		const document = this.documents.get(episodeId);
+		if (!document) {
+			return;
+		}
+
+		for (const field of FIELDS) {
+			for (const token of document.counts[field].keys()) {
+				const episodeIds = this.postings.get(token);
+				episodeIds?.delete(episodeId);
+				if (episodeIds && episodeIds.size === 0) {
+					this.postings.delete(token);
+				}
+			}
+		}
+
+		this.documents.delete(episodeId);
+	}
+
+	/**
+	 * Remove all episodes
+	 */
+	clear(): void {
+		this.documents.clear();
+		this.postings.clear();
+	}
+
+	/**
+	 * Find episodes containing all terms and phrases, best match first
+	 * Without terms or phrases every indexed episode matches with a score of 0.
+	 * @param candidates - Only consider these episodes
+	 */
+	search(terms: string[], phrases: string[] = [], candidates?: Set<string>): EpisodeSearchHit[] {
+		let matching: Set<string> = candidates
+			? new Set(Array.from(candidates).filter(id => this.documents.has(id)))
+			: new Set(this.documents.keys());
+
+		// Each term matches the words it expands to
+		const expansions = terms.map((term, index) => this.expandTerm(term, index === terms.length - 1));
+		for (const expansion of expansions) {
+			const termMatches = new Set<string>();
+			for (const token of expansion.keys()) {
+				for (const episodeId of this.postings.get(token) || []) {
+					if (matching.has(episodeId)) {
+						termMatches.add(episodeId);
+					}
+				}
+			}
+			matching = termMatches;
+		}
+
+		const hits: EpisodeSearchHit[] = [];
+
+		for (const episodeId of matching) {
+			const document = this.documents.get(episodeId)!;
+			if (!phrases.every(phrase => FIELDS.some(field => EpisodeSearchIndex.containsPhrase(document.joined[field], phrase)))) {
+				continue;
+			}
+
+			const fields = new Set<SearchField>();
+			let score = 0;
+
+			for (const expansion of expansions) {
+				let best = 0;
+				for (const [token, weight] of expansion) {
+					const tokenScore = this.scoreToken(document, token, fields) * weight;
+					best = Math.max(best, tokenScore);
+				}
+				score += best;
+			}
+
+			for (const phrase of phrases) {
+				for (const field of FIELDS) {
+					if (EpisodeSearchIndex.containsPhrase(document.joined[field], phrase)) {
+						fields.add(field);
+						score += FIELD_WEIGHTS[field];
+					}
+				}
+			}
+
+			const matchedTokens = new Set<string>();
+			expansions.forEach(expansion => expansion.forEach((_weight, token) => matchedTokens.add(token)));
+
+			hits.push({
+				episodeId,
+				score,
+				fields: FIELDS.filter(field => fields.has(field)),
+				...this.locateMatch(document, fields, matchedTokens),
+			});
+		}
+
+		return hits.sort((a, b) => b.score - a.score);
+	}
+
+	/**
+	 * Words a term matches, with their weight
+	 */
+	private expandTerm(term: string, allowPrefix: boolean): Map<string, number> {
+		const expansion = new Map<string, number>();
+
+		if (this.postings.has(term)) {
+			expansion.set(term, 1);
+		}
+
+		if (allowPrefix && term.length >= MIN_PREFIX_LENGTH) {
+			for (const token of this.postings.keys()) {
+				if (token !== term && token.startsWith(term)) {
+					expansion.set(token, PREFIX_WEIGHT);
+				}
+			}
+		}
+
+		return expansion;
+	}
+
+	/**
+	 * BM25-style score of a word in an episode, summed over the fields
+	 */
+	private scoreToken(document: IndexedDocument, token: string, fields: Set<SearchField>): number {
+		const documentCount = this.postings.get(token)?.size || 0;
+		const idf = Math.log(1 + (this.documents.size - documentCount + 0.5) / (documentCount + 0.5));
+		let score = 0;
+
+		for (const field of FIELDS) {
+			const count = document.counts[field].get(token) || 0;
+			if (count > 0) {
+				fields.add(field);
+				score += FIELD_WEIGHTS[field] * idf * (count * (K1 + 1)) / (count + K1);
+			}
+		}
+
+		return score;
+	}
+
+	/**
+	 * Snippet and transcript position of the first match
+	 */
+	private locateMatch(
+		document: IndexedDocument,
+		fields: Set<SearchField>,
+		tokens: Set<string>
+	): Pick<EpisodeSearchHit, 'snippet' | 'transcriptTime'> {
+		if (fields.has('description')) {
+			return { snippet: EpisodeSearchIndex.createSnippet(document.description, tokens) };
+		}
+
+		if (fields.has('transcript')) {
+			const cue = document.transcript.find(c =>
+				SearchQueryParser.tokenize(c.text).some(token => tokens.has(token))
+			);
+			if (cue) {
+				return { snippet: EpisodeSearchIndex.createSnippet(cue.text, tokens), transcriptTime: cue.startTime };
+			}
+		}
+
+		return {};
+	}
+
+	/**
+	 * Text around the first word that matched
+	 */
+	static createSnippet(text: string, tokens: Set<string>): string {
+		const normalized = text.toLowerCase();
+		let position = -1;
+
+		for (const token of tokens) {
+			const index = normalized.indexOf(token);
+			if (index !== -1 && (position === -1 || index < position)) {
+				position = index;
+			}
+		}
+
+		if (text.length <= SNIPPET_LENGTH) {
+			return text;
+		}
+
+		const start = Math.max(0, Math.min(position - SNIPPET_LENGTH / 3, text.length - SNIPPET_LENGTH));
+		const end = Math.min(text.length, start + SNIPPET_LENGTH);
+		const snippet = text.substring(start, end).trim();
+
+		return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+	}
+
+	private static containsPhrase(joined: string, phrase: string): boolean {
+		return ` ${joined} `.includes(` ${phrase} `);
+	}
+}
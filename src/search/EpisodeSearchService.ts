@@ -0,0 +1,273 @@
+/**
+ * EpisodeSearchService - Full-text search across all subscribed episodes
+ *
+ * Keeps an EpisodeSearchIndex of every subscribed episode up to date and
+ * answers search queries with field qualifiers. Podcasts are re-indexed
+ * when their feed was fetched again; transcripts are indexed when they are
+ * available offline, i.e. after they were opened once, and an episode is
+ * re-indexed when its transcript is loaded later.
+ */
+
+import { logger } from '../utils/Logger';
+import { Episode, Podcast } from '../model';
+import { SubscriptionStore } from '../storage/SubscriptionStore';
+import { ProgressStore } from '../storage/ProgressStore';
+import { TranscriptService } from '../transcript/TranscriptService';
+import { ShowNotesConverter } from '../markdown/ShowNotesConverter';
+import { EpisodeSearchIndex, SearchField } from './EpisodeSearchIndex';
+import { EpisodeSearchQuery, SearchQueryParser } from './SearchQuery';
+
+/**
+ * An episode matching a search
+ */
+export interface EpisodeSearchResult {
+	episode: Episode;
+	podcast: Podcast;
+	score: number;
+	/** Fields the search terms were found in */
+	fields: SearchField[];
+	/** Description or transcript text around the first match */
+	snippet?: string;
+	/** Position of the first transcript match in seconds */
+	transcriptTime?: number;
+	played: boolean;
+}
+
+/**
+ * Episode Search Service
+ */
+export class EpisodeSearchService {
+	private static readonly DEFAULT_LIMIT = 100;
+	/** Cached transcripts read in parallel while indexing */
+	private static readonly TRANSCRIPT_BATCH_SIZE = 10;
+
+	private subscriptionStore: SubscriptionStore;
+	private progressStore: ProgressStore;
+	private transcriptService: TranscriptService;
+	private index: EpisodeSearchIndex = new EpisodeSearchIndex();
+	/** Indexed version of each podcast, see getPodcastSignature */
+	private podcastSignatures: Map<string, string> = new Map();
+	private podcastEpisodes: Map<string, string[]> = new Map();
+	/** Episodes whose transcript became available after they were indexed */
+	private staleEpisodes: Set<string> = new Set();
+	private refreshing: Promise<void> | null = null;
+
+	constructor(
+		subscriptionStore: SubscriptionStore,
+		progressStore: ProgressStore,
+		transcriptService: TranscriptService
+	) {
+		this.subscriptionStore = subscriptionStore;
+		this.progressStore = progressStore;
+		this.transcriptService = transcriptService;
+	}
+
+	/**
+	 * Search episodes
+	 * A query with only qualifiers lists the matching episodes, newest first.
+	 */
+	async search(input: string, limit: number = EpisodeSearchService.DEFAULT_LIMIT): Promise<EpisodeSearchResult[]> {
+		logger.methodEntry('EpisodeSearchService', 'search', input);
+
+		const query = SearchQueryParser.parse(input);
+		if (SearchQueryParser.isEmpty(query)) {
+			logger.methodExit('EpisodeSearchService', 'search', 'empty query');
+			return [];
+		}
+
+		const podcasts = await this.subscriptionStore.getAllPodcasts();
+		await this.refreshIndex(podcasts);
+
+		const completed = new Set(
+			(await this.progressStore.getAllProgress())
+				.filter(progress => progress.completed)
+				.map(progress => progress.episodeId)
+		);
+
+		const episodes = new Map<string, { episode: Episode; podcast: Podcast }>();
+		for (const podcast of podcasts) {
+			for (const episode of podcast.episodes || []) {
+				if (this.matchesFilters(episode, podcast, query, completed)) {
+					episodes.set(episode.id, { episode, podcast });
+				}
+			}
+		}
+
+		const hits = this.index.search(query.terms, query.phrases, new Set(episodes.keys()));
+		const results = hits.map(hit => ({
+			...episodes.get(hit.episodeId)!,
+			score: hit.score,
+			fields: hit.fields,
+			snippet: hit.snippet,
+			transcriptTime: hit.transcriptTime,
+			played: completed.has(hit.episodeId),
+		}));
+
+		results.sort((a, b) =>
+			b.score - a.score ||
+			new Date(b.episode.publishDate).getTime() - new Date(a.episode.publishDate).getTime()
+		);
+
+		logger.methodExit('EpisodeSearchService', 'search', `count=${results.length}`);
+		return results.slice(0, limit);
+	}
+
+	/**
+	 * Forget the index; it is rebuilt by the next search
+	 */
+	invalidate(): void {
+		this.index.clear();
+		this.podcastSignatures.clear();
+		this.podcastEpisodes.clear();
+		this.staleEpisodes.clear();
+	}
+
+	/**
+	 * Re-index an episode with the next search, e.g. after its transcript was loaded
+	 */
+	invalidateEpisode(episodeId: string): void {
+		if (this.index.has(episodeId)) {
+			this.staleEpisodes.add(episodeId);
+		}
+	}
+
+	/**
+	 * Number of indexed episodes
+	 */
+	getIndexedEpisodeCount(): number {
+		return this.index.size;
+	}
+
+	/**
+	 * Re-index podcasts that changed since they were indexed
+	 * Concurrent searches share one refresh.
+	 */
+	private async refreshIndex(podcasts: Podcast[]): Promise<void> {
+		while (this.refreshing) {
+			await this.refreshing;
+		}
+
+		this.refreshing = this.updateIndex(podcasts);
+		try {
+			await this.refreshing;
+		} finally {
+			this.refreshing = null;
+		}
+	}
+
+	private async updateIndex(podcasts: Podcast[]): Promise<void> {
+		const podcastIds = new Set(podcasts.map(podcast => podcast.id));
+
+		// Drop unsubscribed podcasts
+		for (const podcastId of Array.from(this.podcastSignatures.keys())) {
+			if (!podcastIds.has(podcastId)) {
+				this.removePodcast(podcastId);
+			}
+		}
+
+		for (const podcast of podcasts) {
+			const signature = EpisodeSearchService.getPodcastSignature(podcast);
+			if (this.podcastSignatures.get(podcast.id) === signature) {
+				const stale = (podcast.episodes || []).filter(episode => this.staleEpisodes.has(episode.id));
+				await this.indexEpisodes(stale);
+				continue;
+			}
+
+			this.removePodcast(podcast.id);
+			await this.indexPodcast(podcast);
+			this.podcastSignatures.set(podcast.id, signature);
+		}
+
+		this.staleEpisodes.clear();
+	}
+
+	private async indexPodcast(podcast: Podcast): Promise<void> {
+		logger.debug('Indexing podcast for search', podcast.id);
+
+		const episodes = podcast.episodes || [];
+		await this.indexEpisodes(episodes);
+		this.podcastEpisodes.set(podcast.id, episodes.map(episode => episode.id));
+	}
+
+	/**
+	 * Index episodes, reading their cached transcripts a batch at a time
+	 */
+	private async indexEpisodes(episodes: Episode[]): Promise<void> {
+		const batchSize = EpisodeSearchService.TRANSCRIPT_BATCH_SIZE;
+
+		for (let start = 0; start < episodes.length; start += batchSize) {
+			await Promise.all(episodes.slice(start, start + batchSize).map(episode => this.indexEpisode(episode)));
+		}
+	}
+
+	private async indexEpisode(episode: Episode): Promise<void> {
+		let transcript = null;
+		if (this.transcriptService.hasTranscript(episode)) {
+			try {
+				transcript = await this.transcriptService.getCachedTranscript(episode);
+			} catch (error) {
+				logger.warn('Failed to load cached transcript for search', error);
+			}
+		}
+
+		this.index.add(episode.id, {
+			title: episode.title,
+			description: EpisodeSearchService.toPlainText(episode.description || ''),
+			transcript: transcript?.cues,
+		});
+	}
+
+	private removePodcast(podcastId: string): void {
+		for (const episodeId of this.podcastEpisodes.get(podcastId) || []) {
+			this.index.remove(episodeId);
+		}
+		this.podcastEpisodes.delete(podcastId);
+		this.podcastSignatures.delete(podcastId);
+	}
+
+	private matchesFilters(
+		episode: Episode,
+		podcast: Podcast,
+		query: EpisodeSearchQuery,
+		completed: Set<string>
+	): boolean {
+		if (query.podcast !== undefined &&
+			!SearchQueryParser.tokenize(podcast.title).join(' ').includes(query.podcast)) {
+			return false;
+		}
+
+		const published = new Date(episode.publishDate).getTime();
+		if (query.before && !(published < query.before.getTime())) {
+			return false;
+		}
+		if (query.after && !(published >= query.after.getTime())) {
+			return false;
+		}
+
+		if (query.played !== undefined && completed.has(episode.id) !== query.played) {
+			return false;
+		}
+
+		return true;
+	}
+
+	/**
+	 * Changes whenever the feed was fetched again or episodes were added or removed
+	 */
+	private static getPodcastSignature(podcast: Podcast): string {
+		const fetchedAt = podcast.lastFetchedAt ? new Date(podcast.lastFetchedAt).getTime() : 0;
+		const episodes = podcast.episodes || [];
+		return `${fetchedAt}|${episodes.length}|${episodes[0]?.id || ''}`;
+	}
+
+	/**
+	 * Show notes without HTML
+	 */
+	static toPlainText(html: string): string {
+		return ShowNotesConverter.decodeEntities(
+			html
+				.replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+				.replace(/<[^>]*>/g, ' ')
+		).replace(/\s+/g, ' ').trim();
+	}
+}
@@ -0,0 +1,151 @@
+/**
+ * SearchQuery - Parses episode search queries
+ *
+ * Free text is split into terms and "quoted phrases". Field qualifiers narrow
+ * the results:
+ * - podcast:name or podcast:"two words" - podcast title contains the text
+ * - before:2024-03-01 / after:2024-03-01 - published before / on or after a date
+ *   (YYYY, YYYY-MM or YYYY-MM-DD, local time)
+ * - played:yes / played:no - completed or not
+ */
+
+/**
+ * Parsed episode search query
+ */
+export interface EpisodeSearchQuery {
+	/** Normalized words, all of which must match */
+	terms: string[];
+	/** Normalized phrases that must appear as written */
+	phrases: string[];
+	/** Podcast title filter (normalized) */
+	podcast?: string;
+	/** Only episodes published before this date */
+	before?: Date;
+	/** Only episodes published on or after this date */
+	after?: Date;
+	/** Only played (true) or unplayed (false) episodes */
+	played?: boolean;
+}
+
+/**
+ * Search Query Parser
+ */
+export class SearchQueryParser {
+	private static readonly QUALIFIERS = ['podcast', 'before', 'after', 'played'];
+
+	/**
+	 * Parse a search query; unknown or invalid qualifiers are searched as text
+	 */
+	static parse(input: string): EpisodeSearchQuery {
+		const query: EpisodeSearchQuery = { terms: [], phrases: [] };
+		const pattern = /(?:(\w+):)?(?:"([^"]*)"?|(\S+))/g;
+		let match: RegExpExecArray | null;
+
+		while ((match = pattern.exec(input)) !== null) {
+			const [whole, qualifier, quoted, bare] = match;
+
+			if (qualifier && this.QUALIFIERS.includes(qualifier.toLowerCase()) &&
+				this.applyQualifier(query, qualifier.toLowerCase(), quoted ?? bare)) {
+				continue;
+			}
+
+			if (quoted === undefined) {
+				query.terms.push(...this.tokenize(whole));
+				continue;
+			}
+
+			const words = this.tokenize(quoted);
+			if (words.length > 1) {
+				query.phrases.push(words.join(' '));
+			}
+			query.terms.push(...this.tokenize(qualifier || ''), ...words);
+		}
+
+		query.terms = Array.from(new Set(query.terms));
+		return query;
+	}
+
+	/**
+	 * Whether the query has nothing to search for
+	 */
+	static isEmpty(query: EpisodeSearchQuery): boolean {
+		return query.terms.length === 0 &&
+			query.phrases.length === 0 &&
+			query.podcast === undefined &&
+			query.before === undefined &&
+			query.after === undefined &&
+			query.played === undefined;
+	}
+
+	/**
+	 * Lower case text without diacritics
+	 */
+	static normalize(text: string): string {
+		return text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+	}
+
+	/**
+	 * Split text into normalized words
+	 */
+	static tokenize(text: string): string[] {
+		return this.normalize(text).split(/[^\p{L}\p{N}]+/u).filter(token => token.length > 0);
+	}
+
+	private static applyQualifier(query: EpisodeSearchQuery, qualifier: string, value: string): boolean {
+		switch (qualifier) {
+			case 'podcast': {
+				const podcast = this.tokenize(value).join(' ');
+				if (!podcast) {
+					return false;
+				}
+				query.podcast = podcast;
+				return true;
+			}
+
+			case 'before':
+			case 'after': {
+				const date = this.parseDate(value);
+				if (!date) {
+					return false;
+				}
+				query[qualifier] = date;
+				return true;
+			}
+
+			case 'played': {
+				const played = value.toLowerCase();
+				if (['yes', 'true', 'y', '1'].includes(played)) {
+					query.played = true;
+					return true;
+				}
+				if (['no', 'false', 'n', '0'].includes(played)) {
+					query.played = false;
+					return true;
+				}
+				return false;
+			}
+		}
+
+		return false;
+	}
+
+	/**
+	 * Parse YYYY, YYYY-MM or YYYY-MM-DD as the start of that period in local time
+	 */
+	private static parseDate(value: string): Date | null {
+		const match = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(value.trim());
+		if (!match) {
+			return null;
+		}
+
+		const year = parseInt(match[1], 10);
+		const month = match[2] ? parseInt(match[2], 10) : 1;
+		const day = match[3] ? parseInt(match[3], 10) : 1;
+
+		if (month < 1 || month > 12 || day < 1 || day > 31) {
+			return null;
+		}
+
+		return new Date(year, month - 1, day);
+	}
+}
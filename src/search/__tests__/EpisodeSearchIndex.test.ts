@@ -0,0 +1,112 @@
+/**
+ * Unit tests for EpisodeSearchIndex
+ */
+
+import { EpisodeSearchIndex } from '../EpisodeSearchIndex';
+
+describe('EpisodeSearchIndex', () => {
+	let index: EpisodeSearchIndex;
+
+	beforeEach(() => {
+		index = new EpisodeSearchIndex();
+		index.add('ep-1', { title: 'Deep learning explained', description: 'An introduction to neural networks.' });
+		index.add('ep-2', { title: 'Gardening', description: 'We talk about learning to grow tomatoes.' });
+		index.add('ep-3', {
+			title: 'Interview',
+			description: 'A long conversation.',
+			transcript: [
+				{ startTime: 0, endTime: 5, text: 'Welcome to the show.' },
+				{ startTime: 65, endTime: 70, text: 'Neural networks changed everything.' },
+			],
+		});
+	});
+
+	describe('search', () => {
+		it('should rank title matches above description matches', () => {
+			const hits = index.search(['learning']);
+
+			expect(hits.map(hit => hit.episodeId)).toEqual(['ep-1', 'ep-2']);
+			expect(hits[0].fields).toEqual(['title']);
+			expect(hits[1].fields).toEqual(['description']);
+		});
+
+		it('should require every term', () => {
+			expect(index.search(['neural', 'tomatoes'])).toEqual([]);
+			expect(index.search(['learning', 'tomatoes']).map(hit => hit.episodeId)).toEqual(['ep-2']);
+		});
+
+		it('should expand only the last term as a prefix', () => {
+			expect(index.search(['tomat']).map(hit => hit.episodeId)).toEqual(['ep-2']);
+			expect(index.search(['tomat', 'learning'])).toEqual([]);
+		});
+
+		it('should rank exact matches above prefix matches', () => {
+			index.add('ep-4', { title: 'Gardens', description: '' });
+			index.add('ep-5', { title: 'Garden', description: '' });
+
+			const hits = index.search(['garden']);
+
+			expect(hits.map(hit => hit.episodeId)).toEqual(['ep-5', expect.any(String), expect.any(String)]);
+			expect(hits[0].score).toBeGreaterThan(hits[1].score);
+		});
+
+		it('should match transcripts and report the position', () => {
+			const hits = index.search(['changed']);
+
+			expect(hits).toHaveLength(1);
+			expect(hits[0]).toMatchObject({
+				episodeId: 'ep-3',
+				fields: ['transcript'],
+				snippet: 'Neural networks changed everything.',
+				transcriptTime: 65,
+			});
+		});
+
+		it('should only match phrases as written', () => {
+			expect(index.search(['neural', 'networks'], ['neural networks']).map(hit => hit.episodeId).sort())
+				.toEqual(['ep-1', 'ep-3']);
+			expect(index.search(['networks', 'neural'], ['networks neural'])).toEqual([]);
+		});
+
+		it('should limit results to the candidates', () => {
+			expect(index.search(['learning'], [], new Set(['ep-2', 'unknown'])).map(hit => hit.episodeId)).toEqual(['ep-2']);
+		});
+
+		it('should return all candidates without terms', () => {
+			expect(index.search([], [], new Set(['ep-1', 'ep-3'])).map(hit => hit.episodeId).sort()).toEqual(['ep-1', 'ep-3']);
+		});
+	});
+
+	describe('add and remove', () => {
+		it('should replace an episode', () => {
+			index.add('ep-2', { title: 'Cooking', description: '' });
+
+			expect(index.size).toBe(3);
+			expect(index.search(['tomatoes'])).toEqual([]);
+			expect(index.search(['cooking']).map(hit => hit.episodeId)).toEqual(['ep-2']);
+		});
+
+		it('should forget removed episodes', () => {
+			index.remove('ep-1');
+
+			expect(index.has('ep-1')).toBe(false);
+			expect(index.search(['deep'])).toEqual([]);
+		});
+	});
+
+	describe('createSnippet', () => {
+		it('should return short text unchanged', () => {
+			expect(EpisodeSearchIndex.createSnippet('Short text', new Set(['text']))).toBe('Short text');
+		});
+
+		it('should cut long text around the match', () => {
+			const text = `${'a '.repeat(150)}needle ${'b '.repeat(150)}`;
+			const snippet = EpisodeSearchIndex.createSnippet(text, new Set(['needle']));
+
+			expect(snippet).toContain('needle');
+			expect(snippet.startsWith('…')).toBe(true);
+			expect(snippet.endsWith('…')).toBe(true);
+			expect(snippet.length).toBeLessThanOrEqual(162);
+		});
+	});
+});
@@ -0,0 +1,206 @@
+/**
+ * Unit tests for EpisodeSearchService
+ */
+
+import { EpisodeSearchService } from '../EpisodeSearchService';
+import { SubscriptionStore } from '../../storage/SubscriptionStore';
+import { ProgressStore } from '../../storage/ProgressStore';
+import { TranscriptService } from '../../transcript/TranscriptService';
+import { Episode, Podcast } from '../../model';
+
+// Mock logger
+jest.mock('../../utils/Logger', () => ({
+	logger: {
+		methodEntry: jest.fn(),
+		methodExit: jest.fn(),
+		debug: jest.fn(),
+		info: jest.fn(),
+		warn: jest.fn(),
+		error: jest.fn(),
+	},
+}));
+
+describe('EpisodeSearchService', () => {
+	let service: EpisodeSearchService;
+	let podcasts: Podcast[];
+	let mockSubscriptionStore: jest.Mocked<SubscriptionStore>;
+	let mockProgressStore: jest.Mocked<ProgressStore>;
+	let mockTranscriptService: jest.Mocked<TranscriptService>;
+
+	const createEpisode = (id: string, podcastId: string, title: string, description: string, publishDate: Date): Episode => ({
+		id,
+		podcastId,
+		title,
+		description,
+		audioUrl: `https://example.com/${id}.mp3`,
+		duration: 1800,
+		publishDate,
+	});
+
+	const createPodcast = (id: string, title: string, episodes: Episode[]): Podcast => ({
+		id,
+		title,
+		author: 'Author',
+		description: '',
+		feedUrl: `https://example.com/${id}.xml`,
+		imageUrl: '',
+		subscribedAt: new Date(2024, 0, 1),
+		lastFetchedAt: new Date(2024, 5, 1),
+		episodes,
+	} as Podcast);
+
+	beforeEach(() => {
+		podcasts = [
+			createPodcast('tech', 'Tech Talk Daily', [
+				createEpisode('tech-1', 'tech', 'The future of AI', '<p>Robots &amp; <b>machine learning</b></p>', new Date(2024, 0, 10)),
+				createEpisode('tech-2', 'tech', 'Chips', 'Semiconductors and machine shops', new Date(2024, 4, 10)),
+			]),
+			createPodcast('garden', 'Green Fingers', [
+				createEpisode('garden-1', 'garden', 'Spring planting', 'Machine-free gardening', new Date(2024, 2, 1)),
+			]),
+		];
+
+		mockSubscriptionStore = {
+			getAllPodcasts: jest.fn().mockImplementation(async () => podcasts),
+		} as any;
+
+		mockProgressStore = {
+			getAllProgress: jest.fn().mockResolvedValue([
+				{ episodeId: 'tech-2', podcastId: 'tech', position: 1800, duration: 1800, lastPlayedAt: new Date(), completed: true },
+				{ episodeId: 'garden-1', podcastId: 'garden', position: 60, duration: 1800, lastPlayedAt: new Date(), completed: false },
+			]),
+		} as any;
+
+		mockTranscriptService = {
+			hasTranscript: jest.fn().mockReturnValue(true),
+			getCachedTranscript: jest.fn().mockImplementation(async (episode: Episode) => episode.id === 'garden-1'
+				? { episodeId: 'garden-1', cues: [{ startTime: 42, endTime: 45, text: 'Tomatoes need sun.' }] }
+				: null),
+		} as any;
+
+		service = new EpisodeSearchService(mockSubscriptionStore, mockProgressStore, mockTranscriptService);
+	});
+
+	describe('search', () => {
+		it('should search show notes without markup', async () => {
+			const results = await service.search('machine');
+
+			expect(results.map(result => result.episode.id).sort()).toEqual(['garden-1', 'tech-1', 'tech-2']);
+			const tech = results.find(result => result.episode.id === 'tech-1')!;
+			expect(tech.podcast.id).toBe('tech');
+			expect(tech.snippet).toBe('Robots & machine learning');
+		});
+
+		it('should search cached transcripts', async () => {
+			const results = await service.search('tomatoes');
+
+			expect(results).toHaveLength(1);
+			expect(results[0]).toMatchObject({ transcriptTime: 42, played: false, fields: ['transcript'] });
+		});
+
+		it('should filter by podcast title', async () => {
+			const results = await service.search('machine podcast:"talk daily"');
+
+			expect(results.map(result => result.episode.id).sort()).toEqual(['tech-1', 'tech-2']);
+		});
+
+		it('should filter by publish date', async () => {
+			expect((await service.search('machine before:2024-03')).map(result => result.episode.id)).toEqual(['tech-1']);
+			expect((await service.search('machine after:2024-03')).map(result => result.episode.id)).toEqual(['tech-2', 'garden-1']);
+		});
+
+		it('should filter by played state', async () => {
+			const played = await service.search('machine played:yes');
+			expect(played.map(result => result.episode.id)).toEqual(['tech-2']);
+			expect(played[0].played).toBe(true);
+
+			expect((await service.search('machine played:no')).map(result => result.episode.id).sort()).toEqual(['garden-1', 'tech-1']);
+		});
+
+		it('should list filtered episodes newest first without terms', async () => {
+			const results = await service.search('podcast:tech');
+
+			expect(results.map(result => result.episode.id)).toEqual(['tech-2', 'tech-1']);
+		});
+
+		it('should return nothing for empty queries', async () => {
+			expect(await service.search('   ')).toEqual([]);
+			expect(mockSubscriptionStore.getAllPodcasts).not.toHaveBeenCalled();
+		});
+
+		it('should limit the number of results', async () => {
+			expect(await service.search('machine', 2)).toHaveLength(2);
+		});
+	});
+
+	describe('indexing', () => {
+		it('should only re-index podcasts that changed', async () => {
+			await service.search('machine');
+			await service.search('robots');
+			expect(mockTranscriptService.getCachedTranscript).toHaveBeenCalledTimes(3);
+
+			podcasts[1] = {
+				...podcasts[1],
+				lastFetchedAt: new Date(2024, 6, 1),
+				episodes: [createEpisode('garden-2', 'garden', 'Autumn', 'Robots in the garden', new Date(2024, 8, 1))],
+			};
+
+			const results = await service.search('robots');
+
+			expect(mockTranscriptService.getCachedTranscript).toHaveBeenCalledTimes(4);
+			expect(results.map(result => result.episode.id).sort()).toEqual(['garden-2', 'tech-1']);
+			expect(service.getIndexedEpisodeCount()).toBe(3);
+		});
+
+		it('should drop unsubscribed podcasts', async () => {
+			await service.search('machine');
+			podcasts = podcasts.slice(0, 1);
+
+			expect((await service.search('machine')).map(result => result.episode.id).sort()).toEqual(['tech-1', 'tech-2']);
+			expect(service.getIndexedEpisodeCount()).toBe(2);
+		});
+
+		it('should rebuild the index after invalidate', async () => {
+			await service.search('machine');
+			service.invalidate();
+
+			expect(service.getIndexedEpisodeCount()).toBe(0);
+			await service.search('machine');
+			expect(mockTranscriptService.getCachedTranscript).toHaveBeenCalledTimes(6);
+		});
+
+		it('should re-index episodes whose transcript was loaded later', async () => {
+			expect(await service.search('gears')).toHaveLength(0);
+
+			mockTranscriptService.getCachedTranscript.mockImplementation(async (episode: Episode) => episode.id === 'tech-2'
+				? { episodeId: 'tech-2', cues: [{ startTime: 10, endTime: 12, text: 'Gears and chips.' }] } as any
+				: null);
+			service.invalidateEpisode('tech-2');
+
+			const results = await service.search('gears');
+
+			expect(results.map(result => result.episode.id)).toEqual(['tech-2']);
+			expect(mockTranscriptService.getCachedTranscript).toHaveBeenCalledTimes(4);
+		});
+
+		it('should not read transcripts of episodes without one', async () => {
+			mockTranscriptService.hasTranscript.mockImplementation((episode: Episode) => episode.id === 'garden-1');
+
+			expect(await service.search('tomatoes')).toHaveLength(1);
+			expect(mockTranscriptService.getCachedTranscript).toHaveBeenCalledTimes(1);
+		});
+
+		it('should index episodes whose transcript fails to load', async () => {
+			mockTranscriptService.getCachedTranscript.mockRejectedValue(new Error('corrupt cache'));
+
+			expect(await service.search('chips')).toHaveLength(1);
+		});
+	});
+
+	describe('toPlainText', () => {
+		it('should strip tags, scripts and entities', () => {
+			expect(EpisodeSearchService.toPlainText('<p>Hello&nbsp;<i>world</i></p><script>var x = 1;</script>\n<br/>Bye'))
+				.toBe('Hello world Bye');
+		});
+	});
+});
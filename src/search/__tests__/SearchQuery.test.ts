@@ -0,0 +1,65 @@
+/**
+ * Unit tests for SearchQueryParser
+ */
+
+import { SearchQueryParser } from '../SearchQuery';
+
+describe('SearchQueryParser', () => {
+	describe('parse', () => {
+		it('should split free text into normalized terms', () => {
+			const query = SearchQueryParser.parse('  Café  NEWS, café ');
+
+			expect(query.terms).toEqual(['cafe', 'news']);
+			expect(query.phrases).toEqual([]);
+		});
+
+		it('should keep quoted text as a phrase', () => {
+			const query = SearchQueryParser.parse('"machine learning" ethics');
+
+			expect(query.phrases).toEqual(['machine learning']);
+			expect(query.terms).toEqual(['machine', 'learning', 'ethics']);
+		});
+
+		it('should parse the podcast qualifier', () => {
+			expect(SearchQueryParser.parse('podcast:Daily').podcast).toBe('daily');
+			expect(SearchQueryParser.parse('podcast:"The Daily" news')).toMatchObject({
+				podcast: 'the daily',
+				terms: ['news'],
+			});
+		});
+
+		it('should parse date qualifiers in local time', () => {
+			const query = SearchQueryParser.parse('before:2024-03-05 after:2023');
+
+			expect(query.before).toEqual(new Date(2024, 2, 5));
+			expect(query.after).toEqual(new Date(2023, 0, 1));
+			expect(SearchQueryParser.parse('before:2024-02').before).toEqual(new Date(2024, 1, 1));
+		});
+
+		it('should parse the played qualifier', () => {
+			expect(SearchQueryParser.parse('played:yes').played).toBe(true);
+			expect(SearchQueryParser.parse('PLAYED:no').played).toBe(false);
+		});
+
+		it('should search unknown and invalid qualifiers as text', () => {
+			expect(SearchQueryParser.parse('host:alice').terms).toEqual(['host', 'alice']);
+			const query = SearchQueryParser.parse('before:yesterday');
+			expect(query.before).toBeUndefined();
+			expect(query.terms).toEqual(['before', 'yesterday']);
+			expect(SearchQueryParser.parse('played:maybe').played).toBeUndefined();
+		});
+	});
+
+	describe('isEmpty', () => {
+		it('should treat a qualifier alone as a query', () => {
+			expect(SearchQueryParser.isEmpty(SearchQueryParser.parse(' ,; '))).toBe(true);
+			expect(SearchQueryParser.isEmpty(SearchQueryParser.parse('played:no'))).toBe(false);
+		});
+	});
+
+	describe('tokenize', () => {
+		it('should remove diacritics and punctuation', () => {
+			expect(SearchQueryParser.tokenize("Größe & Übermut: it's 2024!")).toEqual(['große', 'ubermut', 'it', 's', '2024']);
+		});
+	});
+});
@@ -0,0 +1,19 @@
+/**
+ * Search Module
+ *
+ * Provides full-text search over the episodes of all subscriptions.
+ */
+
+// Export query parser
+export { SearchQueryParser, type EpisodeSearchQuery } from './SearchQuery';
+
+// Export search index
+export {
+	EpisodeSearchIndex,
+	type SearchField,
+	type IndexedEpisodeText,
+	type EpisodeSearchHit,
+} from './EpisodeSearchIndex';
+
+// Export search service
+export { EpisodeSearchService, type EpisodeSearchResult } from './EpisodeSearchService';
@@ -0,0 +1,156 @@
+/**
+ * HistoryExporter - Exports the listening history
+ *
+ * Writes the listening history to the vault, either as a Markdown note
+ * grouped by day (with timestamp links to resume each session) or as CSV.
+ */
+
+import { Vault, TFile, normalizePath } from 'obsidian';
+import { logger } from '../utils/Logger';
+import { formatTime } from '../utils/timeUtils';
+import { TIMESTAMP_LINK_SCHEME } from '../markdown/TimestampLinkHandler';
+import type { ListeningHistoryEntry } from './StatisticsService';
+
+/**
+ * Export file format
+ */
+export type HistoryExportFormat = 'markdown' | 'csv';
+
+const CSV_COLUMNS = [
+	'started_at',
+	'ended_at',
+	'duration_seconds',
+	'podcast',
+	'episode',
+	'episode_id',
+	'start_position',
+	'end_position',
+	'playback_speed',
+];
+
+/**
+ * History Exporter
+ */
+export class HistoryExporter {
+	private vault: Vault;
+
+	constructor(vault: Vault) {
+		this.vault = vault;
+	}
+
+	/**
+	 * Write the history to a new file in the given folder
+	 * An existing export of the same day is overwritten.
+	 */
+	async export(
+		entries: ListeningHistoryEntry[],
+		format: HistoryExportFormat,
+		outputFolder = 'Podcasts',
+		now: Date = new Date()
+	): Promise<TFile> {
+		logger.methodEntry('HistoryExporter', 'export', format);
+
+		const extension = format === 'csv' ? 'csv' : 'md';
+		const filePath = normalizePath(`${outputFolder}/Listening history ${HistoryExporter.formatDay(now)}.${extension}`);
+		const content = format === 'csv'
+			? HistoryExporter.toCsv(entries)
+			: HistoryExporter.toMarkdown(entries, now);
+
+		const folderPath = normalizePath(outputFolder);
+		if (!(await this.vault.adapter.exists(folderPath))) {
+			await this.vault.createFolder(folderPath);
+		}
+
+		let file: TFile;
+		const existingFile = this.vault.getAbstractFileByPath(filePath);
+		if (existingFile instanceof TFile) {
+			await this.vault.modify(existingFile, content);
+			file = existingFile;
+		} else {
+			file = await this.vault.create(filePath, content);
+		}
+
+		logger.methodExit('HistoryExporter', 'export', filePath);
+		return file;
+	}
+
+	/**
+	 * Format entries as a Markdown note, one section per local day
+	 * Entries are written in the given order (newest first from the history).
+	 */
+	static toMarkdown(entries: ListeningHistoryEntry[], now: Date = new Date()): string {
+		const lines = ['# Listening history', '', `Exported ${HistoryExporter.formatDay(now)} ${HistoryExporter.formatClock(now)}.`];
+
+		if (entries.length === 0) {
+			lines.push('', 'No listening sessions recorded yet.');
+		}
+
+		let day: string | null = null;
+		for (const { session, episodeTitle, podcastTitle } of entries) {
+			const sessionDay = HistoryExporter.formatDay(session.startedAt);
+			if (sessionDay !== day) {
+				lines.push('', `## ${sessionDay}`, '');
+				day = sessionDay;
+			}
+
+			const time = `${HistoryExporter.formatClock(session.startedAt)}–${HistoryExporter.formatClock(session.endedAt)}`;
+			const endPosition = Math.floor(session.endPosition);
+			const resumeLink = `[${formatTime(endPosition)}](${TIMESTAMP_LINK_SCHEME}${session.episodeId}?t=${endPosition})`;
+			const speed = `${Number(session.playbackSpeed.toFixed(2))}x`;
+
+			lines.push(`- ${time} **${podcastTitle}** – ${episodeTitle} (${formatTime(session.startPosition)} → ${resumeLink}, ${speed})`);
+		}
+
+		return lines.join('\n') + '\n';
+	}
+
+	/**
+	 * Format entries as CSV with a header row
+	 */
+	static toCsv(entries: ListeningHistoryEntry[]): string {
+		const rows = [CSV_COLUMNS.join(',')];
+
+		for (const { session, episodeTitle, podcastTitle } of entries) {
+			const duration = Math.max(0, Math.round((session.endedAt.getTime() - session.startedAt.getTime()) / 1000));
+			rows.push([
+				session.startedAt.toISOString(),
+				session.endedAt.toISOString(),
+				String(duration),
+				podcastTitle,
+				episodeTitle,
+				session.episodeId,
+				String(Math.floor(session.startPosition)),
+				String(Math.floor(session.endPosition)),
+				String(session.playbackSpeed),
+			].map(HistoryExporter.escapeCsv).join(','));
+		}
+
+		return rows.join('\n') + '\n';
+	}
+
+	/**
+	 * Quote a CSV field when it contains separators, quotes or line breaks
+	 */
+	static escapeCsv(value: string): string {
+		if (/[",\r\n]/.test(value)) {
+			return `"${value.replace(/"/g, '""')}"`;
+		}
+		return value;
+	}
+
+	/**
+	 * Local date as YYYY-MM-DD
+	 */
+	private static formatDay(date: Date): string {
+		const month = String(date.getMonth() + 1).padStart(2, '0');
+		const day = String(date.getDate()).padStart(2, '0');
+		return `${date.getFullYear()}-${month}-${day}`;
+	}
+
+	/**
+	 * Local time as HH:MM
+	 */
+	private static formatClock(date: Date): string {
+		return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+	}
+}
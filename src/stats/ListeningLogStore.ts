@@ -0,0 +1,339 @@
+/**
+ * ListeningLogStore - Persists the listening history
+ *
+ * An append-only log of listening sessions, split into one JSON file per
+ * month in the history/ directory (history/[YYYY-MM].json, by the local
+ * month the session started in). Sessions are kept oldest first, and the
+ * oldest are dropped beyond MAX_SESSIONS. The single listening-log.json file
+ * used before is moved into the month files by migrateLegacyLog().
+ */
+
+import { Vault } from 'obsidian';
+import { logger } from '../utils/Logger';
+import { StorageError } from '../utils/errorUtils';
+import { ListeningSession } from '../model';
+import { DataPathManager } from '../storage/DataPathManager';
+import { MultiFileStore } from '../storage/FileSystemStore';
+
+/**
+ * Listening log data structure (one month)
+ */
+export interface ListeningLogData {
+	sessions: ListeningSession[];
+	version: number;
+}
+
+/**
+ * Listening Log Store
+ */
+export class ListeningLogStore extends MultiFileStore<ListeningSession[], ListeningLogData> {
+	private static readonly CURRENT_VERSION = 1;
+	static readonly MAX_SESSIONS = 20000;
+
+	private legacyFilePath: string;
+	private sessionCount: number | null = null;
+
+	constructor(vault: Vault, pathManager: DataPathManager) {
+		const dirPath = pathManager.getStructure().history;
+		super(vault, pathManager, dirPath);
+		this.legacyFilePath = pathManager.getFilePath('root', 'listening-log.json');
+	}
+
+	/**
+	 * Key of the month file a session belongs to (YYYY-MM, local time)
+	 */
+	static getMonthKey(date: Date): string {
+		const month = String(date.getMonth() + 1).padStart(2, '0');
+		return `${date.getFullYear()}-${month}`;
+	}
+
+	/**
+	 * Load a month and restore Date fields
+	 */
+	protected async loadItem(id: string, fallback: ListeningLogData): Promise<ListeningLogData> {
+		const data = await super.loadItem(id, fallback);
+
+		if (!this.validateMonth(data)) {
+			logger.warn(`Invalid listening history month, ignoring: ${id}`);
+			return fallback;
+		}
+
+		for (const session of data.sessions) {
+			session.startedAt = new Date(session.startedAt);
+			session.endedAt = new Date(session.endedAt);
+		}
+
+		return data;
+	}
+
+	/**
+	 * Validate sessions
+	 */
+	protected validate(data: ListeningSession[]): boolean {
+		if (!Array.isArray(data)) {
+			logger.warn('Invalid listening log data: not an array');
+			return false;
+		}
+
+		for (const session of data) {
+			if (!this.validateSession(session)) {
+				logger.warn('Invalid listening session in data', session);
+				return false;
+			}
+		}
+
+		return true;
+	}
+
+	/**
+	 * Validate the data of one month
+	 */
+	private validateMonth(data: ListeningLogData): boolean {
+		if (!data || typeof data !== 'object') {
+			return false;
+		}
+
+		if (!Array.isArray(data.sessions) || typeof data.version !== 'number') {
+			return false;
+		}
+
+		return data.sessions.every(session => this.validateSession(session));
+	}
+
+	private validateSession(session: ListeningSession): boolean {
+		return !!session && typeof session.episodeId === 'string' && typeof session.podcastId === 'string';
+	}
+
+	/**
+	 * Get default value
+	 */
+	protected getDefaultValue(): ListeningSession[] {
+		return [];
+	}
+
+	private createMonth(): ListeningLogData {
+		return {
+			sessions: [],
+			version: ListeningLogStore.CURRENT_VERSION,
+		};
+	}
+
+	/**
+	 * Month keys with a file, oldest first
+	 */
+	private async getMonthKeys(): Promise<string[]> {
+		const ids = await this.listItemIds();
+		return ids.filter(id => /^\d{4}-\d{2}$/.test(id)).sort();
+	}
+
+	/**
+	 * Load all sessions, oldest first
+	 */
+	protected async loadAllItems(): Promise<ListeningLogData[]> {
+		const months: ListeningLogData[] = [];
+
+		for (const key of await this.getMonthKeys()) {
+			try {
+				months.push(await this.loadItem(key, this.createMonth()));
+			} catch (error) {
+				logger.warn(`Failed to load listening history month: ${key}`, error);
+			}
+		}
+
+		return months;
+	}
+
+	/**
+	 * Load all sessions, oldest first
+	 */
+	async load(): Promise<ListeningSession[]> {
+		logger.methodEntry('ListeningLogStore', 'load');
+		const months = await this.loadAllItems();
+		logger.methodExit('ListeningLogStore', 'load');
+		return months.flatMap(month => month.sessions);
+	}
+
+	/**
+	 * Replace all sessions (not typically used, use addSession instead)
+	 */
+	async save(data: ListeningSession[]): Promise<void> {
+		logger.methodEntry('ListeningLogStore', 'save');
+
+		if (!this.validate(data)) {
+			throw new StorageError('Invalid listening log data', this.dirPath);
+		}
+
+		await this.clear();
+		this.sessionCount = null;
+
+		const months = new Map<string, ListeningLogData>();
+		for (const session of data) {
+			const key = ListeningLogStore.getMonthKey(new Date(session.startedAt));
+			const month = months.get(key) || this.createMonth();
+			month.sessions.push(session);
+			months.set(key, month);
+		}
+
+		for (const [key, month] of months) {
+			await this.saveItem(key, month);
+		}
+
+		logger.methodExit('ListeningLogStore', 'save');
+	}
+
+	/**
+	 * Get sessions, oldest first
+	 * @param since - Only sessions that ended at or after this time
+	 */
+	async getSessions(since?: Date): Promise<ListeningSession[]> {
+		if (!since) {
+			return this.load();
+		}
+
+		// Sessions are filed by start; one that ran past the turn of the month is in the previous file
+		const firstKey = ListeningLogStore.getMonthKey(new Date(since.getFullYear(), since.getMonth() - 1, 1));
+		const sessions: ListeningSession[] = [];
+
+		for (const key of await this.getMonthKeys()) {
+			if (key < firstKey) {
+				continue;
+			}
+			const month = await this.loadItem(key, this.createMonth());
+			sessions.push(...month.sessions.filter(session => session.endedAt.getTime() >= since.getTime()));
+		}
+
+		return sessions;
+	}
+
+	/**
+	 * Get the most recent sessions, newest first
+	 * Only reads as many month files as needed.
+	 */
+	async getRecentSessions(limit: number): Promise<ListeningSession[]> {
+		const sessions: ListeningSession[] = [];
+
+		for (const key of (await this.getMonthKeys()).reverse()) {
+			if (sessions.length >= limit) {
+				break;
+			}
+			const month = await this.loadItem(key, this.createMonth());
+			sessions.push(...month.sessions.slice().reverse());
+		}
+
+		return sessions.slice(0, limit);
+	}
+
+	/**
+	 * Append a session to the file of the month it started in,
+	 * dropping the oldest sessions beyond the log limit
+	 */
+	async addSession(session: ListeningSession): Promise<void> {
+		logger.methodEntry('ListeningLogStore', 'addSession', session.episodeId);
+
+		const key = ListeningLogStore.getMonthKey(session.startedAt);
+		const month = await this.loadItem(key, this.createMonth());
+		month.sessions.push(session);
+		await this.saveItem(key, month);
+
+		if (this.sessionCount !== null) {
+			this.sessionCount++;
+		}
+		await this.enforceLimit();
+
+		logger.methodExit('ListeningLogStore', 'addSession');
+	}
+
+	/**
+	 * Remove all sessions
+	 */
+	async clearSessions(): Promise<void> {
+		logger.methodEntry('ListeningLogStore', 'clearSessions');
+
+		for (const key of await this.listItemIds()) {
+			await this.deleteItem(key);
+		}
+		this.sessionCount = 0;
+
+		logger.methodExit('ListeningLogStore', 'clearSessions');
+	}
+
+	/**
+	 * Move the sessions of the old single-file log into the month files
+	 * The old file is removed once its sessions are stored; invalid files are left alone.
+	 */
+	async migrateLegacyLog(): Promise<void> {
+		if (!(await this.fileExists(this.legacyFilePath))) {
+			return;
+		}
+
+		logger.methodEntry('ListeningLogStore', 'migrateLegacyLog');
+
+		try {
+			const legacy = await this.readJson<ListeningLogData | null>(this.legacyFilePath, null);
+			if (!legacy || !this.validateMonth(legacy)) {
+				logger.warn('Invalid listening log, not migrating it', this.legacyFilePath);
+				logger.methodExit('ListeningLogStore', 'migrateLegacyLog', 'invalid');
+				return;
+			}
+
+			const months = new Map<string, ListeningSession[]>();
+			for (const session of legacy.sessions) {
+				session.startedAt = new Date(session.startedAt);
+				session.endedAt = new Date(session.endedAt);
+				const key = ListeningLogStore.getMonthKey(session.startedAt);
+				months.set(key, [...(months.get(key) || []), session]);
+			}
+
+			// Merge with anything recorded since the update
+			for (const [key, sessions] of months) {
+				const month = await this.loadItem(key, this.createMonth());
+				month.sessions = [...sessions, ...month.sessions]
+					.sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+				await this.saveItem(key, month);
+			}
+
+			await this.deleteFile(this.legacyFilePath);
+			this.sessionCount = null;
+			await this.enforceLimit();
+
+			logger.info(`Moved ${legacy.sessions.length} listening sessions to the history folder`);
+		} catch (error) {
+			logger.error('Failed to migrate the listening log', error);
+		}
+
+		logger.methodExit('ListeningLogStore', 'migrateLegacyLog');
+	}
+
+	/**
+	 * Drop the oldest sessions beyond MAX_SESSIONS
+	 * The total is counted once and then kept up to date, so most calls read no files.
+	 */
+	private async enforceLimit(): Promise<void> {
+		if (this.sessionCount === null) {
+			this.sessionCount = (await this.load()).length;
+		}
+
+		let excess = this.sessionCount - ListeningLogStore.MAX_SESSIONS;
+		if (excess <= 0) {
+			return;
+		}
+
+		for (const key of await this.getMonthKeys()) {
+			if (excess <= 0) {
+				break;
+			}
+
+			const month = await this.loadItem(key, this.createMonth());
+			if (month.sessions.length <= excess) {
+				await this.deleteItem(key);
+				excess -= month.sessions.length;
+				this.sessionCount -= month.sessions.length;
+			} else {
+				month.sessions = month.sessions.slice(excess);
+				await this.saveItem(key, month);
+				this.sessionCount -= excess;
+				excess = 0;
+			}
+		}
+	}
+}
@@ -0,0 +1,350 @@
+/**
+ * StatisticsService - Listening statistics
+ *
+ * Combines the listening session log with playback progress to report
+ * listening time per day, week and month, per-podcast breakdowns,
+ * completion rates, average speed, listening streaks and time saved.
+ * Also resolves the listening history into titled entries for display and export.
+ * Days, weeks (starting on Monday) and months use local time.
+ */
+
+import { logger } from '../utils/Logger';
+import { ListeningSession } from '../model';
+import { EpisodeManager, EpisodeStatistics } from '../podcast/EpisodeManager';
+import { SubscriptionStore } from '../storage/SubscriptionStore';
+import { ProgressStore } from '../storage/ProgressStore';
+import { ListeningLogStore } from './ListeningLogStore';
+
+/**
+ * Period covered by one timeline bucket
+ */
+export type StatisticsPeriod = 'day' | 'week' | 'month';
+
+/**
+ * Listening time within one period
+ */
+export interface ListeningBucket {
+	/** Start of the period (local midnight) */
+	start: Date;
+	/** Seconds listened */
+	seconds: number;
+}
+
+/**
+ * Listening statistics of one podcast
+ */
+export interface PodcastListeningStatistics {
+	podcastId: string;
+	title: string;
+	/** Seconds listened, from the session log */
+	listeningTime: number;
+	completedEpisodes: number;
+	/** Completed plus in-progress episodes */
+	startedEpisodes: number;
+	totalEpisodes: number;
+	/** Share of started episodes that were finished (0-100) */
+	completionRate: number;
+}
+
+/**
+ * Listening statistics
+ */
+export interface ListeningStatistics {
+	/** Seconds listened, from the session log */
+	totalListeningTime: number;
+	sessionCount: number;
+	/** Playback speed averaged over listening time */
+	averageSpeed: number;
+	/** Seconds saved by listening faster than 1x */
+	timeSavedBySpeed: number;
+	/** Seconds saved by skipping silence */
+	timeSavedBySilence: number;
+	/** Consecutive days with listening, up to today (or yesterday) */
+	currentStreak: number;
+	longestStreak: number;
+	/** Episode counts from playback progress */
+	episodes: EpisodeStatistics;
+	/** Share of started episodes that were finished (0-100) */
+	completionRate: number;
+	timeline: Record<StatisticsPeriod, ListeningBucket[]>;
+	/** Podcasts with listening time or started episodes, most listened first */
+	podcasts: PodcastListeningStatistics[];
+}
+
+/**
+ * A listening session with the titles needed to display it
+ */
+export interface ListeningHistoryEntry {
+	session: ListeningSession;
+	episodeTitle: string;
+	podcastTitle: string;
+}
+
+/** Number of buckets per timeline */
+const TIMELINE_LENGTH: Record<StatisticsPeriod, number> = {
+	day: 14,
+	week: 12,
+	month: 12,
+};
+
+/** A day counts towards a streak with at least this much listening (seconds) */
+const STREAK_MIN_SECONDS = 60;
+
+/**
+ * Statistics Service
+ */
+export class StatisticsService {
+	private listeningLog: ListeningLogStore;
+	private episodeManager: EpisodeManager;
+	private subscriptionStore: SubscriptionStore;
+	private progressStore: ProgressStore;
+
+	constructor(
+		listeningLog: ListeningLogStore,
+		episodeManager: EpisodeManager,
+		subscriptionStore: SubscriptionStore,
+		progressStore: ProgressStore
+	) {
+		this.listeningLog = listeningLog;
+		this.episodeManager = episodeManager;
+		this.subscriptionStore = subscriptionStore;
+		this.progressStore = progressStore;
+	}
+
+	/**
+	 * Calculate all listening statistics
+	 */
+	async getStatistics(now: Date = new Date()): Promise<ListeningStatistics> {
+		logger.methodEntry('StatisticsService', 'getStatistics');
+
+		const sessions = await this.listeningLog.getSessions();
+		const dailyTotals = StatisticsService.getDailyTotals(sessions);
+
+		let totalListeningTime = 0;
+		let speedWeighted = 0;
+		let timeSavedBySpeed = 0;
+		const podcastTime = new Map<string, number>();
+
+		for (const session of sessions) {
+			const seconds = StatisticsService.getSessionSeconds(session);
+			totalListeningTime += seconds;
+			speedWeighted += seconds * session.playbackSpeed;
+			timeSavedBySpeed += seconds * Math.max(0, session.playbackSpeed - 1);
+			podcastTime.set(session.podcastId, (podcastTime.get(session.podcastId) || 0) + seconds);
+		}
+
+		const episodes = await this.episodeManager.getOverallStatistics();
+		const streaks = StatisticsService.getStreaks(dailyTotals, now);
+
+		const statistics: ListeningStatistics = {
+			totalListeningTime,
+			sessionCount: sessions.length,
+			averageSpeed: totalListeningTime > 0 ? speedWeighted / totalListeningTime : 1,
+			timeSavedBySpeed,
+			timeSavedBySilence: await this.progressStore.getTimeSaved(),
+			currentStreak: streaks.current,
+			longestStreak: streaks.longest,
+			episodes,
+			completionRate: StatisticsService.getCompletionRate(episodes.completedEpisodes, episodes.inProgressEpisodes),
+			timeline: {
+				day: StatisticsService.getTimeline(dailyTotals, 'day', TIMELINE_LENGTH.day, now),
+				week: StatisticsService.getTimeline(dailyTotals, 'week', TIMELINE_LENGTH.week, now),
+				month: StatisticsService.getTimeline(dailyTotals, 'month', TIMELINE_LENGTH.month, now),
+			},
+			podcasts: await this.getPodcastStatistics(podcastTime),
+		};
+
+		logger.methodExit('StatisticsService', 'getStatistics');
+		return statistics;
+	}
+
+	/**
+	 * Get the listening history, newest first
+	 * @param limit - Maximum number of entries (all when omitted)
+	 */
+	async getHistory(limit?: number): Promise<ListeningHistoryEntry[]> {
+		logger.methodEntry('StatisticsService', 'getHistory', limit);
+
+		const sessions = limit !== undefined
+			? await this.listeningLog.getRecentSessions(limit)
+			: await this.listeningLog.getSessions();
+		sessions.sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+
+		const podcastTitles = new Map<string, string>();
+		const episodeTitles = new Map<string, string>();
+		for (const podcast of await this.subscriptionStore.getAllPodcasts()) {
+			podcastTitles.set(podcast.id, podcast.title);
+			for (const episode of podcast.episodes || []) {
+				episodeTitles.set(episode.id, episode.title);
+			}
+		}
+
+		const entries = sessions.map(session => ({
+			session,
+			episodeTitle: episodeTitles.get(session.episodeId) || 'Unknown episode',
+			podcastTitle: podcastTitles.get(session.podcastId) || 'Unknown podcast',
+		}));
+
+		logger.methodExit('StatisticsService', 'getHistory');
+		return entries;
+	}
+
+	/**
+	 * Seconds of a session (wall-clock time)
+	 */
+	static getSessionSeconds(session: ListeningSession): number {
+		return Math.max(0, (session.endedAt.getTime() - session.startedAt.getTime()) / 1000);
+	}
+
+	/**
+	 * Listening seconds per local day, keyed by the day's midnight timestamp
+	 * Sessions running past midnight are split between the days.
+	 */
+	static getDailyTotals(sessions: ListeningSession[]): Map<number, number> {
+		const totals = new Map<number, number>();
+
+		for (const session of sessions) {
+			let start = session.startedAt.getTime();
+			const end = session.endedAt.getTime();
+
+			while (start < end) {
+				const day = StatisticsService.startOfPeriod(new Date(start), 'day');
+				const nextDay = StatisticsService.addPeriods(day, 'day', 1).getTime();
+				const sliceEnd = Math.min(end, nextDay);
+				totals.set(day.getTime(), (totals.get(day.getTime()) || 0) + (sliceEnd - start) / 1000);
+				start = sliceEnd;
+			}
+		}
+
+		return totals;
+	}
+
+	/**
+	 * Listening time of the last periods, oldest first, ending with the current one
+	 */
+	static getTimeline(
+		dailyTotals: Map<number, number>,
+		period: StatisticsPeriod,
+		count: number,
+		now: Date
+	): ListeningBucket[] {
+		const current = StatisticsService.startOfPeriod(now, period);
+		const buckets: ListeningBucket[] = [];
+		for (let i = count - 1; i >= 0; i--) {
+			buckets.push({ start: StatisticsService.addPeriods(current, period, -i), seconds: 0 });
+		}
+
+		const first = buckets[0]?.start.getTime() ?? Infinity;
+		for (const [day, seconds] of dailyTotals) {
+			if (day < first) {
+				continue;
+			}
+			const start = StatisticsService.startOfPeriod(new Date(day), period).getTime();
+			const bucket = buckets.find(b => b.start.getTime() === start);
+			if (bucket) {
+				bucket.seconds += seconds;
+			}
+		}
+
+		return buckets;
+	}
+
+	/**
+	 * Current and longest run of consecutive listening days
+	 * Today without listening yet does not break the current streak.
+	 */
+	static getStreaks(dailyTotals: Map<number, number>, now: Date): { current: number; longest: number } {
+		const days = Array.from(dailyTotals.entries())
+			.filter(([, seconds]) => seconds >= STREAK_MIN_SECONDS)
+			.map(([day]) => day)
+			.sort((a, b) => a - b);
+		const listened = new Set(days);
+
+		let longest = 0;
+		let run = 0;
+		let previous: number | null = null;
+		for (const day of days) {
+			const expected = previous !== null
+				? StatisticsService.addPeriods(new Date(previous), 'day', 1).getTime()
+				: null;
+			run = day === expected ? run + 1 : 1;
+			longest = Math.max(longest, run);
+			previous = day;
+		}
+
+		let day = StatisticsService.startOfPeriod(now, 'day');
+		if (!listened.has(day.getTime())) {
+			day = StatisticsService.addPeriods(day, 'day', -1);
+		}
+		let current = 0;
+		while (listened.has(day.getTime())) {
+			current++;
+			day = StatisticsService.addPeriods(day, 'day', -1);
+		}
+
+		return { current, longest };
+	}
+
+	/**
+	 * Start of the day, week (Monday) or month containing a date
+	 */
+	static startOfPeriod(date: Date, period: StatisticsPeriod): Date {
+		const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+		if (period === 'week') {
+			start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+		} else if (period === 'month') {
+			start.setDate(1);
+		}
+		return start;
+	}
+
+	/**
+	 * Move a period start by a number of periods
+	 * Uses calendar arithmetic so daylight saving changes keep midnight.
+	 */
+	static addPeriods(date: Date, period: StatisticsPeriod, amount: number): Date {
+		const result = new Date(date.getTime());
+		if (period === 'month') {
+			result.setMonth(result.getMonth() + amount);
+		} else {
+			result.setDate(result.getDate() + amount * (period === 'week' ? 7 : 1));
+		}
+		return result;
+	}
+
+	private static getCompletionRate(completed: number, inProgress: number): number {
+		const started = completed + inProgress;
+		return started > 0 ? (completed / started) * 100 : 0;
+	}
+
+	/**
+	 * Per-podcast statistics for subscribed podcasts
+	 */
+	private async getPodcastStatistics(podcastTime: Map<string, number>): Promise<PodcastListeningStatistics[]> {
+		const podcasts = await this.subscriptionStore.getAllPodcasts();
+		const result: PodcastListeningStatistics[] = [];
+
+		for (const podcast of podcasts) {
+			const stats = await this.episodeManager.getPodcastStatistics(podcast.id);
+			const listeningTime = podcastTime.get(podcast.id) || 0;
+			const startedEpisodes = stats.completedEpisodes + stats.inProgressEpisodes;
+
+			if (listeningTime === 0 && startedEpisodes === 0) {
+				continue;
+			}
+
+			result.push({
+				podcastId: podcast.id,
+				title: podcast.title,
+				listeningTime,
+				completedEpisodes: stats.completedEpisodes,
+				startedEpisodes,
+				totalEpisodes: stats.totalEpisodes,
+				completionRate: StatisticsService.getCompletionRate(stats.completedEpisodes, stats.inProgressEpisodes),
+			});
+		}
+
+		result.sort((a, b) => b.listeningTime - a.listeningTime || a.title.localeCompare(b.title));
+		return result;
+	}
+}
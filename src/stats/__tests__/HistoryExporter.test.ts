@@ -0,0 +1,138 @@
+/**
+ * Unit tests for HistoryExporter
+ */
+
+import { HistoryExporter } from '../HistoryExporter';
+import type { ListeningHistoryEntry } from '../StatisticsService';
+import { Vault, TFile } from 'obsidian';
+
+// Mock logger
+jest.mock('../../utils/Logger', () => ({
+	logger: {
+		methodEntry: jest.fn(),
+		methodExit: jest.fn(),
+		debug: jest.fn(),
+		info: jest.fn(),
+		warn: jest.fn(),
+		error: jest.fn(),
+	},
+}));
+
+describe('HistoryExporter', () => {
+	// Local times keep the day grouping independent of the time zone
+	const now = new Date(2024, 2, 20, 18, 30);
+
+	const createEntry = (
+		episodeTitle: string,
+		startedAt: Date,
+		minutes: number,
+		podcastTitle = 'Test Podcast'
+	): ListeningHistoryEntry => ({
+		session: {
+			episodeId: 'ep-1',
+			podcastId: 'podcast-1',
+			startedAt,
+			endedAt: new Date(startedAt.getTime() + minutes * 60 * 1000),
+			startPosition: 60,
+			endPosition: 60 + minutes * 60 * 1.5,
+			playbackSpeed: 1.5,
+		},
+		episodeTitle,
+		podcastTitle,
+	});
+
+	const entries = [
+		createEntry('Latest', new Date(2024, 2, 20, 9, 15), 10),
+		createEntry('Earlier', new Date(2024, 2, 20, 7, 0), 20),
+		createEntry('Yesterday', new Date(2024, 2, 19, 21, 5), 30),
+	];
+
+	describe('toMarkdown', () => {
+		it('should group sessions by day with resume links', () => {
+			const markdown = HistoryExporter.toMarkdown(entries, now);
+
+			expect(markdown).toContain('# Listening history');
+			expect(markdown).toContain('Exported 2024-03-20 18:30.');
+			expect(markdown.indexOf('## 2024-03-20')).toBeLessThan(markdown.indexOf('## 2024-03-19'));
+			expect(markdown.match(/^## /gm)).toHaveLength(2);
+			expect(markdown).toContain(
+				'- 09:15–09:25 **Test Podcast** – Latest (1:00 → [16:00](podcast://ep-1?t=960), 1.5x)'
+			);
+		});
+
+		it('should note an empty history', () => {
+			expect(HistoryExporter.toMarkdown([], now)).toContain('No listening sessions recorded yet.');
+		});
+	});
+
+	describe('toCsv', () => {
+		it('should write a header and one row per session', () => {
+			const rows = HistoryExporter.toCsv(entries).trim().split('\n');
+
+			expect(rows).toHaveLength(4);
+			expect(rows[0]).toBe('started_at,ended_at,duration_seconds,podcast,episode,episode_id,start_position,end_position,playback_speed');
+			expect(rows[1]).toBe([
+				entries[0].session.startedAt.toISOString(),
+				entries[0].session.endedAt.toISOString(),
+				'600',
+				'Test Podcast',
+				'Latest',
+				'ep-1',
+				'60',
+				'960',
+				'1.5',
+			].join(','));
+		});
+
+		it('should quote fields with commas, quotes and line breaks', () => {
+			const csv = HistoryExporter.toCsv([createEntry('Say "hi", again', now, 1, 'Line\nBreak')]);
+
+			expect(csv).toContain(',"Line\nBreak","Say ""hi"", again",');
+		});
+	});
+
+	describe('export', () => {
+		let mockVault: jest.Mocked<Vault>;
+		const mockFile = { path: 'Podcasts/Listening history 2024-03-20.md' } as TFile;
+
+		beforeEach(() => {
+			mockVault = {
+				create: jest.fn().mockResolvedValue(mockFile),
+				modify: jest.fn().mockResolvedValue(undefined),
+				createFolder: jest.fn().mockResolvedValue(undefined),
+				getAbstractFileByPath: jest.fn().mockReturnValue(null),
+				adapter: {
+					exists: jest.fn().mockResolvedValue(false),
+				},
+			} as any;
+		});
+
+		it('should create the folder and a dated note', async () => {
+			const exporter = new HistoryExporter(mockVault);
+
+			const file = await exporter.export(entries, 'markdown', 'Podcasts', now);
+
+			expect(file).toBe(mockFile);
+			expect(mockVault.createFolder).toHaveBeenCalledWith('Podcasts');
+			expect(mockVault.create).toHaveBeenCalledWith(
+				'Podcasts/Listening history 2024-03-20.md',
+				expect.stringContaining('# Listening history')
+			);
+		});
+
+		it('should overwrite an existing CSV export of the same day', async () => {
+			const existing = Object.create(TFile.prototype);
+			mockVault.getAbstractFileByPath.mockReturnValue(existing);
+			(mockVault.adapter.exists as jest.Mock).mockResolvedValue(true);
+			const exporter = new HistoryExporter(mockVault);
+
+			const file = await exporter.export(entries, 'csv', 'Podcasts', now);
+
+			expect(file).toBe(existing);
+			expect(mockVault.getAbstractFileByPath).toHaveBeenCalledWith('Podcasts/Listening history 2024-03-20.csv');
+			expect(mockVault.modify).toHaveBeenCalledWith(existing, expect.stringContaining('started_at,'));
+			expect(mockVault.createFolder).not.toHaveBeenCalled();
+			expect(mockVault.create).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -0,0 +1,238 @@
+/**
+ * Unit tests for ListeningLogStore
+ */
+
+import { ListeningLogStore } from '../ListeningLogStore';
+import { Vault } from 'obsidian';
+import { DataPathManager } from '../../storage/DataPathManager';
+import { ListeningSession } from '../../model';
+
+// Mock logger
+jest.mock('../../utils/Logger', () => ({
+	logger: {
+		methodEntry: jest.fn(),
+		methodExit: jest.fn(),
+		debug: jest.fn(),
+		info: jest.fn(),
+		warn: jest.fn(),
+		error: jest.fn(),
+	},
+}));
+
+// Mock the parent class
+const mockFiles = new Map<string, any>();
+jest.mock('../../storage/FileSystemStore', () => {
+	const itemsStore = new Map<string, any>();
+
+	return {
+		MultiFileStore: class {
+			protected dirPath: string;
+
+			constructor(vault: any, pathManager: any, dirPath: string) {
+				this.dirPath = dirPath;
+			}
+
+			async fileExists(path: string): Promise<boolean> {
+				return mockFiles.has(path);
+			}
+
+			async readJson(path: string, fallback: any): Promise<any> {
+				return mockFiles.has(path) ? JSON.parse(JSON.stringify(mockFiles.get(path))) : fallback;
+			}
+
+			async deleteFile(path: string): Promise<void> {
+				mockFiles.delete(path);
+			}
+
+			async listItemIds(): Promise<string[]> {
+				return Array.from(itemsStore.keys());
+			}
+
+			async loadItem(id: string, defaultValue: any): Promise<any> {
+				return itemsStore.has(id) ? JSON.parse(JSON.stringify(itemsStore.get(id))) : defaultValue;
+			}
+
+			async saveItem(id: string, data: any): Promise<void> {
+				itemsStore.set(id, data);
+			}
+
+			async deleteItem(id: string): Promise<void> {
+				itemsStore.delete(id);
+			}
+
+			async clear(): Promise<void> {
+				itemsStore.clear();
+			}
+		},
+	};
+});
+
+function createSession(episodeId: string, startedAt: string): ListeningSession {
+	const start = new Date(startedAt);
+	return {
+		episodeId,
+		podcastId: 'podcast-1',
+		startedAt: start,
+		endedAt: new Date(start.getTime() + 10 * 60 * 1000),
+		startPosition: 0,
+		endPosition: 600,
+		playbackSpeed: 1.5,
+	};
+}
+
+describe('ListeningLogStore', () => {
+	let store: ListeningLogStore;
+	let mockPathManager: jest.Mocked<DataPathManager>;
+
+	beforeEach(async () => {
+		mockPathManager = {
+			getStructure: jest.fn().mockReturnValue({ history: 'history' }),
+			getFilePath: jest.fn().mockReturnValue('listening-log.json'),
+		} as any;
+
+		mockFiles.clear();
+		store = new ListeningLogStore({} as Vault, mockPathManager);
+		await store.clear();
+	});
+
+	it('should store the history in the history folder', () => {
+		expect((store as any).dirPath).toBe('history');
+	});
+
+	it('should add sessions and restore dates', async () => {
+		await store.addSession(createSession('ep-1', '2024-01-01T10:00:00Z'));
+		await store.addSession(createSession('ep-2', '2024-01-02T10:00:00Z'));
+
+		const sessions = await store.getSessions();
+
+		expect(sessions.map(session => session.episodeId)).toEqual(['ep-1', 'ep-2']);
+		expect(sessions[0].startedAt).toBeInstanceOf(Date);
+		expect(sessions[0].endedAt).toBeInstanceOf(Date);
+	});
+
+	it('should write one file per month', async () => {
+		await store.addSession(createSession('ep-1', '2024-01-10T10:00:00Z'));
+		await store.addSession(createSession('ep-2', '2024-03-10T10:00:00Z'));
+		await store.addSession(createSession('ep-3', '2024-03-12T10:00:00Z'));
+
+		expect((await (store as any).listItemIds()).sort()).toEqual(['2024-01', '2024-03']);
+		expect((await store.getSessions()).map(session => session.episodeId)).toEqual(['ep-1', 'ep-2', 'ep-3']);
+	});
+
+	it('should only return sessions that ended since a date', async () => {
+		await store.addSession(createSession('ep-1', '2024-01-01T10:00:00Z'));
+		await store.addSession(createSession('ep-2', '2024-01-02T10:00:00Z'));
+
+		const sessions = await store.getSessions(new Date('2024-01-01T10:05:00Z'));
+
+		expect(sessions.map(session => session.episodeId)).toEqual(['ep-1', 'ep-2']);
+		expect(await store.getSessions(new Date('2024-01-02T00:00:00Z'))).toHaveLength(1);
+	});
+
+	it('should include sessions that ran into the month from the previous one', async () => {
+		const lateSession = createSession('ep-late', '2024-01-31T23:55:00');
+		await store.addSession(lateSession);
+		await store.addSession(createSession('ep-old', '2024-01-10T10:00:00'));
+
+		const sessions = await store.getSessions(new Date('2024-02-01T00:00:00'));
+
+		expect(sessions.map(session => session.episodeId)).toEqual(['ep-late']);
+	});
+
+	it('should drop the oldest sessions beyond the limit', async () => {
+		await (store as any).saveItem('2024-01', {
+			sessions: Array.from({ length: ListeningLogStore.MAX_SESSIONS }, (_, i) =>
+				createSession(`ep-${i}`, '2024-01-01T10:00:00Z')),
+			version: 1,
+		});
+
+		await store.addSession(createSession('ep-new', '2024-02-01T10:00:00Z'));
+
+		const sessions = await store.getSessions();
+		expect(sessions).toHaveLength(ListeningLogStore.MAX_SESSIONS);
+		expect(sessions[0].episodeId).toBe('ep-1');
+		expect(sessions[sessions.length - 1].episodeId).toBe('ep-new');
+	});
+
+	it('should return the most recent sessions first', async () => {
+		await store.addSession(createSession('ep-1', '2024-01-10T10:00:00Z'));
+		await store.addSession(createSession('ep-2', '2024-02-10T10:00:00Z'));
+		await store.addSession(createSession('ep-3', '2024-02-12T10:00:00Z'));
+
+		const sessions = await store.getRecentSessions(2);
+
+		expect(sessions.map(session => session.episodeId)).toEqual(['ep-3', 'ep-2']);
+		expect(sessions[0].startedAt).toBeInstanceOf(Date);
+		expect(await store.getRecentSessions(10)).toHaveLength(3);
+	});
+
+	it('should clear all sessions', async () => {
+		await store.addSession(createSession('ep-1', '2024-01-01T10:00:00Z'));
+		await store.addSession(createSession('ep-2', '2024-05-01T10:00:00Z'));
+		await store.clearSessions();
+
+		expect(await store.getSessions()).toEqual([]);
+	});
+
+	it('should ignore invalid month files', async () => {
+		await (store as any).saveItem('2024-01', { sessions: [{ episodeId: 'ep-1' }], version: 1 });
+		await store.addSession(createSession('ep-2', '2024-02-01T10:00:00Z'));
+
+		expect((await store.getSessions()).map(session => session.episodeId)).toEqual(['ep-2']);
+	});
+
+	describe('migrateLegacyLog', () => {
+		it('should move the old log into month files and remove it', async () => {
+			mockFiles.set('listening-log.json', {
+				sessions: [
+					createSession('ep-1', '2024-01-10T10:00:00Z'),
+					createSession('ep-2', '2024-03-10T10:00:00Z'),
+				],
+				version: 1,
+			});
+
+			await store.migrateLegacyLog();
+
+			expect(mockFiles.has('listening-log.json')).toBe(false);
+			expect((await (store as any).listItemIds()).sort()).toEqual(['2024-01', '2024-03']);
+			const sessions = await store.getSessions();
+			expect(sessions.map(session => session.episodeId)).toEqual(['ep-1', 'ep-2']);
+			expect(sessions[0].startedAt).toBeInstanceOf(Date);
+		});
+
+		it('should merge with sessions recorded since the update', async () => {
+			await store.addSession(createSession('ep-new', '2024-01-20T10:00:00Z'));
+			mockFiles.set('listening-log.json', {
+				sessions: [createSession('ep-old', '2024-01-10T10:00:00Z')],
+				version: 1,
+			});
+
+			await store.migrateLegacyLog();
+
+			expect((await store.getSessions()).map(session => session.episodeId)).toEqual(['ep-old', 'ep-new']);
+		});
+
+		it('should leave an invalid log in place', async () => {
+			mockFiles.set('listening-log.json', { sessions: [{ episodeId: 'ep-1' }], version: 1 });
+
+			await store.migrateLegacyLog();
+
+			expect(mockFiles.has('listening-log.json')).toBe(true);
+			expect(await store.getSessions()).toEqual([]);
+		});
+
+		it('should do nothing without an old log', async () => {
+			await store.migrateLegacyLog();
+
+			expect(await store.getSessions()).toEqual([]);
+		});
+	});
+
+	it('should reject invalid data', () => {
+		const validate = (data: any) => (store as any).validate(data);
+
+		expect(validate([])).toBe(true);
+		expect(validate([{ episodeId: 'ep-1' }])).toBe(false);
+		expect(validate({ sessions: [] })).toBe(false);
+	});
+});
@@ -0,0 +1,191 @@
+/**
+ * Unit tests for StatisticsService
+ */
+
+import { StatisticsService } from '../StatisticsService';
+import { ListeningLogStore } from '../ListeningLogStore';
+import { EpisodeManager } from '../../podcast/EpisodeManager';
+import { SubscriptionStore } from '../../storage/SubscriptionStore';
+import { ProgressStore } from '../../storage/ProgressStore';
+import { ListeningSession } from '../../model';
+
+describe('StatisticsService', () => {
+	let service: StatisticsService;
+	let mockListeningLog: jest.Mocked<ListeningLogStore>;
+	let mockEpisodeManager: jest.Mocked<EpisodeManager>;
+	let mockSubscriptionStore: jest.Mocked<SubscriptionStore>;
+	let mockProgressStore: jest.Mocked<ProgressStore>;
+
+	// Local times keep the day boundaries independent of the time zone
+	const now = new Date(2024, 2, 20, 18, 0); // Wednesday 20 March 2024
+
+	const createSession = (
+		podcastId: string,
+		startedAt: Date,
+		minutes: number,
+		playbackSpeed = 1
+	): ListeningSession => ({
+		episodeId: `${podcastId}-episode`,
+		podcastId,
+		startedAt,
+		endedAt: new Date(startedAt.getTime() + minutes * 60 * 1000),
+		startPosition: 0,
+		endPosition: minutes * 60 * playbackSpeed,
+		playbackSpeed,
+	});
+
+	const episodeStatistics = (completed: number, inProgress: number, total: number) => ({
+		totalEpisodes: total,
+		completedEpisodes: completed,
+		inProgressEpisodes: inProgress,
+		unplayedEpisodes: total - completed - inProgress,
+		totalDuration: 0,
+		totalListeningTime: 0,
+		averageCompletionRate: 0,
+	});
+
+	beforeEach(() => {
+		mockListeningLog = {
+			getSessions: jest.fn().mockResolvedValue([
+				createSession('podcast-1', new Date(2024, 2, 18, 8, 0), 30, 1.5),
+				createSession('podcast-1', new Date(2024, 2, 19, 8, 0), 20, 1.5),
+				createSession('podcast-2', new Date(2024, 2, 20, 8, 0), 60),
+				createSession('podcast-2', new Date(2024, 1, 10, 8, 0), 10, 0.8),
+			]),
+		} as any;
+
+		mockEpisodeManager = {
+			getOverallStatistics: jest.fn().mockResolvedValue(episodeStatistics(3, 1, 20)),
+			getPodcastStatistics: jest.fn().mockImplementation(async (podcastId: string) => {
+				if (podcastId === 'podcast-1') return episodeStatistics(1, 1, 10);
+				if (podcastId === 'podcast-2') return episodeStatistics(2, 0, 5);
+				return episodeStatistics(0, 0, 5);
+			}),
+		} as any;
+
+		mockSubscriptionStore = {
+			getAllPodcasts: jest.fn().mockResolvedValue([
+				{ id: 'podcast-1', title: 'First', episodes: [{ id: 'podcast-1-episode', title: 'Episode one' }] },
+				{ id: 'podcast-2', title: 'Second' },
+				{ id: 'podcast-3', title: 'Untouched' },
+			]),
+		} as any;
+
+		mockProgressStore = {
+			getTimeSaved: jest.fn().mockResolvedValue(90),
+		} as any;
+
+		service = new StatisticsService(mockListeningLog, mockEpisodeManager, mockSubscriptionStore, mockProgressStore);
+	});
+
+	describe('getStatistics', () => {
+		it('should sum listening time, speed and time saved', async () => {
+			const stats = await service.getStatistics(now);
+
+			expect(stats.sessionCount).toBe(4);
+			expect(stats.totalListeningTime).toBe(120 * 60);
+			// (30 + 20) min at 1.5x, 60 min at 1x, 10 min at 0.8x
+			expect(stats.averageSpeed).toBeCloseTo((50 * 1.5 + 60 + 10 * 0.8) / 120);
+			expect(stats.timeSavedBySpeed).toBe(25 * 60);
+			expect(stats.timeSavedBySilence).toBe(90);
+		});
+
+		it('should report completion rates and podcasts by listening time', async () => {
+			const stats = await service.getStatistics(now);
+
+			expect(stats.completionRate).toBe(75);
+			expect(stats.podcasts.map(p => p.podcastId)).toEqual(['podcast-2', 'podcast-1']);
+			expect(stats.podcasts[0]).toEqual({
+				podcastId: 'podcast-2',
+				title: 'Second',
+				listeningTime: 70 * 60,
+				completedEpisodes: 2,
+				startedEpisodes: 2,
+				totalEpisodes: 5,
+				completionRate: 100,
+			});
+			expect(stats.podcasts[1].completionRate).toBe(50);
+		});
+
+		it('should report streaks and timelines', async () => {
+			const stats = await service.getStatistics(now);
+
+			expect(stats.currentStreak).toBe(3);
+			expect(stats.longestStreak).toBe(3);
+			expect(stats.timeline.day).toHaveLength(14);
+			expect(stats.timeline.day[13]).toEqual({ start: new Date(2024, 2, 20), seconds: 3600 });
+			expect(stats.timeline.week[11]).toEqual({ start: new Date(2024, 2, 18), seconds: 110 * 60 });
+			expect(stats.timeline.month[10]).toEqual({ start: new Date(2024, 1, 1), seconds: 600 });
+		});
+	});
+
+	describe('getHistory', () => {
+		it('should return all sessions newest first with titles', async () => {
+			const history = await service.getHistory();
+
+			expect(history.map(entry => entry.session.startedAt)).toEqual([
+				new Date(2024, 2, 20, 8, 0),
+				new Date(2024, 2, 19, 8, 0),
+				new Date(2024, 2, 18, 8, 0),
+				new Date(2024, 1, 10, 8, 0),
+			]);
+			expect(history[1]).toMatchObject({ episodeTitle: 'Episode one', podcastTitle: 'First' });
+			expect(history[0]).toMatchObject({ episodeTitle: 'Unknown episode', podcastTitle: 'Second' });
+		});
+
+		it('should only read the most recent sessions when limited', async () => {
+			mockListeningLog.getRecentSessions = jest.fn().mockResolvedValue([
+				createSession('podcast-3', new Date(2024, 2, 20, 8, 0), 5),
+			]);
+
+			const history = await service.getHistory(1);
+
+			expect(mockListeningLog.getRecentSessions).toHaveBeenCalledWith(1);
+			expect(history).toHaveLength(1);
+			expect(history[0].podcastTitle).toBe('Untouched');
+		});
+	});
+
+	describe('getDailyTotals', () => {
+		it('should split sessions at midnight', () => {
+			const totals = StatisticsService.getDailyTotals([
+				createSession('podcast-1', new Date(2024, 2, 19, 23, 30), 60),
+			]);
+
+			expect(totals.get(new Date(2024, 2, 19).getTime())).toBe(1800);
+			expect(totals.get(new Date(2024, 2, 20).getTime())).toBe(1800);
+		});
+	});
+
+	describe('getStreaks', () => {
+		const day = (date: number) => new Date(2024, 2, date).getTime();
+
+		it('should keep the current streak alive before listening today', () => {
+			const totals = new Map([[day(18), 600], [day(19), 600]]);
+
+			expect(StatisticsService.getStreaks(totals, now)).toEqual({ current: 2, longest: 2 });
+		});
+
+		it('should end the current streak after a day without listening', () => {
+			const totals = new Map([[day(10), 600], [day(11), 600], [day(12), 600], [day(18), 600]]);
+
+			expect(StatisticsService.getStreaks(totals, now)).toEqual({ current: 0, longest: 3 });
+		});
+
+		it('should ignore days with barely any listening', () => {
+			const totals = new Map([[day(19), 600], [day(20), 30]]);
+
+			expect(StatisticsService.getStreaks(totals, now)).toEqual({ current: 1, longest: 1 });
+		});
+	});
+
+	describe('startOfPeriod', () => {
+		it('should start weeks on Monday and months on the first', () => {
+			const sunday = new Date(2024, 2, 24, 12);
+
+			expect(StatisticsService.startOfPeriod(sunday, 'day')).toEqual(new Date(2024, 2, 24));
+			expect(StatisticsService.startOfPeriod(sunday, 'week')).toEqual(new Date(2024, 2, 18));
+			expect(StatisticsService.startOfPeriod(sunday, 'month')).toEqual(new Date(2024, 2, 1));
+		});
+	});
+});
@@ -0,0 +1,22 @@
+/**
+ * Statistics Module
+ *
+ * Provides the listening history, the listening statistics calculated
+ * from it and its export to notes.
+ */
+
+// Export listening log store
+export { ListeningLogStore, type ListeningLogData } from './ListeningLogStore';
+
+// Export statistics service
+export {
+	StatisticsService,
+	type StatisticsPeriod,
+	type ListeningBucket,
+	type ListeningStatistics,
+	type PodcastListeningStatistics,
+	type ListeningHistoryEntry,
+} from './StatisticsService';
+
+// Export history exporter
+export { HistoryExporter, type HistoryExportFormat } from './HistoryExporter';
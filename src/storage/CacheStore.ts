@@ -1,7 +1,7 @@
 /**
- * CacheStore - Manages feed and image caching
+ * CacheStore - Manages feed, image and transcript caching
  *
- * Provides caching mechanisms for podcast feeds and images to reduce network requests
+ * Provides caching mechanisms for podcast feeds, images and transcripts to reduce network requests
  * and improve performance. Supports cache expiration and cleanup.
  */
 
@@ -30,6 +30,14 @@ export interface FeedCacheEntry extends CacheEntry<string> {
 	lastModified?: string;
 }
 
+/**
+ * Transcript cache entry
+ */
+export interface TranscriptCacheEntry extends CacheEntry<string> {
+	transcriptUrl: string;
+	mimeType?: string;
+}
+
 /**
  * Image cache entry metadata
  */
@@ -310,6 +318,221 @@ export class FeedCacheStore extends MultiFileStore<FeedCacheEntry[], FeedCacheEn
 	}
 }
 
+/**
+ * Transcript cache store
+ * Transcripts rarely change once published, so entries live much longer than feeds.
+ */
+export class TranscriptCacheStore extends MultiFileStore<TranscriptCacheEntry[], TranscriptCacheEntry> {
+	private defaultTTL: number; // Time to live in milliseconds
+
+	constructor(vault: Vault, pathManager: DataPathManager, ttl = 30 * 24 * 3600000) {
+		// Default TTL: 30 days
+		const dirPath = pathManager.getStructure().cacheTranscripts;
+		super(vault, pathManager, dirPath);
+		this.defaultTTL = ttl;
+	}
+
+	/**
+	 * Validate cache entries
+	 */
+	protected validate(data: TranscriptCacheEntry[]): boolean {
+		if (!Array.isArray(data)) {
+			logger.warn('Invalid transcript cache data: not an array');
+			return false;
+		}
+
+		return data.every(entry => this.validateEntry(entry));
+	}
+
+	/**
+	 * Validate a single cache entry
+	 */
+	private validateEntry(entry: TranscriptCacheEntry): boolean {
+		if (!entry || typeof entry !== 'object') {
+			return false;
+		}
+
+		return typeof entry.data === 'string' &&
+			typeof entry.transcriptUrl === 'string' &&
+			entry.transcriptUrl.length > 0 &&
+			'cachedAt' in entry &&
+			'expiresAt' in entry;
+	}
+
+	/**
+	 * Get default value
+	 */
+	protected getDefaultValue(): TranscriptCacheEntry[] {
+		return [];
+	}
+
+	/**
+	 * Default entry used when loading an item
+	 */
+	private getDefaultEntry(): TranscriptCacheEntry {
+		return {
+			data: '',
+			cachedAt: new Date(),
+			expiresAt: new Date(),
+			url: '',
+			transcriptUrl: '',
+		};
+	}
+
+	/**
+	 * Load all transcript cache entries
+	 */
+	protected async loadAllItems(): Promise<TranscriptCacheEntry[]> {
+		const ids = await this.listItemIds();
+		const entries: TranscriptCacheEntry[] = [];
+
+		for (const id of ids) {
+			try {
+				const entry = await this.loadItem(id, this.getDefaultEntry());
+				if (entry && this.validateEntry(entry)) {
+					entries.push(entry);
+				}
+			} catch (error) {
+				logger.warn(`Failed to load transcript cache entry: ${id}`, error);
+			}
+		}
+
+		return entries;
+	}
+
+	/**
+	 * Load all transcript cache
+	 */
+	async load(): Promise<TranscriptCacheEntry[]> {
+		logger.methodEntry('TranscriptCacheStore', 'load');
+		const entries = await this.loadAllItems();
+		logger.methodExit('TranscriptCacheStore', 'load');
+		return entries;
+	}
+
+	/**
+	 * Save all transcript cache (not typically used, use setCacheEntry instead)
+	 */
+	async save(data: TranscriptCacheEntry[]): Promise<void> {
+		logger.methodEntry('TranscriptCacheStore', 'save');
+
+		if (!this.validate(data)) {
+			throw new StorageError('Invalid transcript cache data', this.dirPath);
+		}
+
+		await this.clear();
+
+		for (const entry of data) {
+			await this.saveItem(this.getTranscriptCacheId(entry.transcriptUrl), entry);
+		}
+
+		logger.methodExit('TranscriptCacheStore', 'save');
+	}
+
+	/**
+	 * Generate cache ID from transcript URL
+	 */
+	private getTranscriptCacheId(transcriptUrl: string): string {
+		let hash = 0;
+		for (let i = 0; i < transcriptUrl.length; i++) {
+			const char = transcriptUrl.charCodeAt(i);
+			hash = (hash << 5) - hash + char;
+			hash = hash & hash; // Convert to 32-bit integer
+		}
+		return `transcript-${Math.abs(hash).toString(36)}`;
+	}
+
+	/**
+	 * Get a cached transcript
+	 */
+	async getCacheEntry(transcriptUrl: string): Promise<TranscriptCacheEntry | null> {
+		logger.methodEntry('TranscriptCacheStore', 'getCacheEntry', transcriptUrl);
+
+		const id = this.getTranscriptCacheId(transcriptUrl);
+
+		try {
+			const entry = await this.loadItem(id, this.getDefaultEntry());
+
+			if (!entry || !this.validateEntry(entry) || entry.transcriptUrl !== transcriptUrl) {
+				logger.methodExit('TranscriptCacheStore', 'getCacheEntry', 'not found');
+				return null;
+			}
+
+			if (new Date() > new Date(entry.expiresAt)) {
+				logger.debug('Transcript cache entry expired', transcriptUrl);
+				await this.deleteItem(id);
+				logger.methodExit('TranscriptCacheStore', 'getCacheEntry', 'expired');
+				return null;
+			}
+
+			logger.methodExit('TranscriptCacheStore', 'getCacheEntry');
+			return entry;
+		} catch (error) {
+			logger.warn('Failed to get transcript cache entry', error);
+			logger.methodExit('TranscriptCacheStore', 'getCacheEntry', 'error');
+			return null;
+		}
+	}
+
+	/**
+	 * Cache a transcript
+	 */
+	async setCacheEntry(
+		transcriptUrl: string,
+		data: string,
+		mimeType?: string,
+		ttl: number = this.defaultTTL
+	): Promise<void> {
+		logger.methodEntry('TranscriptCacheStore', 'setCacheEntry', transcriptUrl);
+
+		const now = new Date();
+		const entry: TranscriptCacheEntry = {
+			data,
+			cachedAt: now,
+			expiresAt: new Date(now.getTime() + ttl),
+			url: transcriptUrl,
+			transcriptUrl,
+			mimeType,
+		};
+
+		await this.saveItem(this.getTranscriptCacheId(transcriptUrl), entry);
+
+		logger.methodExit('TranscriptCacheStore', 'setCacheEntry');
+	}
+
+	/**
+	 * Remove a cached transcript
+	 */
+	async removeCacheEntry(transcriptUrl: string): Promise<void> {
+		logger.methodEntry('TranscriptCacheStore', 'removeCacheEntry', transcriptUrl);
+
+		await this.deleteItem(this.getTranscriptCacheId(transcriptUrl));
+
+		logger.methodExit('TranscriptCacheStore', 'removeCacheEntry');
+	}
+
+	/**
+	 * Clean up expired cache entries
+	 */
+	async cleanupExpired(): Promise<void> {
+		logger.methodEntry('TranscriptCacheStore', 'cleanupExpired');
+
+		const entries = await this.loadAllItems();
+		const now = new Date();
+		let removedCount = 0;
+
+		for (const entry of entries) {
+			if (now > new Date(entry.expiresAt)) {
+				await this.deleteItem(this.getTranscriptCacheId(entry.transcriptUrl));
+				removedCount++;
+			}
+		}
+
+		logger.info(`Cleaned up ${removedCount} expired transcript cache entries`);
+		logger.methodExit('TranscriptCacheStore', 'cleanupExpired');
+	}
+}
+
 /**
  * Image cache index
  */
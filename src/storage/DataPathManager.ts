@@ -18,9 +18,12 @@ export interface DataFolderStructure {
 	progress: string;
 	playlists: string;
 	queues: string;
+	history: string;
 	cache: string;
 	cacheFeed: string;
 	cacheImages: string;
+	cacheTranscripts: string;
+	downloads: string;
 	backups: string;
 }
 
@@ -48,9 +51,12 @@ export class DataPathManager {
 			progress: normalizePath(`${this.basePath}/progress`),
 			playlists: normalizePath(`${this.basePath}/playlists`),
 			queues: normalizePath(`${this.basePath}/queues`),
+			history: normalizePath(`${this.basePath}/history`),
 			cache: normalizePath(`${this.basePath}/cache`),
 			cacheFeed: normalizePath(`${this.basePath}/cache/feeds`),
 			cacheImages: normalizePath(`${this.basePath}/cache/images`),
+			cacheTranscripts: normalizePath(`${this.basePath}/cache/transcripts`),
+			downloads: normalizePath(`${this.basePath}/downloads`),
 			backups: normalizePath(`${this.basePath}/backups`),
 		};
 	}
@@ -100,9 +106,12 @@ export class DataPathManager {
 				this.structure.progress,
 				this.structure.playlists,
 				this.structure.queues,
+				this.structure.history,
 				this.structure.cache,
 				this.structure.cacheFeed,
 				this.structure.cacheImages,
+				this.structure.cacheTranscripts,
+				this.structure.downloads,
 				this.structure.backups,
 			];
 
@@ -18,14 +18,23 @@ import { isEpisodeCompleted } from '../utils/audioUtils';
  */
 export interface ProgressData {
 	progress: PlayProgress[];
+	/** Listening time saved by skipping silence, in seconds */
+	timeSaved?: number;
 	version: number;
 }
 
+/**
+ * Callback invoked after episodes changed between unplayed, in progress and completed
+ * Position updates that keep an episode's play state don't trigger it.
+ */
+export type ProgressChangeHandler = () => void;
+
 /**
  * ProgressStore - Manages episode playback progress
  */
 export class ProgressStore extends SingleFileStore<ProgressData> {
 	private static readonly CURRENT_VERSION = 1;
+	private changeHandler: ProgressChangeHandler | null = null;
 
 	constructor(vault: Vault, pathManager: DataPathManager) {
 		const filePath = pathManager.getFilePath('progress', 'progress.json');
@@ -93,6 +102,31 @@ export class ProgressStore extends SingleFileStore<ProgressData> {
 		return true;
 	}
 
+	/**
+	 * Set a handler notified when the play state of episodes changes
+	 */
+	setChangeHandler(handler: ProgressChangeHandler | null): void {
+		this.changeHandler = handler;
+	}
+
+	/**
+	 * Save progress data and notify the change handler
+	 * @param playStateChanged - Whether episodes changed between unplayed, in progress and completed
+	 */
+	async save(data: ProgressData, playStateChanged = true): Promise<void> {
+		await super.save(data);
+
+		if (!playStateChanged) {
+			return;
+		}
+
+		try {
+			this.changeHandler?.();
+		} catch (error) {
+			logger.warn('Progress change handler failed', error);
+		}
+	}
+
 	/**
 	 * Get default progress data
 	 */
@@ -153,6 +187,7 @@ export class ProgressStore extends SingleFileStore<ProgressData> {
 
 		const data = await this.load();
 		const index = data.progress.findIndex(p => p.episodeId === progress.episodeId);
+		const previousState = this.getPlayState(index !== -1 ? data.progress[index] : undefined);
 
 		// Auto-detect completion status
 		progress.completed = isEpisodeCompleted(progress.position, progress.duration);
@@ -165,7 +200,7 @@ export class ProgressStore extends SingleFileStore<ProgressData> {
 			data.progress.push(progress);
 		}
 
-		await this.save(data);
+		await this.save(data, this.getPlayState(progress) !== previousState);
 		logger.methodExit('ProgressStore', 'updateProgress');
 	}
 
@@ -312,6 +347,27 @@ export class ProgressStore extends SingleFileStore<ProgressData> {
 		return data.progress.reduce((total, p) => total + p.position, 0);
 	}
 
+	/**
+	 * Add listening time saved by skipping silence (in seconds)
+	 */
+	async addTimeSaved(seconds: number): Promise<void> {
+		if (!(seconds > 0)) {
+			return;
+		}
+
+		const data = await this.load();
+		data.timeSaved = (data.timeSaved || 0) + seconds;
+		await this.save(data, false);
+	}
+
+	/**
+	 * Get total listening time saved by skipping silence (in seconds)
+	 */
+	async getTimeSaved(): Promise<number> {
+		const data = await this.load();
+		return data.timeSaved || 0;
+	}
+
 	/**
 	 * Get listening statistics for a podcast
 	 */
@@ -331,6 +387,16 @@ export class ProgressStore extends SingleFileStore<ProgressData> {
 		};
 	}
 
+	/**
+	 * Play state of an episode, as used by the in-progress and completed filters
+	 */
+	private getPlayState(progress: PlayProgress | undefined): 'unplayed' | 'inProgress' | 'completed' {
+		if (progress?.completed) {
+			return 'completed';
+		}
+		return progress && progress.position > 0 ? 'inProgress' : 'unplayed';
+	}
+
 	/**
 	 * Clean up old completed episodes (keep only recent N)
 	 */
@@ -402,6 +468,7 @@ export class ProgressStore extends SingleFileStore<ProgressData> {
 
 			await this.save({
 				progress: mergedProgress,
+				timeSaved: Math.max(currentData.timeSaved || 0, importData.timeSaved || 0),
 				version: ProgressStore.CURRENT_VERSION,
 			});
 		}
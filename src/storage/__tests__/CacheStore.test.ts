@@ -1,8 +1,14 @@
 /**
- * Unit tests for CacheStore (FeedCacheStore and ImageCacheStore)
+ * Unit tests for CacheStore (FeedCacheStore, TranscriptCacheStore and ImageCacheStore)
  */
 
-import { FeedCacheStore, ImageCacheStore, FeedCacheEntry, ImageCacheEntry } from '../CacheStore';
+import {
+	FeedCacheStore,
+	ImageCacheStore,
+	TranscriptCacheStore,
+	FeedCacheEntry,
+	ImageCacheEntry,
+} from '../CacheStore';
 import { Vault } from 'obsidian';
 import { DataPathManager } from '../DataPathManager';
 import { StorageError } from '../../utils/errorUtils';
@@ -904,3 +910,60 @@ describe('ImageCacheStore', () => {
 		});
 	});
 });
+
+describe('TranscriptCacheStore', () => {
+	let store: TranscriptCacheStore;
+	let mockPathManager: jest.Mocked<DataPathManager>;
+
+	const transcriptUrl = 'https://example.com/episode.vtt';
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+		const { MultiFileStore } = require('../FileSystemStore');
+		new MultiFileStore({}, {}, '').clear();
+
+		mockPathManager = {
+			getStructure: jest.fn().mockReturnValue({
+				cacheTranscripts: 'cache/transcripts',
+			}),
+		} as any;
+
+		store = new TranscriptCacheStore({} as any, mockPathManager);
+	});
+
+	it('should set and get a cached transcript', async () => {
+		await store.setCacheEntry(transcriptUrl, 'WEBVTT', 'text/vtt');
+
+		const entry = await store.getCacheEntry(transcriptUrl);
+
+		expect(entry?.data).toBe('WEBVTT');
+		expect(entry?.mimeType).toBe('text/vtt');
+	});
+
+	it('should keep transcripts for 30 days by default', async () => {
+		await store.setCacheEntry(transcriptUrl, 'WEBVTT');
+
+		const entry = await store.getCacheEntry(transcriptUrl);
+		const ttl = new Date(entry!.expiresAt).getTime() - new Date(entry!.cachedAt).getTime();
+
+		expect(ttl).toBe(30 * 24 * 3600000);
+	});
+
+	it('should drop expired transcripts', async () => {
+		await store.setCacheEntry(transcriptUrl, 'WEBVTT', 'text/vtt', -1000);
+
+		expect(await store.getCacheEntry(transcriptUrl)).toBeNull();
+	});
+
+	it('should remove a cached transcript', async () => {
+		await store.setCacheEntry(transcriptUrl, 'WEBVTT');
+
+		await store.removeCacheEntry(transcriptUrl);
+
+		expect(await store.getCacheEntry(transcriptUrl)).toBeNull();
+	});
+
+	it('should reject invalid data on save', async () => {
+		await expect(store.save([{ data: 'x' } as any])).rejects.toThrow(StorageError);
+	});
+});
@@ -59,9 +59,12 @@ describe('DataPathManager', () => {
 			expect(structure).toHaveProperty('progress');
 			expect(structure).toHaveProperty('playlists');
 			expect(structure).toHaveProperty('queues');
+			expect(structure).toHaveProperty('history');
 			expect(structure).toHaveProperty('cache');
 			expect(structure).toHaveProperty('cacheFeed');
 			expect(structure).toHaveProperty('cacheImages');
+			expect(structure).toHaveProperty('cacheTranscripts');
+			expect(structure).toHaveProperty('downloads');
 			expect(structure).toHaveProperty('backups');
 		});
 	});
@@ -108,11 +111,14 @@ describe('DataPathManager', () => {
 
 			await manager.ensureDirectories();
 
-			// Should create base directory + 8 subdirectories
-			expect(mockAdapter.mkdir).toHaveBeenCalledTimes(9);
+			// Should create base directory + 11 subdirectories
+			expect(mockAdapter.mkdir).toHaveBeenCalledTimes(12);
 			expect(mockAdapter.mkdir).toHaveBeenCalledWith('.obsidian/plugins/podcast-player/data');
 			expect(mockAdapter.mkdir).toHaveBeenCalledWith('.obsidian/plugins/podcast-player/data/subscriptions');
 			expect(mockAdapter.mkdir).toHaveBeenCalledWith('.obsidian/plugins/podcast-player/data/playlists');
+			expect(mockAdapter.mkdir).toHaveBeenCalledWith('.obsidian/plugins/podcast-player/data/downloads');
+			expect(mockAdapter.mkdir).toHaveBeenCalledWith('.obsidian/plugins/podcast-player/data/history');
+			expect(mockAdapter.mkdir).toHaveBeenCalledWith('.obsidian/plugins/podcast-player/data/cache/transcripts');
 		});
 
 		it('should not create directories if they exist', async () => {
@@ -758,4 +758,85 @@ describe('ProgressStore', () => {
 			expect(exported.version).toBe(1);
 		});
 	});
+
+	describe('time saved', () => {
+		it('should add to the saved time', async () => {
+			const data: ProgressData = { progress: [], timeSaved: 90, version: 1 };
+			const mockWrite = jest.fn().mockResolvedValue(undefined);
+			vault.adapter.exists = jest.fn().mockResolvedValue(true);
+			vault.adapter.read = jest.fn().mockResolvedValue(JSON.stringify(data));
+			vault.adapter.write = mockWrite;
+			vault.adapter.mkdir = jest.fn().mockResolvedValue(undefined);
+
+			await progressStore.addTimeSaved(12.5);
+
+			const savedData = JSON.parse(mockWrite.mock.calls[mockWrite.mock.calls.length - 1][1]);
+			expect(savedData.timeSaved).toBe(102.5);
+		});
+
+		it('should report zero when nothing was saved yet', async () => {
+			vault.adapter.exists = jest.fn().mockResolvedValue(false);
+
+			expect(await progressStore.getTimeSaved()).toBe(0);
+		});
+	});
+
+	describe('setChangeHandler', () => {
+		beforeEach(() => {
+			vault.adapter.exists = jest.fn().mockResolvedValue(false);
+			vault.adapter.write = jest.fn().mockResolvedValue(undefined);
+			vault.adapter.mkdir = jest.fn().mockResolvedValue(undefined);
+		});
+
+		it('should call the handler after progress is saved', async () => {
+			const handler = jest.fn();
+			progressStore.setChangeHandler(handler);
+
+			await progressStore.updatePosition('ep-123', 'podcast-456', 75, 200);
+
+			expect(handler).toHaveBeenCalledTimes(1);
+		});
+
+		it('should not call the handler when only the position moves', async () => {
+			const data: ProgressData = {
+				progress: [{
+					episodeId: 'ep-123',
+					podcastId: 'podcast-456',
+					position: 50,
+					duration: 200,
+					lastPlayedAt: new Date(),
+					completed: false,
+				}],
+				version: 1,
+			};
+			vault.adapter.exists = jest.fn().mockResolvedValue(true);
+			vault.adapter.read = jest.fn().mockResolvedValue(JSON.stringify(data));
+			const handler = jest.fn();
+			progressStore.setChangeHandler(handler);
+
+			await progressStore.updatePosition('ep-123', 'podcast-456', 75, 200);
+			expect(handler).not.toHaveBeenCalled();
+
+			await progressStore.markCompleted('ep-123', 'podcast-456', 200);
+			expect(handler).toHaveBeenCalledTimes(1);
+		});
+
+		it('should not call the handler for time saved', async () => {
+			const handler = jest.fn();
+			progressStore.setChangeHandler(handler);
+
+			await progressStore.addTimeSaved(5);
+
+			expect(handler).not.toHaveBeenCalled();
+		});
+
+		it('should not fail the save when the handler throws', async () => {
+			progressStore.setChangeHandler(() => {
+				throw new Error('handler failed');
+			});
+
+			await expect(progressStore.markCompleted('ep-123', 'podcast-456', 200)).resolves.not.toThrow();
+			expect(vault.adapter.write).toHaveBeenCalled();
+		});
+	});
 });
@@ -221,6 +221,32 @@ describe('SettingsStore', () => {
 			expect(settings.defaultPlaybackSettings.skipOutroSeconds).toBe(0);
 		});
 
+		it('should default timestamp settings for older settings files', async () => {
+			const olderSettings = {
+				dataFolderPath: 'custom/path',
+				defaultPlaybackSettings: {
+					volume: 0.8,
+					playbackSpeed: 1.0,
+					skipIntroSeconds: 0,
+				},
+				autoDownload: false,
+				maxCacheEpisodes: 50,
+				feedUpdateInterval: 60,
+				enableNotifications: true,
+				dailyNoteInsertPosition: 'cursor',
+			};
+
+			vault.adapter.exists = jest.fn().mockResolvedValue(true);
+			vault.adapter.read = jest.fn().mockResolvedValue(JSON.stringify(olderSettings));
+			vault.adapter.write = jest.fn().mockResolvedValue(undefined);
+
+			const settings = await settingsStore.loadWithMigration();
+
+			expect(settings.timestampStyle).toBe('link');
+			expect(settings.timestampTemplate).toBe(DEFAULT_SETTINGS.timestampTemplate);
+			expect(settings.dailyNoteInsertPosition).toBe('cursor');
+		});
+
 		it('should save migrated settings if they changed', async () => {
 			// Create settings missing the skipOutroSeconds field (added in later version)
 			const partialSettings = {
@@ -18,12 +18,14 @@ export {
 
 // Export concrete stores
 export { SubscriptionStore, type SubscriptionData } from './SubscriptionStore';
-export { ProgressStore, type ProgressData } from './ProgressStore';
+export { ProgressStore, type ProgressData, type ProgressChangeHandler } from './ProgressStore';
 export { SettingsStore } from './SettingsStore';
 export {
 	FeedCacheStore,
 	ImageCacheStore,
+	TranscriptCacheStore,
 	type CacheEntry,
 	type FeedCacheEntry,
 	type ImageCacheEntry,
+	type TranscriptCacheEntry,
 } from './CacheStore';
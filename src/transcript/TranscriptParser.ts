@@ -0,0 +1,257 @@
+/**
+ * TranscriptParser - Parses podcast transcripts into timed cues
+ *
+ * Supports the formats allowed by <podcast:transcript>:
+ * SRT, WebVTT, Podcasting 2.0 JSON and HTML.
+ */
+
+import { TranscriptCue } from '../model';
+
+/**
+ * Transcript format
+ */
+export type TranscriptFormat = 'srt' | 'vtt' | 'json' | 'html';
+
+/**
+ * Raw segment of the JSON transcript format
+ */
+interface JsonSegment {
+	startTime?: number | string;
+	endTime?: number | string;
+	body?: string;
+	speaker?: string;
+}
+
+/**
+ * Maximum length of a cue built by joining word-level JSON segments
+ */
+const MAX_MERGED_CUE_LENGTH = 200;
+
+/**
+ * Transcript Parser
+ */
+export class TranscriptParser {
+	/**
+	 * Parse a transcript in the given format
+	 */
+	static parse(content: string, format: TranscriptFormat): TranscriptCue[] {
+		switch (format) {
+			case 'srt':
+			case 'vtt':
+				return this.parseTimedText(content);
+			case 'json':
+				return this.parseJson(content);
+			case 'html':
+				return this.parseHtml(content);
+			default:
+				return [];
+		}
+	}
+
+	/**
+	 * Detect the transcript format from its MIME type, URL or content
+	 */
+	static detectFormat(mimeType: string | undefined, url: string, content?: string): TranscriptFormat | null {
+		const type = (mimeType || '').toLowerCase();
+
+		if (type.includes('vtt')) return 'vtt';
+		if (type.includes('srt') || type.includes('subrip')) return 'srt';
+		if (type.includes('json')) return 'json';
+		if (type.includes('html')) return 'html';
+
+		const path = url.split(/[?#]/)[0].toLowerCase();
+		if (path.endsWith('.vtt')) return 'vtt';
+		if (path.endsWith('.srt')) return 'srt';
+		if (path.endsWith('.json')) return 'json';
+		if (path.endsWith('.html') || path.endsWith('.htm')) return 'html';
+
+		if (content !== undefined) {
+			const trimmed = content.trim();
+			if (trimmed.startsWith('WEBVTT')) return 'vtt';
+			if (trimmed.startsWith('{')) return 'json';
+			if (trimmed.startsWith('<')) return 'html';
+			if (/-->/.test(trimmed)) return 'srt';
+		}
+
+		return null;
+	}
+
+	/**
+	 * Parse SRT or WebVTT cue blocks
+	 */
+	private static parseTimedText(content: string): TranscriptCue[] {
+		const cues: TranscriptCue[] = [];
+		const blocks = content.replace(/\r\n?/g, '\n').split(/\n{2,}/);
+
+		for (const block of blocks) {
+			const lines = block.split('\n').filter(line => line.trim().length > 0);
+			const timingIndex = lines.findIndex(line => line.includes('-->'));
+			if (timingIndex === -1) {
+				// WEBVTT header, NOTE, STYLE or REGION blocks
+				continue;
+			}
+
+			const [startStr, endPart] = lines[timingIndex].split('-->');
+			const startTime = this.parseTimestamp(startStr);
+			// WebVTT cue settings may follow the end timestamp
+			const endTime = this.parseTimestamp((endPart || '').trim().split(/\s+/)[0]);
+			if (isNaN(startTime) || isNaN(endTime)) {
+				continue;
+			}
+
+			let speaker: string | undefined;
+			const textLines = lines.slice(timingIndex + 1).map(line => {
+				const voice = line.match(/<v(?:\.[^\s>]*)?\s+([^>]+)>/);
+				if (voice && !speaker) {
+					speaker = voice[1].trim();
+				}
+				return this.stripTags(line);
+			});
+
+			const text = textLines.join(' ').trim();
+			if (!text) {
+				continue;
+			}
+
+			cues.push({ startTime, endTime, text, speaker });
+		}
+
+		return cues;
+	}
+
+	/**
+	 * Parse Podcasting 2.0 JSON transcripts
+	 * Word-level segments are joined into sentences so the view stays readable.
+	 */
+	private static parseJson(content: string): TranscriptCue[] {
+		let data: unknown;
+		try {
+			data = JSON.parse(content);
+		} catch {
+			return [];
+		}
+
+		const segments = (data as { segments?: unknown })?.segments;
+		if (!Array.isArray(segments)) {
+			return [];
+		}
+
+		const cues: TranscriptCue[] = [];
+		let current: TranscriptCue | null = null;
+
+		for (const segment of segments as JsonSegment[]) {
+			const startTime = Number(segment?.startTime);
+			const endTime = Number(segment?.endTime);
+			const body = typeof segment?.body === 'string' ? segment.body.trim() : '';
+			if (!body || !isFinite(startTime)) {
+				continue;
+			}
+
+			const speaker = segment.speaker?.trim() || undefined;
+			const end = isFinite(endTime) ? endTime : startTime;
+
+			const canMerge = current &&
+				current.speaker === speaker &&
+				!/[.?!]["')\]]?$/.test(current.text) &&
+				current.text.length < MAX_MERGED_CUE_LENGTH;
+
+			if (current && canMerge) {
+				current.text = `${current.text} ${body}`;
+				current.endTime = Math.max(current.endTime, end);
+			} else {
+				current = { startTime, endTime: end, text: body, speaker };
+				cues.push(current);
+			}
+		}
+
+		return cues;
+	}
+
+	/**
+	 * Parse HTML transcripts (<cite>Speaker:</cite> <time>0:00</time> <p>Text</p>)
+	 * Transcripts without timestamps become a single untimed cue.
+	 */
+	private static parseHtml(content: string): TranscriptCue[] {
+		const cues: TranscriptCue[] = [];
+		const pattern = /(?:<cite>([\s\S]*?)<\/cite>\s*)?<time>([\s\S]*?)<\/time>\s*<p>([\s\S]*?)<\/p>/gi;
+		let match: RegExpExecArray | null;
+
+		while ((match = pattern.exec(content)) !== null) {
+			const startTime = this.parseTimestamp(this.stripTags(match[2]));
+			const text = this.stripTags(match[3]);
+			if (isNaN(startTime) || !text) {
+				continue;
+			}
+
+			const speaker = match[1] ? this.stripTags(match[1]).replace(/:\s*$/, '') : undefined;
+			cues.push({ startTime, endTime: startTime, text, speaker: speaker || undefined });
+		}
+
+		if (cues.length === 0) {
+			const body = content.replace(/<(script|style)[\s\S]*?<\/\1>/gi, '');
+			const text = this.stripTags(body);
+			return text ? [{ startTime: 0, endTime: 0, text }] : [];
+		}
+
+		// HTML cues only carry start times; each one ends where the next begins
+		cues.sort((a, b) => a.startTime - b.startTime);
+		for (let i = 0; i < cues.length - 1; i++) {
+			cues[i].endTime = cues[i + 1].startTime;
+		}
+
+		return cues;
+	}
+
+	/**
+	 * Parse a cue timestamp ("01:02:03,500", "01:02:03.500", "02:03.5", "2:03")
+	 * Returns NaN for invalid input.
+	 */
+	static parseTimestamp(value: string): number {
+		const trimmed = (value || '').trim().replace(',', '.');
+		if (!/^\d+(:\d{1,2}){0,2}(\.\d+)?$/.test(trimmed)) {
+			return NaN;
+		}
+
+		return trimmed
+			.split(':')
+			.reduce((total, part) => total * 60 + parseFloat(part), 0);
+	}
+
+	/**
+	 * Find the index of the cue playing at a position, or -1 before the first cue
+	 */
+	static findCueIndex(cues: TranscriptCue[], position: number): number {
+		let low = 0;
+		let high = cues.length - 1;
+		let index = -1;
+
+		// Cues are ordered by start time, so binary search for the last cue that has started
+		while (low <= high) {
+			const mid = (low + high) >> 1;
+			if (cues[mid].startTime <= position) {
+				index = mid;
+				low = mid + 1;
+			} else {
+				high = mid - 1;
+			}
+		}
+
+		return index;
+	}
+
+	/**
+	 * Remove markup and decode common HTML entities
+	 */
+	private static stripTags(text: string): string {
+		return text
+			.replace(/<[^>]*>/g, '')
+			.replace(/&nbsp;/g, ' ')
+			.replace(/&lt;/g, '<')
+			.replace(/&gt;/g, '>')
+			.replace(/&quot;/g, '"')
+			.replace(/&#39;|&apos;/g, "'")
+			.replace(/&amp;/g, '&')
+			.replace(/\s+/g, ' ')
+			.trim();
+	}
+}
@@ -0,0 +1,228 @@
+/**
+ * TranscriptService - Fetches, caches and parses episode transcripts
+ *
+ * Picks the best <podcast:transcript> link of an episode, keeps the raw file
+ * in the transcript cache and returns the parsed cues.
+ */
+
+import { requestUrl } from 'obsidian';
+import { logger } from '../utils/Logger';
+import { NetworkError, retryWithBackoff } from '../utils/errorUtils';
+import { Episode, TranscriptCue, TranscriptSource } from '../model';
+import { TranscriptCacheStore } from '../storage/CacheStore';
+import { TranscriptParser, TranscriptFormat } from './TranscriptParser';
+
+/**
+ * A parsed episode transcript
+ */
+export interface Transcript {
+	/** Episode ID */
+	episodeId: string;
+	/** Transcript file the cues were parsed from */
+	source: TranscriptSource;
+	/** Detected format */
+	format: TranscriptFormat;
+	/** Timed cues ordered by start time */
+	cues: TranscriptCue[];
+}
+
+/**
+ * Called when a transcript was loaded from the network or the cache
+ */
+export type TranscriptLoadedHandler = (episodeId: string) => void;
+
+/**
+ * Format preference when an episode links several transcripts
+ * Caption formats come first because their cues are already sentence-sized.
+ */
+const FORMAT_PRIORITY: TranscriptFormat[] = ['vtt', 'srt', 'json', 'html'];
+
+/**
+ * Transcript Service
+ */
+export class TranscriptService {
+	private cacheStore: TranscriptCacheStore | null;
+	private transcripts: Map<string, Transcript> = new Map();
+	private loadedHandler: TranscriptLoadedHandler | null = null;
+
+	constructor(cacheStore?: TranscriptCacheStore) {
+		this.cacheStore = cacheStore || null;
+	}
+
+	/**
+	 * Set a handler for newly loaded transcripts
+	 */
+	setTranscriptLoadedHandler(handler: TranscriptLoadedHandler | null): void {
+		this.loadedHandler = handler;
+	}
+
+	/**
+	 * Check whether an episode links a transcript
+	 */
+	hasTranscript(episode: Episode): boolean {
+		return TranscriptService.selectSource(episode) !== null;
+	}
+
+	/**
+	 * Get the transcript of an episode (null if none is published)
+	 */
+	async getTranscript(episode: Episode): Promise<Transcript | null> {
+		logger.methodEntry('TranscriptService', 'getTranscript', episode.id);
+
+		const source = TranscriptService.selectSource(episode);
+		if (!source) {
+			logger.methodExit('TranscriptService', 'getTranscript', 'none');
+			return null;
+		}
+
+		const loaded = this.transcripts.get(source.url);
+		if (loaded) {
+			logger.methodExit('TranscriptService', 'getTranscript', 'memory');
+			return { ...loaded, episodeId: episode.id };
+		}
+
+		const { content, mimeType } = await this.loadContent(source);
+		const transcript = this.parseTranscript(episode, source, content, mimeType);
+		this.transcripts.set(source.url, transcript);
+		this.loadedHandler?.(episode.id);
+
+		logger.info(`Loaded transcript: ${transcript.cues.length} cues (${transcript.format})`);
+		logger.methodExit('TranscriptService', 'getTranscript');
+		return transcript;
+	}
+
+	/**
+	 * Get the transcript of an episode only if it is loaded or cached
+	 * Never downloads; null when the transcript is not available offline.
+	 */
+	async getCachedTranscript(episode: Episode): Promise<Transcript | null> {
+		const source = TranscriptService.selectSource(episode);
+		if (!source) {
+			return null;
+		}
+
+		const loaded = this.transcripts.get(source.url);
+		if (loaded) {
+			return { ...loaded, episodeId: episode.id };
+		}
+
+		const cached = this.cacheStore ? await this.cacheStore.getCacheEntry(source.url) : null;
+		if (!cached) {
+			return null;
+		}
+
+		try {
+			return this.parseTranscript(episode, source, cached.data, cached.mimeType);
+		} catch (error) {
+			logger.warn('Failed to parse cached transcript', error);
+			return null;
+		}
+	}
+
+	/**
+	 * Parse transcript content in the format it was published in
+	 */
+	private parseTranscript(
+		episode: Episode,
+		source: TranscriptSource,
+		content: string,
+		mimeType?: string
+	): Transcript {
+		const format = TranscriptParser.detectFormat(mimeType || source.type, source.url, content);
+		if (!format) {
+			throw new NetworkError(`Unsupported transcript format: ${source.type}`, source.url);
+		}
+
+		return {
+			episodeId: episode.id,
+			source,
+			format,
+			cues: TranscriptParser.parse(content, format),
+		};
+	}
+
+	/**
+	 * Load transcript content from the cache or the network
+	 */
+	private async loadContent(source: TranscriptSource): Promise<{ content: string; mimeType?: string }> {
+		if (this.cacheStore) {
+			const cached = await this.cacheStore.getCacheEntry(source.url);
+			if (cached) {
+				logger.debug('Using cached transcript', source.url);
+				return { content: cached.data, mimeType: cached.mimeType };
+			}
+		}
+
+		const { content, mimeType } = await this.fetchContent(source.url);
+
+		if (this.cacheStore) {
+			try {
+				await this.cacheStore.setCacheEntry(source.url, content, mimeType || source.type);
+			} catch (error) {
+				logger.warn('Failed to cache transcript', error);
+			}
+		}
+
+		return { content, mimeType };
+	}
+
+	/**
+	 * Fetch a transcript file
+	 */
+	private async fetchContent(url: string): Promise<{ content: string; mimeType?: string }> {
+		logger.debug('Fetching transcript', url);
+
+		try {
+			const response = await retryWithBackoff(
+				async () => {
+					const result = await requestUrl({ url, method: 'GET', throw: false });
+
+					if (result.status >= 400) {
+						throw new NetworkError(`HTTP ${result.status}: Failed to fetch transcript`, url);
+					}
+
+					return result;
+				},
+				{
+					maxRetries: 2,
+					initialDelay: 1000,
+					maxDelay: 5000,
+				}
+			);
+
+			const contentType = response.headers?.['content-type'] || response.headers?.['Content-Type'];
+			return {
+				content: response.text,
+				mimeType: contentType ? contentType.split(';')[0].trim() : undefined,
+			};
+		} catch (error) {
+			logger.error('Failed to fetch transcript', error);
+			throw new NetworkError('Failed to fetch transcript', url, error);
+		}
+	}
+
+	/**
+	 * Forget parsed transcripts held in memory
+	 */
+	clearMemory(): void {
+		this.transcripts.clear();
+	}
+
+	/**
+	 * Pick the transcript link to use for an episode
+	 */
+	static selectSource(episode: Episode): TranscriptSource | null {
+		const sources = episode.transcripts || [];
+		if (sources.length === 0) {
+			return null;
+		}
+
+		const rank = (source: TranscriptSource): number => {
+			const format = TranscriptParser.detectFormat(source.type, source.url);
+			const index = format ? FORMAT_PRIORITY.indexOf(format) : -1;
+			return index === -1 ? FORMAT_PRIORITY.length : index;
+		};
+
+		return [...sources].sort((a, b) => rank(a) - rank(b))[0];
+	}
+}
@@ -0,0 +1,142 @@
+/**
+ * Unit tests for TranscriptParser
+ */
+
+import { TranscriptParser } from '../TranscriptParser';
+
+describe('TranscriptParser', () => {
+	describe('parse srt', () => {
+		it('should parse numbered cues with comma milliseconds', () => {
+			const srt = [
+				'1',
+				'00:00:01,000 --> 00:00:04,500',
+				'Hello and welcome',
+				'to the show.',
+				'',
+				'2',
+				'00:00:05,000 --> 00:00:07,000',
+				'Thanks for having me.',
+			].join('\r\n');
+
+			expect(TranscriptParser.parse(srt, 'srt')).toEqual([
+				{ startTime: 1, endTime: 4.5, text: 'Hello and welcome to the show.', speaker: undefined },
+				{ startTime: 5, endTime: 7, text: 'Thanks for having me.', speaker: undefined },
+			]);
+		});
+	});
+
+	describe('parse vtt', () => {
+		it('should skip headers and notes and read voice tags', () => {
+			const vtt = [
+				'WEBVTT',
+				'',
+				'NOTE generated by a tool',
+				'',
+				'intro',
+				'00:01.000 --> 00:03.000 align:start',
+				'<v Alice>Hi <b>there</b></v>',
+				'',
+				'01:00:00.000 --> 01:00:02.250',
+				'Bye &amp; thanks',
+			].join('\n');
+
+			expect(TranscriptParser.parse(vtt, 'vtt')).toEqual([
+				{ startTime: 1, endTime: 3, text: 'Hi there', speaker: 'Alice' },
+				{ startTime: 3600, endTime: 3602.25, text: 'Bye & thanks', speaker: undefined },
+			]);
+		});
+	});
+
+	describe('parse json', () => {
+		it('should join word-level segments into sentences per speaker', () => {
+			const json = JSON.stringify({
+				version: '1.0.0',
+				segments: [
+					{ speaker: 'Alice', startTime: 0, endTime: 0.5, body: 'Hello' },
+					{ speaker: 'Alice', startTime: 0.5, endTime: 1, body: 'world.' },
+					{ speaker: 'Alice', startTime: 1, endTime: 2, body: 'Next' },
+					{ speaker: 'Bob', startTime: 2, endTime: 3, body: 'Hi' },
+				],
+			});
+
+			expect(TranscriptParser.parse(json, 'json')).toEqual([
+				{ startTime: 0, endTime: 1, text: 'Hello world.', speaker: 'Alice' },
+				{ startTime: 1, endTime: 2, text: 'Next', speaker: 'Alice' },
+				{ startTime: 2, endTime: 3, text: 'Hi', speaker: 'Bob' },
+			]);
+		});
+
+		it('should return no cues for invalid JSON', () => {
+			expect(TranscriptParser.parse('not json', 'json')).toEqual([]);
+			expect(TranscriptParser.parse('{"segments": 1}', 'json')).toEqual([]);
+		});
+	});
+
+	describe('parse html', () => {
+		it('should read speakers and timestamps', () => {
+			const html = `
+				<cite>Alice:</cite>
+				<time>0:00</time>
+				<p>Welcome back.</p>
+				<cite>Bob:</cite>
+				<time>1:30</time>
+				<p>Good to be here.</p>`;
+
+			expect(TranscriptParser.parse(html, 'html')).toEqual([
+				{ startTime: 0, endTime: 90, text: 'Welcome back.', speaker: 'Alice' },
+				{ startTime: 90, endTime: 90, text: 'Good to be here.', speaker: 'Bob' },
+			]);
+		});
+
+		it('should fall back to a single untimed cue', () => {
+			const html = '<html><style>p {}</style><body><p>Just text</p></body></html>';
+
+			expect(TranscriptParser.parse(html, 'html')).toEqual([
+				{ startTime: 0, endTime: 0, text: 'Just text' },
+			]);
+		});
+	});
+
+	describe('detectFormat', () => {
+		it('should prefer the MIME type', () => {
+			expect(TranscriptParser.detectFormat('text/vtt', 'https://example.com/t')).toBe('vtt');
+			expect(TranscriptParser.detectFormat('application/x-subrip', 'https://example.com/t')).toBe('srt');
+			expect(TranscriptParser.detectFormat('application/json', 'https://example.com/t')).toBe('json');
+			expect(TranscriptParser.detectFormat('text/html', 'https://example.com/t')).toBe('html');
+		});
+
+		it('should fall back to the URL extension and the content', () => {
+			expect(TranscriptParser.detectFormat('', 'https://example.com/t.srt?x=1')).toBe('srt');
+			expect(TranscriptParser.detectFormat(undefined, 'https://example.com/t', 'WEBVTT\n')).toBe('vtt');
+			expect(TranscriptParser.detectFormat(undefined, 'https://example.com/t')).toBeNull();
+		});
+	});
+
+	describe('parseTimestamp', () => {
+		it('should parse supported formats', () => {
+			expect(TranscriptParser.parseTimestamp('00:00:01,500')).toBe(1.5);
+			expect(TranscriptParser.parseTimestamp('02:03.25')).toBe(123.25);
+			expect(TranscriptParser.parseTimestamp('1:30')).toBe(90);
+			expect(TranscriptParser.parseTimestamp('bogus')).toBeNaN();
+		});
+	});
+
+	describe('findCueIndex', () => {
+		const cues = [
+			{ startTime: 0, endTime: 5, text: 'a' },
+			{ startTime: 5, endTime: 10, text: 'b' },
+			{ startTime: 10, endTime: 15, text: 'c' },
+		];
+
+		it('should find the cue that has most recently started', () => {
+			expect(TranscriptParser.findCueIndex(cues, 0)).toBe(0);
+			expect(TranscriptParser.findCueIndex(cues, 7)).toBe(1);
+			expect(TranscriptParser.findCueIndex(cues, 100)).toBe(2);
+		});
+
+		it('should return -1 before the first cue', () => {
+			expect(TranscriptParser.findCueIndex([{ startTime: 3, endTime: 4, text: 'x' }], 1)).toBe(-1);
+			expect(TranscriptParser.findCueIndex([], 1)).toBe(-1);
+		});
+	});
+});
@@ -0,0 +1,164 @@
+/**
+ * Unit tests for TranscriptService
+ */
+
+import { TranscriptService } from '../TranscriptService';
+import { Episode } from '../../model';
+
+// Mock logger
+jest.mock('../../utils/Logger', () => ({
+	logger: {
+		methodEntry: jest.fn(),
+		methodExit: jest.fn(),
+		debug: jest.fn(),
+		info: jest.fn(),
+		warn: jest.fn(),
+		error: jest.fn(),
+	},
+}));
+
+// Mock Obsidian's requestUrl
+jest.mock('obsidian', () => ({
+	requestUrl: jest.fn(),
+}));
+
+import { requestUrl } from 'obsidian';
+const mockRequestUrl = requestUrl as jest.MockedFunction<typeof requestUrl>;
+
+// Mock retryWithBackoff to not actually retry (for faster tests)
+jest.mock('../../utils/errorUtils', () => {
+	const actual = jest.requireActual('../../utils/errorUtils');
+	return {
+		...actual,
+		retryWithBackoff: jest.fn(async (fn) => await fn()),
+	};
+});
+
+describe('TranscriptService', () => {
+	const vtt = 'WEBVTT\n\n00:00.000 --> 00:02.000\nHello\n';
+
+	const episode: Episode = {
+		id: 'ep-123',
+		podcastId: 'podcast-456',
+		title: 'Test Episode',
+		description: 'Test Description',
+		audioUrl: 'https://example.com/episode.mp3',
+		duration: 3600,
+		publishDate: new Date('2024-01-01'),
+		transcripts: [
+			{ url: 'https://example.com/episode.html', type: 'text/html' },
+			{ url: 'https://example.com/episode.vtt', type: 'text/vtt' },
+		],
+	};
+
+	let mockCacheStore: { getCacheEntry: jest.Mock; setCacheEntry: jest.Mock };
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+		mockCacheStore = {
+			getCacheEntry: jest.fn().mockResolvedValue(null),
+			setCacheEntry: jest.fn().mockResolvedValue(undefined),
+		};
+	});
+
+	describe('selectSource', () => {
+		it('should prefer caption formats', () => {
+			expect(TranscriptService.selectSource(episode)?.url).toBe('https://example.com/episode.vtt');
+		});
+
+		it('should return null when the episode has no transcripts', () => {
+			expect(TranscriptService.selectSource({ ...episode, transcripts: undefined })).toBeNull();
+		});
+	});
+
+	describe('getTranscript', () => {
+		it('should fetch, cache and parse the transcript', async () => {
+			mockRequestUrl.mockResolvedValue({
+				status: 200,
+				text: vtt,
+				headers: { 'content-type': 'text/vtt; charset=utf-8' },
+			} as any);
+			const service = new TranscriptService(mockCacheStore as any);
+
+			const transcript = await service.getTranscript(episode);
+
+			expect(transcript?.format).toBe('vtt');
+			expect(transcript?.cues).toEqual([{ startTime: 0, endTime: 2, text: 'Hello', speaker: undefined }]);
+			expect(mockCacheStore.setCacheEntry).toHaveBeenCalledWith('https://example.com/episode.vtt', vtt, 'text/vtt');
+		});
+
+		it('should use the cached file without fetching', async () => {
+			mockCacheStore.getCacheEntry.mockResolvedValue({ data: vtt, mimeType: 'text/vtt' });
+			const service = new TranscriptService(mockCacheStore as any);
+
+			const transcript = await service.getTranscript(episode);
+
+			expect(transcript?.cues).toHaveLength(1);
+			expect(mockRequestUrl).not.toHaveBeenCalled();
+		});
+
+		it('should keep parsed transcripts in memory', async () => {
+			mockRequestUrl.mockResolvedValue({ status: 200, text: vtt, headers: {} } as any);
+			const service = new TranscriptService();
+
+			await service.getTranscript(episode);
+			await service.getTranscript(episode);
+
+			expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+		});
+
+		it('should report newly loaded transcripts', async () => {
+			mockRequestUrl.mockResolvedValue({ status: 200, text: vtt, headers: {} } as any);
+			const service = new TranscriptService();
+			const handler = jest.fn();
+			service.setTranscriptLoadedHandler(handler);
+
+			await service.getTranscript(episode);
+			await service.getTranscript(episode);
+
+			expect(handler).toHaveBeenCalledTimes(1);
+			expect(handler).toHaveBeenCalledWith(episode.id);
+		});
+
+		it('should return null when the episode has no transcripts', async () => {
+			const service = new TranscriptService(mockCacheStore as any);
+
+			expect(await service.getTranscript({ ...episode, transcripts: [] })).toBeNull();
+		});
+
+		it('should throw on HTTP errors', async () => {
+			mockRequestUrl.mockResolvedValue({ status: 404, text: '', headers: {} } as any);
+			const service = new TranscriptService(mockCacheStore as any);
+
+			await expect(service.getTranscript(episode)).rejects.toThrow('Failed to fetch transcript');
+			expect(mockCacheStore.setCacheEntry).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('getCachedTranscript', () => {
+		it('should parse a cached transcript without fetching', async () => {
+			mockCacheStore.getCacheEntry.mockResolvedValue({ data: vtt, mimeType: 'text/vtt' });
+			const service = new TranscriptService(mockCacheStore as any);
+
+			const transcript = await service.getCachedTranscript(episode);
+
+			expect(transcript?.cues).toHaveLength(1);
+			expect(mockRequestUrl).not.toHaveBeenCalled();
+		});
+
+		it('should return null when the transcript is not cached', async () => {
+			const service = new TranscriptService(mockCacheStore as any);
+
+			expect(await service.getCachedTranscript(episode)).toBeNull();
+			expect(mockRequestUrl).not.toHaveBeenCalled();
+		});
+
+		it('should return transcripts loaded earlier', async () => {
+			mockRequestUrl.mockResolvedValue({ status: 200, text: vtt, headers: {} } as any);
+			const service = new TranscriptService();
+			await service.getTranscript(episode);
+
+			expect((await service.getCachedTranscript(episode))?.cues).toHaveLength(1);
+		});
+	});
+});
@@ -0,0 +1,20 @@
+/**
+ * Transcript Module
+ *
+ * Provides transcript support:
+ * - Parsing SRT, WebVTT, JSON and HTML transcripts into timed cues
+ * - Fetching and caching <podcast:transcript> files
+ */
+
+// Export transcript parser
+export {
+	TranscriptParser,
+	type TranscriptFormat,
+} from './TranscriptParser';
+
+// Export transcript service
+export {
+	TranscriptService,
+	type Transcript,
+	type TranscriptLoadedHandler,
+} from './TranscriptService';
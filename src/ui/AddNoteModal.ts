@@ -1,20 +1,15 @@
 /**
  * AddNoteModal - Modal for adding notes while listening to podcasts
  *
- * Allows users to add timestamped notes that will be inserted into their daily note.
+ * Allows users to add timestamped notes that will be inserted into their daily note,
+ * and optionally into the timestamps table of the episode note.
  */
 
-import { App, Modal, Notice, TextAreaComponent, TFile } from 'obsidian';
+import { App, MarkdownView, Modal, Notice, TextAreaComponent, TFile } from 'obsidian';
 import type PodcastPlayerPlugin from '../../main';
 import { Episode, Podcast } from '../model';
 import { logger } from '../utils/Logger';
 
-declare global {
-    interface Window {
-        moment: typeof import('moment');
-    }
-}
-
 /**
  * Modal for adding podcast notes
  */
@@ -118,9 +113,21 @@ export class AddNoteModal extends Modal {
         }
 
         try {
-            await this.insertNoteIntoDailyNote();
+            const episodeNote = this.plugin.settings.addNotesToEpisodeNote
+                ? await this.addNoteToEpisodeNote()
+                : null;
+
+            // Insert at the cursor of the open note, falling back to the daily note when none is open
+            if (this.plugin.settings.dailyNoteInsertPosition === 'cursor' && this.insertNoteAtCursor(episodeNote)) {
+                new Notice(episodeNote ? 'Note added to episode note and inserted at cursor' : 'Note inserted at cursor');
+            } else {
+                await this.insertNoteIntoDailyNote(episodeNote);
+                new Notice(episodeNote ? 'Note added to episode note and daily note' : 'Note added to daily note');
+            }
+            this.plugin.getListeningJournal().recordTimestamp(this.episode, this.currentPosition).catch((error) => {
+                logger.warn('Failed to record timestamp for the journal', error);
+            });
             this.onSubmit(this.noteContent);
-            new Notice('Note added to daily note');
             this.close();
         } catch (error) {
             logger.error('Failed to add note', error);
@@ -128,58 +135,79 @@ export class AddNoteModal extends Modal {
         }
     }
 
-    private async insertNoteIntoDailyNote(): Promise<void> {
-        const settings = this.plugin.settings;
-        const now = window.moment();
-
-        // Format the daily note filename
-        const dateFormat = settings.dailyNoteDateFormat || 'YYYY-MM-DD';
-        const dailyNoteFilename = now.format(dateFormat) + '.md';
-
-        // Build the full path
-        const folderPath = settings.dailyNoteFolderPath || '';
-        const fullPath = folderPath ? `${folderPath}/${dailyNoteFilename}` : dailyNoteFilename;
+    /**
+     * Add the note to the timestamps table of the episode note, exporting the episode when it has no note yet
+     * Returns null when the podcast of the episode is unknown.
+     */
+    private async addNoteToEpisodeNote(): Promise<TFile | null> {
+        const podcast = this.podcast || await this.plugin.getSubscriptionStore().getPodcast(this.episode.podcastId);
+        if (!podcast) {
+            logger.warn('Podcast not found, note not added to the episode note', this.episode.id);
+            return null;
+        }
 
-        // Format the note content
-        const timestamp = now.format('HH:mm:ss');
-        const playbackTimestamp = this.formatTime(this.currentPosition);
+        const noteExporter = this.plugin.getNoteExporter();
+        const episodeWithProgress = await this.plugin.getEpisodeManager().getEpisodeWithProgress(this.episode.id);
+        const templateFile = podcast.settings?.noteTemplatePath || this.plugin.settings.noteTemplatePath;
 
-        const noteEntry = this.formatNoteEntry(timestamp, playbackTimestamp);
+        const file = await noteExporter.getOrCreateEpisodeNote(this.episode, podcast, episodeWithProgress?.progress, {
+            templateFile: templateFile || undefined,
+        });
+        await noteExporter.addTimestampNote(file, this.episode, this.currentPosition, this.noteContent, {
+            style: this.plugin.settings.timestampStyle,
+            customTemplate: this.plugin.settings.timestampTemplate,
+        });
 
-        // Get or create the daily note
-        let file = this.app.vault.getAbstractFileByPath(fullPath);
+        return file;
+    }
 
-        if (!file) {
-            // Create the file if it doesn't exist
-            const folderExists = folderPath ? this.app.vault.getAbstractFileByPath(folderPath) : true;
-            if (folderPath && !folderExists) {
-                await this.app.vault.createFolder(folderPath);
-            }
-            file = await this.app.vault.create(fullPath, '');
+    /**
+     * Insert the note at the cursor of the most recently active note
+     * Returns false when no note is open in an editor.
+     */
+    private insertNoteAtCursor(episodeNote: TFile | null): boolean {
+        const view = this.app.workspace.getMostRecentLeaf()?.view;
+        if (!(view instanceof MarkdownView)) {
+            return false;
         }
 
-        if (file && file instanceof TFile) {
-            // Read existing content
-            const content = await this.app.vault.read(file);
-
-            // Insert based on position setting
-            let newContent: string;
-            const position = settings.dailyNoteInsertPosition || 'bottom';
+        const noteEntry = this.formatNoteEntry(
+            window.moment().format('HH:mm:ss'),
+            this.formatTime(this.currentPosition),
+            episodeNote,
+            view.file?.path || ''
+        );
 
-            if (position === 'top') {
-                newContent = noteEntry + '\n\n' + content;
-            } else {
-                // bottom is default
-                newContent = content + (content.endsWith('\n') ? '' : '\n') + '\n' + noteEntry;
-            }
+        view.editor.replaceSelection(`${noteEntry}\n`);
+        return true;
+    }
 
-            await this.app.vault.modify(file, newContent);
-        }
+    private async insertNoteIntoDailyNote(episodeNote: TFile | null): Promise<void> {
+        const now = window.moment();
+        const dailyNotes = this.plugin.getDailyNoteService();
+        const noteEntry = this.formatNoteEntry(
+            now.format('HH:mm:ss'),
+            this.formatTime(this.currentPosition),
+            episodeNote,
+            dailyNotes.getDailyNotePath(now.toDate())
+        );
+
+        await dailyNotes.insertEntry(noteEntry, now.toDate());
     }
 
-    private formatNoteEntry(timestamp: string, playbackTimestamp: string): string {
+    /**
+     * Format the entry; the episode links to the timestamps of its note when there is one
+     */
+    private formatNoteEntry(
+        timestamp: string,
+        playbackTimestamp: string,
+        episodeNote: TFile | null,
+        sourcePath: string
+    ): string {
         const podcastName = this.podcast?.title || 'Unknown Podcast';
-        const episodeName = this.episode.title;
+        const episodeName = episodeNote
+            ? this.app.fileManager.generateMarkdownLink(episodeNote, sourcePath, '#Timestamps', this.episode.title)
+            : this.episode.title;
 
         return `## 🎧 Podcast Note - ${timestamp}
 
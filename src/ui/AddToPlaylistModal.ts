@@ -39,7 +39,8 @@ export class AddToPlaylistModal extends Modal {
 
 		// Load existing playlists
 		const playlistManager = this.plugin.getPlaylistManager();
-		const playlists = await playlistManager.getAllPlaylists();
+		// Smart playlists are filled by their rules
+		const playlists = (await playlistManager.getAllPlaylists()).filter(playlist => !playlist.smartRule);
 
 		// Playlist selection
 		let selectedPlaylistId: string | null = null;
@@ -0,0 +1,273 @@
+/**
+ * EpisodeBlockPlayer - Inline mini-player rendered for ```podcast``` blocks
+ *
+ * Controls the shared PlayerController, so playing from a note behaves
+ * exactly like playing from the player view.
+ */
+
+import { MarkdownRenderChild, Notice, setIcon, Events } from 'obsidian';
+import type PodcastPlayerPlugin from '../../main';
+import { PodcastBlockResolver, type PodcastBlockOptions, type ResolvedPodcastBlock } from '../markdown';
+import { formatTime } from '../utils/timeUtils';
+import { getErrorMessage } from '../utils/errorUtils';
+import { logger } from '../utils/Logger';
+
+// Type-safe event registration helper
+type PodcastEvents = Events & {
+	on(name: 'podcast:player-state-updated', callback: () => void): ReturnType<Events['on']>;
+	on(name: 'podcast:time-updated', callback: (position: number) => void): ReturnType<Events['on']>;
+};
+
+/**
+ * EpisodeBlockPlayer - Renders one ```podcast``` block
+ */
+export class EpisodeBlockPlayer extends MarkdownRenderChild {
+	private plugin: PodcastPlayerPlugin;
+	private source: string;
+	private options: PodcastBlockOptions = {};
+	private resolved: ResolvedPodcastBlock | null = null;
+	private lastPosition: number = 0;
+	/** Whether playback was started from this block and should stop at `end` */
+	private clipActive: boolean = false;
+
+	private playButtonEl: HTMLElement | null = null;
+	private progressFillEl: HTMLElement | null = null;
+	private timeEl: HTMLElement | null = null;
+
+	constructor(containerEl: HTMLElement, plugin: PodcastPlayerPlugin, source: string) {
+		super(containerEl);
+		this.plugin = plugin;
+		this.source = source;
+	}
+
+	onload(): void {
+		const { options, errors } = PodcastBlockResolver.parseSource(this.source);
+		if (errors.length > 0) {
+			this.renderErrors(errors);
+			return;
+		}
+
+		this.options = options;
+
+		this.registerEvent(
+			(this.plugin.app.workspace as unknown as PodcastEvents).on('podcast:time-updated', (position: number) => {
+				this.onTimeUpdate(position);
+			})
+		);
+
+		this.registerEvent(
+			(this.plugin.app.workspace as unknown as PodcastEvents).on('podcast:player-state-updated', () => {
+				this.updateDisplay();
+			})
+		);
+
+		void this.loadBlock();
+	}
+
+	/**
+	 * Resolve the block and render the player
+	 */
+	private async loadBlock(): Promise<void> {
+		this.containerEl.empty();
+		this.containerEl.createDiv({ cls: 'podcast-block podcast-block-loading', text: 'Loading episode…' });
+
+		try {
+			this.resolved = await this.plugin.getPodcastBlockResolver().resolve(this.options);
+			this.lastPosition = this.resolved.progress?.position ?? this.options.start ?? 0;
+			this.render(this.resolved);
+			this.updateDisplay();
+		} catch (error) {
+			logger.error('Failed to resolve podcast block', error);
+			this.renderErrors([getErrorMessage(error)]);
+		}
+	}
+
+	/**
+	 * Render problems with the block in place of the player
+	 */
+	private renderErrors(errors: string[]): void {
+		this.containerEl.empty();
+		const errorEl = this.containerEl.createDiv({ cls: 'podcast-block podcast-block-error' });
+		errorEl.createDiv({ cls: 'podcast-block-error-title', text: 'Podcast block error' });
+		const listEl = errorEl.createEl('ul');
+		for (const error of errors) {
+			listEl.createEl('li', { text: error });
+		}
+	}
+
+	/**
+	 * Render the mini-player
+	 */
+	private render({ episode, podcast }: ResolvedPodcastBlock): void {
+		this.containerEl.empty();
+		const blockEl = this.containerEl.createDiv({ cls: 'podcast-block' });
+
+		const imageUrl = episode.imageUrl || podcast?.imageUrl;
+		if (imageUrl) {
+			blockEl.createEl('img', {
+				cls: 'podcast-block-artwork',
+				attr: { src: imageUrl, alt: podcast?.title || episode.title }
+			});
+		}
+
+		const bodyEl = blockEl.createDiv({ cls: 'podcast-block-body' });
+		bodyEl.createDiv({ cls: 'podcast-block-title', text: episode.title });
+
+		const metaParts = [podcast?.title].filter(Boolean) as string[];
+		if (this.options.start !== undefined || this.options.end !== undefined) {
+			const clipStart = formatTime(this.options.start ?? 0);
+			const clipEnd = this.options.end !== undefined ? formatTime(this.options.end) : 'end';
+			metaParts.push(`Clip ${clipStart} – ${clipEnd}`);
+		}
+		if (metaParts.length > 0) {
+			bodyEl.createDiv({ cls: 'podcast-block-meta', text: metaParts.join(' · ') });
+		}
+
+		const controlsEl = bodyEl.createDiv({ cls: 'podcast-block-controls' });
+
+		this.playButtonEl = controlsEl.createEl('button', {
+			cls: 'podcast-block-play clickable-icon',
+			attr: { 'aria-label': 'Play/pause' }
+		});
+		setIcon(this.playButtonEl, 'play');
+		this.playButtonEl.addEventListener('click', () => {
+			void this.togglePlayback();
+		});
+
+		const progressBarEl = controlsEl.createDiv({ cls: 'podcast-block-progress' });
+		this.progressFillEl = progressBarEl.createDiv({ cls: 'podcast-block-progress-fill' });
+		progressBarEl.addEventListener('click', (e: MouseEvent) => {
+			const rect = progressBarEl.getBoundingClientRect();
+			const fraction = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+			const { start, end } = this.getRange();
+			void this.seekTo(start + fraction * (end - start));
+		});
+
+		this.timeEl = controlsEl.createSpan({ cls: 'podcast-block-time' });
+	}
+
+	/**
+	 * Whether this block's episode is the one loaded in the player
+	 */
+	private isCurrent(): boolean {
+		const current = this.plugin.playerController.getCurrentEpisode();
+		return !!this.resolved && current?.id === this.resolved.episode.id;
+	}
+
+	/**
+	 * Range covered by the progress bar: the clip, or the whole episode
+	 */
+	private getRange(): { start: number; end: number } {
+		const duration = this.isCurrent()
+			? this.plugin.playerController.getDuration() || this.resolved?.episode.duration || 0
+			: this.resolved?.episode.duration || this.resolved?.progress?.duration || 0;
+		const start = this.options.start ?? 0;
+		const end = this.options.end ?? Math.max(duration, start);
+		return { start, end };
+	}
+
+	/**
+	 * Load this block's episode into the player at a position
+	 */
+	private async loadEpisodeAt(position: number | undefined): Promise<void> {
+		if (!this.resolved) return;
+
+		const playerController = this.plugin.playerController;
+		// Resume from saved progress unless the block asks for a specific position
+		await playerController.loadEpisode(this.resolved.episode, false, position === undefined);
+		if (position !== undefined) {
+			playerController.seek(position);
+		}
+	}
+
+	/**
+	 * Play or pause this block's episode
+	 */
+	private async togglePlayback(): Promise<void> {
+		if (!this.resolved) return;
+
+		const playerController = this.plugin.playerController;
+
+		try {
+			if (!this.isCurrent()) {
+				await this.loadEpisodeAt(this.options.start);
+				this.clipActive = this.options.end !== undefined;
+				await playerController.play();
+				return;
+			}
+
+			if (!playerController.isPlaying() && this.options.end !== undefined) {
+				// Restart the clip when resuming past its end
+				const position = playerController.getCurrentPosition();
+				if (position >= this.options.end || position < (this.options.start ?? 0)) {
+					playerController.seek(this.options.start ?? 0);
+				}
+				this.clipActive = true;
+			}
+
+			await playerController.togglePlayPause();
+		} catch (error) {
+			logger.error('Failed to play podcast block', error);
+			new Notice(`Failed to play episode: ${getErrorMessage(error)}`);
+		}
+	}
+
+	/**
+	 * Seek within this block's episode, loading it first if needed
+	 */
+	private async seekTo(position: number): Promise<void> {
+		if (!this.resolved) return;
+
+		if (this.isCurrent()) {
+			this.plugin.playerController.seek(position);
+		} else {
+			await this.loadEpisodeAt(position);
+		}
+
+		this.lastPosition = position;
+		this.updateDisplay();
+	}
+
+	/**
+	 * Follow playback and stop at the end of the clip
+	 */
+	private onTimeUpdate(position: number): void {
+		if (!this.isCurrent()) {
+			this.clipActive = false;
+			return;
+		}
+
+		this.lastPosition = position;
+
+		if (this.clipActive && this.options.end !== undefined && position >= this.options.end) {
+			this.clipActive = false;
+			this.plugin.playerController.pause();
+		}
+
+		this.updateDisplay();
+	}
+
+	/**
+	 * Update the play button, progress bar and time display
+	 */
+	private updateDisplay(): void {
+		if (!this.resolved || !this.playButtonEl || !this.progressFillEl || !this.timeEl) {
+			return;
+		}
+
+		const isCurrent = this.isCurrent();
+		const isPlaying = isCurrent && this.plugin.playerController.isPlaying();
+		setIcon(this.playButtonEl, isPlaying ? 'pause' : 'play');
+		this.containerEl.toggleClass('is-playing', isPlaying);
+
+		const position = isCurrent ? this.plugin.playerController.getCurrentPosition() : this.lastPosition;
+		const { start, end } = this.getRange();
+		const length = end - start;
+		const percentage = length > 0
+			? Math.min(100, Math.max(0, ((position - start) / length) * 100))
+			: 0;
+
+		this.progressFillEl.setCssProps({ 'width': `${percentage}%` });
+		this.timeEl.textContent = `${formatTime(Math.max(0, position - start))} / ${formatTime(length)}`;
+	}
+}
@@ -8,11 +8,12 @@
  * - Action buttons (play, add to queue/playlist)
  */
 
-import { App, Modal, Notice, setIcon } from 'obsidian';
+import { App, Component, MarkdownRenderer, Modal, Notice, setIcon } from 'obsidian';
 import type PodcastPlayerPlugin from '../../main';
 import { Episode, Podcast, PlayProgress } from '../model';
 import { AddToQueueModal } from './AddToQueueModal';
 import { AddToPlaylistModal } from './AddToPlaylistModal';
+import { ShowNotesConverter } from '../markdown';
 import { logger } from '../utils/Logger';
 
 /**
@@ -23,6 +24,7 @@ export class EpisodeDetailModal extends Modal {
 	episode: Episode;
 	podcast: Podcast | null = null;
 	progress: PlayProgress | undefined;
+	private renderComponent = new Component();
 
 	constructor(app: App, plugin: PodcastPlayerPlugin, episode: Episode) {
 		super(app);
@@ -35,6 +37,7 @@ export class EpisodeDetailModal extends Modal {
 		contentEl.empty();
 		contentEl.addClass('episode-detail-modal');
 		this.modalEl.addClass('episode-detail-modal-container');
+		this.renderComponent.load();
 
 		// Load additional data and render
 		void this.loadDataAndRender();
@@ -329,33 +332,21 @@ export class EpisodeDetailModal extends Modal {
 	}
 
 	/**
-	 * Render description content safely without innerHTML
+	 * Render the show notes as markdown
 	 */
 	private renderDescription(container: HTMLElement, description: string): void {
-		// Strip HTML tags and render as plain text for safety
-		const plainText = description
-			.replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
-			.replace(/<iframe\b[^<]*(?:(?!<\/iframe>)<[^<]*)*<\/iframe>/gi, '')
-			.replace(/<[^>]*>/g, '')
-			.replace(/&nbsp;/g, ' ')
-			.replace(/&amp;/g, '&')
-			.replace(/&lt;/g, '<')
-			.replace(/&gt;/g, '>')
-			.replace(/&quot;/g, '"')
-			.replace(/&#39;/g, "'")
-			.trim();
-
-		// Split by paragraphs and create proper elements
-		const paragraphs = plainText.split(/\n\n+/);
-		for (const para of paragraphs) {
-			if (para.trim()) {
-				container.createEl('p', { text: para.trim() });
-			}
-		}
+		// Show notes are converted to sanitised markdown, with timestamps linked to this episode
+		const markdown = ShowNotesConverter.toMarkdown(description, { episodeId: this.episode.id });
+
+		MarkdownRenderer.render(this.app, markdown, container, '', this.renderComponent).catch((error) => {
+			logger.error('Failed to render episode description', error);
+			container.setText(markdown);
+		});
 	}
 
 	onClose() {
 		const { contentEl } = this;
+		this.renderComponent.unload();
 		contentEl.empty();
 	}
 }
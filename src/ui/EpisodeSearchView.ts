@@ -0,0 +1,285 @@
+/**
+ * EpisodeSearchView - Full-text episode search
+ *
+ * Searches the titles, show notes and transcripts of all subscribed
+ * episodes. Results can be played - from the matching transcript
+ * position when the match is in the transcript - or added to a queue.
+ */
+
+import { ItemView, WorkspaceLeaf, Notice, setIcon } from 'obsidian';
+import type PodcastPlayerPlugin from '../../main';
+import type { EpisodeSearchResult } from '../search';
+import { SearchQueryParser } from '../search';
+import { AddToQueueModal } from './AddToQueueModal';
+import { formatDate, formatDuration, formatTime } from '../utils/timeUtils';
+import { getErrorMessage } from '../utils/errorUtils';
+import { logger } from '../utils/Logger';
+
+export const EPISODE_SEARCH_VIEW_TYPE = 'podcast-episode-search-view';
+
+/** Delay after the last keystroke before searching */
+const SEARCH_DELAY_MS = 250;
+
+const FIELD_LABELS: Record<string, string> = {
+	title: 'Title',
+	description: 'Show notes',
+	transcript: 'Transcript',
+};
+
+/**
+ * EpisodeSearchView - Searches episodes across all subscriptions
+ */
+export class EpisodeSearchView extends ItemView {
+	plugin: PodcastPlayerPlugin;
+	private inputEl: HTMLInputElement;
+	private resultsEl: HTMLElement;
+	private query: string = '';
+	private searchTimer: number | null = null;
+	private searchToken: number = 0;
+
+	constructor(leaf: WorkspaceLeaf, plugin: PodcastPlayerPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Get the view type identifier
+	 */
+	getViewType(): string {
+		return EPISODE_SEARCH_VIEW_TYPE;
+	}
+
+	/**
+	 * Get the display text for the view
+	 */
+	getDisplayText(): string {
+		return 'Search episodes';
+	}
+
+	/**
+	 * Get the icon for the view
+	 */
+	getIcon(): string {
+		return 'search';
+	}
+
+	/**
+	 * Called when the view is opened
+	 */
+	async onOpen(): Promise<void> {
+		const container = this.containerEl.children[1];
+		container.empty();
+		container.addClass('podcast-episode-search-view');
+
+		const header = container.createDiv({ cls: 'episode-search-header' });
+		const inputRow = header.createDiv({ cls: 'episode-search-input-row' });
+
+		this.inputEl = inputRow.createEl('input', {
+			type: 'search',
+			cls: 'episode-search-input',
+			attr: { placeholder: 'Search titles, show notes and transcripts…' },
+		});
+		this.inputEl.value = this.query;
+		this.inputEl.addEventListener('input', () => this.scheduleSearch());
+		this.inputEl.addEventListener('keydown', (event: KeyboardEvent) => {
+			if (event.key === 'Enter') {
+				void this.runSearch();
+			}
+		});
+
+		const rebuildBtn = inputRow.createEl('button', {
+			cls: 'clickable-icon',
+			attr: { 'aria-label': 'Rebuild search index' },
+		});
+		setIcon(rebuildBtn, 'refresh-cw');
+		rebuildBtn.addEventListener('click', () => {
+			this.plugin.getEpisodeSearchService().invalidate();
+			void this.runSearch();
+		});
+
+		header.createDiv({
+			cls: 'episode-search-help',
+			text: 'Use "quotes" for phrases. Filter with podcast:name, before:2024-01-01, after:2024-01, played:yes or played:no.',
+		});
+
+		this.resultsEl = container.createDiv({ cls: 'episode-search-results' });
+
+		this.inputEl.focus();
+		await this.runSearch();
+	}
+
+	/**
+	 * Called when the view is closed
+	 */
+	async onClose(): Promise<void> {
+		this.cancelScheduledSearch();
+	}
+
+	private scheduleSearch(): void {
+		this.cancelScheduledSearch();
+		this.searchTimer = window.setTimeout(() => {
+			this.searchTimer = null;
+			void this.runSearch();
+		}, SEARCH_DELAY_MS);
+	}
+
+	private cancelScheduledSearch(): void {
+		if (this.searchTimer !== null) {
+			window.clearTimeout(this.searchTimer);
+			this.searchTimer = null;
+		}
+	}
+
+	/**
+	 * Run the current query and render the results
+	 */
+	private async runSearch(): Promise<void> {
+		if (!this.resultsEl) {
+			return;
+		}
+
+		this.cancelScheduledSearch();
+		this.query = this.inputEl?.value ?? this.query;
+
+		// Ignore results of a search that was superseded by a newer one
+		const token = ++this.searchToken;
+
+		if (!this.query.trim()) {
+			this.renderMessage('Type to search the episodes of all your podcasts.');
+			return;
+		}
+
+		try {
+			const results = await this.plugin.getEpisodeSearchService().search(this.query);
+			if (token !== this.searchToken) {
+				return;
+			}
+			this.renderResults(results);
+		} catch (error) {
+			if (token !== this.searchToken) {
+				return;
+			}
+			logger.error('Episode search failed', error);
+			this.renderMessage(`Search failed: ${getErrorMessage(error)}`);
+		}
+	}
+
+	private renderMessage(message: string): void {
+		this.resultsEl.empty();
+		this.resultsEl.createDiv({ cls: 'episode-search-empty-state', text: message });
+	}
+
+	private renderResults(results: EpisodeSearchResult[]): void {
+		if (results.length === 0) {
+			this.renderMessage('No episodes found.');
+			return;
+		}
+
+		this.resultsEl.empty();
+		this.resultsEl.createDiv({
+			cls: 'episode-search-count',
+			text: results.length === 1 ? '1 episode' : `${results.length} episodes`,
+		});
+
+		const terms = SearchQueryParser.parse(this.query).terms;
+		for (const result of results) {
+			this.renderResult(result, terms);
+		}
+	}
+
+	private renderResult(result: EpisodeSearchResult, terms: string[]): void {
+		const { episode, podcast } = result;
+		const item = this.resultsEl.createDiv({ cls: 'episode-search-result' });
+
+		const titleEl = item.createDiv({ cls: 'episode-search-result-title' });
+		this.appendHighlighted(titleEl, episode.title, terms);
+
+		const meta = item.createDiv({ cls: 'episode-search-result-meta' });
+		meta.createSpan({ text: podcast.title });
+		meta.createSpan({ text: formatDate(new Date(episode.publishDate)) });
+		if (episode.duration) {
+			meta.createSpan({ text: formatDuration(episode.duration) });
+		}
+		if (result.played) {
+			meta.createSpan({ cls: 'episode-search-played', text: 'Played' });
+		}
+		if (result.fields.length > 0) {
+			meta.createSpan({
+				cls: 'episode-search-fields',
+				text: `Matched: ${result.fields.map(field => FIELD_LABELS[field]).join(', ')}`,
+			});
+		}
+
+		if (result.snippet) {
+			const snippetEl = item.createDiv({ cls: 'episode-search-result-snippet' });
+			this.appendHighlighted(snippetEl, result.snippet, terms);
+		}
+
+		const actions = item.createDiv({ cls: 'episode-search-result-actions' });
+
+		const playBtn = actions.createEl('button', { text: 'Play' });
+		playBtn.addEventListener('click', () => void this.play(result));
+
+		if (result.transcriptTime !== undefined) {
+			const seekBtn = actions.createEl('button', {
+				text: `Play from ${formatTime(result.transcriptTime)}`,
+				attr: { 'aria-label': 'Play from the transcript match' },
+			});
+			seekBtn.addEventListener('click', () => void this.playFrom(result, result.transcriptTime!));
+		}
+
+		const queueBtn = actions.createEl('button', { text: 'Add to queue' });
+		queueBtn.addEventListener('click', () => {
+			new AddToQueueModal(this.app, this.plugin, [episode], () => {
+				new Notice('Episode added to queue');
+			}).open();
+		});
+	}
+
+	private async play(result: EpisodeSearchResult): Promise<void> {
+		try {
+			await this.plugin.playerController.loadEpisode(result.episode, true, true);
+			new Notice(`Now playing: ${result.episode.title}`);
+		} catch (error) {
+			logger.error('Failed to play episode', error);
+			new Notice('Failed to start playback');
+		}
+	}
+
+	private async playFrom(result: EpisodeSearchResult, seconds: number): Promise<void> {
+		try {
+			const handled = await this.plugin.getTimestampLinkHandler().seekTo({
+				episodeId: result.episode.id,
+				seconds,
+			});
+			if (!handled) {
+				new Notice('Episode not found');
+			}
+		} catch (error) {
+			logger.error('Failed to play episode from transcript match', error);
+			new Notice('Failed to start playback');
+		}
+	}
+
+	/**
+	 * Append text with the words starting with a search term highlighted
+	 */
+	private appendHighlighted(el: HTMLElement, text: string, terms: string[]): void {
+		if (terms.length === 0) {
+			el.appendText(text);
+			return;
+		}
+
+		const escaped = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+		const pattern = new RegExp(`(${escaped.join('|')})`, 'gi');
+		let lastIndex = 0;
+		let match: RegExpExecArray | null;
+
+		while ((match = pattern.exec(text)) !== null) {
+			el.appendText(text.substring(lastIndex, match.index));
+			el.createEl('mark', { text: match[0] });
+			lastIndex = match.index + match[0].length;
+		}
+		el.appendText(text.substring(lastIndex));
+	}
+}
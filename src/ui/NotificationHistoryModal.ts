@@ -0,0 +1,121 @@
+/**
+ * NotificationHistoryModal - Modal listing recent feed sync results
+ *
+ * Shows the notification history kept by the notification center:
+ * new episodes per show and feeds that failed to update.
+ */
+
+import { App, ButtonComponent, Modal, Notice } from 'obsidian';
+import type PodcastPlayerPlugin from '../../main';
+import { NotificationRecord } from '../model';
+import { NotificationCenter } from '../notification';
+import { formatDateTime } from '../utils/timeUtils';
+import { logger } from '../utils/Logger';
+
+/**
+ * Modal for viewing the notification history
+ */
+export class NotificationHistoryModal extends Modal {
+	plugin: PodcastPlayerPlugin;
+
+	constructor(app: App, plugin: PodcastPlayerPlugin) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('notification-history-modal');
+
+		void this.render();
+	}
+
+	/**
+	 * Render the history
+	 */
+	private async render(): Promise<void> {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: 'Notification history' });
+
+		let records: NotificationRecord[] = [];
+		try {
+			records = await this.plugin.getNotificationCenter().getHistory();
+		} catch (error) {
+			logger.error('Failed to load notification history', error);
+		}
+
+		if (records.length === 0) {
+			contentEl.createEl('p', {
+				text: 'No notifications yet. New episodes and feed errors found by feed updates are listed here.',
+				cls: 'notification-history-empty'
+			});
+		} else {
+			const listEl = contentEl.createDiv({ cls: 'notification-history-list' });
+			for (const record of records) {
+				this.renderRecord(listEl, record);
+			}
+		}
+
+		const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container podcast-modal-button-container' });
+
+		new ButtonComponent(buttonContainer)
+			.setButtonText('Clear history')
+			.setDisabled(records.length === 0)
+			.onClick(async () => {
+				try {
+					await this.plugin.getNotificationCenter().clearHistory();
+					await this.render();
+				} catch (error) {
+					logger.error('Failed to clear notification history', error);
+					new Notice('Failed to clear notification history');
+				}
+			});
+
+		new ButtonComponent(buttonContainer)
+			.setButtonText('Close')
+			.onClick(() => this.close());
+	}
+
+	/**
+	 * Render one sync result
+	 */
+	private renderRecord(containerEl: HTMLElement, record: NotificationRecord): void {
+		const recordEl = containerEl.createDiv({ cls: 'notification-history-record' });
+
+		const headerEl = recordEl.createDiv({ cls: 'notification-history-header' });
+		headerEl.createSpan({ text: NotificationCenter.formatMessage(record), cls: 'notification-history-summary' });
+		headerEl.createSpan({
+			text: `${formatDateTime(record.createdAt)}${record.background ? '' : ' (manual)'}`,
+			cls: 'notification-history-time'
+		});
+
+		if (record.newEpisodes.length > 0) {
+			const episodesEl = recordEl.createEl('ul', { cls: 'notification-history-episodes' });
+			for (const group of record.newEpisodes) {
+				const groupEl = episodesEl.createEl('li');
+				groupEl.createEl('strong', { text: group.podcastTitle });
+				const groupList = groupEl.createEl('ul');
+				for (const episode of group.episodes) {
+					groupList.createEl('li', { text: episode.title });
+				}
+			}
+		}
+
+		if (record.failures.length > 0) {
+			const failuresEl = recordEl.createEl('ul', { cls: 'notification-history-failures' });
+			for (const failure of record.failures) {
+				const failureEl = failuresEl.createEl('li');
+				failureEl.createEl('strong', { text: failure.podcastTitle });
+				failureEl.appendText(`: ${failure.error}`);
+			}
+		}
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
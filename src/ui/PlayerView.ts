@@ -5,12 +5,13 @@
  * Displays current episode, playback controls, and progress.
  */
 
-import { ItemView, WorkspaceLeaf, setIcon, Notice, Events } from 'obsidian';
+import { ItemView, WorkspaceLeaf, setIcon, Notice, Events, Menu } from 'obsidian';
 import type PodcastPlayerPlugin from '../../main';
-import { Queue, Playlist } from '../model';
+import { Queue, Playlist, Chapter } from '../model';
 import type { EpisodeWithProgress } from '../podcast';
 import { EpisodeDetailModal } from './EpisodeDetailModal';
 import { AddNoteModal } from './AddNoteModal';
+import { SleepTimerModal } from './SleepTimerModal';
 import { logger } from '../utils/Logger';
 
 export const PLAYER_VIEW_TYPE = 'podcast-player-view';
@@ -22,6 +23,7 @@ type PodcastEvents = Events & {
 	on(name: 'podcast:episode-changed', callback: () => void): ReturnType<Events['on']>;
 	on(name: 'podcast:playlist-updated', callback: (playlistId: string) => void): ReturnType<Events['on']>;
 	on(name: 'podcast:queue-changed', callback: () => void): ReturnType<Events['on']>;
+	on(name: 'podcast:chapters-updated', callback: () => void): ReturnType<Events['on']>;
 };
 
 /**
@@ -34,6 +36,8 @@ export class PlayerView extends ItemView {
 	private currentQueueId: string | null = null;
 	private isDraggingProgress: boolean = false;
 	private lastPlaylistStateKey: string = 'queue';
+	private lastChaptersKey: string = '';
+	private lastChapterIndex: number = -1;
 
 	constructor(leaf: WorkspaceLeaf, plugin: PodcastPlayerPlugin) {
 		super(leaf);
@@ -76,6 +80,10 @@ export class PlayerView extends ItemView {
 		this.registerEvent(
 			(this.app.workspace as unknown as PodcastEvents).on('podcast:episode-changed', () => this.updatePlayState())
 		);
+
+		this.registerEvent(
+			(this.app.workspace as unknown as PodcastEvents).on('podcast:chapters-updated', () => this.updateChapters())
+		);
 	}
 
 	/**
@@ -142,6 +150,9 @@ export class PlayerView extends ItemView {
 		// Progress section
 		this.renderProgressSection(playerContainer);
 
+		// Chapters section
+		this.renderChapterSection(playerContainer);
+
 		// Advanced controls section
 		this.renderAdvancedControls(playerContainer);
 
@@ -174,6 +185,14 @@ export class PlayerView extends ItemView {
 		setIcon(infoBtn, 'info');
 		infoBtn.addEventListener('click', () => this.handleShowEpisodeDetails());
 
+		// Transcript button (shown when the episode publishes a transcript)
+		const transcriptBtn = titleContainer.createEl('button', {
+			cls: 'player-transcript-button clickable-icon podcast-hidden',
+			attr: { 'aria-label': 'Open transcript' }
+		});
+		setIcon(transcriptBtn, 'captions');
+		transcriptBtn.addEventListener('click', () => void this.plugin.activateTranscriptView());
+
 		infoSection.createEl('p', {
 			text: 'Select a podcast to start',
 			cls: 'podcast-name'
@@ -269,6 +288,9 @@ export class PlayerView extends ItemView {
 		const progressBar = progressBarContainer.createDiv({ cls: 'progress-bar' });
 		progressBar.createDiv({ cls: 'progress-fill podcast-progress-width-0' });
 
+		// Chapter markers
+		progressBar.createDiv({ cls: 'progress-chapter-markers' });
+
 		// Thumb element for precise positioning
 		progressBar.createDiv({ cls: 'progress-bar-thumb podcast-progress-left-0' });
 
@@ -372,7 +394,11 @@ export class PlayerView extends ItemView {
 			const percentage = Math.max(0, Math.min(1, hoverX / rect.width));
 			const duration = state.currentEpisode.duration;
 
-			tooltip.textContent = this.formatTime(duration * percentage);
+			const hoverTime = duration * percentage;
+			const chapter = this.getChapterAt(hoverTime);
+			tooltip.textContent = chapter
+				? `${this.formatTime(hoverTime)} · ${chapter.title}`
+				: this.formatTime(hoverTime);
 			tooltip.setCssProps({ 'left': `${percentage * 100}%` });
 		});
 
@@ -380,6 +406,105 @@ export class PlayerView extends ItemView {
 		progressSection.createSpan({ text: '0:00', cls: 'total-time' });
 	}
 
+	/**
+	 * Render chapters section (hidden until the episode has chapters)
+	 */
+	private renderChapterSection(container: HTMLElement): void {
+		const chapterSection = container.createDiv({ cls: 'chapters-section podcast-hidden' });
+		chapterSection.createEl('h3', { text: 'Chapters', cls: 'chapters-title' });
+		chapterSection.createDiv({ cls: 'chapter-list' });
+
+		this.lastChaptersKey = '';
+		this.updateChapters();
+	}
+
+	/**
+	 * Re-render chapter markers and list when the chapters or duration change,
+	 * and highlight the chapter currently playing
+	 */
+	private updateChapters(): void {
+		const playerController = this.plugin.playerController;
+		const state = playerController.getState();
+		const chapters = playerController.getChapters();
+		const duration = state.currentEpisode?.duration || 0;
+
+		const chaptersKey = `${state.currentEpisode?.id}:${chapters.length}:${chapters[0]?.title}:${duration}`;
+		if (chaptersKey !== this.lastChaptersKey) {
+			this.lastChaptersKey = chaptersKey;
+			this.lastChapterIndex = -1;
+			this.renderChapters(chapters, duration);
+		}
+
+		const currentIndex = playerController.getCurrentChapterIndex();
+		if (currentIndex === this.lastChapterIndex) {
+			return;
+		}
+		this.lastChapterIndex = currentIndex;
+
+		this.playerContentEl.querySelectorAll('.chapter-item').forEach((item, index) => {
+			item.toggleClass('current', index === currentIndex);
+		});
+	}
+
+	/**
+	 * Render chapter markers on the progress bar and the chapter list
+	 */
+	private renderChapters(chapters: Chapter[], duration: number): void {
+		const markersEl = this.playerContentEl.querySelector('.progress-chapter-markers') as HTMLElement;
+		const sectionEl = this.playerContentEl.querySelector('.chapters-section') as HTMLElement;
+		const listEl = this.playerContentEl.querySelector('.chapter-list') as HTMLElement;
+
+		if (markersEl) {
+			markersEl.empty();
+			if (duration > 0) {
+				// The first chapter usually starts at 0, where a marker adds nothing
+				for (const chapter of chapters.filter(c => c.startTime > 0 && c.startTime < duration)) {
+					const marker = markersEl.createDiv({ cls: 'progress-chapter-marker' });
+					marker.setCssProps({ 'left': `${(chapter.startTime / duration) * 100}%` });
+				}
+			}
+		}
+
+		if (!sectionEl || !listEl) {
+			return;
+		}
+
+		listEl.empty();
+		sectionEl.toggleClass('podcast-hidden', chapters.length === 0);
+
+		for (const chapter of chapters) {
+			const item = listEl.createDiv({ cls: 'chapter-item' });
+			item.createSpan({ text: this.formatTime(chapter.startTime), cls: 'chapter-time' });
+			item.createSpan({ text: chapter.title, cls: 'chapter-item-title' });
+
+			if (chapter.url) {
+				const linkBtn = item.createSpan({ cls: 'chapter-link', attr: { 'aria-label': 'Open chapter link' } });
+				setIcon(linkBtn, 'external-link');
+				linkBtn.addEventListener('click', (e) => {
+					e.stopPropagation();
+					window.open(chapter.url, '_blank');
+				});
+			}
+
+			item.addEventListener('click', () => {
+				this.plugin.playerController.seek(chapter.startTime);
+			});
+		}
+	}
+
+	/**
+	 * Get the chapter containing a position of the current episode
+	 */
+	private getChapterAt(position: number): Chapter | null {
+		const chapters = this.plugin.playerController.getChapters();
+		let found: Chapter | null = null;
+		for (const chapter of chapters) {
+			if (chapter.startTime > position) break;
+			found = chapter;
+		}
+		return found;
+	}
+
 	/**
 	 * Render advanced controls (volume, speed)
 	 */
@@ -436,6 +561,77 @@ export class PlayerView extends ItemView {
 			speedLabel.textContent = `${speed.toFixed(1)}x`;
 			void this.handleSpeedChange(speed);
 		});
+
+		// Sleep timer
+		const sleepControl = advancedSection.createDiv({ cls: 'control-group sleep-timer-control' });
+		const sleepBtn = sleepControl.createEl('button', {
+			cls: 'sleep-timer-button clickable-icon',
+			attr: { 'aria-label': 'Sleep timer' }
+		});
+		setIcon(sleepBtn, 'moon');
+		sleepBtn.addEventListener('click', (e) => this.showSleepTimerMenu(e));
+		sleepControl.createSpan({ cls: 'control-value-label sleep-timer-value', text: 'Off' });
+		this.updateSleepTimer();
+	}
+
+	/**
+	 * Show the sleep timer choices
+	 */
+	private showSleepTimerMenu(event: MouseEvent): void {
+		const player = this.plugin.playerController;
+		const menu = new Menu();
+
+		if (player.getSleepTimer()) {
+			menu.addItem((item) =>
+				item
+					.setTitle(`Add ${SleepTimerModal.EXTEND_MINUTES} minutes`)
+					.setIcon('plus')
+					.onClick(() => {
+						player.extendSleepTimer(SleepTimerModal.EXTEND_MINUTES);
+						this.updateSleepTimer();
+					})
+			);
+			menu.addItem((item) =>
+				item
+					.setTitle('Cancel sleep timer')
+					.setIcon('x')
+					.onClick(() => {
+						player.cancelSleepTimer();
+						this.updateSleepTimer();
+					})
+			);
+			menu.addSeparator();
+		}
+
+		if (!player.getCurrentEpisode()) {
+			menu.addItem((item) => item.setTitle('Play an episode to set a sleep timer').setIsLabel(true));
+		} else {
+			for (const option of SleepTimerModal.getOptions(player)) {
+				menu.addItem((item) =>
+					item
+						.setTitle(option.label)
+						.onClick(() => {
+							SleepTimerModal.start(player, option);
+							this.updateSleepTimer();
+						})
+				);
+			}
+		}
+
+		menu.showAtMouseEvent(event);
+	}
+
+	/**
+	 * Update the sleep timer countdown
+	 */
+	private updateSleepTimer(): void {
+		const sleepControl = this.playerContentEl.querySelector('.sleep-timer-control') as HTMLElement;
+		const sleepLabel = this.playerContentEl.querySelector('.sleep-timer-value') as HTMLElement;
+		if (!sleepControl || !sleepLabel) return;
+
+		const timer = this.plugin.playerController.getSleepTimer();
+		sleepControl.toggleClass('sleep-timer-active', !!timer);
+		sleepLabel.textContent = timer ? SleepTimerModal.describe(timer) : 'Off';
 	}
 
 	/**
@@ -742,6 +938,11 @@ export class PlayerView extends ItemView {
 			const durationEl = this.playerContentEl.querySelector('.episode-duration') as HTMLElement;
 			const thumbnailEl = this.playerContentEl.querySelector('.player-podcast-thumbnail') as HTMLImageElement;
 			const infoBtnEl = this.playerContentEl.querySelector('.player-info-button') as HTMLElement;
+			const transcriptBtnEl = this.playerContentEl.querySelector('.player-transcript-button') as HTMLElement;
+			if (transcriptBtnEl) {
+				const hasTranscript = !!state.currentEpisode?.transcripts?.length;
+				transcriptBtnEl.toggleClass('podcast-hidden', !hasTranscript);
+			}
 
 			if (state.currentEpisode) {
 				if (titleEl) titleEl.textContent = state.currentEpisode.title;
@@ -818,6 +1019,9 @@ export class PlayerView extends ItemView {
 				}
 			}
 
+			// Update chapter markers and current chapter
+			this.updateChapters();
+
 			// Update volume slider
 			const volumeSlider = this.playerContentEl.querySelector('.volume-slider') as HTMLInputElement;
 			if (volumeSlider) {
@@ -837,6 +1041,9 @@ export class PlayerView extends ItemView {
 				speedLabel.textContent = `${state.playbackSpeed.toFixed(1)}x`;
 			}
 
+			// Update sleep timer countdown
+			this.updateSleepTimer();
+
 			// Check for queue/playlist updates
 			const isPlayingFromPlaylist = playerController.isPlayingFromPlaylist();
 			const currentPlaylist = playerController.getCurrentPlaylist();
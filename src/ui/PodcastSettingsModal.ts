@@ -6,12 +6,14 @@
  * - Playback speed (0.5 - 3.0)
  * - Skip intro seconds
  * - Skip outro seconds
+ * - Episode note template
  */
 
 import { App, Modal, Setting, Notice } from 'obsidian';
 import type PodcastPlayerPlugin from '../../main';
 import { Podcast, PodcastSettings, AutoAddRule } from '../model';
 import { logger } from '../utils/Logger';
+import { TemplateFileSuggest } from './TemplateFileSuggest';
 
 /**
  * Modal for configuring individual podcast settings
@@ -26,6 +28,10 @@ export class PodcastSettingsModal extends Modal {
 	private playbackSpeed: number;
 	private skipIntroSeconds: number;
 	private skipOutroSeconds: number;
+	private voiceBoost: boolean;
+	private skipSilence: boolean;
+	private noteTemplatePath: string;
+	private notifyNewEpisodes: boolean;
 
 	// Auto-add settings
 	private autoAddEnabled: boolean;
@@ -50,6 +56,10 @@ export class PodcastSettingsModal extends Modal {
 		this.playbackSpeed = currentSettings.playbackSpeed;
 		this.skipIntroSeconds = currentSettings.skipIntroSeconds;
 		this.skipOutroSeconds = currentSettings.skipOutroSeconds || 0;
+		this.voiceBoost = currentSettings.voiceBoost || false;
+		this.skipSilence = currentSettings.skipSilence || false;
+		this.noteTemplatePath = podcast.settings?.noteTemplatePath || '';
+		this.notifyNewEpisodes = podcast.settings?.notifyNewEpisodes !== false;
 
 		// Initialize auto-add settings
 		const rule = podcast.autoAddRule;
@@ -127,6 +137,50 @@ export class PodcastSettingsModal extends Modal {
 					}
 				}));
 
+		// Voice boost
+		new Setting(contentEl)
+			.setName('Voice boost')
+			.setDesc('Compress and level the audio so quiet and loud voices sound alike')
+			.addToggle(toggle => toggle
+				.setValue(this.voiceBoost)
+				.onChange((value) => {
+					this.voiceBoost = value;
+				}));
+
+		// Skip silence
+		new Setting(contentEl)
+			.setName('Skip silence')
+			.setDesc('Fast-forward through silent stretches in episodes')
+			.addToggle(toggle => toggle
+				.setValue(this.skipSilence)
+				.onChange((value) => {
+					this.skipSilence = value;
+				}));
+
+		// Note template
+		new Setting(contentEl)
+			.setName('Note template')
+			.setDesc('Template file for episode notes of this podcast (leave empty to use the global template)')
+			.addText(text => {
+				new TemplateFileSuggest(this.app, text.inputEl);
+				text
+					.setPlaceholder(this.plugin.settings.noteTemplatePath || 'Templates/Podcast episode.md')
+					.setValue(this.noteTemplatePath)
+					.onChange((value) => {
+						this.noteTemplatePath = value.trim();
+					});
+			});
+
+		// New episode notifications
+		new Setting(contentEl)
+			.setName('New episode notifications')
+			.setDesc('Include new episodes of this podcast in notifications after background feed updates')
+			.addToggle(toggle => toggle
+				.setValue(this.notifyNewEpisodes)
+				.onChange((value) => {
+					this.notifyNewEpisodes = value;
+				}));
+
 		// Auto-add Section
 		contentEl.createEl('h3', { text: 'Auto-add new episodes' });
 
@@ -144,7 +198,7 @@ export class PodcastSettingsModal extends Modal {
 			const playlistManager = this.plugin.getPlaylistManager();
 			const queueManager = this.plugin.getQueueManager();
 
-			const playlists = await playlistManager.getAllPlaylists();
+			const playlists = (await playlistManager.getAllPlaylists()).filter(p => !p.smartRule);
 			const queues = await queueManager.getAllQueues();
 
 			// Target selection
@@ -223,6 +277,10 @@ export class PodcastSettingsModal extends Modal {
 		this.playbackSpeed = defaults.playbackSpeed;
 		this.skipIntroSeconds = defaults.skipIntroSeconds;
 		this.skipOutroSeconds = defaults.skipOutroSeconds || 0;
+		this.voiceBoost = defaults.voiceBoost || false;
+		this.skipSilence = defaults.skipSilence || false;
+		this.noteTemplatePath = '';
+		this.notifyNewEpisodes = true;
 
 		// Re-render the modal
 		this.close();
@@ -260,7 +318,11 @@ export class PodcastSettingsModal extends Modal {
 				volume: this.volume,
 				playbackSpeed: this.playbackSpeed,
 				skipIntroSeconds: this.skipIntroSeconds,
-				skipOutroSeconds: this.skipOutroSeconds
+				skipOutroSeconds: this.skipOutroSeconds,
+				voiceBoost: this.voiceBoost,
+				skipSilence: this.skipSilence,
+				noteTemplatePath: this.noteTemplatePath || undefined,
+				notifyNewEpisodes: this.notifyNewEpisodes ? undefined : false
 			};
 
 			// Create auto-add rule
@@ -4,24 +4,41 @@
  * Provides a sidebar interface for:
  * - Browsing subscribed podcasts
  * - Viewing episodes
+ * - Triaging newly synced episodes in the inbox
+ * - Browsing and exporting the listening history
  * - Quick playback controls
  */
 
 import { ItemView, WorkspaceLeaf, Menu, Notice, setIcon, Events } from 'obsidian';
 import type PodcastPlayerPlugin from '../../main';
-import { Podcast, Episode, Playlist, Queue } from '../model';
+import { Podcast, Episode, Playlist, Queue, FeedHealthStatus } from '../model';
 import { EpisodeStatistics } from '../podcast/EpisodeManager';
+import { InboxEntry } from '../inbox';
+import type { HistoryExportFormat, ListeningHistoryEntry } from '../stats';
 import { AddToQueueModal } from './AddToQueueModal';
 import { AddToPlaylistModal } from './AddToPlaylistModal';
+import { SmartPlaylistModal } from './SmartPlaylistModal';
 import { RenameModal } from './RenameModal';
 import { SubscribePodcastModal } from './SubscribePodcastModal';
 import { PodcastSettingsModal } from './PodcastSettingsModal';
 import { EpisodeDetailModal } from './EpisodeDetailModal';
 import { TextInputModal } from './TextInputModal';
+import { getErrorMessage } from '../utils/errorUtils';
+import { formatTime, isToday } from '../utils/timeUtils';
 import { logger } from '../utils/Logger';
 
 export const PODCAST_SIDEBAR_VIEW_TYPE = 'podcast-sidebar-view';
 
+/** Number of sessions shown in the history tab */
+const HISTORY_DISPLAY_LIMIT = 200;
+
+/** Feed health badges; healthy feeds get none */
+const FEED_HEALTH_BADGES: Record<Exclude<FeedHealthStatus, 'ok'>, { icon: string; label: string }> = {
+	moved: { icon: 'move-right', label: 'Moved' },
+	error: { icon: 'alert-triangle', label: 'Update failed' },
+	gone: { icon: 'x-circle', label: 'Feed gone' },
+};
+
 // Type-safe event registration helper
 type PodcastEvents = Events & {
 	on(name: 'podcast:queue-updated', callback: (queueId: string) => void): ReturnType<Events['on']>;
@@ -29,6 +46,7 @@ type PodcastEvents = Events & {
 	on(name: 'podcast:episode-changed', callback: () => void): ReturnType<Events['on']>;
 	on(name: 'podcast:playlist-updated', callback: (playlistId: string) => void): ReturnType<Events['on']>;
 	on(name: 'podcast:queue-changed', callback: () => void): ReturnType<Events['on']>;
+	on(name: 'podcast:inbox-updated', callback: () => void): ReturnType<Events['on']>;
 };
 
 /**
@@ -37,7 +55,7 @@ type PodcastEvents = Events & {
 export class PodcastSidebarView extends ItemView {
 	plugin: PodcastPlayerPlugin;
 	private sidebarContentEl: HTMLElement;
-	private viewMode: 'podcasts' | 'playlists' = 'podcasts';
+	private viewMode: 'podcasts' | 'playlists' | 'history' = 'podcasts';
 	private selectedPodcast: Podcast | null = null;
 	private selectedPlaylist: Playlist | null = null;
 	private selectedQueue: Queue | null = null;
@@ -49,7 +67,16 @@ export class PodcastSidebarView extends ItemView {
 	private episodeSortDirection: 'asc' | 'desc' = 'desc';
 	private playlistSortDirection: 'asc' | 'desc' = 'asc';
 	private podcastStats: Map<string, EpisodeStatistics> = new Map();
-	private feedsViewMode: 'feeds' | 'episodes' = 'feeds'; // Toggle between feeds list and all episodes
+	private feedsViewMode: 'feeds' | 'episodes' | 'inbox' = 'feeds'; // Feeds list, all episodes or inbox
+
+	// Inbox triage state
+	private inboxEntries: InboxEntry[] = [];
+	private inboxSelection: Set<string> = new Set();
+	private inboxFocusIndex = 0;
+	private inboxItemEls: HTMLElement[] = [];
+	private inboxToolbarEl: HTMLElement | null = null;
+	private inboxBadgeEl: HTMLElement | null = null;
+	private restoreInboxFocus = false;
 
 	// Drag and drop state
 	private dragStartIndex: number = -1;
@@ -86,6 +113,19 @@ export class PodcastSidebarView extends ItemView {
 		this.registerEvent(
 			(this.app.workspace as unknown as PodcastEvents).on('podcast:episode-changed', () => {
 				this.updateListIcons();
+				if (this.isHistoryVisible()) {
+					void this.render();
+				}
+			})
+		);
+
+		this.registerEvent(
+			(this.app.workspace as unknown as PodcastEvents).on('podcast:inbox-updated', () => {
+				if (this.isInboxVisible()) {
+					void this.render();
+				} else {
+					void this.updateInboxBadge();
+				}
 			})
 		);
 
@@ -165,9 +205,13 @@ export class PodcastSidebarView extends ItemView {
 			// Check feeds view mode
 			if (this.feedsViewMode === 'episodes') {
 				await this.renderAllEpisodes();
+			} else if (this.feedsViewMode === 'inbox') {
+				await this.renderInbox();
 			} else {
 				await this.renderPodcastList();
 			}
+		} else if (this.viewMode === 'history') {
+			await this.renderHistory();
 		} else {
 			await this.renderPlaylistList();
 		}
@@ -181,7 +225,9 @@ export class PodcastSidebarView extends ItemView {
 
 		const placeholder = this.selectedPodcast ? 'Search episodes...' :
 			this.selectedPlaylist ? 'Search playlist episodes...' :
-				this.viewMode === 'podcasts' ? 'Search podcasts...' : 'Search playlists...';
+				this.isInboxVisible() ? 'Search inbox...' :
+					this.isHistoryVisible() ? 'Search history...' :
+						this.viewMode === 'podcasts' ? 'Search podcasts...' : 'Search playlists...';
 
 		const searchInput = searchContainer.createEl('input', {
 			type: 'text',
@@ -231,6 +277,11 @@ export class PodcastSidebarView extends ItemView {
 			});
 		}
 
+		// The history is always newest first
+		if (this.isHistoryVisible()) {
+			return;
+		}
+
 		// Sort button (added to search container)
 		// Determine current context
 		let currentDirection: 'asc' | 'desc' = 'asc';
@@ -347,7 +398,9 @@ export class PodcastSidebarView extends ItemView {
 		} else if (this.selectedQueue) {
 			title = this.selectedQueue.name;
 		} else if (this.viewMode === 'podcasts') {
-			title = this.feedsViewMode === 'feeds' ? 'My feeds' : 'All episodes';
+			title = this.feedsViewMode === 'feeds' ? 'My feeds' : this.feedsViewMode === 'inbox' ? 'Inbox' : 'All episodes';
+		} else if (this.viewMode === 'history') {
+			title = 'History';
 		} else {
 			title = 'My lists';
 		}
@@ -370,6 +423,16 @@ export class PodcastSidebarView extends ItemView {
 					void this.render();
 				});
 
+				// Inbox button with the number of untriaged episodes
+				const inboxBtn = actions.createEl('button', {
+					cls: `sidebar-action-button sidebar-inbox-button clickable-icon${this.feedsViewMode === 'inbox' ? ' is-active' : ''}`,
+					attr: { 'aria-label': 'Inbox' }
+				});
+				setIcon(inboxBtn, 'inbox');
+				this.inboxBadgeEl = inboxBtn.createSpan({ cls: 'sidebar-inbox-badge podcast-hidden' });
+				inboxBtn.addEventListener('click', () => void this.showInbox());
+				void this.updateInboxBadge();
+
 				// Add podcast button
 				const addBtn = actions.createEl('button', {
 					cls: 'sidebar-action-button clickable-icon',
@@ -385,6 +448,32 @@ export class PodcastSidebarView extends ItemView {
 				});
 				setIcon(refreshBtn, 'refresh-cw');
 				refreshBtn.addEventListener('click', () => void this.handleRefreshFeeds());
+			} else if (this.viewMode === 'history') {
+				// Export button
+				const exportBtn = actions.createEl('button', {
+					cls: 'sidebar-action-button clickable-icon',
+					attr: { 'aria-label': 'Export history' }
+				});
+				setIcon(exportBtn, 'file-output');
+				exportBtn.addEventListener('click', (e) => {
+					const menu = new Menu();
+
+					menu.addItem((item) =>
+						item
+							.setTitle('Export as note')
+							.setIcon('file-text')
+							.onClick(() => void this.handleExportHistory('markdown'))
+					);
+
+					menu.addItem((item) =>
+						item
+							.setTitle('Export as CSV')
+							.setIcon('table')
+							.onClick(() => void this.handleExportHistory('csv'))
+					);
+
+					menu.showAtMouseEvent(e);
+				});
 			} else {
 				// Create new (queue or playlist) button
 				const addBtn = actions.createEl('button', {
@@ -409,6 +498,13 @@ export class PodcastSidebarView extends ItemView {
 							.onClick(() => void this.handleCreatePlaylist())
 					);
 
+					menu.addItem((item) =>
+						item
+							.setTitle('New smart playlist')
+							.setIcon('sparkles')
+							.onClick(() => this.handleEditSmartPlaylist(null))
+					);
+
 					menu.showAtMouseEvent(e);
 				});
 			}
@@ -428,6 +524,16 @@ export class PodcastSidebarView extends ItemView {
 			});
 			setIcon(renameBtn, 'pencil');
 			renameBtn.addEventListener('click', () => this.handleRenamePlaylist());
+
+			if (this.selectedPlaylist.smartRule) {
+				const rulesBtn = actions.createEl('button', {
+					cls: 'sidebar-action-button clickable-icon',
+					attr: { 'aria-label': 'Edit rules' }
+				});
+				setIcon(rulesBtn, 'sliders-horizontal');
+				const playlist = this.selectedPlaylist;
+				rulesBtn.addEventListener('click', () => this.handleEditSmartPlaylist(playlist));
+			}
 		} else if (this.selectedQueue) {
 			// Rename button (for selected queue)
 			const renameBtn = actions.createEl('button', {
@@ -468,6 +574,20 @@ export class PodcastSidebarView extends ItemView {
 			this.viewMode = 'playlists';
 			void this.render();
 		});
+
+		const historyBtn = modeToggle.createEl('button', {
+			text: 'History',
+			cls: this.isHistoryVisible() ? 'mode-active' : 'mode-inactive'
+		});
+		historyBtn.addEventListener('click', () => {
+			// Clear selection to go back to main list
+			this.selectedPodcast = null;
+			this.selectedPlaylist = null;
+			this.selectedQueue = null;
+
+			this.viewMode = 'history';
+			void this.render();
+		});
 	}
 
 	/**
@@ -631,8 +751,567 @@ export class PodcastSidebarView extends ItemView {
 		// Context menu
 		item.addEventListener('contextmenu', (e) => {
 			e.preventDefault();
-			this.showEpisodeContextMenu(episode, e);
+			void this.showEpisodeContextMenu(episode, e);
+		});
+	}
+
+	/**
+	 * Switch the sidebar to the inbox
+	 */
+	async showInbox(): Promise<void> {
+		this.selectedPodcast = null;
+		this.selectedPlaylist = null;
+		this.selectedQueue = null;
+		this.viewMode = 'podcasts';
+		this.feedsViewMode = 'inbox';
+		this.restoreInboxFocus = true;
+		await this.render();
+	}
+
+	/**
+	 * Whether the inbox is the current view
+	 */
+	private isInboxVisible(): boolean {
+		return this.viewMode === 'podcasts' && this.feedsViewMode === 'inbox' &&
+			!this.selectedPodcast && !this.selectedPlaylist && !this.selectedQueue;
+	}
+
+	/**
+	 * Show the number of inbox episodes on the inbox button
+	 */
+	private async updateInboxBadge(): Promise<void> {
+		const badge = this.inboxBadgeEl;
+		if (!badge) return;
+
+		try {
+			const count = await this.plugin.getInboxManager().getCount();
+			badge.setText(count > 99 ? '99+' : String(count));
+			badge.toggleClass('podcast-hidden', count === 0);
+		} catch (error) {
+			logger.error('Failed to load inbox count', error);
+		}
+	}
+
+	/**
+	 * Render the inbox of newly synced episodes
+	 * Supports selection, bulk actions and keyboard navigation.
+	 */
+	private async renderInbox(): Promise<void> {
+		let entries = await this.plugin.getInboxManager().getEntries();
+
+		if (this.searchQuery) {
+			const matching = new Set(this.filterEpisodes(entries.map(entry => entry.episode), this.searchQuery));
+			entries = entries.filter(entry => matching.has(entry.episode));
+		}
+
+		// Keep the selection and focus for episodes still in the inbox
+		const ids = new Set(entries.map(entry => entry.episode.id));
+		this.inboxSelection = new Set([...this.inboxSelection].filter(id => ids.has(id)));
+		this.inboxFocusIndex = Math.max(0, Math.min(this.inboxFocusIndex, entries.length - 1));
+		this.inboxEntries = entries;
+		this.inboxItemEls = [];
+
+		this.inboxToolbarEl = this.sidebarContentEl.createDiv({ cls: 'inbox-toolbar' });
+		const listContainer = this.sidebarContentEl.createDiv({
+			cls: 'episode-list-container inbox-list',
+			attr: { tabindex: '0', 'aria-label': 'Inbox episodes' }
+		});
+
+		if (entries.length === 0) {
+			this.inboxToolbarEl.addClass('podcast-hidden');
+			const empty = listContainer.createDiv({ cls: 'empty-state' });
+			if (this.searchQuery) {
+				empty.createEl('p', { text: 'No episodes found' });
+				empty.createEl('p', {
+					text: `No inbox episodes match "${this.searchQuery}"`,
+					cls: 'empty-state-hint'
+				});
+			} else {
+				empty.createEl('p', { text: 'Inbox is empty' });
+				empty.createEl('p', {
+					text: 'New episodes appear here after feeds are updated',
+					cls: 'empty-state-hint'
+				});
+			}
+			return;
+		}
+
+		for (const entry of entries) {
+			this.inboxItemEls.push(this.renderInboxItem(listContainer, entry));
+		}
+
+		listContainer.createDiv({
+			text: 'j/k move • x select • enter play • q queue • p playlist • m played • e dismiss',
+			cls: 'inbox-keyboard-hint'
+		});
+
+		listContainer.addEventListener('keydown', (e) => this.handleInboxKeydown(e));
+
+		this.updateInboxState();
+
+		if (this.restoreInboxFocus) {
+			this.restoreInboxFocus = false;
+			listContainer.focus();
+		}
+	}
+
+	/**
+	 * Render a single inbox episode
+	 */
+	private renderInboxItem(container: HTMLElement, entry: InboxEntry): HTMLElement {
+		const { episode, podcast } = entry;
+		const item = container.createDiv({ cls: 'episode-item all-episodes-item inbox-item' });
+
+		// Selection checkbox
+		const checkbox = item.createEl('input', {
+			type: 'checkbox',
+			cls: 'inbox-item-checkbox',
+			attr: { 'aria-label': 'Select episode' }
+		});
+		checkbox.addEventListener('click', (e) => {
+			e.stopPropagation();
+			this.inboxFocusIndex = this.inboxItemEls.indexOf(item);
+			this.toggleInboxSelection(episode.id);
+		});
+
+		// Episode info
+		const info = item.createDiv({ cls: 'episode-info' });
+		info.createEl('div', { text: episode.title, cls: 'episode-title' });
+
+		const meta = info.createDiv({ cls: 'episode-meta' });
+		meta.createSpan({ text: podcast.title, cls: 'episode-podcast-name' });
+		meta.createSpan({ text: ' • ', cls: 'episode-meta-separator' });
+		meta.createSpan({
+			text: this.formatDate(new Date(episode.publishDate)),
+			cls: 'episode-date'
+		});
+		if (episode.duration) {
+			meta.createSpan({ text: ' • ', cls: 'episode-meta-separator' });
+			meta.createSpan({
+				text: this.formatDuration(episode.duration),
+				cls: 'episode-duration'
+			});
+		}
+
+		// Action buttons container
+		const actions = item.createDiv({ cls: 'episode-actions' });
+
+		const playBtn = actions.createEl('button', {
+			cls: 'episode-action-button clickable-icon',
+			attr: { 'aria-label': 'Play episode' }
+		});
+		setIcon(playBtn, 'play');
+		playBtn.addEventListener('click', (e) => {
+			e.stopPropagation();
+			void this.handlePlayEpisode(episode);
+		});
+
+		const dismissBtn = actions.createEl('button', {
+			cls: 'episode-action-button clickable-icon',
+			attr: { 'aria-label': 'Dismiss from inbox' }
+		});
+		setIcon(dismissBtn, 'archive');
+		dismissBtn.addEventListener('click', (e) => {
+			e.stopPropagation();
+			void this.handleInboxDismiss([episode]);
+		});
+
+		// Click to show details
+		item.addEventListener('click', () => {
+			this.inboxFocusIndex = this.inboxItemEls.indexOf(item);
+			this.updateInboxState();
+			this.handleEpisodeClick(episode);
+		});
+
+		// Context menu
+		item.addEventListener('contextmenu', (e) => {
+			e.preventDefault();
+			void this.showEpisodeContextMenu(episode, e);
+		});
+
+		return item;
+	}
+
+	/**
+	 * Update selection and focus markers and the bulk action toolbar
+	 */
+	private updateInboxState(): void {
+		this.inboxEntries.forEach((entry, index) => {
+			const item = this.inboxItemEls[index];
+			if (!item) return;
+
+			const selected = this.inboxSelection.has(entry.episode.id);
+			item.toggleClass('is-selected', selected);
+			item.toggleClass('is-focused', index === this.inboxFocusIndex);
+			const checkbox = item.querySelector<HTMLInputElement>('.inbox-item-checkbox');
+			if (checkbox) checkbox.checked = selected;
+		});
+
+		this.inboxItemEls[this.inboxFocusIndex]?.scrollIntoView({ block: 'nearest' });
+		this.renderInboxToolbar();
+	}
+
+	/**
+	 * Render the bulk action toolbar for the current selection
+	 */
+	private renderInboxToolbar(): void {
+		const toolbar = this.inboxToolbarEl;
+		if (!toolbar) return;
+		toolbar.empty();
+
+		const total = this.inboxEntries.length;
+		const selectedCount = this.inboxSelection.size;
+
+		const selectAll = toolbar.createEl('input', {
+			type: 'checkbox',
+			cls: 'inbox-select-all',
+			attr: { 'aria-label': 'Select all' }
+		});
+		selectAll.checked = selectedCount > 0 && selectedCount === total;
+		selectAll.indeterminate = selectedCount > 0 && selectedCount < total;
+		selectAll.addEventListener('click', () => {
+			this.setInboxSelectAll(selectedCount !== total);
 		});
+
+		toolbar.createSpan({
+			text: selectedCount > 0 ? `${selectedCount} of ${total} selected` : `${total} new`,
+			cls: 'inbox-selection-count'
+		});
+
+		// Bulk actions apply to the selected episodes
+		const actions = toolbar.createDiv({ cls: 'inbox-bulk-actions' });
+		const addAction = (icon: string, label: string, handler: (episodes: Episode[]) => void) => {
+			const btn = actions.createEl('button', {
+				cls: 'clickable-icon',
+				attr: { 'aria-label': label }
+			});
+			setIcon(btn, icon);
+			btn.disabled = selectedCount === 0;
+			btn.addEventListener('click', () => handler(this.getSelectedInboxEpisodes()));
+		};
+
+		addAction('list-plus', 'Add to queue', (episodes) => this.handleInboxAddToQueue(episodes));
+		addAction('folder-plus', 'Add to playlist', (episodes) => this.handleInboxAddToPlaylist(episodes));
+		addAction('check-circle', 'Mark as played', (episodes) => void this.handleInboxMarkPlayed(episodes));
+		addAction('archive', 'Dismiss', (episodes) => void this.handleInboxDismiss(episodes));
+	}
+
+	/**
+	 * Handle keyboard navigation and shortcuts in the inbox list
+	 */
+	private handleInboxKeydown(e: KeyboardEvent): void {
+		const count = this.inboxEntries.length;
+		if (count === 0) return;
+
+		const focused = this.inboxEntries[this.inboxFocusIndex];
+		const targets = this.inboxSelection.size > 0
+			? this.getSelectedInboxEpisodes()
+			: focused ? [focused.episode] : [];
+		let handled = true;
+
+		switch (e.key) {
+			case 'ArrowDown':
+			case 'j':
+				this.inboxFocusIndex = Math.min(count - 1, this.inboxFocusIndex + 1);
+				this.updateInboxState();
+				break;
+			case 'ArrowUp':
+			case 'k':
+				this.inboxFocusIndex = Math.max(0, this.inboxFocusIndex - 1);
+				this.updateInboxState();
+				break;
+			case 'Home':
+				this.inboxFocusIndex = 0;
+				this.updateInboxState();
+				break;
+			case 'End':
+				this.inboxFocusIndex = count - 1;
+				this.updateInboxState();
+				break;
+			case ' ':
+			case 'x':
+				if (focused) this.toggleInboxSelection(focused.episode.id);
+				break;
+			case 'Enter':
+				if (focused) void this.handlePlayEpisode(focused.episode);
+				break;
+			case 'q':
+				this.handleInboxAddToQueue(targets);
+				break;
+			case 'p':
+				this.handleInboxAddToPlaylist(targets);
+				break;
+			case 'm':
+				void this.handleInboxMarkPlayed(targets);
+				break;
+			case 'e':
+			case 'Delete':
+			case 'Backspace':
+				void this.handleInboxDismiss(targets);
+				break;
+			case 'Escape':
+				this.setInboxSelectAll(false);
+				break;
+			case 'a':
+				if (e.ctrlKey || e.metaKey) {
+					this.setInboxSelectAll(true);
+				} else {
+					handled = false;
+				}
+				break;
+			default:
+				handled = false;
+		}
+
+		if (handled) {
+			e.preventDefault();
+			e.stopPropagation();
+		}
+	}
+
+	private toggleInboxSelection(episodeId: string): void {
+		if (this.inboxSelection.has(episodeId)) {
+			this.inboxSelection.delete(episodeId);
+		} else {
+			this.inboxSelection.add(episodeId);
+		}
+		this.updateInboxState();
+	}
+
+	private setInboxSelectAll(selected: boolean): void {
+		this.inboxSelection = selected
+			? new Set(this.inboxEntries.map(entry => entry.episode.id))
+			: new Set();
+		this.updateInboxState();
+	}
+
+	private getSelectedInboxEpisodes(): Episode[] {
+		return this.inboxEntries
+			.filter(entry => this.inboxSelection.has(entry.episode.id))
+			.map(entry => entry.episode);
+	}
+
+	/**
+	 * Add inbox episodes to a queue and remove them from the inbox
+	 */
+	private handleInboxAddToQueue(episodes: Episode[]): void {
+		if (episodes.length === 0) return;
+
+		new AddToQueueModal(this.app, this.plugin, episodes, () => {
+			void this.handleInboxDismiss(episodes, false);
+		}).open();
+	}
+
+	/**
+	 * Add inbox episodes to a playlist and remove them from the inbox
+	 */
+	private handleInboxAddToPlaylist(episodes: Episode[]): void {
+		if (episodes.length === 0) return;
+
+		new AddToPlaylistModal(this.app, this.plugin, episodes, () => {
+			void this.handleInboxDismiss(episodes, false);
+		}).open();
+	}
+
+	/**
+	 * Mark inbox episodes as played
+	 */
+	private async handleInboxMarkPlayed(episodes: Episode[]): Promise<void> {
+		if (episodes.length === 0) return;
+
+		try {
+			this.restoreInboxFocus = true;
+			await this.plugin.getInboxManager().markPlayed(episodes);
+			new Notice(episodes.length === 1 ? 'Marked as played' : `Marked ${episodes.length} episodes as played`);
+		} catch (error) {
+			logger.error('Failed to mark inbox episodes as played', error);
+			new Notice('Failed to mark episodes as played');
+		}
+	}
+
+	/**
+	 * Remove episodes from the inbox
+	 */
+	private async handleInboxDismiss(episodes: Episode[], showNotice = true): Promise<void> {
+		if (episodes.length === 0) return;
+
+		try {
+			this.restoreInboxFocus = showNotice;
+			await this.plugin.getInboxManager().dismiss(episodes.map(episode => episode.id));
+			if (showNotice && episodes.length > 1) {
+				new Notice(`Dismissed ${episodes.length} episodes`);
+			}
+		} catch (error) {
+			logger.error('Failed to dismiss inbox episodes', error);
+			new Notice('Failed to dismiss episodes');
+		}
+	}
+
+	/**
+	 * Whether the listening history is the current view
+	 */
+	private isHistoryVisible(): boolean {
+		return this.viewMode === 'history' &&
+			!this.selectedPodcast && !this.selectedPlaylist && !this.selectedQueue;
+	}
+
+	/**
+	 * Render the listening history as a timeline grouped by day, newest first
+	 */
+	private async renderHistory(): Promise<void> {
+		let entries = await this.plugin.getStatisticsService().getHistory(HISTORY_DISPLAY_LIMIT);
+		const truncated = entries.length >= HISTORY_DISPLAY_LIMIT;
+
+		if (this.searchQuery) {
+			const query = this.searchQuery.toLowerCase();
+			entries = entries.filter(entry =>
+				entry.episodeTitle.toLowerCase().includes(query) ||
+				entry.podcastTitle.toLowerCase().includes(query)
+			);
+		}
+
+		const listContainer = this.sidebarContentEl.createDiv({ cls: 'episode-list-container history-list' });
+
+		if (entries.length === 0) {
+			const empty = listContainer.createDiv({ cls: 'empty-state' });
+			if (this.searchQuery) {
+				empty.createEl('p', { text: 'No sessions found' });
+				empty.createEl('p', {
+					text: `No listening sessions match "${this.searchQuery}"`,
+					cls: 'empty-state-hint'
+				});
+			} else {
+				empty.createEl('p', { text: 'No listening history yet' });
+				empty.createEl('p', {
+					text: 'Listening sessions appear here after you play episodes',
+					cls: 'empty-state-hint'
+				});
+			}
+			return;
+		}
+
+		let currentDay: string | null = null;
+		let dayContainer = listContainer;
+		for (const entry of entries) {
+			const day = entry.session.startedAt.toDateString();
+			if (day !== currentDay) {
+				currentDay = day;
+				dayContainer = listContainer.createDiv({ cls: 'history-day' });
+				dayContainer.createDiv({
+					text: this.formatHistoryDay(entry.session.startedAt),
+					cls: 'history-day-header'
+				});
+			}
+			this.renderHistoryItem(dayContainer, entry);
+		}
+
+		if (truncated) {
+			listContainer.createDiv({
+				text: `Showing the latest ${HISTORY_DISPLAY_LIMIT} sessions. Export the history to see all of them.`,
+				cls: 'history-limit-hint'
+			});
+		}
+	}
+
+	/**
+	 * Render a single listening session
+	 */
+	private renderHistoryItem(container: HTMLElement, entry: ListeningHistoryEntry): void {
+		const { session } = entry;
+		const item = container.createDiv({ cls: 'episode-item history-item' });
+
+		const timeOptions: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit' };
+		item.createDiv({
+			text: session.startedAt.toLocaleTimeString(undefined, timeOptions),
+			cls: 'history-item-time',
+			attr: { 'aria-label': `${session.startedAt.toLocaleTimeString(undefined, timeOptions)} – ${session.endedAt.toLocaleTimeString(undefined, timeOptions)}` }
+		});
+
+		// Session info
+		const info = item.createDiv({ cls: 'episode-info' });
+		info.createEl('div', { text: entry.episodeTitle, cls: 'episode-title' });
+
+		const meta = info.createDiv({ cls: 'episode-meta' });
+		meta.createSpan({ text: entry.podcastTitle, cls: 'episode-podcast-name' });
+		meta.createSpan({ text: ' • ', cls: 'episode-meta-separator' });
+		meta.createSpan({
+			text: `${formatTime(session.startPosition)} → ${formatTime(session.endPosition)}`,
+			cls: 'history-item-range'
+		});
+		if (session.playbackSpeed !== 1) {
+			meta.createSpan({ text: ' • ', cls: 'episode-meta-separator' });
+			meta.createSpan({ text: `${Number(session.playbackSpeed.toFixed(2))}x` });
+		}
+
+		// Action buttons container
+		const actions = item.createDiv({ cls: 'episode-actions' });
+
+		const resumeBtn = actions.createEl('button', {
+			cls: 'episode-action-button clickable-icon',
+			attr: { 'aria-label': `Resume at ${formatTime(session.endPosition)}` }
+		});
+		setIcon(resumeBtn, 'play');
+		resumeBtn.addEventListener('click', (e) => {
+			e.stopPropagation();
+			void this.handleHistoryResume(entry);
+		});
+	}
+
+	/**
+	 * Label of a day in the history timeline
+	 */
+	private formatHistoryDay(date: Date): string {
+		if (isToday(date)) {
+			return 'Today';
+		}
+
+		const yesterday = new Date();
+		yesterday.setDate(yesterday.getDate() - 1);
+		if (date.toDateString() === yesterday.toDateString()) {
+			return 'Yesterday';
+		}
+
+		return date.toLocaleDateString(undefined, { weekday: 'long', year: 'numeric', month: 'short', day: 'numeric' });
+	}
+
+	/**
+	 * Play the episode of a session from where the session ended
+	 */
+	private async handleHistoryResume(entry: ListeningHistoryEntry): Promise<void> {
+		try {
+			const resumed = await this.plugin.getTimestampLinkHandler().seekTo({
+				episodeId: entry.session.episodeId,
+				seconds: entry.session.endPosition,
+			});
+
+			if (!resumed) {
+				new Notice('Episode not found. It may have been removed from its feed.');
+			}
+		} catch (error) {
+			logger.error('Failed to resume from history', error);
+			new Notice(`Failed to resume episode: ${getErrorMessage(error)}`);
+		}
+	}
+
+	/**
+	 * Export the complete listening history to the vault
+	 */
+	private async handleExportHistory(format: HistoryExportFormat): Promise<void> {
+		try {
+			const entries = await this.plugin.getStatisticsService().getHistory();
+			const file = await this.plugin.getHistoryExporter().export(entries, format);
+
+			new Notice(`History exported: ${file.path}`);
+
+			// CSV files can't be opened in the editor
+			if (format === 'markdown') {
+				const leaf = this.app.workspace.getLeaf(false);
+				await leaf.openFile(file);
+			}
+		} catch (error) {
+			logger.error('Failed to export listening history', error);
+			new Notice(`Failed to export history: ${getErrorMessage(error)}`);
+		}
 	}
 
 	/**
@@ -681,6 +1360,8 @@ export class PodcastSidebarView extends ItemView {
 			});
 		}
 
+		this.renderFeedHealth(info, podcast);
+
 		// Click to view episodes
 		item.addEventListener('click', () => {
 			this.selectedPodcast = podcast;
@@ -697,6 +1378,35 @@ export class PodcastSidebarView extends ItemView {
 		});
 	}
 
+	/**
+	 * Render the feed health badge of a podcast whose last update was not plain sailing
+	 */
+	private renderFeedHealth(container: HTMLElement, podcast: Podcast): void {
+		const health = podcast.feedHealth;
+		if (!health || health.status === 'ok') {
+			return;
+		}
+
+		const badge = FEED_HEALTH_BADGES[health.status];
+		let tooltip: string;
+		if (health.status === 'moved') {
+			tooltip = `Feed moved from ${health.previousFeedUrl ?? 'its old address'} to ${podcast.feedUrl}`;
+		} else if (health.status === 'gone') {
+			tooltip = 'The publisher removed this feed. It is no longer refreshed automatically; use "Refresh feed" to check it again.';
+		} else {
+			const failures = health.consecutiveFailures ?? 1;
+			tooltip = `Last update failed ${this.formatDate(health.checkedAt)}: ${health.error ?? 'unknown error'}` +
+				(failures > 1 ? ` (${failures} times in a row)` : '');
+		}
+
+		const el = container.createDiv({
+			cls: `podcast-feed-health podcast-feed-health-${health.status}`,
+			attr: { 'aria-label': tooltip },
+		});
+		setIcon(el.createSpan({ cls: 'podcast-feed-health-icon' }), badge.icon);
+		el.createSpan({ text: badge.label });
+	}
+
 	/**
 	 * Render the list of episodes for the selected podcast
 	 */
@@ -800,7 +1510,7 @@ export class PodcastSidebarView extends ItemView {
 		// Context menu
 		item.addEventListener('contextmenu', (e) => {
 			e.preventDefault();
-			this.showEpisodeContextMenu(episode, e);
+			void this.showEpisodeContextMenu(episode, e);
 		});
 	}
 
@@ -929,7 +1639,7 @@ export class PodcastSidebarView extends ItemView {
 		// Playlists Section
 		menu.addItem((item) => item.setTitle('Playlists').setIsLabel(true));
 
-		const playlists = await playlistManager.getAllPlaylists();
+		const playlists = (await playlistManager.getAllPlaylists()).filter(playlist => !playlist.smartRule);
 		playlists.forEach(playlist => {
 			menu.addItem((item) =>
 				item
@@ -974,6 +1684,11 @@ export class PodcastSidebarView extends ItemView {
 	 * Handle play playlist - starts from beginning
 	 */
 	private async handlePlayPlaylist(playlist: Playlist): Promise<void> {
+		// Smart playlists are re-evaluated so playback starts from the current result
+		if (playlist.smartRule) {
+			playlist = await this.plugin.getSmartPlaylistService().refreshPlaylist(playlist.id) ?? playlist;
+		}
+
 		if (playlist.episodeIds.length === 0) {
 			new Notice('Playlist is empty');
 			return;
@@ -1147,8 +1862,10 @@ export class PodcastSidebarView extends ItemView {
 	/**
 	 * Show context menu for episode
 	 */
-	private showEpisodeContextMenu(episode: Episode, event: MouseEvent): void {
+	private async showEpisodeContextMenu(episode: Episode, event: MouseEvent): Promise<void> {
 		const menu = new Menu();
+		const downloadManager = this.plugin.getDownloadManager();
+		const download = await downloadManager.getDownload(episode.id);
 
 		menu.addItem((item) =>
 			item
@@ -1202,6 +1919,42 @@ export class PodcastSidebarView extends ItemView {
 
 		menu.addSeparator();
 
+		if (download && download.status !== 'failed') {
+			menu.addItem((item) =>
+				item
+					.setTitle(download.status === 'done' ? 'Remove download' : 'Cancel download')
+					.setIcon('trash-2')
+					.onClick(() => {
+						void (async () => {
+							try {
+								await downloadManager.deleteDownload(episode.id);
+								new Notice(download.status === 'done' ? 'Download removed' : 'Download cancelled');
+							} catch (error) {
+								logger.error('Failed to remove download', error);
+								new Notice('Failed to remove download');
+							}
+						})();
+					})
+			);
+		} else {
+			menu.addItem((item) =>
+				item
+					.setTitle(download ? 'Retry download' : 'Download for offline')
+					.setIcon('download')
+					.onClick(() => {
+						void (async () => {
+							try {
+								await downloadManager.enqueue(episode);
+								new Notice(`Downloading: ${episode.title}`);
+							} catch (error) {
+								logger.error('Failed to start download', error);
+								new Notice('Failed to start download');
+							}
+						})();
+					})
+			);
+		}
+
 		menu.addItem((item) =>
 			item
 				.setTitle('Export to note')
@@ -1239,7 +1992,10 @@ export class PodcastSidebarView extends ItemView {
 
 			// Export the episode
 			const noteExporter = this.plugin.getNoteExporter();
-			const noteFile = await noteExporter.exportEpisode(episode, podcast, progress);
+			const templateFile = podcast.settings?.noteTemplatePath || this.plugin.settings.noteTemplatePath;
+			const noteFile = await noteExporter.exportEpisode(episode, podcast, progress, {
+				templateFile: templateFile || undefined,
+			});
 
 			// Hide loading notification
 			loadingNotice.hide();
@@ -1253,7 +2009,7 @@ export class PodcastSidebarView extends ItemView {
 
 		} catch (error) {
 			logger.error('Failed to export to note', error);
-			new Notice('Failed to export to note');
+			new Notice(`Failed to export to note: ${getErrorMessage(error)}`);
 		}
 	}
 
@@ -1673,7 +2429,12 @@ export class PodcastSidebarView extends ItemView {
 
 		// Info section
 		const info = item.createDiv({ cls: 'playlist-info' });
-		info.createEl('h3', { text: playlist.name, cls: 'playlist-title' });
+		const title = info.createEl('h3', { text: playlist.name, cls: 'playlist-title' });
+		if (playlist.smartRule) {
+			item.addClass('smart-playlist-item');
+			const smartIcon = title.createSpan({ cls: 'smart-playlist-icon', attr: { 'aria-label': 'Smart playlist' } });
+			setIcon(smartIcon, 'sparkles');
+		}
 
 		if (playlist.description) {
 			info.createEl('p', { text: playlist.description, cls: 'playlist-description' });
@@ -1774,6 +2535,11 @@ export class PodcastSidebarView extends ItemView {
 			text: `${this.selectedPlaylist.episodeIds.length} episodes • Created ${this.formatDate(this.selectedPlaylist.createdAt)}`,
 			cls: 'playlist-details-info'
 		});
+		if (this.selectedPlaylist.smartRule) {
+			const rule = metadata.createDiv({ cls: 'smart-playlist-rule' });
+			setIcon(rule.createSpan({ cls: 'smart-playlist-icon' }), 'sparkles');
+			rule.createSpan({ text: SmartPlaylistModal.describeRule(this.selectedPlaylist.smartRule) });
+		}
 
 		// Episodes list
 		await this.renderPlaylistEpisodeList(detailsContainer, this.selectedPlaylist.episodeIds);
@@ -1785,7 +2551,9 @@ export class PodcastSidebarView extends ItemView {
 	private async renderPlaylistEpisodeList(container: HTMLElement, episodeIds: string[]): Promise<void> {
 		if (episodeIds.length === 0) {
 			const empty = container.createDiv({ cls: 'empty-state' });
-			empty.createEl('p', { text: 'No episodes in this playlist' });
+			empty.createEl('p', {
+				text: this.selectedPlaylist?.smartRule ? 'No episodes match the rules of this playlist' : 'No episodes in this playlist'
+			});
 			return;
 		}
 
@@ -1820,10 +2588,17 @@ export class PodcastSidebarView extends ItemView {
 			attr: { 'data-episode-id': episode.id }
 		});
 
+		// Smart playlists keep their rule order and contents
+		const isSmart = !!this.selectedPlaylist?.smartRule;
+
+		if (isSmart) {
+			item.addClass('smart-playlist-episode');
+		}
+
 		// Drag and Drop
-		item.draggable = true;
+		item.draggable = !isSmart;
 		item.addEventListener('dragstart', (e) => {
-			if (this.selectedPlaylist) {
+			if (this.selectedPlaylist && !isSmart) {
 				this.handleDragStart(e, index, 'playlist', this.selectedPlaylist.id);
 			}
 		});
@@ -1831,7 +2606,7 @@ export class PodcastSidebarView extends ItemView {
 		item.addEventListener('dragenter', (e) => this.handleDragEnter(e));
 		item.addEventListener('dragleave', (e) => this.handleDragLeave(e));
 		item.addEventListener('drop', (e) => {
-			if (this.selectedPlaylist) {
+			if (this.selectedPlaylist && !isSmart) {
 				void this.handleDrop(e, index, 'playlist', this.selectedPlaylist.id);
 			}
 		});
@@ -1863,24 +2638,26 @@ export class PodcastSidebarView extends ItemView {
 		}
 
 		// Delete button
-		const deleteBtn = item.createEl('button', {
-			cls: 'playlist-episode-delete clickable-icon',
-			attr: { 'aria-label': 'Remove from playlist' }
-		});
-		setIcon(deleteBtn, 'trash');
-		deleteBtn.addEventListener('click', (e) => {
-			e.stopPropagation();
-			void (async () => {
-				if (this.selectedPlaylist) {
-					const playlistManager = this.plugin.getPlaylistManager();
-					await playlistManager.removeEpisode(this.selectedPlaylist.id, episode.id);
+		if (!isSmart) {
+			const deleteBtn = item.createEl('button', {
+				cls: 'playlist-episode-delete clickable-icon',
+				attr: { 'aria-label': 'Remove from playlist' }
+			});
+			setIcon(deleteBtn, 'trash');
+			deleteBtn.addEventListener('click', (e) => {
+				e.stopPropagation();
+				void (async () => {
+					if (this.selectedPlaylist) {
+						const playlistManager = this.plugin.getPlaylistManager();
+						await playlistManager.removeEpisode(this.selectedPlaylist.id, episode.id);
 
-					// Update local state
-					this.selectedPlaylist = await playlistManager.getPlaylist(this.selectedPlaylist.id);
-					await this.render();
-				}
-			})();
-		});
+						// Update local state
+						this.selectedPlaylist = await playlistManager.getPlaylist(this.selectedPlaylist.id);
+						await this.render();
+					}
+				})();
+			});
+		}
 
 		// Click to play/pause
 		item.addEventListener('click', (e) => {
@@ -2027,7 +2804,7 @@ export class PodcastSidebarView extends ItemView {
 		// Context menu
 		item.addEventListener('contextmenu', (e) => {
 			e.preventDefault();
-			this.showEpisodeContextMenu(episode, e);
+			void this.showEpisodeContextMenu(episode, e);
 		});
 	}
 
@@ -2148,6 +2925,37 @@ export class PodcastSidebarView extends ItemView {
 		}
 	}
 
+	/**
+	 * Create a smart playlist, or edit the rules of an existing one
+	 */
+	private handleEditSmartPlaylist(playlist: Playlist | null): void {
+		new SmartPlaylistModal(this.app, this.plugin, playlist, (name, description, rule) => {
+			void (async () => {
+				try {
+					const smartPlaylistService = this.plugin.getSmartPlaylistService();
+
+					if (playlist) {
+						await this.plugin.getPlaylistManager().updatePlaylist(playlist.id, { name, description });
+						await smartPlaylistService.updateRule(playlist.id, rule);
+						new Notice(`Smart playlist "${name}" updated`);
+
+						if (this.selectedPlaylist?.id === playlist.id) {
+							this.selectedPlaylist = await this.plugin.getPlaylistManager().getPlaylist(playlist.id);
+						}
+					} else {
+						const created = await smartPlaylistService.createSmartPlaylist(name, rule, description);
+						new Notice(`Smart playlist "${name}" created with ${created.episodeIds.length} episodes`);
+					}
+
+					await this.render();
+				} catch (error) {
+					logger.error('Failed to save smart playlist', error);
+					new Notice('Failed to save smart playlist');
+				}
+			})();
+		}).open();
+	}
+
 	/**
 	 * Handle create queue button click
 	 */
@@ -2366,6 +3174,15 @@ export class PodcastSidebarView extends ItemView {
 				})
 		);
 
+		if (playlist.smartRule) {
+			menu.addItem((item) =>
+				item
+					.setTitle('Edit rules')
+					.setIcon('sliders-horizontal')
+					.onClick(() => this.handleEditSmartPlaylist(playlist))
+			);
+		}
+
 		menu.addSeparator();
 
 		menu.addItem((item) =>
@@ -2412,6 +3229,11 @@ export class PodcastSidebarView extends ItemView {
 				.onClick(() => void this.handlePlayEpisode(episode, false, this.selectedPlaylist || undefined))
 		);
 
+		if (this.selectedPlaylist?.smartRule) {
+			menu.showAtMouseEvent(event);
+			return;
+		}
+
 		menu.addSeparator();
 
 		menu.addItem((item) =>
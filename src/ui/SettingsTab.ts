@@ -4,11 +4,15 @@
  * Provides a user-friendly interface for configuring plugin settings.
  */
 
-import { App, PluginSettingTab, Setting, Notice } from 'obsidian';
+import { App, DropdownComponent, PluginSettingTab, Setting, Notice } from 'obsidian';
 import type PodcastPlayerPlugin from '../../main';
-import { PluginSettings } from '../model';
+import { PluginSettings, DEFAULT_SETTINGS, FeedHealth } from '../model';
 import { showConfirmModal } from './ConfirmModal';
+import { NotificationHistoryModal } from './NotificationHistoryModal';
+import { TemplateFileSuggest } from './TemplateFileSuggest';
+import type { ProblemPodcast } from '../feed';
 import { logger } from '../utils/Logger';
+import { formatDateTime, formatDuration, formatRelativeTime } from '../utils/timeUtils';
 
 /**
  * PodcastPlayerSettingTab - Settings UI for the Podcast Player plugin
@@ -43,9 +47,18 @@ export class PodcastPlayerSettingTab extends PluginSettingTab {
 		// === Daily Note Settings ===
 		this.addDailyNoteSection(containerEl);
 
+		// === Timestamp Settings ===
+		this.addTimestampSection(containerEl);
+
+		// === Episode Note Settings ===
+		this.addEpisodeNoteSection(containerEl);
+
 		// === Download & Cache ===
 		this.addCacheSection(containerEl);
 
+		// === Search Settings ===
+		this.addSearchSection(containerEl);
+
 		// === Sync Settings ===
 		this.addSyncSection(containerEl);
 
@@ -152,7 +165,7 @@ export class PodcastPlayerSettingTab extends PluginSettingTab {
 		// Skip Outro
 		new Setting(containerEl)
 			.setName('Skip outro seconds')
-			.setDesc('Number of seconds to skip at the end of each episode')
+			.setDesc('Number of seconds to skip at the end of each episode. The episode is marked as played when the outro starts.')
 			.addText(text => text
 				.setPlaceholder('0')
 				.setValue(String(this.settings.defaultPlaybackSettings.skipOutroSeconds || 0))
@@ -163,6 +176,77 @@ export class PodcastPlayerSettingTab extends PluginSettingTab {
 						await this.saveSettings();
 					}
 				}));
+
+		// Voice boost
+		new Setting(containerEl)
+			.setName('Voice boost')
+			.setDesc('Compress and level the audio so quiet and loud voices sound alike')
+			.addToggle(toggle => toggle
+				.setValue(this.settings.defaultPlaybackSettings.voiceBoost || false)
+				.onChange(async (value) => {
+					this.settings.defaultPlaybackSettings.voiceBoost = value;
+					await this.saveSettings();
+				}));
+
+		// Skip silence
+		const skipSilenceSetting = new Setting(containerEl)
+			.setName('Skip silence')
+			.setDesc('Fast-forward through silent stretches in episodes. Works best with downloaded episodes; some streamed audio cannot be analysed.')
+			.addToggle(toggle => toggle
+				.setValue(this.settings.defaultPlaybackSettings.skipSilence || false)
+				.onChange(async (value) => {
+					this.settings.defaultPlaybackSettings.skipSilence = value;
+					await this.saveSettings();
+				}));
+
+		void this.plugin.getProgressStore().getTimeSaved().then(seconds => {
+			if (seconds >= 1) {
+				skipSilenceSetting.descEl.createDiv({ text: `Time saved so far: ${formatDuration(seconds)}` });
+			}
+		});
+
+		let transitionLengthSetting: Setting | null = null;
+
+		// Transition between episodes
+		new Setting(containerEl)
+			.setName('Between episodes')
+			.setDesc('How the next episode in a queue starts when the current one ends')
+			.addDropdown(dropdown => dropdown
+				.addOption('none', 'Start immediately')
+				.addOption('gap', 'Pause briefly')
+				.addOption('fade', 'Fade out, then fade in')
+				.setValue(this.settings.episodeTransition)
+				.onChange(async (value) => {
+					this.settings.episodeTransition = value as PluginSettings['episodeTransition'];
+					transitionLengthSetting?.settingEl.toggleClass('podcast-hidden', value === 'none');
+					await this.saveSettings();
+				}));
+
+		transitionLengthSetting = new Setting(containerEl)
+			.setName('Transition length')
+			.setDesc('Seconds of pause or fade between episodes')
+			.addSlider(slider => slider
+				.setLimits(1, 10, 1)
+				.setValue(this.settings.episodeTransitionSeconds)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.settings.episodeTransitionSeconds = value;
+					await this.saveSettings();
+				}));
+		transitionLengthSetting.settingEl.toggleClass('podcast-hidden', this.settings.episodeTransition === 'none');
+
+		// Sleep timer fade
+		new Setting(containerEl)
+			.setName('Sleep timer fade-out')
+			.setDesc('Seconds over which the volume fades out before the sleep timer pauses playback (0 = no fade)')
+			.addSlider(slider => slider
+				.setLimits(0, 120, 5)
+				.setValue(this.settings.sleepTimerFadeSeconds)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.settings.sleepTimerFadeSeconds = value;
+					await this.saveSettings();
+				}));
 	}
 
 	/**
@@ -205,11 +289,125 @@ export class PodcastPlayerSettingTab extends PluginSettingTab {
 			.addDropdown(dropdown => dropdown
 				.addOption('top', 'Top of file')
 				.addOption('bottom', 'Bottom of file')
+				.addOption('cursor', 'At cursor in the open note')
 				.setValue(this.settings.dailyNoteInsertPosition)
 				.onChange((value) => {
 					this.settings.dailyNoteInsertPosition = value as 'top' | 'bottom' | 'cursor';
 					void this.saveSettings();
 				}));
+
+		const journalSettings: Setting[] = [];
+
+		// Automatic listening log
+		new Setting(containerEl)
+			.setName('Log listened episodes')
+			.setDesc('Add a line per episode to the daily note with a link, the podcast, minutes listened and timestamps captured. Listening again updates the line.')
+			.addDropdown(dropdown => dropdown
+				.addOption('off', 'Off')
+				.addOption('completed', 'When an episode is completed')
+				.addOption('endOfDay', 'At the end of each day')
+				.setValue(this.settings.dailyNoteJournal)
+				.onChange(async (value) => {
+					this.settings.dailyNoteJournal = value as PluginSettings['dailyNoteJournal'];
+					journalSettings.forEach(setting => setting.settingEl.toggleClass('podcast-hidden', value === 'off'));
+					await this.saveSettings();
+				}));
+
+		journalSettings.push(new Setting(containerEl)
+			.setName('Log section heading')
+			.setDesc('Heading the lines are added under. It is added to the daily note when missing.')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_SETTINGS.dailyNoteJournalHeading)
+				.setValue(this.settings.dailyNoteJournalHeading)
+				.onChange(async (value) => {
+					this.settings.dailyNoteJournalHeading = value || DEFAULT_SETTINGS.dailyNoteJournalHeading;
+					await this.saveSettings();
+				})));
+
+		journalSettings.push(new Setting(containerEl)
+			.setName('Log line template')
+			.setDesc('Placeholders: {episode}, {podcast}, {link}, {minutes}, {timestamps}')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_SETTINGS.dailyNoteJournalTemplate)
+				.setValue(this.settings.dailyNoteJournalTemplate)
+				.onChange(async (value) => {
+					this.settings.dailyNoteJournalTemplate = value || DEFAULT_SETTINGS.dailyNoteJournalTemplate;
+					await this.saveSettings();
+				})));
+
+		journalSettings.forEach(setting => setting.settingEl.toggleClass('podcast-hidden', this.settings.dailyNoteJournal === 'off'));
+	}
+
+	/**
+	 * Add timestamp settings section
+	 */
+	private addTimestampSection(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Timestamps')
+			.setDesc('Format of timestamps inserted with the "Insert current timestamp" command and editor menu.')
+			.setHeading();
+
+		let templateSetting: Setting | null = null;
+
+		new Setting(containerEl)
+			.setName('Timestamp style')
+			.addDropdown(dropdown => dropdown
+				.addOption('link', 'Link that jumps to the position')
+				.addOption('brackets', 'Brackets, e.g. [12:34]')
+				.addOption('plain', 'Plain, e.g. 12:34')
+				.addOption('custom', 'Custom template')
+				.setValue(this.settings.timestampStyle)
+				.onChange(async (value) => {
+					this.settings.timestampStyle = value as PluginSettings['timestampStyle'];
+					templateSetting?.settingEl.toggleClass('podcast-hidden', value !== 'custom');
+					await this.saveSettings();
+				}));
+
+		templateSetting = new Setting(containerEl)
+			.setName('Custom timestamp template')
+			.setDesc('Placeholders: {time}, {seconds}, {title}, {episodeId}, {podcastId}')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_SETTINGS.timestampTemplate)
+				.setValue(this.settings.timestampTemplate)
+				.onChange(async (value) => {
+					this.settings.timestampTemplate = value || DEFAULT_SETTINGS.timestampTemplate;
+					await this.saveSettings();
+				}));
+		templateSetting.settingEl.toggleClass('podcast-hidden', this.settings.timestampStyle !== 'custom');
+	}
+
+	/**
+	 * Add episode note settings section
+	 */
+	private addEpisodeNoteSection(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Episode notes')
+			.setDesc('Notes created with "Export to note". Podcasts can override the template in their settings.')
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName('Note template')
+			.setDesc('Template file in your vault. Leave empty for the built-in note.')
+			.addText(text => {
+				new TemplateFileSuggest(this.app, text.inputEl);
+				text
+					.setPlaceholder('Templates/Podcast episode.md')
+					.setValue(this.settings.noteTemplatePath)
+					.onChange(async (value) => {
+						this.settings.noteTemplatePath = value.trim();
+						await this.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Add notes to the episode note')
+			.setDesc('Also add notes taken while listening to the timestamps table of the episode note, creating the note when missing. The daily note entry links to it.')
+			.addToggle(toggle => toggle
+				.setValue(this.settings.addNotesToEpisodeNote)
+				.onChange(async (value) => {
+					this.settings.addNotesToEpisodeNote = value;
+					await this.saveSettings();
+				}));
 	}
 
 	/**
@@ -234,7 +432,7 @@ export class PodcastPlayerSettingTab extends PluginSettingTab {
 		// Max Cache Episodes
 		new Setting(containerEl)
 			.setName('Maximum cached episodes')
-			.setDesc('Maximum number of episodes to keep in cache. Older episodes will be removed.')
+			.setDesc('Maximum number of downloaded episodes to keep for offline playback. The oldest downloads are removed first. Set to 0 for no limit.')
 			.addText(text => text
 				.setPlaceholder('50')
 				.setValue(String(this.settings.maxCacheEpisodes))
@@ -247,6 +445,39 @@ export class PodcastPlayerSettingTab extends PluginSettingTab {
 				}));
 	}
 
+	/**
+	 * Add podcast search settings section
+	 */
+	private addSearchSection(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Podcast search')
+			.setDesc('Search results from Apple Podcasts are combined with the Podcast Index when its API credentials are set. Get free credentials at api.podcastindex.org.')
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName('Podcast Index API key')
+			.addText(text => text
+				.setPlaceholder('API key')
+				.setValue(this.settings.podcastIndexApiKey)
+				.onChange(async (value) => {
+					this.settings.podcastIndexApiKey = value.trim();
+					await this.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Podcast Index API secret')
+			.addText(text => {
+				text.inputEl.type = 'password';
+				text
+					.setPlaceholder('API secret')
+					.setValue(this.settings.podcastIndexApiSecret)
+					.onChange(async (value) => {
+						this.settings.podcastIndexApiSecret = value.trim();
+						await this.saveSettings();
+					});
+			});
+	}
+
 	/**
 	 * Add sync settings section
 	 */
@@ -258,8 +489,9 @@ export class PodcastPlayerSettingTab extends PluginSettingTab {
 		// Feed Update Interval
 		new Setting(containerEl)
 			.setName('Feed update interval')
-			.setDesc('How often to check for new episodes (in minutes)')
+			.setDesc('How often to check for new episodes in the background')
 			.addDropdown(dropdown => dropdown
+				.addOption('0', 'Off (refresh manually)')
 				.addOption('15', '15 minutes')
 				.addOption('30', '30 minutes')
 				.addOption('60', '1 hour')
@@ -272,6 +504,116 @@ export class PodcastPlayerSettingTab extends PluginSettingTab {
 					this.settings.feedUpdateInterval = parseInt(value, 10);
 					await this.saveSettings();
 				}));
+
+		const statusEl = containerEl.createDiv({ cls: 'podcast-sync-status' });
+		void this.renderSyncStatus(statusEl);
+	}
+
+	/**
+	 * List the feeds that failed to update or are gone, with retry and unsubscribe actions
+	 */
+	private async renderSyncStatus(containerEl: HTMLElement): Promise<void> {
+		let podcasts: ProblemPodcast[];
+		try {
+			podcasts = await this.plugin.getFeedSyncManager().getProblemPodcasts();
+		} catch (error) {
+			logger.error('Failed to load feed sync status', error);
+			containerEl.empty();
+			new Setting(containerEl)
+				.setName('Feed status')
+				.setDesc('Failed to load the feed status');
+			return;
+		}
+
+		containerEl.empty();
+
+		const summary = new Setting(containerEl).setName('Feed status');
+		if (podcasts.length === 0) {
+			summary.setDesc('All feeds updated without problems.');
+			return;
+		}
+
+		summary.setDesc(
+			`${podcasts.length} feed${podcasts.length === 1 ? '' : 's'} with problems. ` +
+			'Failing feeds are retried less often the longer they fail; removed feeds are not retried automatically.'
+		);
+
+		for (const podcast of podcasts) {
+			new Setting(containerEl)
+				.setName(podcast.title)
+				.setDesc(this.describeFeedHealth(podcast.feedHealth))
+				.addButton(button => button
+					.setButtonText('Retry')
+					.onClick(() => {
+						void (async () => {
+							button.setDisabled(true);
+							try {
+								const result = await this.plugin.getFeedSyncManager().syncPodcast(podcast.id);
+								new Notice(result.success
+									? `${podcast.title} updated`
+									: `${podcast.title} failed to update: ${result.error}`);
+							} catch (error) {
+								logger.error('Failed to retry feed', error);
+								new Notice('Failed to retry feed');
+							}
+							await this.renderSyncStatus(containerEl);
+						})();
+					}))
+				.addButton(button => button
+					.setButtonText('Unsubscribe')
+					.setWarning()
+					.onClick(() => {
+						void (async () => {
+							const confirmed = await showConfirmModal(this.app, {
+								title: 'Unsubscribe',
+								message: `Unsubscribe from ${podcast.title}?`,
+								confirmText: 'Unsubscribe',
+								confirmClass: 'warning'
+							});
+							if (!confirmed) {
+								return;
+							}
+
+							try {
+								await this.plugin.getPodcastService().unsubscribe(podcast.id);
+								new Notice(`Unsubscribed from ${podcast.title}`);
+							} catch (error) {
+								logger.error('Failed to unsubscribe', error);
+								new Notice('Failed to unsubscribe');
+							}
+							await this.renderSyncStatus(containerEl);
+						})();
+					}));
+		}
+	}
+
+	/**
+	 * Summarize the sync history of a problem feed
+	 */
+	private describeFeedHealth(health: FeedHealth): string {
+		const parts: string[] = [];
+
+		const status = health.httpStatus ? ` (HTTP ${health.httpStatus})` : '';
+		if (health.status === 'gone') {
+			parts.push(`Feed removed by the publisher${status}`);
+		} else {
+			parts.push(`${health.errorType ?? 'Error'}${status}: ${health.error ?? 'unknown error'}`);
+		}
+
+		const failures = health.consecutiveFailures ?? 1;
+		parts.push(`${failures} failed update${failures === 1 ? '' : 's'} in a row`);
+		parts.push(health.lastSuccessAt
+			? `last success ${formatRelativeTime(new Date(health.lastSuccessAt))}`
+			: 'no successful update recorded');
+
+		if (health.responseTimeMs !== undefined) {
+			parts.push(`took ${(health.responseTimeMs / 1000).toFixed(1)} s`);
+		}
+		if (health.nextRetryAt) {
+			parts.push(`next automatic retry ${formatDateTime(new Date(health.nextRetryAt))}`);
+		}
+
+		return parts.join(' • ');
 	}
 
 	/**
@@ -284,13 +626,59 @@ export class PodcastPlayerSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName('Enable notifications')
-			.setDesc('Show notifications for new episodes and playback events')
+			.setDesc('Show notifications for new episodes and feed errors found by background feed updates')
 			.addToggle(toggle => toggle
 				.setValue(this.settings.enableNotifications)
 				.onChange(async (value) => {
 					this.settings.enableNotifications = value;
 					await this.saveSettings();
 				}));
+
+		let quietHoursRangeSetting: Setting | null = null;
+
+		new Setting(containerEl)
+			.setName('Quiet hours')
+			.setDesc('Do not show notifications during these hours. They are still added to the history.')
+			.addToggle(toggle => toggle
+				.setValue(this.settings.quietHoursEnabled)
+				.onChange(async (value) => {
+					this.settings.quietHoursEnabled = value;
+					quietHoursRangeSetting?.settingEl.toggleClass('podcast-hidden', !value);
+					await this.saveSettings();
+				}));
+
+		const addHourOptions = (dropdown: DropdownComponent) => {
+			for (let hour = 0; hour < 24; hour++) {
+				dropdown.addOption(String(hour), `${String(hour).padStart(2, '0')}:00`);
+			}
+			return dropdown;
+		};
+
+		quietHoursRangeSetting = new Setting(containerEl)
+			.setName('Quiet hours range')
+			.setDesc('Start and end of quiet hours')
+			.addDropdown(dropdown => addHourOptions(dropdown)
+				.setValue(String(this.settings.quietHoursStart))
+				.onChange(async (value) => {
+					this.settings.quietHoursStart = parseInt(value);
+					await this.saveSettings();
+				}))
+			.addDropdown(dropdown => addHourOptions(dropdown)
+				.setValue(String(this.settings.quietHoursEnd))
+				.onChange(async (value) => {
+					this.settings.quietHoursEnd = parseInt(value);
+					await this.saveSettings();
+				}));
+		quietHoursRangeSetting.settingEl.toggleClass('podcast-hidden', !this.settings.quietHoursEnabled);
+
+		new Setting(containerEl)
+			.setName('Notification history')
+			.setDesc('Recent feed update results: new episodes and feeds that failed to update')
+			.addButton(button => button
+				.setButtonText('View history')
+				.onClick(() => {
+					new NotificationHistoryModal(this.app, this.plugin).open();
+				}));
 	}
 
 	/**
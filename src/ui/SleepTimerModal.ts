@@ -0,0 +1,96 @@
+/**
+ * SleepTimerModal - Picker for starting the sleep timer
+ *
+ * Offers fixed durations plus "end of episode" and, when the episode has
+ * chapters, "end of chapter".
+ */
+
+import { App, Notice, SuggestModal } from 'obsidian';
+import type { PlayerController, SleepTimerMode, SleepTimerState } from '../player';
+import { formatTime } from '../utils/timeUtils';
+
+/**
+ * A sleep timer choice
+ */
+export interface SleepTimerOption {
+	label: string;
+	mode: SleepTimerMode;
+	minutes?: number;
+}
+
+const PRESET_MINUTES = [5, 10, 15, 30, 45, 60, 90];
+
+/**
+ * Modal for choosing a sleep timer
+ */
+export class SleepTimerModal extends SuggestModal<SleepTimerOption> {
+	/** Minutes added by "extend sleep timer" */
+	static readonly EXTEND_MINUTES = 10;
+
+	private player: PlayerController;
+
+	constructor(app: App, player: PlayerController) {
+		super(app);
+		this.player = player;
+		this.setPlaceholder('Pause playback after...');
+	}
+
+	/**
+	 * Sleep timer choices for the current episode
+	 */
+	static getOptions(player: PlayerController): SleepTimerOption[] {
+		const options: SleepTimerOption[] = PRESET_MINUTES.map(minutes => ({
+			label: `${minutes} minutes`,
+			mode: 'minutes',
+			minutes,
+		}));
+
+		if (player.getCurrentChapterIndex() >= 0) {
+			options.push({ label: 'End of chapter', mode: 'chapter' });
+		}
+		options.push({ label: 'End of episode', mode: 'episode' });
+
+		return options;
+	}
+
+	/**
+	 * Countdown text for a running timer, e.g. "12:34" or "End of episode (12:34)"
+	 */
+	static describe(timer: SleepTimerState): string {
+		const remaining = formatTime(Math.ceil(timer.remaining));
+		switch (timer.mode) {
+			case 'episode':
+				return `End of episode (${remaining})`;
+			case 'chapter':
+				return `End of chapter (${remaining})`;
+			default:
+				return remaining;
+		}
+	}
+
+	/**
+	 * Start the sleep timer for an option and confirm it
+	 */
+	static start(player: PlayerController, option: SleepTimerOption): void {
+		if (!player.startSleepTimer(option.mode, option.minutes)) {
+			new Notice('Sleep timer needs an episode to be playing');
+			return;
+		}
+
+		new Notice(`Sleep timer: ${option.label.toLowerCase()}`);
+	}
+
+	getSuggestions(query: string): SleepTimerOption[] {
+		const lowerQuery = query.toLowerCase().trim();
+		return SleepTimerModal.getOptions(this.player)
+			.filter(option => option.label.toLowerCase().includes(lowerQuery));
+	}
+
+	renderSuggestion(option: SleepTimerOption, el: HTMLElement): void {
+		el.createDiv({ text: option.label });
+	}
+
+	onChooseSuggestion(option: SleepTimerOption): void {
+		SleepTimerModal.start(this.player, option);
+	}
+}
@@ -0,0 +1,325 @@
+/**
+ * SmartPlaylistModal - Modal for creating and editing smart playlists
+ *
+ * Allows users to configure:
+ * - Name and description
+ * - Podcasts to include (none selected = all)
+ * - Play status, episode type, age and duration filters
+ * - Sort order and episode limit
+ */
+
+import { App, Modal, Setting, Notice } from 'obsidian';
+import type PodcastPlayerPlugin from '../../main';
+import { Playlist, SmartPlaylistFilter, SmartPlaylistRule } from '../model';
+import { logger } from '../utils/Logger';
+
+type StatusFilter = 'any' | 'unplayed' | 'inProgress' | 'played';
+
+const SORT_LABELS: Record<SmartPlaylistRule['sortBy'], string> = {
+	publishDate: 'Publish date',
+	duration: 'Duration',
+	title: 'Title',
+	episodeNumber: 'Episode number',
+	lastPlayed: 'Last played',
+};
+
+/**
+ * Modal for creating or editing a smart playlist
+ */
+export class SmartPlaylistModal extends Modal {
+	plugin: PodcastPlayerPlugin;
+	playlist: Playlist | null;
+	onSubmit: (name: string, description: string | undefined, rule: SmartPlaylistRule) => void;
+
+	// Form values
+	private name: string;
+	private description: string;
+	private podcastIds: Set<string>;
+	private status: StatusFilter;
+	private episodeType: '' | 'full' | 'trailer' | 'bonus';
+	private publishedWithinDays: number;
+	private minDurationMinutes: number;
+	private maxDurationMinutes: number;
+	private sortBy: SmartPlaylistRule['sortBy'];
+	private sortOrder: SmartPlaylistRule['sortOrder'];
+	private limit: number;
+
+	constructor(
+		app: App,
+		plugin: PodcastPlayerPlugin,
+		playlist: Playlist | null,
+		onSubmit: (name: string, description: string | undefined, rule: SmartPlaylistRule) => void
+	) {
+		super(app);
+		this.plugin = plugin;
+		this.playlist = playlist;
+		this.onSubmit = onSubmit;
+
+		const rule = playlist?.smartRule;
+		const filter = rule?.filter ?? {};
+		this.name = playlist?.name ?? '';
+		this.description = playlist?.description ?? '';
+		this.podcastIds = new Set(filter.podcastIds ?? []);
+		this.status = SmartPlaylistModal.getStatus(filter);
+		this.episodeType = filter.episodeType ?? '';
+		this.publishedWithinDays = filter.publishedWithinDays ?? 0;
+		this.minDurationMinutes = filter.minDuration ? Math.round(filter.minDuration / 60) : 0;
+		this.maxDurationMinutes = filter.maxDuration ? Math.round(filter.maxDuration / 60) : 0;
+		this.sortBy = rule?.sortBy ?? 'publishDate';
+		this.sortOrder = rule?.sortOrder ?? 'desc';
+		this.limit = rule?.limit ?? 0;
+	}
+
+	/**
+	 * Short human-readable summary of a rule
+	 */
+	static describeRule(rule: SmartPlaylistRule): string {
+		const { filter } = rule;
+		const parts: string[] = [];
+
+		const status = SmartPlaylistModal.getStatus(filter);
+		if (status === 'unplayed') parts.push('unplayed');
+		if (status === 'inProgress') parts.push('in progress');
+		if (status === 'played') parts.push('played');
+		if (filter.episodeType) parts.push(filter.episodeType);
+		if (filter.podcastIds && filter.podcastIds.length > 0) {
+			parts.push(`${filter.podcastIds.length} ${filter.podcastIds.length === 1 ? 'podcast' : 'podcasts'}`);
+		}
+		if (filter.publishedWithinDays) parts.push(`last ${filter.publishedWithinDays} days`);
+		if (filter.minDuration) parts.push(`≥ ${Math.round(filter.minDuration / 60)} min`);
+		if (filter.maxDuration) parts.push(`≤ ${Math.round(filter.maxDuration / 60)} min`);
+
+		const sort = `${SORT_LABELS[rule.sortBy].toLowerCase()} ${rule.sortOrder === 'asc' ? '↑' : '↓'}`;
+		const scope = parts.length > 0 ? parts.join(', ') : 'all episodes';
+		const limit = rule.limit ? ` • max ${rule.limit}` : '';
+
+		return `${scope} • ${sort}${limit}`;
+	}
+
+	private static getStatus(filter: SmartPlaylistFilter): StatusFilter {
+		if (filter.completed === true) return 'played';
+		if (filter.inProgress === true) return 'inProgress';
+		if (filter.completed === false && filter.inProgress === false) return 'unplayed';
+		return 'any';
+	}
+
+	onOpen() {
+		void this.renderContent();
+	}
+
+	private async renderContent(): Promise<void> {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: this.playlist ? `Edit ${this.playlist.name}` : 'New smart playlist' });
+
+		contentEl.createEl('p', {
+			text: 'Smart playlists fill themselves with the episodes matching these rules and update after every feed sync.',
+			cls: 'setting-item-description'
+		});
+
+		new Setting(contentEl)
+			.setName('Name')
+			.addText(text => text
+				.setPlaceholder('Unplayed this week')
+				.setValue(this.name)
+				.onChange(value => {
+					this.name = value;
+				}));
+
+		new Setting(contentEl)
+			.setName('Description (optional)')
+			.addText(text => text
+				.setValue(this.description)
+				.onChange(value => {
+					this.description = value;
+				}));
+
+		// Podcasts
+		contentEl.createEl('h3', { text: 'Podcasts' });
+		const podcasts = await this.plugin.getSubscriptionStore().getAllPodcasts();
+		const podcastList = contentEl.createDiv({ cls: 'smart-playlist-podcasts' });
+		if (podcasts.length === 0) {
+			podcastList.createEl('p', { text: 'No subscriptions yet', cls: 'setting-item-description' });
+		}
+		podcastList.createEl('p', {
+			text: 'Leave all unchecked to include every podcast.',
+			cls: 'setting-item-description'
+		});
+		for (const podcast of podcasts) {
+			const label = podcastList.createEl('label', { cls: 'smart-playlist-podcast' });
+			const checkbox = label.createEl('input', { type: 'checkbox' });
+			checkbox.checked = this.podcastIds.has(podcast.id);
+			checkbox.addEventListener('change', () => {
+				if (checkbox.checked) {
+					this.podcastIds.add(podcast.id);
+				} else {
+					this.podcastIds.delete(podcast.id);
+				}
+			});
+			label.createSpan({ text: podcast.title });
+		}
+
+		// Filters
+		contentEl.createEl('h3', { text: 'Filters' });
+
+		new Setting(contentEl)
+			.setName('Status')
+			.addDropdown(dropdown => dropdown
+				.addOption('any', 'Any')
+				.addOption('unplayed', 'Unplayed')
+				.addOption('inProgress', 'In progress')
+				.addOption('played', 'Played')
+				.setValue(this.status)
+				.onChange(value => {
+					this.status = value as StatusFilter;
+				}));
+
+		new Setting(contentEl)
+			.setName('Episode type')
+			.addDropdown(dropdown => dropdown
+				.addOption('', 'Any')
+				.addOption('full', 'Full')
+				.addOption('trailer', 'Trailer')
+				.addOption('bonus', 'Bonus')
+				.setValue(this.episodeType)
+				.onChange(value => {
+					this.episodeType = value as '' | 'full' | 'trailer' | 'bonus';
+				}));
+
+		this.addNumberSetting(contentEl, 'Published within (days)', 'Leave empty for any age',
+			this.publishedWithinDays, value => {
+				this.publishedWithinDays = value;
+			});
+
+		this.addNumberSetting(contentEl, 'Minimum duration (minutes)', 'Leave empty for no minimum',
+			this.minDurationMinutes, value => {
+				this.minDurationMinutes = value;
+			});
+
+		this.addNumberSetting(contentEl, 'Maximum duration (minutes)', 'Leave empty for no maximum',
+			this.maxDurationMinutes, value => {
+				this.maxDurationMinutes = value;
+			});
+
+		// Order
+		contentEl.createEl('h3', { text: 'Order' });
+
+		new Setting(contentEl)
+			.setName('Sort by')
+			.addDropdown(dropdown => {
+				for (const [value, label] of Object.entries(SORT_LABELS)) {
+					dropdown.addOption(value, label);
+				}
+				dropdown
+					.setValue(this.sortBy)
+					.onChange(value => {
+						this.sortBy = value as SmartPlaylistRule['sortBy'];
+					});
+			})
+			.addDropdown(dropdown => dropdown
+				.addOption('desc', 'Descending')
+				.addOption('asc', 'Ascending')
+				.setValue(this.sortOrder)
+				.onChange(value => {
+					this.sortOrder = value as SmartPlaylistRule['sortOrder'];
+				}));
+
+		this.addNumberSetting(contentEl, 'Limit', 'Maximum number of episodes; leave empty for no limit',
+			this.limit, value => {
+				this.limit = value;
+			});
+
+		// Buttons
+		const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+
+		buttonContainer.createEl('button', { text: 'Cancel' })
+			.addEventListener('click', () => this.close());
+
+		buttonContainer.createEl('button', { text: this.playlist ? 'Save' : 'Create', cls: 'mod-cta' })
+			.addEventListener('click', () => this.handleSubmit());
+	}
+
+	/**
+	 * Add a text input for a whole, non-negative number (0 = not set)
+	 */
+	private addNumberSetting(
+		containerEl: HTMLElement,
+		name: string,
+		desc: string,
+		value: number,
+		onChange: (value: number) => void
+	): void {
+		new Setting(containerEl)
+			.setName(name)
+			.setDesc(desc)
+			.addText(text => {
+				text.inputEl.type = 'number';
+				text.inputEl.min = '0';
+				text
+					.setValue(value > 0 ? String(value) : '')
+					.onChange(input => {
+						const parsed = parseInt(input, 10);
+						onChange(isNaN(parsed) || parsed < 0 ? 0 : parsed);
+					});
+			});
+	}
+
+	private handleSubmit(): void {
+		if (!this.name.trim()) {
+			new Notice('Please enter a playlist name');
+			return;
+		}
+
+		if (this.minDurationMinutes > 0 && this.maxDurationMinutes > 0 && this.minDurationMinutes > this.maxDurationMinutes) {
+			new Notice('Minimum duration is longer than the maximum duration');
+			return;
+		}
+
+		const rule: SmartPlaylistRule = {
+			filter: this.buildFilter(),
+			sortBy: this.sortBy,
+			sortOrder: this.sortOrder,
+		};
+		if (this.limit > 0) {
+			rule.limit = this.limit;
+		}
+
+		logger.debug('Smart playlist rule', rule);
+		this.onSubmit(this.name.trim(), this.description.trim() || undefined, rule);
+		this.close();
+	}
+
+	private buildFilter(): SmartPlaylistFilter {
+		const filter: SmartPlaylistFilter = {};
+
+		if (this.podcastIds.size > 0) {
+			filter.podcastIds = Array.from(this.podcastIds);
+		}
+
+		switch (this.status) {
+			case 'unplayed':
+				filter.completed = false;
+				filter.inProgress = false;
+				break;
+			case 'inProgress':
+				filter.inProgress = true;
+				break;
+			case 'played':
+				filter.completed = true;
+				break;
+		}
+
+		if (this.episodeType) filter.episodeType = this.episodeType;
+		if (this.publishedWithinDays > 0) filter.publishedWithinDays = this.publishedWithinDays;
+		if (this.minDurationMinutes > 0) filter.minDuration = this.minDurationMinutes * 60;
+		if (this.maxDurationMinutes > 0) filter.maxDuration = this.maxDurationMinutes * 60;
+
+		return filter;
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,293 @@
+/**
+ * StatisticsView - Listening statistics dashboard
+ *
+ * Shows listening time per day, week and month, listening streaks,
+ * average speed, time saved, completion rates and a per-podcast breakdown.
+ */
+
+import { ItemView, WorkspaceLeaf, setIcon, Events } from 'obsidian';
+import type PodcastPlayerPlugin from '../../main';
+import type { ListeningBucket, ListeningStatistics, StatisticsPeriod } from '../stats';
+import { formatDuration } from '../utils/timeUtils';
+import { getErrorMessage } from '../utils/errorUtils';
+import { logger } from '../utils/Logger';
+
+export const STATISTICS_VIEW_TYPE = 'podcast-statistics-view';
+
+// Type-safe event registration helper
+type PodcastEvents = Events & {
+	on(name: 'podcast:episode-changed', callback: () => void): ReturnType<Events['on']>;
+};
+
+const PERIOD_LABELS: Record<StatisticsPeriod, string> = {
+	day: 'Days',
+	week: 'Weeks',
+	month: 'Months',
+};
+
+/**
+ * StatisticsView - Displays listening statistics
+ */
+export class StatisticsView extends ItemView {
+	plugin: PodcastPlayerPlugin;
+	private statisticsContentEl: HTMLElement;
+	private statistics: ListeningStatistics | null = null;
+	private period: StatisticsPeriod = 'day';
+	private loadToken: number = 0;
+
+	constructor(leaf: WorkspaceLeaf, plugin: PodcastPlayerPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	onload() {
+		super.onload();
+
+		// A finished episode usually means a new session and new progress
+		this.registerEvent(
+			(this.app.workspace as unknown as PodcastEvents).on('podcast:episode-changed', () => {
+				void this.refresh();
+			})
+		);
+	}
+
+	/**
+	 * Get the view type identifier
+	 */
+	getViewType(): string {
+		return STATISTICS_VIEW_TYPE;
+	}
+
+	/**
+	 * Get the display text for the view
+	 */
+	getDisplayText(): string {
+		return 'Listening statistics';
+	}
+
+	/**
+	 * Get the icon for the view
+	 */
+	getIcon(): string {
+		return 'bar-chart-2';
+	}
+
+	/**
+	 * Called when the view is opened
+	 */
+	async onOpen(): Promise<void> {
+		const container = this.containerEl.children[1];
+		container.empty();
+		container.addClass('podcast-statistics-view');
+
+		this.statisticsContentEl = container.createDiv({ cls: 'statistics-content' });
+		this.statisticsContentEl.createDiv({ cls: 'statistics-empty-state', text: 'Loading statistics…' });
+
+		await this.refresh();
+	}
+
+	/**
+	 * Called when the view is closed
+	 */
+	async onClose(): Promise<void> {
+		// Cleanup if needed
+	}
+
+	/**
+	 * Recalculate and render the statistics
+	 */
+	async refresh(): Promise<void> {
+		if (!this.statisticsContentEl) {
+			return;
+		}
+
+		// Ignore results of a refresh that was superseded by a newer one
+		const token = ++this.loadToken;
+
+		try {
+			const statistics = await this.plugin.getStatisticsService().getStatistics();
+			if (token !== this.loadToken) {
+				return;
+			}
+
+			this.statistics = statistics;
+			this.render();
+		} catch (error) {
+			if (token !== this.loadToken) {
+				return;
+			}
+			logger.error('Failed to load listening statistics', error);
+			this.statisticsContentEl.empty();
+			this.statisticsContentEl.createDiv({
+				cls: 'statistics-empty-state',
+				text: `Failed to load statistics: ${getErrorMessage(error)}`
+			});
+		}
+	}
+
+	/**
+	 * Render the dashboard
+	 */
+	private render(): void {
+		const stats = this.statistics;
+		if (!stats) {
+			return;
+		}
+
+		const contentEl = this.statisticsContentEl;
+		contentEl.empty();
+
+		const header = contentEl.createDiv({ cls: 'statistics-header' });
+		header.createEl('h2', { text: 'Listening statistics' });
+		const refreshBtn = header.createEl('button', {
+			cls: 'clickable-icon',
+			attr: { 'aria-label': 'Refresh' }
+		});
+		setIcon(refreshBtn, 'refresh-cw');
+		refreshBtn.addEventListener('click', () => {
+			void this.refresh();
+		});
+
+		if (stats.sessionCount === 0 && stats.episodes.completedEpisodes === 0 && stats.episodes.inProgressEpisodes === 0) {
+			contentEl.createDiv({
+				cls: 'statistics-empty-state',
+				text: 'Nothing to show yet. Statistics appear once you have listened to some episodes.'
+			});
+			return;
+		}
+
+		this.renderSummary(contentEl, stats);
+		this.renderTimeline(contentEl, stats);
+		this.renderEpisodes(contentEl, stats);
+		this.renderPodcasts(contentEl, stats);
+	}
+
+	/**
+	 * Render the summary cards
+	 */
+	private renderSummary(containerEl: HTMLElement, stats: ListeningStatistics): void {
+		const week = stats.timeline.week[stats.timeline.week.length - 1]?.seconds || 0;
+		const today = stats.timeline.day[stats.timeline.day.length - 1]?.seconds || 0;
+
+		const cards = containerEl.createDiv({ cls: 'statistics-cards' });
+		this.renderCard(cards, 'Total listening', formatDuration(stats.totalListeningTime));
+		this.renderCard(cards, 'Today', formatDuration(today));
+		this.renderCard(cards, 'This week', formatDuration(week));
+		this.renderCard(cards, 'Current streak', this.formatDays(stats.currentStreak));
+		this.renderCard(cards, 'Longest streak', this.formatDays(stats.longestStreak));
+		this.renderCard(cards, 'Average speed', `${stats.averageSpeed.toFixed(2)}x`);
+		this.renderCard(cards, 'Saved by speed-up', formatDuration(stats.timeSavedBySpeed));
+		this.renderCard(cards, 'Saved by skipping silence', formatDuration(stats.timeSavedBySilence));
+	}
+
+	private renderCard(containerEl: HTMLElement, label: string, value: string): void {
+		const card = containerEl.createDiv({ cls: 'statistics-card' });
+		card.createDiv({ cls: 'statistics-card-value', text: value });
+		card.createDiv({ cls: 'statistics-card-label', text: label });
+	}
+
+	/**
+	 * Render listening time per period as a bar chart
+	 */
+	private renderTimeline(containerEl: HTMLElement, stats: ListeningStatistics): void {
+		const section = containerEl.createDiv({ cls: 'statistics-section' });
+		const sectionHeader = section.createDiv({ cls: 'statistics-section-header' });
+		sectionHeader.createEl('h3', { text: 'Listening time' });
+
+		const periodSwitch = sectionHeader.createDiv({ cls: 'statistics-period-switch' });
+		for (const period of Object.keys(PERIOD_LABELS) as StatisticsPeriod[]) {
+			const btn = periodSwitch.createEl('button', { text: PERIOD_LABELS[period] });
+			btn.toggleClass('is-active', period === this.period);
+			btn.addEventListener('click', () => {
+				this.period = period;
+				this.render();
+			});
+		}
+
+		const buckets = stats.timeline[this.period];
+		const max = Math.max(...buckets.map(bucket => bucket.seconds), 1);
+		const chart = section.createDiv({ cls: 'statistics-chart' });
+
+		for (const bucket of buckets) {
+			const column = chart.createDiv({
+				cls: 'statistics-chart-column',
+				attr: { 'aria-label': `${this.formatBucket(bucket)}: ${formatDuration(bucket.seconds)}` }
+			});
+			const barArea = column.createDiv({ cls: 'statistics-chart-bar-area' });
+			const bar = barArea.createDiv({ cls: 'statistics-chart-bar' });
+			bar.setCssProps({ 'height': `${(bucket.seconds / max) * 100}%` });
+			column.createDiv({ cls: 'statistics-chart-label', text: this.formatBucket(bucket) });
+		}
+	}
+
+	/**
+	 * Render episode counts and the completion rate
+	 */
+	private renderEpisodes(containerEl: HTMLElement, stats: ListeningStatistics): void {
+		const section = containerEl.createDiv({ cls: 'statistics-section' });
+		section.createEl('h3', { text: 'Episodes' });
+
+		const cards = section.createDiv({ cls: 'statistics-cards' });
+		this.renderCard(cards, 'Completed', String(stats.episodes.completedEpisodes));
+		this.renderCard(cards, 'In progress', String(stats.episodes.inProgressEpisodes));
+		this.renderCard(cards, 'Unplayed', String(Math.max(0, stats.episodes.unplayedEpisodes)));
+		this.renderCard(cards, 'Completion rate', `${Math.round(stats.completionRate)}%`);
+
+		section.createDiv({
+			cls: 'setting-item-description',
+			text: 'Completion rate is the share of started episodes that were played to the end.'
+		});
+	}
+
+	/**
+	 * Render the per-podcast breakdown
+	 */
+	private renderPodcasts(containerEl: HTMLElement, stats: ListeningStatistics): void {
+		const section = containerEl.createDiv({ cls: 'statistics-section' });
+		section.createEl('h3', { text: 'Podcasts' });
+
+		if (stats.podcasts.length === 0) {
+			section.createDiv({ cls: 'statistics-empty-state', text: 'No podcasts listened to yet' });
+			return;
+		}
+
+		const maxTime = Math.max(...stats.podcasts.map(podcast => podcast.listeningTime), 1);
+		const table = section.createEl('table', { cls: 'statistics-podcast-table' });
+		const headRow = table.createEl('thead').createEl('tr');
+		for (const title of ['Podcast', 'Listened', 'Completed', 'Completion']) {
+			headRow.createEl('th', { text: title });
+		}
+
+		const body = table.createEl('tbody');
+		for (const podcast of stats.podcasts) {
+			const row = body.createEl('tr');
+			row.createEl('td', { text: podcast.title, cls: 'statistics-podcast-title' });
+
+			const timeCell = row.createEl('td');
+			timeCell.createSpan({ text: formatDuration(podcast.listeningTime) });
+			const share = timeCell.createDiv({ cls: 'statistics-podcast-share' });
+			share.setCssProps({ 'width': `${(podcast.listeningTime / maxTime) * 100}%` });
+
+			row.createEl('td', { text: `${podcast.completedEpisodes} / ${podcast.startedEpisodes}` });
+			row.createEl('td', { text: `${Math.round(podcast.completionRate)}%` });
+		}
+	}
+
+	private formatDays(days: number): string {
+		return `${days} ${days === 1 ? 'day' : 'days'}`;
+	}
+
+	/**
+	 * Short label of a timeline bucket
+	 */
+	private formatBucket(bucket: ListeningBucket): string {
+		switch (this.period) {
+			case 'day':
+				return bucket.start.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric' });
+			case 'week':
+				return bucket.start.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+			case 'month':
+				return bucket.start.toLocaleDateString(undefined, { month: 'short' });
+		}
+	}
+}
@@ -3,6 +3,7 @@
  *
  * Allows users to:
  * - Search for podcasts online
+ * - Browse the top charts and suggestions based on their subscriptions
  * - Enter an RSS/Atom feed URL directly
  * - Subscribe to the podcast
  * - Handle validation and errors
@@ -11,8 +12,18 @@
 import { App, Modal, Setting, Notice, setIcon } from 'obsidian';
 import type PodcastPlayerPlugin from '../../main';
 import { PodcastSearchResult } from '../model';
+import { AppleGenres, DISCOVER_COUNTRIES, PodcastSearchService, type DiscoverSuggestion } from '../podcast';
 import { logger } from '../utils/Logger';
 
+type SubscribeTab = 'search' | 'discover' | 'url' | 'file';
+
+const TAB_LABELS: Record<SubscribeTab, string> = {
+	search: 'Search online',
+	discover: 'Discover',
+	url: 'Add by URL',
+	file: 'From file',
+};
+
 /**
  * Modal for subscribing to a new podcast via search or RSS/Atom feed URL
  */
@@ -35,10 +46,13 @@ export class SubscribePodcastModal extends Modal {
 		this.onSubmit = onSubmit;
 	}
 
-	private activeTab: 'search' | 'url' | 'file' = 'search';
+	private activeTab: SubscribeTab = 'search';
 	private contentContainer: HTMLElement | null = null;
 	private opmlFeeds: { text: string; xmlUrl: string }[] = [];
 	private selectedOpmlFeeds: Set<string> = new Set();
+	private discoverGenreId = '';
+	private discoverResultsContainer: HTMLElement | null = null;
+	private discoverLoadToken = 0;
 
 	onOpen() {
 		const { contentEl } = this;
@@ -59,51 +73,27 @@ export class SubscribePodcastModal extends Modal {
 	private renderTabs(container: HTMLElement) {
 		const tabsContainer = container.createDiv({ cls: 'subscribe-modal-tabs' });
 
-		const searchTab = tabsContainer.createEl('button', {
-			text: 'Search online',
-			cls: 'subscribe-modal-tab'
-		});
-		if (this.activeTab === 'search') searchTab.addClass('active');
-
-		searchTab.onclick = () => {
-			if (this.activeTab === 'search') return;
-			this.activeTab = 'search';
-			this.updateTabStyles(tabsContainer);
-			this.renderContent();
-		};
-
-		const urlTab = tabsContainer.createEl('button', {
-			text: 'Add by URL',
-			cls: 'subscribe-modal-tab'
-		});
-		if (this.activeTab === 'url') urlTab.addClass('active');
-
-		urlTab.onclick = () => {
-			if (this.activeTab === 'url') return;
-			this.activeTab = 'url';
-			this.updateTabStyles(tabsContainer);
-			this.renderContent();
-		};
-
-		const fileTab = tabsContainer.createEl('button', {
-			text: 'From file',
-			cls: 'subscribe-modal-tab'
-		});
-		if (this.activeTab === 'file') fileTab.addClass('active');
+		for (const tab of Object.keys(TAB_LABELS) as SubscribeTab[]) {
+			const tabButton = tabsContainer.createEl('button', {
+				text: TAB_LABELS[tab],
+				cls: 'subscribe-modal-tab'
+			});
+			if (this.activeTab === tab) tabButton.addClass('active');
 
-		fileTab.onclick = () => {
-			if (this.activeTab === 'file') return;
-			this.activeTab = 'file';
-			this.updateTabStyles(tabsContainer);
-			this.renderContent();
-		};
+			tabButton.onclick = () => {
+				if (this.activeTab === tab) return;
+				this.activeTab = tab;
+				this.updateTabStyles(tabsContainer);
+				this.renderContent();
+			};
+		}
 	}
 
 	private updateTabStyles(tabsContainer: HTMLElement) {
 		const tabs = tabsContainer.querySelectorAll('.subscribe-modal-tab');
-		tabs[0].className = `subscribe-modal-tab ${this.activeTab === 'search' ? 'active' : ''}`;
-		tabs[1].className = `subscribe-modal-tab ${this.activeTab === 'url' ? 'active' : ''}`;
-		tabs[2].className = `subscribe-modal-tab ${this.activeTab === 'file' ? 'active' : ''}`;
+		(Object.keys(TAB_LABELS) as SubscribeTab[]).forEach((tab, index) => {
+			tabs[index].className = `subscribe-modal-tab ${this.activeTab === tab ? 'active' : ''}`;
+		});
 	}
 
 	private renderContent() {
@@ -116,6 +106,8 @@ export class SubscribePodcastModal extends Modal {
 			if (this.searchResults.length > 0) {
 				this.renderSearchResults();
 			}
+		} else if (this.activeTab === 'discover') {
+			this.renderDiscoverSection(this.contentContainer);
 		} else if (this.activeTab === 'url') {
 			this.renderUrlSection(this.contentContainer);
 		} else if (this.activeTab === 'file') {
@@ -191,6 +183,210 @@ export class SubscribePodcastModal extends Modal {
 		});
 	}
 
+	/**
+	 * Render the Discover section: suggestions and top charts
+	 */
+	private renderDiscoverSection(container: HTMLElement): void {
+		const discoverSection = container.createDiv({ cls: 'subscribe-discover-section' });
+
+		const controls = discoverSection.createDiv({ cls: 'subscribe-discover-controls' });
+
+		new Setting(controls)
+			.setName('Country')
+			.addDropdown(dropdown => {
+				const countries = Object.entries(DISCOVER_COUNTRIES).sort((a, b) => a[1].localeCompare(b[1]));
+				for (const [code, name] of countries) {
+					dropdown.addOption(code, name);
+				}
+				dropdown
+					.setValue(this.getDiscoverCountry())
+					.onChange(async (value) => {
+						this.plugin.settings.discoverCountry = value;
+						await this.plugin.saveSettings();
+						void this.loadDiscover();
+					});
+			});
+
+		new Setting(controls)
+			.setName('Genre')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'All genres');
+				for (const genre of AppleGenres.getAll()) {
+					dropdown.addOption(genre.id, genre.name);
+				}
+				dropdown
+					.setValue(this.discoverGenreId)
+					.onChange((value) => {
+						this.discoverGenreId = value;
+						void this.loadDiscover();
+					});
+			});
+
+		this.discoverResultsContainer = discoverSection.createDiv({ cls: 'subscribe-discover-results' });
+
+		void this.loadDiscover();
+	}
+
+	private getDiscoverCountry(): string {
+		const country = this.plugin.settings.discoverCountry;
+		return country in DISCOVER_COUNTRIES ? country : 'US';
+	}
+
+	/**
+	 * Load the chart for the selected country and genre, and suggestions when no genre is selected
+	 */
+	private async loadDiscover(): Promise<void> {
+		const container = this.discoverResultsContainer;
+		if (!container) return;
+
+		// Ignore results of a load that was superseded by a newer one
+		const token = ++this.discoverLoadToken;
+		const country = this.getDiscoverCountry();
+		const genreId = this.discoverGenreId;
+
+		container.empty();
+		container.createDiv({ cls: 'subscribe-loading', text: 'Loading charts...' });
+
+		const discoverService = this.plugin.getDiscoverService();
+		const [chart, suggestions, subscribed] = await Promise.allSettled([
+			discoverService.getTopPodcasts({ country, genreId: genreId || undefined }),
+			genreId ? Promise.resolve([]) : discoverService.getSuggestions(country),
+			discoverService.getSubscribedFeedUrls(),
+		]);
+
+		if (token !== this.discoverLoadToken) return;
+		container.empty();
+
+		const subscribedFeeds = subscribed.status === 'fulfilled' ? subscribed.value : new Set<string>();
+
+		if (suggestions.status === 'fulfilled') {
+			this.renderSuggestions(container, suggestions.value, subscribedFeeds);
+		} else {
+			logger.warn('Failed to load suggestions', suggestions.reason);
+		}
+
+		const genre = genreId ? AppleGenres.findById(genreId) : undefined;
+		container.createEl('h3', {
+			text: genre ? `Top ${genre.name} podcasts` : 'Top podcasts',
+			cls: 'subscribe-discover-heading'
+		});
+
+		if (chart.status === 'rejected') {
+			logger.error('Failed to load chart', chart.reason);
+			container.createDiv({
+				cls: 'subscribe-error',
+				text: 'Could not load the charts. Check your connection and try again.'
+			});
+			return;
+		}
+
+		if (chart.value.length === 0) {
+			container.createDiv({ cls: 'subscribe-no-results', text: 'No podcasts in this chart' });
+			return;
+		}
+
+		this.renderDiscoverGrid(container, chart.value, subscribedFeeds);
+	}
+
+	/**
+	 * Render "similar to your subscriptions" sections
+	 */
+	private renderSuggestions(
+		container: HTMLElement,
+		suggestions: DiscoverSuggestion[],
+		subscribedFeeds: Set<string>
+	): void {
+		for (const suggestion of suggestions) {
+			container.createEl('h3', {
+				text: `Popular in ${suggestion.genre.name}`,
+				cls: 'subscribe-discover-heading'
+			});
+			container.createEl('p', {
+				text: suggestion.subscriptionCount === 1
+					? `Similar to 1 of your subscriptions`
+					: `Similar to ${suggestion.subscriptionCount} of your subscriptions`,
+				cls: 'subscribe-discover-desc'
+			});
+			this.renderDiscoverGrid(container, suggestion.podcasts, subscribedFeeds);
+		}
+	}
+
+	/**
+	 * Render podcasts as an artwork grid with subscribe buttons
+	 */
+	private renderDiscoverGrid(
+		container: HTMLElement,
+		podcasts: PodcastSearchResult[],
+		subscribedFeeds: Set<string>
+	): void {
+		const grid = container.createDiv({ cls: 'subscribe-discover-grid' });
+
+		for (const podcast of podcasts) {
+			const card = grid.createDiv({ cls: 'subscribe-discover-card' });
+
+			if (podcast.artworkUrl) {
+				card.createEl('img', {
+					cls: 'subscribe-discover-artwork',
+					attr: {
+						src: podcast.artworkUrl,
+						alt: podcast.title,
+						loading: 'lazy'
+					}
+				});
+			} else {
+				const placeholder = card.createDiv({ cls: 'subscribe-discover-artwork-placeholder' });
+				setIcon(placeholder, 'mic');
+			}
+
+			card.createDiv({ text: podcast.title, cls: 'subscribe-discover-title', attr: { title: podcast.title } });
+			if (podcast.author) {
+				card.createDiv({ text: podcast.author, cls: 'subscribe-discover-author' });
+			}
+
+			const subscribeBtn = card.createEl('button', { cls: 'subscribe-discover-button' });
+			const feedKey = PodcastSearchService.normalizeFeedUrl(podcast.feedUrl);
+
+			if (subscribedFeeds.has(feedKey)) {
+				subscribeBtn.setText('Subscribed');
+				subscribeBtn.disabled = true;
+				continue;
+			}
+
+			subscribeBtn.setText('Subscribe');
+			subscribeBtn.addClass('mod-cta');
+			subscribeBtn.addEventListener('click', () => {
+				void this.handleSubscribeFromDiscover(podcast, subscribeBtn, subscribedFeeds);
+			});
+		}
+	}
+
+	/**
+	 * Subscribe to a chart podcast, keeping the modal open to subscribe to more
+	 */
+	private async handleSubscribeFromDiscover(
+		podcast: PodcastSearchResult,
+		button: HTMLButtonElement,
+		subscribedFeeds: Set<string>
+	): Promise<void> {
+		button.disabled = true;
+		button.setText('Subscribing...');
+
+		const result = await this.plugin.getPodcastService().subscribe(podcast.feedUrl);
+
+		if (result.success && result.podcast) {
+			subscribedFeeds.add(PodcastSearchService.normalizeFeedUrl(podcast.feedUrl));
+			button.removeClass('mod-cta');
+			button.setText('Subscribed');
+			new Notice(`Successfully subscribed to: ${result.podcast.title}`);
+			void this.onSubmit(result.podcast.id);
+		} else {
+			logger.error(`Failed to subscribe to ${podcast.feedUrl}`, result.error);
+			button.disabled = false;
+			button.setText('Subscribe');
+			new Notice(result.error || 'Failed to subscribe to podcast');
+		}
+	}
+
 	/**
 	 * Render the URL input section
 	 */
@@ -514,6 +710,22 @@ export class SubscribePodcastModal extends Modal {
 		}
 	}
 
+	/**
+	 * Names of the directories that found a result, when more than one directory is searched
+	 */
+	private getSourceNames(result: PodcastSearchResult): string | null {
+		const providers = this.plugin.getPodcastService().getSearchProviders()
+			.filter(provider => provider.isConfigured());
+		if (providers.length < 2 || !result.sources) {
+			return null;
+		}
+
+		return providers
+			.filter(provider => result.sources!.includes(provider.id))
+			.map(provider => provider.name)
+			.join(' · ');
+	}
+
 	/**
 	 * Render a single search result item
 	 */
@@ -543,6 +755,10 @@ export class SubscribePodcastModal extends Modal {
 		if (result.author) {
 			info.createEl('p', { text: result.author, cls: 'subscribe-result-author' });
 		}
+		const sourceNames = this.getSourceNames(result);
+		if (sourceNames) {
+			info.createEl('p', { text: sourceNames, cls: 'subscribe-result-sources' });
+		}
 		if (result.description) {
 			const desc = info.createEl('p', {
 				text: result.description,
@@ -763,5 +979,7 @@ export class SubscribePodcastModal extends Modal {
 		this.selectedFeeds.clear();
 		this.opmlFeeds = [];
 		this.selectedOpmlFeeds.clear();
+		this.discoverResultsContainer = null;
+		this.discoverLoadToken++;
 	}
 }
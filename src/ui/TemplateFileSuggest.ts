@@ -0,0 +1,41 @@
+/**
+ * TemplateFileSuggest - File picker for template path inputs
+ *
+ * Suggests markdown files of the vault below a text input, like the
+ * template folder pickers of core Templates and Templater.
+ */
+
+import { AbstractInputSuggest, App, TFile } from 'obsidian';
+
+const MAX_SUGGESTIONS = 50;
+
+/**
+ * Suggests markdown files for a template path text input
+ */
+export class TemplateFileSuggest extends AbstractInputSuggest<TFile> {
+	private inputEl: HTMLInputElement;
+
+	constructor(app: App, inputEl: HTMLInputElement) {
+		super(app, inputEl);
+		this.inputEl = inputEl;
+		this.limit = MAX_SUGGESTIONS;
+	}
+
+	protected getSuggestions(query: string): TFile[] {
+		const lowerQuery = query.toLowerCase().trim();
+		return this.app.vault.getMarkdownFiles()
+			.filter(file => file.path.toLowerCase().includes(lowerQuery))
+			.sort((a, b) => a.path.localeCompare(b.path));
+	}
+
+	renderSuggestion(file: TFile, el: HTMLElement): void {
+		el.setText(file.path);
+	}
+
+	selectSuggestion(file: TFile): void {
+		this.setValue(file.path);
+		// Let the text component's onChange handler save the choice
+		this.inputEl.trigger('input');
+		this.close();
+	}
+}
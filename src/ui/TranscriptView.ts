@@ -0,0 +1,271 @@
+/**
+ * TranscriptView - Synced transcript pane
+ *
+ * Shows the transcript of the playing episode, highlights and follows the
+ * current cue, seeks on click and quotes cues into the active note.
+ */
+
+import { ItemView, WorkspaceLeaf, setIcon, Notice, Events } from 'obsidian';
+import type PodcastPlayerPlugin from '../../main';
+import { Episode, TranscriptCue } from '../model';
+import { TranscriptParser } from '../transcript';
+import { TimestampFormatter } from '../markdown';
+import { formatTime } from '../utils/timeUtils';
+import { getErrorMessage } from '../utils/errorUtils';
+import { logger } from '../utils/Logger';
+
+export const TRANSCRIPT_VIEW_TYPE = 'podcast-transcript-view';
+
+// Type-safe event registration helper
+type PodcastEvents = Events & {
+	on(name: 'podcast:episode-changed', callback: () => void): ReturnType<Events['on']>;
+	on(name: 'podcast:time-updated', callback: (position: number) => void): ReturnType<Events['on']>;
+};
+
+/**
+ * TranscriptView - Displays the transcript of the current episode
+ */
+export class TranscriptView extends ItemView {
+	plugin: PodcastPlayerPlugin;
+	private transcriptContentEl: HTMLElement;
+	private cueListEl: HTMLElement | null = null;
+	private episodeId: string | null = null;
+	private cues: TranscriptCue[] = [];
+	private currentCueIndex: number = -1;
+	private followPlayback: boolean = true;
+	private loadToken: number = 0;
+
+	constructor(leaf: WorkspaceLeaf, plugin: PodcastPlayerPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	onload() {
+		super.onload();
+
+		this.registerEvent(
+			(this.app.workspace as unknown as PodcastEvents).on('podcast:episode-changed', () => {
+				void this.loadCurrentEpisode();
+			})
+		);
+
+		this.registerEvent(
+			(this.app.workspace as unknown as PodcastEvents).on('podcast:time-updated', (position: number) => {
+				this.highlightCue(position);
+			})
+		);
+	}
+
+	/**
+	 * Get the view type identifier
+	 */
+	getViewType(): string {
+		return TRANSCRIPT_VIEW_TYPE;
+	}
+
+	/**
+	 * Get the display text for the view
+	 */
+	getDisplayText(): string {
+		return 'Podcast transcript';
+	}
+
+	/**
+	 * Get the icon for the view
+	 */
+	getIcon(): string {
+		return 'captions';
+	}
+
+	/**
+	 * Called when the view is opened
+	 */
+	async onOpen(): Promise<void> {
+		const container = this.containerEl.children[1];
+		container.empty();
+		container.addClass('podcast-transcript-view');
+
+		this.transcriptContentEl = container.createDiv({ cls: 'transcript-content' });
+
+		await this.loadCurrentEpisode();
+	}
+
+	/**
+	 * Called when the view is closed
+	 */
+	async onClose(): Promise<void> {
+		// Cleanup if needed
+	}
+
+	/**
+	 * Load the transcript of the episode that is currently loaded in the player
+	 */
+	private async loadCurrentEpisode(): Promise<void> {
+		const episode = this.plugin.playerController.getCurrentEpisode();
+
+		if (episode?.id === this.episodeId && this.cues.length > 0) {
+			return;
+		}
+
+		this.episodeId = episode?.id || null;
+		this.cues = [];
+		this.currentCueIndex = -1;
+		this.cueListEl = null;
+
+		if (!episode) {
+			this.renderMessage('No episode playing');
+			return;
+		}
+
+		const transcriptService = this.plugin.getTranscriptService();
+		if (!transcriptService.hasTranscript(episode)) {
+			this.renderMessage('This episode has no transcript');
+			return;
+		}
+
+		// Ignore results of a load that was superseded by a newer episode change
+		const token = ++this.loadToken;
+		this.renderMessage('Loading transcript…');
+
+		try {
+			const transcript = await transcriptService.getTranscript(episode);
+			if (token !== this.loadToken) {
+				return;
+			}
+
+			if (!transcript || transcript.cues.length === 0) {
+				this.renderMessage('The transcript is empty');
+				return;
+			}
+
+			this.cues = transcript.cues;
+			this.renderTranscript(episode);
+			this.highlightCue(this.plugin.playerController.getCurrentPosition());
+		} catch (error) {
+			if (token !== this.loadToken) {
+				return;
+			}
+			logger.error('Failed to load transcript', error);
+			this.renderMessage(`Failed to load transcript: ${getErrorMessage(error)}`);
+		}
+	}
+
+	/**
+	 * Render a status message in place of the transcript
+	 */
+	private renderMessage(message: string): void {
+		this.transcriptContentEl.empty();
+		this.transcriptContentEl.createDiv({ cls: 'transcript-empty-state', text: message });
+	}
+
+	/**
+	 * Render the transcript cues
+	 */
+	private renderTranscript(episode: Episode): void {
+		this.transcriptContentEl.empty();
+
+		const header = this.transcriptContentEl.createDiv({ cls: 'transcript-header' });
+		header.createEl('h3', { text: episode.title, cls: 'transcript-title' });
+
+		const followBtn = header.createEl('button', {
+			cls: 'transcript-follow-button clickable-icon',
+			attr: { 'aria-label': 'Follow playback' }
+		});
+		setIcon(followBtn, 'locate');
+		followBtn.toggleClass('is-active', this.followPlayback);
+		followBtn.addEventListener('click', () => {
+			this.followPlayback = !this.followPlayback;
+			followBtn.toggleClass('is-active', this.followPlayback);
+			if (this.followPlayback) {
+				this.scrollToCurrentCue();
+			}
+		});
+
+		this.cueListEl = this.transcriptContentEl.createDiv({ cls: 'transcript-cue-list' });
+
+		this.cues.forEach((cue, index) => {
+			const cueEl = this.cueListEl!.createDiv({ cls: 'transcript-cue', attr: { 'data-index': String(index) } });
+
+			const metaEl = cueEl.createDiv({ cls: 'transcript-cue-meta' });
+			metaEl.createSpan({ text: formatTime(cue.startTime), cls: 'transcript-cue-time' });
+			if (cue.speaker) {
+				metaEl.createSpan({ text: cue.speaker, cls: 'transcript-cue-speaker' });
+			}
+
+			const quoteBtn = metaEl.createSpan({
+				cls: 'transcript-cue-quote clickable-icon',
+				attr: { 'aria-label': 'Quote in active note' }
+			});
+			setIcon(quoteBtn, 'quote');
+			quoteBtn.addEventListener('click', (e) => {
+				e.stopPropagation();
+				void this.quoteCue(cue, episode);
+			});
+
+			cueEl.createDiv({ text: cue.text, cls: 'transcript-cue-text' });
+
+			cueEl.addEventListener('click', () => {
+				this.plugin.playerController.seek(cue.startTime);
+				this.highlightCue(cue.startTime);
+			});
+		});
+	}
+
+	/**
+	 * Highlight the cue playing at a position
+	 */
+	private highlightCue(position: number): void {
+		if (!this.cueListEl || this.cues.length === 0) {
+			return;
+		}
+
+		// Only react to time updates of the episode this transcript belongs to
+		if (this.plugin.playerController.getCurrentEpisode()?.id !== this.episodeId) {
+			return;
+		}
+
+		const index = TranscriptParser.findCueIndex(this.cues, position);
+		if (index === this.currentCueIndex) {
+			return;
+		}
+
+		this.cueListEl.children[this.currentCueIndex]?.removeClass('current');
+		this.currentCueIndex = index;
+		this.cueListEl.children[index]?.addClass('current');
+
+		if (this.followPlayback) {
+			this.scrollToCurrentCue();
+		}
+	}
+
+	/**
+	 * Scroll the current cue into view
+	 */
+	private scrollToCurrentCue(): void {
+		const cueEl = this.cueListEl?.children[this.currentCueIndex] as HTMLElement | undefined;
+		cueEl?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+	}
+
+	/**
+	 * Insert a cue as a quote with timestamp into the active note
+	 * Falls back to the clipboard when no note is open.
+	 */
+	private async quoteCue(cue: TranscriptCue, episode: Episode): Promise<void> {
+		const quote = TimestampFormatter.formatQuote(cue.text, cue.startTime, episode, cue.speaker);
+		const editor = this.app.workspace.activeEditor?.editor;
+
+		if (editor) {
+			editor.replaceSelection(`${quote}\n\n`);
+			new Notice('Quote inserted');
+			return;
+		}
+
+		try {
+			await navigator.clipboard.writeText(quote);
+			new Notice('No active note, quote copied to clipboard');
+		} catch (error) {
+			logger.error('Failed to copy quote', error);
+			new Notice('Failed to copy quote');
+		}
+	}
+}
@@ -8,9 +8,17 @@ export { PodcastPlayerSettingTab } from './SettingsTab';
 export { PlayerView, PLAYER_VIEW_TYPE } from './PlayerView';
 export { PodcastSidebarView, PODCAST_SIDEBAR_VIEW_TYPE } from './PodcastSidebarView';
 export { PlaylistQueueView, PLAYLIST_QUEUE_VIEW_TYPE } from './PlaylistQueueView';
+export { TranscriptView, TRANSCRIPT_VIEW_TYPE } from './TranscriptView';
+export { StatisticsView, STATISTICS_VIEW_TYPE } from './StatisticsView';
+export { EpisodeSearchView, EPISODE_SEARCH_VIEW_TYPE } from './EpisodeSearchView';
+export { EpisodeBlockPlayer } from './EpisodeBlockPlayer';
 export { AddToQueueModal } from './AddToQueueModal';
 export { AddToPlaylistModal } from './AddToPlaylistModal';
+export { SmartPlaylistModal } from './SmartPlaylistModal';
 export { SubscribePodcastModal } from './SubscribePodcastModal';
 export { PodcastSettingsModal } from './PodcastSettingsModal';
 export { EpisodeDetailModal } from './EpisodeDetailModal';
 export { TextInputModal } from './TextInputModal';
+export { AddNoteModal } from './AddNoteModal';
+export { NotificationHistoryModal } from './NotificationHistoryModal';
+export { SleepTimerModal } from './SleepTimerModal';
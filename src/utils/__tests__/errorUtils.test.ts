@@ -6,11 +6,13 @@ import {
 	PodcastPlayerError,
 	FeedParseError,
 	NetworkError,
+	FeedGoneError,
 	AudioPlaybackError,
 	StorageError,
 	handleError,
 	getErrorMessage,
 	isNetworkError,
+	getErrorStatus,
 	withErrorHandling,
 	retryWithBackoff,
 	sleep,
@@ -178,6 +180,29 @@ describe('errorUtils', () => {
 		});
 	});
 
+	describe('getErrorStatus', () => {
+		it('should return the status of a NetworkError', () => {
+			const error = new NetworkError('HTTP 503', 'https://example.com', undefined, 503);
+			expect(getErrorStatus(error)).toBe(503);
+		});
+
+		it('should find the status of a wrapped error', () => {
+			const cause = new NetworkError('HTTP 404', 'https://example.com', undefined, 404);
+			const error = new NetworkError('Failed to fetch feed', 'https://example.com', cause);
+			expect(getErrorStatus(error)).toBe(404);
+		});
+
+		it('should return 410 for FeedGoneError', () => {
+			expect(getErrorStatus(new FeedGoneError('Gone', 'https://example.com'))).toBe(410);
+		});
+
+		it('should return undefined without a status', () => {
+			expect(getErrorStatus(new NetworkError('Connection failed', 'https://example.com'))).toBeUndefined();
+			expect(getErrorStatus(new Error('Parse error'))).toBeUndefined();
+			expect(getErrorStatus('error')).toBeUndefined();
+		});
+	});
+
 	describe('isNetworkError', () => {
 		it('should return true for NetworkError', () => {
 			const error = new NetworkError('Connection failed', 'https://example.com');
@@ -26,12 +26,28 @@ export class FeedParseError extends PodcastPlayerError {
 }
 
 export class NetworkError extends PodcastPlayerError {
-	constructor(message: string, public readonly url: string, public readonly cause?: Error) {
+	constructor(
+		message: string,
+		public readonly url: string,
+		public readonly cause?: Error,
+		/** HTTP status of the failed response */
+		public readonly status?: number
+	) {
 		super(message, 'NETWORK_ERROR');
 		this.name = 'NetworkError';
 	}
 }
 
+/**
+ * The feed was removed for good (HTTP 410 Gone)
+ */
+export class FeedGoneError extends PodcastPlayerError {
+	constructor(message: string, public readonly feedUrl: string) {
+		super(message, 'FEED_GONE');
+		this.name = 'FeedGoneError';
+	}
+}
+
 export class AudioPlaybackError extends PodcastPlayerError {
 	constructor(message: string, public readonly audioUrl?: string, public readonly cause?: Error) {
 		super(message, 'AUDIO_PLAYBACK_ERROR');
@@ -91,6 +107,25 @@ export function getErrorMessage(error: unknown): string {
 	return 'An unknown error occurred';
 }
 
+/**
+ * Get the HTTP status behind an error, looking through wrapped causes
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+	let current: unknown = error;
+
+	for (let depth = 0; depth < 5 && current instanceof Error; depth++) {
+		if (current instanceof FeedGoneError) {
+			return 410;
+		}
+		if (current instanceof NetworkError && current.status !== undefined) {
+			return current.status;
+		}
+		current = (current as Error & { cause?: unknown }).cause;
+	}
+
+	return undefined;
+}
+
 /**
  * Check if an error is a network error
  */